@@ -7,11 +7,14 @@ import nodeProcess from 'node:process'
 import { CAC } from 'cac'
 import { version } from '../package.json'
 import {
+  registerBackupCommands,
+  registerEventCommands,
   registerLocalCommands,
   registerMigrateCommands,
   registerModelsCommands,
   registerQueryCommands,
   registerSchemaCommands,
+  registerSeedCommands,
   registerTableCommands,
   registerUtilityCommands,
 } from '../src/cli/commands'
@@ -22,10 +25,13 @@ const cli = new CAC('dbtooling')
 registerTableCommands(cli)
 registerMigrateCommands(cli)
 registerQueryCommands(cli)
+registerSeedCommands(cli)
 registerUtilityCommands(cli)
+registerBackupCommands(cli)
 registerLocalCommands(cli)
 registerSchemaCommands(cli)
 registerModelsCommands(cli)
+registerEventCommands(cli)
 
 // config - Show current configuration
 cli
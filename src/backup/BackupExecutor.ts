@@ -0,0 +1,391 @@
+// ============================================================================
+// Backup Executor - Runs BackupManager commands through a driver
+// ============================================================================
+
+import type { DriverPlugin, TableDescription } from '../drivers/types'
+import type { SchemaChange } from '../migrations/SchemaDiffer'
+import type { ModelRegistry } from '../model-parser/types'
+import type { Config } from '../types'
+import type { BackupDetails, CreateBackupOptions, CreateLocalBackupOptions, ListBackupsOptions, PITRDescription, RestoreLocalBackupOptions, RestoreOptions } from './BackupManager'
+import { generateSchemaFromRegistry } from '../migrations/AutoSchemaGenerator'
+import { createMigrationStateFromTable, diffSchemas } from '../migrations/SchemaDiffer'
+import { BackupManager } from './BackupManager'
+import { readLocalBackupManifest, restoreLocalBackup, toLocalBackupDetails, writeLocalBackup } from './LocalBackup'
+
+/**
+ * Progress of a backup or restore while it is polled
+ */
+export interface BackupProgress {
+  /** Operation being waited on */
+  operation: 'backup' | 'restore'
+  /** Backup name or restored table name */
+  target: string
+  /** Latest backup or table status */
+  status: string
+  /** Time since the command was sent */
+  elapsedMs: number
+  /** Items copied so far (local backups and restores) */
+  itemCount?: number
+}
+
+/**
+ * Backup executor options
+ */
+export interface BackupExecutorOptions {
+  /** Manager used to build the commands (default: a new BackupManager) */
+  manager?: BackupManager
+  /** Delay between status checks in milliseconds (default: 5000) */
+  pollIntervalMs?: number
+  /** Maximum time to wait for a backup or restore in milliseconds (default: 30 minutes) */
+  timeoutMs?: number
+  /** Called after every status check */
+  onProgress?: (_progress: BackupProgress) => void
+}
+
+/**
+ * Models a restored table is checked against
+ */
+export interface RestoreVerification {
+  /** Parsed models */
+  registry: ModelRegistry
+  /** Configuration used to generate the expected schema */
+  config: Config
+}
+
+/**
+ * Restore options for the executor
+ */
+export interface ExecuteRestoreOptions extends RestoreOptions {
+  /** Check the restored table against the models before reporting success */
+  verify?: RestoreVerification
+}
+
+/**
+ * Local backup restore options for the executor
+ */
+export interface ExecuteLocalRestoreOptions extends RestoreLocalBackupOptions {
+  /** Check the restored table against the models before reporting success */
+  verify?: RestoreVerification
+}
+
+/**
+ * Result of a completed restore
+ */
+export interface RestoreResult {
+  /** Restored table name */
+  tableName: string
+  /** Description of the restored table once active */
+  description: TableDescription
+  /** Whether the table was checked against the models */
+  verified: boolean
+}
+
+/**
+ * Error raised when a restored table does not match the models
+ */
+export class RestoreVerificationError extends Error {
+  public readonly tableName: string
+  public readonly mismatches: SchemaChange[]
+
+  constructor(tableName: string, mismatches: SchemaChange[]) {
+    super(`Restored table '${tableName}' does not match the models: ${mismatches.map(m => m.description).join('; ')}`)
+    this.name = 'RestoreVerificationError'
+    this.tableName = tableName
+    this.mismatches = mismatches
+  }
+}
+
+/**
+ * Sends `BackupManager` commands through a driver and waits for them to
+ * finish: backups until they are `AVAILABLE`, restores until the new
+ * table is `ACTIVE`.
+ *
+ * @example
+ * ```typescript
+ * const executor = createBackupExecutor(driver, { onProgress: p => console.log(p.status) })
+ * const backup = await executor.createBackup({ tableName: 'MainTable', backupName: 'nightly' })
+ * await executor.restoreFromBackup({ backupArn: backup.arn, targetTableName: 'MainTable-restored' })
+ * ```
+ */
+export class BackupExecutor {
+  private driver: DriverPlugin
+  private manager: BackupManager
+  private pollIntervalMs: number
+  private timeoutMs: number
+  private onProgress?: (_progress: BackupProgress) => void
+
+  constructor(driver: DriverPlugin, options: BackupExecutorOptions = {}) {
+    this.driver = driver
+    this.manager = options.manager ?? new BackupManager()
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000
+    this.timeoutMs = options.timeoutMs ?? 30 * 60 * 1000
+    this.onProgress = options.onProgress
+  }
+
+  /**
+   * Create a backup and wait until it is available
+   */
+  async createBackup(options: CreateBackupOptions): Promise<BackupDetails> {
+    const startedAt = Date.now()
+    let backup = await this.startBackup(options)
+    for (;;) {
+      this.onProgress?.({ operation: 'backup', target: options.backupName, status: backup.status, elapsedMs: Date.now() - startedAt })
+      if (backup.status === 'AVAILABLE') {
+        return backup
+      }
+      if (backup.status === 'DELETED') {
+        throw new Error(`Backup '${options.backupName}' was deleted before it became available`)
+      }
+      await this.pause(startedAt, `Backup '${options.backupName}' was not available within ${this.timeoutMs}ms`)
+      backup = await this.describeBackup(backup.arn)
+    }
+  }
+
+  /**
+   * Request a backup without waiting for it; the backup is usually still
+   * `CREATING` when this returns
+   */
+  async startBackup(options: CreateBackupOptions): Promise<BackupDetails> {
+    const response = await this.send<{ BackupDetails?: WireBackupDetails }>(this.manager.createBackup(options))
+    const arn = response.BackupDetails?.BackupArn
+    if (!arn) {
+      throw new Error(`CreateBackup for table '${options.tableName}' returned no backup ARN`)
+    }
+    return this.describeBackup(arn)
+  }
+
+  /**
+   * Create a local backup: a logical snapshot of the table written to a
+   * directory by a parallel scan. Works with any driver, including
+   * DynamoDB Local, which has no native backups.
+   */
+  async createLocalBackup(options: CreateLocalBackupOptions): Promise<BackupDetails> {
+    const { input } = this.manager.createLocalBackup(options)
+    const startedAt = Date.now()
+    const manifest = await writeLocalBackup(this.driver, input, (itemCount) => {
+      this.onProgress?.({ operation: 'backup', target: options.backupName, status: 'SCANNING', elapsedMs: Date.now() - startedAt, itemCount })
+    })
+    return toLocalBackupDetails(manifest, options.directory)
+  }
+
+  /**
+   * Describe a local backup from its manifest
+   */
+  async describeLocalBackup(directory: string): Promise<BackupDetails> {
+    return toLocalBackupDetails(await readLocalBackupManifest(directory), directory)
+  }
+
+  /**
+   * Describe a backup
+   */
+  async describeBackup(backupArn: string): Promise<BackupDetails> {
+    const response = await this.send<WireBackupDescription>(this.manager.describeBackup(backupArn))
+    const backup = BackupManager.parseBackupDescription(response)
+    if (!backup) {
+      throw new Error(`DescribeBackup returned no details for ${backupArn}`)
+    }
+    return backup
+  }
+
+  /**
+   * List backups, following pages until `limit` backups are found
+   */
+  async listBackups(options: ListBackupsOptions = {}): Promise<BackupDetails[]> {
+    const backups: BackupDetails[] = []
+    let nextToken = options.nextToken
+
+    do {
+      const remaining = options.limit === undefined ? undefined : options.limit - backups.length
+      const response = await this.send<{
+        BackupSummaries?: Array<WireBackupDetails & { TableName?: string, TableArn?: string }>
+        LastEvaluatedBackupArn?: string
+      }>(this.manager.listBackups({ ...options, limit: remaining, nextToken }))
+
+      for (const summary of response.BackupSummaries ?? []) {
+        const backup = BackupManager.parseBackupDescription({
+          BackupDescription: {
+            BackupDetails: summary,
+            SourceTableDetails: { TableName: summary.TableName, TableArn: summary.TableArn },
+          },
+        })
+        if (backup) {
+          backups.push(backup)
+        }
+      }
+      nextToken = response.LastEvaluatedBackupArn
+    } while (nextToken && (options.limit === undefined || backups.length < options.limit))
+
+    return backups
+  }
+
+  /**
+   * Delete a backup
+   */
+  async deleteBackup(backupArn: string): Promise<BackupDetails | null> {
+    return BackupManager.parseBackupDescription(await this.send<WireBackupDescription>(this.manager.deleteBackup(backupArn)))
+  }
+
+  /**
+   * Restore a backup into a new table and wait until the table is active
+   */
+  async restoreFromBackup(options: ExecuteRestoreOptions): Promise<RestoreResult> {
+    await this.send<unknown>(this.manager.restoreFromBackup(options))
+    return this.completeRestore(options)
+  }
+
+  /**
+   * Restore a local backup into a new table, created from the schema in the
+   * manifest. Fails before creating the table if any data chunk is damaged.
+   */
+  async restoreFromLocalBackup(options: ExecuteLocalRestoreOptions): Promise<RestoreResult> {
+    const { input } = this.manager.restoreFromLocalBackup(options)
+    const startedAt = Date.now()
+    const { tableName } = await restoreLocalBackup(this.driver, input, (itemCount, target) => {
+      this.onProgress?.({ operation: 'restore', target, status: 'WRITING', elapsedMs: Date.now() - startedAt, itemCount })
+    })
+    return this.completeRestore({ targetTableName: tableName, verify: options.verify })
+  }
+
+  /**
+   * Restore a table to a point in time and wait until the new table is active
+   */
+  async restoreToPointInTime(options: ExecuteRestoreOptions): Promise<RestoreResult> {
+    await this.send<unknown>(this.manager.restoreToPointInTime(options))
+    return this.completeRestore(options)
+  }
+
+  /**
+   * Enable point-in-time recovery
+   */
+  async enablePITR(tableName: string): Promise<PITRDescription> {
+    return BackupManager.parsePITRDescription(await this.send<WirePITRDescription>(this.manager.enablePITR(tableName)))
+  }
+
+  /**
+   * Disable point-in-time recovery
+   */
+  async disablePITR(tableName: string): Promise<PITRDescription> {
+    return BackupManager.parsePITRDescription(await this.send<WirePITRDescription>(this.manager.disablePITR(tableName)))
+  }
+
+  /**
+   * Describe point-in-time recovery for a table
+   */
+  async describePITR(tableName: string): Promise<PITRDescription> {
+    return BackupManager.parsePITRDescription(await this.send<WirePITRDescription>(this.manager.describeContinuousBackups(tableName)))
+  }
+
+  /**
+   * Send a command descriptor, reading wire timestamps as dates
+   */
+  private async send<T>(descriptor: { command: string, input: object }): Promise<T> {
+    if (!this.driver.sendCommand) {
+      throw new Error(`The ${this.driver.name} driver does not support ${descriptor.command}`)
+    }
+    return reviveDates(await this.driver.sendCommand(descriptor.command, descriptor.input as Record<string, unknown>)) as T
+  }
+
+  private async completeRestore(options: Pick<ExecuteRestoreOptions, 'targetTableName' | 'verify'>): Promise<RestoreResult> {
+    const tableName = options.targetTableName
+    const startedAt = Date.now()
+    let description = await this.driver.describeTable(tableName)
+
+    for (;;) {
+      this.onProgress?.({ operation: 'restore', target: tableName, status: description.tableStatus, elapsedMs: Date.now() - startedAt })
+      if (description.tableStatus === 'ACTIVE') {
+        break
+      }
+      await this.pause(startedAt, `Restored table '${tableName}' was not active within ${this.timeoutMs}ms`)
+      description = await this.driver.describeTable(tableName)
+    }
+
+    if (options.verify) {
+      const mismatches = findRestoreMismatches(description, options.verify)
+      if (mismatches.length > 0) {
+        throw new RestoreVerificationError(tableName, mismatches)
+      }
+    }
+
+    return { tableName, description, verified: Boolean(options.verify) }
+  }
+
+  private async pause(startedAt: number, timeoutMessage: string): Promise<void> {
+    if (Date.now() - startedAt + this.pollIntervalMs > this.timeoutMs) {
+      throw new Error(timeoutMessage)
+    }
+    await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs))
+  }
+}
+
+/**
+ * Compare a restored table with the schema generated from the models.
+ * Only keys and indexes are compared: restores do not carry over streams,
+ * TTL, tags or auto scaling, so those settings are expected to differ.
+ */
+export function findRestoreMismatches(description: TableDescription, verification: RestoreVerification): SchemaChange[] {
+  const { registry, config } = verification
+  const expected = generateSchemaFromRegistry(registry, config).createTableInput
+  const mismatches: SchemaChange[] = []
+
+  const keys = (schema: Array<{ attributeName: string, keyType: string }>) =>
+    schema.map(k => `${k.attributeName} (${k.keyType})`).join(', ')
+  if (keys(description.keySchema) !== keys(expected.keySchema)) {
+    mismatches.push({
+      type: 'table_settings',
+      severity: 'critical',
+      description: 'Table key schema differs from the models',
+      affectedComponent: 'keySchema',
+      previousValue: description.keySchema,
+      newValue: expected.keySchema,
+      details: `${keys(description.keySchema)} → ${keys(expected.keySchema)}`,
+      requiresDataMigration: true,
+      isBreaking: true,
+    })
+  }
+
+  const state = createMigrationStateFromTable(description, { entityTypes: [...registry.models.keys()] })
+  const indexChanges = new Set(['gsi_add', 'gsi_remove', 'gsi_modify', 'lsi_add', 'lsi_remove'])
+  mismatches.push(...diffSchemas(registry, state, config).changes.filter(change => indexChanges.has(change.type)))
+
+  return mismatches
+}
+
+/**
+ * Create a backup executor
+ */
+export function createBackupExecutor(driver: DriverPlugin, options?: BackupExecutorOptions): BackupExecutor {
+  return new BackupExecutor(driver, options)
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+type WireBackupDescription = Parameters<typeof BackupManager.parseBackupDescription>[0]
+type WirePITRDescription = Parameters<typeof BackupManager.parsePITRDescription>[0]
+
+interface WireBackupDetails {
+  BackupArn?: string
+  BackupName?: string
+  BackupStatus?: string
+  BackupType?: string
+  BackupCreationDateTime?: Date
+  BackupExpiryDateTime?: Date
+  BackupSizeBytes?: number
+}
+
+/**
+ * Convert `*DateTime` fields sent as epoch seconds into dates
+ */
+function reviveDates(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(reviveDates)
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    key.endsWith('DateTime') && typeof field === 'number' ? new Date(field * 1000) : reviveDates(field),
+  ]))
+}
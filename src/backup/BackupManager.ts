@@ -10,7 +10,7 @@ export type BackupStatus = 'CREATING' | 'DELETED' | 'AVAILABLE'
 /**
  * Backup type
  */
-export type BackupType = 'USER' | 'SYSTEM' | 'AWS_BACKUP'
+export type BackupType = 'USER' | 'SYSTEM' | 'AWS_BACKUP' | 'LOCAL'
 
 /**
  * Point-in-time recovery status
@@ -55,6 +55,35 @@ export interface CreateBackupOptions {
   tags?: Record<string, string>
 }
 
+/**
+ * Local backup options. A local backup is a logical snapshot written to a
+ * directory: a manifest with the table schema plus DynamoDB-JSON data chunks.
+ */
+export interface CreateLocalBackupOptions extends Omit<CreateBackupOptions, 'tags'> {
+  /** Directory to write the backup to; it must not already hold one */
+  directory: string
+  /** Gzip the data chunks */
+  gzip?: boolean
+  /** Parallel scan segments (default: 4) */
+  totalSegments?: number
+  /** Items per data chunk (default: 10000) */
+  chunkSize?: number
+  /** Use strongly consistent reads */
+  consistentRead?: boolean
+}
+
+/**
+ * Local backup restore options
+ */
+export interface RestoreLocalBackupOptions extends Pick<RestoreOptions, 'billingMode' | 'provisionedThroughput'> {
+  /** Directory holding the backup */
+  directory: string
+  /** Target table name (default: the backed up table) */
+  targetTableName?: string
+  /** Data chunks written in parallel (default: 4) */
+  concurrency?: number
+}
+
 /**
  * Backup list options
  */
@@ -167,6 +196,35 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Create a local backup (returns command for the backup executor)
+   */
+  createLocalBackup(options: CreateLocalBackupOptions): {
+    command: 'CreateLocalBackup'
+    input: {
+      TableName: string
+      BackupName: string
+      Directory: string
+      Gzip: boolean
+      TotalSegments: number
+      ChunkSize: number
+      ConsistentRead: boolean
+    }
+  } {
+    return {
+      command: 'CreateLocalBackup',
+      input: {
+        TableName: options.tableName,
+        BackupName: options.backupName,
+        Directory: options.directory,
+        Gzip: options.gzip ?? false,
+        TotalSegments: Math.max(1, options.totalSegments ?? 4),
+        ChunkSize: Math.max(1, options.chunkSize ?? 10000),
+        ConsistentRead: options.consistentRead ?? false,
+      },
+    }
+  }
+
   /**
    * Delete a backup
    */
@@ -324,6 +382,36 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Restore a table from a local backup (returns command for the backup executor)
+   */
+  restoreFromLocalBackup(options: RestoreLocalBackupOptions): {
+    command: 'RestoreTableFromLocalBackup'
+    input: {
+      Directory: string
+      TargetTableName?: string
+      BillingModeOverride?: 'PROVISIONED' | 'PAY_PER_REQUEST'
+      ProvisionedThroughputOverride?: { ReadCapacityUnits: number, WriteCapacityUnits: number }
+      Concurrency: number
+    }
+  } {
+    return {
+      command: 'RestoreTableFromLocalBackup',
+      input: {
+        Directory: options.directory,
+        TargetTableName: options.targetTableName,
+        BillingModeOverride: options.billingMode,
+        ProvisionedThroughputOverride: options.provisionedThroughput
+          ? {
+              ReadCapacityUnits: options.provisionedThroughput.readCapacityUnits,
+              WriteCapacityUnits: options.provisionedThroughput.writeCapacityUnits,
+            }
+          : undefined,
+        Concurrency: Math.max(1, options.concurrency ?? 4),
+      },
+    }
+  }
+
   /**
    * Restore table to a point in time
    */
@@ -470,7 +558,8 @@ export class BackupManager {
   }
 
   /**
-   * Schedule automatic backups (in-memory scheduler)
+   * Schedule automatic backups (in-memory scheduler). Schedules only live as
+   * long as the process; `BackupScheduler` stores them in the table.
    */
   scheduleBackup(config: ScheduledBackupConfig): void {
     const key = `${config.tableName}:${config.backupNamePrefix}`
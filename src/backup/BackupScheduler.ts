@@ -0,0 +1,473 @@
+// ============================================================================
+// Backup Scheduler - Durable backup schedules with retention policies
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin } from '../drivers/types'
+import type { RouteHandler } from '../serverless/LambdaHandler'
+import type { DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
+import type { Config } from '../types'
+import type { BackupExecutor } from './BackupExecutor'
+import type { BackupDetails } from './BackupManager'
+import { marshallObject, unmarshallItem } from '../single-table/EntityTransformer'
+import { isConditionalCheckFailedError } from '../types/errors'
+import { createBackupExecutor } from './BackupExecutor'
+import { parseScheduleExpression } from './ScheduleExpression'
+
+/**
+ * Pattern of the timestamp suffix produced by `backupTimestamp()`
+ */
+const BACKUP_TIMESTAMP_PATTERN = '\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z'
+
+/**
+ * Which backups of a schedule to keep. Backups kept by any rule survive;
+ * without keep rules every backup is kept. Daily, weekly and monthly rules
+ * keep the newest backup of each of the last N days, ISO weeks or months
+ * (UTC) that have a backup.
+ */
+export interface RetentionPolicy {
+  /** Keep the newest N backups */
+  keepLast?: number
+  /** Keep the newest backup of each of the last N days */
+  keepDaily?: number
+  /** Keep the newest backup of each of the last N weeks */
+  keepWeekly?: number
+  /** Keep the newest backup of each of the last N months */
+  keepMonthly?: number
+  /** Delete backups older than this, whatever the keep rules say; the newest backup is always kept */
+  maxAgeDays?: number
+}
+
+/**
+ * A backup schedule for one table
+ */
+export interface BackupSchedule {
+  /** Schedule name, unique per table */
+  name: string
+  /** `rate(...)`, `cron(...)` or a 5-field cron expression, evaluated in UTC */
+  schedule: string
+  /** Prefix of the backup names (default: `<table>-<name>`) */
+  backupNamePrefix?: string
+  /** Retention applied after each backup */
+  retention?: RetentionPolicy
+  /** Whether the schedule runs (default: true) */
+  enabled?: boolean
+}
+
+/**
+ * A schedule as stored in the table
+ */
+export interface StoredBackupSchedule extends BackupSchedule {
+  tableName: string
+  backupNamePrefix: string
+  enabled: boolean
+  /** When the schedule is next due */
+  nextRunAt: Date
+  /** When the schedule last ran */
+  lastRunAt?: Date
+  /** Backup created by the last successful run */
+  lastBackupArn?: string
+  /** Error of the last run, if it failed */
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Outcome of one due schedule
+ */
+export interface ScheduledBackupRun {
+  tableName: string
+  /** Schedule name */
+  schedule: string
+  /** `skipped` when another runner claimed the run first */
+  status: 'created' | 'failed' | 'skipped'
+  /** Backup requested by the run, usually still `CREATING` */
+  backup?: BackupDetails
+  /** Backups deleted by the retention policy */
+  pruned: BackupDetails[]
+  error?: string
+  /** When the schedule is next due; the failed due time when the backup could not be requested */
+  nextRunAt: Date
+}
+
+/**
+ * Backup scheduler options
+ */
+export interface BackupSchedulerOptions {
+  /** Configuration providing the key names of the table */
+  config: Config
+  /** Executor used to create, list and delete backups (default: one on the same driver) */
+  executor?: BackupExecutor
+  /** Clock, for tests */
+  now?: () => Date
+}
+
+/**
+ * Stores backup schedules as metadata items in the table they back up and
+ * runs the ones that are due. Nothing runs in the background: call
+ * `runDue()` from a cron job, `dbtooling backup:run-due` or a Lambda
+ * function (see `createRunDueRoute()`). Each due run is claimed with a
+ * conditional write, so concurrent runners create one backup between them.
+ * Runs request their backup without waiting for it to become available, and
+ * a run whose backup request fails stays due, so the next `runDue()` retries
+ * it. Retention only counts available backups.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createBackupScheduler(driver, { config })
+ * await scheduler.saveSchedule('MainTable', {
+ *   name: 'nightly',
+ *   schedule: 'cron(0 3 * * ? *)',
+ *   retention: { keepDaily: 7, keepWeekly: 4, keepMonthly: 12 },
+ * })
+ * const runs = await scheduler.runDue(['MainTable'])
+ * ```
+ */
+export class BackupScheduler {
+  private driver: DriverPlugin
+  private executor: BackupExecutor
+  private now: () => Date
+  private partitionKey: string
+  private sortKey: string
+  private schedulePk: string
+  private skPrefix: string
+
+  constructor(driver: DriverPlugin, options: BackupSchedulerOptions) {
+    const { partitionKeyName, sortKeyName, keyDelimiter } = options.config.singleTableDesign
+    this.driver = driver
+    this.executor = options.executor ?? createBackupExecutor(driver)
+    this.now = options.now ?? (() => new Date())
+    this.partitionKey = partitionKeyName
+    this.sortKey = sortKeyName
+    this.schedulePk = `_BACKUP${keyDelimiter}SCHEDULE`
+    this.skPrefix = `_BACKUP${keyDelimiter}`
+  }
+
+  /**
+   * Create or replace a schedule. The next run is computed from now;
+   * the run history of a replaced schedule is kept.
+   */
+  async saveSchedule(tableName: string, schedule: BackupSchedule): Promise<StoredBackupSchedule> {
+    if (!/^[\w.-]+$/.test(schedule.name)) {
+      throw new Error(`Invalid schedule name '${schedule.name}': use letters, digits, '_', '.' and '-'`)
+    }
+    for (const [rule, value] of Object.entries(schedule.retention ?? {})) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        throw new Error(`Invalid retention ${rule}: ${value} (expected a whole number of at least 0)`)
+      }
+    }
+
+    const now = this.now()
+    const existing = await this.getSchedule(tableName, schedule.name)
+    const stored: StoredBackupSchedule = {
+      ...schedule,
+      tableName,
+      backupNamePrefix: schedule.backupNamePrefix ?? `${tableName}-${schedule.name}`,
+      enabled: schedule.enabled ?? true,
+      nextRunAt: parseScheduleExpression(schedule.schedule).next(now),
+      lastRunAt: existing?.lastRunAt,
+      lastBackupArn: existing?.lastBackupArn,
+      lastError: existing?.lastError,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    }
+
+    await this.driver.putItem({ tableName, item: this.toItem(stored) })
+    return stored
+  }
+
+  /**
+   * Get a schedule by name
+   */
+  async getSchedule(tableName: string, name: string): Promise<StoredBackupSchedule | null> {
+    const item = await this.driver.getItem({ tableName, key: this.key(name), consistentRead: true })
+    return item ? this.fromItem(tableName, item as Record<string, AttributeValue>) : null
+  }
+
+  /**
+   * List the schedules of a table
+   */
+  async listSchedules(tableName: string): Promise<StoredBackupSchedule[]> {
+    const schedules: StoredBackupSchedule[] = []
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+
+    do {
+      const page = await this.driver.query({
+        tableName,
+        keyConditionExpression: '#pk = :pk AND begins_with(#sk, :prefix)',
+        expressionAttributeNames: { '#pk': this.partitionKey, '#sk': this.sortKey },
+        expressionAttributeValues: { ':pk': { S: this.schedulePk }, ':prefix': { S: this.skPrefix } },
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      schedules.push(...page.items.map(item => this.fromItem(tableName, item as Record<string, AttributeValue>)))
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+    } while (exclusiveStartKey)
+
+    return schedules
+  }
+
+  /**
+   * Delete a schedule, returning whether it existed. Its backups are kept.
+   */
+  async deleteSchedule(tableName: string, name: string): Promise<boolean> {
+    const result = await this.driver.deleteItem({ tableName, key: this.key(name), returnValues: 'ALL_OLD' })
+    return Boolean(result.attributes)
+  }
+
+  /**
+   * Run every enabled schedule of the given tables that is due: create the
+   * backup, record the outcome on the schedule and apply its retention
+   */
+  async runDue(tableNames: string[]): Promise<ScheduledBackupRun[]> {
+    const runs: ScheduledBackupRun[] = []
+
+    for (const tableName of tableNames) {
+      const now = this.now()
+      const due = (await this.listSchedules(tableName))
+        .filter(schedule => schedule.enabled && schedule.nextRunAt <= now)
+
+      for (const schedule of due) {
+        runs.push(await this.run(schedule, now))
+      }
+    }
+
+    return runs
+  }
+
+  /**
+   * Delete the backups of a schedule that its retention policy no longer keeps
+   */
+  async prune(schedule: StoredBackupSchedule): Promise<BackupDetails[]> {
+    if (!schedule.retention) {
+      return []
+    }
+
+    // Only names this schedule produces, so overlapping prefixes stay apart
+    const ownName = new RegExp(`^${escapeRegExp(schedule.backupNamePrefix)}-${BACKUP_TIMESTAMP_PATTERN}$`)
+    const backups = (await this.executor.listBackups({ tableName: schedule.tableName, backupType: 'USER' }))
+      .filter(backup => ownName.test(backup.name))
+    const expired = selectBackupsToPrune(backups, schedule.retention, this.now())
+
+    for (const backup of expired) {
+      await this.executor.deleteBackup(backup.arn)
+    }
+    return expired
+  }
+
+  private async run(schedule: StoredBackupSchedule, now: Date): Promise<ScheduledBackupRun> {
+    const { tableName, name } = schedule
+    const nextRunAt = parseScheduleExpression(schedule.schedule).next(now)
+
+    try {
+      await this.driver.updateItem({
+        tableName,
+        key: this.key(name),
+        updateExpression: 'SET #next = :next, #last = :now',
+        conditionExpression: '#next = :expected',
+        expressionAttributeNames: { '#next': 'nextRunAt', '#last': 'lastRunAt' },
+        expressionAttributeValues: {
+          ':next': { S: nextRunAt.toISOString() },
+          ':now': { S: now.toISOString() },
+          ':expected': { S: schedule.nextRunAt.toISOString() },
+        },
+      })
+    }
+    catch (error) {
+      if (isConditionalCheckFailedError(error)) {
+        return { tableName, schedule: name, status: 'skipped', pruned: [], nextRunAt }
+      }
+      throw error
+    }
+
+    let backup: BackupDetails | undefined
+    let pruned: BackupDetails[] = []
+    try {
+      backup = await this.executor.startBackup({ tableName, backupName: `${schedule.backupNamePrefix}-${backupTimestamp(now)}` })
+      pruned = await this.prune(schedule)
+    }
+    catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      // Without a backup the run stays due; a failed prune waits for the next run
+      const retryAt = backup ? undefined : schedule.nextRunAt
+      await this.record(schedule, { lastBackupArn: backup?.arn, lastError: message, nextRunAt: retryAt })
+      return { tableName, schedule: name, status: 'failed', backup, pruned, error: message, nextRunAt: retryAt ?? nextRunAt }
+    }
+
+    await this.record(schedule, { lastBackupArn: backup.arn })
+    return { tableName, schedule: name, status: 'created', backup, pruned, nextRunAt }
+  }
+
+  /**
+   * Record the outcome of a run on the schedule item
+   */
+  private async record(schedule: StoredBackupSchedule, outcome: { lastBackupArn?: string, lastError?: string, nextRunAt?: Date }): Promise<void> {
+    const values: Record<string, AttributeValue> = {}
+    const set: string[] = []
+    if (outcome.nextRunAt) {
+      set.push('nextRunAt = :next')
+      values[':next'] = { S: outcome.nextRunAt.toISOString() }
+    }
+    if (outcome.lastBackupArn) {
+      set.push('lastBackupArn = :arn')
+      values[':arn'] = { S: outcome.lastBackupArn }
+    }
+    if (outcome.lastError) {
+      set.push('lastError = :error')
+      values[':error'] = { S: outcome.lastError }
+    }
+
+    await this.driver.updateItem({
+      tableName: schedule.tableName,
+      key: this.key(schedule.name),
+      updateExpression: `${set.length > 0 ? `SET ${set.join(', ')} ` : ''}${outcome.lastError ? '' : 'REMOVE lastError'}`.trim(),
+      expressionAttributeValues: set.length > 0 ? values : undefined,
+    })
+  }
+
+  private key(name: string): Record<string, AttributeValue> {
+    return {
+      [this.partitionKey]: { S: this.schedulePk },
+      [this.sortKey]: { S: `${this.skPrefix}${name}` },
+    }
+  }
+
+  private toItem(schedule: StoredBackupSchedule): Record<string, AttributeValue> {
+    return {
+      ...marshallObject(schedule as unknown as JSObject) as Record<string, AttributeValue>,
+      ...this.key(schedule.name),
+    }
+  }
+
+  private fromItem(tableName: string, item: Record<string, AttributeValue>): StoredBackupSchedule {
+    const data = unmarshallItem(item as DynamoDBItem) as Record<string, unknown>
+    const date = (value: unknown) => (typeof value === 'string' ? new Date(value) : undefined)
+
+    return {
+      tableName,
+      name: data.name as string,
+      schedule: data.schedule as string,
+      backupNamePrefix: data.backupNamePrefix as string,
+      retention: data.retention as RetentionPolicy | undefined,
+      enabled: data.enabled !== false,
+      nextRunAt: date(data.nextRunAt)!,
+      lastRunAt: date(data.lastRunAt),
+      lastBackupArn: data.lastBackupArn as string | undefined,
+      lastError: data.lastError as string | undefined,
+      createdAt: date(data.createdAt)!,
+      updatedAt: date(data.updatedAt)!,
+    }
+  }
+}
+
+/**
+ * Select the backups a retention policy no longer keeps. Only available
+ * backups are considered, and the newest one is never selected.
+ *
+ * @example
+ * ```typescript
+ * const expired = selectBackupsToPrune(backups, { keepLast: 3, keepDaily: 7, maxAgeDays: 90 })
+ * ```
+ */
+export function selectBackupsToPrune(backups: BackupDetails[], policy: RetentionPolicy, now: Date = new Date()): BackupDetails[] {
+  const available = backups
+    .filter(backup => backup.status === 'AVAILABLE')
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+  const hasKeepRules = [policy.keepLast, policy.keepDaily, policy.keepWeekly, policy.keepMonthly].some(rule => rule !== undefined)
+  const kept = new Set<BackupDetails>(hasKeepRules ? available.slice(0, policy.keepLast ?? 0) : available)
+
+  const periods: Array<[number | undefined, (_date: Date) => string]> = [
+    [policy.keepDaily, date => date.toISOString().slice(0, 10)],
+    [policy.keepWeekly, isoWeek],
+    [policy.keepMonthly, date => date.toISOString().slice(0, 7)],
+  ]
+  for (const [count, period] of periods) {
+    const seen = new Set<string>()
+    for (const backup of available) {
+      const key = period(backup.createdAt)
+      if (!seen.has(key) && seen.size < (count ?? 0)) {
+        seen.add(key)
+        kept.add(backup)
+      }
+    }
+  }
+
+  if (policy.maxAgeDays !== undefined) {
+    const cutoff = now.getTime() - policy.maxAgeDays * 86_400_000
+    for (const backup of available.slice(1)) {
+      if (backup.createdAt.getTime() < cutoff) {
+        kept.delete(backup)
+      }
+    }
+  }
+
+  // The newest backup survives every rule
+  if (available.length > 0) {
+    kept.add(available[0])
+  }
+
+  return available.filter(backup => !kept.has(backup))
+}
+
+/**
+ * Create a backup scheduler
+ */
+export function createBackupScheduler(driver: DriverPlugin, options: BackupSchedulerOptions): BackupScheduler {
+  return new BackupScheduler(driver, options)
+}
+
+/**
+ * Route handler that runs the due schedules of the given tables, for a
+ * Lambda function invoked on a timer or over HTTP. Responds with the runs,
+ * and with status 500 when any of them failed. Runs only request their
+ * backups, so an invocation takes seconds rather than the minutes a large
+ * backup needs, well within the 15-minute Lambda limit.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = createBackupScheduler(driver, { config })
+ * export const handler = createAPIHandler()
+ *   .post('/backups/run-due', createRunDueRoute(scheduler, ['MainTable']))
+ *   .build()
+ * ```
+ */
+export function createRunDueRoute(scheduler: BackupScheduler, tableNames: string[]): RouteHandler {
+  return async () => {
+    const runs = await scheduler.runDue(tableNames)
+
+    // Failed runs answer 500, so the invocation shows up as failed
+    return {
+      statusCode: runs.some(run => run.status === 'failed') ? 500 : 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ runs }),
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Timestamp suffix of scheduled backup names, e.g. `2024-01-01T13-00-00-000Z`
+ */
+function backupTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-')
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * ISO week of a date, e.g. `2024-W01`
+ */
+function isoWeek(date: Date): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7))
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((thursday.getTime() - yearStart) / 86_400_000 + 1) / 7)
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
@@ -0,0 +1,368 @@
+// ============================================================================
+// Local Backups - Logical table snapshots written to a directory
+// ============================================================================
+
+import type { AttributeValue, CreateTableInput, DriverPlugin, TableDescription } from '../drivers/types'
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import type { BackupDetails, BackupManager } from './BackupManager'
+import { createHash } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { promisify } from 'node:util'
+import { gunzip, gzip } from 'node:zlib'
+import { writeBatchWithRetry } from '../drivers/utils'
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+/**
+ * File name of the manifest in a local backup directory
+ */
+export const LOCAL_BACKUP_MANIFEST = 'manifest.json'
+
+/**
+ * Input of a `CreateLocalBackup` command
+ */
+export type CreateLocalBackupInput = ReturnType<BackupManager['createLocalBackup']>['input']
+
+/**
+ * Input of a `RestoreTableFromLocalBackup` command
+ */
+export type RestoreLocalBackupInput = ReturnType<BackupManager['restoreFromLocalBackup']>['input']
+
+/**
+ * One data file of a local backup: DynamoDB-JSON items, one per line
+ */
+export interface LocalBackupChunk {
+  /** File name, relative to the backup directory */
+  file: string
+  /** Scan segment the items were read from */
+  segment: number
+  /** Items in the file */
+  itemCount: number
+  /** File size in bytes */
+  sizeBytes: number
+  /** SHA-256 of the file contents, hex encoded */
+  sha256: string
+}
+
+/**
+ * Manifest of a local backup, written once all data chunks are complete
+ */
+export interface LocalBackupManifest {
+  formatVersion: 1
+  backupName: string
+  tableName: string
+  /** When the scan started (ISO 8601) */
+  createdAt: string
+  /** When the last chunk was written (ISO 8601) */
+  completedAt: string
+  compression: 'gzip' | 'none'
+  itemCount: number
+  /** Total size of the data chunks in bytes */
+  sizeBytes: number
+  /** Table as returned by `describeTable`, including its TTL setting when the driver reports it */
+  table: TableDescription
+  chunks: LocalBackupChunk[]
+}
+
+/**
+ * Result of restoring a local backup
+ */
+export interface LocalRestoreResult {
+  tableName: string
+  itemCount: number
+  manifest: LocalBackupManifest
+}
+
+/**
+ * Error raised when a local backup is incomplete or a chunk does not match its checksum
+ */
+export class LocalBackupIntegrityError extends Error {
+  public readonly directory: string
+  public readonly file: string
+
+  constructor(directory: string, file: string, reason: string) {
+    super(`Local backup '${directory}' is damaged: ${file} ${reason}`)
+    this.name = 'LocalBackupIntegrityError'
+    this.directory = directory
+    this.file = file
+  }
+}
+
+/**
+ * Write a local backup: scan the table in parallel segments into data
+ * chunks, then write the manifest. The manifest goes last, so a directory
+ * without one holds an interrupted backup.
+ *
+ * @example
+ * ```typescript
+ * const { input } = new BackupManager().createLocalBackup({ tableName: 'MainTable', backupName: 'ci', directory: './snapshots/ci', gzip: true })
+ * const manifest = await writeLocalBackup(driver, input)
+ * ```
+ */
+export async function writeLocalBackup(
+  driver: DriverPlugin,
+  input: CreateLocalBackupInput,
+  onProgress?: (_itemCount: number) => void,
+): Promise<LocalBackupManifest> {
+  const directory = input.Directory
+  if (existsSync(join(directory, LOCAL_BACKUP_MANIFEST))) {
+    throw new Error(`Directory '${directory}' already holds a local backup`)
+  }
+  await mkdir(directory, { recursive: true })
+
+  const createdAt = new Date().toISOString()
+  const description = await driver.describeTable(input.TableName)
+  const table = driver.describeTimeToLive
+    ? { ...description, ttlDescription: await driver.describeTimeToLive(input.TableName) }
+    : description
+  const extension = input.Gzip ? '.jsonl.gz' : '.jsonl'
+  const segments = input.TotalSegments
+  const chunks: LocalBackupChunk[] = []
+  let itemCount = 0
+
+  await Promise.all(Array.from({ length: segments }, async (_, segment) => {
+    let lines: string[] = []
+    let chunkIndex = 0
+    const flush = async (): Promise<void> => {
+      if (lines.length === 0)
+        return
+      const file = `data-${String(segment).padStart(3, '0')}-${String(chunkIndex++).padStart(5, '0')}${extension}`
+      const text = Buffer.from(`${lines.join('\n')}\n`)
+      const data = input.Gzip ? await gzipAsync(text) : text
+      await writeFile(join(directory, file), data)
+      chunks.push({ file, segment, itemCount: lines.length, sizeBytes: data.length, sha256: sha256(data) })
+      lines = []
+    }
+
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+    do {
+      const page = await driver.scan({
+        tableName: input.TableName,
+        exclusiveStartKey,
+        consistentRead: input.ConsistentRead || undefined,
+        ...(segments > 1 ? { segment, totalSegments: segments } : {}),
+      })
+      for (const item of page.items) {
+        lines.push(JSON.stringify(item, toJSONValue))
+        if (lines.length >= input.ChunkSize) {
+          await flush()
+        }
+      }
+      itemCount += page.items.length
+      onProgress?.(itemCount)
+      exclusiveStartKey = page.lastEvaluatedKey
+    } while (exclusiveStartKey)
+    await flush()
+  }))
+
+  chunks.sort((a, b) => a.file.localeCompare(b.file))
+  const manifest: LocalBackupManifest = {
+    formatVersion: 1,
+    backupName: input.BackupName,
+    tableName: input.TableName,
+    createdAt,
+    completedAt: new Date().toISOString(),
+    compression: input.Gzip ? 'gzip' : 'none',
+    itemCount,
+    sizeBytes: chunks.reduce((total, chunk) => total + chunk.sizeBytes, 0),
+    table,
+    chunks,
+  }
+
+  const manifestPath = join(directory, LOCAL_BACKUP_MANIFEST)
+  await writeFile(`${manifestPath}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`)
+  await rename(`${manifestPath}.tmp`, manifestPath)
+  return manifest
+}
+
+/**
+ * Read the manifest of a local backup
+ */
+export async function readLocalBackupManifest(directory: string): Promise<LocalBackupManifest> {
+  const manifestPath = join(directory, LOCAL_BACKUP_MANIFEST)
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No local backup found in '${directory}' (${LOCAL_BACKUP_MANIFEST} is missing)`)
+  }
+
+  const manifest = JSON.parse(await readFile(manifestPath, 'utf8')) as LocalBackupManifest
+  if (manifest.formatVersion !== 1) {
+    throw new Error(`Local backup '${directory}' uses unsupported format version ${manifest.formatVersion}`)
+  }
+  if (typeof manifest.table.creationDateTime === 'string') {
+    manifest.table.creationDateTime = new Date(manifest.table.creationDateTime)
+  }
+  return manifest
+}
+
+/**
+ * Check every data chunk of a local backup against the manifest, throwing
+ * `LocalBackupIntegrityError` on the first chunk that is missing or altered
+ */
+export async function verifyLocalBackup(directory: string): Promise<LocalBackupManifest> {
+  const manifest = await readLocalBackupManifest(directory)
+  for (const chunk of manifest.chunks) {
+    await readChunk(directory, manifest, chunk)
+  }
+  return manifest
+}
+
+/**
+ * Restore a local backup into a new table: verify the chunks, create the
+ * table from the manifest schema, then write the items in batches
+ */
+export async function restoreLocalBackup(
+  driver: DriverPlugin,
+  input: RestoreLocalBackupInput,
+  onProgress?: (_itemCount: number, _tableName: string) => void,
+): Promise<LocalRestoreResult> {
+  const directory = input.Directory
+  const manifest = await verifyLocalBackup(directory)
+  const tableName = input.TargetTableName ?? manifest.tableName
+
+  await driver.createTable(createTableInputFromDescription(manifest.table, tableName, {
+    billingMode: input.BillingModeOverride,
+    provisionedThroughput: input.ProvisionedThroughputOverride && {
+      readCapacityUnits: input.ProvisionedThroughputOverride.ReadCapacityUnits,
+      writeCapacityUnits: input.ProvisionedThroughputOverride.WriteCapacityUnits,
+    },
+  }))
+  await driver.waitForTableActive(tableName)
+
+  const ttl = manifest.table.ttlDescription
+  if (ttl?.attributeName && (ttl.status === 'ENABLED' || ttl.status === 'ENABLING') && driver.updateTimeToLive) {
+    await driver.updateTimeToLive(tableName, { enabled: true, attributeName: ttl.attributeName })
+  }
+
+  let itemCount = 0
+  let next = 0
+  const workers = Math.min(input.Concurrency, Math.max(1, manifest.chunks.length))
+  await Promise.all(Array.from({ length: workers }, async () => {
+    while (next < manifest.chunks.length) {
+      const items = await readChunk(directory, manifest, manifest.chunks[next++])
+      for (let i = 0; i < items.length; i += 25) {
+        await writeBatchWithRetry(driver, tableName, items.slice(i, i + 25).map(item => ({ putRequest: { item: item as Record<string, AttributeValue> } })))
+        itemCount += Math.min(25, items.length - i)
+        onProgress?.(itemCount, tableName)
+      }
+    }
+  }))
+
+  return { tableName, itemCount, manifest }
+}
+
+/**
+ * Build the `createTable` input that recreates a described table under a new name
+ */
+export function createTableInputFromDescription(
+  description: TableDescription,
+  tableName: string,
+  overrides: Pick<CreateTableInput, 'billingMode' | 'provisionedThroughput'> = {},
+): CreateTableInput {
+  const billingMode = overrides.billingMode
+    ?? description.billingModeSummary?.billingMode
+    ?? (description.provisionedThroughput?.readCapacityUnits ? 'PROVISIONED' : 'PAY_PER_REQUEST')
+  const throughput = (value?: { readCapacityUnits: number, writeCapacityUnits: number }) =>
+    billingMode === 'PROVISIONED' && value
+      ? { readCapacityUnits: value.readCapacityUnits, writeCapacityUnits: value.writeCapacityUnits }
+      : undefined
+
+  return {
+    tableName,
+    keySchema: description.keySchema,
+    attributeDefinitions: description.attributeDefinitions,
+    billingMode,
+    provisionedThroughput: throughput(overrides.provisionedThroughput ?? description.provisionedThroughput),
+    globalSecondaryIndexes: description.globalSecondaryIndexes?.map(index => ({
+      indexName: index.indexName,
+      keySchema: index.keySchema,
+      projection: index.projection,
+      provisionedThroughput: throughput(index.provisionedThroughput),
+    })),
+    localSecondaryIndexes: description.localSecondaryIndexes?.map(index => ({
+      indexName: index.indexName,
+      keySchema: index.keySchema,
+      projection: index.projection,
+    })),
+    streamSpecification: description.streamSpecification?.streamEnabled ? description.streamSpecification : undefined,
+    tableClass: description.tableClass,
+  }
+}
+
+/**
+ * Describe a local backup in the same shape as native backups. The ARN is
+ * the `file://` URL of the backup directory.
+ */
+export function toLocalBackupDetails(manifest: LocalBackupManifest, directory: string): BackupDetails {
+  return {
+    arn: pathToFileURL(resolve(directory)).href,
+    name: manifest.backupName,
+    tableName: manifest.tableName,
+    tableArn: manifest.table.tableArn ?? '',
+    status: 'AVAILABLE',
+    type: 'LOCAL',
+    createdAt: new Date(manifest.createdAt),
+    sizeBytes: manifest.sizeBytes,
+    itemCount: manifest.itemCount,
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Read one data chunk, checking its size, checksum and item count
+ */
+async function readChunk(directory: string, manifest: LocalBackupManifest, chunk: LocalBackupChunk): Promise<DynamoDBItem[]> {
+  const path = join(directory, chunk.file)
+  if (!existsSync(path)) {
+    throw new LocalBackupIntegrityError(directory, chunk.file, 'is missing')
+  }
+
+  const data = await readFile(path)
+  if (data.length !== chunk.sizeBytes) {
+    throw new LocalBackupIntegrityError(directory, chunk.file, `has ${data.length} bytes, expected ${chunk.sizeBytes}`)
+  }
+  if (sha256(data) !== chunk.sha256) {
+    throw new LocalBackupIntegrityError(directory, chunk.file, 'does not match its checksum')
+  }
+
+  const text = (manifest.compression === 'gzip' ? await gunzipAsync(data) : data).toString('utf8')
+  const items = text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line, fromJSONValue) as DynamoDBItem)
+  if (items.length !== chunk.itemCount) {
+    throw new LocalBackupIntegrityError(directory, chunk.file, `has ${items.length} items, expected ${chunk.itemCount}`)
+  }
+  return items
+}
+
+/**
+ * Binary values are written as base64, as DynamoDB JSON expects. The raw
+ * value is read from the holder because `Buffer#toJSON` runs first.
+ */
+function toJSONValue(this: unknown, key: string, value: unknown): unknown {
+  const raw = (this as Record<string, unknown>)[key]
+  return raw instanceof Uint8Array ? Buffer.from(raw).toString('base64') : value
+}
+
+/**
+ * Binary values are read back from base64 into `Uint8Array`, at any depth.
+ * Only attribute values hold a string under `B` or a list under `BS`; an
+ * attribute named `B` or `BS` always holds an object.
+ */
+function fromJSONValue(key: string, value: unknown): unknown {
+  if (key === 'B' && typeof value === 'string') {
+    return new Uint8Array(Buffer.from(value, 'base64'))
+  }
+  if (key === 'BS' && Array.isArray(value)) {
+    return value.map(entry => new Uint8Array(Buffer.from(entry as string, 'base64')))
+  }
+  return value
+}
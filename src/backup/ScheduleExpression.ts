@@ -0,0 +1,211 @@
+// ============================================================================
+// Schedule Expressions - cron and rate expressions for backup schedules
+// ============================================================================
+
+/**
+ * A parsed schedule expression. Times are evaluated in UTC.
+ */
+export interface ScheduleExpression {
+  /** Expression as written */
+  expression: string
+  /** First run time strictly after `after` */
+  next: (_after: Date) => Date
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+}
+
+/**
+ * Parse a schedule expression. Supported forms:
+ *
+ * - `rate(6 hours)`: fixed interval in minutes, hours or days
+ * - `cron(0 3 * * ? *)`: EventBridge cron (minute hour day-of-month month
+ *   day-of-week year), where day-of-week runs from 1 (SUN) to 7 (SAT)
+ * - `0 3 * * *`: standard 5-field cron, where day-of-week runs from 0 (SUN)
+ * - `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly`
+ *
+ * Fields accept `*`, `?`, values, names (`MON`, `JAN`), ranges, lists and
+ * steps (`0/15`, `1-5`, `MON-FRI`, `0,30`).
+ *
+ * @example
+ * ```typescript
+ * const nightly = parseScheduleExpression('cron(0 3 * * ? *)')
+ * nightly.next(new Date('2024-01-01T12:00:00Z')) // 2024-01-02T03:00:00Z
+ * ```
+ */
+export function parseScheduleExpression(expression: string): ScheduleExpression {
+  const text = expression.trim()
+
+  const rate = text.match(/^rate\(\s*(\d+)\s+(minute|hour|day)s?\s*\)$/i)
+  if (rate) {
+    const value = Number.parseInt(rate[1], 10)
+    const unitMs = { minute: 60_000, hour: 3_600_000, day: 86_400_000 }[rate[2].toLowerCase() as 'minute' | 'hour' | 'day']
+    if (value < 1) {
+      throw new Error(`Invalid rate expression '${expression}': the value must be at least 1`)
+    }
+    return { expression: text, next: after => new Date(after.getTime() + value * unitMs) }
+  }
+
+  const aws = text.match(/^cron\((.*)\)$/i)
+  const fields = (aws ? aws[1] : MACROS[text.toLowerCase()] ?? text).trim().split(/\s+/)
+  if (aws ? fields.length !== 6 : fields.length !== 5) {
+    throw new Error(`Invalid schedule expression '${expression}': expected rate(...), cron(...) with 6 fields or a 5-field cron expression`)
+  }
+
+  return { expression: text, next: createCronMatcher(expression, fields, Boolean(aws)) }
+}
+
+/**
+ * Validate a schedule expression, returning the error message if invalid
+ */
+export function validateScheduleExpression(expression: string): string | undefined {
+  try {
+    parseScheduleExpression(expression)
+    return undefined
+  }
+  catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface CronField {
+  values: Set<number>
+  restricted: boolean
+}
+
+function createCronMatcher(expression: string, fields: string[], aws: boolean): (_after: Date) => Date {
+  const [minuteField, hourField, dayField, monthField, weekdayField, yearField] = fields
+  const minutes = parseField(expression, minuteField, 0, 59)
+  const hours = parseField(expression, hourField, 0, 23)
+  const days = parseField(expression, dayField, 1, 31)
+  const months = parseField(expression, monthField, 1, 12, MONTH_NAMES, 1)
+  // EventBridge numbers days of the week from 1 (SUN); standard cron from 0, with 7 also SUN
+  const weekdays = aws
+    ? parseField(expression, weekdayField, 1, 7, DAY_NAMES, 1)
+    : parseField(expression, weekdayField, 0, 7, DAY_NAMES, 0)
+  const weekdayValues = new Set([...weekdays.values].map(day => (aws ? day - 1 : day) % 7))
+  const years = yearField ? parseField(expression, yearField, 1970, 2199) : undefined
+
+  if (aws && days.restricted && weekdays.restricted) {
+    throw new Error(`Invalid schedule expression '${expression}': day-of-month and day-of-week cannot both be set; use ? for one of them`)
+  }
+
+  const dayMatches = (date: Date): boolean => {
+    const dayOfMonth = days.values.has(date.getUTCDate())
+    const dayOfWeek = weekdayValues.has(date.getUTCDay())
+    // Standard cron runs when either day field matches if both are restricted
+    if (days.restricted && weekdays.restricted) {
+      return dayOfMonth || dayOfWeek
+    }
+    return dayOfMonth && dayOfWeek
+  }
+  const lastYear = years ? Math.max(...years.values) : Number.POSITIVE_INFINITY
+
+  return (after: Date): Date => {
+    const date = new Date(after.getTime())
+    date.setUTCSeconds(0, 0)
+    date.setUTCMinutes(date.getUTCMinutes() + 1)
+
+    // Dates such as February 30 never match, so the search stops after ten years
+    const horizon = Math.min(lastYear, after.getUTCFullYear() + 10)
+    while (date.getUTCFullYear() <= horizon) {
+      if (years && !years.values.has(date.getUTCFullYear())) {
+        date.setUTCFullYear(date.getUTCFullYear() + 1, 0, 1)
+        date.setUTCHours(0, 0, 0, 0)
+      }
+      else if (!months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0, 0, 0)
+      }
+      else if (!dayMatches(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0, 0, 0)
+      }
+      else if (!hours.values.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      }
+      else if (!minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      }
+      else {
+        return date
+      }
+    }
+
+    throw new Error(`Schedule expression '${expression}' has no run time after ${after.toISOString()}`)
+  }
+}
+
+/**
+ * Parse one cron field into the set of values it allows
+ */
+function parseField(expression: string, field: string, min: number, max: number, names?: string[], nameOffset = 0): CronField {
+  const invalid = (reason: string) => new Error(`Invalid schedule expression '${expression}': ${reason} in field '${field}'`)
+  const toNumber = (token: string): number => {
+    const named = names?.indexOf(token.toUpperCase()) ?? -1
+    const value = named >= 0 ? named + nameOffset : /^\d+$/.test(token) ? Number.parseInt(token, 10) : Number.NaN
+    if (Number.isNaN(value)) {
+      throw invalid(`unsupported value '${token}'`)
+    }
+    if (value < min || value > max) {
+      throw invalid(`value ${value} is outside ${min}-${max}`)
+    }
+    return value
+  }
+
+  if (field === '*' || field === '?') {
+    const values = new Set<number>()
+    for (let value = min; value <= max; value++) {
+      values.add(value)
+    }
+    return { values, restricted: false }
+  }
+
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number.parseInt(stepText, 10)
+    if (!(step >= 1) || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw invalid(`invalid step '${stepText}'`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    }
+    else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = toNumber(from)
+      end = toNumber(to)
+      if (start > end) {
+        throw invalid(`range ${range} is reversed`)
+      }
+    }
+    else {
+      start = toNumber(range)
+      end = stepText === undefined ? start : max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return { values, restricted: true }
+}
@@ -9,9 +9,58 @@ export {
   type BackupType,
   createBackupManager,
   type CreateBackupOptions,
+  type CreateLocalBackupOptions,
   type ListBackupsOptions,
   type PITRDescription,
   type PITRStatus,
+  type RestoreLocalBackupOptions,
   type RestoreOptions,
   type ScheduledBackupConfig,
 } from './BackupManager'
+
+export {
+  BackupExecutor,
+  type BackupExecutorOptions,
+  type BackupProgress,
+  createBackupExecutor,
+  type ExecuteLocalRestoreOptions,
+  type ExecuteRestoreOptions,
+  findRestoreMismatches,
+  type RestoreResult,
+  type RestoreVerification,
+  RestoreVerificationError,
+} from './BackupExecutor'
+
+export {
+  type BackupSchedule,
+  BackupScheduler,
+  type BackupSchedulerOptions,
+  createBackupScheduler,
+  createRunDueRoute,
+  type RetentionPolicy,
+  type ScheduledBackupRun,
+  selectBackupsToPrune,
+  type StoredBackupSchedule,
+} from './BackupScheduler'
+
+export {
+  createTableInputFromDescription,
+  type CreateLocalBackupInput,
+  LOCAL_BACKUP_MANIFEST,
+  type LocalBackupChunk,
+  LocalBackupIntegrityError,
+  type LocalBackupManifest,
+  type LocalRestoreResult,
+  readLocalBackupManifest,
+  restoreLocalBackup,
+  type RestoreLocalBackupInput,
+  toLocalBackupDetails,
+  verifyLocalBackup,
+  writeLocalBackup,
+} from './LocalBackup'
+
+export {
+  parseScheduleExpression,
+  type ScheduleExpression,
+  validateScheduleExpression,
+} from './ScheduleExpression'
@@ -0,0 +1,584 @@
+// ============================================================================
+// Backup & Restore CLI Commands
+// ============================================================================
+
+import type { CAC } from 'cac'
+import type { BackupExecutor, BackupProgress, RestoreVerification, RetentionPolicy, StoredBackupSchedule } from '../../backup'
+import type { DriverPlugin } from '../../drivers/types'
+import type { Config } from '../../types'
+import nodeProcess from 'node:process'
+import { createBackupExecutor, createBackupScheduler, readLocalBackupManifest, RestoreVerificationError } from '../../backup'
+import { getConfig } from '../../config'
+import { parseModels } from '../../model-parser'
+import { c, createSpinner, formatBytes, formatDuration, formatKeyValue, formatNumber, formatTable, info, success, warning } from '../ui'
+import { connectDriver, handleError } from '../utils'
+
+/**
+ * Polling options shared by `backup` and `restore`
+ */
+interface WaitOptions {
+  timeout: number
+  interval: number
+  driver?: string
+}
+
+/**
+ * Register backup, restore and point-in-time recovery commands
+ */
+export function registerBackupCommands(cli: CAC): void {
+  // backup - Create a backup
+  cli
+    .command('backup [table]', 'Create a backup of a DynamoDB table')
+    .option('--name <name>', 'Backup name')
+    .option('--local <dir>', 'Write a local snapshot to a directory instead of a native backup (works with DynamoDB Local)')
+    .option('--gzip', 'Gzip the data chunks of a local backup')
+    .option('--segments <n>', 'Parallel scan segments for a local backup', { default: 4 })
+    .option('--chunk-size <n>', 'Items per data chunk of a local backup', { default: 10000 })
+    .option('--consistent', 'Use strongly consistent reads for a local backup')
+    .option('--timeout <ms>', 'Maximum time to wait for the backup in milliseconds', { default: 1800000 })
+    .option('--interval <ms>', 'Polling interval in milliseconds', { default: 5000 })
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: WaitOptions & {
+      name?: string
+      local?: string
+      gzip?: boolean
+      segments: number
+      chunkSize: number
+      consistent?: boolean
+    }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+        const backupName = options.name ?? `${tableName}-${Date.now()}`
+
+        await withExecutor(config, options, async (executor, spinner) => {
+          spinner.start(`Creating ${options.local ? 'local ' : ''}backup ${backupName} of ${tableName}...`)
+          try {
+            if (options.local) {
+              const backup = await executor.createLocalBackup({
+                tableName,
+                backupName,
+                directory: options.local,
+                gzip: options.gzip,
+                totalSegments: Number(options.segments),
+                chunkSize: Number(options.chunkSize),
+                consistentRead: options.consistent,
+              })
+              spinner.succeed(`Local backup ${backupName} written to ${options.local}`)
+              console.log(formatKeyValue({
+                'Location': backup.arn,
+                'Table': backup.tableName,
+                'Items': formatNumber(backup.itemCount ?? 0),
+                'Size': formatBytes(backup.sizeBytes ?? 0),
+                'Created': backup.createdAt.toISOString(),
+              }))
+              return
+            }
+
+            const backup = await executor.createBackup({ tableName, backupName })
+            spinner.succeed(`Backup ${backupName} is AVAILABLE`)
+            console.log(formatKeyValue({
+              'ARN': backup.arn,
+              'Table': backup.tableName || tableName,
+              'Size': formatBytes(backup.sizeBytes ?? 0),
+              'Created': backup.createdAt.toISOString(),
+            }))
+          }
+          catch (error) {
+            spinner.fail(`Could not back up table ${tableName}`)
+            throw error
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // restore - Restore a backup or a point in time into a new table
+  cli
+    .command('restore [table]', 'Restore a DynamoDB table from a backup or a point in time')
+    .option('--backup-arn <arn>', 'ARN of the backup to restore from')
+    .option('--local <dir>', 'Directory of a local backup to restore from')
+    .option('--pitr', 'Restore [table] from point-in-time recovery instead of a backup')
+    .option('--restore-time <time>', 'Point in time to restore to (ISO 8601, default: latest restorable time)')
+    .option('--target-table <name>', 'Name for the restored table (required, except for local backups)')
+    .option('--no-verify', 'Skip checking the restored table against the models')
+    .option('--force', 'Skip confirmation')
+    .option('--timeout <ms>', 'Maximum time to wait for the restore in milliseconds', { default: 1800000 })
+    .option('--interval <ms>', 'Polling interval in milliseconds', { default: 5000 })
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: WaitOptions & {
+      backupArn?: string
+      local?: string
+      pitr?: boolean
+      restoreTime?: string
+      targetTable?: string
+      verify: boolean
+      force?: boolean
+    }) => {
+      try {
+        const config = await getConfig()
+        const sourceTableName = table ?? resolveTableName(config)
+
+        if (!options.backupArn && !options.local && !options.pitr) {
+          console.log('Error: --backup-arn, --local or --pitr is required')
+          console.log('Example: dbtooling restore --backup-arn arn:aws:dynamodb:us-east-1:123456789012:table/MyTable/backup/01234567890123-abcdef12 --target-table MyRestoredTable')
+          console.log('Example: dbtooling restore MyTable --pitr --restore-time 2024-01-01T12:00:00Z --target-table MyRestoredTable')
+          console.log('Example: dbtooling restore --local ./snapshots/ci')
+          nodeProcess.exitCode = 1
+          return
+        }
+
+        // Local backups restore into the backed up table name by default
+        const manifest = options.local ? await readLocalBackupManifest(options.local) : undefined
+        const targetTableName = options.targetTable ?? manifest?.tableName
+        if (!targetTableName) {
+          console.log('Error: --target-table is required')
+          console.log('Example: dbtooling restore --backup-arn <arn> --target-table MyRestoredTable')
+          nodeProcess.exitCode = 1
+          return
+        }
+
+        const restoreDateTime = options.restoreTime ? new Date(options.restoreTime) : undefined
+        if (restoreDateTime && Number.isNaN(restoreDateTime.getTime())) {
+          throw new Error(`Invalid --restore-time: ${options.restoreTime}`)
+        }
+
+        const source = manifest
+          ? { 'Local Backup': options.local, 'Backed Up': `${manifest.tableName} at ${manifest.createdAt}` }
+          : options.backupArn
+            ? { 'Backup ARN': options.backupArn }
+            : { 'Source Table': sourceTableName, 'Restore Time': restoreDateTime?.toISOString() ?? 'latest' }
+
+        if (!options.force) {
+          console.log('Restore Configuration:')
+          console.log(formatKeyValue({ ...source, 'Target Table': targetTableName }))
+          console.log('')
+          console.log('This will create a new table from the backup.')
+          console.log('Use --force to proceed.')
+          return
+        }
+
+        const verify = options.verify ? await loadVerification(config) : undefined
+
+        await withExecutor(config, options, async (executor, spinner) => {
+          spinner.start(`Restoring ${options.backupArn || options.local ? 'backup' : sourceTableName} to ${targetTableName}...`)
+          try {
+            const result = options.local
+              ? await executor.restoreFromLocalBackup({ directory: options.local, targetTableName, verify })
+              : options.backupArn
+                ? await executor.restoreFromBackup({ backupArn: options.backupArn, targetTableName, verify })
+                : await executor.restoreToPointInTime({ sourceTableName, targetTableName, restoreDateTime, verify })
+
+            spinner.succeed(`Restored table ${result.tableName} is ACTIVE`)
+            console.log(formatKeyValue({
+              ...source,
+              'Items': formatNumber(result.description.itemCount ?? 0),
+              'Schema': result.verified ? 'matches the models' : 'not checked',
+            }))
+          }
+          catch (error) {
+            if (!(error instanceof RestoreVerificationError)) {
+              spinner.fail(`Could not restore table ${targetTableName}`)
+              throw error
+            }
+            spinner.fail(`Restored table ${error.tableName} does not match the models`)
+            for (const mismatch of error.mismatches) {
+              console.log(`  ${c.error('✗')} ${mismatch.description}${mismatch.details ? c.dim(` (${mismatch.details})`) : ''}`)
+            }
+            console.log('')
+            warning(`The table was restored; inspect it with "dbtooling table:describe ${error.tableName}" or delete it with "dbtooling table:delete ${error.tableName} --force"`)
+            nodeProcess.exitCode = 1
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:list - List backups
+  cli
+    .command('backup:list [table]', 'List on-demand backups, optionally for one table')
+    .option('--limit <n>', 'Maximum number of backups to list')
+    .option('--json', 'Output as JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: { limit?: number, json?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+
+        await withExecutor(config, options, async (executor) => {
+          const backups = await executor.listBackups({
+            tableName: table,
+            limit: options.limit ? Number(options.limit) : undefined,
+          })
+
+          if (options.json) {
+            console.log(JSON.stringify({ backups }, null, 2))
+            return
+          }
+
+          if (backups.length === 0) {
+            info(table ? `No backups found for table ${table}` : 'No backups found')
+            return
+          }
+
+          console.log(c.header(`Backups (${backups.length})`))
+          console.log(formatTable(backups.map(backup => ({ ...backup, createdAt: backup.createdAt.toISOString() })), {
+            columns: [
+              { key: 'name', header: 'Name' },
+              { key: 'tableName', header: 'Table' },
+              { key: 'status', header: 'Status' },
+              { key: 'createdAt', header: 'Created' },
+              { key: 'sizeBytes', header: 'Size', align: 'right', format: value => formatBytes(Number(value ?? 0)) },
+              { key: 'arn', header: 'ARN' },
+            ],
+          }))
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:delete - Delete a backup
+  cli
+    .command('backup:delete <arn>', 'Delete an on-demand backup')
+    .option('--force', 'Skip confirmation prompt')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (arn: string, options: { force?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+
+        if (!options.force) {
+          console.log(`WARNING: This will permanently delete backup '${arn}'`)
+          console.log('Use --force to skip this warning.')
+          return
+        }
+
+        await withExecutor(config, options, async (executor, spinner) => {
+          spinner.start(`Deleting backup ${arn}...`)
+          try {
+            const backup = await executor.deleteBackup(arn)
+            spinner.succeed(`Deleted backup ${backup?.name ?? arn}`)
+          }
+          catch (error) {
+            spinner.fail(`Could not delete backup ${arn}`)
+            throw error
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:schedule - Create or replace a backup schedule
+  cli
+    .command('backup:schedule <name> [table]', 'Create or replace a backup schedule stored in the table')
+    .option('--schedule <expression>', 'rate(...), cron(...) or a 5-field cron expression, in UTC (required)')
+    .option('--prefix <prefix>', 'Backup name prefix (default: <table>-<name>)')
+    .option('--keep-last <n>', 'Keep the newest N backups')
+    .option('--keep-daily <n>', 'Keep the newest backup of each of the last N days')
+    .option('--keep-weekly <n>', 'Keep the newest backup of each of the last N weeks')
+    .option('--keep-monthly <n>', 'Keep the newest backup of each of the last N months')
+    .option('--max-age-days <n>', 'Delete backups older than N days')
+    .option('--disabled', 'Store the schedule without running it')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string, table: string | undefined, options: {
+      schedule?: string
+      prefix?: string
+      keepLast?: number
+      keepDaily?: number
+      keepWeekly?: number
+      keepMonthly?: number
+      maxAgeDays?: number
+      disabled?: boolean
+      driver?: string
+    }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        if (!options.schedule) {
+          console.log('Error: --schedule is required')
+          console.log('Example: dbtooling backup:schedule nightly --schedule "cron(0 3 * * ? *)" --keep-daily 7 --keep-weekly 4')
+          nodeProcess.exitCode = 1
+          return
+        }
+
+        const rules: Array<[keyof RetentionPolicy, number | undefined]> = [
+          ['keepLast', options.keepLast],
+          ['keepDaily', options.keepDaily],
+          ['keepWeekly', options.keepWeekly],
+          ['keepMonthly', options.keepMonthly],
+          ['maxAgeDays', options.maxAgeDays],
+        ]
+        const retention: RetentionPolicy = Object.fromEntries(rules
+          .filter(([, value]) => value !== undefined)
+          .map(([rule, value]) => [rule, Number(value)]))
+
+        await withExecutor(config, options, async (executor, _spinner, driver) => {
+          const scheduler = createBackupScheduler(driver, { config, executor })
+          const schedule = await scheduler.saveSchedule(tableName, {
+            name,
+            schedule: options.schedule!,
+            backupNamePrefix: options.prefix,
+            retention: Object.keys(retention).length > 0 ? retention : undefined,
+            enabled: !options.disabled,
+          })
+
+          success(`Saved backup schedule ${name} for ${tableName}`)
+          printSchedule(schedule)
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:schedules - List backup schedules
+  cli
+    .command('backup:schedules [table]', 'List the backup schedules stored in a table')
+    .option('--json', 'Output as JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: { json?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        await withExecutor(config, options, async (executor, _spinner, driver) => {
+          const schedules = await createBackupScheduler(driver, { config, executor }).listSchedules(tableName)
+
+          if (options.json) {
+            console.log(JSON.stringify({ schedules }, null, 2))
+            return
+          }
+
+          if (schedules.length === 0) {
+            info(`No backup schedules found for table ${tableName}`)
+            return
+          }
+
+          console.log(c.header(`Backup schedules: ${tableName} (${schedules.length})`))
+          for (const schedule of schedules) {
+            console.log('')
+            printSchedule(schedule)
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:unschedule - Delete a backup schedule
+  cli
+    .command('backup:unschedule <name> [table]', 'Delete a backup schedule (its backups are kept)')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string, table: string | undefined, options: { driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        await withExecutor(config, options, async (executor, _spinner, driver) => {
+          const deleted = await createBackupScheduler(driver, { config, executor }).deleteSchedule(tableName, name)
+          if (deleted) {
+            success(`Deleted backup schedule ${name} for ${tableName}`)
+          }
+          else {
+            warning(`No backup schedule ${name} found for ${tableName}`)
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // backup:run-due - Run due backup schedules
+  cli
+    .command('backup:run-due [...tables]', 'Run the backup schedules that are due, then apply their retention (for cron jobs)')
+    .option('--json', 'Output as JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (tables: string[], options: { json?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableNames = tables.length > 0 ? tables : [resolveTableName(config)]
+
+        await withExecutor(config, options, async (executor, _spinner, driver) => {
+          const runs = await createBackupScheduler(driver, { config, executor }).runDue(tableNames)
+          if (runs.some(run => run.status === 'failed')) {
+            nodeProcess.exitCode = 1
+          }
+
+          if (options.json) {
+            console.log(JSON.stringify({ runs }, null, 2))
+            return
+          }
+
+          if (runs.length === 0) {
+            info('No backup schedules are due')
+            return
+          }
+
+          for (const run of runs) {
+            const label = `${run.tableName}/${run.schedule}`
+            if (run.status === 'created') {
+              success(`${label}: created ${run.backup!.name}${run.pruned.length > 0 ? `, pruned ${run.pruned.length} old backup(s)` : ''}`)
+            }
+            else if (run.status === 'skipped') {
+              info(`${label}: already claimed by another runner`)
+            }
+            else {
+              console.log(`${c.error('✗')} ${label}: ${run.error}`)
+            }
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // pitr:enable - Enable point-in-time recovery
+  cli
+    .command('pitr:enable [table]', 'Enable point-in-time recovery for a table')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: { driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        await withExecutor(config, options, async (executor) => {
+          const pitr = await executor.enablePITR(tableName)
+          success(`Point-in-time recovery is ${pitr.status} for ${tableName}`)
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // pitr:disable - Disable point-in-time recovery
+  cli
+    .command('pitr:disable [table]', 'Disable point-in-time recovery for a table')
+    .option('--force', 'Skip confirmation prompt')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: { force?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        if (!options.force) {
+          console.log(`WARNING: Disabling point-in-time recovery discards the restorable history of '${tableName}'`)
+          console.log('Use --force to skip this warning.')
+          return
+        }
+
+        await withExecutor(config, options, async (executor) => {
+          const pitr = await executor.disablePITR(tableName)
+          success(`Point-in-time recovery is ${pitr.status} for ${tableName}`)
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // pitr:status - Show point-in-time recovery status
+  cli
+    .command('pitr:status [table]', 'Show point-in-time recovery status for a table')
+    .option('--json', 'Output as JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: { json?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const tableName = table ?? resolveTableName(config)
+
+        await withExecutor(config, options, async (executor) => {
+          const pitr = await executor.describePITR(tableName)
+
+          if (options.json) {
+            console.log(JSON.stringify({ tableName, ...pitr }, null, 2))
+            return
+          }
+
+          console.log(c.header(`Point-in-time recovery: ${tableName}`))
+          console.log(formatKeyValue({
+            'Status': pitr.status,
+            'Earliest Restorable': pitr.earliestRestorableTime?.toISOString() ?? '-',
+            'Latest Restorable': pitr.latestRestorableTime?.toISOString() ?? '-',
+          }))
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolveTableName(config: Config): string {
+  return `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+}
+
+/**
+ * Connect the driver and run the command with a backup executor whose
+ * progress is shown on a spinner
+ */
+async function withExecutor(
+  config: Config,
+  options: Partial<WaitOptions>,
+  run: (executor: BackupExecutor, spinner: ReturnType<typeof createSpinner>, driver: DriverPlugin) => Promise<void>,
+): Promise<void> {
+  const driver = await connectDriver(config, options.driver)
+  const spinner = createSpinner()
+  const executor = createBackupExecutor(driver, {
+    pollIntervalMs: options.interval === undefined ? undefined : Number(options.interval),
+    timeoutMs: options.timeout === undefined ? undefined : Number(options.timeout),
+    onProgress: (progress: BackupProgress) => {
+      const items = progress.itemCount === undefined ? '' : `, ${formatNumber(progress.itemCount)} items`
+      spinner.update(`${progress.operation === 'backup' ? 'Backup' : 'Restored table'} ${progress.target}: ${progress.status}${items} (${formatDuration(progress.elapsedMs)})`)
+    },
+  })
+
+  try {
+    await run(executor, spinner, driver)
+  }
+  finally {
+    await driver.disconnect()
+  }
+}
+
+/**
+ * Models to check restored tables against, or undefined when there are none
+ */
+async function loadVerification(config: Config): Promise<RestoreVerification | undefined> {
+  const registry = await parseModels(config)
+  if (registry.models.size === 0) {
+    warning('No models found; the restored table will not be checked against a schema')
+    return undefined
+  }
+  return { registry, config }
+}
+
+function printSchedule(schedule: StoredBackupSchedule): void {
+  const retention = Object.entries(schedule.retention ?? {}).map(([rule, value]) => `${rule} ${value}`).join(', ')
+
+  console.log(formatKeyValue({
+    'Name': schedule.name,
+    'Schedule': schedule.schedule,
+    'Enabled': schedule.enabled ? 'yes' : 'no',
+    'Prefix': schedule.backupNamePrefix,
+    'Retention': retention || 'keep all',
+    'Next Run': schedule.nextRunAt.toISOString(),
+    'Last Run': schedule.lastRunAt?.toISOString() ?? '-',
+    'Last Backup': schedule.lastBackupArn ?? '-',
+    ...(schedule.lastError ? { 'Last Error': schedule.lastError } : {}),
+  }))
+}
@@ -0,0 +1,239 @@
+// ============================================================================
+// Event Store CLI Commands
+// ============================================================================
+
+import type { CAC } from 'cac'
+import type { EventMigrationResult, ProjectionRunner, ProjectionRunResult } from '../../event-sourcing'
+import type { Config } from '../../types'
+import nodeProcess from 'node:process'
+import { getConfig } from '../../config'
+import { createEventStore, createProjectionRunner, discoverProjections, discoverUpcasters, migrateEvents, ProjectionError } from '../../event-sourcing'
+import { c, createSpinner, formatDuration, formatNumber, formatTable, info, success, warning } from '../ui'
+import { connectDriver, handleError } from '../utils'
+
+/**
+ * Options shared by the projection commands
+ */
+interface ProjectionOptions {
+  path?: string
+  eventsTable?: string
+  readModelTable?: string
+  driver?: string
+}
+
+/**
+ * Register event store commands
+ */
+export function registerEventCommands(cli: CAC): void {
+  // events:project - Catch projections up or rebuild one
+  cli
+    .command('events:project [name]', 'Catch projections up with the event store, or rebuild one')
+    .option('--rebuild <name>', 'Delete the read model of a projection and replay every event into it')
+    .option('--path <path>', 'Path to projections directory')
+    .option('--events-table <name>', 'Event store table (default: the configured table)')
+    .option('--read-model-table <name>', 'Read-model table (default: <events table>-read-models)')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string | undefined, options: ProjectionOptions & { rebuild?: string }) => {
+      try {
+        const config = await getConfig()
+        await withRunner(config, options, async (runner) => {
+          if (runner.getProjectionNames().length === 0) {
+            return
+          }
+
+          const spinner = createSpinner()
+          const target = options.rebuild ?? name
+          spinner.start(options.rebuild
+            ? `Rebuilding projection ${options.rebuild}...`
+            : `Catching up ${target ? `projection ${target}` : 'projections'}...`)
+
+          try {
+            const results = options.rebuild ? [await runner.rebuild(options.rebuild)] : await runner.catchUp(name)
+            spinner.succeed(options.rebuild ? `Rebuilt projection ${options.rebuild}` : 'Projections are up to date')
+            printResults(results)
+          }
+          catch (error) {
+            spinner.fail(error instanceof ProjectionError
+              ? `Projection ${error.projection} stopped at event ${error.eventId}`
+              : 'Projection run failed')
+            throw error
+          }
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // events:projections - Show projection checkpoints
+  cli
+    .command('events:projections', 'List projections and their checkpoints')
+    .option('--path <path>', 'Path to projections directory')
+    .option('--events-table <name>', 'Event store table (default: the configured table)')
+    .option('--read-model-table <name>', 'Read-model table (default: <events table>-read-models)')
+    .option('--json', 'Output as JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (options: ProjectionOptions & { json?: boolean }) => {
+      try {
+        const config = await getConfig()
+        await withRunner(config, options, async (runner) => {
+          const rows = []
+          for (const projection of runner.getProjectionNames()) {
+            const checkpoint = await runner.getCheckpoint(projection)
+            rows.push({
+              projection,
+              status: checkpoint?.status ?? 'NEW',
+              eventCount: checkpoint?.eventCount ?? 0,
+              position: checkpoint?.position ?? '-',
+              updatedAt: checkpoint?.updatedAt.toISOString() ?? '-',
+            })
+          }
+
+          if (options.json) {
+            console.log(JSON.stringify({ projections: rows }, null, 2))
+            return
+          }
+
+          if (rows.length === 0) {
+            return
+          }
+
+          console.log(c.header(`Projections: ${runner.getTableName()} (${rows.length})`))
+          console.log(formatTable(rows, {
+            columns: [
+              { key: 'projection', header: 'Projection' },
+              { key: 'status', header: 'Status' },
+              { key: 'eventCount', header: 'Events', align: 'right', format: value => formatNumber(Number(value)) },
+              { key: 'position', header: 'Position' },
+              { key: 'updatedAt', header: 'Updated' },
+            ],
+          }))
+        })
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+
+  // events:migrate - Rewrite stored events to the latest schema version
+  cli
+    .command('events:migrate', 'Rewrite stored events to the latest schema version of their type')
+    .option('--path <path>', 'Path to upcasters directory')
+    .option('--events-table <name>', 'Event store table (default: the configured table)')
+    .option('--event-types <types>', 'Comma-separated event types to migrate (default: all with upcasters)')
+    .option('--dry-run', 'Upcast and validate without rewriting events')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (options: { path?: string, eventsTable?: string, eventTypes?: string, dryRun?: boolean, driver?: string }) => {
+      try {
+        const config = await getConfig()
+        const upcastersPath = options.path ?? config.queryBuilder.modelsPath?.replace('/models', '/upcasters') ?? './upcasters'
+        const upcasters = await discoverUpcasters(upcastersPath)
+        if (upcasters.getEventTypes().length === 0) {
+          warning(`No upcasters found in ${upcastersPath}`)
+          nodeProcess.exitCode = 1
+          return
+        }
+
+        const driver = await connectDriver(config, options.driver)
+        try {
+          const store = createEventStore({
+            tableName: options.eventsTable ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`,
+            upcasters,
+          })
+          const spinner = createSpinner()
+          spinner.start(`${options.dryRun ? 'Checking' : 'Migrating'} events in ${store.getTableName()}...`)
+
+          let result: EventMigrationResult
+          try {
+            result = await migrateEvents(driver, {
+              store,
+              eventTypes: options.eventTypes?.split(',').map(type => type.trim()).filter(Boolean),
+              dryRun: options.dryRun,
+              onProgress: progress => spinner.update(`${options.dryRun ? 'Checking' : 'Migrating'} events... ${formatNumber(progress.scanned)} scanned`),
+            })
+          }
+          catch (error) {
+            spinner.fail('Event migration failed')
+            throw error
+          }
+
+          if (result.failed.length > 0) {
+            spinner.warn(`${formatNumber(result.failed.length)} events could not be migrated`)
+            nodeProcess.exitCode = 1
+          }
+          else {
+            spinner.succeed(options.dryRun ? 'Every outdated event can be migrated' : 'Events are at the latest schema version')
+          }
+          printMigration(result, options.dryRun)
+        }
+        finally {
+          await driver.disconnect()
+        }
+      }
+      catch (error) {
+        handleError(error)
+      }
+    })
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Connect the driver and run the command with a runner holding the
+ * projections found in the projections directory
+ */
+async function withRunner(config: Config, options: ProjectionOptions, run: (runner: ProjectionRunner) => Promise<void>): Promise<void> {
+  const projectionsPath = options.path ?? config.queryBuilder.modelsPath?.replace('/models', '/projections') ?? './projections'
+  const projections = await discoverProjections(projectionsPath, (file, error) => {
+    warning(`Could not load projection from ${file}: ${error instanceof Error ? error.message : String(error)}`)
+  })
+  if (projections.length === 0) {
+    warning(`No projections found in ${projectionsPath}`)
+    nodeProcess.exitCode = 1
+  }
+
+  const driver = await connectDriver(config, options.driver)
+  try {
+    const store = createEventStore({ tableName: options.eventsTable ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}` })
+    await run(createProjectionRunner(driver, { store, readModelTable: options.readModelTable, projections }))
+  }
+  finally {
+    await driver.disconnect()
+  }
+}
+
+function printResults(results: ProjectionRunResult[]): void {
+  for (const result of results) {
+    const skipped = result.skipped > 0 ? `, ${formatNumber(result.skipped)} already applied` : ''
+    if (result.applied === 0 && result.skipped === 0) {
+      info(`${result.projection}: no new events`)
+    }
+    else {
+      success(`${result.projection}: applied ${formatNumber(result.applied)} events${skipped} in ${formatDuration(result.durationMs)}`)
+    }
+    console.log(`  ${c.dim(`Checkpoint: ${result.position ?? 'start'}`)}`)
+  }
+}
+
+function printMigration(result: EventMigrationResult, dryRun?: boolean): void {
+  const migrated = `${formatNumber(result.migrated)} ${dryRun ? 'to migrate' : 'migrated'}`
+  info(`${formatNumber(result.scanned)} events scanned: ${migrated}, ${formatNumber(result.skipped)} up to date, ${formatNumber(result.failed.length)} failed in ${formatDuration(result.durationMs)}`)
+
+  if (result.failed.length > 0) {
+    console.log(formatTable(result.failed.map(failure => ({
+      event: `${failure.eventType} ${failure.eventId}`,
+      stream: `${failure.aggregateType}#${failure.aggregateId} v${failure.version}`,
+      schemaVersion: failure.schemaVersion,
+      reason: failure.reason,
+    })), {
+      columns: [
+        { key: 'event', header: 'Event' },
+        { key: 'stream', header: 'Stream' },
+        { key: 'schemaVersion', header: 'Schema', align: 'right' },
+        { key: 'reason', header: 'Reason' },
+      ],
+    }))
+  }
+}
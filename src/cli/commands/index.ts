@@ -3,6 +3,8 @@
 // ============================================================================
 
 import type { CAC } from 'cac'
+import { registerBackupCommands } from './backup'
+import { registerEventCommands } from './events'
 import { registerLocalCommands } from './local'
 import { registerMigrateCommands } from './migrate'
 import { registerModelsCommands } from './models'
@@ -12,6 +14,8 @@ import { registerSeedCommands } from './seed'
 import { registerTableCommands } from './table'
 import { registerUtilityCommands } from './utility'
 
+export { registerBackupCommands } from './backup'
+export { registerEventCommands } from './events'
 export { registerLocalCommands } from './local'
 export { registerMigrateCommands } from './migrate'
 export { registerModelsCommands } from './models'
@@ -30,7 +34,9 @@ export function registerAllCommands(cli: CAC): void {
   registerQueryCommands(cli)
   registerSeedCommands(cli)
   registerUtilityCommands(cli)
+  registerBackupCommands(cli)
   registerLocalCommands(cli)
   registerSchemaCommands(cli)
   registerModelsCommands(cli)
+  registerEventCommands(cli)
 }
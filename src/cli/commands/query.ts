@@ -3,100 +3,173 @@
 // ============================================================================
 
 import type { CAC } from 'cac'
+import type { AttributeValue, DriverPlugin, QueryOutput } from '../../drivers/types'
+import type { ParsedModel } from '../../model-parser/types'
+import type { DynamoDBItem, JSObject } from '../../single-table/EntityTransformer'
+import type { Config } from '../../types'
 import { getConfig } from '../../config'
-import { handleError } from '../utils'
+import { marshallObject, toModelInstance, unmarshallItem } from '../../single-table/EntityTransformer'
+import { handleCommandError } from '../error-formatter'
+import { c, formatTable, info, success, truncate, warning } from '../ui'
+import { connectDriver, resolveModel } from '../utils'
+
+type OutputFormat = 'table' | 'json' | 'jsonl'
+
+/**
+ * Options shared by the commands that read items
+ */
+interface ReadOptions {
+  driver?: string
+  format?: string
+  json?: boolean
+  entityType?: string
+  projection?: string
+  names?: string
+  values?: string
+  consistent?: boolean
+}
+
+/**
+ * Options shared by the commands that page through results
+ */
+interface PagedReadOptions extends ReadOptions {
+  filter?: string
+  limit?: number
+  all?: boolean
+}
 
 /**
  * Register query commands
  */
 export function registerQueryCommands(cli: CAC): void {
-  // query - Interactive query
+  // query - Query by partition key
   cli
     .command('query [table]', 'Query a DynamoDB table')
     .option('--pk <value>', 'Partition key value')
     .option('--sk <value>', 'Sort key value (exact match)')
     .option('--sk-begins <prefix>', 'Sort key begins with prefix')
     .option('--index <name>', 'Use a specific GSI/LSI')
+    .option('--filter <expression>', 'Filter expression')
     .option('--limit <n>', 'Limit number of results')
+    .option('--all', 'Follow pagination until every page is read')
+    .option('--desc', 'Return items in descending sort key order')
+    .option('--consistent', 'Use consistent read')
+    .option('--projection <attributes>', 'Comma-separated attributes to return')
+    .option('--entity-type <type>', 'Only return items of this entity type, decoded with its model')
+    .option('--names <json>', 'Expression attribute names as JSON')
+    .option('--values <json>', 'Expression attribute values as plain JSON')
+    .option('--format <format>', 'Output format: table, json or jsonl', { default: 'table' })
     .option('--json', 'Output as JSON')
-    .action(async (table: string | undefined, options: {
-      pk?: string
-      sk?: string
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: PagedReadOptions & {
+      pk?: string | number
+      sk?: string | number
       skBegins?: string
       index?: string
-      limit?: number
-      json?: boolean
+      desc?: boolean
     }) => {
       try {
-        const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        console.log(`Querying table: ${tableName}`)
-
         if (!options.pk) {
-          console.log('\nError: --pk is required for Query operations')
+          console.log('Error: --pk is required for Query operations')
           console.log('Use `dbtooling scan` for operations without a partition key')
           return
         }
+        // Numeric-looking values arrive parsed as numbers
+        const pk = String(options.pk)
 
-        console.log('\nQuery parameters:')
-        console.log(`  Partition Key: ${options.pk}`)
-        if (options.sk) {
-          console.log(`  Sort Key: ${options.sk}`)
-        }
-        if (options.skBegins) {
-          console.log(`  Sort Key begins with: ${options.skBegins}`)
-        }
-        if (options.index) {
-          console.log(`  Using index: ${options.index}`)
-        }
-        if (options.limit) {
-          console.log(`  Limit: ${options.limit}`)
-        }
+        const config = await getConfig()
+        const tableName = resolveTableName(config, table)
+        const format = getOutputFormat(options)
+        const model = await resolveModel(config, options.entityType)
+        const decode = createDecoder(config, model)
+
+        await withDriver(config, options.driver, async (driver) => {
+          const keys = await getKeyAttributes(driver, tableName, options.index)
+          const expressions = buildReadExpressions(config, options, model)
+
+          let keyCondition = '#kpk = :kpk'
+          expressions.names['#kpk'] = keys.partitionKey.name
+          expressions.values[':kpk'] = toKeyValue(pk, keys.partitionKey.type)
+
+          const sortValue = options.sk ?? options.skBegins
+          if (sortValue !== undefined) {
+            if (!keys.sortKey) {
+              throw new Error(`${options.index ?? tableName} has no sort key`)
+            }
+            keyCondition += options.sk !== undefined ? ' AND #ksk = :ksk' : ' AND begins_with(#ksk, :ksk)'
+            expressions.names['#ksk'] = keys.sortKey.name
+            expressions.values[':ksk'] = toKeyValue(String(sortValue), keys.sortKey.type)
+          }
+
+          const { items, lastEvaluatedKey } = await readPages(options, exclusiveStartKey => driver.query({
+            tableName,
+            indexName: options.index,
+            keyConditionExpression: keyCondition,
+            filterExpression: expressions.filter,
+            projectionExpression: expressions.projection,
+            expressionAttributeNames: nonEmpty(expressions.names),
+            expressionAttributeValues: nonEmpty(expressions.values),
+            scanIndexForward: !options.desc,
+            consistentRead: options.consistent,
+            limit: options.limit ? Number(options.limit) : undefined,
+            exclusiveStartKey,
+          }))
 
-        console.log('\nNote: Implement DynamoDB client integration to execute the query.')
+          printItems(items.map(decode), format, lastEvaluatedKey !== undefined)
+        })
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'query')
       }
     })
 
   // scan - Scan a table
   cli
     .command('scan [table]', 'Scan a DynamoDB table')
+    .option('--index <name>', 'Scan a specific GSI/LSI')
     .option('--filter <expression>', 'Filter expression')
     .option('--limit <n>', 'Limit number of results')
-    .option('--entity-type <type>', 'Filter by entity type')
+    .option('--all', 'Follow pagination until every page is read')
+    .option('--consistent', 'Use consistent read')
+    .option('--projection <attributes>', 'Comma-separated attributes to return')
+    .option('--entity-type <type>', 'Only return items of this entity type, decoded with its model')
+    .option('--names <json>', 'Expression attribute names as JSON')
+    .option('--values <json>', 'Expression attribute values as plain JSON')
+    .option('--format <format>', 'Output format: table, json or jsonl', { default: 'table' })
     .option('--json', 'Output as JSON')
-    .action(async (table: string | undefined, options: {
-      filter?: string
-      limit?: number
-      entityType?: string
-      json?: boolean
-    }) => {
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: PagedReadOptions & { index?: string }) => {
       try {
         const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        console.log(`Scanning table: ${tableName}`)
-        console.log('\nWARNING: Scan operations read every item in the table.')
-        console.log('Consider using Query with a partition key for better performance.\n')
+        const tableName = resolveTableName(config, table)
+        const format = getOutputFormat(options)
+        const model = await resolveModel(config, options.entityType)
+        const decode = createDecoder(config, model)
 
-        console.log('Scan parameters:')
-        if (options.filter) {
-          console.log(`  Filter: ${options.filter}`)
-        }
-        if (options.limit) {
-          console.log(`  Limit: ${options.limit}`)
-        }
-        if (options.entityType) {
-          console.log(`  Entity Type: ${options.entityType}`)
+        if (format === 'table' && options.all) {
+          warning('Scan operations read every item in the table. Consider a Query with a partition key.')
         }
 
-        console.log('\nNote: Implement DynamoDB client integration to execute the scan.')
+        await withDriver(config, options.driver, async (driver) => {
+          const expressions = buildReadExpressions(config, options, model)
+
+          const { items, lastEvaluatedKey } = await readPages(options, exclusiveStartKey => driver.scan({
+            tableName,
+            indexName: options.index,
+            filterExpression: expressions.filter,
+            projectionExpression: expressions.projection,
+            expressionAttributeNames: nonEmpty(expressions.names),
+            expressionAttributeValues: nonEmpty(expressions.values),
+            consistentRead: options.consistent,
+            limit: options.limit ? Number(options.limit) : undefined,
+            exclusiveStartKey,
+          }))
+
+          printItems(items.map(decode), format, lastEvaluatedKey !== undefined)
+        })
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'scan')
       }
     })
 
@@ -104,76 +177,103 @@ export function registerQueryCommands(cli: CAC): void {
   cli
     .command('get [table]', 'Get a single item from DynamoDB')
     .option('--pk <value>', 'Partition key value (required)')
-    .option('--sk <value>', 'Sort key value (required)')
+    .option('--sk <value>', 'Sort key value (required when the table has a sort key)')
     .option('--consistent', 'Use consistent read')
+    .option('--projection <attributes>', 'Comma-separated attributes to return')
+    .option('--entity-type <type>', 'Decode the item with the model of this entity type')
+    .option('--format <format>', 'Output format: table, json or jsonl', { default: 'table' })
     .option('--json', 'Output as JSON')
-    .action(async (table: string | undefined, options: {
-      pk?: string
-      sk?: string
-      consistent?: boolean
-      json?: boolean
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (table: string | undefined, options: ReadOptions & {
+      pk?: string | number
+      sk?: string | number
     }) => {
       try {
-        const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        if (!options.pk || !options.sk) {
-          console.log('Error: Both --pk and --sk are required for GetItem')
+        if (!options.pk) {
+          console.log('Error: --pk is required for GetItem')
           return
         }
+        const pk = String(options.pk)
 
-        console.log(`Getting item from: ${tableName}`)
-        console.log(`  PK: ${options.pk}`)
-        console.log(`  SK: ${options.sk}`)
-        if (options.consistent) {
-          console.log(`  Consistent Read: true`)
-        }
+        const config = await getConfig()
+        const tableName = resolveTableName(config, table)
+        const format = getOutputFormat(options)
+        const model = await resolveModel(config, options.entityType)
+        const decode = createDecoder(config, model)
+
+        await withDriver(config, options.driver, async (driver) => {
+          const key = buildKey(await getKeyAttributes(driver, tableName), pk, options.sk)
+          const projection = buildProjection(options.projection)
 
-        console.log('\nNote: Implement DynamoDB client integration to get the item.')
+          const item = await driver.getItem({
+            tableName,
+            key,
+            projectionExpression: projection?.expression,
+            expressionAttributeNames: projection?.names,
+            consistentRead: options.consistent,
+          })
+
+          if (!item) {
+            if (format === 'table') {
+              warning(`No item found in ${tableName}`)
+            }
+            else {
+              console.log('null')
+            }
+            return
+          }
+
+          printItems([decode(item)], format, false)
+        })
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'get')
       }
     })
 
   // put - Put an item
   cli
     .command('put [table]', 'Put an item into DynamoDB')
-    .option('--item <json>', 'Item as JSON string (required)')
+    .option('--item <json>', 'Item as plain JSON (required)')
     .option('--condition <expression>', 'Condition expression')
+    .option('--names <json>', 'Expression attribute names as JSON')
+    .option('--values <json>', 'Expression attribute values as plain JSON')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
     .action(async (table: string | undefined, options: {
       item?: string
       condition?: string
+      names?: string
+      values?: string
+      driver?: string
     }) => {
       try {
-        const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
         if (!options.item) {
           console.log('Error: --item is required')
           console.log('Example: dbtooling put --item \'{"pk":"USER#1","sk":"USER#1","name":"John"}\'')
           return
         }
 
-        let item: unknown
-        try {
-          item = JSON.parse(options.item)
-        }
-        catch {
-          console.log('Error: --item must be valid JSON')
-          return
-        }
+        const item = parseJsonOption<JSObject>('--item', options.item)
+        const config = await getConfig()
+        const tableName = resolveTableName(config, table)
 
-        console.log(`Putting item into: ${tableName}`)
-        console.log('Item:', JSON.stringify(item, null, 2))
-        if (options.condition) {
-          console.log(`Condition: ${options.condition}`)
-        }
+        await withDriver(config, options.driver, async (driver) => {
+          const keys = await getKeyAttributes(driver, tableName)
+          const condition = buildConditionParts(options)
 
-        console.log('\nNote: Implement DynamoDB client integration to put the item.')
+          await driver.putItem({
+            tableName,
+            item: marshallObject(item) as Record<string, AttributeValue>,
+            conditionExpression: options.condition,
+            expressionAttributeNames: condition.names,
+            expressionAttributeValues: condition.values,
+          })
+
+          success(`Put ${describeKey(item, keys)} into ${tableName}`)
+        })
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'put')
       }
     })
 
@@ -181,44 +281,298 @@ export function registerQueryCommands(cli: CAC): void {
   cli
     .command('delete [table]', 'Delete an item from DynamoDB')
     .option('--pk <value>', 'Partition key value (required)')
-    .option('--sk <value>', 'Sort key value (required)')
+    .option('--sk <value>', 'Sort key value (required when the table has a sort key)')
     .option('--condition <expression>', 'Condition expression')
+    .option('--names <json>', 'Expression attribute names as JSON')
+    .option('--values <json>', 'Expression attribute values as plain JSON')
     .option('--force', 'Skip confirmation')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
     .action(async (table: string | undefined, options: {
-      pk?: string
-      sk?: string
+      pk?: string | number
+      sk?: string | number
       condition?: string
+      names?: string
+      values?: string
       force?: boolean
+      driver?: string
     }) => {
       try {
-        const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        if (!options.pk || !options.sk) {
-          console.log('Error: Both --pk and --sk are required for DeleteItem')
+        if (!options.pk) {
+          console.log('Error: --pk is required for DeleteItem')
           return
         }
+        const pk = String(options.pk)
+
+        const config = await getConfig()
+        const tableName = resolveTableName(config, table)
 
         if (!options.force) {
           console.log('WARNING: This will permanently delete the item.')
           console.log(`  Table: ${tableName}`)
-          console.log(`  PK: ${options.pk}`)
-          console.log(`  SK: ${options.sk}`)
+          console.log(`  PK: ${pk}`)
+          if (options.sk) {
+            console.log(`  SK: ${options.sk}`)
+          }
           console.log('Use --force to proceed.')
           return
         }
 
-        console.log(`Deleting item from: ${tableName}`)
-        console.log(`  PK: ${options.pk}`)
-        console.log(`  SK: ${options.sk}`)
-        if (options.condition) {
-          console.log(`  Condition: ${options.condition}`)
-        }
+        await withDriver(config, options.driver, async (driver) => {
+          const keys = await getKeyAttributes(driver, tableName)
+          const key = buildKey(keys, pk, options.sk)
+          const condition = buildConditionParts(options)
+
+          const { attributes } = await driver.deleteItem({
+            tableName,
+            key,
+            conditionExpression: options.condition,
+            expressionAttributeNames: condition.names,
+            expressionAttributeValues: condition.values,
+            returnValues: 'ALL_OLD',
+          })
 
-        console.log('\nNote: Implement DynamoDB client integration to delete the item.')
+          const label = describeKey(unmarshallItem(key as DynamoDBItem), keys)
+          if (attributes) {
+            success(`Deleted ${label} from ${tableName}`)
+          }
+          else {
+            warning(`No item ${label} in ${tableName}; nothing was deleted`)
+          }
+        })
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'delete')
       }
     })
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface KeyAttribute {
+  name: string
+  type: 'S' | 'N' | 'B'
+}
+
+interface KeyAttributes {
+  partitionKey: KeyAttribute
+  sortKey?: KeyAttribute
+}
+
+interface ReadExpressions {
+  filter?: string
+  projection?: string
+  names: Record<string, string>
+  values: Record<string, AttributeValue>
+}
+
+function resolveTableName(config: Config, table: string | undefined): string {
+  return table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+}
+
+function getOutputFormat(options: ReadOptions): OutputFormat {
+  if (options.json)
+    return 'json'
+  const format = options.format ?? 'table'
+  if (format !== 'table' && format !== 'json' && format !== 'jsonl') {
+    throw new Error(`Unknown format "${format}". Use table, json or jsonl.`)
+  }
+  return format
+}
+
+function parseJsonOption<T>(flag: string, value: string): T {
+  try {
+    return JSON.parse(value) as T
+  }
+  catch {
+    throw new Error(`${flag} must be valid JSON`)
+  }
+}
+
+function nonEmpty<T>(record: Record<string, T>): Record<string, T> | undefined {
+  return Object.keys(record).length > 0 ? record : undefined
+}
+
+/**
+ * Connect the driver, run the command and disconnect again
+ */
+async function withDriver(config: Config, name: string | undefined, run: (driver: DriverPlugin) => Promise<void>): Promise<void> {
+  const driver = await connectDriver(config, name)
+  try {
+    await run(driver)
+  }
+  finally {
+    await driver.disconnect()
+  }
+}
+
+/**
+ * Key attributes of the table, or of one of its indexes
+ */
+async function getKeyAttributes(driver: DriverPlugin, tableName: string, indexName?: string): Promise<KeyAttributes> {
+  const description = await driver.describeTable(tableName)
+  let keySchema = description.keySchema
+  if (indexName) {
+    const index = [...description.globalSecondaryIndexes ?? [], ...description.localSecondaryIndexes ?? []]
+      .find(candidate => candidate.indexName === indexName)
+    if (!index) {
+      throw new Error(`Index "${indexName}" not found on ${tableName}`)
+    }
+    keySchema = index.keySchema
+  }
+
+  const toKeyAttribute = (keyType: 'HASH' | 'RANGE'): KeyAttribute | undefined => {
+    const name = keySchema.find(key => key.keyType === keyType)?.attributeName
+    if (!name)
+      return undefined
+    const type = description.attributeDefinitions.find(definition => definition.attributeName === name)?.attributeType
+    return { name, type: type ?? 'S' }
+  }
+
+  return { partitionKey: toKeyAttribute('HASH')!, sortKey: toKeyAttribute('RANGE') }
+}
+
+function toKeyValue(value: string, type: KeyAttribute['type']): AttributeValue {
+  if (type === 'N') {
+    if (Number.isNaN(Number(value))) {
+      throw new TypeError(`Key value "${value}" must be a number`)
+    }
+    return { N: value }
+  }
+  return type === 'B' ? { B: value } : { S: value }
+}
+
+function buildKey(keys: KeyAttributes, pk: string, sk: string | number | undefined): Record<string, AttributeValue> {
+  const key: Record<string, AttributeValue> = { [keys.partitionKey.name]: toKeyValue(pk, keys.partitionKey.type) }
+  if (keys.sortKey) {
+    if (sk === undefined) {
+      throw new Error(`--sk is required: the table has sort key "${keys.sortKey.name}"`)
+    }
+    key[keys.sortKey.name] = toKeyValue(String(sk), keys.sortKey.type)
+  }
+  return key
+}
+
+function describeKey(item: JSObject, keys: KeyAttributes): string {
+  const parts = [item[keys.partitionKey.name], keys.sortKey ? item[keys.sortKey.name] : undefined]
+  return parts.filter(part => part !== undefined).map(String).join(' / ')
+}
+
+/**
+ * Turn `--projection a,b` into a ProjectionExpression with name placeholders
+ */
+function buildProjection(projection: string | undefined): { expression: string, names: Record<string, string> } | undefined {
+  const attributes = projection?.split(',').map(attribute => attribute.trim()).filter(Boolean) ?? []
+  if (attributes.length === 0)
+    return undefined
+  const names = Object.fromEntries(attributes.map((attribute, i) => [`#p${i}`, attribute]))
+  return { expression: Object.keys(names).join(', '), names }
+}
+
+/**
+ * Names and values for `--condition`, from `--names` and `--values`
+ */
+function buildConditionParts(options: { names?: string, values?: string }): {
+  names?: Record<string, string>
+  values?: Record<string, AttributeValue>
+} {
+  return {
+    names: options.names ? parseJsonOption<Record<string, string>>('--names', options.names) : undefined,
+    values: options.values
+      ? marshallObject(parseJsonOption<JSObject>('--values', options.values)) as Record<string, AttributeValue>
+      : undefined,
+  }
+}
+
+function buildReadExpressions(config: Config, options: PagedReadOptions, model: ParsedModel | undefined): ReadExpressions {
+  const condition = buildConditionParts(options)
+  const names: Record<string, string> = { ...condition.names }
+  const values: Record<string, AttributeValue> = { ...condition.values }
+  const filters = options.filter ? [options.filter] : []
+
+  if (model) {
+    // Items carry the model name, not the entity type key prefix
+    names['#ket'] = config.singleTableDesign.entityTypeAttribute
+    values[':ket'] = { S: model.name }
+    filters.push('#ket = :ket')
+  }
+
+  const projection = buildProjection(options.projection)
+  Object.assign(names, projection?.names)
+
+  return {
+    filter: filters.length > 0 ? filters.map(filter => filters.length > 1 ? `(${filter})` : filter).join(' AND ') : undefined,
+    projection: projection?.expression,
+    names,
+    values,
+  }
+}
+
+/**
+ * Read one page, or every page with `--all`; `--limit` caps the items returned
+ */
+async function readPages(
+  options: PagedReadOptions,
+  read: (exclusiveStartKey?: Record<string, AttributeValue>) => Promise<QueryOutput>,
+): Promise<{ items: DynamoDBItem[], lastEvaluatedKey?: Record<string, AttributeValue> }> {
+  const limit = options.limit ? Number(options.limit) : undefined
+  const items: DynamoDBItem[] = []
+  let lastEvaluatedKey: Record<string, AttributeValue> | undefined
+
+  do {
+    const page = await read(lastEvaluatedKey)
+    items.push(...page.items as DynamoDBItem[])
+    lastEvaluatedKey = page.lastEvaluatedKey
+  } while (options.all && lastEvaluatedKey && (limit === undefined || items.length < limit))
+
+  return { items: limit === undefined ? items : items.slice(0, limit), lastEvaluatedKey }
+}
+
+/**
+ * Decode items to plain objects, with the model when one is given
+ */
+function createDecoder(config: Config, model: ParsedModel | undefined): (item: DynamoDBItem) => JSObject {
+  if (!model)
+    return item => unmarshallItem(item)
+
+  return item => toModelInstance(model, item, config).data
+}
+
+/**
+ * JSON for values JSON.stringify cannot represent (sets)
+ */
+function toJSONValue(_key: string, value: unknown): unknown {
+  return value instanceof Set ? [...value] : value
+}
+
+function printItems(items: JSObject[], format: OutputFormat, hasMore: boolean): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(items, toJSONValue, 2))
+    return
+  }
+  if (format === 'jsonl') {
+    for (const item of items) {
+      console.log(JSON.stringify(item, toJSONValue))
+    }
+    return
+  }
+
+  if (items.length === 0) {
+    info('No items found')
+  }
+  else {
+    const keys = [...new Set(items.flatMap(item => Object.keys(item)))]
+    console.log(formatTable(items, {
+      columns: keys.map(key => ({
+        key,
+        header: key,
+        format: (value: unknown) => value === undefined
+          ? ''
+          : truncate(typeof value === 'string' ? value : JSON.stringify(value, toJSONValue), 40),
+      })),
+    }))
+  }
+
+  console.log(c.dim(`${items.length} item${items.length === 1 ? '' : 's'}${hasMore ? ' (more available; use --all to read every page)' : ''}`))
+}
@@ -3,8 +3,29 @@
 // ============================================================================
 
 import type { CAC } from 'cac'
-import { getConfig } from '../../config'
-import { handleError } from '../utils'
+import type { DriverPlugin } from '../../drivers/types'
+import type { SeederConstructor, SeederRunResult } from '../../seeders'
+import type { Config } from '../../types'
+import nodeProcess from 'node:process'
+import { getConfig, isLocalMode } from '../../config'
+import { createDriverMigrationClient, InMemoryMigrationStateStore, runMigrations } from '../../migrations'
+import { createDriverSeederClient, discoverSeeders, runSeeders } from '../../seeders'
+import { isResourceNotFoundError } from '../../types/errors'
+import { c, createProgressBar, createSpinner, formatDuration, formatNumber, success, warning } from '../ui'
+import { connectDriver, handleError } from '../utils'
+
+/**
+ * Seeder selection and guard options shared by `seed` and `db:fresh`
+ */
+interface SeedOptions {
+  class?: string
+  only?: string
+  except?: string
+  path?: string
+  verbose?: boolean
+  forceProduction?: boolean
+  driver?: string
+}
 
 /**
  * Register seeder commands
@@ -14,56 +35,38 @@ export function registerSeedCommands(cli: CAC): void {
   cli
     .command('seed', 'Run database seeders')
     .option('--class <name>', 'Run only a specific seeder class')
+    .option('--only <names>', 'Run only these seeders (comma-separated)')
+    .option('--except <names>', 'Skip these seeders (comma-separated)')
     .option('--path <path>', 'Path to seeders directory')
     .option('--dry-run', 'Preview what would be seeded without persisting')
     .option('--verbose', 'Show detailed output')
-    .action(async (options: {
-      class?: string
-      path?: string
-      dryRun?: boolean
-      verbose?: boolean
-    }) => {
+    .option('--force-production', 'Allow seeding a non-local endpoint')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (options: SeedOptions & { dryRun?: boolean }) => {
       try {
         const config = await getConfig()
-        const seedersPath = options.path ?? config.queryBuilder.modelsPath?.replace('/models', '/seeders') ?? './seeders'
-
-        console.log('Running seeders...')
-        console.log('')
-
-        if (options.dryRun) {
-          console.log('[DRY RUN] No data will be persisted.')
-          console.log('')
+        const seeders = await loadSeeders(config, options)
+        if (seeders.length === 0) {
+          return
         }
 
-        console.log(`Seeders path: ${seedersPath}`)
-
-        if (options.class) {
-          console.log(`Running only: ${options.class}`)
+        const driver = await connectDriver(config, options.driver)
+        try {
+          if (options.dryRun) {
+            console.log('[DRY RUN] No data will be persisted.')
+          }
+          else {
+            assertLocalTarget(config, driver, options.forceProduction)
+          }
+
+          const result = await seed(config, driver, seeders, options)
+          if (!result.success) {
+            nodeProcess.exitCode = 1
+          }
+        }
+        finally {
+          await driver.disconnect()
         }
-
-        console.log('')
-        console.log('Note: To run seeders, integrate with a DynamoDB client.')
-        console.log('')
-        console.log('Example seeder:')
-        console.log('```typescript')
-        console.log('// seeders/UserSeeder.ts')
-        console.log('import { Seeder, SeederContext } from \'dynamodb-tooling\'')
-        console.log('')
-        console.log('export class UserSeeder extends Seeder {')
-        console.log('  static order = 1')
-        console.log('')
-        console.log('  async run(ctx: SeederContext): Promise<void> {')
-        console.log('    await ctx.factory(\'USER\', {')
-        console.log('      attributes: () => ({')
-        console.log('        id: crypto.randomUUID(),')
-        console.log('        name: \'Test User\',')
-        // eslint-disable-next-line no-template-curly-in-string
-        console.log('        email: `user${Date.now()}@example.com`,')
-        console.log('      })')
-        console.log('    }).count(10).create()')
-        console.log('  }')
-        console.log('}')
-        console.log('```')
       }
       catch (error) {
         handleError(error)
@@ -165,8 +168,14 @@ export class ${seederName} extends Seeder {
   cli
     .command('db:fresh', 'Drop all tables, re-migrate, and seed')
     .option('--seed', 'Run seeders after migrating', { default: true })
+    .option('--class <name>', 'Run only a specific seeder class')
+    .option('--only <names>', 'Run only these seeders (comma-separated)')
+    .option('--except <names>', 'Skip these seeders (comma-separated)')
+    .option('--path <path>', 'Path to seeders directory')
     .option('--force', 'Skip confirmation prompts')
-    .action(async (options: { seed: boolean, force?: boolean }) => {
+    .option('--force-production', 'Allow dropping a table on a non-local endpoint')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (options: SeedOptions & { seed: boolean, force?: boolean }) => {
       try {
         if (!options.force) {
           console.log('WARNING: This will DELETE ALL DATA and recreate the table!')
@@ -176,30 +185,63 @@ export class ${seederName} extends Seeder {
 
         const config = await getConfig()
         const tableName = `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+        const seeders = options.seed ? await loadSeeders(config, options) : []
 
-        console.log('Running db:fresh...')
-        console.log('')
-
-        console.log('Step 1: Delete existing table')
-        console.log(`  Table: ${tableName}`)
-        console.log('')
-
-        console.log('Step 2: Wait for deletion')
-        console.log('')
-
-        console.log('Step 3: Create new table with current schema')
-        console.log('')
-
-        console.log('Step 4: Wait for table to become ACTIVE')
-        console.log('')
-
-        if (options.seed) {
-          console.log('Step 5: Run seeders')
-          console.log('')
+        const driver = await connectDriver(config, options.driver)
+        try {
+          assertLocalTarget(config, driver, options.forceProduction)
+
+          // 1. Drop the table
+          const spinner = createSpinner(`Dropping table ${tableName}...`)
+          spinner.start()
+          try {
+            await driver.deleteTable(tableName)
+            await driver.waitForTableDeleted(tableName)
+            spinner.succeed(`Dropped table ${tableName}`)
+          }
+          catch (error) {
+            if (!isResourceNotFoundError(error)) {
+              spinner.fail(`Could not drop table ${tableName}`)
+              throw error
+            }
+            spinner.succeed(`Table ${tableName} does not exist yet`)
+          }
+
+          // 2. Re-create it from the models
+          const progress = createProgressBar()
+          let started = false
+          const migration = await runMigrations(createDriverMigrationClient(driver), new InMemoryMigrationStateStore(), {
+            force: true,
+            onProgress: (message, step, total) => {
+              if (step === undefined || total === undefined) {
+                return
+              }
+              if (!started) {
+                progress.start(total, message)
+                started = true
+              }
+              progress.update(step - 1, message)
+            },
+          }, config)
+
+          if (!migration.success) {
+            progress.stop()
+            throw new Error(`Migration failed: ${migration.errors.map(e => e.message).join('; ')}`)
+          }
+          progress.stop()
+          success(`Migrated ${tableName} (${migration.stepsExecuted} steps, ${formatDuration(migration.durationMs)})`)
+
+          // 3. Seed
+          if (seeders.length > 0) {
+            const result = await seed(config, driver, seeders, options)
+            if (!result.success) {
+              nodeProcess.exitCode = 1
+            }
+          }
+        }
+        finally {
+          await driver.disconnect()
         }
-
-        console.log('Note: Implement DynamoDB client integration to execute these steps.')
-        console.log('The migration system already handles schema generation.')
       }
       catch (error) {
         handleError(error)
@@ -340,3 +382,101 @@ Factory.define('${entityName}', {
       }
     })
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Discover the seeders and check that every requested seeder exists
+ */
+async function loadSeeders(config: Config, options: SeedOptions): Promise<SeederConstructor[]> {
+  const seedersPath = options.path ?? config.queryBuilder.modelsPath?.replace('/models', '/seeders') ?? './seeders'
+  const seeders = await discoverSeeders(seedersPath)
+  if (seeders.length === 0) {
+    warning(`No seeders found in ${seedersPath}`)
+    return []
+  }
+
+  const available = new Set(seeders.map(seeder => seeder.name))
+  const { only = [], skip = [] } = selectedSeeders(options)
+  const unknown = [...only, ...skip].filter(name => !available.has(name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown seeder(s): ${unknown.join(', ')}. Available: ${[...available].join(', ')}`)
+  }
+
+  return seeders
+}
+
+function selectedSeeders(options: SeedOptions): { only?: string[], skip?: string[] } {
+  const list = (value?: string) => value?.split(',').map(name => name.trim()).filter(Boolean)
+  return {
+    only: options.class ? [options.class] : list(options.only),
+    skip: list(options.except),
+  }
+}
+
+/**
+ * Refuse to write to anything but a local endpoint or the memory driver,
+ * unless --force-production is given
+ */
+function assertLocalTarget(config: Config, driver: DriverPlugin, forceProduction?: boolean): void {
+  if (forceProduction || driver.name === 'memory' || isLocalMode(config)) {
+    return
+  }
+
+  const target = config.endpoint ?? `DynamoDB in ${config.region}`
+  throw new Error(`Refusing to write to ${target}, which is not a local endpoint. Use --force-production to run anyway.`)
+}
+
+/**
+ * Run the seeders against the driver, with a progress bar per seeder
+ */
+async function seed(
+  config: Config,
+  driver: DriverPlugin,
+  seeders: SeederConstructor[],
+  options: SeedOptions & { dryRun?: boolean },
+): Promise<SeederRunResult> {
+  const { only, skip } = selectedSeeders(options)
+  const total = seeders.filter(seeder => (!only || only.includes(seeder.name)) && !skip?.includes(seeder.name)).length
+
+  const progress = createProgressBar()
+  let completed = 0
+  if (!options.verbose) {
+    progress.start(total, 'Seeding')
+  }
+
+  const result = await runSeeders(seeders, createDriverSeederClient(driver), {
+    only,
+    skip,
+    dryRun: options.dryRun,
+    verbose: options.verbose,
+    onProgress: (name) => {
+      if (!options.verbose) {
+        progress.update(++completed, name)
+      }
+    },
+  }, config)
+
+  if (!options.verbose) {
+    progress.stop()
+  }
+
+  for (const seederResult of result.results) {
+    const detail = c.dim(`(${formatNumber(seederResult.itemsCreated)} items, ${formatDuration(seederResult.durationMs)})`)
+    console.log(seederResult.success
+      ? `  ${c.green('✓')} ${seederResult.name} ${detail}`
+      : `  ${c.red('✗')} ${seederResult.name}: ${seederResult.error}`)
+  }
+
+  const verb = options.dryRun ? 'Would create' : 'Created'
+  if (result.success) {
+    success(`${verb} ${formatNumber(result.totalItemsCreated)} items with ${result.results.length} seeder(s) in ${formatDuration(result.durationMs)}`)
+  }
+  else {
+    warning(`${result.errors.length} of ${result.results.length} seeder(s) failed`)
+  }
+
+  return result
+}
@@ -3,13 +3,21 @@
 // ============================================================================
 
 import type { CAC } from 'cac'
+import type { DriverPlugin, TableDescription } from '../../drivers/types'
+import type { ChangeSeverity, LiveTableSettings, SchemaDiffResult } from '../../migrations'
+import type { Config } from '../../types'
+import nodeProcess from 'node:process'
 import { getConfig } from '../../config'
 import {
+  createMigrationStateFromTable,
+  diffSchemas,
   exportSchemaAsJSON,
   formatSchemaSummary,
   generateSchema,
 } from '../../migrations'
-import { handleError } from '../utils'
+import { parseModels } from '../../model-parser'
+import { c, createSpinner, formatBytes, formatKeyValue, formatNumber, formatTable, info, success, warning } from '../ui'
+import { connectDriver, handleError } from '../utils'
 
 /**
  * Register table management commands
@@ -47,40 +55,52 @@ export function registerTableCommands(cli: CAC): void {
       }
     })
 
-  // table:describe - Describe an existing table
+  // table:describe - Describe an existing table and report drift from the models
   cli
-    .command('table:describe [name]', 'Describe a DynamoDB table')
+    .command('table:describe [name]', 'Describe a DynamoDB table and compare it with your models')
     .option('--json', 'Output as JSON')
-    .action(async (name: string | undefined, options: { json?: boolean }) => {
+    .option('--no-drift', 'Skip schema drift detection')
+    .option('--exit-code', 'Exit with code 1 when the table has drifted from the models')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string | undefined, options: { json?: boolean, drift?: boolean, exitCode?: boolean, driver?: string }) => {
       try {
         const config = await getConfig()
-        const tableName = name ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        console.log(`Describing table: ${tableName}`)
-        console.log('\nNote: Implement DynamoDB client integration to fetch actual table description.')
-
-        // Placeholder for actual implementation
-        const tableInfo = {
-          tableName,
-          status: 'ACTIVE (simulated)',
-          partitionKey: config.singleTableDesign.partitionKeyName,
-          sortKey: config.singleTableDesign.sortKeyName,
-          billingMode: config.capacity.billingMode,
-          gsiCount: config.singleTableDesign.gsiCount,
-        }
+        const tableName = name ?? resolveTableName(config)
 
-        if (options.json) {
-          console.log(JSON.stringify(tableInfo, null, 2))
-        }
-        else {
-          console.log('\nTable Info:')
-          console.log(`  Name: ${tableInfo.tableName}`)
-          console.log(`  Status: ${tableInfo.status}`)
-          console.log(`  Partition Key: ${tableInfo.partitionKey}`)
-          console.log(`  Sort Key: ${tableInfo.sortKey}`)
-          console.log(`  Billing Mode: ${tableInfo.billingMode}`)
-          console.log(`  GSI Count: ${tableInfo.gsiCount}`)
-        }
+        await withDriver(config, options.driver, async (driver) => {
+          const description = await driver.describeTable(tableName)
+          const ttl = driver.describeTimeToLive ? await driver.describeTimeToLive(tableName) : description.ttlDescription
+          const tags = driver.listTagsOfResource && description.tableArn
+            ? await driver.listTagsOfResource(description.tableArn)
+            : undefined
+
+          const drift = options.drift === false
+            ? undefined
+            : await detectDrift(config, description, { ttl, tags })
+
+          if (options.json) {
+            console.log(JSON.stringify({
+              table: description,
+              ttl,
+              tags,
+              drift: drift && { hasChanges: drift.hasChanges, hasBreakingChanges: drift.hasBreakingChanges, changes: drift.changes },
+            }, null, 2))
+          }
+          else {
+            printTableDescription(description, ttl, tags)
+            if (drift) {
+              printDrift(tableName, drift)
+            }
+            else if (options.drift !== false) {
+              console.log()
+              warning('No models found; skipping schema drift detection')
+            }
+          }
+
+          if (options.exitCode && drift?.hasChanges) {
+            nodeProcess.exitCode = 1
+          }
+        })
       }
       catch (error) {
         handleError(error)
@@ -91,21 +111,33 @@ export function registerTableCommands(cli: CAC): void {
   cli
     .command('table:list', 'List all DynamoDB tables')
     .option('--json', 'Output as JSON')
-    .action(async (options: { json?: boolean }) => {
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (options: { json?: boolean, driver?: string }) => {
       try {
-        console.log('Listing DynamoDB tables...')
-        console.log('\nNote: Implement DynamoDB client integration to list actual tables.')
+        const config = await getConfig()
 
-        // Placeholder
-        const tables = ['(Integrate with DynamoDB client to list tables)']
+        await withDriver(config, options.driver, async (driver) => {
+          const tables: string[] = []
+          let exclusiveStartTableName: string | undefined
+          do {
+            const page = await driver.listTables({ exclusiveStartTableName })
+            tables.push(...page.tableNames)
+            exclusiveStartTableName = page.lastEvaluatedTableName
+          } while (exclusiveStartTableName)
 
-        if (options.json) {
-          console.log(JSON.stringify({ tables }, null, 2))
-        }
-        else {
-          console.log('\nTables:')
+          if (options.json) {
+            console.log(JSON.stringify({ tables }, null, 2))
+            return
+          }
+
+          if (tables.length === 0) {
+            info('No tables found')
+            return
+          }
+
+          console.log(c.header(`Tables (${tables.length})`))
           tables.forEach(t => console.log(`  - ${t}`))
-        }
+        })
       }
       catch (error) {
         handleError(error)
@@ -116,10 +148,12 @@ export function registerTableCommands(cli: CAC): void {
   cli
     .command('table:delete [name]', 'Delete a DynamoDB table')
     .option('--force', 'Skip confirmation prompt')
-    .action(async (name: string | undefined, options: { force?: boolean }) => {
+    .option('--wait', 'Wait until the table is deleted')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string | undefined, options: { force?: boolean, wait?: boolean, driver?: string }) => {
       try {
         const config = await getConfig()
-        const tableName = name ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+        const tableName = name ?? resolveTableName(config)
 
         if (!options.force) {
           console.log(`WARNING: This will permanently delete table '${tableName}'`)
@@ -127,8 +161,25 @@ export function registerTableCommands(cli: CAC): void {
           return
         }
 
-        console.log(`Deleting table: ${tableName}`)
-        console.log('\nNote: Implement DynamoDB client integration to delete the table.')
+        await withDriver(config, options.driver, async (driver) => {
+          const spinner = createSpinner(`Deleting table ${tableName}...`)
+          spinner.start()
+          try {
+            await driver.deleteTable(tableName)
+            if (options.wait) {
+              spinner.update(`Waiting for table ${tableName} to be deleted...`)
+              await driver.waitForTableDeleted(tableName)
+              spinner.succeed(`Deleted table ${tableName}`)
+            }
+            else {
+              spinner.succeed(`Deletion of table ${tableName} started`)
+            }
+          }
+          catch (error) {
+            spinner.fail(`Could not delete table ${tableName}`)
+            throw error
+          }
+        })
       }
       catch (error) {
         handleError(error)
@@ -139,17 +190,156 @@ export function registerTableCommands(cli: CAC): void {
   cli
     .command('table:wait [name]', 'Wait for a DynamoDB table to become ACTIVE')
     .option('--timeout <ms>', 'Timeout in milliseconds', { default: 300000 })
-    .action(async (name: string | undefined, options: { timeout: number }) => {
+    .option('--interval <ms>', 'Polling interval in milliseconds', { default: 5000 })
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .action(async (name: string | undefined, options: { timeout: number, interval: number, driver?: string }) => {
       try {
         const config = await getConfig()
-        const tableName = name ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+        const tableName = name ?? resolveTableName(config)
 
-        console.log(`Waiting for table '${tableName}' to become ACTIVE...`)
-        console.log(`Timeout: ${options.timeout}ms`)
-        console.log('\nNote: Implement DynamoDB client integration to poll table status.')
+        await withDriver(config, options.driver, async (driver) => {
+          const spinner = createSpinner(`Waiting for table '${tableName}' to become ACTIVE...`)
+          spinner.start()
+          try {
+            await driver.waitForTableActive(tableName, {
+              maxWaitTime: Number(options.timeout),
+              checkInterval: Number(options.interval),
+            })
+            spinner.succeed(`Table ${tableName} is ACTIVE`)
+          }
+          catch (error) {
+            spinner.fail(`Table ${tableName} is not ACTIVE`)
+            throw error
+          }
+        })
       }
       catch (error) {
         handleError(error)
       }
     })
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function resolveTableName(config: Config): string {
+  return `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+}
+
+/**
+ * Connect the driver, run the command and disconnect again
+ */
+async function withDriver(config: Config, name: string | undefined, run: (driver: DriverPlugin) => Promise<void>): Promise<void> {
+  const driver = await connectDriver(config, name)
+  try {
+    await run(driver)
+  }
+  finally {
+    await driver.disconnect()
+  }
+}
+
+/**
+ * Diff the live table against the schema derived from the models, or
+ * undefined when there are no models to compare against
+ */
+async function detectDrift(
+  config: Config,
+  description: TableDescription,
+  settings: Omit<LiveTableSettings, 'entityTypes'>,
+): Promise<SchemaDiffResult | undefined> {
+  const registry = await parseModels(config)
+  if (registry.models.size === 0) {
+    return undefined
+  }
+
+  const entityTypes = [...registry.models.keys()]
+  return diffSchemas(registry, createMigrationStateFromTable(description, { ...settings, entityTypes }), config)
+}
+
+function printTableDescription(
+  description: TableDescription,
+  ttl: TableDescription['ttlDescription'],
+  tags: Array<{ key: string, value: string }> | undefined,
+): void {
+  const keyName = (keyType: 'HASH' | 'RANGE', keySchema: TableDescription['keySchema']) =>
+    keySchema.find(k => k.keyType === keyType)?.attributeName ?? '-'
+  const billingMode = description.billingModeSummary?.billingMode ?? 'PROVISIONED'
+  const throughput = description.provisionedThroughput
+
+  console.log(c.header(`Table: ${description.tableName}`))
+  console.log(formatKeyValue({
+    'Status': description.tableStatus,
+    'Partition Key': keyName('HASH', description.keySchema),
+    'Sort Key': keyName('RANGE', description.keySchema),
+    'Billing Mode': billingMode === 'PROVISIONED' && throughput
+      ? `${billingMode} (RCU ${throughput.readCapacityUnits}, WCU ${throughput.writeCapacityUnits})`
+      : billingMode,
+    'Table Class': description.tableClass ?? 'STANDARD',
+    'Deletion Protection': description.deletionProtectionEnabled ? 'enabled' : 'disabled',
+    'Streams': description.streamSpecification?.streamEnabled
+      ? description.streamSpecification.streamViewType ?? 'enabled'
+      : 'disabled',
+    'TTL': ttl?.status ? `${ttl.status}${ttl.attributeName ? ` (${ttl.attributeName})` : ''}` : 'unknown',
+    'Items': formatNumber(description.itemCount ?? 0),
+    'Size': formatBytes(description.tableSizeBytes ?? 0),
+  }, { labelWidth: 19 }))
+
+  const indexes = [
+    ...(description.globalSecondaryIndexes ?? []).map(index => ({ type: 'GSI', ...index })),
+    ...(description.localSecondaryIndexes ?? []).map(index => ({ type: 'LSI', indexStatus: undefined, ...index })),
+  ]
+  if (indexes.length > 0) {
+    console.log()
+    console.log(formatTable(
+      indexes.map(index => ({
+        name: index.indexName,
+        type: index.type,
+        pk: keyName('HASH', index.keySchema),
+        sk: keyName('RANGE', index.keySchema),
+        projection: index.projection.projectionType,
+        status: index.indexStatus ?? '-',
+      })),
+      {
+        columns: [
+          { key: 'name', header: 'Index' },
+          { key: 'type', header: 'Type' },
+          { key: 'pk', header: 'Partition Key' },
+          { key: 'sk', header: 'Sort Key' },
+          { key: 'projection', header: 'Projection' },
+          { key: 'status', header: 'Status' },
+        ],
+      },
+    ))
+  }
+
+  if (tags && tags.length > 0) {
+    console.log()
+    console.log(c.subheader('Tags'))
+    tags.forEach(t => console.log(`  ${t.key} = ${t.value}`))
+  }
+}
+
+function printDrift(tableName: string, drift: SchemaDiffResult): void {
+  console.log()
+  if (!drift.hasChanges) {
+    success(`Table ${tableName} matches the models`)
+    return
+  }
+
+  warning(`Table ${tableName} has drifted from the models (${drift.changes.length} difference${drift.changes.length === 1 ? '' : 's'})`)
+  const severityColors: Record<ChangeSeverity, (s: string) => string> = {
+    critical: c.red,
+    high: c.red,
+    medium: c.yellow,
+    low: c.cyan,
+    info: c.dim,
+  }
+  for (const change of drift.changes) {
+    console.log(`  ${severityColors[change.severity](`[${change.severity.toUpperCase()}]`)} ${change.description}`)
+    if (change.details) {
+      console.log(c.dim(`    ${change.details}`))
+    }
+  }
+}
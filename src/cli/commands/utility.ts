@@ -3,14 +3,26 @@
 // ============================================================================
 
 import type { CAC } from 'cac'
+import type { ExportFormat } from '../../import-export'
+import type { Config } from '../../types'
+import { once } from 'node:events'
+import { createReadStream, createWriteStream } from 'node:fs'
+import nodeProcess from 'node:process'
 import { getConfig } from '../../config'
+import { createDataExporter, createDataImporter } from '../../import-export'
 import {
   formatAsJSON,
   formatAsMarkdown,
   formatAsSummary,
   generateAccessPatternDoc,
 } from '../../migrations'
-import { handleError } from '../utils'
+import { parseModels } from '../../model-parser'
+import { createModelClass } from '../../models/ModelClasses'
+import { validateModel } from '../../validation'
+import { startConsole } from '../console'
+import { handleCommandError } from '../error-formatter'
+import { c, createSpinner, formatNumber, info, warning } from '../ui'
+import { connectDriver, handleError, resolveModel } from '../utils'
 
 /**
  * Register utility commands
@@ -56,169 +68,170 @@ export function registerUtilityCommands(cli: CAC): void {
   // export - Export table data
   cli
     .command('export [table]', 'Export DynamoDB table data')
-    .option('--format <format>', 'Output format: json, csv', { default: 'json' })
-    .option('--output <path>', 'Output file path (required)')
+    .option('--format <format>', 'Output format: json, jsonl, csv, dynamodb-json', { default: 'json' })
+    .option('--output <path>', 'Output file path (default: stdout)')
     .option('--entity-type <type>', 'Filter by entity type')
+    .option('--attributes <names>', 'Comma-separated attributes to export')
     .option('--limit <n>', 'Limit number of items')
+    .option('--segments <n>', 'Parallel scan segments', { default: 1 })
+    .option('--batch-size <n>', 'Items per scan page')
+    .option('--gzip', 'Gzip the output (default for .gz files)')
+    .option('--metadata', 'Include export metadata in JSON output')
+    .option('--consistent', 'Use strongly consistent reads')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
     .action(async (table: string | undefined, options: {
       format: string
       output?: string
       entityType?: string
+      attributes?: string
       limit?: number
+      segments: number
+      batchSize?: number
+      gzip?: boolean
+      metadata?: boolean
+      consistent?: boolean
+      driver?: string
     }) => {
       try {
         const config = await getConfig()
         const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+        const format = toExportFormat(options.format)
+        const model = await resolveModel(config, options.entityType)
+        const toFile = Boolean(options.output && options.output !== '-')
 
-        if (!options.output) {
-          console.log('Error: --output is required')
-          return
-        }
+        const driver = await connectDriver(config, options.driver)
+        // Progress goes to stderr when the data goes to stdout
+        const spinner = toFile ? createSpinner() : undefined
+        spinner?.start(`Exporting ${tableName}`)
+        try {
+          // Created right before the export, which fails on any stream error
+          const output = toFile ? createWriteStream(options.output!) : nodeProcess.stdout
+          const result = await createDataExporter().exportStream(driver, tableName, output, {
+            format,
+            entityType: model?.name,
+            entityTypeAttribute: config.singleTableDesign.entityTypeAttribute,
+            attributes: options.attributes?.split(',').map(name => name.trim()).filter(Boolean),
+            limit: options.limit !== undefined ? Number(options.limit) : undefined,
+            totalSegments: Number(options.segments),
+            batchSize: options.batchSize !== undefined ? Number(options.batchSize) : undefined,
+            gzip: options.gzip ?? options.output?.endsWith('.gz'),
+            includeMetadata: options.metadata,
+            consistentRead: options.consistent,
+            onProgress: exported => spinner?.update(`Exporting ${tableName}: ${formatNumber(exported)} items`),
+          })
 
-        console.log(`Exporting from: ${tableName}`)
-        console.log(`  Format: ${options.format}`)
-        console.log(`  Output: ${options.output}`)
-        if (options.entityType) {
-          console.log(`  Entity Type: ${options.entityType}`)
+          const summary = `Exported ${formatNumber(result.itemCount)} items from ${tableName} as ${format}`
+          if (toFile) {
+            const finished = once(output, 'finish')
+            output.end()
+            await finished
+            spinner?.succeed(`${summary} to ${options.output}`)
+          }
+          else {
+            console.error(c.dim(summary))
+          }
         }
-        if (options.limit) {
-          console.log(`  Limit: ${options.limit}`)
+        catch (error) {
+          spinner?.fail('Export failed')
+          throw error
+        }
+        finally {
+          await driver.disconnect()
         }
-
-        console.log('\nNote: Implement DynamoDB client integration to export data.')
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'export')
       }
     })
 
   // import - Import data into table
   cli
     .command('import [table]', 'Import data into a DynamoDB table')
-    .option('--input <path>', 'Input file path (required)')
-    .option('--format <format>', 'Input format: json, csv', { default: 'json' })
-    .option('--dry-run', 'Validate without importing')
-    .option('--batch-size <n>', 'Batch size for writes', { default: 25 })
+    .option('--input <path>', 'Input file path (default: stdin)')
+    .option('--format <format>', 'Input format: json, jsonl, csv, dynamodb-json (default: from the file extension)')
+    .option('--gzip', 'Input is gzipped (default for .gz files)')
+    .option('--dry-run', 'Validate against the models without importing')
+    .option('--skip-validation', 'Do not validate items against the models')
+    .option('--batch-size <n>', 'Batch size for writes (max 25)', { default: 25 })
+    .option('--checkpoint <path>', 'Checkpoint file for resuming (default: <input>.checkpoint.json)')
+    .option('--delimiter <char>', 'CSV delimiter', { default: ',' })
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
     .action(async (table: string | undefined, options: {
       input?: string
-      format: string
+      format?: string
+      gzip?: boolean
       dryRun?: boolean
+      skipValidation?: boolean
       batchSize: number
+      checkpoint?: string
+      delimiter: string
+      driver?: string
     }) => {
       try {
         const config = await getConfig()
         const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+        const fromFile = Boolean(options.input && options.input !== '-')
+        const format = toExportFormat(options.format ?? formatFromPath(options.input) ?? 'json')
+        const input = fromFile ? createReadStream(options.input!) : nodeProcess.stdin
 
-        if (!options.input) {
-          console.log('Error: --input is required')
-          return
-        }
-
-        console.log(`Importing into: ${tableName}`)
-        console.log(`  Input: ${options.input}`)
-        console.log(`  Format: ${options.format}`)
-        console.log(`  Batch Size: ${options.batchSize}`)
+        const driver = options.dryRun ? undefined : await connectDriver(config, options.driver)
+        const spinner = createSpinner()
+        spinner.start(`${options.dryRun ? 'Validating' : 'Importing into'} ${tableName}`)
+        try {
+          const result = await createDataImporter().importStream(driver, input, {
+            format,
+            tableName,
+            gzip: options.gzip ?? options.input?.endsWith('.gz'),
+            dryRun: options.dryRun,
+            batchSize: Number(options.batchSize),
+            delimiter: options.delimiter,
+            checkpointFile: options.checkpoint ?? (fromFile ? `${options.input}.checkpoint.json` : undefined),
+            validate: options.skipValidation ? undefined : await createModelItemValidator(config),
+            onProgress: progress => spinner.update(`${options.dryRun ? 'Validated' : 'Imported'} ${formatNumber(progress.importedItems)} items`),
+          })
 
-        if (options.dryRun) {
-          console.log('\n[DRY RUN] Would validate and preview import.')
+          const verb = options.dryRun ? 'Validated' : 'Imported'
+          spinner.succeed(`${verb} ${formatNumber(result.importedItems)} of ${formatNumber(result.totalItems)} items${options.dryRun ? ' (dry run, nothing written)' : ` into ${tableName}`}`)
+          if (result.resumedFrom > 0) {
+            info(`Resumed after ${formatNumber(result.resumedFrom)} records from the checkpoint`)
+          }
+          if (result.skippedItems > 0 || result.failedItems > 0) {
+            warning(`${formatNumber(result.skippedItems)} skipped, ${formatNumber(result.failedItems)} failed`)
+          }
+          for (const error of result.errors.slice(0, 20)) {
+            console.log(`  Record ${error.index + 1}: ${error.error}`)
+          }
+          if (result.errors.length > 20) {
+            console.log(c.dim(`  ... and ${result.errors.length - 20} more`))
+          }
+          if (options.dryRun && result.errors.length > 0) {
+            nodeProcess.exitCode = 1
+          }
+        }
+        catch (error) {
+          spinner.fail(options.dryRun ? 'Validation failed' : 'Import failed; run the same command again to resume from the checkpoint')
+          throw error
+        }
+        finally {
+          await driver?.disconnect()
         }
-
-        console.log('\nNote: Implement DynamoDB client integration to import data.')
-      }
-      catch (error) {
-        handleError(error)
-      }
-    })
-
-  // backup - Create a backup
-  cli
-    .command('backup [table]', 'Create a backup of a DynamoDB table')
-    .option('--name <name>', 'Backup name')
-    .action(async (table: string | undefined, options: { name?: string }) => {
-      try {
-        const config = await getConfig()
-        const tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-        const backupName = options.name ?? `${tableName}-${Date.now()}`
-
-        console.log(`Creating backup: ${backupName}`)
-        console.log(`  Table: ${tableName}`)
-
-        console.log('\nNote: Implement DynamoDB client integration to create backup.')
-        console.log('Alternatively, use AWS CLI: aws dynamodb create-backup --table-name <name> --backup-name <name>')
       }
       catch (error) {
-        handleError(error)
+        handleCommandError(error, 'import')
       }
     })
 
   // console - Interactive REPL
   cli
-    .command('console', 'Start an interactive console')
-    .action(async () => {
+    .command('console', 'Start an interactive console with your models loaded')
+    .option('--driver <name>', 'Driver to use (default: dynamodb)')
+    .option('--history <path>', 'History file (default: ~/.dbtooling_history)')
+    .action(async (options: { driver?: string, history?: string }) => {
       try {
-        console.log('DynamoDB Tooling Console')
-        console.log('========================')
-        console.log('')
-        console.log('Available globals:')
-        console.log('  config  - Configuration object')
-        console.log('  db      - Query builder (when implemented)')
-        console.log('')
-        console.log('Note: Interactive REPL requires additional implementation.')
-        console.log('For now, use Node.js REPL with dynamodb-tooling imported.')
+        await startConsole({ driver: options.driver, historyFile: options.history })
       }
       catch (error) {
-        handleError(error)
-      }
-    })
-
-  // restore - Restore from a backup
-  cli
-    .command('restore [table]', 'Restore a DynamoDB table from a backup')
-    .option('--backup-arn <arn>', 'ARN of the backup to restore from (required)')
-    .option('--target-table <name>', 'Name for the restored table (required)')
-    .option('--force', 'Skip confirmation')
-    .action(async (table: string | undefined, options: {
-      backupArn?: string
-      targetTable?: string
-      force?: boolean
-    }) => {
-      try {
-        const config = await getConfig()
-        const _tableName = table ?? `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
-
-        if (!options.backupArn) {
-          console.log('Error: --backup-arn is required')
-          console.log('Example: dbtooling restore --backup-arn arn:aws:dynamodb:us-east-1:123456789012:table/MyTable/backup/01234567890123-abcdef12')
-          return
-        }
-
-        if (!options.targetTable) {
-          console.log('Error: --target-table is required')
-          console.log('Example: dbtooling restore --backup-arn <arn> --target-table MyRestoredTable')
-          return
-        }
-
-        if (!options.force) {
-          console.log('Restore Configuration:')
-          console.log(`  Backup ARN: ${options.backupArn}`)
-          console.log(`  Target Table: ${options.targetTable}`)
-          console.log('')
-          console.log('This will create a new table from the backup.')
-          console.log('Use --force to proceed.')
-          return
-        }
-
-        console.log(`Restoring backup to: ${options.targetTable}`)
-        console.log(`  Backup ARN: ${options.backupArn}`)
-        console.log('')
-        console.log('Note: Implement DynamoDB client integration to restore from backup.')
-        console.log('Alternatively, use AWS CLI:')
-        console.log(`  aws dynamodb restore-table-from-backup \\`)
-        console.log(`    --target-table-name ${options.targetTable} \\`)
-        console.log(`    --backup-arn ${options.backupArn}`)
-      }
-      catch (error) {
-        handleError(error)
+        handleCommandError(error, 'console')
       }
     })
 
@@ -317,3 +330,47 @@ export function registerUtilityCommands(cli: CAC): void {
       }
     })
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'jsonl', 'csv', 'dynamodb-json']
+
+function toExportFormat(format: string): ExportFormat {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`Unsupported format "${format}"; use one of: ${EXPORT_FORMATS.join(', ')}`)
+  }
+  return format as ExportFormat
+}
+
+function formatFromPath(file?: string): ExportFormat | undefined {
+  const extension = file?.replace(/\.gz$/, '').split('.').pop()
+  if (extension === 'jsonl' || extension === 'ndjson')
+    return 'jsonl'
+  if (extension === 'csv' || extension === 'json')
+    return extension
+  return undefined
+}
+
+/**
+ * Validate imported items against the model named by their entity type
+ * attribute; items of other entity types are not checked
+ */
+async function createModelItemValidator(config: Config): Promise<(_item: Record<string, unknown>) => Promise<boolean | string>> {
+  const registry = await parseModels(config)
+  const attributes = new Map([...registry.models.values()].map((model) => {
+    const modelClass = createModelClass(model)
+    return [model.name, new modelClass().attributes] as const
+  }))
+
+  return async (item) => {
+    const modelAttributes = attributes.get(String(item[config.singleTableDesign.entityTypeAttribute]))
+    if (!modelAttributes)
+      return true
+    const result = await validateModel(item, modelAttributes)
+    return result.valid || Object.entries(result.errors)
+      .map(([attribute, errors]) => `${attribute}: ${errors.join(', ')}`)
+      .join('; ')
+  }
+}
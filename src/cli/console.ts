@@ -0,0 +1,424 @@
+// ============================================================================
+// Interactive Console - REPL with the Stacks models loaded as ORM classes
+// ============================================================================
+
+import type { REPLServer } from 'node:repl'
+import type { ConsumedCapacity, DriverPlugin } from '../drivers/types'
+import type { ModelClass } from '../models/ModelClasses'
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import type { Config } from '../types'
+import { mkdirSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import nodeProcess from 'node:process'
+import repl from 'node:repl'
+import { inspect } from 'node:util'
+import vm from 'node:vm'
+import { getConfig } from '../config'
+import { parseModels } from '../model-parser'
+import { createDriverModelClient } from '../models/DriverClient'
+import { DynamoDBModel, DynamoDBQueryBuilder, setModelClient, setModelConfig, setOrmModelRegistry } from '../models/DynamoDBModel'
+import { createModelClasses } from '../models/ModelClasses'
+import { unmarshallItem } from '../single-table/EntityTransformer'
+import { c, formatTable, truncate } from './ui'
+import { connectDriver } from './utils'
+
+/**
+ * Options for `startConsole()`
+ */
+export interface ConsoleOptions {
+  /** Driver to use (default: dynamodb) */
+  driver?: string
+  /** History file (default: `~/.dbtooling_history`) */
+  historyFile?: string
+  /** Most history entries kept (default: 1000) */
+  historySize?: number
+  /** Stream statements are read from (default: stdin) */
+  input?: NodeJS.ReadableStream
+  /** Stream results are written to (default: stdout) */
+  output?: NodeJS.WritableStream
+}
+
+const PROMPT = 'dbtooling> '
+
+/** Marks a statement that continues on the next line */
+const INCOMPLETE = Symbol('incomplete')
+
+const TRACKED_OPERATIONS = new Set([
+  'getItem',
+  'putItem',
+  'updateItem',
+  'deleteItem',
+  'query',
+  'scan',
+  'batchGetItem',
+  'batchWriteItem',
+  'transactWriteItems',
+  'transactGetItems',
+])
+
+const ATTRIBUTE_METHODS = new Set([
+  'where',
+  'orWhere',
+  'whereIn',
+  'whereNotIn',
+  'whereBetween',
+  'whereNull',
+  'whereNotNull',
+  'whereBeginsWith',
+  'whereContains',
+  'select',
+  'orderBy',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'groupBy',
+  'increment',
+  'decrement',
+])
+
+const RELATIONSHIP_METHODS = new Set(['with', 'has', 'whereHas', 'doesntHave'])
+
+/**
+ * Start an interactive console. Every Stacks model is loaded as a
+ * `DynamoDBModel` class and bound to the configured driver, so queries can
+ * be run directly; statements may use top-level `await`.
+ *
+ * Each statement prints the requests it sent with their consumed capacity,
+ * and query builders print their compiled `toQuery()` form. Tab completes
+ * model names, static methods, attributes, scopes and relationships.
+ * Resolves when the console exits.
+ *
+ * @example
+ * ```typescript
+ * await startConsole({ driver: 'memory' })
+ * // > await User.query().where('email', 'ada@example.com').first()
+ * ```
+ */
+export async function startConsole(options: ConsoleOptions = {}): Promise<void> {
+  const config = await getConfig()
+  const registry = await parseModels(config)
+  setOrmModelRegistry(registry)
+  setModelConfig(config)
+
+  const requests: ConsoleRequest[] = []
+  const driver = await connectDriver(config, options.driver)
+  const tracked = trackRequests(driver, requests)
+  setModelClient(createDriverModelClient(tracked))
+
+  const models = createModelClasses(registry)
+  const output = options.output ?? nodeProcess.stdout
+  const colors = Boolean((output as { isTTY?: boolean }).isTTY)
+  const print = (line: string): void => {
+    output.write(`${line}\n`)
+  }
+  const context = vm.createContext({
+    console,
+    process: nodeProcess,
+    setTimeout,
+    clearTimeout,
+    ...models,
+    models,
+    config,
+    driver: tracked,
+  })
+
+  print(c.bold('DynamoDB Tooling Console'))
+  print(c.dim(`Driver: ${driver.name}${config.endpoint ? ` (${config.endpoint})` : ''}`))
+  print(c.dim(`Models: ${Object.keys(models).join(', ') || 'none'}`))
+  print(c.dim('Globals: config, driver, models. Statements may use await; .exit to quit.'))
+  print('')
+
+  // Statements run one at a time, so each report covers its own requests
+  let pending = Promise.resolve()
+  let report = ''
+  let buffer = ''
+  const server: REPLServer = repl.start({
+    prompt: PROMPT,
+    input: options.input,
+    output,
+    useColors: colors,
+    ignoreUndefined: true,
+    eval: (code, _context, _file, callback) => {
+      const statement = `${buffer}${code}`
+      let script: ReturnType<typeof compile>
+      try {
+        script = compile(statement)
+      }
+      catch (error) {
+        buffer = ''
+        server.setPrompt(PROMPT)
+        callback(error as Error, undefined)
+        return
+      }
+
+      // Keep reading lines until the statement is complete
+      if (script === INCOMPLETE) {
+        buffer = statement
+        server.setPrompt('... ')
+        callback(null, undefined)
+        return
+      }
+      buffer = ''
+      server.setPrompt(PROMPT)
+      const compiled = script
+
+      pending = pending.then(async () => {
+        requests.length = 0
+        try {
+          const result = await compiled?.runInContext(context)
+          report = formatRequests(requests)
+          if (result === undefined && report) {
+            print(report)
+            report = ''
+          }
+          callback(null, result)
+        }
+        catch (error) {
+          report = ''
+          // Errors thrown in the console context come from another realm
+          callback(error as Error, undefined)
+        }
+      })
+    },
+    writer: (value: unknown) => {
+      const formatted = formatResult(value, config, colors)
+      const requestReport = report
+      report = ''
+      return requestReport ? `${formatted}\n${requestReport}` : formatted
+    },
+    completer: (line: string) => complete(line, models, context),
+  })
+
+  const exited = new Promise<void>(resolve => server.on('exit', resolve))
+
+  const historyFile = options.historyFile ?? path.join(os.homedir(), '.dbtooling_history')
+  await new Promise<void>((resolve) => {
+    const ready = (error: Error | null): void => {
+      if (error) {
+        print(c.dim(`Could not open console history: ${error.message}`))
+      }
+      resolve()
+    }
+    try {
+      mkdirSync(path.dirname(historyFile), { recursive: true })
+    }
+    catch (error) {
+      ready(error as Error)
+      return
+    }
+    server.setupHistory({ filePath: historyFile, size: options.historySize ?? 1000, removeHistoryDuplicates: true }, ready)
+  })
+
+  await exited
+
+  await driver.disconnect()
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Request sent while a console statement ran
+ */
+interface ConsoleRequest {
+  operation: string
+  input: Record<string, unknown>
+  capacityUnits?: number
+}
+
+/**
+ * Wrap a driver so each data-plane call asks for consumed capacity and is
+ * recorded for the statement report
+ */
+function trackRequests(driver: DriverPlugin, requests: ConsoleRequest[]): DriverPlugin {
+  return new Proxy(driver, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver)
+      if (typeof property !== 'string' || !TRACKED_OPERATIONS.has(property) || typeof value !== 'function') {
+        return typeof value === 'function' ? value.bind(target) : value
+      }
+      return async (input: Record<string, unknown>) => {
+        const request: ConsoleRequest = { operation: property, input }
+        requests.push(request)
+        const result = await value.call(target, { returnConsumedCapacity: 'TOTAL', ...input })
+        request.capacityUnits = sumCapacity((result as { consumedCapacity?: ConsumedCapacity | ConsumedCapacity[] } | null)?.consumedCapacity)
+        return result
+      }
+    },
+  })
+}
+
+function sumCapacity(capacity: ConsumedCapacity | ConsumedCapacity[] | undefined): number | undefined {
+  if (!capacity)
+    return undefined
+  const entries = Array.isArray(capacity) ? capacity : [capacity]
+  return entries.reduce((total, entry) => total + (entry.capacityUnits ?? 0), 0)
+}
+
+/**
+ * Compile a statement for the console context. Expressions and statements
+ * are wrapped in an async function so they may use top-level `await`;
+ * simple `const`/`let`/`var` declarations become context globals.
+ */
+function compile(code: string): vm.Script | typeof INCOMPLETE | undefined {
+  const source = code.trim().replace(/;$/, '')
+  if (!source)
+    return undefined
+
+  const declaration = source.match(/^(?:const|let|var)\s+([A-Z_$][\w$]*)\s*=([\s\S]+)$/i)
+  const candidates = declaration
+    ? [`(async () => { globalThis[${JSON.stringify(declaration[1])}] = (${declaration[2]}\n) })()`]
+    : [`(async () => (${source}\n))()`, `(async () => { ${source}\n })()`]
+
+  let syntaxError: SyntaxError | undefined
+  for (const candidate of candidates) {
+    try {
+      return new vm.Script(candidate, { filename: 'console' })
+    }
+    catch (error) {
+      if (!(error instanceof SyntaxError))
+        throw error
+      syntaxError ??= error
+    }
+  }
+
+  // Report the error against the statement as typed, not the wrapper
+  const error = checkSyntax(source) ?? syntaxError
+  if (/unexpected (?:end of|eof)/i.test(error?.message ?? ''))
+    return INCOMPLETE
+  throw error
+}
+
+function checkSyntax(source: string): SyntaxError | undefined {
+  try {
+    new vm.Script(source.replace(/\bawait\b/g, ''), { filename: 'console' })
+    return undefined
+  }
+  catch (error) {
+    return error instanceof SyntaxError ? error : undefined
+  }
+}
+
+function formatRequests(requests: ConsoleRequest[]): string {
+  return requests.map((request) => {
+    const { input } = request
+    const target = [input.tableName, input.indexName].filter(Boolean).join('/')
+    const expressions = [
+      ['key', input.keyConditionExpression],
+      ['filter', input.filterExpression],
+      ['condition', input.conditionExpression],
+      ['update', input.updateExpression],
+    ]
+      .filter(([, expression]) => expression)
+      .map(([label, expression]) => `${label}: ${expression}`)
+    const values = input.expressionAttributeValues
+      ? `values: ${JSON.stringify(unmarshallItem(input.expressionAttributeValues as DynamoDBItem), toJSONValue)}`
+      : ''
+    const capacity = request.capacityUnits !== undefined ? `${request.capacityUnits} CU` : 'capacity n/a'
+    return c.dim(`  ${request.operation} ${target} ${[...expressions, values].filter(Boolean).join('  ')} (${capacity})`.replace(/\s+\(/, ' ('))
+  }).join('\n')
+}
+
+function formatResult(value: unknown, config: Config, colors: boolean): string {
+  if (value instanceof DynamoDBQueryBuilder) {
+    const compiled = inspect(value.toQuery(), { depth: null, colors })
+    return `${compiled}\n${c.dim('Query builder; run it with await ... .get(), .first() or .paginate()')}`
+  }
+  if (Array.isArray(value) && value.length > 0 && value.every(item => item instanceof DynamoDBModel)) {
+    const rows = value.map(item => (item as DynamoDBModel).toJSON())
+    const keys = [...new Set(rows.flatMap(row => Object.keys(row)))]
+      .filter(key => key !== config.singleTableDesign.partitionKeyName && key !== config.singleTableDesign.sortKeyName)
+    const table = formatTable(rows, {
+      columns: keys.map(key => ({
+        key,
+        header: key,
+        format: (cell: unknown) => formatCell(cell),
+      })),
+    })
+    return `${table}\n${c.dim(`${rows.length} ${value[0].constructor.name} model${rows.length === 1 ? '' : 's'}`)}`
+  }
+  return inspect(toDisplay(value), { depth: 6, colors })
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined)
+    return ''
+  if (value instanceof Date)
+    return value.toISOString()
+  return truncate(typeof value === 'string' ? value : JSON.stringify(value, toJSONValue), 40)
+}
+
+function toDisplay(value: unknown): unknown {
+  if (value instanceof DynamoDBModel)
+    return value.toJSON()
+  if (Array.isArray(value))
+    return value.map(toDisplay)
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toDisplay(entry)]))
+  }
+  return value
+}
+
+function toJSONValue(_key: string, value: unknown): unknown {
+  return value instanceof Set ? [...value] : value
+}
+
+/**
+ * Complete model names and globals, model static methods, query builder
+ * methods, and the attribute, scope and relationship names passed as
+ * string arguments
+ */
+function complete(line: string, models: Record<string, ModelClass>, context: vm.Context): [string[], string] {
+  const model = findModel(line, models)
+
+  const argument = line.match(/\.(\w+)\(\s*(?:\[\s*)?(?:['"][\w.-]*['"]\s*,\s*)*['"]([\w.-]*)$/)
+  if (argument) {
+    const [, method, partial] = argument
+    let names: string[] = []
+    if (model && method === 'scope')
+      names = [...model.getGlobalScopes().keys()]
+    else if (model && RELATIONSHIP_METHODS.has(method))
+      names = Object.keys(new model().relationships)
+    else if (model && ATTRIBUTE_METHODS.has(method))
+      names = Object.keys(new model().attributes)
+    return [names.filter(name => name.startsWith(partial)), partial]
+  }
+
+  const member = line.match(/([\w$]+|\))\.([\w$]*)$/)
+  if (member) {
+    const [, owner, partial] = member
+    let names: string[] = []
+    if (owner === ')' && model)
+      names = methodNames(DynamoDBQueryBuilder.prototype)
+    else if (models[owner])
+      names = methodNames(models[owner])
+    return [names.filter(name => name.startsWith(partial)), partial]
+  }
+
+  const identifier = line.match(/[A-Z_$][\w$]*$/i)?.[0] ?? ''
+  const globals = [...Object.keys(models), 'models', 'config', 'driver', ...Object.keys(context)]
+  return [[...new Set(globals)].filter(name => name.startsWith(identifier)).sort(), identifier]
+}
+
+function findModel(line: string, models: Record<string, ModelClass>): ModelClass | undefined {
+  const names = line.match(/[A-Z_$][\w$]*/gi) ?? []
+  const name = names.reverse().find(candidate => models[candidate])
+  return name ? models[name] : undefined
+}
+
+function methodNames(target: object): string[] {
+  const names = new Set<string>()
+  let current: object | null = target
+  while (current && current !== Function.prototype && current !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(current)) {
+      if (!name.startsWith('_') && name !== 'constructor' && name !== 'prototype' && name !== 'length' && name !== 'name') {
+        names.add(name)
+      }
+    }
+    current = Object.getPrototypeOf(current)
+  }
+  return [...names].sort()
+}
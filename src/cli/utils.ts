@@ -2,7 +2,12 @@
 // CLI Utilities
 // ============================================================================
 
+import type { DriverPlugin } from '../drivers/types'
+import type { ParsedModel } from '../model-parser/types'
+import type { Config } from '../types'
 import nodeProcess from 'node:process'
+import { createActiveDriver } from '../drivers'
+import { parseModels } from '../model-parser'
 
 /**
  * Exit the CLI with an error code
@@ -18,3 +23,38 @@ export function handleError(error: unknown): never {
   console.error('Error:', error instanceof Error ? error.message : error)
   exitWithError(1)
 }
+
+/**
+ * Connect the named driver (default: the registry default) with the
+ * connection settings from the configuration, and make it the active driver
+ */
+export async function connectDriver(config: Config, name?: string): Promise<DriverPlugin> {
+  return createActiveDriver(name, {
+    region: config.region,
+    endpoint: config.endpoint,
+    credentials: config.credentials,
+    profile: config.profile,
+    credentialProvider: config.credentialProvider,
+    maxRetries: config.maxRetries,
+    retryMode: config.retryMode,
+    timeout: config.httpOptions.timeout,
+    keepAlive: config.httpOptions.keepAlive,
+    keepAliveTimeout: config.httpOptions.keepAliveTimeout,
+  })
+}
+
+/**
+ * The model of `--entity-type`, matched by entity type (`USER`) or model name (`User`)
+ */
+export async function resolveModel(config: Config, entityType: string | undefined): Promise<ParsedModel | undefined> {
+  if (!entityType)
+    return undefined
+
+  const registry = await parseModels(config)
+  const model = [...registry.models.values()].find(candidate => candidate.entityType === entityType || candidate.name === entityType)
+  if (!model) {
+    const known = [...registry.models.keys()].join(', ')
+    throw new Error(`No model with entity type "${entityType}". Known models: ${known || 'none'}`)
+  }
+  return model
+}
@@ -21,6 +21,7 @@ import type {
 } from './types'
 import { resolve } from 'node:path'
 import { loadConfig } from 'bunfig'
+import { createCredentialProviderChain } from './drivers/credentials'
 
 // ============================================================================
 // Default Configuration Values
@@ -551,6 +552,15 @@ export async function getConfig(): Promise<Config> {
     mergedConfig = deepMerge(mergedConfig, _programmaticConfig)
   }
 
+  // Resolve credentials lazily through the provider chain
+  if (!mergedConfig.credentialProvider) {
+    mergedConfig.credentialProvider = createCredentialProviderChain({
+      credentials: mergedConfig.credentials,
+      profile: mergedConfig.profile,
+      region: mergedConfig.region,
+    })
+  }
+
   // Validate the final config
   const validation = validateConfig(mergedConfig)
   if (!validation.valid) {
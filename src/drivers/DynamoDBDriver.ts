@@ -2,15 +2,18 @@
 // DynamoDB Driver Implementation
 // ============================================================================
 
+import type { CapacityKind, RateLimiter, RateLimitTarget } from '../performance/RateLimiter'
 import type { DynamoDBItem } from '../single-table/EntityTransformer'
 import type {
   AttributeValue,
+  AwsCredentialIdentity,
   BatchGetItemInput,
   BatchGetItemOutput,
   BatchWriteItemInput,
   BatchWriteItemOutput,
   ConsumedCapacity,
   CreateTableInput,
+  CredentialProvider,
   DeleteItemInput,
   DriverCapabilities,
   DriverConnectionOptions,
@@ -27,32 +30,13 @@ import type {
   UpdateItemInput,
   UpdateTableInput,
 } from './types'
+import { createRateLimiter, isCapacityThrottle } from '../performance/RateLimiter'
+import { isResourceNotFoundError } from '../types/errors'
+import { createCredentialProviderChain, CredentialsProviderError } from './credentials'
+import { getRequestTableName, translateWireError } from './errors'
+import { signRequest } from './signing'
 import { unmarshallItem } from './utils'
 
-/**
- * AWS SDK v3 style signing - simplified implementation
- * In production, this would use the actual AWS SDK
- */
-async function signRequest(
-  request: Request,
-  credentials: { accessKeyId: string, secretAccessKey: string, sessionToken?: string },
-  _region: string,
-  _service: string,
-): Promise<Request> {
-  // This is a placeholder - in real implementation, use AWS Signature V4
-  const headers = new Headers(request.headers)
-  headers.set('X-Amz-Date', new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''))
-  headers.set('Authorization', `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/...`)
-  if (credentials.sessionToken) {
-    headers.set('X-Amz-Security-Token', credentials.sessionToken)
-  }
-  return new Request(request.url, {
-    method: request.method,
-    headers,
-    body: request.body,
-  })
-}
-
 /**
  * DynamoDB Driver Implementation
  *
@@ -66,11 +50,14 @@ export class DynamoDBDriver implements DriverPlugin {
   private options: DriverConnectionOptions = {}
   private connected = false
   private endpoint: string = 'https://dynamodb.us-east-1.amazonaws.com'
+  private credentialProvider: CredentialProvider | null = null
+  private rateLimiter: RateLimiter | null = null
 
   constructor(options?: DriverConnectionOptions) {
     if (options) {
       this.options = options
       this.endpoint = options.endpoint ?? `https://dynamodb.${options.region ?? 'us-east-1'}.amazonaws.com`
+      this.rateLimiter = resolveRateLimiter(options)
     }
   }
 
@@ -123,6 +110,8 @@ export class DynamoDBDriver implements DriverPlugin {
 
     this.options = options
     this.endpoint = options.endpoint ?? `https://dynamodb.${options.region ?? 'us-east-1'}.amazonaws.com`
+    this.credentialProvider = options.credentialProvider ?? createCredentialProviderChain(options)
+    this.rateLimiter = resolveRateLimiter(options)
     this.connected = true
   }
 
@@ -155,7 +144,15 @@ export class DynamoDBDriver implements DriverPlugin {
   // ---- Internal Request Helper ----
 
   private async makeRequest<T>(action: string, params: Record<string, unknown>): Promise<T> {
-    const body = JSON.stringify(params)
+    const rateLimiter = this.rateLimiter
+    const limited = rateLimiter ? getRateLimitedRequest(action, params) : undefined
+    if (rateLimiter && limited) {
+      await Promise.all(limited.targets.map(({ target, units }) => rateLimiter.acquire(target, limited.kind, units)))
+    }
+
+    // The rate limiter learns actual usage, including per-GSI writes, from the
+    // response unless the caller asked for another level of detail
+    const body = JSON.stringify(limited && params.ReturnConsumedCapacity === undefined ? { ...params, ReturnConsumedCapacity: 'INDEXES' } : params)
     const headers: Record<string, string> = {
       'Content-Type': 'application/x-amz-json-1.0',
       'X-Amz-Target': `DynamoDB_20120810.${action}`,
@@ -167,11 +164,11 @@ export class DynamoDBDriver implements DriverPlugin {
       body,
     })
 
-    // Sign request if credentials are provided
-    if (this.options.credentials) {
+    const credentials = await this.resolveCredentials()
+    if (credentials) {
       request = await signRequest(
         request,
-        this.options.credentials,
+        credentials,
         this.options.region ?? 'us-east-1',
         'dynamodb',
       )
@@ -180,19 +177,45 @@ export class DynamoDBDriver implements DriverPlugin {
     const response = await fetch(request)
 
     if (!response.ok) {
-      const errorBody = await response.text()
-      let errorMessage = `DynamoDB ${action} failed: ${response.status} ${response.statusText}`
-      try {
-        const parsed = JSON.parse(errorBody)
-        errorMessage = parsed.__type ?? parsed.message ?? errorMessage
-      }
-      catch {
-        // Use default error message
+      const error = translateWireError(await response.text(), {
+        operation: action,
+        tableName: getRequestTableName(params),
+        requestId: response.headers.get('x-amzn-requestid') ?? undefined,
+        statusCode: response.status,
+      })
+      if (rateLimiter && limited && isCapacityThrottle(error)) {
+        for (const { target } of limited.targets) {
+          rateLimiter.throttled(target, limited.kind)
+        }
       }
-      throw new Error(errorMessage)
+      throw error
     }
 
-    return response.json() as Promise<T>
+    const result = await response.json() as T
+    if (rateLimiter && limited) {
+      recordUsage(rateLimiter, limited, result as WireRateLimitedResponse)
+    }
+    return result
+  }
+
+  /**
+   * Resolve credentials through the provider chain.
+   * Custom endpoints (e.g. DynamoDB Local) fall back to unsigned requests when none are found.
+   */
+  private async resolveCredentials(): Promise<AwsCredentialIdentity | null> {
+    if (!this.credentialProvider) {
+      this.credentialProvider = this.options.credentialProvider ?? createCredentialProviderChain(this.options)
+    }
+
+    try {
+      return await this.credentialProvider()
+    }
+    catch (error) {
+      if (this.options.endpoint && error instanceof CredentialsProviderError) {
+        return null
+      }
+      throw error
+    }
   }
 
   // ---- Item Operations ----
@@ -244,12 +267,12 @@ export class DynamoDBDriver implements DriverPlugin {
 
     const result = await this.makeRequest<{
       Attributes?: Record<string, AttributeValue>
-      ConsumedCapacity?: ConsumedCapacity
+      ConsumedCapacity?: WireConsumedCapacity
     }>('PutItem', params)
 
     return {
       attributes: result.Attributes ? unmarshallItem(result.Attributes) : undefined,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity),
     }
   }
 
@@ -278,12 +301,12 @@ export class DynamoDBDriver implements DriverPlugin {
 
     const result = await this.makeRequest<{
       Attributes?: Record<string, AttributeValue>
-      ConsumedCapacity?: ConsumedCapacity
+      ConsumedCapacity?: WireConsumedCapacity
     }>('UpdateItem', params)
 
     return {
       attributes: result.Attributes ? unmarshallItem(result.Attributes) : undefined,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity),
     }
   }
 
@@ -311,12 +334,12 @@ export class DynamoDBDriver implements DriverPlugin {
 
     const result = await this.makeRequest<{
       Attributes?: Record<string, AttributeValue>
-      ConsumedCapacity?: ConsumedCapacity
+      ConsumedCapacity?: WireConsumedCapacity
     }>('DeleteItem', params)
 
     return {
       attributes: result.Attributes ? unmarshallItem(result.Attributes) : undefined,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity),
     }
   }
 
@@ -356,7 +379,7 @@ export class DynamoDBDriver implements DriverPlugin {
       Count?: number
       ScannedCount?: number
       LastEvaluatedKey?: Record<string, AttributeValue>
-      ConsumedCapacity?: ConsumedCapacity
+      ConsumedCapacity?: WireConsumedCapacity
     }>('Query', params)
 
     return {
@@ -364,7 +387,7 @@ export class DynamoDBDriver implements DriverPlugin {
       count: result.Count ?? 0,
       scannedCount: result.ScannedCount,
       lastEvaluatedKey: result.LastEvaluatedKey,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity),
     }
   }
 
@@ -403,7 +426,7 @@ export class DynamoDBDriver implements DriverPlugin {
       Count?: number
       ScannedCount?: number
       LastEvaluatedKey?: Record<string, AttributeValue>
-      ConsumedCapacity?: ConsumedCapacity
+      ConsumedCapacity?: WireConsumedCapacity
     }>('Scan', params)
 
     return {
@@ -411,7 +434,7 @@ export class DynamoDBDriver implements DriverPlugin {
       count: result.Count ?? 0,
       scannedCount: result.ScannedCount,
       lastEvaluatedKey: result.LastEvaluatedKey,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity),
     }
   }
 
@@ -421,7 +444,7 @@ export class DynamoDBDriver implements DriverPlugin {
     const result = await this.makeRequest<{
       Responses?: Record<string, Array<Record<string, AttributeValue>>>
       UnprocessedKeys?: Record<string, { Keys: Array<Record<string, AttributeValue>> }>
-      ConsumedCapacity?: ConsumedCapacity[]
+      ConsumedCapacity?: WireConsumedCapacity[]
     }>('BatchGetItem', {
       RequestItems: input.requestItems,
       ReturnConsumedCapacity: input.returnConsumedCapacity,
@@ -444,7 +467,7 @@ export class DynamoDBDriver implements DriverPlugin {
             ]),
           )
         : undefined,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity?.map(parseConsumedCapacity),
     }
   }
 
@@ -454,7 +477,7 @@ export class DynamoDBDriver implements DriverPlugin {
         PutRequest?: { Item: Record<string, AttributeValue> }
         DeleteRequest?: { Key: Record<string, AttributeValue> }
       }>>
-      ConsumedCapacity?: ConsumedCapacity[]
+      ConsumedCapacity?: WireConsumedCapacity[]
       ItemCollectionMetrics?: Record<string, Array<{
         ItemCollectionKey: Record<string, AttributeValue>
         SizeEstimateRangeGB: [number, number]
@@ -477,7 +500,7 @@ export class DynamoDBDriver implements DriverPlugin {
             ]),
           )
         : undefined,
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity?.map(parseConsumedCapacity),
       itemCollectionMetrics: result.ItemCollectionMetrics
         ? Object.fromEntries(
             Object.entries(result.ItemCollectionMetrics).map(([table, metrics]) => [
@@ -545,7 +568,7 @@ export class DynamoDBDriver implements DriverPlugin {
     })
 
     const result = await this.makeRequest<{
-      ConsumedCapacity?: ConsumedCapacity[]
+      ConsumedCapacity?: WireConsumedCapacity[]
     }>('TransactWriteItems', {
       TransactItems: transactItems,
       ClientRequestToken: input.clientRequestToken,
@@ -553,7 +576,7 @@ export class DynamoDBDriver implements DriverPlugin {
       ReturnItemCollectionMetrics: input.returnItemCollectionMetrics,
     })
 
-    return { consumedCapacity: result.ConsumedCapacity }
+    return { consumedCapacity: result.ConsumedCapacity?.map(parseConsumedCapacity) }
   }
 
   async transactGetItems(input: TransactGetItemsInput): Promise<TransactGetItemsOutput> {
@@ -568,7 +591,7 @@ export class DynamoDBDriver implements DriverPlugin {
 
     const result = await this.makeRequest<{
       Responses?: Array<{ Item?: Record<string, AttributeValue> }>
-      ConsumedCapacity?: ConsumedCapacity[]
+      ConsumedCapacity?: WireConsumedCapacity[]
     }>('TransactGetItems', {
       TransactItems: transactItems,
       ReturnConsumedCapacity: input.returnConsumedCapacity,
@@ -578,7 +601,7 @@ export class DynamoDBDriver implements DriverPlugin {
       responses: (result.Responses ?? []).map(r => ({
         item: r.Item ? unmarshallItem(r.Item) : undefined,
       })),
-      consumedCapacity: result.ConsumedCapacity,
+      consumedCapacity: result.ConsumedCapacity?.map(parseConsumedCapacity),
     }
   }
 
@@ -692,6 +715,54 @@ export class DynamoDBDriver implements DriverPlugin {
     }
   }
 
+  async describeTimeToLive(tableName: string): Promise<NonNullable<TableDescription['ttlDescription']>> {
+    const result = await this.makeRequest<{
+      TimeToLiveDescription?: { AttributeName?: string, TimeToLiveStatus?: string }
+    }>('DescribeTimeToLive', { TableName: tableName })
+
+    return {
+      attributeName: result.TimeToLiveDescription?.AttributeName,
+      status: result.TimeToLiveDescription?.TimeToLiveStatus as 'ENABLING' | 'DISABLING' | 'ENABLED' | 'DISABLED' | undefined,
+    }
+  }
+
+  async updateTimeToLive(tableName: string, specification: { enabled: boolean, attributeName: string }): Promise<void> {
+    await this.makeRequest<unknown>('UpdateTimeToLive', {
+      TableName: tableName,
+      TimeToLiveSpecification: {
+        Enabled: specification.enabled,
+        AttributeName: specification.attributeName,
+      },
+    })
+  }
+
+  async listTagsOfResource(resourceArn: string): Promise<Array<{ key: string, value: string }>> {
+    const tags: Array<{ key: string, value: string }> = []
+    let nextToken: string | undefined
+
+    do {
+      const result = await this.makeRequest<{
+        Tags?: Array<{ Key: string, Value: string }>
+        NextToken?: string
+      }>('ListTagsOfResource', { ResourceArn: resourceArn, NextToken: nextToken })
+
+      tags.push(...(result.Tags ?? []).map(t => ({ key: t.Key, value: t.Value })))
+      nextToken = result.NextToken
+    } while (nextToken)
+
+    return tags
+  }
+
+  async sendCommand(command: string, input: Record<string, unknown>): Promise<Record<string, unknown>> {
+    // The JSON protocol encodes timestamps as epoch seconds
+    const params = JSON.parse(JSON.stringify(input, function (key, value) {
+      const raw = (this as Record<string, unknown>)[key]
+      return raw instanceof Date ? raw.getTime() / 1000 : value
+    })) as Record<string, unknown>
+
+    return this.makeRequest<Record<string, unknown>>(command, params)
+  }
+
   async updateTable(input: UpdateTableInput): Promise<TableDescription> {
     const params: Record<string, unknown> = {
       TableName: input.tableName,
@@ -809,7 +880,7 @@ export class DynamoDBDriver implements DriverPlugin {
       }
       catch (error) {
         // Table not found means it's deleted
-        if (error instanceof Error && error.message.includes('ResourceNotFoundException')) {
+        if (isResourceNotFoundError(error)) {
           return
         }
         throw error
@@ -951,6 +1022,8 @@ export class DynamoDBDriver implements DriverPlugin {
             status: (data.TTLDescription as { TimeToLiveStatus?: string }).TimeToLiveStatus as 'ENABLING' | 'DISABLING' | 'ENABLED' | 'DISABLED' | undefined,
           }
         : undefined,
+      tableClass: (data.TableClassSummary as { TableClass?: string } | undefined)?.TableClass as 'STANDARD' | 'STANDARD_INFREQUENT_ACCESS' | undefined,
+      deletionProtectionEnabled: data.DeletionProtectionEnabled as boolean | undefined,
     }
   }
 }
@@ -961,3 +1034,111 @@ export class DynamoDBDriver implements DriverPlugin {
 export function createDynamoDBDriver(options?: DriverConnectionOptions): DriverPlugin {
   return new DynamoDBDriver(options)
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+interface WireCapacityUnits {
+  CapacityUnits?: number
+  ReadCapacityUnits?: number
+  WriteCapacityUnits?: number
+}
+
+interface WireConsumedCapacity extends WireCapacityUnits {
+  TableName?: string
+  Table?: WireCapacityUnits
+  LocalSecondaryIndexes?: Record<string, WireCapacityUnits>
+  GlobalSecondaryIndexes?: Record<string, WireCapacityUnits>
+}
+
+interface WireRateLimitedResponse {
+  ConsumedCapacity?: WireConsumedCapacity | WireConsumedCapacity[]
+  UnprocessedItems?: Record<string, unknown>
+  UnprocessedKeys?: Record<string, unknown>
+}
+
+/**
+ * Capacity a data-plane request is charged to, with the units it is
+ * estimated to consume before DynamoDB reports the actual usage
+ */
+interface RateLimitedRequest {
+  kind: CapacityKind
+  targets: Array<{ target: RateLimitTarget, units: number }>
+}
+
+const READ_ACTIONS = new Set(['GetItem', 'Query', 'Scan', 'BatchGetItem', 'TransactGetItems'])
+const WRITE_ACTIONS = new Set(['PutItem', 'UpdateItem', 'DeleteItem', 'BatchWriteItem', 'TransactWriteItems'])
+
+/**
+ * Rate limiter for a connection: the one passed in, or a new one in adaptive retry mode
+ */
+function resolveRateLimiter(options: DriverConnectionOptions): RateLimiter | null {
+  if (options.rateLimiter)
+    return options.rateLimiter
+  return options.retryMode === 'adaptive' ? createRateLimiter() : null
+}
+
+function getRateLimitedRequest(action: string, params: Record<string, unknown>): RateLimitedRequest | undefined {
+  const kind: CapacityKind | undefined = READ_ACTIONS.has(action) ? 'read' : WRITE_ACTIONS.has(action) ? 'write' : undefined
+  if (!kind)
+    return undefined
+
+  if (typeof params.TableName === 'string') {
+    const indexName = typeof params.IndexName === 'string' ? params.IndexName : undefined
+    return { kind, targets: [{ target: { tableName: params.TableName, indexName }, units: 1 }] }
+  }
+
+  // Batches charge one unit per key or request, transactions two per item
+  const units = new Map<string, number>()
+  for (const [tableName, request] of Object.entries((params.RequestItems ?? {}) as Record<string, { Keys?: unknown[] } | unknown[]>)) {
+    units.set(tableName, Array.isArray(request) ? request.length : request.Keys?.length ?? 1)
+  }
+  for (const item of (params.TransactItems ?? []) as Array<Record<string, { TableName?: string } | undefined>>) {
+    for (const operation of Object.values(item)) {
+      if (operation?.TableName) {
+        units.set(operation.TableName, (units.get(operation.TableName) ?? 0) + 2)
+      }
+    }
+  }
+
+  return { kind, targets: [...units].map(([tableName, count]) => ({ target: { tableName }, units: count })) }
+}
+
+/**
+ * Feed a response's consumed capacity and unprocessed work back to the rate limiter
+ */
+function recordUsage(rateLimiter: RateLimiter, limited: RateLimitedRequest, result: WireRateLimitedResponse): void {
+  const consumed = Array.isArray(result.ConsumedCapacity)
+    ? result.ConsumedCapacity.map(parseConsumedCapacity)
+    : result.ConsumedCapacity && parseConsumedCapacity(result.ConsumedCapacity)
+  const estimates = Object.fromEntries(limited.targets.map(({ target, units }) =>
+    [target.indexName ? `${target.tableName}/${target.indexName}` : target.tableName, units]))
+  rateLimiter.recordConsumedCapacity(limited.kind, consumed, estimates)
+
+  // Unprocessed batch items are DynamoDB throttling part of the batch
+  for (const tableName of Object.keys({ ...result.UnprocessedItems, ...result.UnprocessedKeys })) {
+    rateLimiter.throttled({ tableName }, limited.kind)
+  }
+}
+
+function parseCapacityUnits(units: WireCapacityUnits): { capacityUnits?: number, readCapacityUnits?: number, writeCapacityUnits?: number } {
+  return {
+    capacityUnits: units.CapacityUnits,
+    readCapacityUnits: units.ReadCapacityUnits,
+    writeCapacityUnits: units.WriteCapacityUnits,
+  }
+}
+
+function parseConsumedCapacity(wire: WireConsumedCapacity): ConsumedCapacity {
+  const parseIndexes = (indexes?: Record<string, WireCapacityUnits>): ConsumedCapacity['globalSecondaryIndexes'] =>
+    indexes && Object.fromEntries(Object.entries(indexes).map(([name, units]) => [name, parseCapacityUnits(units)]))
+
+  return {
+    tableName: wire.TableName,
+    ...parseCapacityUnits(wire),
+    table: wire.Table && parseCapacityUnits(wire.Table),
+    localSecondaryIndexes: parseIndexes(wire.LocalSecondaryIndexes),
+    globalSecondaryIndexes: parseIndexes(wire.GlobalSecondaryIndexes),
+  }
+}
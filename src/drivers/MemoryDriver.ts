@@ -0,0 +1,1749 @@
+// ============================================================================
+// In-Memory DynamoDB Driver - Local emulator for tests and development
+// ============================================================================
+
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import type {
+  AttributeValue,
+  BatchGetItemInput,
+  BatchGetItemOutput,
+  BatchWriteItemInput,
+  BatchWriteItemOutput,
+  ConsumedCapacity,
+  CreateTableInput,
+  DeleteItemInput,
+  DriverCapabilities,
+  DriverConnectionOptions,
+  DriverPlugin,
+  GetItemInput,
+  PutItemInput,
+  QueryInput,
+  QueryOutput,
+  ScanInput,
+  TableDescription,
+  TransactGetItemsInput,
+  TransactGetItemsOutput,
+  TransactWriteItemsInput,
+  UpdateItemInput,
+  UpdateTableInput,
+} from './types'
+import type { ConditionNode, DocumentPath, ExpressionItem, Operand, UpdateNode } from './expressions'
+import {
+  applyProjection,
+  applyUpdate,
+  cloneItem,
+  compareValues,
+  evaluateCondition,
+  ExpressionContext,
+  ExpressionError,
+  getAttributeType,
+  getItemSize,
+  normalizeAttributeValue,
+  parseConditionExpression,
+  parseProjectionExpression,
+  parseUpdateExpression,
+  valuesEqual,
+} from './expressions'
+import { getRequestTableName, translateDriverError } from './errors'
+import { unmarshallItem } from './utils'
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Reason a single action of a cancelled transaction failed
+ */
+export interface MemoryCancellationReason {
+  Code: string
+  Message?: string
+}
+
+/**
+ * Error raised inside the in-memory driver. `code` and `name` carry the
+ * DynamoDB exception name (e.g. `ConditionalCheckFailedException`); public
+ * operations translate it into the matching typed error before it escapes.
+ */
+export class MemoryDriverError extends Error {
+  readonly code: string
+  readonly cancellationReasons?: MemoryCancellationReason[]
+
+  constructor(code: string, message: string, cancellationReasons?: MemoryCancellationReason[]) {
+    super(message)
+    this.name = code
+    this.code = code
+    this.cancellationReasons = cancellationReasons
+  }
+}
+
+function soleTableName(tableNames: Array<string | undefined>): string | undefined {
+  const unique = new Set(tableNames.filter((name): name is string => name !== undefined))
+  return unique.size === 1 ? [...unique][0] : undefined
+}
+
+function validationError(message: string): MemoryDriverError {
+  return new MemoryDriverError('ValidationException', message)
+}
+
+function tableNotFound(): MemoryDriverError {
+  return new MemoryDriverError('ResourceNotFoundException', 'Requested resource not found')
+}
+
+// ============================================================================
+// Internal Types
+// ============================================================================
+
+type KeySchema = CreateTableInput['keySchema']
+type Projection = NonNullable<CreateTableInput['globalSecondaryIndexes']>[number]['projection']
+
+interface MemoryIndex {
+  indexName: string
+  type: 'GSI' | 'LSI'
+  keySchema: KeySchema
+  hashKey: string
+  rangeKey?: string
+  projection: Projection
+  provisionedThroughput?: { readCapacityUnits: number, writeCapacityUnits: number }
+}
+
+interface MemoryTable {
+  tableName: string
+  hashKey: string
+  rangeKey?: string
+  keySchema: KeySchema
+  attributeDefinitions: CreateTableInput['attributeDefinitions']
+  indexes: Map<string, MemoryIndex>
+  items: Map<string, ExpressionItem>
+  billingMode: 'PROVISIONED' | 'PAY_PER_REQUEST'
+  provisionedThroughput?: { readCapacityUnits: number, writeCapacityUnits: number }
+  streamSpecification?: CreateTableInput['streamSpecification']
+  tableClass: 'STANDARD' | 'STANDARD_INFREQUENT_ACCESS'
+  deletionProtectionEnabled: boolean
+  tags: Array<{ key: string, value: string }>
+  creationDateTime: Date
+}
+
+/**
+ * On-demand backup: a copy of the table taken when the backup was created
+ */
+interface MemoryBackup {
+  backupArn: string
+  backupName: string
+  tableArn: string
+  table: MemoryTable
+  creationDateTime: Date
+}
+
+/**
+ * View over a table or index used by query and scan
+ */
+interface ItemView {
+  hashKey: string
+  hashKeyType: string
+  rangeKey?: string
+  index?: MemoryIndex
+}
+
+interface WriteAction {
+  table: MemoryTable
+  keyId: string
+  key: ExpressionItem
+  condition?: ConditionNode
+  /** Compute the new item from the current one (`null` deletes, `undefined` leaves unchanged) */
+  apply: (current: ExpressionItem | undefined) => ExpressionItem | null | undefined
+}
+
+type ReturnCapacity = 'INDEXES' | 'TOTAL' | 'NONE' | undefined
+
+const MAX_ITEM_SIZE = 400 * 1024
+const MAX_PAGE_SIZE = 1024 * 1024
+const MAX_BATCH_GET_ITEMS = 100
+const MAX_BATCH_WRITE_ITEMS = 25
+const MAX_TRANSACTION_ITEMS = 100
+const CLIENT_TOKEN_TTL_MS = 10 * 60 * 1000
+
+// ============================================================================
+// Memory Driver
+// ============================================================================
+
+/**
+ * In-memory DynamoDB emulator
+ *
+ * Keeps tables in process memory and implements the semantics of the real
+ * service: key conditions, filter/condition/update/projection expressions,
+ * secondary indexes with projections, `LastEvaluatedKey` pagination,
+ * all-or-nothing transactions and the same error codes.
+ *
+ * @example
+ * ```typescript
+ * const driver = createMemoryDriver()
+ * await driver.createTable({
+ *   tableName: 'users',
+ *   keySchema: [{ attributeName: 'pk', keyType: 'HASH' }],
+ *   attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }],
+ *   billingMode: 'PAY_PER_REQUEST',
+ * })
+ * await driver.putItem({ tableName: 'users', item: { pk: { S: 'USER#1' } } })
+ * ```
+ */
+export class MemoryDriver implements DriverPlugin {
+  name = 'memory'
+  version = '1.0.0'
+
+  private options: DriverConnectionOptions = {}
+  private connected = false
+  private tables = new Map<string, MemoryTable>()
+  private clientTokens = new Map<string, { fingerprint: string, expiresAt: number }>()
+  private backups = new Map<string, MemoryBackup>()
+  /** Backups created so far, which keeps ARNs unique after deletes */
+  private backupCount = 0
+  /** Tables with point-in-time recovery enabled, and since when */
+  private pointInTimeRecovery = new Map<string, Date>()
+
+  constructor(options?: DriverConnectionOptions) {
+    if (options) {
+      this.options = options
+    }
+  }
+
+  getCapabilities(): DriverCapabilities {
+    return {
+      transactions: true,
+      batch: true,
+      streams: false,
+      gsi: true,
+      lsi: true,
+      partiql: false,
+      ttl: false,
+      consistentRead: true,
+      conditionalWrites: true,
+      atomicCounters: true,
+      maxBatchWriteItems: MAX_BATCH_WRITE_ITEMS,
+      maxBatchReadItems: MAX_BATCH_GET_ITEMS,
+      maxTransactionItems: MAX_TRANSACTION_ITEMS,
+    }
+  }
+
+  validateConfig(_options: DriverConnectionOptions): { valid: boolean, errors: string[] } {
+    return { valid: true, errors: [] }
+  }
+
+  async connect(options: DriverConnectionOptions): Promise<void> {
+    this.options = options
+    this.connected = true
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false
+  }
+
+  async healthCheck(): Promise<{ healthy: boolean, latencyMs: number, error?: string }> {
+    return { healthy: true, latencyMs: 0 }
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Drop all tables and items
+   */
+  reset(): void {
+    this.tables.clear()
+    this.clientTokens.clear()
+    this.backups.clear()
+    this.pointInTimeRecovery.clear()
+  }
+
+  // ---- Item Operations ----
+
+  async getItem(input: GetItemInput): Promise<DynamoDBItem | null> {
+    return this.run('GetItem', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const context = createContext(input.expressionAttributeNames, undefined, [input.projectionExpression])
+      const projection = input.projectionExpression ? parseProjectionExpression(input.projectionExpression, context) : undefined
+      context.assertAllUsed()
+
+      const { keyId } = this.resolveKey(table, input.key)
+      const item = table.items.get(keyId)
+      if (!item) {
+        return null
+      }
+      return unmarshallItem(projection ? applyProjection(item, projection) : cloneItem(item))
+    })
+  }
+
+  async putItem(input: PutItemInput): Promise<{ attributes?: DynamoDBItem, consumedCapacity?: ConsumedCapacity }> {
+    return this.run('PutItem', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const context = createContext(input.expressionAttributeNames, input.expressionAttributeValues, [input.conditionExpression])
+      const condition = input.conditionExpression ? parseConditionExpression(input.conditionExpression, context) : undefined
+      context.assertAllUsed()
+
+      const item = this.validateItem(table, input.item)
+      const { keyId } = this.resolveKey(table, extractKey(table, item))
+      const existing = table.items.get(keyId)
+
+      checkCondition(condition, existing)
+      table.items.set(keyId, item)
+
+      return {
+        attributes: input.returnValues === 'ALL_OLD' && existing ? unmarshallItem(existing) : undefined,
+        consumedCapacity: writeCapacity(table, Math.max(getItemSize(item), existing ? getItemSize(existing) : 0), input.returnConsumedCapacity),
+      }
+    })
+  }
+
+  async updateItem(input: UpdateItemInput): Promise<{ attributes?: DynamoDBItem, consumedCapacity?: ConsumedCapacity }> {
+    return this.run('UpdateItem', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const context = createContext(input.expressionAttributeNames, input.expressionAttributeValues, [input.updateExpression, input.conditionExpression])
+      const update = parseUpdateExpression(input.updateExpression, context)
+      const condition = input.conditionExpression ? parseConditionExpression(input.conditionExpression, context) : undefined
+      context.assertAllUsed()
+      assertKeyNotUpdated(table, update)
+
+      const { keyId, key } = this.resolveKey(table, input.key)
+      const existing = table.items.get(keyId)
+      checkCondition(condition, existing)
+
+      const { item, updatedAttributes } = applyUpdate(update, existing ?? key)
+      const validated = this.validateItem(table, item)
+      table.items.set(keyId, validated)
+
+      return {
+        attributes: selectReturnValues(input.returnValues, existing, validated, updatedAttributes),
+        consumedCapacity: writeCapacity(table, Math.max(getItemSize(validated), existing ? getItemSize(existing) : 0), input.returnConsumedCapacity),
+      }
+    })
+  }
+
+  async deleteItem(input: DeleteItemInput): Promise<{ attributes?: DynamoDBItem, consumedCapacity?: ConsumedCapacity }> {
+    return this.run('DeleteItem', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const context = createContext(input.expressionAttributeNames, input.expressionAttributeValues, [input.conditionExpression])
+      const condition = input.conditionExpression ? parseConditionExpression(input.conditionExpression, context) : undefined
+      context.assertAllUsed()
+
+      const { keyId } = this.resolveKey(table, input.key)
+      const existing = table.items.get(keyId)
+      checkCondition(condition, existing)
+      table.items.delete(keyId)
+
+      return {
+        attributes: input.returnValues === 'ALL_OLD' && existing ? unmarshallItem(existing) : undefined,
+        consumedCapacity: writeCapacity(table, existing ? getItemSize(existing) : 0, input.returnConsumedCapacity),
+      }
+    })
+  }
+
+  // ---- Query Operations ----
+
+  async query(input: QueryInput): Promise<QueryOutput> {
+    return this.run('Query', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const view = this.getView(table, input.indexName, input.consistentRead)
+      const context = createContext(input.expressionAttributeNames, input.expressionAttributeValues, [
+        input.keyConditionExpression,
+        input.filterExpression,
+        input.projectionExpression,
+      ])
+      const keyCondition = parseConditionExpression(input.keyConditionExpression, context, 'KeyConditionExpression')
+      const filter = input.filterExpression ? parseConditionExpression(input.filterExpression, context, 'FilterExpression') : undefined
+      const projection = input.projectionExpression ? parseProjectionExpression(input.projectionExpression, context) : undefined
+      context.assertAllUsed()
+      validateSelect(view, input.select, projection)
+
+      const { hashValue, rangeCondition } = splitKeyCondition(view, keyCondition)
+      const entries = this.getViewItems(table, view)
+        .filter(item => valuesEqual(item[view.hashKey], hashValue) && (!rangeCondition || evaluateCondition(rangeCondition, item)))
+        .sort((a, b) => compareByKeys(table, view, a, b, false))
+
+      if (input.scanIndexForward === false) {
+        entries.reverse()
+      }
+
+      return this.readPage(table, view, entries, {
+        ...input,
+        filter,
+        projection,
+        descending: input.scanIndexForward === false,
+        sortForScan: false,
+      })
+    })
+  }
+
+  async scan(input: ScanInput): Promise<QueryOutput> {
+    return this.run('Scan', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const view = this.getView(table, input.indexName, input.consistentRead)
+      const context = createContext(input.expressionAttributeNames, input.expressionAttributeValues, [
+        input.filterExpression,
+        input.projectionExpression,
+      ])
+      const filter = input.filterExpression ? parseConditionExpression(input.filterExpression, context, 'FilterExpression') : undefined
+      const projection = input.projectionExpression ? parseProjectionExpression(input.projectionExpression, context) : undefined
+      context.assertAllUsed()
+      validateSelect(view, input.select, projection)
+
+      const { segment, totalSegments } = input
+      if ((segment === undefined) !== (totalSegments === undefined)) {
+        throw validationError('The Segment parameter is required but was not present in the request when parameter TotalSegments is present')
+      }
+      if (totalSegments !== undefined && (totalSegments < 1 || totalSegments > 1000000)) {
+        throw validationError(`1 validation error detected: Value '${totalSegments}' at 'totalSegments' failed to satisfy constraint: Member must have value between 1 and 1000000`)
+      }
+      if (segment !== undefined && totalSegments !== undefined && (segment < 0 || segment >= totalSegments)) {
+        throw validationError(`The Segment parameter is zero-based and must be less than parameter TotalSegments: Segment: ${segment} is not less than TotalSegments: ${totalSegments}`)
+      }
+
+      const entries = this.getViewItems(table, view)
+        .filter(item => totalSegments === undefined || hashPartition(item[view.hashKey]) % totalSegments === segment)
+        .sort((a, b) => compareByKeys(table, view, a, b, true))
+
+      return this.readPage(table, view, entries, {
+        ...input,
+        filter,
+        projection,
+        descending: false,
+        sortForScan: true,
+      })
+    })
+  }
+
+  // ---- Batch Operations ----
+
+  async batchGetItem(input: BatchGetItemInput): Promise<BatchGetItemOutput> {
+    return this.run('BatchGetItem', soleTableName(Object.keys(input.requestItems)), async () => {
+      const total = Object.values(input.requestItems).reduce((sum, request) => sum + request.keys.length, 0)
+      if (total === 0) {
+        throw validationError('1 validation error detected: Value at \'requestItems\' failed to satisfy constraint: Member must have length greater than or equal to 1')
+      }
+      if (total > MAX_BATCH_GET_ITEMS) {
+        throw validationError('Too many items requested for the BatchGetItem call')
+      }
+
+      const responses: Record<string, DynamoDBItem[]> = {}
+      const consumedCapacity: ConsumedCapacity[] = []
+
+      for (const [tableName, request] of Object.entries(input.requestItems)) {
+        const table = this.getTable(tableName)
+        const context = createContext(request.expressionAttributeNames, undefined, [request.projectionExpression])
+        const projection = request.projectionExpression ? parseProjectionExpression(request.projectionExpression, context) : undefined
+        context.assertAllUsed()
+
+        const seen = new Set<string>()
+        const items: DynamoDBItem[] = []
+        let size = 0
+        for (const key of request.keys) {
+          const { keyId } = this.resolveKey(table, key)
+          if (seen.has(keyId)) {
+            throw validationError('Provided list of item keys contains duplicates')
+          }
+          seen.add(keyId)
+
+          const item = table.items.get(keyId)
+          if (item) {
+            size += getItemSize(item)
+            items.push(unmarshallItem(projection ? applyProjection(item, projection) : cloneItem(item)))
+          }
+        }
+
+        responses[tableName] = items
+        const capacity = readCapacity(table, size, request.consistentRead, input.returnConsumedCapacity)
+        if (capacity) {
+          consumedCapacity.push(capacity)
+        }
+      }
+
+      return {
+        responses,
+        unprocessedKeys: {},
+        consumedCapacity: consumedCapacity.length > 0 ? consumedCapacity : undefined,
+      }
+    })
+  }
+
+  async batchWriteItem(input: BatchWriteItemInput): Promise<BatchWriteItemOutput> {
+    return this.run('BatchWriteItem', soleTableName(Object.keys(input.requestItems)), async () => {
+      const total = Object.values(input.requestItems).reduce((sum, requests) => sum + requests.length, 0)
+      if (total === 0 || total > MAX_BATCH_WRITE_ITEMS) {
+        throw validationError(`1 validation error detected: Value at 'requestItems' failed to satisfy constraint: Map value must satisfy constraint: [Member must have length less than or equal to ${MAX_BATCH_WRITE_ITEMS}, Member must have length greater than or equal to 1]`)
+      }
+
+      // Validate every request before applying any of them
+      const writes: Array<{ table: MemoryTable, keyId: string, item: ExpressionItem | null }> = []
+      for (const [tableName, requests] of Object.entries(input.requestItems)) {
+        const table = this.getTable(tableName)
+        const seen = new Set<string>()
+
+        for (const request of requests) {
+          if (Boolean(request.putRequest) === Boolean(request.deleteRequest)) {
+            throw validationError('Write request must contain exactly one of PutRequest or DeleteRequest')
+          }
+
+          const item = request.putRequest ? this.validateItem(table, request.putRequest.item) : null
+          const { keyId } = this.resolveKey(table, item ? extractKey(table, item) : request.deleteRequest!.key)
+          if (seen.has(keyId)) {
+            throw validationError('Provided list of item keys contains duplicates')
+          }
+          seen.add(keyId)
+          writes.push({ table, keyId, item })
+        }
+      }
+
+      const sizes = new Map<MemoryTable, number>()
+      for (const { table, keyId, item } of writes) {
+        const existing = table.items.get(keyId)
+        sizes.set(table, (sizes.get(table) ?? 0) + Math.max(item ? getItemSize(item) : 0, existing ? getItemSize(existing) : 0))
+        if (item) {
+          table.items.set(keyId, item)
+        }
+        else {
+          table.items.delete(keyId)
+        }
+      }
+
+      const consumedCapacity = [...sizes.entries()]
+        .map(([table, size]) => writeCapacity(table, size, input.returnConsumedCapacity))
+        .filter((capacity): capacity is ConsumedCapacity => capacity !== undefined)
+
+      return {
+        unprocessedItems: {},
+        consumedCapacity: consumedCapacity.length > 0 ? consumedCapacity : undefined,
+      }
+    })
+  }
+
+  // ---- Transaction Operations ----
+
+  async transactWriteItems(input: TransactWriteItemsInput): Promise<{ consumedCapacity?: ConsumedCapacity[] }> {
+    return this.run('TransactWriteItems', soleTableName(input.transactItems.map(item => (item.put ?? item.update ?? item.delete ?? item.conditionCheck)?.tableName)), async () => {
+      const { transactItems } = input
+      if (transactItems.length === 0 || transactItems.length > MAX_TRANSACTION_ITEMS) {
+        throw validationError(`1 validation error detected: Value at 'transactItems' failed to satisfy constraint: Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}, Member must have length greater than or equal to 1`)
+      }
+
+      if (input.clientRequestToken && this.isReplayedRequest(input.clientRequestToken, input)) {
+        return {}
+      }
+
+      // Parse and validate every action up front; these are request errors, not cancellations
+      const actions: WriteAction[] = transactItems.map(entry => this.prepareTransactAction(entry))
+
+      const targets = new Set<string>()
+      for (const action of actions) {
+        const target = `${action.table.tableName}\u0000${action.keyId}`
+        if (targets.has(target)) {
+          throw validationError('Transaction request cannot include multiple operations on one item')
+        }
+        targets.add(target)
+      }
+
+      // Evaluate conditions and compute results without touching the tables
+      const results: Array<ExpressionItem | null | undefined> = []
+      const reasons: MemoryCancellationReason[] = actions.map((action) => {
+        const current = action.table.items.get(action.keyId)
+        if (action.condition && !evaluateCondition(action.condition, current ?? {})) {
+          results.push(undefined)
+          return { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' }
+        }
+        try {
+          results.push(action.apply(current))
+          return { Code: 'None' }
+        }
+        catch (error) {
+          results.push(undefined)
+          return { Code: 'ValidationError', Message: error instanceof Error ? error.message : String(error) }
+        }
+      })
+
+      if (reasons.some(reason => reason.Code !== 'None')) {
+        throw new MemoryDriverError(
+          'TransactionCanceledException',
+          `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.map(r => r.Code).join(', ')}]`,
+          reasons,
+        )
+      }
+
+      const sizes = new Map<MemoryTable, number>()
+      actions.forEach((action, i) => {
+        const result = results[i]
+        const existing = action.table.items.get(action.keyId)
+        const size = Math.max(result ? getItemSize(result) : 0, existing ? getItemSize(existing) : 0)
+        sizes.set(action.table, (sizes.get(action.table) ?? 0) + size)
+        if (result === null) {
+          action.table.items.delete(action.keyId)
+        }
+        else if (result !== undefined) {
+          action.table.items.set(action.keyId, result)
+        }
+      })
+
+      if (!input.returnConsumedCapacity || input.returnConsumedCapacity === 'NONE') {
+        return {}
+      }
+      // Transactional writes consume twice the capacity of standard writes
+      return {
+        consumedCapacity: [...sizes.entries()].map(([table, size]) =>
+          capacityFor(table, 2 * Math.max(1, Math.ceil(size / 1024)), input.returnConsumedCapacity) as ConsumedCapacity),
+      }
+    })
+  }
+
+  async transactGetItems(input: TransactGetItemsInput): Promise<TransactGetItemsOutput> {
+    return this.run('TransactGetItems', soleTableName(input.transactItems.map(item => item.get.tableName)), async () => {
+      if (input.transactItems.length === 0 || input.transactItems.length > MAX_TRANSACTION_ITEMS) {
+        throw validationError(`1 validation error detected: Value at 'transactItems' failed to satisfy constraint: Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}, Member must have length greater than or equal to 1`)
+      }
+
+      const reads = input.transactItems.map(({ get }) => {
+        const table = this.getTable(get.tableName)
+        const context = createContext(get.expressionAttributeNames, undefined, [get.projectionExpression])
+        const projection = get.projectionExpression ? parseProjectionExpression(get.projectionExpression, context) : undefined
+        context.assertAllUsed()
+        return { table, keyId: this.resolveKey(table, get.key).keyId, projection }
+      })
+
+      return {
+        responses: reads.map(({ table, keyId, projection }) => {
+          const item = table.items.get(keyId)
+          if (!item) {
+            return {}
+          }
+          return { item: unmarshallItem(projection ? applyProjection(item, projection) : cloneItem(item)) }
+        }),
+      }
+    })
+  }
+
+  // ---- Table Operations ----
+
+  async createTable(input: CreateTableInput): Promise<TableDescription> {
+    return this.run('CreateTable', input.tableName, async () => {
+      if (!/^[\w.-]{3,255}$/.test(input.tableName)) {
+        throw validationError(`TableName must be at least 3 characters long and at most 255 characters long, and contain only [a-zA-Z0-9_.-]: ${input.tableName}`)
+      }
+      if (this.tables.has(input.tableName)) {
+        throw new MemoryDriverError('ResourceInUseException', `Table already exists: ${input.tableName}`)
+      }
+
+      const attributeTypes = new Map(input.attributeDefinitions.map(a => [a.attributeName, a.attributeType]))
+      const { hashKey, rangeKey } = validateKeySchema(input.keySchema, attributeTypes, 'Table')
+      const billingMode = input.billingMode ?? 'PROVISIONED'
+      validateThroughput(billingMode, input.provisionedThroughput)
+
+      const indexes = new Map<string, MemoryIndex>()
+      const used = new Set([hashKey, rangeKey].filter(Boolean) as string[])
+
+      for (const gsi of input.globalSecondaryIndexes ?? []) {
+        const index = createIndex('GSI', gsi.indexName, gsi.keySchema, gsi.projection, attributeTypes, indexes)
+        validateThroughput(billingMode, gsi.provisionedThroughput)
+        index.provisionedThroughput = gsi.provisionedThroughput
+        indexes.set(index.indexName, index)
+        index.keySchema.forEach(k => used.add(k.attributeName))
+      }
+
+      for (const lsi of input.localSecondaryIndexes ?? []) {
+        const index = createIndex('LSI', lsi.indexName, lsi.keySchema, lsi.projection, attributeTypes, indexes)
+        if (!rangeKey) {
+          throw validationError('One or more parameter values were invalid: Table KeySchema does not have a range key, which is required when specifying a LocalSecondaryIndex')
+        }
+        if (index.hashKey !== hashKey || !index.rangeKey) {
+          throw validationError(`One or more parameter values were invalid: Index KeySchema does not have the same leading hash key as table KeySchema for index: ${index.indexName}`)
+        }
+        indexes.set(index.indexName, index)
+        index.keySchema.forEach(k => used.add(k.attributeName))
+      }
+
+      const gsiCount = [...indexes.values()].filter(index => index.type === 'GSI').length
+      if (gsiCount > 20 || indexes.size - gsiCount > 5) {
+        throw new MemoryDriverError('LimitExceededException', 'One or more parameter values were invalid: Number of indexes exceeds per-table limit')
+      }
+
+      const unused = input.attributeDefinitions.filter(a => !used.has(a.attributeName))
+      if (unused.length > 0) {
+        throw validationError(`One or more parameter values were invalid: Some AttributeDefinitions are not used. AttributeDefinitions: [${input.attributeDefinitions.map(a => a.attributeName).join(', ')}], keys used: [${[...used].join(', ')}]`)
+      }
+
+      const table: MemoryTable = {
+        tableName: input.tableName,
+        hashKey,
+        rangeKey,
+        keySchema: input.keySchema,
+        attributeDefinitions: input.attributeDefinitions,
+        indexes,
+        items: new Map(),
+        billingMode,
+        provisionedThroughput: input.provisionedThroughput,
+        streamSpecification: input.streamSpecification,
+        tableClass: input.tableClass ?? 'STANDARD',
+        deletionProtectionEnabled: input.deletionProtectionEnabled ?? false,
+        tags: input.tags ?? [],
+        creationDateTime: new Date(),
+      }
+
+      this.tables.set(input.tableName, table)
+      return this.describe(table)
+    })
+  }
+
+  async deleteTable(tableName: string): Promise<void> {
+    return this.run('DeleteTable', tableName, async () => {
+      const table = this.getTable(tableName)
+      if (table.deletionProtectionEnabled) {
+        throw validationError('Resource cannot be deleted as it is currently protected against deletion. Disable deletion protection first.')
+      }
+      this.tables.delete(tableName)
+      this.pointInTimeRecovery.delete(tableName)
+    })
+  }
+
+  async describeTable(tableName: string): Promise<TableDescription> {
+    return this.run('DescribeTable', tableName, async () => {
+      return this.describe(this.getTable(tableName))
+    })
+  }
+
+  async listTables(options?: { limit?: number, exclusiveStartTableName?: string }): Promise<{
+    tableNames: string[]
+    lastEvaluatedTableName?: string
+  }> {
+    return this.run('ListTables', undefined, async () => {
+      const limit = options?.limit ?? 100
+      if (limit < 1 || limit > 100) {
+        throw validationError(`1 validation error detected: Value '${limit}' at 'limit' failed to satisfy constraint: Member must have value less than or equal to 100`)
+      }
+
+      const names = [...this.tables.keys()].sort()
+      const start = options?.exclusiveStartTableName
+        ? names.findIndex(name => name > options.exclusiveStartTableName!)
+        : 0
+      const page = start === -1 ? [] : names.slice(start, start + limit)
+      const hasMore = start !== -1 && start + limit < names.length
+
+      return {
+        tableNames: page,
+        lastEvaluatedTableName: hasMore ? page[page.length - 1] : undefined,
+      }
+    })
+  }
+
+  async listTagsOfResource(resourceArn: string): Promise<Array<{ key: string, value: string }>> {
+    return this.run('ListTagsOfResource', undefined, async () => {
+      const tableName = resourceArn.match(/:table\/([^/]+)/)?.[1]
+      const table = tableName ? this.tables.get(tableName) : undefined
+      if (!table) {
+        throw new MemoryDriverError('ResourceNotFoundException', `Requested resource not found: ResourceArn: ${resourceArn} not found`)
+      }
+      return table.tags.map(t => ({ ...t }))
+    })
+  }
+
+  async updateTable(input: UpdateTableInput): Promise<TableDescription> {
+    return this.run('UpdateTable', input.tableName, async () => {
+      const table = this.getTable(input.tableName)
+      const attributeTypes = new Map(table.attributeDefinitions.map(a => [a.attributeName, a.attributeType]))
+      for (const definition of input.attributeDefinitions ?? []) {
+        attributeTypes.set(definition.attributeName, definition.attributeType)
+      }
+
+      const billingMode = input.billingMode ?? table.billingMode
+      if (input.provisionedThroughput || input.billingMode) {
+        validateThroughput(billingMode, input.provisionedThroughput ?? (billingMode === 'PROVISIONED' ? table.provisionedThroughput : undefined))
+      }
+
+      const indexes = new Map(table.indexes)
+      for (const update of input.globalSecondaryIndexUpdates ?? []) {
+        if (update.create) {
+          const index = createIndex('GSI', update.create.indexName, update.create.keySchema, update.create.projection, attributeTypes, indexes)
+          validateThroughput(billingMode, update.create.provisionedThroughput)
+          index.provisionedThroughput = update.create.provisionedThroughput
+          indexes.set(index.indexName, index)
+        }
+        else if (update.update) {
+          const index = indexes.get(update.update.indexName)
+          if (!index || index.type !== 'GSI') {
+            throw new MemoryDriverError('ResourceNotFoundException', `Requested resource not found: Index: ${update.update.indexName} not found`)
+          }
+          indexes.set(index.indexName, { ...index, provisionedThroughput: update.update.provisionedThroughput })
+        }
+        else if (update.delete) {
+          const index = indexes.get(update.delete.indexName)
+          if (!index || index.type !== 'GSI') {
+            throw new MemoryDriverError('ResourceNotFoundException', `Requested resource not found: Index: ${update.delete.indexName} not found`)
+          }
+          indexes.delete(update.delete.indexName)
+        }
+      }
+
+      // Index keys of existing items must match the declared attribute types
+      const attributeDefinitions = [...attributeTypes.entries()].map(([attributeName, attributeType]) => ({ attributeName, attributeType }))
+      for (const item of table.items.values()) {
+        validateIndexKeys({ indexes, attributeDefinitions }, item)
+      }
+
+      const used = new Set<string>(table.keySchema.map(k => k.attributeName))
+      indexes.forEach(index => index.keySchema.forEach(k => used.add(k.attributeName)))
+
+      table.indexes = indexes
+      table.attributeDefinitions = attributeDefinitions.filter(a => used.has(a.attributeName))
+      table.billingMode = billingMode
+      if (billingMode === 'PAY_PER_REQUEST') {
+        table.provisionedThroughput = undefined
+      }
+      else if (input.provisionedThroughput) {
+        table.provisionedThroughput = input.provisionedThroughput
+      }
+      if (input.streamSpecification) {
+        table.streamSpecification = input.streamSpecification
+      }
+      if (input.tableClass) {
+        table.tableClass = input.tableClass
+      }
+      if (input.deletionProtectionEnabled !== undefined) {
+        table.deletionProtectionEnabled = input.deletionProtectionEnabled
+      }
+
+      return this.describe(table)
+    })
+  }
+
+  async waitForTableActive(
+    tableName: string,
+    _options?: { maxWaitTime?: number, checkInterval?: number },
+  ): Promise<void> {
+    return this.run('DescribeTable', tableName, async () => {
+      // Tables become active as soon as they are created
+      this.getTable(tableName)
+    })
+  }
+
+  async waitForTableDeleted(
+    tableName: string,
+    options?: { maxWaitTime?: number, checkInterval?: number },
+  ): Promise<void> {
+    const maxWaitTime = options?.maxWaitTime ?? 300000 // 5 minutes
+    const checkInterval = options?.checkInterval ?? 100
+    const startTime = Date.now()
+
+    while (this.tables.has(tableName)) {
+      if (Date.now() - startTime >= maxWaitTime) {
+        throw new Error(`Table ${tableName} was not deleted within ${maxWaitTime}ms`)
+      }
+      await new Promise(resolve => setTimeout(resolve, checkInterval))
+    }
+  }
+
+  // ---- Backup Operations ----
+
+  /**
+   * Run the backup and point-in-time recovery actions. Backups are copies of
+   * the table and are available immediately; point-in-time restores copy the
+   * table as it is now, since no history is kept.
+   */
+  async sendCommand(command: string, input: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const tableName = getRequestTableName(input) ?? input.TargetTableName as string | undefined
+    return this.run(command, tableName, async () => {
+      switch (command) {
+        case 'CreateBackup': {
+          const table = this.getTable(input.TableName as string)
+          const creationDateTime = new Date()
+          const backup: MemoryBackup = {
+            backupArn: `${this.tableArn(table.tableName)}/backup/${creationDateTime.getTime()}-${String(++this.backupCount).padStart(4, '0')}`,
+            backupName: input.BackupName as string,
+            tableArn: this.tableArn(table.tableName),
+            table: copyTable(table, table.tableName),
+            creationDateTime,
+          }
+          this.backups.set(backup.backupArn, backup)
+          return { BackupDetails: describeBackup(backup) }
+        }
+
+        case 'DescribeBackup':
+          return { BackupDescription: this.describeBackupWithSource(this.getBackup(input.BackupArn as string)) }
+
+        case 'DeleteBackup': {
+          const backup = this.getBackup(input.BackupArn as string)
+          this.backups.delete(backup.backupArn)
+          return { BackupDescription: { ...this.describeBackupWithSource(backup), BackupDetails: { ...describeBackup(backup), BackupStatus: 'DELETED' } } }
+        }
+
+        case 'ListBackups': {
+          const lower = input.TimeRangeLowerBound === undefined ? undefined : toDate(input.TimeRangeLowerBound)
+          const upper = input.TimeRangeUpperBound === undefined ? undefined : toDate(input.TimeRangeUpperBound)
+          const limit = (input.Limit as number | undefined) ?? 100
+          // Every backup taken here is a user backup
+          const listsUserBackups = !input.BackupType || input.BackupType === 'ALL' || input.BackupType === 'USER'
+          const backups = [...(listsUserBackups ? this.backups.values() : [])]
+            .filter(backup => !input.TableName || backup.table.tableName === input.TableName)
+            .filter(backup => (!lower || backup.creationDateTime >= lower) && (!upper || backup.creationDateTime <= upper))
+          const start = input.ExclusiveStartBackupArn
+            ? backups.findIndex(backup => backup.backupArn === input.ExclusiveStartBackupArn) + 1
+            : 0
+          const page = backups.slice(start, start + limit)
+
+          return {
+            BackupSummaries: page.map(backup => ({
+              ...describeBackup(backup),
+              TableName: backup.table.tableName,
+              TableArn: backup.tableArn,
+            })),
+            LastEvaluatedBackupArn: start + limit < backups.length ? page[page.length - 1].backupArn : undefined,
+          }
+        }
+
+        case 'RestoreTableFromBackup': {
+          const backup = this.getBackup(input.BackupArn as string)
+          return { TableDescription: this.restoreTable(backup.table, input) }
+        }
+
+        case 'RestoreTableToPointInTime': {
+          const source = this.getTable(input.SourceTableName as string)
+          const enabledSince = this.pointInTimeRecovery.get(source.tableName)
+          if (!enabledSince) {
+            throw new MemoryDriverError('PointInTimeRecoveryUnavailableException', `Point in time recovery is not enabled for table '${source.tableName}'`)
+          }
+          if (input.RestoreDateTime !== undefined) {
+            const restoreTime = toDate(input.RestoreDateTime)
+            if (restoreTime < enabledSince || restoreTime > new Date()) {
+              throw new MemoryDriverError('InvalidRestoreTimeException', `Restore time ${restoreTime.toISOString()} is outside the restorable window`)
+            }
+          }
+          return { TableDescription: this.restoreTable(source, input) }
+        }
+
+        case 'UpdateContinuousBackups': {
+          const table = this.getTable(input.TableName as string)
+          const specification = input.PointInTimeRecoverySpecification as { PointInTimeRecoveryEnabled?: boolean } | undefined
+          if (specification?.PointInTimeRecoveryEnabled) {
+            if (!this.pointInTimeRecovery.has(table.tableName)) {
+              this.pointInTimeRecovery.set(table.tableName, new Date())
+            }
+          }
+          else {
+            this.pointInTimeRecovery.delete(table.tableName)
+          }
+          return { ContinuousBackupsDescription: this.describeContinuousBackups(table) }
+        }
+
+        case 'DescribeContinuousBackups':
+          return { ContinuousBackupsDescription: this.describeContinuousBackups(this.getTable(input.TableName as string)) }
+
+        default:
+          throw new MemoryDriverError('UnknownOperationException', `The memory driver does not support ${command}`)
+      }
+    })
+  }
+
+  // ---- Internal Helpers ----
+
+  private async run<T>(operation: string, tableName: string | undefined, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    }
+    catch (error) {
+      throw translateDriverError(error, { operation, tableName })
+    }
+  }
+
+  private getTable(tableName: string): MemoryTable {
+    const table = this.tables.get(tableName)
+    if (!table) {
+      throw tableNotFound()
+    }
+    return table
+  }
+
+  private getView(table: MemoryTable, indexName?: string, consistentRead?: boolean): ItemView {
+    const typeOf = (name: string): string => table.attributeDefinitions.find(a => a.attributeName === name)?.attributeType ?? 'S'
+    if (!indexName) {
+      return { hashKey: table.hashKey, hashKeyType: typeOf(table.hashKey), rangeKey: table.rangeKey }
+    }
+    const index = table.indexes.get(indexName)
+    if (!index) {
+      throw validationError(`The table does not have the specified index: ${indexName}`)
+    }
+    if (index.type === 'GSI' && consistentRead) {
+      throw validationError('Consistent reads are not supported on global secondary indexes')
+    }
+    return { hashKey: index.hashKey, hashKeyType: typeOf(index.hashKey), rangeKey: index.rangeKey, index }
+  }
+
+  /**
+   * Items visible through a view. Secondary indexes are sparse: items
+   * without all index key attributes are not part of the index.
+   */
+  private getViewItems(table: MemoryTable, view: ItemView): ExpressionItem[] {
+    const items = [...table.items.values()]
+    if (!view.index) {
+      return items
+    }
+    const { index } = view
+    return items.filter(item => index.keySchema.every(k => item[k.attributeName] !== undefined))
+  }
+
+  /**
+   * Validate a key against the table schema and build its identity
+   */
+  private resolveKey(table: MemoryTable, input: Record<string, AttributeValue>): { keyId: string, key: ExpressionItem } {
+    const names = Object.keys(input)
+    const expected = table.keySchema.map(k => k.attributeName)
+    if (names.length !== expected.length || !expected.every(name => input[name] !== undefined)) {
+      throw validationError('The provided key element does not match the schema')
+    }
+
+    const key: ExpressionItem = {}
+    for (const name of expected) {
+      const value = normalizeValue(input[name])
+      const expectedType = table.attributeDefinitions.find(a => a.attributeName === name)?.attributeType
+      if (getAttributeType(value) !== expectedType) {
+        throw validationError('The provided key element does not match the schema')
+      }
+      if (value.S === '' || value.B === '') {
+        throw validationError(`One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty string value. Key: ${name}`)
+      }
+      key[name] = value
+    }
+
+    return { keyId: serializeKey(table, key), key }
+  }
+
+  /**
+   * Normalize and validate an item for storage
+   */
+  private validateItem(table: MemoryTable, input: Record<string, AttributeValue>): ExpressionItem {
+    const item: ExpressionItem = {}
+    for (const [name, value] of Object.entries(input)) {
+      item[name] = normalizeValue(value)
+    }
+
+    for (const { attributeName } of table.keySchema) {
+      const value = item[attributeName]
+      const expectedType = table.attributeDefinitions.find(a => a.attributeName === attributeName)?.attributeType
+      if (value === undefined) {
+        throw validationError(`One or more parameter values were invalid: Missing the key ${attributeName} in the item`)
+      }
+      const actualType = getAttributeType(value)
+      if (actualType !== expectedType) {
+        throw validationError(`One or more parameter values were invalid: Type mismatch for key ${attributeName} expected: ${expectedType} actual: ${actualType}`)
+      }
+      if (value.S === '' || value.B === '') {
+        throw validationError(`One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty string value. Key: ${attributeName}`)
+      }
+    }
+
+    validateIndexKeys(table, item)
+
+    if (getItemSize(item) > MAX_ITEM_SIZE) {
+      throw validationError('Item size has exceeded the maximum allowed size')
+    }
+
+    return item
+  }
+
+  private prepareTransactAction(entry: TransactWriteItemsInput['transactItems'][number]): WriteAction {
+    const operations = [entry.put, entry.update, entry.delete, entry.conditionCheck].filter(Boolean)
+    if (operations.length !== 1) {
+      throw validationError('TransactItems can only contain one of Check, Put, Update or Delete')
+    }
+
+    if (entry.put) {
+      const { put } = entry
+      const table = this.getTable(put.tableName)
+      const context = createContext(put.expressionAttributeNames, put.expressionAttributeValues, [put.conditionExpression])
+      const condition = put.conditionExpression ? parseConditionExpression(put.conditionExpression, context) : undefined
+      context.assertAllUsed()
+      const item = this.validateItem(table, put.item)
+      const { keyId, key } = this.resolveKey(table, extractKey(table, item))
+      return { table, keyId, key, condition, apply: () => item }
+    }
+
+    if (entry.update) {
+      const { update } = entry
+      const table = this.getTable(update.tableName)
+      const context = createContext(update.expressionAttributeNames, update.expressionAttributeValues, [update.updateExpression, update.conditionExpression])
+      const parsed = parseUpdateExpression(update.updateExpression, context)
+      const condition = update.conditionExpression ? parseConditionExpression(update.conditionExpression, context) : undefined
+      context.assertAllUsed()
+      assertKeyNotUpdated(table, parsed)
+      const { keyId, key } = this.resolveKey(table, update.key)
+      return {
+        table,
+        keyId,
+        key,
+        condition,
+        apply: current => this.validateItem(table, applyUpdate(parsed, current ?? key).item),
+      }
+    }
+
+    const operation = (entry.delete ?? entry.conditionCheck)!
+    const table = this.getTable(operation.tableName)
+    const context = createContext(operation.expressionAttributeNames, operation.expressionAttributeValues, [operation.conditionExpression])
+    const condition = operation.conditionExpression ? parseConditionExpression(operation.conditionExpression, context) : undefined
+    context.assertAllUsed()
+    const { keyId, key } = this.resolveKey(table, operation.key)
+    return { table, keyId, key, condition, apply: () => entry.delete ? null : undefined }
+  }
+
+  /**
+   * Idempotency for TransactWriteItems: a repeated token with the same
+   * payload within 10 minutes succeeds without being applied again.
+   */
+  private isReplayedRequest(token: string, input: TransactWriteItemsInput): boolean {
+    const now = Date.now()
+    for (const [key, entry] of this.clientTokens) {
+      if (entry.expiresAt <= now) {
+        this.clientTokens.delete(key)
+      }
+    }
+
+    const fingerprint = JSON.stringify(input.transactItems, (_key, value) =>
+      value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value)
+    const previous = this.clientTokens.get(token)
+    if (previous) {
+      if (previous.fingerprint !== fingerprint) {
+        throw new MemoryDriverError('IdempotentParameterMismatchException', 'The request uses the same client token as a previous, but non-identical request.')
+      }
+      return true
+    }
+
+    this.clientTokens.set(token, { fingerprint, expiresAt: now + CLIENT_TOKEN_TTL_MS })
+    return false
+  }
+
+  private readPage(
+    table: MemoryTable,
+    view: ItemView,
+    entries: ExpressionItem[],
+    options: {
+      filter?: ConditionNode
+      projection?: DocumentPath[]
+      limit?: number
+      exclusiveStartKey?: Record<string, AttributeValue>
+      select?: QueryInput['select']
+      consistentRead?: boolean
+      returnConsumedCapacity?: ReturnCapacity
+      descending: boolean
+      sortForScan: boolean
+    },
+  ): QueryOutput {
+    if (options.limit !== undefined && options.limit < 1) {
+      throw validationError(`1 validation error detected: Value '${options.limit}' at 'limit' failed to satisfy constraint: Member must have value greater than or equal to 1`)
+    }
+
+    let start = 0
+    if (options.exclusiveStartKey) {
+      const startKey = this.validateStartKey(table, view, options.exclusiveStartKey)
+      const position = entries.findIndex((entry) => {
+        const order = compareByKeys(table, view, entry, startKey, options.sortForScan)
+        return options.descending ? order < 0 : order > 0
+      })
+      start = position === -1 ? entries.length : position
+    }
+
+    const items: DynamoDBItem[] = []
+    let count = 0
+    let scannedCount = 0
+    let size = 0
+    let lastEvaluated: ExpressionItem | undefined
+
+    // Limit caps the number of items evaluated, not the number returned after filtering
+    for (let i = start; i < entries.length; i++) {
+      const entry = entries[i]
+      scannedCount++
+      size += getItemSize(entry)
+
+      if (!options.filter || evaluateCondition(options.filter, entry)) {
+        count++
+        if (options.select !== 'COUNT') {
+          items.push(unmarshallItem(this.projectForView(table, view, entry, options.projection, options.select)))
+        }
+      }
+
+      const limitReached = options.limit !== undefined && scannedCount >= options.limit
+      if (limitReached || size >= MAX_PAGE_SIZE) {
+        lastEvaluated = entry
+        break
+      }
+    }
+
+    const capacity = readCapacity(table, size, options.consistentRead, options.returnConsumedCapacity, view.index)
+
+    return {
+      items,
+      count,
+      scannedCount,
+      lastEvaluatedKey: lastEvaluated ? buildLastEvaluatedKey(table, view, lastEvaluated) : undefined,
+      consumedCapacity: capacity,
+    }
+  }
+
+  private validateStartKey(table: MemoryTable, view: ItemView, input: Record<string, AttributeValue>): ExpressionItem {
+    const required = new Set(table.keySchema.map(k => k.attributeName))
+    view.index?.keySchema.forEach(k => required.add(k.attributeName))
+
+    const names = Object.keys(input)
+    if (names.length !== required.size || !names.every(name => required.has(name))) {
+      throw validationError('The provided starting key is invalid: The provided key element does not match the schema')
+    }
+
+    const key: ExpressionItem = {}
+    for (const name of names) {
+      key[name] = normalizeValue(input[name])
+    }
+    return key
+  }
+
+  private projectForView(
+    table: MemoryTable,
+    view: ItemView,
+    item: ExpressionItem,
+    projection?: DocumentPath[],
+    select?: QueryInput['select'],
+  ): ExpressionItem {
+    let visible = item
+    const index = view.index
+    if (index && index.projection.projectionType !== 'ALL') {
+      // LSIs fetch non-projected attributes from the table; GSIs cannot
+      const fetchesFromTable = index.type === 'LSI' && (projection !== undefined || select === 'ALL_ATTRIBUTES')
+      if (!fetchesFromTable) {
+        visible = applyProjection(item, getIndexAttributes(table, index).map(name => [name]))
+      }
+    }
+    return projection ? applyProjection(visible, projection) : cloneItem(visible)
+  }
+
+  private describe(table: MemoryTable): TableDescription {
+    const tableArn = this.tableArn(table.tableName)
+    const indexes = [...table.indexes.values()]
+    const gsis = indexes.filter(index => index.type === 'GSI')
+    const lsis = indexes.filter(index => index.type === 'LSI')
+
+    return {
+      tableName: table.tableName,
+      tableStatus: 'ACTIVE',
+      keySchema: table.keySchema.map(k => ({ ...k })),
+      attributeDefinitions: table.attributeDefinitions.map(a => ({ ...a })),
+      globalSecondaryIndexes: gsis.length > 0
+        ? gsis.map(index => ({
+            indexName: index.indexName,
+            keySchema: index.keySchema.map(k => ({ ...k })),
+            projection: { ...index.projection },
+            indexStatus: 'ACTIVE' as const,
+            provisionedThroughput: index.provisionedThroughput ? { ...index.provisionedThroughput } : undefined,
+          }))
+        : undefined,
+      localSecondaryIndexes: lsis.length > 0
+        ? lsis.map(index => ({
+            indexName: index.indexName,
+            keySchema: index.keySchema.map(k => ({ ...k })),
+            projection: { ...index.projection },
+          }))
+        : undefined,
+      billingModeSummary: { billingMode: table.billingMode },
+      provisionedThroughput: table.provisionedThroughput ? { ...table.provisionedThroughput } : undefined,
+      tableArn,
+      itemCount: table.items.size,
+      tableSizeBytes: [...table.items.values()].reduce((sum, item) => sum + getItemSize(item), 0),
+      creationDateTime: table.creationDateTime,
+      streamSpecification: table.streamSpecification ? { ...table.streamSpecification } : undefined,
+      tableClass: table.tableClass,
+      deletionProtectionEnabled: table.deletionProtectionEnabled,
+    }
+  }
+
+  private tableArn(tableName: string): string {
+    return `arn:aws:dynamodb:${this.options.region ?? 'us-east-1'}:000000000000:table/${tableName}`
+  }
+
+  private getBackup(backupArn: string): MemoryBackup {
+    const backup = this.backups.get(backupArn)
+    if (!backup) {
+      throw new MemoryDriverError('BackupNotFoundException', `Backup not found: ${backupArn}`)
+    }
+    return backup
+  }
+
+  private describeBackupWithSource(backup: MemoryBackup): Record<string, unknown> {
+    return {
+      BackupDetails: describeBackup(backup),
+      SourceTableDetails: {
+        TableName: backup.table.tableName,
+        TableArn: backup.tableArn,
+        ItemCount: backup.table.items.size,
+        KeySchema: backup.table.keySchema.map(k => ({ AttributeName: k.attributeName, KeyType: k.keyType })),
+        TableCreationDateTime: backup.table.creationDateTime.getTime() / 1000,
+      },
+    }
+  }
+
+  private describeContinuousBackups(table: MemoryTable): Record<string, unknown> {
+    const enabledSince = this.pointInTimeRecovery.get(table.tableName)
+    return {
+      ContinuousBackupsStatus: 'ENABLED',
+      PointInTimeRecoveryDescription: enabledSince
+        ? {
+            PointInTimeRecoveryStatus: 'ENABLED',
+            EarliestRestorableDateTime: enabledSince.getTime() / 1000,
+            LatestRestorableDateTime: Date.now() / 1000,
+          }
+        : { PointInTimeRecoveryStatus: 'DISABLED' },
+    }
+  }
+
+  /**
+   * Create the target table of a restore as a copy of the source
+   */
+  private restoreTable(source: MemoryTable, input: Record<string, unknown>): Record<string, unknown> {
+    const targetName = input.TargetTableName as string
+    if (this.tables.has(targetName)) {
+      throw new MemoryDriverError('TableAlreadyExistsException', `Table already exists: ${targetName}`)
+    }
+
+    const table = copyTable(source, targetName)
+    const throughput = input.ProvisionedThroughputOverride as { ReadCapacityUnits: number, WriteCapacityUnits: number } | undefined
+    if (input.BillingModeOverride) {
+      table.billingMode = input.BillingModeOverride as MemoryTable['billingMode']
+    }
+    if (table.billingMode === 'PAY_PER_REQUEST') {
+      table.provisionedThroughput = undefined
+    }
+    else if (throughput) {
+      table.provisionedThroughput = { readCapacityUnits: throughput.ReadCapacityUnits, writeCapacityUnits: throughput.WriteCapacityUnits }
+    }
+    validateThroughput(table.billingMode, table.provisionedThroughput)
+
+    this.tables.set(targetName, table)
+    return {
+      TableName: targetName,
+      TableArn: this.tableArn(targetName),
+      TableStatus: 'ACTIVE',
+      ItemCount: table.items.size,
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create an expression context, rejecting names/values sent without any expression
+ */
+function createContext(
+  names: Record<string, string> | undefined,
+  values: Record<string, AttributeValue> | undefined,
+  expressions: Array<string | undefined>,
+): ExpressionContext {
+  const hasExpression = expressions.some(expression => expression !== undefined)
+  if (!hasExpression && names && Object.keys(names).length > 0) {
+    throw validationError('ExpressionAttributeNames can only be specified when using expressions')
+  }
+  if (!hasExpression && values && Object.keys(values).length > 0) {
+    throw validationError('ExpressionAttributeValues can only be specified when using expressions')
+  }
+  if (names && Object.keys(names).length === 0) {
+    throw validationError('ExpressionAttributeNames must not be empty')
+  }
+  if (values && Object.keys(values).length === 0) {
+    throw validationError('ExpressionAttributeValues must not be empty')
+  }
+  return new ExpressionContext(names, values)
+}
+
+function normalizeValue(value: AttributeValue): AttributeValue {
+  const types = Object.keys(value).filter(type => (value as Record<string, unknown>)[type] !== undefined)
+  if (types.length !== 1) {
+    throw validationError('Supplied AttributeValue is empty, must contain exactly one of the supported datatypes')
+  }
+  if (value.NULL !== undefined && value.NULL !== true) {
+    throw validationError('One or more parameter values were invalid: Null attribute value types must have the value of true')
+  }
+  for (const [type, label] of [['SS', 'string'], ['NS', 'number'], ['BS', 'binary']] as const) {
+    if (value[type] !== undefined && value[type]!.length === 0) {
+      throw validationError(`One or more parameter values were invalid: An ${label} set  may not be empty`)
+    }
+  }
+
+  try {
+    const normalized = normalizeAttributeValue(value)
+    for (const child of Object.values(normalized.M ?? {})) {
+      normalizeValue(child)
+    }
+    for (const child of normalized.L ?? []) {
+      normalizeValue(child)
+    }
+    return normalized
+  }
+  catch (error) {
+    if (error instanceof ExpressionError) {
+      throw validationError(error.message)
+    }
+    throw error
+  }
+}
+
+function serializeKey(table: MemoryTable, key: ExpressionItem): string {
+  return JSON.stringify(table.keySchema.map(k => key[k.attributeName]))
+}
+
+function extractKey(table: MemoryTable, item: ExpressionItem): ExpressionItem {
+  const key: ExpressionItem = {}
+  for (const { attributeName } of table.keySchema) {
+    key[attributeName] = item[attributeName]
+  }
+  return key
+}
+
+function checkCondition(condition: ConditionNode | undefined, existing: ExpressionItem | undefined): void {
+  if (condition && !evaluateCondition(condition, existing ?? {})) {
+    throw new MemoryDriverError('ConditionalCheckFailedException', 'The conditional request failed')
+  }
+}
+
+function assertKeyNotUpdated(table: MemoryTable, update: UpdateNode): void {
+  const paths = [...update.set.map(a => a.path), ...update.remove, ...update.add.map(a => a.path), ...update.delete.map(a => a.path)]
+  for (const path of paths) {
+    const name = path[0] as string
+    if (table.keySchema.some(k => k.attributeName === name)) {
+      throw validationError(`One or more parameter values were invalid: Cannot update attribute ${name}. This attribute is part of the key`)
+    }
+  }
+}
+
+function selectReturnValues(
+  returnValues: UpdateItemInput['returnValues'],
+  oldItem: ExpressionItem | undefined,
+  newItem: ExpressionItem,
+  updatedAttributes: string[],
+): DynamoDBItem | undefined {
+  const pick = (item: ExpressionItem): DynamoDBItem | undefined => {
+    const result: ExpressionItem = {}
+    for (const name of updatedAttributes) {
+      if (item[name] !== undefined) {
+        result[name] = item[name]
+      }
+    }
+    return Object.keys(result).length > 0 ? unmarshallItem(cloneItem(result)) : undefined
+  }
+
+  switch (returnValues) {
+    case 'ALL_OLD':
+      return oldItem ? unmarshallItem(cloneItem(oldItem)) : undefined
+    case 'UPDATED_OLD':
+      return oldItem ? pick(oldItem) : undefined
+    case 'ALL_NEW':
+      return unmarshallItem(cloneItem(newItem))
+    case 'UPDATED_NEW':
+      return pick(newItem)
+    default:
+      return undefined
+  }
+}
+
+function validateKeySchema(
+  keySchema: KeySchema,
+  attributeTypes: Map<string, string>,
+  owner: string,
+): { hashKey: string, rangeKey?: string } {
+  const hash = keySchema.filter(k => k.keyType === 'HASH')
+  const range = keySchema.filter(k => k.keyType === 'RANGE')
+  if (hash.length !== 1 || range.length > 1 || keySchema.length > 2 || (keySchema.length === 2 && keySchema[0].keyType !== 'HASH')) {
+    throw validationError(`1 validation error detected: ${owner} KeySchema must contain exactly one HASH key optionally followed by one RANGE key`)
+  }
+  for (const { attributeName } of keySchema) {
+    if (!attributeTypes.has(attributeName)) {
+      throw validationError(`One or more parameter values were invalid: Some index key attributes are not defined in AttributeDefinitions. Keys: [${keySchema.map(k => k.attributeName).join(', ')}], AttributeDefinitions: [${[...attributeTypes.keys()].join(', ')}]`)
+    }
+  }
+  return { hashKey: hash[0].attributeName, rangeKey: range[0]?.attributeName }
+}
+
+function validateThroughput(
+  billingMode: 'PROVISIONED' | 'PAY_PER_REQUEST',
+  throughput: { readCapacityUnits: number, writeCapacityUnits: number } | undefined,
+): void {
+  if (billingMode === 'PAY_PER_REQUEST' && throughput) {
+    throw validationError('One or more parameter values were invalid: Neither ReadCapacityUnits nor WriteCapacityUnits can be specified when BillingMode is PAY_PER_REQUEST')
+  }
+  if (throughput && (throughput.readCapacityUnits < 1 || throughput.writeCapacityUnits < 1)) {
+    throw validationError('One or more parameter values were invalid: Each of ReadCapacityUnits and WriteCapacityUnits must be at least 1')
+  }
+}
+
+function createIndex(
+  type: 'GSI' | 'LSI',
+  indexName: string,
+  keySchema: KeySchema,
+  projection: Projection,
+  attributeTypes: Map<string, string>,
+  existing: Map<string, MemoryIndex>,
+): MemoryIndex {
+  if (existing.has(indexName)) {
+    throw validationError(`One or more parameter values were invalid: Duplicate index name: ${indexName}`)
+  }
+  const { hashKey, rangeKey } = validateKeySchema(keySchema, attributeTypes, 'Index')
+  if (projection.projectionType === 'INCLUDE' && !projection.nonKeyAttributes?.length) {
+    throw validationError('One or more parameter values were invalid: ProjectionType is INCLUDE, but NonKeyAttributes is not specified')
+  }
+  if (projection.projectionType !== 'INCLUDE' && projection.nonKeyAttributes?.length) {
+    throw validationError(`One or more parameter values were invalid: ProjectionType is ${projection.projectionType}, but NonKeyAttributes is specified`)
+  }
+  return { indexName, type, keySchema, hashKey, rangeKey, projection }
+}
+
+function validateIndexKeys(table: Pick<MemoryTable, 'indexes' | 'attributeDefinitions'>, item: ExpressionItem): void {
+  for (const index of table.indexes.values()) {
+    for (const { attributeName } of index.keySchema) {
+      const value = item[attributeName]
+      if (value === undefined) {
+        continue
+      }
+      const expectedType = table.attributeDefinitions.find(a => a.attributeName === attributeName)?.attributeType
+      const actualType = getAttributeType(value)
+      if (actualType !== expectedType) {
+        throw validationError(`One or more parameter values were invalid: Type mismatch for Index Key ${attributeName} Expected: ${expectedType} Actual: ${actualType} IndexName: ${index.indexName}`)
+      }
+      if (value.S === '' || value.B === '') {
+        throw validationError(`One or more parameter values are not valid. A value specified for a secondary index key is not supported. The AttributeValue for a key attribute cannot contain an empty string value. IndexName: ${index.indexName}, IndexKey: ${attributeName}`)
+      }
+    }
+  }
+}
+
+/**
+ * Attributes stored in an index: table keys, index keys and projected attributes
+ */
+function getIndexAttributes(table: MemoryTable, index: MemoryIndex): string[] {
+  const names = new Set([
+    ...table.keySchema.map(k => k.attributeName),
+    ...index.keySchema.map(k => k.attributeName),
+  ])
+  if (index.projection.projectionType === 'INCLUDE') {
+    index.projection.nonKeyAttributes?.forEach(name => names.add(name))
+  }
+  return [...names]
+}
+
+function validateSelect(view: ItemView, select: QueryInput['select'], projection?: DocumentPath[]): void {
+  if (select === 'SPECIFIC_ATTRIBUTES' && !projection) {
+    throw validationError('Select type SPECIFIC_ATTRIBUTES requires a ProjectionExpression')
+  }
+  if (projection && select && select !== 'SPECIFIC_ATTRIBUTES') {
+    throw validationError(`Cannot specify the ProjectionExpression when choosing to get ${select}`)
+  }
+  if (select === 'ALL_PROJECTED_ATTRIBUTES' && !view.index) {
+    throw validationError('ALL_PROJECTED_ATTRIBUTES can be used only when Querying using an IndexName')
+  }
+  if (select === 'ALL_ATTRIBUTES' && view.index?.type === 'GSI' && view.index.projection.projectionType !== 'ALL') {
+    throw validationError(`One or more parameter values were invalid: Select type ALL_ATTRIBUTES is not supported for global secondary index ${view.index.indexName} because its projection type is not ALL`)
+  }
+}
+
+/**
+ * Split a key condition into the partition key value and an optional sort key condition
+ */
+function splitKeyCondition(view: ItemView, node: ConditionNode): { hashValue: AttributeValue, rangeCondition?: ConditionNode } {
+  const parts = node.type === 'and' ? [node.left, node.right] : [node]
+  if (parts.some(part => part.type === 'and')) {
+    throw validationError('Conditions can be of length 1 or 2 only')
+  }
+  for (const part of parts) {
+    if (part.type === 'or' || part.type === 'not' || part.type === 'in') {
+      throw validationError(`Invalid operator used in KeyConditionExpression: ${part.type.toUpperCase()}`)
+    }
+    if (part.type === 'function' && part.name !== 'begins_with') {
+      throw validationError(`Invalid operator used in KeyConditionExpression: ${part.name}`)
+    }
+  }
+
+  let hashValue: AttributeValue | undefined
+  let rangeCondition: ConditionNode | undefined
+
+  for (const part of parts) {
+    const target = getKeyConditionTarget(part)
+    if (target === view.hashKey) {
+      if (part.type !== 'comparison' || part.operator !== '=' || part.right.type !== 'value' || hashValue) {
+        throw validationError('Query key condition not supported')
+      }
+      hashValue = part.right.value
+    }
+    else if (target !== undefined && target === view.rangeKey) {
+      if (rangeCondition || (part.type === 'comparison' && part.operator === '<>')) {
+        throw validationError('Query key condition not supported')
+      }
+      rangeCondition = part
+    }
+    else {
+      throw validationError(target
+        ? `Query condition missed key schema element: ${view.hashKey}`
+        : 'Invalid operator used in KeyConditionExpression')
+    }
+  }
+
+  if (!hashValue) {
+    throw validationError(`Query condition missed key schema element: ${view.hashKey}`)
+  }
+  if (getAttributeType(hashValue) !== view.hashKeyType) {
+    throw validationError('One or more parameter values were invalid: Condition parameter type does not match schema type')
+  }
+  return { hashValue, rangeCondition }
+}
+
+/**
+ * Name of the key attribute a key condition part applies to, if it has the
+ * required `attribute <op> :value` shape
+ */
+function getKeyConditionTarget(node: ConditionNode): string | undefined {
+  let target: Operand
+  let operands: Operand[]
+
+  switch (node.type) {
+    case 'comparison':
+      [target, operands] = [node.left, [node.right]]
+      break
+    case 'between':
+      [target, operands] = [node.operand, [node.lower, node.upper]]
+      break
+    case 'function':
+      [target, operands] = [node.args[0], node.args.slice(1)]
+      break
+    default:
+      return undefined
+  }
+
+  if (target.type !== 'path' || target.path.length !== 1 || !operands.every(operand => operand.type === 'value')) {
+    return undefined
+  }
+  return target.path[0] as string
+}
+
+/**
+ * Deterministic hash of a partition key value, used for scan order and segments
+ */
+function hashPartition(value: AttributeValue | undefined): number {
+  const text = JSON.stringify(value ?? null)
+  let hash = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+function compareOptional(a: AttributeValue | undefined, b: AttributeValue | undefined): number {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? -1 : 1
+  }
+  const order = compareValues(a, b)
+  return Number.isNaN(order) ? 0 : order
+}
+
+/**
+ * Order items the way a view returns them: by partition hash for scans, then
+ * by the view sort key and finally by the table key for a stable order.
+ */
+function compareByKeys(table: MemoryTable, view: ItemView, a: ExpressionItem, b: ExpressionItem, sortForScan: boolean): number {
+  if (sortForScan) {
+    const hashOrder = hashPartition(a[view.hashKey]) - hashPartition(b[view.hashKey])
+    if (hashOrder !== 0) {
+      return hashOrder
+    }
+    const partitionOrder = compareOptional(a[view.hashKey], b[view.hashKey])
+    if (partitionOrder !== 0) {
+      return partitionOrder
+    }
+  }
+
+  const keys = [view.rangeKey, table.hashKey, table.rangeKey].filter((name): name is string => Boolean(name))
+  for (const name of keys) {
+    const order = compareOptional(a[name], b[name])
+    if (order !== 0) {
+      return order
+    }
+  }
+  return 0
+}
+
+function buildLastEvaluatedKey(table: MemoryTable, view: ItemView, item: ExpressionItem): Record<string, AttributeValue> {
+  const key = extractKey(table, item)
+  for (const { attributeName } of view.index?.keySchema ?? []) {
+    key[attributeName] = item[attributeName]
+  }
+  return cloneItem(key)
+}
+
+function capacityFor(
+  table: MemoryTable,
+  units: number,
+  returnConsumedCapacity: ReturnCapacity,
+  index?: MemoryIndex,
+): ConsumedCapacity | undefined {
+  if (!returnConsumedCapacity || returnConsumedCapacity === 'NONE') {
+    return undefined
+  }
+  const capacity: ConsumedCapacity = { tableName: table.tableName, capacityUnits: units }
+  if (returnConsumedCapacity === 'INDEXES') {
+    if (index) {
+      const target = index.type === 'GSI' ? 'globalSecondaryIndexes' : 'localSecondaryIndexes'
+      capacity[target] = { [index.indexName]: { capacityUnits: units } }
+      capacity.table = { capacityUnits: 0 }
+    }
+    else {
+      capacity.table = { capacityUnits: units }
+    }
+  }
+  return capacity
+}
+
+function readCapacity(
+  table: MemoryTable,
+  size: number,
+  consistentRead: boolean | undefined,
+  returnConsumedCapacity: ReturnCapacity,
+  index?: MemoryIndex,
+): ConsumedCapacity | undefined {
+  const units = Math.max(1, Math.ceil(size / 4096)) * (consistentRead ? 1 : 0.5)
+  return capacityFor(table, units, returnConsumedCapacity, index)
+}
+
+function writeCapacity(table: MemoryTable, size: number, returnConsumedCapacity: ReturnCapacity): ConsumedCapacity | undefined {
+  return capacityFor(table, Math.max(1, Math.ceil(size / 1024)), returnConsumedCapacity)
+}
+
+function copyTable(table: MemoryTable, tableName: string): MemoryTable {
+  return {
+    ...table,
+    tableName,
+    indexes: new Map([...table.indexes].map(([name, index]) => [name, { ...index }])),
+    items: new Map([...table.items].map(([keyId, item]) => [keyId, cloneItem(item)])),
+    tags: table.tags.map(t => ({ ...t })),
+    creationDateTime: new Date(),
+  }
+}
+
+function describeBackup(backup: MemoryBackup): Record<string, unknown> {
+  return {
+    BackupArn: backup.backupArn,
+    BackupName: backup.backupName,
+    BackupSizeBytes: [...backup.table.items.values()].reduce((sum, item) => sum + getItemSize(item), 0),
+    BackupStatus: 'AVAILABLE',
+    BackupType: 'USER',
+    BackupCreationDateTime: backup.creationDateTime.getTime() / 1000,
+  }
+}
+
+/**
+ * Read a timestamp sent as a `Date` or as epoch seconds
+ */
+function toDate(value: unknown): Date {
+  return value instanceof Date ? value : new Date(Number(value) * 1000)
+}
+
+/**
+ * Create an in-memory driver instance
+ */
+export function createMemoryDriver(options?: DriverConnectionOptions): DriverPlugin {
+  return new MemoryDriver(options)
+}
@@ -0,0 +1,559 @@
+// ============================================================================
+// AWS Credential Provider Chain
+// ============================================================================
+
+import type { AwsCredentialIdentity, CredentialProvider } from './types'
+import { exec } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import process from 'node:process'
+import { promisify } from 'node:util'
+import { signRequest } from './signing'
+
+const execAsync = promisify(exec)
+
+/**
+ * Default margin before expiration at which cached credentials are refreshed
+ */
+const DEFAULT_EXPIRATION_MARGIN_MS = 5 * 60 * 1000
+
+/**
+ * Error thrown when a provider cannot supply credentials.
+ * `tryNextLink` tells the chain whether the next provider should be attempted.
+ */
+export class CredentialsProviderError extends Error {
+  readonly tryNextLink: boolean
+
+  constructor(message: string, tryNextLink: boolean = true) {
+    super(message)
+    this.name = 'CredentialsProviderError'
+    this.tryNextLink = tryNextLink
+  }
+}
+
+/**
+ * Parameters for an STS AssumeRole call
+ */
+export interface AssumeRoleParams {
+  roleArn: string
+  roleSessionName: string
+  externalId?: string
+  durationSeconds?: number
+  region: string
+}
+
+/**
+ * Parameters for an STS AssumeRoleWithWebIdentity call
+ */
+export interface AssumeRoleWithWebIdentityParams {
+  roleArn: string
+  roleSessionName: string
+  webIdentityToken: string
+  durationSeconds?: number
+  region: string
+}
+
+/**
+ * Exchanges source credentials for role credentials
+ */
+export type RoleAssumer = (_source: AwsCredentialIdentity, _params: AssumeRoleParams) => Promise<AwsCredentialIdentity>
+
+/**
+ * Exchanges a web identity token for role credentials
+ */
+export type WebIdentityRoleAssumer = (_params: AssumeRoleWithWebIdentityParams) => Promise<AwsCredentialIdentity>
+
+/**
+ * Options shared by the file and environment based providers
+ */
+export interface CredentialProviderOptions {
+  /** Profile name (defaults to AWS_PROFILE, then 'default') */
+  profile?: string
+  /** Region used for STS calls */
+  region?: string
+  /** Environment to read from (defaults to process.env) */
+  env?: Record<string, string | undefined>
+  /** Path to the shared credentials file (defaults to ~/.aws/credentials) */
+  credentialsFile?: string
+  /** Path to the shared config file (defaults to ~/.aws/config) */
+  configFile?: string
+  /** Custom STS AssumeRole implementation */
+  roleAssumer?: RoleAssumer
+  /** Custom STS AssumeRoleWithWebIdentity implementation */
+  webIdentityRoleAssumer?: WebIdentityRoleAssumer
+  /** Refresh cached credentials this long before they expire */
+  expirationMarginMs?: number
+}
+
+/**
+ * Options for the default credential provider chain
+ */
+export interface CredentialProviderChainOptions extends CredentialProviderOptions {
+  /** Explicit credentials, checked first */
+  credentials?: AwsCredentialIdentity
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Provide a fixed set of credentials
+ */
+export function fromStatic(credentials: AwsCredentialIdentity | undefined): CredentialProvider {
+  return async () => {
+    if (!credentials?.accessKeyId || !credentials.secretAccessKey) {
+      throw new CredentialsProviderError('No explicit credentials configured')
+    }
+    return credentials
+  }
+}
+
+/**
+ * Read credentials from the AWS_* environment variables
+ */
+export function fromEnv(options: Pick<CredentialProviderOptions, 'env'> = {}): CredentialProvider {
+  return async () => {
+    const env = options.env ?? process.env
+    const accessKeyId = env.AWS_ACCESS_KEY_ID
+    const secretAccessKey = env.AWS_SECRET_ACCESS_KEY
+
+    if (!accessKeyId || !secretAccessKey) {
+      throw new CredentialsProviderError('AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are not set')
+    }
+
+    return {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: env.AWS_SESSION_TOKEN || undefined,
+      expiration: env.AWS_CREDENTIAL_EXPIRATION ? new Date(env.AWS_CREDENTIAL_EXPIRATION) : undefined,
+    }
+  }
+}
+
+/**
+ * Read credentials from the shared `~/.aws/credentials` and `~/.aws/config` files.
+ * Supports static keys, `credential_process`, `role_arn` with `source_profile`
+ * or `credential_source = Environment`, and `web_identity_token_file`.
+ */
+export function fromIni(options: CredentialProviderOptions = {}): CredentialProvider {
+  return async () => {
+    const env = options.env ?? process.env
+    const profileName = options.profile ?? env.AWS_PROFILE ?? 'default'
+    const profiles = loadSharedProfiles(options)
+
+    if (!profiles[profileName]) {
+      throw new CredentialsProviderError(`Profile "${profileName}" not found in shared credentials or config files`)
+    }
+
+    return resolveProfile(profileName, profiles, options, new Set())
+  }
+}
+
+/**
+ * Run an external `credential_process` command and parse its JSON output
+ */
+export function fromProcess(command: string): CredentialProvider {
+  return async () => {
+    let stdout: string
+    try {
+      const result = await execAsync(command, { encoding: 'utf8' })
+      stdout = result.stdout
+    }
+    catch (error) {
+      throw new CredentialsProviderError(
+        `credential_process "${command}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        false,
+      )
+    }
+
+    let data: {
+      Version?: number
+      AccessKeyId?: string
+      SecretAccessKey?: string
+      SessionToken?: string
+      Expiration?: string
+    }
+    try {
+      data = JSON.parse(stdout)
+    }
+    catch {
+      throw new CredentialsProviderError(`credential_process "${command}" returned invalid JSON`, false)
+    }
+
+    if (data.Version !== 1) {
+      throw new CredentialsProviderError(`credential_process "${command}" returned unsupported Version ${data.Version}`, false)
+    }
+    if (!data.AccessKeyId || !data.SecretAccessKey) {
+      throw new CredentialsProviderError(`credential_process "${command}" did not return AccessKeyId and SecretAccessKey`, false)
+    }
+
+    return {
+      accessKeyId: data.AccessKeyId,
+      secretAccessKey: data.SecretAccessKey,
+      sessionToken: data.SessionToken,
+      expiration: data.Expiration ? new Date(data.Expiration) : undefined,
+    }
+  }
+}
+
+/**
+ * Exchange a web identity token file (e.g. EKS service account tokens) for role credentials
+ * using AWS_WEB_IDENTITY_TOKEN_FILE, AWS_ROLE_ARN and AWS_ROLE_SESSION_NAME.
+ */
+export function fromTokenFile(
+  options: CredentialProviderOptions & { webIdentityTokenFile?: string, roleArn?: string, roleSessionName?: string } = {},
+): CredentialProvider {
+  return async () => {
+    const env = options.env ?? process.env
+    const tokenFile = options.webIdentityTokenFile ?? env.AWS_WEB_IDENTITY_TOKEN_FILE
+    const roleArn = options.roleArn ?? env.AWS_ROLE_ARN
+
+    if (!tokenFile || !roleArn) {
+      throw new CredentialsProviderError('AWS_WEB_IDENTITY_TOKEN_FILE and AWS_ROLE_ARN are not set')
+    }
+
+    let webIdentityToken: string
+    try {
+      webIdentityToken = (await fs.promises.readFile(tokenFile, 'utf8')).trim()
+    }
+    catch {
+      throw new CredentialsProviderError(`Unable to read web identity token file: ${tokenFile}`, false)
+    }
+
+    const assume = options.webIdentityRoleAssumer ?? assumeRoleWithWebIdentity
+    return assume({
+      roleArn,
+      roleSessionName: options.roleSessionName ?? env.AWS_ROLE_SESSION_NAME ?? `dynamodb-tooling-${Date.now()}`,
+      webIdentityToken,
+      region: resolveRegion(options),
+    })
+  }
+}
+
+/**
+ * Try each provider in order, returning the first credentials found
+ */
+export function chain(...providers: CredentialProvider[]): CredentialProvider {
+  return async () => {
+    const failures: string[] = []
+
+    for (const provider of providers) {
+      try {
+        return await provider()
+      }
+      catch (error) {
+        if (error instanceof CredentialsProviderError && error.tryNextLink) {
+          failures.push(error.message)
+          continue
+        }
+        throw error
+      }
+    }
+
+    throw new CredentialsProviderError(
+      `Could not load AWS credentials from any provider:\n${failures.map(f => `  - ${f}`).join('\n')}`,
+      false,
+    )
+  }
+}
+
+/**
+ * Cache credentials and refresh them shortly before they expire.
+ * Concurrent callers share a single in-flight resolution.
+ */
+export function memoize(
+  provider: CredentialProvider,
+  options: { expirationMarginMs?: number } = {},
+): CredentialProvider {
+  const margin = options.expirationMarginMs ?? DEFAULT_EXPIRATION_MARGIN_MS
+  let cached: AwsCredentialIdentity | undefined
+  let pending: Promise<AwsCredentialIdentity> | undefined
+
+  const isFresh = (credentials: AwsCredentialIdentity): boolean =>
+    !credentials.expiration || credentials.expiration.getTime() - margin > Date.now()
+
+  return async () => {
+    if (cached && isFresh(cached)) {
+      return cached
+    }
+
+    if (!pending) {
+      pending = provider()
+        .then((credentials) => {
+          cached = credentials
+          return credentials
+        })
+        .finally(() => {
+          pending = undefined
+        })
+    }
+
+    return pending
+  }
+}
+
+/**
+ * Create the default credential provider chain:
+ * explicit credentials, environment variables, shared profile files, web identity token file.
+ *
+ * @example
+ * ```typescript
+ * const provider = createCredentialProviderChain({ profile: 'staging', region: 'eu-west-1' })
+ * const { accessKeyId } = await provider()
+ * ```
+ */
+export function createCredentialProviderChain(options: CredentialProviderChainOptions = {}): CredentialProvider {
+  const providers: CredentialProvider[] = [fromStatic(options.credentials)]
+
+  // An explicitly requested profile takes precedence over environment keys
+  if (!options.profile) {
+    providers.push(fromEnv(options))
+  }
+  providers.push(fromIni(options), fromTokenFile(options))
+
+  return memoize(chain(...providers), { expirationMarginMs: options.expirationMarginMs })
+}
+
+// ============================================================================
+// Shared Config Files
+// ============================================================================
+
+type ProfileSection = Record<string, string>
+
+/**
+ * Parse an INI file into sections of key/value pairs
+ */
+export function parseIni(content: string): Record<string, ProfileSection> {
+  const sections: Record<string, ProfileSection> = {}
+  let current: ProfileSection | null = null
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/^\s*[#;].*$/, '').trim()
+    if (!line) {
+      continue
+    }
+
+    const sectionMatch = line.match(/^\[([^\]]+)\]$/)
+    if (sectionMatch) {
+      const name = sectionMatch[1].trim()
+      current = sections[name] ?? (sections[name] = {})
+      continue
+    }
+
+    const eq = line.indexOf('=')
+    if (eq > 0 && current) {
+      const key = line.slice(0, eq).trim().toLowerCase()
+      const value = line.slice(eq + 1).trim()
+      current[key] = value
+    }
+  }
+
+  return sections
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath
+}
+
+function readIniFile(filePath: string): Record<string, ProfileSection> {
+  try {
+    return parseIni(fs.readFileSync(expandHome(filePath), 'utf8'))
+  }
+  catch {
+    return {}
+  }
+}
+
+/**
+ * Load and merge profiles from the shared credentials and config files.
+ * Values from the credentials file take precedence.
+ */
+function loadSharedProfiles(options: CredentialProviderOptions): Record<string, ProfileSection> {
+  const env = options.env ?? process.env
+  const credentialsFile = options.credentialsFile ?? env.AWS_SHARED_CREDENTIALS_FILE ?? path.join(os.homedir(), '.aws', 'credentials')
+  const configFile = options.configFile ?? env.AWS_CONFIG_FILE ?? path.join(os.homedir(), '.aws', 'config')
+
+  const profiles: Record<string, ProfileSection> = {}
+
+  for (const [section, values] of Object.entries(readIniFile(configFile))) {
+    const name = section === 'default' ? 'default' : section.replace(/^profile\s+/, '')
+    if (section !== 'default' && !section.startsWith('profile ')) {
+      continue
+    }
+    profiles[name] = { ...profiles[name], ...values }
+  }
+
+  for (const [name, values] of Object.entries(readIniFile(credentialsFile))) {
+    profiles[name] = { ...profiles[name], ...values }
+  }
+
+  return profiles
+}
+
+async function resolveProfile(
+  name: string,
+  profiles: Record<string, ProfileSection>,
+  options: CredentialProviderOptions,
+  visited: Set<string>,
+): Promise<AwsCredentialIdentity> {
+  const profile = profiles[name]
+  if (!profile) {
+    throw new CredentialsProviderError(`Profile "${name}" not found`, false)
+  }
+
+  const staticCredentials = getStaticProfileCredentials(profile)
+
+  if (profile.role_arn && !visited.has(name)) {
+    visited.add(name)
+    const region = profile.region ?? resolveRegion(options)
+
+    if (profile.web_identity_token_file) {
+      return fromTokenFile({
+        ...options,
+        region,
+        webIdentityTokenFile: profile.web_identity_token_file,
+        roleArn: profile.role_arn,
+        roleSessionName: profile.role_session_name,
+      })()
+    }
+
+    let source: AwsCredentialIdentity
+    if (profile.source_profile) {
+      if (profile.source_profile !== name && visited.has(profile.source_profile)) {
+        throw new CredentialsProviderError(`Circular source_profile reference detected at profile "${name}"`, false)
+      }
+      source = profile.source_profile === name && staticCredentials
+        ? staticCredentials
+        : await resolveProfile(profile.source_profile, profiles, options, visited)
+    }
+    else if (profile.credential_source === 'Environment') {
+      source = await fromEnv(options)()
+    }
+    else {
+      throw new CredentialsProviderError(
+        `Profile "${name}" has role_arn but no source_profile, credential_source or web_identity_token_file`,
+        false,
+      )
+    }
+
+    const assume = options.roleAssumer ?? assumeRole
+    return assume(source, {
+      roleArn: profile.role_arn,
+      roleSessionName: profile.role_session_name ?? `dynamodb-tooling-${Date.now()}`,
+      externalId: profile.external_id,
+      durationSeconds: profile.duration_seconds ? Number(profile.duration_seconds) : undefined,
+      region,
+    })
+  }
+
+  if (staticCredentials) {
+    return staticCredentials
+  }
+
+  if (profile.credential_process) {
+    return fromProcess(profile.credential_process)()
+  }
+
+  throw new CredentialsProviderError(`Profile "${name}" does not contain usable credentials`, false)
+}
+
+function getStaticProfileCredentials(profile: ProfileSection): AwsCredentialIdentity | undefined {
+  if (!profile.aws_access_key_id || !profile.aws_secret_access_key) {
+    return undefined
+  }
+  return {
+    accessKeyId: profile.aws_access_key_id,
+    secretAccessKey: profile.aws_secret_access_key,
+    sessionToken: profile.aws_session_token,
+  }
+}
+
+function resolveRegion(options: CredentialProviderOptions): string {
+  const env = options.env ?? process.env
+  return options.region ?? env.AWS_REGION ?? env.AWS_DEFAULT_REGION ?? 'us-east-1'
+}
+
+// ============================================================================
+// STS
+// ============================================================================
+
+/**
+ * Call STS AssumeRole with the given source credentials
+ */
+export async function assumeRole(source: AwsCredentialIdentity, params: AssumeRoleParams): Promise<AwsCredentialIdentity> {
+  const query: Record<string, string> = {
+    Action: 'AssumeRole',
+    Version: '2011-06-15',
+    RoleArn: params.roleArn,
+    RoleSessionName: params.roleSessionName,
+  }
+  if (params.externalId)
+    query.ExternalId = params.externalId
+  if (params.durationSeconds)
+    query.DurationSeconds = String(params.durationSeconds)
+
+  return stsRequest(query, params.region, source)
+}
+
+/**
+ * Call STS AssumeRoleWithWebIdentity (an unsigned request)
+ */
+export async function assumeRoleWithWebIdentity(params: AssumeRoleWithWebIdentityParams): Promise<AwsCredentialIdentity> {
+  const query: Record<string, string> = {
+    Action: 'AssumeRoleWithWebIdentity',
+    Version: '2011-06-15',
+    RoleArn: params.roleArn,
+    RoleSessionName: params.roleSessionName,
+    WebIdentityToken: params.webIdentityToken,
+  }
+  if (params.durationSeconds)
+    query.DurationSeconds = String(params.durationSeconds)
+
+  return stsRequest(query, params.region)
+}
+
+async function stsRequest(
+  query: Record<string, string>,
+  region: string,
+  credentials?: AwsCredentialIdentity,
+): Promise<AwsCredentialIdentity> {
+  let request = new Request(`https://sts.${region}.amazonaws.com/`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8' },
+    body: new URLSearchParams(query).toString(),
+  })
+
+  if (credentials) {
+    request = await signRequest(request, credentials, region, 'sts')
+  }
+
+  const response = await fetch(request)
+  const body = await response.text()
+
+  if (!response.ok) {
+    const code = extractXmlTag(body, 'Code') ?? response.status
+    const message = extractXmlTag(body, 'Message') ?? response.statusText
+    throw new CredentialsProviderError(`STS ${query.Action} failed: ${code} ${message}`, false)
+  }
+
+  const accessKeyId = extractXmlTag(body, 'AccessKeyId')
+  const secretAccessKey = extractXmlTag(body, 'SecretAccessKey')
+  if (!accessKeyId || !secretAccessKey) {
+    throw new CredentialsProviderError(`STS ${query.Action} returned no credentials`, false)
+  }
+
+  const expiration = extractXmlTag(body, 'Expiration')
+  return {
+    accessKeyId,
+    secretAccessKey,
+    sessionToken: extractXmlTag(body, 'SessionToken'),
+    expiration: expiration ? new Date(expiration) : undefined,
+  }
+}
+
+function extractXmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))
+  return match?.[1]
+}
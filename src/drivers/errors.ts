@@ -0,0 +1,139 @@
+// ============================================================================
+// Driver Error Translation
+// ============================================================================
+
+import type { DynamoDBError, DynamoDBErrorContext, TransactionCancellationReason } from '../types/errors'
+import { createDynamoDBError, DynamoDBErrorBase } from '../types/errors'
+
+/**
+ * Error fields parsed from a DynamoDB JSON error response
+ */
+export interface WireErrorDetails {
+  /** Exception name with the service namespace stripped, e.g. `ConditionalCheckFailedException` */
+  type: string
+  message: string
+  cancellationReasons?: TransactionCancellationReason[]
+}
+
+/**
+ * Parse a DynamoDB error response body.
+ *
+ * `__type` arrives namespaced (`com.amazonaws.dynamodb.v20120810#ResourceNotFoundException`)
+ * and the message key may be `message` or `Message` depending on the exception.
+ */
+export function parseWireError(body: string): WireErrorDetails {
+  let parsed: {
+    __type?: string
+    message?: string
+    Message?: string
+    CancellationReasons?: TransactionCancellationReason[]
+  } = {}
+
+  try {
+    const json = JSON.parse(body)
+    if (json && typeof json === 'object') {
+      parsed = json
+    }
+  }
+  catch {
+    // Not JSON (e.g. a proxy error page) - fall back to the raw body
+  }
+
+  const type = parsed.__type ?? ''
+  return {
+    type: type.slice(type.lastIndexOf('#') + 1),
+    message: parsed.message ?? parsed.Message ?? body.trim(),
+    cancellationReasons: parsed.CancellationReasons,
+  }
+}
+
+/**
+ * Find the table a request targets, if it targets exactly one
+ */
+export function getRequestTableName(params: Record<string, unknown>): string | undefined {
+  if (typeof params.TableName === 'string') {
+    return params.TableName
+  }
+
+  const tables = new Set<string>()
+  if (params.RequestItems && typeof params.RequestItems === 'object') {
+    for (const table of Object.keys(params.RequestItems)) {
+      tables.add(table)
+    }
+  }
+  if (Array.isArray(params.TransactItems)) {
+    for (const item of params.TransactItems as Array<Record<string, { TableName?: string } | undefined>>) {
+      for (const operation of Object.values(item)) {
+        if (operation?.TableName) {
+          tables.add(operation.TableName)
+        }
+      }
+    }
+  }
+
+  return tables.size === 1 ? [...tables][0] : undefined
+}
+
+/**
+ * Translate a failed HTTP response into the matching typed error
+ *
+ * @example
+ * ```typescript
+ * if (!response.ok) {
+ *   throw translateWireError(await response.text(), {
+ *     operation: 'PutItem',
+ *     tableName: 'Users',
+ *     statusCode: response.status,
+ *     requestId: response.headers.get('x-amzn-requestid') ?? undefined,
+ *   })
+ * }
+ * ```
+ */
+export function translateWireError(
+  body: string,
+  context: DynamoDBErrorContext & { statusCode?: number },
+): DynamoDBError {
+  const { statusCode, ...errorContext } = context
+  const details = parseWireError(body)
+
+  return createDynamoDBError({
+    code: details.type,
+    message: details.message || `DynamoDB ${context.operation ?? 'request'} failed with status ${statusCode ?? 'unknown'}`,
+    CancellationReasons: details.cancellationReasons,
+    $metadata: { httpStatusCode: statusCode, requestId: context.requestId },
+  }, errorContext)
+}
+
+/**
+ * Translate an error thrown inside a driver into the matching typed error.
+ *
+ * Typed errors get the context attached. Errors named after an AWS exception
+ * (`name` equal to `code`, as the memory driver throws, or AWS SDK service
+ * exceptions carrying `$metadata`) are converted. Anything else is returned unchanged.
+ */
+export function translateDriverError(error: unknown, context: DynamoDBErrorContext): unknown {
+  if (error instanceof DynamoDBErrorBase) {
+    return error.withContext(context)
+  }
+
+  if (!(error instanceof Error)) {
+    return error
+  }
+
+  const raised = error as Error & {
+    code?: unknown
+    cancellationReasons?: TransactionCancellationReason[]
+    CancellationReasons?: TransactionCancellationReason[]
+    $metadata?: { httpStatusCode?: number, requestId?: string }
+  }
+  if (raised.code !== error.name && !raised.$metadata) {
+    return error
+  }
+
+  return createDynamoDBError({
+    code: error.name,
+    message: error.message,
+    CancellationReasons: raised.cancellationReasons ?? raised.CancellationReasons,
+    $metadata: raised.$metadata,
+  }, context)
+}
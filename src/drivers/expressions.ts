@@ -0,0 +1,1157 @@
+// ============================================================================
+// DynamoDB Expression Engine - Parse and evaluate expressions in-process
+// ============================================================================
+
+import type { AttributeValue } from './types'
+import { isReservedWord } from './utils'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Item in wire format
+ */
+export type ExpressionItem = Record<string, AttributeValue>
+
+/**
+ * Element of a document path: attribute name or list index
+ */
+export type PathElement = string | number
+
+/**
+ * Document path such as `a.b[2].c`
+ */
+export type DocumentPath = PathElement[]
+
+/**
+ * Operand of a condition or update expression
+ */
+export type Operand =
+  | { type: 'path', path: DocumentPath }
+  | { type: 'value', value: AttributeValue, ref: string }
+  | { type: 'size', path: DocumentPath }
+  | { type: 'if_not_exists', path: DocumentPath, fallback: Operand }
+  | { type: 'list_append', left: Operand, right: Operand }
+  | { type: 'arithmetic', operator: '+' | '-', left: Operand, right: Operand }
+
+/**
+ * Comparison operators
+ */
+export type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>='
+
+/**
+ * Functions usable in condition expressions
+ */
+export type ConditionFunctionName = 'attribute_exists' | 'attribute_not_exists' | 'attribute_type' | 'begins_with' | 'contains'
+
+/**
+ * Parsed condition / filter / key condition expression
+ */
+export type ConditionNode =
+  | { type: 'comparison', operator: Comparator, left: Operand, right: Operand }
+  | { type: 'between', operand: Operand, lower: Operand, upper: Operand }
+  | { type: 'in', operand: Operand, candidates: Operand[] }
+  | { type: 'function', name: ConditionFunctionName, args: Operand[] }
+  | { type: 'and' | 'or', left: ConditionNode, right: ConditionNode }
+  | { type: 'not', operand: ConditionNode }
+
+/**
+ * Parsed update expression
+ */
+export interface UpdateNode {
+  set: Array<{ path: DocumentPath, value: Operand }>
+  remove: DocumentPath[]
+  add: Array<{ path: DocumentPath, value: AttributeValue }>
+  delete: Array<{ path: DocumentPath, value: AttributeValue }>
+}
+
+/**
+ * Expression kinds, used in error messages the same way DynamoDB does
+ */
+export type ExpressionKind =
+  | 'KeyConditionExpression'
+  | 'ConditionExpression'
+  | 'FilterExpression'
+  | 'UpdateExpression'
+  | 'ProjectionExpression'
+
+/**
+ * Error raised for invalid expressions (maps to `ValidationException`)
+ */
+export class ExpressionError extends Error {
+  readonly code = 'ValidationException'
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationException'
+  }
+}
+
+// ============================================================================
+// Expression Context
+// ============================================================================
+
+/**
+ * Resolves `#name` / `:value` placeholders for all expressions of one request
+ * and tracks which ones were used, like DynamoDB does.
+ */
+export class ExpressionContext {
+  private usedNames = new Set<string>()
+  private usedValues = new Set<string>()
+
+  constructor(
+    private names: Record<string, string> = {},
+    private values: Record<string, AttributeValue> = {},
+  ) {}
+
+  resolveName(placeholder: string): string {
+    const name = this.names[placeholder]
+    if (name === undefined) {
+      throw new ExpressionError(`An expression attribute name used in the document path is not defined; attribute name: ${placeholder}`)
+    }
+    this.usedNames.add(placeholder)
+    return name
+  }
+
+  resolveValue(placeholder: string): AttributeValue {
+    const value = this.values[placeholder]
+    if (value === undefined) {
+      throw new ExpressionError(`An expression attribute value used in expression is not defined; attribute value: ${placeholder}`)
+    }
+    this.usedValues.add(placeholder)
+    return normalizeAttributeValue(value)
+  }
+
+  /**
+   * Throw if any supplied name or value was not referenced by an expression
+   */
+  assertAllUsed(): void {
+    const unusedNames = Object.keys(this.names).filter(n => !this.usedNames.has(n))
+    if (unusedNames.length > 0) {
+      throw new ExpressionError(`Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(', ')}}`)
+    }
+    const unusedValues = Object.keys(this.values).filter(v => !this.usedValues.has(v))
+    if (unusedValues.length > 0) {
+      throw new ExpressionError(`Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(', ')}}`)
+    }
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'identifier' | 'name' | 'value' | 'number' | 'symbol' | 'eof'
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+}
+
+const TWO_CHAR_SYMBOLS = new Set(['<>', '<=', '>='])
+const ONE_CHAR_SYMBOLS = new Set(['=', '<', '>', '(', ')', '[', ']', ',', '.', '+', '-'])
+
+function tokenize(expression: string, kind: ExpressionKind): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expression.length) {
+    const ch = expression[i]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if (ch === '#' || ch === ':') {
+      let j = i + 1
+      while (j < expression.length && /\w/.test(expression[j])) j++
+      if (j === i + 1) {
+        throw syntaxError(kind, expression, ch, i)
+      }
+      tokens.push({ type: ch === '#' ? 'name' : 'value', text: expression.slice(i, j), position: i })
+      i = j
+      continue
+    }
+
+    if (/[A-Z_]/i.test(ch)) {
+      let j = i + 1
+      while (j < expression.length && /\w/.test(expression[j])) j++
+      tokens.push({ type: 'identifier', text: expression.slice(i, j), position: i })
+      i = j
+      continue
+    }
+
+    if (/\d/.test(ch)) {
+      let j = i + 1
+      while (j < expression.length && /\d/.test(expression[j])) j++
+      tokens.push({ type: 'number', text: expression.slice(i, j), position: i })
+      i = j
+      continue
+    }
+
+    const pair = expression.slice(i, i + 2)
+    if (TWO_CHAR_SYMBOLS.has(pair)) {
+      tokens.push({ type: 'symbol', text: pair, position: i })
+      i += 2
+      continue
+    }
+
+    if (ONE_CHAR_SYMBOLS.has(ch)) {
+      tokens.push({ type: 'symbol', text: ch, position: i })
+      i++
+      continue
+    }
+
+    throw syntaxError(kind, expression, ch, i)
+  }
+
+  tokens.push({ type: 'eof', text: '<EOF>', position: expression.length })
+  return tokens
+}
+
+function syntaxError(kind: ExpressionKind, expression: string, token: string, position: number): ExpressionError {
+  const near = expression.slice(Math.max(0, position - 8), position + token.length + 8).trim()
+  return new ExpressionError(`Invalid ${kind}: Syntax error; token: "${token}", near: "${near}"`)
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+const CONDITION_FUNCTIONS = new Set<string>(['attribute_exists', 'attribute_not_exists', 'attribute_type', 'begins_with', 'contains'])
+const ATTRIBUTE_TYPES = new Set(['S', 'SS', 'N', 'NS', 'B', 'BS', 'BOOL', 'NULL', 'L', 'M'])
+const MAX_IN_OPERANDS = 100
+
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(
+    private expression: string,
+    private kind: ExpressionKind,
+    private context: ExpressionContext,
+  ) {
+    if (expression.trim() === '') {
+      throw new ExpressionError(`Invalid ${kind}: The expression can not be empty;`)
+    }
+    this.tokens = tokenize(expression, kind)
+  }
+
+  // ---- Token helpers ----
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    this.index++
+    return token
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.type === 'identifier' && token.text.toUpperCase() === keyword
+  }
+
+  private isSymbol(token: Token, symbol: string): boolean {
+    return token.type === 'symbol' && token.text === symbol
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.next()
+    if (!this.isSymbol(token, symbol)) {
+      throw this.unexpected(token)
+    }
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    return syntaxError(this.kind, this.expression, token.text, token.position)
+  }
+
+  expectEnd(): void {
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw this.unexpected(token)
+    }
+  }
+
+  // ---- Paths and operands ----
+
+  parsePath(): DocumentPath {
+    const path: DocumentPath = [this.parsePathName()]
+
+    while (true) {
+      const token = this.peek()
+      if (this.isSymbol(token, '.')) {
+        this.next()
+        path.push(this.parsePathName())
+      }
+      else if (this.isSymbol(token, '[')) {
+        this.next()
+        const indexToken = this.next()
+        if (indexToken.type !== 'number') {
+          throw this.unexpected(indexToken)
+        }
+        this.expectSymbol(']')
+        path.push(Number(indexToken.text))
+      }
+      else {
+        return path
+      }
+    }
+  }
+
+  private parsePathName(): string {
+    const token = this.next()
+    if (token.type === 'name') {
+      return this.context.resolveName(token.text)
+    }
+    if (token.type === 'identifier') {
+      if (isReservedWord(token.text)) {
+        throw new ExpressionError(`Invalid ${this.kind}: Attribute name is a reserved keyword; reserved keyword: ${token.text}`)
+      }
+      return token.text
+    }
+    throw this.unexpected(token)
+  }
+
+  private parseValue(): Operand {
+    const token = this.next()
+    if (token.type !== 'value') {
+      throw this.unexpected(token)
+    }
+    return { type: 'value', value: this.context.resolveValue(token.text), ref: token.text }
+  }
+
+  private parseConditionOperand(): Operand {
+    const token = this.peek()
+    if (token.type === 'value') {
+      return this.parseValue()
+    }
+    if (token.type === 'identifier' && token.text === 'size' && this.isSymbol(this.peek(1), '(')) {
+      this.next()
+      this.next()
+      const path = this.parsePath()
+      this.expectSymbol(')')
+      return { type: 'size', path }
+    }
+    return { type: 'path', path: this.parsePath() }
+  }
+
+  // ---- Conditions ----
+
+  parseCondition(): ConditionNode {
+    let left = this.parseAnd()
+    while (this.isKeyword(this.peek(), 'OR')) {
+      this.next()
+      left = { type: 'or', left, right: this.parseAnd() }
+    }
+    return left
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot()
+    while (this.isKeyword(this.peek(), 'AND')) {
+      this.next()
+      left = { type: 'and', left, right: this.parseNot() }
+    }
+    return left
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword(this.peek(), 'NOT')) {
+      this.next()
+      return { type: 'not', operand: this.parseNot() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek()
+
+    if (this.isSymbol(token, '(')) {
+      this.next()
+      const inner = this.parseCondition()
+      this.expectSymbol(')')
+      return inner
+    }
+
+    if (token.type === 'identifier' && CONDITION_FUNCTIONS.has(token.text) && this.isSymbol(this.peek(1), '(')) {
+      return this.parseFunction()
+    }
+
+    const operand = this.parseConditionOperand()
+    const next = this.peek()
+
+    if (this.isKeyword(next, 'BETWEEN')) {
+      this.next()
+      const lower = this.parseConditionOperand()
+      if (!this.isKeyword(this.peek(), 'AND')) {
+        throw this.unexpected(this.peek())
+      }
+      this.next()
+      const upper = this.parseConditionOperand()
+      if (lower.type === 'value' && upper.type === 'value' && compareValues(lower.value, upper.value) > 0) {
+        throw new ExpressionError(`Invalid ${this.kind}: The BETWEEN operator requires upper bound to be greater than or equal to lower bound; lower bound operand: AttributeValue: ${describeValue(lower.value)}, upper bound operand: AttributeValue: ${describeValue(upper.value)}`)
+      }
+      return { type: 'between', operand, lower, upper }
+    }
+
+    if (this.isKeyword(next, 'IN')) {
+      this.next()
+      this.expectSymbol('(')
+      const candidates: Operand[] = [this.parseConditionOperand()]
+      while (this.isSymbol(this.peek(), ',')) {
+        this.next()
+        candidates.push(this.parseConditionOperand())
+      }
+      this.expectSymbol(')')
+      if (candidates.length > MAX_IN_OPERANDS) {
+        throw new ExpressionError(`Invalid ${this.kind}: The IN operator is provided with too many operands; number of operands: ${candidates.length}`)
+      }
+      return { type: 'in', operand, candidates }
+    }
+
+    if (next.type === 'symbol' && ['=', '<>', '<', '<=', '>', '>='].includes(next.text)) {
+      this.next()
+      return { type: 'comparison', operator: next.text as Comparator, left: operand, right: this.parseConditionOperand() }
+    }
+
+    throw this.unexpected(next)
+  }
+
+  private parseFunction(): ConditionNode {
+    const name = this.next().text as ConditionFunctionName
+    this.expectSymbol('(')
+    const args: Operand[] = [{ type: 'path', path: this.parsePath() }]
+    while (this.isSymbol(this.peek(), ',')) {
+      this.next()
+      args.push(this.parseConditionOperand())
+    }
+    this.expectSymbol(')')
+
+    const expectedArgs = name === 'attribute_exists' || name === 'attribute_not_exists' ? 1 : 2
+    if (args.length !== expectedArgs) {
+      throw new ExpressionError(`Invalid ${this.kind}: Incorrect number of operands for operator or function; operator or function: ${name}, number of operands: ${args.length}`)
+    }
+
+    const operand = args[1]
+    if (operand?.type === 'value') {
+      const valueType = getAttributeType(operand.value)
+      if (name === 'attribute_type' && (valueType !== 'S' || !ATTRIBUTE_TYPES.has(operand.value.S as string))) {
+        throw new ExpressionError(`Invalid ${this.kind}: Invalid attribute type name found in type function: ${operand.value.S ?? valueType}`)
+      }
+      if (name === 'begins_with' && valueType !== 'S' && valueType !== 'B') {
+        throw new ExpressionError(`Invalid ${this.kind}: Incorrect operand type for operator or function; operator or function: begins_with, operand type: ${valueType}`)
+      }
+    }
+
+    return { type: 'function', name, args }
+  }
+
+  // ---- Updates ----
+
+  parseUpdate(): UpdateNode {
+    const update: UpdateNode = { set: [], remove: [], add: [], delete: [] }
+    const seen = new Set<string>()
+
+    while (this.peek().type !== 'eof') {
+      const token = this.next()
+      const clause = token.type === 'identifier' ? token.text.toUpperCase() : ''
+      if (!['SET', 'REMOVE', 'ADD', 'DELETE'].includes(clause)) {
+        throw this.unexpected(token)
+      }
+      if (seen.has(clause)) {
+        throw new ExpressionError(`Invalid UpdateExpression: The "${clause}" section can only be used once in an update expression;`)
+      }
+      seen.add(clause)
+
+      do {
+        if (clause === 'SET') {
+          const path = this.parsePath()
+          this.expectSymbol('=')
+          update.set.push({ path, value: this.parseSetValue() })
+        }
+        else if (clause === 'REMOVE') {
+          update.remove.push(this.parsePath())
+        }
+        else {
+          const path = this.parsePath()
+          const operand = this.parseValue() as { value: AttributeValue }
+          update[clause === 'ADD' ? 'add' : 'delete'].push({ path, value: operand.value })
+        }
+      } while (this.isSymbol(this.peek(), ',') && this.next())
+    }
+
+    assertNoOverlappingPaths([
+      ...update.set.map(a => a.path),
+      ...update.remove,
+      ...update.add.map(a => a.path),
+      ...update.delete.map(a => a.path),
+    ], 'UpdateExpression')
+
+    return update
+  }
+
+  private parseSetValue(): Operand {
+    const left = this.parseSetOperand()
+    const token = this.peek()
+    if (this.isSymbol(token, '+') || this.isSymbol(token, '-')) {
+      this.next()
+      return { type: 'arithmetic', operator: token.text as '+' | '-', left, right: this.parseSetOperand() }
+    }
+    return left
+  }
+
+  private parseSetOperand(): Operand {
+    const token = this.peek()
+    if (token.type === 'value') {
+      return this.parseValue()
+    }
+    if (token.type === 'identifier' && this.isSymbol(this.peek(1), '(')) {
+      if (token.text === 'if_not_exists') {
+        this.next()
+        this.next()
+        const path = this.parsePath()
+        this.expectSymbol(',')
+        const fallback = this.parseSetValue()
+        this.expectSymbol(')')
+        return { type: 'if_not_exists', path, fallback }
+      }
+      if (token.text === 'list_append') {
+        this.next()
+        this.next()
+        const left = this.parseSetOperand()
+        this.expectSymbol(',')
+        const right = this.parseSetOperand()
+        this.expectSymbol(')')
+        return { type: 'list_append', left, right }
+      }
+      throw new ExpressionError(`Invalid UpdateExpression: Invalid function name; function: ${token.text}`)
+    }
+    return { type: 'path', path: this.parsePath() }
+  }
+
+  // ---- Projections ----
+
+  parseProjection(): DocumentPath[] {
+    const paths = [this.parsePath()]
+    while (this.isSymbol(this.peek(), ',')) {
+      this.next()
+      paths.push(this.parsePath())
+    }
+    assertNoOverlappingPaths(paths, 'ProjectionExpression')
+    return paths
+  }
+}
+
+function assertNoOverlappingPaths(paths: DocumentPath[], kind: ExpressionKind): void {
+  for (let i = 0; i < paths.length; i++) {
+    for (let j = i + 1; j < paths.length; j++) {
+      const [shorter, longer] = paths[i].length <= paths[j].length ? [paths[i], paths[j]] : [paths[j], paths[i]]
+      if (shorter.every((element, k) => element === longer[k])) {
+        throw new ExpressionError(`Invalid ${kind}: Two document paths overlap with each other; must remove or rewrite one of these paths; path one: [${formatPath(paths[i])}], path two: [${formatPath(paths[j])}]`)
+      }
+    }
+  }
+}
+
+function formatPath(path: DocumentPath): string {
+  return path.map(element => typeof element === 'number' ? `[${element}]` : element).join(', ')
+}
+
+/**
+ * Parse a condition, filter or key condition expression
+ */
+export function parseConditionExpression(
+  expression: string,
+  context: ExpressionContext,
+  kind: ExpressionKind = 'ConditionExpression',
+): ConditionNode {
+  const parser = new Parser(expression, kind, context)
+  const node = parser.parseCondition()
+  parser.expectEnd()
+  return node
+}
+
+/**
+ * Parse an update expression (`SET ... REMOVE ... ADD ... DELETE ...`)
+ */
+export function parseUpdateExpression(expression: string, context: ExpressionContext): UpdateNode {
+  const parser = new Parser(expression, 'UpdateExpression', context)
+  return parser.parseUpdate()
+}
+
+/**
+ * Parse a projection expression into document paths
+ */
+export function parseProjectionExpression(expression: string, context: ExpressionContext): DocumentPath[] {
+  const parser = new Parser(expression, 'ProjectionExpression', context)
+  const paths = parser.parseProjection()
+  parser.expectEnd()
+  return paths
+}
+
+// ============================================================================
+// Attribute Values
+// ============================================================================
+
+/**
+ * Get the type descriptor of an attribute value (`S`, `N`, `M`, ...)
+ */
+export function getAttributeType(value: AttributeValue): string {
+  for (const type of ['S', 'N', 'B', 'SS', 'NS', 'BS', 'M', 'L', 'NULL', 'BOOL'] as const) {
+    if (value[type] !== undefined) {
+      return type
+    }
+  }
+  return 'NULL'
+}
+
+function toBase64(value: Uint8Array | string): string {
+  return typeof value === 'string' ? value : Buffer.from(value).toString('base64')
+}
+
+/**
+ * Normalize a number string the way DynamoDB stores it (`'01.50'` → `'1.5'`)
+ */
+export function normalizeNumber(value: string): string {
+  const trimmed = value.trim()
+  if (trimmed === '' || Number.isNaN(Number(trimmed))) {
+    throw new ExpressionError('A value provided cannot be converted into a number')
+  }
+  if (/^[-+]?\d+$/.test(trimmed)) {
+    return BigInt(trimmed).toString()
+  }
+  return String(Number(trimmed))
+}
+
+/**
+ * Normalize an attribute value: binary as base64 strings, canonical numbers
+ */
+export function normalizeAttributeValue(value: AttributeValue): AttributeValue {
+  switch (getAttributeType(value)) {
+    case 'N':
+      return { N: normalizeNumber(value.N as string) }
+    case 'B':
+      return { B: toBase64(value.B as Uint8Array | string) }
+    case 'SS':
+      return { SS: [...new Set(value.SS)] }
+    case 'NS':
+      return { NS: [...new Set((value.NS as string[]).map(normalizeNumber))] }
+    case 'BS':
+      return { BS: [...new Set((value.BS as Array<Uint8Array | string>).map(toBase64))] }
+    case 'M': {
+      const result: Record<string, AttributeValue> = {}
+      for (const [key, child] of Object.entries(value.M as Record<string, AttributeValue>)) {
+        result[key] = normalizeAttributeValue(child)
+      }
+      return { M: result }
+    }
+    case 'L':
+      return { L: (value.L as AttributeValue[]).map(normalizeAttributeValue) }
+    case 'BOOL':
+      return { BOOL: value.BOOL }
+    case 'S':
+      return { S: value.S }
+    default:
+      return { NULL: true }
+  }
+}
+
+/**
+ * Deep clone a wire-format item
+ */
+export function cloneItem(item: ExpressionItem): ExpressionItem {
+  return structuredClone(item)
+}
+
+function compareNumbers(a: string, b: string): number {
+  if (/^-?\d+$/.test(a) && /^-?\d+$/.test(b)) {
+    const diff = BigInt(a) - BigInt(b)
+    return diff === 0n ? 0 : diff < 0n ? -1 : 1
+  }
+  const diff = Number(a) - Number(b)
+  return diff === 0 ? 0 : diff < 0 ? -1 : 1
+}
+
+/**
+ * Compare two scalar values of the same type (S by UTF-8 bytes, N numerically, B bytewise).
+ * Returns NaN when the values are not comparable.
+ */
+export function compareValues(a: AttributeValue, b: AttributeValue): number {
+  const type = getAttributeType(a)
+  if (type !== getAttributeType(b)) {
+    return Number.NaN
+  }
+  switch (type) {
+    case 'S':
+      return Buffer.compare(Buffer.from(a.S as string, 'utf8'), Buffer.from(b.S as string, 'utf8'))
+    case 'N':
+      return compareNumbers(a.N as string, b.N as string)
+    case 'B':
+      return Buffer.compare(Buffer.from(toBase64(a.B as string), 'base64'), Buffer.from(toBase64(b.B as string), 'base64'))
+    default:
+      return Number.NaN
+  }
+}
+
+/**
+ * Deep equality of attribute values (numbers compared numerically, sets unordered)
+ */
+export function valuesEqual(a: AttributeValue, b: AttributeValue): boolean {
+  const type = getAttributeType(a)
+  if (type !== getAttributeType(b)) {
+    return false
+  }
+  switch (type) {
+    case 'S':
+    case 'N':
+    case 'B':
+      return compareValues(a, b) === 0
+    case 'BOOL':
+      return a.BOOL === b.BOOL
+    case 'NULL':
+      return true
+    case 'SS':
+    case 'NS':
+    case 'BS': {
+      const left = setMembers(a)
+      const right = setMembers(b)
+      return left.length === right.length && left.every(member => right.some(other => valuesEqual(member, other)))
+    }
+    case 'L': {
+      const left = a.L as AttributeValue[]
+      const right = b.L as AttributeValue[]
+      return left.length === right.length && left.every((element, i) => valuesEqual(element, right[i]))
+    }
+    case 'M': {
+      const left = a.M as Record<string, AttributeValue>
+      const right = b.M as Record<string, AttributeValue>
+      const keys = Object.keys(left)
+      return keys.length === Object.keys(right).length
+        && keys.every(key => right[key] !== undefined && valuesEqual(left[key], right[key]))
+    }
+    default:
+      return false
+  }
+}
+
+function setMembers(value: AttributeValue): AttributeValue[] {
+  if (value.SS)
+    return value.SS.map(S => ({ S }))
+  if (value.NS)
+    return value.NS.map(N => ({ N }))
+  if (value.BS)
+    return value.BS.map(B => ({ B: toBase64(B) }))
+  return []
+}
+
+function describeValue(value: AttributeValue): string {
+  const type = getAttributeType(value)
+  return `{${type}:${JSON.stringify((value as Record<string, unknown>)[type])}}`
+}
+
+/**
+ * Approximate stored size of an attribute value in bytes
+ */
+export function getAttributeSize(value: AttributeValue): number {
+  switch (getAttributeType(value)) {
+    case 'S':
+      return Buffer.byteLength(value.S as string, 'utf8')
+    case 'N':
+      return Math.ceil((value.N as string).replace(/^-|\./g, '').length / 2) + 1
+    case 'B':
+      return Buffer.from(toBase64(value.B as string), 'base64').length
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return setMembers(value).reduce((total, member) => total + getAttributeSize(member), 0)
+    case 'L':
+      return 3 + (value.L as AttributeValue[]).reduce((total, element) => total + 1 + getAttributeSize(element), 0)
+    case 'M':
+      return 3 + getItemSize(value.M as ExpressionItem) + Object.keys(value.M as object).length
+    default:
+      return 1
+  }
+}
+
+/**
+ * Approximate stored size of an item in bytes (attribute names + values)
+ */
+export function getItemSize(item: ExpressionItem): number {
+  let size = 0
+  for (const [name, value] of Object.entries(item)) {
+    size += Buffer.byteLength(name, 'utf8') + getAttributeSize(value)
+  }
+  return size
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Resolve a document path against an item
+ */
+export function resolvePath(item: ExpressionItem, path: DocumentPath): AttributeValue | undefined {
+  let current: AttributeValue | undefined = item[path[0] as string]
+  for (let i = 1; i < path.length && current !== undefined; i++) {
+    const element = path[i]
+    current = typeof element === 'number' ? current.L?.[element] : current.M?.[element]
+  }
+  return current
+}
+
+function getSize(value: AttributeValue | undefined): AttributeValue | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  switch (getAttributeType(value)) {
+    case 'S':
+      return { N: String((value.S as string).length) }
+    case 'B':
+      return { N: String(Buffer.from(toBase64(value.B as string), 'base64').length) }
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return { N: String(setMembers(value).length) }
+    case 'L':
+      return { N: String((value.L as AttributeValue[]).length) }
+    case 'M':
+      return { N: String(Object.keys(value.M as object).length) }
+    default:
+      return undefined
+  }
+}
+
+function evaluateOperand(operand: Operand, item: ExpressionItem): AttributeValue | undefined {
+  switch (operand.type) {
+    case 'value':
+      return operand.value
+    case 'path':
+      return resolvePath(item, operand.path)
+    case 'size':
+      return getSize(resolvePath(item, operand.path))
+    case 'if_not_exists':
+      return resolvePath(item, operand.path) ?? evaluateOperand(operand.fallback, item)
+    case 'list_append': {
+      const left = evaluateOperand(operand.left, item)
+      const right = evaluateOperand(operand.right, item)
+      if (!left?.L || !right?.L) {
+        throw new ExpressionError('An operand in the update expression has an incorrect data type')
+      }
+      return { L: [...left.L, ...right.L] }
+    }
+    case 'arithmetic': {
+      const left = evaluateOperand(operand.left, item)
+      const right = evaluateOperand(operand.right, item)
+      if (left === undefined || right === undefined) {
+        throw new ExpressionError('The provided expression refers to an attribute that does not exist in the item')
+      }
+      if (left.N === undefined || right.N === undefined) {
+        throw new ExpressionError('An operand in the update expression has an incorrect data type')
+      }
+      return { N: addNumbers(left.N, operand.operator === '+' ? right.N : negate(right.N)) }
+    }
+  }
+}
+
+function negate(value: string): string {
+  return value.startsWith('-') ? value.slice(1) : `-${value}`
+}
+
+function addNumbers(a: string, b: string): string {
+  if (/^-?\d+$/.test(a) && /^-?\d+$/.test(b)) {
+    return (BigInt(a) + BigInt(b)).toString()
+  }
+  return normalizeNumber(String(Number(a) + Number(b)))
+}
+
+function compare(operator: Comparator, left: AttributeValue | undefined, right: AttributeValue | undefined): boolean {
+  if (left === undefined || right === undefined) {
+    return operator === '<>'
+  }
+  switch (operator) {
+    case '=':
+      return valuesEqual(left, right)
+    case '<>':
+      return !valuesEqual(left, right)
+    case '<':
+      return compareValues(left, right) < 0
+    case '<=':
+      return compareValues(left, right) <= 0
+    case '>':
+      return compareValues(left, right) > 0
+    case '>=':
+      return compareValues(left, right) >= 0
+  }
+}
+
+function evaluateFunction(name: ConditionFunctionName, args: Operand[], item: ExpressionItem): boolean {
+  const target = evaluateOperand(args[0], item)
+  const operand = args[1] ? evaluateOperand(args[1], item) : undefined
+
+  switch (name) {
+    case 'attribute_exists':
+      return target !== undefined
+    case 'attribute_not_exists':
+      return target === undefined
+    case 'attribute_type':
+      return target !== undefined && operand?.S === getAttributeType(target)
+    case 'begins_with':
+      if (target?.S !== undefined && operand?.S !== undefined)
+        return Buffer.from(target.S, 'utf8').subarray(0, Buffer.byteLength(operand.S)).equals(Buffer.from(operand.S, 'utf8'))
+      if (target?.B !== undefined && operand?.B !== undefined) {
+        const prefix = Buffer.from(toBase64(operand.B), 'base64')
+        return Buffer.from(toBase64(target.B), 'base64').subarray(0, prefix.length).equals(prefix)
+      }
+      return false
+    case 'contains':
+      if (target === undefined || operand === undefined)
+        return false
+      if (target.S !== undefined)
+        return operand.S !== undefined && target.S.includes(operand.S)
+      if (target.L !== undefined)
+        return target.L.some(element => valuesEqual(element, operand))
+      return setMembers(target).some(member => valuesEqual(member, operand))
+  }
+}
+
+/**
+ * Evaluate a parsed condition against an item
+ */
+export function evaluateCondition(node: ConditionNode, item: ExpressionItem): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateCondition(node.left, item) && evaluateCondition(node.right, item)
+    case 'or':
+      return evaluateCondition(node.left, item) || evaluateCondition(node.right, item)
+    case 'not':
+      return !evaluateCondition(node.operand, item)
+    case 'comparison':
+      return compare(node.operator, evaluateOperand(node.left, item), evaluateOperand(node.right, item))
+    case 'between': {
+      const value = evaluateOperand(node.operand, item)
+      const lower = evaluateOperand(node.lower, item)
+      const upper = evaluateOperand(node.upper, item)
+      return value !== undefined && lower !== undefined && upper !== undefined
+        && compareValues(value, lower) >= 0 && compareValues(value, upper) <= 0
+    }
+    case 'in': {
+      const value = evaluateOperand(node.operand, item)
+      return value !== undefined && node.candidates.some((candidate) => {
+        const resolved = evaluateOperand(candidate, item)
+        return resolved !== undefined && valuesEqual(value, resolved)
+      })
+    }
+    case 'function':
+      return evaluateFunction(node.name, node.args, item)
+  }
+}
+
+// ---- Updates ----
+
+function invalidPath(): ExpressionError {
+  return new ExpressionError('The document path provided in the update expression is invalid for update')
+}
+
+function setAtPath(item: ExpressionItem, path: DocumentPath, value: AttributeValue): void {
+  if (path.length === 1) {
+    item[path[0] as string] = value
+    return
+  }
+  const parent = resolvePath(item, path.slice(0, -1))
+  const last = path[path.length - 1]
+  if (typeof last === 'number') {
+    if (!parent?.L) {
+      throw invalidPath()
+    }
+    if (last >= parent.L.length) {
+      parent.L.push(value)
+    }
+    else {
+      parent.L[last] = value
+    }
+  }
+  else {
+    if (!parent?.M) {
+      throw invalidPath()
+    }
+    parent.M[last] = value
+  }
+}
+
+function removeAtPath(item: ExpressionItem, path: DocumentPath): void {
+  if (path.length === 1) {
+    delete item[path[0] as string]
+    return
+  }
+  const parent = resolvePath(item, path.slice(0, -1))
+  const last = path[path.length - 1]
+  if (typeof last === 'number') {
+    if (parent?.L && last < parent.L.length) {
+      parent.L.splice(last, 1)
+    }
+  }
+  else if (parent?.M) {
+    delete parent.M[last]
+  }
+}
+
+function mergeSets(current: AttributeValue, change: AttributeValue, action: 'ADD' | 'DELETE'): AttributeValue | undefined {
+  const type = getAttributeType(change) as 'SS' | 'NS' | 'BS'
+  const existing = setMembers(current)
+  const changes = setMembers(change)
+  const merged = action === 'ADD'
+    ? [...existing, ...changes.filter(member => !existing.some(other => valuesEqual(member, other)))]
+    : existing.filter(member => !changes.some(other => valuesEqual(member, other)))
+
+  if (merged.length === 0) {
+    return undefined
+  }
+  const scalarType = type[0] as 'S' | 'N' | 'B'
+  return { [type]: merged.map(member => member[scalarType]) } as AttributeValue
+}
+
+/**
+ * Apply a parsed update expression. Returns a new item and the top-level
+ * attribute names that were touched (for `UPDATED_OLD` / `UPDATED_NEW`).
+ */
+export function applyUpdate(
+  update: UpdateNode,
+  item: ExpressionItem,
+): { item: ExpressionItem, updatedAttributes: string[] } {
+  const result = cloneItem(item)
+  const touched = new Set<string>()
+
+  // All SET operands are evaluated against the item as it was before the update
+  const assignments = update.set.map(action => ({ path: action.path, value: evaluateOperand(action.value, item) }))
+  for (const { path, value } of assignments) {
+    if (value === undefined) {
+      throw new ExpressionError('The provided expression refers to an attribute that does not exist in the item')
+    }
+    setAtPath(result, path, cloneItem({ value }).value)
+    touched.add(path[0] as string)
+  }
+
+  // Remove list elements from the highest index down so earlier indexes stay valid
+  const removals = [...update.remove].sort((a, b) => {
+    const lastA = a[a.length - 1]
+    const lastB = b[b.length - 1]
+    return typeof lastA === 'number' && typeof lastB === 'number' ? lastB - lastA : 0
+  })
+  for (const path of removals) {
+    removeAtPath(result, path)
+    touched.add(path[0] as string)
+  }
+
+  for (const { path, value } of update.add) {
+    const current = resolvePath(result, path)
+    const type = getAttributeType(value)
+    if (type === 'N') {
+      if (current !== undefined && current.N === undefined) {
+        throw new ExpressionError('An operand in the update expression has an incorrect data type')
+      }
+      setAtPath(result, path, { N: current ? addNumbers(current.N as string, value.N as string) : value.N as string })
+    }
+    else if (type === 'SS' || type === 'NS' || type === 'BS') {
+      if (current !== undefined && getAttributeType(current) !== type) {
+        throw new ExpressionError('An operand in the update expression has an incorrect data type')
+      }
+      setAtPath(result, path, current ? mergeSets(current, value, 'ADD') as AttributeValue : value)
+    }
+    else {
+      throw new ExpressionError(`Invalid UpdateExpression: Incorrect operand type for operator or function; operator: ADD, operand type: ${type}`)
+    }
+    touched.add(path[0] as string)
+  }
+
+  for (const { path, value } of update.delete) {
+    const type = getAttributeType(value)
+    if (type !== 'SS' && type !== 'NS' && type !== 'BS') {
+      throw new ExpressionError(`Invalid UpdateExpression: Incorrect operand type for operator or function; operator: DELETE, operand type: ${type}`)
+    }
+    const current = resolvePath(result, path)
+    if (current === undefined) {
+      continue
+    }
+    if (getAttributeType(current) !== type) {
+      throw new ExpressionError('An operand in the update expression has an incorrect data type')
+    }
+    const remaining = mergeSets(current, value, 'DELETE')
+    if (remaining) {
+      setAtPath(result, path, remaining)
+    }
+    else {
+      removeAtPath(result, path)
+    }
+    touched.add(path[0] as string)
+  }
+
+  return { item: result, updatedAttributes: [...touched] }
+}
+
+// ---- Projections ----
+
+type SparseValue = { M: Record<string, SparseValue> } | { L: Array<SparseValue | undefined> } | { leaf: AttributeValue }
+
+function projectPath(target: Record<string, SparseValue>, item: ExpressionItem, path: DocumentPath): void {
+  const value = resolvePath(item, path)
+  if (value === undefined) {
+    return
+  }
+
+  let container: Record<string, SparseValue> | Array<SparseValue | undefined> = target
+  for (let i = 0; i < path.length; i++) {
+    const element = path[i]
+    const isLast = i === path.length - 1
+    const nextElement = path[i + 1]
+    const existing: SparseValue | undefined = (container as Record<string | number, SparseValue | undefined>)[element]
+
+    if (isLast) {
+      (container as Record<string | number, SparseValue>)[element] = { leaf: cloneItem({ value }).value }
+      return
+    }
+
+    let child: SparseValue | undefined = existing
+    if (!child) {
+      child = typeof nextElement === 'number' ? { L: [] } : { M: {} }
+      ;(container as Record<string | number, SparseValue>)[element] = child
+    }
+    container = 'L' in child ? child.L : (child as { M: Record<string, SparseValue> }).M
+  }
+}
+
+function compactSparse(value: SparseValue): AttributeValue {
+  if ('leaf' in value) {
+    return value.leaf
+  }
+  if ('L' in value) {
+    return { L: value.L.filter((element): element is SparseValue => element !== undefined).map(compactSparse) }
+  }
+  const result: Record<string, AttributeValue> = {}
+  for (const [key, child] of Object.entries(value.M)) {
+    result[key] = compactSparse(child)
+  }
+  return { M: result }
+}
+
+/**
+ * Keep only the given document paths of an item
+ */
+export function applyProjection(item: ExpressionItem, paths: DocumentPath[]): ExpressionItem {
+  const sparse: Record<string, SparseValue> = {}
+  for (const path of paths) {
+    projectPath(sparse, item, path)
+  }
+
+  const result: ExpressionItem = {}
+  for (const [key, value] of Object.entries(sparse)) {
+    result[key] = compactSparse(value)
+  }
+  return result
+}
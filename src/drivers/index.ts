@@ -2,9 +2,59 @@
 // Driver Plugin System Exports
 // ============================================================================
 
+// Credential Provider Chain
+export {
+  type AssumeRoleParams,
+  type AssumeRoleWithWebIdentityParams,
+  assumeRole,
+  assumeRoleWithWebIdentity,
+  chain as chainCredentialProviders,
+  createCredentialProviderChain,
+  type CredentialProviderChainOptions,
+  type CredentialProviderOptions,
+  CredentialsProviderError,
+  fromEnv,
+  fromIni,
+  fromProcess,
+  fromStatic,
+  fromTokenFile,
+  memoize as memoizeCredentialProvider,
+  parseIni,
+  type RoleAssumer,
+  type WebIdentityRoleAssumer,
+} from './credentials'
+
 // DynamoDB Driver
 export { createDynamoDBDriver, DynamoDBDriver } from './DynamoDBDriver'
 
+// Error Translation
+export {
+  getRequestTableName,
+  parseWireError,
+  translateDriverError,
+  translateWireError,
+  type WireErrorDetails,
+} from './errors'
+
+// Expression Engine
+export {
+  applyProjection,
+  applyUpdate,
+  type ConditionNode,
+  type DocumentPath,
+  evaluateCondition,
+  ExpressionContext,
+  ExpressionError,
+  type ExpressionKind,
+  parseConditionExpression,
+  parseProjectionExpression,
+  parseUpdateExpression,
+  type UpdateNode,
+} from './expressions'
+
+// In-Memory Driver
+export { createMemoryDriver, MemoryDriver } from './MemoryDriver'
+
 // Registry
 export {
   clearDriverRegistry,
@@ -16,14 +66,33 @@ export {
   getDriverRegistryStats,
   getRegisteredDrivers,
   hasDriver,
+  registerBuiltInDrivers,
   registerDriver,
   setActiveDriver,
   setDefaultDriver,
   unregisterDriver,
 } from './registry'
 
+// AWS Signature Version 4
+export {
+  createAuthorization,
+  createCanonicalRequest,
+  createStringToSign,
+  deriveSigningKey,
+  formatAmzDate,
+  getCredentialScope,
+  sha256Hex,
+  type SignableRequest,
+  signRequest,
+  type SignRequestOptions,
+  SIGV4_ALGORITHM,
+  type SigningCredentials,
+  uriEscape,
+} from './signing'
+
 // Types - Use Driver prefix to avoid conflicts with other modules
 export type {
+  AwsCredentialIdentity,
   BatchGetItemInput,
   BatchGetItemOutput,
   BatchWriteItemInput,
@@ -34,6 +103,7 @@ export type {
   DriverConnectionOptions,
   ConsumedCapacity as DriverConsumedCapacity,
   CreateTableInput as DriverCreateTableInput,
+  CredentialProvider,
   DriverFactory,
   DriverPlugin,
   QueryInput as DriverQueryInput,
@@ -51,6 +121,7 @@ export type {
 
 // Utilities - Use driver prefix to avoid conflicts
 export {
+  type BatchWriteRetryOptions,
   buildFilterExpression as buildDriverFilterExpression,
   buildKeyConditionExpression as buildDriverKeyConditionExpression,
   buildProjectionExpression as buildDriverProjectionExpression,
@@ -63,4 +134,5 @@ export {
   isReservedWord,
   mergeExpressionAttributeNames,
   mergeExpressionAttributeValues,
+  writeBatchWithRetry,
 } from './utils'
@@ -3,6 +3,8 @@
 // ============================================================================
 
 import type { DriverConnectionOptions, DriverFactory, DriverPlugin } from './types'
+import { createDynamoDBDriver } from './DynamoDBDriver'
+import { createMemoryDriver } from './MemoryDriver'
 
 /**
  * Global driver registry
@@ -203,3 +205,20 @@ export function getDriverRegistryStats(): {
     activeDriverName: activeDriver?.name ?? null,
   }
 }
+
+/**
+ * Register the drivers that ship with the toolkit
+ *
+ * - `dynamodb` (default): AWS DynamoDB over HTTPS
+ * - `memory`: in-memory emulator for tests and local development
+ */
+export function registerBuiltInDrivers(): void {
+  if (!driverRegistry.has('dynamodb')) {
+    registerDriver('dynamodb', createDynamoDBDriver)
+  }
+  if (!driverRegistry.has('memory')) {
+    registerDriver('memory', createMemoryDriver)
+  }
+}
+
+registerBuiltInDrivers()
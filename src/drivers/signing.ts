@@ -0,0 +1,306 @@
+// ============================================================================
+// AWS Signature Version 4 Request Signing
+// ============================================================================
+
+import { createHash, createHmac } from 'node:crypto'
+
+/**
+ * Signing algorithm identifier
+ */
+export const SIGV4_ALGORITHM = 'AWS4-HMAC-SHA256'
+
+/**
+ * Credentials used to sign a request
+ */
+export interface SigningCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+/**
+ * Options for signing a request
+ */
+export interface SignRequestOptions {
+  /** Date to sign the request with (defaults to now) */
+  signingDate?: Date
+  /** Add an `x-amz-content-sha256` header with the payload hash (required by S3) */
+  includeContentSha256?: boolean
+  /** Additional header names to leave out of the signature */
+  unsignedHeaders?: string[]
+}
+
+/**
+ * Components of a request that take part in the signature
+ */
+export interface SignableRequest {
+  method: string
+  url: URL
+  headers: Record<string, string>
+  payloadHash: string
+}
+
+/**
+ * Headers that are never signed because proxies and HTTP clients may rewrite them
+ */
+const UNSIGNABLE_HEADERS = new Set([
+  'authorization',
+  'connection',
+  'content-length',
+  'expect',
+  'user-agent',
+  'x-amzn-trace-id',
+])
+
+/**
+ * Derived signing keys are valid for a whole day, so cache them per scope
+ */
+const signingKeyCache = new Map<string, Buffer>()
+const MAX_SIGNING_KEY_CACHE_SIZE = 50
+
+/**
+ * Hex-encoded SHA-256 hash
+ */
+export function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Uint8Array, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest()
+}
+
+/**
+ * URI-encode a string per RFC 3986, as required by SigV4
+ */
+export function uriEscape(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, ch => `%${ch.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+/**
+ * Format a date as `YYYYMMDDTHHMMSSZ`
+ */
+export function formatAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * Build the credential scope (`date/region/service/aws4_request`)
+ */
+export function getCredentialScope(dateStamp: string, region: string, service: string): string {
+  return `${dateStamp}/${region}/${service}/aws4_request`
+}
+
+/**
+ * Derive the signing key from the secret access key
+ */
+export function deriveSigningKey(
+  secretAccessKey: string,
+  dateStamp: string,
+  region: string,
+  service: string,
+): Buffer {
+  const cacheKey = `${sha256Hex(secretAccessKey)}:${dateStamp}:${region}:${service}`
+  const cached = signingKeyCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const kDate = hmac(`AWS4${secretAccessKey}`, dateStamp)
+  const kRegion = hmac(kDate, region)
+  const kService = hmac(kRegion, service)
+  const kSigning = hmac(kService, 'aws4_request')
+
+  if (signingKeyCache.size >= MAX_SIGNING_KEY_CACHE_SIZE) {
+    signingKeyCache.clear()
+  }
+  signingKeyCache.set(cacheKey, kSigning)
+
+  return kSigning
+}
+
+/**
+ * Build the canonical URI path (each segment URI-encoded)
+ */
+function getCanonicalPath(url: URL): string {
+  const path = url.pathname || '/'
+  return path
+    .split('/')
+    .map(segment => uriEscape(safeDecode(segment)))
+    .join('/')
+}
+
+/**
+ * Build the canonical query string (sorted by key, then value)
+ */
+function getCanonicalQueryString(url: URL): string {
+  const pairs: Array<[string, string]> = []
+  for (const [key, value] of url.searchParams) {
+    pairs.push([uriEscape(key), uriEscape(value)])
+  }
+
+  pairs.sort(([aKey, aValue], [bKey, bValue]) => {
+    if (aKey !== bKey)
+      return aKey < bKey ? -1 : 1
+    if (aValue === bValue)
+      return 0
+    return aValue < bValue ? -1 : 1
+  })
+
+  return pairs.map(([key, value]) => `${key}=${value}`).join('&')
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  }
+  catch {
+    return value
+  }
+}
+
+/**
+ * Normalize headers for signing: lowercase names, trim values, collapse inner whitespace
+ */
+function getCanonicalHeaders(
+  headers: Record<string, string>,
+  unsignedHeaders: Set<string>,
+): { canonicalHeaders: string, signedHeaders: string } {
+  const normalized = new Map<string, string>()
+
+  for (const [name, value] of Object.entries(headers)) {
+    const lowerName = name.toLowerCase()
+    if (UNSIGNABLE_HEADERS.has(lowerName) || unsignedHeaders.has(lowerName)) {
+      continue
+    }
+    const trimmed = value.trim().replace(/\s+/g, ' ')
+    const existing = normalized.get(lowerName)
+    normalized.set(lowerName, existing === undefined ? trimmed : `${existing},${trimmed}`)
+  }
+
+  const names = Array.from(normalized.keys()).sort()
+
+  return {
+    canonicalHeaders: names.map(name => `${name}:${normalized.get(name)}\n`).join(''),
+    signedHeaders: names.join(';'),
+  }
+}
+
+/**
+ * Build the canonical request string
+ */
+export function createCanonicalRequest(
+  request: SignableRequest,
+  unsignedHeaders: string[] = [],
+): { canonicalRequest: string, signedHeaders: string } {
+  const { canonicalHeaders, signedHeaders } = getCanonicalHeaders(
+    request.headers,
+    new Set(unsignedHeaders.map(h => h.toLowerCase())),
+  )
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalPath(request.url),
+    getCanonicalQueryString(request.url),
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n')
+
+  return { canonicalRequest, signedHeaders }
+}
+
+/**
+ * Build the string to sign from a canonical request
+ */
+export function createStringToSign(amzDate: string, credentialScope: string, canonicalRequest: string): string {
+  return [
+    SIGV4_ALGORITHM,
+    amzDate,
+    credentialScope,
+    sha256Hex(canonicalRequest),
+  ].join('\n')
+}
+
+/**
+ * Compute the SigV4 signature and Authorization header for a request.
+ * The request headers must already contain `host` and `x-amz-date`.
+ */
+export function createAuthorization(
+  request: SignableRequest,
+  credentials: SigningCredentials,
+  region: string,
+  service: string,
+  amzDate: string,
+  unsignedHeaders: string[] = [],
+): { authorization: string, signature: string, canonicalRequest: string, stringToSign: string } {
+  const dateStamp = amzDate.slice(0, 8)
+  const credentialScope = getCredentialScope(dateStamp, region, service)
+  const { canonicalRequest, signedHeaders } = createCanonicalRequest(request, unsignedHeaders)
+  const stringToSign = createStringToSign(amzDate, credentialScope, canonicalRequest)
+  const signingKey = deriveSigningKey(credentials.secretAccessKey, dateStamp, region, service)
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex')
+
+  return {
+    authorization: `${SIGV4_ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    signature,
+    canonicalRequest,
+    stringToSign,
+  }
+}
+
+/**
+ * Sign a fetch Request with AWS Signature Version 4
+ *
+ * @example
+ * ```typescript
+ * const signed = await signRequest(request, credentials, 'us-east-1', 'dynamodb')
+ * const response = await fetch(signed)
+ * ```
+ */
+export async function signRequest(
+  request: Request,
+  credentials: SigningCredentials,
+  region: string,
+  service: string,
+  options: SignRequestOptions = {},
+): Promise<Request> {
+  const url = new URL(request.url)
+  const body = request.body ? new Uint8Array(await request.arrayBuffer()) : undefined
+  const payloadHash = sha256Hex(body ?? '')
+  const amzDate = formatAmzDate(options.signingDate ?? new Date())
+
+  const headers = new Headers(request.headers)
+  headers.delete('authorization')
+  headers.set('host', url.host)
+  headers.set('x-amz-date', amzDate)
+  if (credentials.sessionToken) {
+    headers.set('x-amz-security-token', credentials.sessionToken)
+  }
+  if (options.includeContentSha256) {
+    headers.set('x-amz-content-sha256', payloadHash)
+  }
+
+  const headerRecord: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    headerRecord[name] = value
+  })
+
+  const { authorization } = createAuthorization(
+    { method: request.method, url, headers: headerRecord, payloadHash },
+    credentials,
+    region,
+    service,
+    amzDate,
+    options.unsignedHeaders,
+  )
+
+  headers.set('authorization', authorization)
+  // fetch computes the Host header itself from the URL
+  headers.delete('host')
+
+  return new Request(request.url, {
+    method: request.method,
+    headers,
+    body,
+  })
+}
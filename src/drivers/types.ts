@@ -2,6 +2,7 @@
 // Driver Plugin Architecture Types
 // ============================================================================
 
+import type { RateLimiter } from '../performance/RateLimiter'
 import type { DynamoDBItem } from '../single-table/EntityTransformer'
 
 /**
@@ -36,6 +37,22 @@ export interface DriverCapabilities {
   maxTransactionItems: number
 }
 
+/**
+ * Resolved AWS credentials, optionally expiring
+ */
+export interface AwsCredentialIdentity {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+  /** When temporary credentials expire */
+  expiration?: Date
+}
+
+/**
+ * Asynchronously resolves AWS credentials
+ */
+export type CredentialProvider = () => Promise<AwsCredentialIdentity>
+
 /**
  * Driver connection options
  */
@@ -52,10 +69,14 @@ export interface DriverConnectionOptions {
   }
   /** AWS profile name */
   profile?: string
+  /** Custom credential provider (overrides the default provider chain) */
+  credentialProvider?: CredentialProvider
   /** Maximum retries for failed requests */
   maxRetries?: number
-  /** Retry mode */
+  /** Retry mode; 'adaptive' adds a client-side rate limiter per table and index */
   retryMode?: 'standard' | 'adaptive'
+  /** Rate limiter to pace requests with (shared across connections if passed to each) */
+  rateLimiter?: RateLimiter
   /** HTTP request timeout in milliseconds */
   timeout?: number
   /** Keep-alive configuration */
@@ -339,6 +360,8 @@ export interface TableDescription {
     attributeName?: string
     status?: 'ENABLING' | 'DISABLING' | 'ENABLED' | 'DISABLED'
   }
+  tableClass?: 'STANDARD' | 'STANDARD_INFREQUENT_ACCESS'
+  deletionProtectionEnabled?: boolean
 }
 
 /**
@@ -573,6 +596,26 @@ export interface DriverPlugin {
   /** Wait for table to be deleted */
   waitForTableDeleted: (tableName: string, options?: { maxWaitTime?: number, checkInterval?: number }) => Promise<void>
 
+  // ---- Table Metadata Operations (optional) ----
+
+  /** Describe the TTL settings of a table */
+  describeTimeToLive?: (tableName: string) => Promise<NonNullable<TableDescription['ttlDescription']>>
+
+  /** Enable or disable TTL on a table */
+  updateTimeToLive?: (tableName: string, specification: { enabled: boolean, attributeName: string }) => Promise<void>
+
+  /** List the tags of a table or index, by ARN */
+  listTagsOfResource?: (resourceArn: string) => Promise<Array<{ key: string, value: string }>>
+
+  // ---- Raw Commands (optional) ----
+
+  /**
+   * Send a DynamoDB API action with AWS-style (PascalCase) parameters and
+   * return the raw response. `Date` values are sent as epoch seconds.
+   * Used for command descriptors such as those built by `BackupManager`.
+   */
+  sendCommand?: (command: string, input: Record<string, unknown>) => Promise<Record<string, unknown>>
+
   // ---- PartiQL Operations (optional) ----
 
   /** Execute a PartiQL statement */
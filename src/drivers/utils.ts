@@ -3,7 +3,7 @@
 // ============================================================================
 
 import type { DynamoDBAttributeValue, DynamoDBItem } from '../single-table/EntityTransformer'
-import type { AttributeValue } from './types'
+import type { AttributeValue, BatchWriteItemInput, DriverPlugin } from './types'
 
 /**
  * Unmarshall a DynamoDB item to a plain JavaScript object
@@ -1087,3 +1087,43 @@ export function escapeAttributeName(name: string): string {
   }
   return name
 }
+
+/**
+ * Options for writing a batch with retries
+ */
+export interface BatchWriteRetryOptions {
+  /** Retries for unprocessed requests (default: 5) */
+  maxRetries?: number
+  /** Base delay between retries, doubled each attempt (default: 50ms) */
+  retryDelayMs?: number
+  /** Called before each retry */
+  onRetry?: (_attempt: number) => void
+}
+
+/**
+ * Write one batch of up to 25 requests, retrying unprocessed requests with
+ * exponential backoff; throws when some are still unprocessed after the
+ * last retry
+ */
+export async function writeBatchWithRetry(
+  driver: DriverPlugin,
+  tableName: string,
+  requests: BatchWriteItemInput['requestItems'][string],
+  options: BatchWriteRetryOptions = {},
+): Promise<void> {
+  const maxRetries = options.maxRetries ?? 5
+  const retryDelay = options.retryDelayMs ?? 50
+  let pending = requests
+
+  for (let attempt = 0; ; attempt++) {
+    const output = await driver.batchWriteItem({ requestItems: { [tableName]: pending } })
+    pending = output.unprocessedItems?.[tableName] ?? []
+    if (pending.length === 0)
+      return
+    if (attempt >= maxRetries) {
+      throw new Error(`${pending.length} items were still unprocessed after ${maxRetries} retries`)
+    }
+    options.onRetry?.(attempt)
+    await new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** attempt))
+  }
+}
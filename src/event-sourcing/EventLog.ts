@@ -0,0 +1,302 @@
+// ============================================================================
+// Event Log - Global ordered log of the events in an event store
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin, QueryInput } from '../drivers/types'
+import type { DomainEvent, EventStore } from './EventStore'
+import { isConditionalCheckFailedError } from '../types/errors'
+
+/**
+ * Event log options
+ */
+export interface EventLogOptions {
+  /** Event store with the 'time' or 'hybrid' partition strategy */
+  store: EventStore
+  /**
+   * How long a missing position may stay missing before reads skip it, in
+   * milliseconds. A position is missing while its writer has not committed
+   * yet, and forever when the commit failed. (default: 5000)
+   */
+  settleMs?: number
+  /** Log entries read per query page (default: 100) */
+  pageSize?: number
+}
+
+/**
+ * Options for reading the global log
+ */
+export interface ReadAllOptions {
+  /** First global position to read (default: 1) */
+  fromPosition?: number
+  /** Skip events written before this time */
+  fromTimestamp?: Date
+  /** Event types to return (default: all) */
+  eventTypes?: string[]
+  /** Events passed to `onPage` at a time (default: the page size of the log) */
+  pageSize?: number
+  /** Stop after this many events */
+  limit?: number
+}
+
+/**
+ * Result of reading the global log
+ */
+export interface ReadAllResult {
+  /** Events passed to `onPage` */
+  count: number
+  /** Position to continue from on the next read */
+  nextPosition: number
+  /** Missing position the read stopped at, waiting for its writer to commit */
+  waitingFor?: number
+}
+
+/**
+ * Global ordered log of an event store. Every append reserves positions
+ * from a counter item and copies the events into time-bucketed log
+ * partitions in the same transaction, so the whole store can be read in
+ * position order, or from a point in time, without a scan.
+ *
+ * @example
+ * ```typescript
+ * const store = createEventStore({ tableName: 'Events', partitionStrategy: 'hybrid' })
+ * const log = createEventLog(driver, { store })
+ *
+ * const { nextPosition } = await log.readAll({ fromPosition: 1, eventTypes: ['OrderPlaced'] }, async (events) => {
+ *   for (const event of events) {
+ *     await audit(event)
+ *   }
+ * })
+ * ```
+ */
+export class EventLog {
+  private driver: DriverPlugin
+  private store: EventStore
+  private settleMs: number
+  private pageSize: number
+  private recordedBuckets: Map<string, number> = new Map()
+
+  constructor(driver: DriverPlugin, options: EventLogOptions) {
+    if (!options.store.keepsGlobalLog()) {
+      throw new Error(`Event store ${options.store.getTableName()} uses the 'aggregate' partition strategy and keeps no global log; use 'time' or 'hybrid'`)
+    }
+    this.driver = driver
+    this.store = options.store
+    this.settleMs = options.settleMs ?? 5000
+    this.pageSize = options.pageSize ?? 100
+  }
+
+  /**
+   * Reserve `count` consecutive global positions, returning the first one
+   * and the time bucket the events go to
+   */
+  async allocate(count: number, now: Date = new Date()): Promise<{ firstPosition: number, bucket: string }> {
+    let bucket = this.store.getLogBucket(now)
+
+    for (let attempt = 1; ; attempt++) {
+      const { input } = this.store.allocatePositionsCommand(count, bucket)
+      try {
+        const { attributes } = await this.driver.updateItem({
+          tableName: input.TableName,
+          key: input.Key as Record<string, AttributeValue>,
+          updateExpression: input.UpdateExpression,
+          conditionExpression: input.ConditionExpression,
+          expressionAttributeNames: input.ExpressionAttributeNames,
+          expressionAttributeValues: input.ExpressionAttributeValues as Record<string, AttributeValue>,
+          returnValues: input.ReturnValues,
+        })
+        const firstPosition = Number((attributes?.position as { N: string }).N) - count + 1
+        await this.recordBucket(bucket, firstPosition)
+        return { firstPosition, bucket }
+      }
+      catch (error) {
+        if (!isConditionalCheckFailedError(error) || attempt >= 3) {
+          throw error
+        }
+        // Another writer already moved the counter to a later bucket
+        const counter = await this.driver.getItem({ tableName: input.TableName, key: input.Key as Record<string, AttributeValue>, consistentRead: true })
+        bucket = (counter?.bucket as { S: string } | undefined)?.S ?? bucket
+      }
+    }
+  }
+
+  /**
+   * Read the events of every aggregate in global position order, passing
+   * them to `onPage`. Reading stops early at a position that is still being
+   * written; continue later from `nextPosition`.
+   */
+  async readAll(options: ReadAllOptions, onPage: (_events: DomainEvent[]) => void | Promise<void>): Promise<ReadAllResult> {
+    const pageSize = options.pageSize ?? this.pageSize
+    const eventTypes = options.eventTypes?.length ? new Set(options.eventTypes) : undefined
+    const fromPosition = Math.max(options.fromPosition ?? 1, 1)
+    // Without a position to start from, the first entry found sets the sequence
+    let expected: number | undefined = options.fromPosition !== undefined || !options.fromTimestamp ? fromPosition : undefined
+    let waitingFor: number | undefined
+    let count = 0
+    let page: DomainEvent[] = []
+
+    const buckets = await this.listBuckets()
+    let startIndex = 0
+    buckets.forEach((bucket, index) => {
+      if (bucket.firstPosition <= fromPosition) {
+        startIndex = index
+      }
+    })
+    if (options.fromTimestamp) {
+      const fromBucket = this.store.getLogBucket(options.fromTimestamp)
+      const index = buckets.findIndex(bucket => bucket.bucket >= fromBucket)
+      startIndex = Math.max(startIndex, index === -1 ? buckets.length : index)
+    }
+
+    const now = Date.now()
+    for (const { bucket } of buckets.slice(startIndex)) {
+      const more = await this.readBucket(bucket, (expected ?? fromPosition) - 1, async (event) => {
+        const position = event.globalPosition!
+        if (expected !== undefined && position > expected && now - event.timestamp.getTime() < this.settleMs) {
+          waitingFor = expected
+          return false
+        }
+        expected = position + 1
+
+        const wanted = (!eventTypes || eventTypes.has(event.eventType))
+          && (!options.fromTimestamp || event.timestamp >= options.fromTimestamp)
+        if (wanted) {
+          page.push(event)
+          count++
+          if (page.length >= pageSize) {
+            await onPage(page)
+            page = []
+          }
+        }
+        return options.limit === undefined || count < options.limit
+      })
+      if (!more) {
+        break
+      }
+    }
+
+    if (page.length > 0) {
+      await onPage(page)
+    }
+    return { count, nextPosition: expected ?? fromPosition, ...(waitingFor === undefined ? {} : { waitingFor }) }
+  }
+
+  /**
+   * Time buckets of the log with their lowest positions, oldest first
+   */
+  private async listBuckets(): Promise<Array<{ bucket: string, firstPosition: number }>> {
+    const { input } = this.store.getLogBucketsCommand()
+    const buckets: Array<{ bucket: string, firstPosition: number }> = []
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+
+    do {
+      const page = await this.driver.query({ ...toQueryInput(input), exclusiveStartKey })
+      for (const item of page.items) {
+        buckets.push({ bucket: (item.bucket as { S: string }).S, firstPosition: Number((item.firstPosition as { N: string }).N) })
+      }
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+    } while (exclusiveStartKey)
+
+    return buckets
+  }
+
+  /**
+   * Read one time bucket after a position, merging its shards in position
+   * order. Returns false when `onEvent` asked to stop.
+   */
+  private async readBucket(bucket: string, afterPosition: number, onEvent: (_event: DomainEvent) => Promise<boolean>): Promise<boolean> {
+    const cursors = this.store.getLogPartitions(bucket).map(partition => ({
+      input: toQueryInput(this.store.getLogCommand(partition, { afterPosition, limit: this.pageSize }).input),
+      events: [] as DomainEvent[],
+      exclusiveStartKey: undefined as Record<string, AttributeValue> | undefined,
+      done: false,
+    }))
+
+    while (true) {
+      for (const cursor of cursors) {
+        if (cursor.events.length === 0 && !cursor.done) {
+          const page = await this.driver.query({ ...cursor.input, exclusiveStartKey: cursor.exclusiveStartKey })
+          cursor.events = this.store.parseEvents(page.items)
+          cursor.exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+          cursor.done = !cursor.exclusiveStartKey
+        }
+      }
+
+      let next: (typeof cursors)[number] | undefined
+      for (const cursor of cursors) {
+        if (cursor.events.length > 0 && (!next || cursor.events[0].globalPosition! < next.events[0].globalPosition!)) {
+          next = cursor
+        }
+      }
+      if (!next) {
+        return true
+      }
+      if (!await onEvent(next.events.shift()!)) {
+        return false
+      }
+    }
+  }
+
+  /**
+   * Record the lowest position of a bucket, once per bucket per process
+   * unless a lower position turns up
+   */
+  private async recordBucket(bucket: string, firstPosition: number): Promise<void> {
+    const recorded = this.recordedBuckets.get(bucket)
+    if (recorded !== undefined && recorded <= firstPosition) {
+      return
+    }
+
+    const { input } = this.store.recordLogBucketCommand(bucket, firstPosition)
+    try {
+      await this.driver.updateItem({
+        tableName: input.TableName,
+        key: input.Key as Record<string, AttributeValue>,
+        updateExpression: input.UpdateExpression,
+        conditionExpression: input.ConditionExpression,
+        expressionAttributeNames: input.ExpressionAttributeNames,
+        expressionAttributeValues: input.ExpressionAttributeValues as Record<string, AttributeValue>,
+      })
+    }
+    catch (error) {
+      // A lower position of the bucket is already recorded
+      if (!isConditionalCheckFailedError(error)) {
+        throw error
+      }
+    }
+    this.recordedBuckets.set(bucket, firstPosition)
+  }
+}
+
+/**
+ * Create an event log
+ */
+export function createEventLog(driver: DriverPlugin, options: EventLogOptions): EventLog {
+  return new EventLog(driver, options)
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert an event store Query descriptor into driver input. Reads are
+ * consistent so a load sees every committed event.
+ */
+export function toQueryInput(input: {
+  TableName: string
+  KeyConditionExpression: string
+  ExpressionAttributeNames: Record<string, string>
+  ExpressionAttributeValues: Record<string, unknown>
+  ScanIndexForward: boolean
+  Limit?: number
+}): QueryInput {
+  return {
+    tableName: input.TableName,
+    keyConditionExpression: input.KeyConditionExpression,
+    expressionAttributeNames: input.ExpressionAttributeNames,
+    expressionAttributeValues: input.ExpressionAttributeValues as Record<string, AttributeValue>,
+    scanIndexForward: input.ScanIndexForward,
+    limit: input.Limit,
+    consistentRead: true,
+  }
+}
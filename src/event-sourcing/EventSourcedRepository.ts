@@ -0,0 +1,229 @@
+// ============================================================================
+// Event-Sourced Repository - Loads and commits aggregates through a driver
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin, TransactWriteItemsInput } from '../drivers/types'
+import type { AggregateRoot, DomainEvent, EventStore } from './EventStore'
+import { isTransactionCancelledError } from '../types/errors'
+import { EventLog, toQueryInput } from './EventLog'
+
+/**
+ * Most items DynamoDB accepts in one TransactWriteItems call
+ */
+const MAX_TRANSACTION_ITEMS = 100
+
+/**
+ * Event-sourced repository options
+ */
+export interface EventSourcedRepositoryOptions<TAggregate extends AggregateRoot> {
+  /** Event store that builds the commands */
+  store: EventStore
+  /** Create an empty aggregate for an ID */
+  create: (_id: string) => TAggregate
+  /** Aggregate type of the event partitions (default: the type of a created aggregate) */
+  aggregateType?: string
+  /** Events read per query page (default: 100) */
+  pageSize?: number
+  /** Read snapshots on load and write them when `shouldSnapshot` says so (default: true) */
+  snapshots?: boolean
+  /** Dispatch committed events to the handlers registered on the store (default: true) */
+  dispatch?: boolean
+}
+
+/**
+ * Error raised when another writer appended to a stream after the aggregate was loaded
+ */
+export class EventStoreConcurrencyError extends Error {
+  public readonly aggregateType: string
+  public readonly aggregateId: string
+  public readonly expectedVersion: number
+  public readonly actualVersion: number
+
+  constructor(aggregateType: string, aggregateId: string, expectedVersion: number, actualVersion: number) {
+    super(`Stream ${aggregateType}#${aggregateId} is at version ${actualVersion}, expected ${expectedVersion}; reload the aggregate and retry`)
+    this.name = 'EventStoreConcurrencyError'
+    this.aggregateType = aggregateType
+    this.aggregateId = aggregateId
+    this.expectedVersion = expectedVersion
+    this.actualVersion = actualVersion
+  }
+}
+
+/**
+ * Loads aggregates from their latest snapshot plus the events after it, and
+ * commits their uncommitted events in one transaction. Every event put is
+ * conditional on its version being free, so a save fails with
+ * `EventStoreConcurrencyError` when another writer appended first.
+ *
+ * @example
+ * ```typescript
+ * const accounts = createEventSourcedRepository(driver, {
+ *   store: createEventStore({ tableName: 'Events', snapshotFrequency: 50 }),
+ *   create: id => new BankAccount(id),
+ * })
+ *
+ * const account = await accounts.load('acc-1') ?? accounts.create('acc-1')
+ * account.deposit(100)
+ * await accounts.save(account)
+ * ```
+ */
+export class EventSourcedRepository<TAggregate extends AggregateRoot> {
+  private driver: DriverPlugin
+  private store: EventStore
+  private factory: (_id: string) => TAggregate
+  private aggregateType?: string
+  private pageSize: number
+  private snapshots: boolean
+  private dispatch: boolean
+  private log?: EventLog
+
+  constructor(driver: DriverPlugin, options: EventSourcedRepositoryOptions<TAggregate>) {
+    this.driver = driver
+    this.store = options.store
+    this.factory = options.create
+    this.aggregateType = options.aggregateType
+    this.pageSize = options.pageSize ?? 100
+    this.snapshots = options.snapshots ?? true
+    this.dispatch = options.dispatch ?? true
+    this.log = options.store.keepsGlobalLog() ? new EventLog(driver, { store: options.store }) : undefined
+  }
+
+  /**
+   * Create an empty aggregate, for a stream that does not exist yet
+   */
+  create(id: string): TAggregate {
+    return this.factory(id)
+  }
+
+  /**
+   * Load an aggregate, or `null` when its stream has no snapshot and no events
+   */
+  async load(id: string): Promise<TAggregate | null> {
+    const aggregate = this.factory(id)
+    const aggregateType = this.typeOf(aggregate)
+
+    let found = false
+    if (this.snapshots) {
+      const { input } = this.store.getLatestSnapshotCommand(aggregateType, id)
+      const [item] = (await this.driver.query(toQueryInput(input))).items
+      if (item) {
+        aggregate.loadFromSnapshot(this.store.parseSnapshot(item))
+        found = true
+      }
+    }
+
+    await this.readPages(aggregateType, id, aggregate.version + 1, (events) => {
+      aggregate.replay(events)
+      found = true
+    })
+
+    return found ? aggregate : null
+  }
+
+  /**
+   * Read the events of a stream, following pages, from a version onwards
+   */
+  async readEvents(id: string, fromVersion: number = 1): Promise<DomainEvent[]> {
+    const events: DomainEvent[] = []
+    await this.readPages(this.typeOf(this.factory(id)), id, fromVersion, page => events.push(...page))
+    return events
+  }
+
+  /**
+   * Commit the uncommitted events of an aggregate as one TransactWriteItems
+   * call, with a snapshot when one is due. When the store keeps a global
+   * log, the events get global positions and are copied into the log in the
+   * same transaction. Returns the stored events.
+   */
+  async save(aggregate: TAggregate): Promise<DomainEvent[]> {
+    const uncommitted = aggregate.getUncommittedEvents()
+    if (uncommitted.length === 0) {
+      return []
+    }
+
+    const aggregateType = this.typeOf(aggregate)
+    const expectedVersion = aggregate.version - uncommitted.length
+    const itemCount = uncommitted.length * (this.log ? 2 : 1)
+    if (itemCount > MAX_TRANSACTION_ITEMS) {
+      throw new Error(`Cannot commit ${uncommitted.length} events of ${aggregateType}#${aggregate.id} in one transaction (at most ${MAX_TRANSACTION_ITEMS} items)`)
+    }
+
+    const allocation = this.log ? await this.log.allocate(uncommitted.length) : undefined
+    const puts = uncommitted.map((event, i) => this.store.appendEvent({ ...event, aggregateType }, allocation && allocation.firstPosition + i).input)
+    const logPuts = allocation ? puts.map(put => this.store.appendLogEntryCommand(put.Item, allocation.bucket).input) : []
+    const transactItems: TransactWriteItemsInput['transactItems'] = [...puts, ...logPuts].map(put => ({
+      put: {
+        tableName: put.TableName,
+        item: put.Item as Record<string, AttributeValue>,
+        conditionExpression: put.ConditionExpression,
+        expressionAttributeNames: put.ExpressionAttributeNames,
+      },
+    }))
+
+    if (this.snapshots && uncommitted.some(event => this.store.shouldSnapshot(event.version))) {
+      const { input } = this.store.saveSnapshotCommand(aggregate.createSnapshot())
+      transactItems.push({ put: { tableName: input.TableName, item: input.Item as Record<string, AttributeValue> } })
+    }
+
+    if (transactItems.length > MAX_TRANSACTION_ITEMS) {
+      throw new Error(`Cannot commit ${uncommitted.length} events of ${aggregateType}#${aggregate.id} in one transaction (at most ${MAX_TRANSACTION_ITEMS} items)`)
+    }
+
+    try {
+      await this.driver.transactWriteItems({ transactItems })
+    }
+    catch (error) {
+      const versionTaken = isTransactionCancelledError(error)
+        && error.getConditionalCheckFailures().some(index => index < puts.length)
+      if (versionTaken) {
+        throw new EventStoreConcurrencyError(aggregateType, aggregate.id, expectedVersion, await this.currentVersion(aggregateType, aggregate.id))
+      }
+      throw error
+    }
+
+    aggregate.markEventsAsCommitted()
+    const committed = this.store.parseEvents(puts.map(put => put.Item))
+    if (this.dispatch) {
+      for (const event of committed) {
+        await this.store.dispatch(event)
+      }
+    }
+    return committed
+  }
+
+  /**
+   * Query a stream page by page, in version order
+   */
+  private async readPages(aggregateType: string, id: string, fromVersion: number, onPage: (_events: DomainEvent[]) => void): Promise<void> {
+    const { input } = this.store.getEventsCommand(aggregateType, id, { fromVersion, limit: this.pageSize })
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+
+    do {
+      const page = await this.driver.query({ ...toQueryInput(input), exclusiveStartKey })
+      if (page.items.length > 0) {
+        onPage(this.store.parseEvents(page.items))
+      }
+      exclusiveStartKey = page.lastEvaluatedKey
+    } while (exclusiveStartKey)
+  }
+
+  private async currentVersion(aggregateType: string, id: string): Promise<number> {
+    const { input } = this.store.getEventsCommand(aggregateType, id, { ascending: false, limit: 1 })
+    const [latest] = this.store.parseEvents((await this.driver.query(toQueryInput(input))).items)
+    return latest?.version ?? 0
+  }
+
+  private typeOf(aggregate: TAggregate): string {
+    return this.aggregateType ?? aggregate.createSnapshot().aggregateType
+  }
+}
+
+/**
+ * Create an event-sourced repository
+ */
+export function createEventSourcedRepository<TAggregate extends AggregateRoot>(
+  driver: DriverPlugin,
+  options: EventSourcedRepositoryOptions<TAggregate>,
+): EventSourcedRepository<TAggregate> {
+  return new EventSourcedRepository(driver, options)
+}
@@ -2,6 +2,8 @@
 // Event Store - Event Sourcing for DynamoDB
 // ============================================================================
 
+import type { UpcasterRegistry } from './Upcasting'
+
 /**
  * DynamoDB AttributeValue types for event items
  */
@@ -62,6 +64,8 @@ export interface DomainEvent<T = unknown> {
   correlationId?: string
   /** Causation ID */
   causationId?: string
+  /** Position in the global log, when the store keeps one */
+  globalPosition?: number
 }
 
 /**
@@ -90,8 +94,24 @@ export interface EventStoreOptions {
   snapshotFrequency?: number
   /** Event TTL in seconds (optional) */
   eventTTL?: number
-  /** Partition strategy (optional) */
+  /**
+   * Partition strategy (default: 'aggregate'). Events are always stored in
+   * their aggregate partition; 'time' also writes each event to a global log
+   * partitioned by time bucket, and 'hybrid' splits each time bucket into
+   * `logShards` partitions by aggregate. Log entries carry a monotonic global
+   * position.
+   */
   partitionStrategy?: 'aggregate' | 'time' | 'hybrid'
+  /** Time bucket of the global log partitions (default: 'hour') */
+  logBucket?: 'hour' | 'day'
+  /** Global log partitions per time bucket with the 'hybrid' strategy (default: 4) */
+  logShards?: number
+  /**
+   * Upcasters of stored event payloads. Parsed events are brought to the
+   * latest schema version of their type, and appended events get that
+   * version as `schemaVersion` in their metadata.
+   */
+  upcasters?: UpcasterRegistry
 }
 
 /**
@@ -118,11 +138,16 @@ export type EventHandler<T = unknown> = (_event: DomainEvent<T>) => void | Promi
 /**
  * Resolved event store options with defaults applied
  */
-type ResolvedEventStoreOptions = Required<Pick<EventStoreOptions, 'tableName' | 'snapshotTableName' | 'snapshotFrequency'>> & {
+type ResolvedEventStoreOptions = Required<Pick<EventStoreOptions, 'tableName' | 'snapshotTableName' | 'snapshotFrequency' | 'partitionStrategy' | 'logBucket' | 'logShards'>> & {
   eventTTL?: number
-  partitionStrategy?: 'aggregate' | 'time' | 'hybrid'
+  upcasters?: UpcasterRegistry
 }
 
+/**
+ * Width of zero-padded global positions in log sort keys
+ */
+const POSITION_WIDTH = 16
+
 /**
  * Event store for DynamoDB
  */
@@ -134,14 +159,19 @@ export class EventStore {
     this.options = {
       snapshotTableName: `${options.tableName}-snapshots`,
       snapshotFrequency: 100,
+      partitionStrategy: 'aggregate',
+      logBucket: 'hour',
+      logShards: 4,
       ...options,
     }
   }
 
   /**
-   * Generate append event command
+   * Generate append event command. Pass the global position allocated for
+   * the event when the store keeps a global log. With upcasters, the event
+   * is stamped with the latest schema version of its type.
    */
-  appendEvent<T>(event: Omit<DomainEvent<T>, 'eventId' | 'timestamp'>): {
+  appendEvent<T>(event: Omit<DomainEvent<T>, 'eventId' | 'timestamp' | 'globalPosition'>, globalPosition?: number): {
     command: 'PutItem'
     input: {
       TableName: string
@@ -152,6 +182,9 @@ export class EventStore {
   } {
     const eventId = this.generateEventId()
     const timestamp = new Date()
+    const metadata = this.options.upcasters && event.metadata?.schemaVersion === undefined
+      ? { ...event.metadata, schemaVersion: this.options.upcasters.getSchemaVersion(event.eventType) }
+      : event.metadata
 
     return {
       command: 'PutItem',
@@ -166,10 +199,11 @@ export class EventStore {
           aggregateType: { S: event.aggregateType },
           version: { N: String(event.version) },
           data: { S: JSON.stringify(event.data) },
-          metadata: event.metadata ? { S: JSON.stringify(event.metadata) } : { NULL: true },
+          metadata: metadata ? { S: JSON.stringify(metadata) } : { NULL: true },
           timestamp: { S: timestamp.toISOString() },
           correlationId: event.correlationId ? { S: event.correlationId } : { NULL: true },
           causationId: event.causationId ? { S: event.causationId } : { NULL: true },
+          ...(globalPosition === undefined ? {} : { globalPosition: { N: String(globalPosition) } }),
           _et: { S: 'Event' },
         },
         ConditionExpression: 'attribute_not_exists(#pk)',
@@ -249,14 +283,17 @@ export class EventStore {
   }
 
   /**
-   * Parse events from DynamoDB response
+   * Parse events from DynamoDB response, brought to the latest schema
+   * version of their type when the store has upcasters. Pass
+   * `{ upcast: false }` for the events exactly as stored.
    */
-  parseEvents<T = unknown>(items: Record<string, unknown>[]): DomainEvent<T>[] {
+  parseEvents<T = unknown>(items: Record<string, unknown>[], options?: { upcast?: boolean }): DomainEvent<T>[] {
+    const upcasters = options?.upcast === false ? undefined : this.options.upcasters
     return items.map((item) => {
       const _pk = (item.pk as { S: string }).S
       const data = (item.data as { S: string }).S
 
-      return {
+      const event: DomainEvent<T> = {
         eventId: (item.eventId as { S: string }).S,
         eventType: (item.eventType as { S: string }).S,
         aggregateId: (item.aggregateId as { S: string }).S,
@@ -273,10 +310,199 @@ export class EventStore {
         causationId: item.causationId && 'S' in (item.causationId as object)
           ? (item.causationId as { S: string }).S
           : undefined,
+        ...(item.globalPosition ? { globalPosition: Number((item.globalPosition as { N: string }).N) } : {}),
       }
+      return upcasters ? upcasters.upcast<T>(event) : event
     })
   }
 
+  // ==========================================================================
+  // Global Log
+  // ==========================================================================
+
+  /**
+   * Whether events are also written to the global log
+   */
+  keepsGlobalLog(): boolean {
+    return this.options.partitionStrategy !== 'aggregate'
+  }
+
+  /**
+   * Get the partition strategy
+   */
+  getPartitionStrategy(): 'aggregate' | 'time' | 'hybrid' {
+    return this.options.partitionStrategy
+  }
+
+  /**
+   * Time bucket of the global log that a date falls in, such as
+   * `2024-01-15T10` (hourly) or `2024-01-15` (daily)
+   */
+  getLogBucket(date: Date): string {
+    return date.toISOString().slice(0, this.options.logBucket === 'day' ? 10 : 13)
+  }
+
+  /**
+   * Partition keys of the global log for a time bucket, one per shard
+   */
+  getLogPartitions(bucket: string): string[] {
+    if (this.options.partitionStrategy !== 'hybrid') {
+      return [`LOG#${bucket}`]
+    }
+    return Array.from({ length: this.options.logShards }, (_, shard) => `LOG#${bucket}#${shard}`)
+  }
+
+  /**
+   * Generate the command that reserves `count` global positions. The bucket
+   * of the counter never moves backwards, so positions and buckets increase
+   * together even when writer clocks disagree.
+   */
+  allocatePositionsCommand(count: number, bucket: string): {
+    command: 'UpdateItem'
+    input: {
+      TableName: string
+      Key: Record<string, unknown>
+      UpdateExpression: string
+      ConditionExpression: string
+      ExpressionAttributeNames: Record<string, string>
+      ExpressionAttributeValues: Record<string, unknown>
+      ReturnValues: 'ALL_NEW'
+    }
+  } {
+    return {
+      command: 'UpdateItem',
+      input: {
+        TableName: this.options.tableName,
+        Key: { pk: { S: 'LOG#COUNTER' }, sk: { S: 'POSITION' } },
+        UpdateExpression: 'ADD #position :count SET #bucket = :bucket',
+        ConditionExpression: 'attribute_not_exists(#bucket) OR #bucket <= :bucket',
+        ExpressionAttributeNames: { '#position': 'position', '#bucket': 'bucket' },
+        ExpressionAttributeValues: { ':count': { N: String(count) }, ':bucket': { S: bucket } },
+        ReturnValues: 'ALL_NEW',
+      },
+    }
+  }
+
+  /**
+   * Generate the command that records the lowest position of a time bucket,
+   * so reads from a position know where to start
+   */
+  recordLogBucketCommand(bucket: string, firstPosition: number): {
+    command: 'UpdateItem'
+    input: {
+      TableName: string
+      Key: Record<string, unknown>
+      UpdateExpression: string
+      ConditionExpression: string
+      ExpressionAttributeNames: Record<string, string>
+      ExpressionAttributeValues: Record<string, unknown>
+    }
+  } {
+    return {
+      command: 'UpdateItem',
+      input: {
+        TableName: this.options.tableName,
+        Key: { pk: { S: 'LOG#BUCKETS' }, sk: { S: `BUCKET#${bucket}` } },
+        UpdateExpression: 'SET #first = :first, #bucket = :bucket',
+        ConditionExpression: 'attribute_not_exists(#first) OR #first > :first',
+        ExpressionAttributeNames: { '#first': 'firstPosition', '#bucket': 'bucket' },
+        ExpressionAttributeValues: { ':first': { N: String(firstPosition) }, ':bucket': { S: bucket } },
+      },
+    }
+  }
+
+  /**
+   * Generate the query for the time buckets of the global log, oldest first
+   */
+  getLogBucketsCommand(): {
+    command: 'Query'
+    input: {
+      TableName: string
+      KeyConditionExpression: string
+      ExpressionAttributeNames: Record<string, string>
+      ExpressionAttributeValues: Record<string, unknown>
+      ScanIndexForward: boolean
+    }
+  } {
+    return {
+      command: 'Query',
+      input: {
+        TableName: this.options.tableName,
+        KeyConditionExpression: '#pk = :pk AND begins_with(#sk, :skPrefix)',
+        ExpressionAttributeNames: { '#pk': 'pk', '#sk': 'sk' },
+        ExpressionAttributeValues: { ':pk': { S: 'LOG#BUCKETS' }, ':skPrefix': { S: 'BUCKET#' } },
+        ScanIndexForward: true,
+      },
+    }
+  }
+
+  /**
+   * Generate the command that copies a stored event into the global log
+   * partition of a time bucket
+   */
+  appendLogEntryCommand(item: EventItem, bucket: string): {
+    command: 'PutItem'
+    input: {
+      TableName: string
+      Item: Record<string, AttributeValue>
+      ConditionExpression: string
+      ExpressionAttributeNames: Record<string, string>
+    }
+  } {
+    const position = item.globalPosition?.N
+    if (position === undefined) {
+      throw new Error(`Event ${item.eventId.S} has no global position`)
+    }
+
+    const partitions = this.getLogPartitions(bucket)
+    const shard = partitions.length > 1 ? hashString(item.pk.S) % partitions.length : 0
+
+    return {
+      command: 'PutItem',
+      input: {
+        TableName: this.options.tableName,
+        Item: {
+          ...item,
+          pk: { S: partitions[shard] },
+          sk: { S: `POS#${position.padStart(POSITION_WIDTH, '0')}` },
+          _et: { S: 'EventLogEntry' },
+        },
+        ConditionExpression: 'attribute_not_exists(#pk)',
+        ExpressionAttributeNames: { '#pk': 'pk' },
+      },
+    }
+  }
+
+  /**
+   * Generate the query for one global log partition, in position order
+   */
+  getLogCommand(partition: string, options?: { afterPosition?: number, limit?: number }): {
+    command: 'Query'
+    input: {
+      TableName: string
+      KeyConditionExpression: string
+      ExpressionAttributeNames: Record<string, string>
+      ExpressionAttributeValues: Record<string, unknown>
+      ScanIndexForward: boolean
+      Limit?: number
+    }
+  } {
+    return {
+      command: 'Query',
+      input: {
+        TableName: this.options.tableName,
+        KeyConditionExpression: '#pk = :pk AND #sk > :after',
+        ExpressionAttributeNames: { '#pk': 'pk', '#sk': 'sk' },
+        ExpressionAttributeValues: {
+          ':pk': { S: partition },
+          ':after': { S: `POS#${String(options?.afterPosition ?? 0).padStart(POSITION_WIDTH, '0')}` },
+        },
+        ScanIndexForward: true,
+        ...(options?.limit ? { Limit: options.limit } : {}),
+      },
+    }
+  }
+
   /**
    * Generate save snapshot command
    */
@@ -402,6 +628,13 @@ export class EventStore {
     return this.options.snapshotTableName
   }
 
+  /**
+   * Get event upcasters
+   */
+  getUpcasters(): UpcasterRegistry | undefined {
+    return this.options.upcasters
+  }
+
   /**
    * Alias for getLatestSnapshotCommand
    */
@@ -641,3 +874,19 @@ export class AggregateRoot<TState = unknown> {
     }
   }
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * FNV-1a hash, used to spread aggregates over global log shards
+ */
+function hashString(value: string): number {
+  let hash = 0x811C9DC5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
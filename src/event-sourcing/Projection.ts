@@ -0,0 +1,675 @@
+// ============================================================================
+// Projections - Durable read models built from the event store
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin, TransactWriteItemsInput } from '../drivers/types'
+import type { DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
+import type { StreamProcessor, StreamRecord } from '../streams/StreamProcessor'
+import type { DomainEvent, EventStore } from './EventStore'
+import { writeBatchWithRetry } from '../drivers/utils'
+import { marshallObject, unmarshallItem } from '../single-table/EntityTransformer'
+import { isTransactionCancelledError } from '../types/errors'
+import { EventLog } from './EventLog'
+
+/**
+ * Most items DynamoDB accepts in one TransactWriteItems call. One of them is
+ * the marker recording that the event was applied.
+ */
+const MAX_TRANSACTION_ITEMS = 100
+
+/**
+ * Times an event is handled again when items it read changed before commit
+ */
+const MAX_APPLY_ATTEMPTS = 10
+
+/**
+ * A domain event with its position in the order projections read the store
+ */
+export interface ProjectionEvent<T = unknown> extends DomainEvent<T> {
+  /** Sortable position; projections process events in ascending position order */
+  position: string
+}
+
+/**
+ * Key of a read-model item
+ */
+export interface ReadModelKey {
+  pk: string
+  sk: string
+}
+
+/**
+ * What a projection handler can do with its read model. Writes are buffered
+ * and committed together with the applied marker of the event, so an event
+ * is applied exactly once however often it is delivered. When an item the
+ * handler read changes before the commit, the handler runs again.
+ */
+export interface ProjectionContext {
+  /** Projection name */
+  projection: string
+  /** Read-model table name */
+  tableName: string
+  /** Read a read-model item, including writes buffered for this event */
+  get: <T extends Record<string, unknown> = Record<string, unknown>>(_key: ReadModelKey) => Promise<T | null>
+  /** Create or replace a read-model item */
+  put: (_key: ReadModelKey, _data: Record<string, unknown>) => void
+  /** Delete a read-model item */
+  delete: (_key: ReadModelKey) => void
+}
+
+/**
+ * A projection: a named handler that turns events into read-model items
+ *
+ * @example
+ * ```typescript
+ * export const balances: Projection = {
+ *   name: 'account-balances',
+ *   eventTypes: ['Deposited', 'Withdrawn'],
+ *   async handle(event, ctx) {
+ *     const key = { pk: `BALANCE#${event.aggregateId}`, sk: 'CURRENT' }
+ *     const current = await ctx.get<{ balance: number }>(key)
+ *     const amount = (event.data as { amount: number }).amount
+ *     ctx.put(key, { balance: (current?.balance ?? 0) + (event.eventType === 'Deposited' ? amount : -amount) })
+ *   },
+ * }
+ * ```
+ */
+export interface Projection {
+  /** Unique projection name */
+  name: string
+  /** Event types to handle (default: all) */
+  eventTypes?: string[]
+  /** Apply one event to the read model */
+  handle: (_event: ProjectionEvent, _context: ProjectionContext) => void | Promise<void>
+}
+
+/**
+ * Projection checkpoint, stored in the read-model table
+ */
+export interface ProjectionCheckpoint {
+  projection: string
+  /** Position of the last event processed by catch-up */
+  position?: string
+  /** Events processed by catch-up since the last rebuild */
+  eventCount: number
+  status: 'ACTIVE' | 'REBUILDING'
+  updatedAt: Date
+}
+
+/**
+ * Source of events for catch-up: calls `onPage` with events after
+ * `fromPosition`, in ascending position order
+ */
+export type ProjectionEventSource = (
+  _options: { fromPosition?: string, eventTypes?: string[], pageSize: number },
+  _onPage: (_events: ProjectionEvent[]) => Promise<void>,
+) => Promise<void>
+
+/**
+ * Projection runner options
+ */
+export interface ProjectionRunnerOptions {
+  /** Event store whose events are projected */
+  store: EventStore
+  /** Table holding read models, checkpoints and applied markers (default: `<events table>-read-models`) */
+  readModelTable?: string
+  /** Projections to run */
+  projections?: Projection[]
+  /** Events per catch-up page; the checkpoint is saved after each page (default: 100) */
+  pageSize?: number
+  /** Catch-up event source (default: the global log of the store, or a scan ordered by timestamp without one) */
+  source?: ProjectionEventSource
+  /** Most events the default scan source orders in memory before failing the run (default: 10,000) */
+  maxScanEvents?: number
+}
+
+/**
+ * Result of a catch-up or rebuild
+ */
+export interface ProjectionRunResult {
+  projection: string
+  /** Events applied */
+  applied: number
+  /** Events skipped because they were already applied */
+  skipped: number
+  /** Checkpoint position after the run */
+  position?: string
+  durationMs: number
+}
+
+/**
+ * Error raised when a projection handler fails. Catch-up saves the checkpoint
+ * before the failed event, so the next run retries it.
+ */
+export class ProjectionError extends Error {
+  public readonly projection: string
+  public readonly eventId: string
+  public readonly position: string
+  public readonly cause: unknown
+
+  constructor(projection: string, event: ProjectionEvent, cause: unknown) {
+    super(`Projection ${projection} failed on ${event.eventType} ${event.eventId} at ${event.position}: ${cause instanceof Error ? cause.message : String(cause)}`)
+    this.name = 'ProjectionError'
+    this.projection = projection
+    this.eventId = event.eventId
+    this.position = event.position
+    this.cause = cause
+  }
+}
+
+/**
+ * Runs projections over the event store. Catch-up reads events after the
+ * checkpoint of each projection; `attach` applies new events as they arrive
+ * on a `StreamProcessor`. Each event is applied in one transaction with a
+ * marker item, so catch-up and stream deliveries of the same event apply it
+ * once. Rebuilding deletes everything a projection wrote and replays the
+ * store from the beginning.
+ *
+ * The default source reads the global log when the store keeps one (the
+ * 'time' and 'hybrid' partition strategies). Otherwise it scans the events
+ * table for events from the checkpoint timestamp on and orders them by
+ * timestamp, aggregate and version, so clock skew between writers can
+ * reorder events of different aggregates. Those events are held in memory
+ * to order them, so a run that scans more than `maxScanEvents` (a rebuild
+ * of a large store, or a catch-up far behind) fails before applying any;
+ * keep a global log or pass a `source` for those.
+ *
+ * @example
+ * ```typescript
+ * const runner = createProjectionRunner(driver, { store, projections: [balances] })
+ *
+ * await runner.catchUp()
+ * runner.attach(streamProcessor)
+ *
+ * // Recover a broken read model
+ * await runner.rebuild('account-balances')
+ * ```
+ */
+export class ProjectionRunner {
+  private driver: DriverPlugin
+  private store: EventStore
+  private tableName: string
+  private projections: Map<string, Projection> = new Map()
+  private pageSize: number
+  private source: ProjectionEventSource
+  private maxScanEvents: number
+
+  constructor(driver: DriverPlugin, options: ProjectionRunnerOptions) {
+    this.driver = driver
+    this.store = options.store
+    this.tableName = options.readModelTable ?? `${options.store.getTableName()}-read-models`
+    this.pageSize = options.pageSize ?? 100
+    this.maxScanEvents = options.maxScanEvents ?? 10_000
+    this.source = options.source ?? (options.store.keepsGlobalLog()
+      ? (sourceOptions, onPage) => this.readLog(sourceOptions, onPage)
+      : (sourceOptions, onPage) => this.scanEvents(sourceOptions, onPage))
+    for (const projection of options.projections ?? []) {
+      this.register(projection)
+    }
+  }
+
+  /**
+   * Register a projection
+   */
+  register(projection: Projection): this {
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection ${projection.name} is already registered`)
+    }
+    this.projections.set(projection.name, projection)
+    return this
+  }
+
+  /**
+   * Names of the registered projections
+   */
+  getProjectionNames(): string[] {
+    return [...this.projections.keys()]
+  }
+
+  /**
+   * Get the read-model table name
+   */
+  getTableName(): string {
+    return this.tableName
+  }
+
+  /**
+   * Apply the events after the checkpoint of one projection, or of every
+   * registered projection when no name is given
+   */
+  async catchUp(name?: string): Promise<ProjectionRunResult[]> {
+    const names = name ? [this.get(name).name] : this.getProjectionNames()
+    const results: ProjectionRunResult[] = []
+    for (const projectionName of names) {
+      results.push(await this.run(this.get(projectionName)))
+    }
+    return results
+  }
+
+  /**
+   * Delete the read-model items, applied markers and checkpoint of a
+   * projection, then replay every event from the beginning
+   */
+  async rebuild(name: string): Promise<ProjectionRunResult> {
+    const projection = this.get(name)
+    await this.saveCheckpoint({ projection: name, eventCount: 0, status: 'REBUILDING', updatedAt: new Date() })
+    await this.deleteProjectionItems(name)
+    return this.run(projection, true)
+  }
+
+  /**
+   * Get the checkpoint of a projection, or `null` before its first run
+   */
+  async getCheckpoint(name: string): Promise<ProjectionCheckpoint | null> {
+    const item = await this.driver.getItem({ tableName: this.tableName, key: checkpointKey(name), consistentRead: true })
+    if (!item) {
+      return null
+    }
+
+    const data = unmarshallItem(item as DynamoDBItem) as Record<string, unknown>
+    return {
+      projection: name,
+      position: data.position as string | undefined,
+      eventCount: Number(data.eventCount ?? 0),
+      status: data.status as ProjectionCheckpoint['status'],
+      updatedAt: new Date(data.updatedAt as string),
+    }
+  }
+
+  /**
+   * Apply the event in a stream record (an event store INSERT) to every
+   * projection that handles its type. Other records are ignored.
+   */
+  async handleStreamRecord(record: StreamRecord): Promise<void> {
+    if (record.eventType !== 'INSERT' || record.entityType !== 'Event' || !record.newImage) {
+      return
+    }
+
+    const [event] = this.store.parseEvents([record.newImage])
+    const positioned = { ...event, position: eventPosition(event) }
+    for (const projection of this.projections.values()) {
+      if (handles(projection, positioned)) {
+        await this.apply(projection, positioned)
+      }
+    }
+  }
+
+  /**
+   * Apply new events from a stream processor reading the events table
+   */
+  attach(processor: StreamProcessor): StreamProcessor {
+    return processor.onInsert(record => this.handleStreamRecord(record))
+  }
+
+  /**
+   * Catch a projection up from its checkpoint, or from the beginning
+   */
+  private async run(projection: Projection, fromStart = false): Promise<ProjectionRunResult> {
+    const startTime = Date.now()
+    const checkpoint = fromStart ? null : await this.getCheckpoint(projection.name)
+    let position = checkpoint?.position
+    let eventCount = checkpoint?.eventCount ?? 0
+    let applied = 0
+    let skipped = 0
+
+    const save = () => this.saveCheckpoint({ projection: projection.name, position, eventCount, status: 'ACTIVE', updatedAt: new Date() })
+
+    try {
+      await this.source({ fromPosition: position, eventTypes: projection.eventTypes, pageSize: this.pageSize }, async (events) => {
+        for (const event of events) {
+          if (!handles(projection, event) || (position !== undefined && event.position <= position)) {
+            continue
+          }
+          if (await this.apply(projection, event)) {
+            applied++
+          }
+          else {
+            skipped++
+          }
+          position = event.position
+          eventCount++
+        }
+        await save()
+      })
+    }
+    catch (error) {
+      await save()
+      throw error
+    }
+
+    await save()
+    return { projection: projection.name, applied, skipped, position, durationMs: Date.now() - startTime }
+  }
+
+  /**
+   * Run the handler and commit its writes with the applied marker. Returns
+   * false when the event was already applied. Items the handler read must be
+   * unchanged at commit, otherwise the handler runs again on fresh reads.
+   */
+  private async apply(projection: Projection, event: ProjectionEvent): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+      const outcome = await this.tryApply(projection, event)
+      if (outcome !== 'conflict') {
+        return outcome === 'applied'
+      }
+      if (attempt >= MAX_APPLY_ATTEMPTS) {
+        throw new ProjectionError(projection.name, event, new Error(`Read-model items kept changing during ${MAX_APPLY_ATTEMPTS} attempts`))
+      }
+    }
+  }
+
+  private async tryApply(projection: Projection, event: ProjectionEvent): Promise<'applied' | 'skipped' | 'conflict'> {
+    const reads = new Map<string, { key: ReadModelKey, position?: string }>()
+    const writes = new Map<string, { key: ReadModelKey, data?: Record<string, unknown> }>()
+    const context: ProjectionContext = {
+      projection: projection.name,
+      tableName: this.tableName,
+      get: async <T extends Record<string, unknown>>(key: ReadModelKey) => {
+        const buffered = writes.get(writeId(key))
+        if (buffered) {
+          return (buffered.data ?? null) as T | null
+        }
+        const item = await this.driver.getItem({ tableName: this.tableName, key: toKey(key), consistentRead: true })
+        if (!reads.has(writeId(key))) {
+          reads.set(writeId(key), { key, position: (item?._position as { S?: string } | undefined)?.S })
+        }
+        return item ? readModelData(item as DynamoDBItem) as T : null
+      },
+      put: (key, data) => {
+        writes.set(writeId(key), { key, data })
+      },
+      delete: (key) => {
+        writes.set(writeId(key), { key })
+      },
+    }
+
+    try {
+      await projection.handle(event, context)
+    }
+    catch (error) {
+      throw new ProjectionError(projection.name, event, error)
+    }
+
+    const checks = [...reads.keys()].filter(id => !writes.has(id)).length
+    if (1 + writes.size + checks > MAX_TRANSACTION_ITEMS) {
+      throw new ProjectionError(projection.name, event, new Error(`A handler can read and write at most ${MAX_TRANSACTION_ITEMS - 1} items per event`))
+    }
+
+    const transactItems: TransactWriteItemsInput['transactItems'] = [{
+      put: {
+        tableName: this.tableName,
+        item: this.toItem({ pk: projectionPk(projection.name), sk: `APPLIED#${eventKey(event)}` }, projection.name, event, {}),
+        conditionExpression: 'attribute_not_exists(#pk)',
+        expressionAttributeNames: { '#pk': 'pk' },
+      },
+    }]
+    for (const [id, { key, data }] of writes) {
+      const read = reads.get(id)
+      const condition = read ? unchanged(read) : {}
+      transactItems.push(data
+        ? { put: { tableName: this.tableName, item: this.toItem(key, projection.name, event, data), ...condition } }
+        : { delete: { tableName: this.tableName, key: toKey(key), ...condition } })
+    }
+    for (const [id, read] of reads) {
+      if (!writes.has(id)) {
+        transactItems.push({ conditionCheck: { tableName: this.tableName, key: toKey(read.key), ...unchanged(read) } })
+      }
+    }
+
+    try {
+      await this.driver.transactWriteItems({ transactItems })
+      return 'applied'
+    }
+    catch (error) {
+      if (isTransactionCancelledError(error)) {
+        const failures = error.getConditionalCheckFailures()
+        if (failures.includes(0)) {
+          return 'skipped'
+        }
+        if (failures.length > 0) {
+          return 'conflict'
+        }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Default source with a global log: read it after the checkpoint
+   */
+  private async readLog(
+    options: { fromPosition?: string, eventTypes?: string[], pageSize: number },
+    onPage: (_events: ProjectionEvent[]) => Promise<void>,
+  ): Promise<void> {
+    const log = new EventLog(this.driver, { store: this.store, pageSize: options.pageSize })
+    await log.readAll(
+      { fromPosition: options.fromPosition === undefined ? 1 : Number(options.fromPosition) + 1, eventTypes: options.eventTypes },
+      events => onPage(events.map(event => ({ ...event, position: eventPosition(event) }))),
+    )
+  }
+
+  /**
+   * Default source without a global log: scan the events from the timestamp
+   * of the checkpoint on, then page through them in position order
+   */
+  private async scanEvents(
+    options: { fromPosition?: string, eventTypes?: string[], pageSize: number },
+    onPage: (_events: ProjectionEvent[]) => Promise<void>,
+  ): Promise<void> {
+    const names: Record<string, string> = { '#et': '_et' }
+    const values: Record<string, AttributeValue> = { ':event': { S: 'Event' } }
+    let filterExpression = '#et = :event'
+    if (options.fromPosition !== undefined) {
+      // Events of the same millisecond may sort after the checkpoint
+      names['#timestamp'] = 'timestamp'
+      values[':from'] = { S: options.fromPosition.split('#')[0] }
+      filterExpression += ' AND #timestamp >= :from'
+    }
+    if (options.eventTypes?.length) {
+      const placeholders = options.eventTypes.map((type, i) => {
+        values[`:type${i}`] = { S: type }
+        return `:type${i}`
+      })
+      names['#type'] = 'eventType'
+      filterExpression += ` AND #type IN (${placeholders.join(', ')})`
+    }
+
+    const events: ProjectionEvent[] = []
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+    do {
+      const page = await this.driver.scan({
+        tableName: this.store.getTableName(),
+        filterExpression,
+        expressionAttributeNames: names,
+        expressionAttributeValues: values,
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      for (const event of this.store.parseEvents(page.items)) {
+        const position = eventPosition(event)
+        if (options.fromPosition === undefined || position > options.fromPosition) {
+          events.push({ ...event, position })
+        }
+      }
+      if (events.length > this.maxScanEvents) {
+        throw new Error(`More than ${this.maxScanEvents} events to order in memory from ${this.store.getTableName()}; keep a global log on the event store or pass a source to the projection runner`)
+      }
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+    } while (exclusiveStartKey)
+
+    events.sort((a, b) => (a.position < b.position ? -1 : a.position > b.position ? 1 : 0))
+    for (let i = 0; i < events.length; i += options.pageSize) {
+      await onPage(events.slice(i, i + options.pageSize))
+    }
+  }
+
+  /**
+   * Delete every item written for a projection except its checkpoint
+   */
+  private async deleteProjectionItems(name: string): Promise<void> {
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+    do {
+      const page = await this.driver.scan({
+        tableName: this.tableName,
+        filterExpression: '#projection = :name',
+        expressionAttributeNames: { '#projection': '_projection' },
+        expressionAttributeValues: { ':name': { S: name } },
+        projectionExpression: 'pk, sk',
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      for (let i = 0; i < page.items.length; i += 25) {
+        const requests = page.items.slice(i, i + 25).map(item => ({ deleteRequest: { key: { pk: item.pk, sk: item.sk } as Record<string, AttributeValue> } }))
+        await writeBatchWithRetry(this.driver, this.tableName, requests)
+      }
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+    } while (exclusiveStartKey)
+  }
+
+  private async saveCheckpoint(checkpoint: ProjectionCheckpoint): Promise<void> {
+    const { updatedAt, ...rest } = checkpoint
+    await this.driver.putItem({
+      tableName: this.tableName,
+      item: {
+        ...marshallObject({ ...rest, updatedAt: updatedAt.toISOString() } as JSObject) as Record<string, AttributeValue>,
+        ...checkpointKey(checkpoint.projection),
+      },
+    })
+  }
+
+  private toItem(key: ReadModelKey, projection: string, event: ProjectionEvent, data: Record<string, unknown>): Record<string, AttributeValue> {
+    return {
+      ...marshallObject(data as JSObject) as Record<string, AttributeValue>,
+      ...toKey(key),
+      _projection: { S: projection },
+      _position: { S: event.position },
+    }
+  }
+
+  private get(name: string): Projection {
+    const projection = this.projections.get(name)
+    if (!projection) {
+      throw new Error(`Unknown projection ${name}. Registered: ${this.getProjectionNames().join(', ') || 'none'}`)
+    }
+    return projection
+  }
+}
+
+/**
+ * Create a projection runner
+ */
+export function createProjectionRunner(driver: DriverPlugin, options: ProjectionRunnerOptions): ProjectionRunner {
+  return new ProjectionRunner(driver, options)
+}
+
+/**
+ * Import the projections exported by the modules in a directory. A module
+ * that fails to load is passed to `onLoadError`, or fails the discovery
+ * without one. A missing directory holds no projections.
+ */
+export async function discoverProjections(
+  projectionsPath: string,
+  onLoadError?: (_file: string, _error: unknown) => void,
+): Promise<Projection[]> {
+  const fs = await import('node:fs/promises')
+  const path = await import('node:path')
+
+  let files: string[]
+  try {
+    files = await fs.readdir(projectionsPath)
+  }
+  catch {
+    return []
+  }
+
+  const projections: Projection[] = []
+  for (const file of files) {
+    if ((!file.endsWith('.ts') && !file.endsWith('.js')) || file.startsWith('index.')) {
+      continue
+    }
+
+    try {
+      const module = await import(path.resolve(projectionsPath, file))
+      for (const exported of Object.values(module)) {
+        if (isProjection(exported)) {
+          projections.push(exported)
+        }
+      }
+    }
+    catch (error) {
+      if (!onLoadError) {
+        throw error
+      }
+      onLoadError(file, error)
+    }
+  }
+
+  return projections
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Position of an event: its zero-padded global position, or without a global
+ * log its timestamp, then stream and version, so events of one stream keep
+ * their order
+ */
+function eventPosition(event: DomainEvent): string {
+  if (event.globalPosition !== undefined) {
+    return String(event.globalPosition).padStart(16, '0')
+  }
+  return `${event.timestamp.toISOString()}#${eventKey(event)}`
+}
+
+function eventKey(event: DomainEvent): string {
+  return `${event.aggregateType}#${event.aggregateId}#${String(event.version).padStart(10, '0')}`
+}
+
+function handles(projection: Projection, event: DomainEvent): boolean {
+  return !projection.eventTypes?.length || projection.eventTypes.includes(event.eventType)
+}
+
+function isProjection(value: unknown): value is Projection {
+  return typeof value === 'object' && value !== null
+    && typeof (value as Projection).name === 'string'
+    && typeof (value as Projection).handle === 'function'
+}
+
+function projectionPk(name: string): string {
+  return `PROJECTION#${name}`
+}
+
+function checkpointKey(name: string): Record<string, AttributeValue> {
+  return { pk: { S: projectionPk(name) }, sk: { S: 'CHECKPOINT' } }
+}
+
+function toKey(key: ReadModelKey): Record<string, AttributeValue> {
+  return { pk: { S: key.pk }, sk: { S: key.sk } }
+}
+
+/**
+ * Condition that an item still has the position it had when read
+ */
+function unchanged(read: { position?: string }): {
+  conditionExpression: string
+  expressionAttributeNames: Record<string, string>
+  expressionAttributeValues?: Record<string, AttributeValue>
+} {
+  return read.position === undefined
+    ? { conditionExpression: 'attribute_not_exists(#pk)', expressionAttributeNames: { '#pk': 'pk' } }
+    : { conditionExpression: '#position = :position', expressionAttributeNames: { '#position': '_position' }, expressionAttributeValues: { ':position': { S: read.position } } }
+}
+
+function writeId(key: ReadModelKey): string {
+  return `${key.pk}\u0000${key.sk}`
+}
+
+/**
+ * Read-model item without its key and bookkeeping attributes
+ */
+function readModelData(item: DynamoDBItem): Record<string, unknown> {
+  const { pk: _pk, sk: _sk, _projection, _position, ...data } = unmarshallItem(item)
+  return data
+}
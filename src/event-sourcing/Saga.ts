@@ -0,0 +1,681 @@
+// ============================================================================
+// Sagas - Process managers driven by correlated domain events
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin, TransactWriteItemsInput } from '../drivers/types'
+import type { SQSEvent, SQSHandler } from '../serverless/LambdaHandler'
+import type { StreamProcessor, StreamRecord } from '../streams/StreamProcessor'
+import type { DomainEvent, EventStore } from './EventStore'
+import { isConditionalCheckFailedError, isTransactionCancelledError } from '../types/errors'
+
+/**
+ * Times a saga handles a message again after another writer updated it first
+ */
+const MAX_SAGA_ATTEMPTS = 5
+
+/**
+ * Handled message IDs an instance remembers to skip redeliveries
+ */
+const MAX_PROCESSED_MESSAGES = 100
+
+/**
+ * Lifecycle of a saga instance
+ */
+export type SagaStatus = 'RUNNING' | 'COMPLETED' | 'COMPENSATED'
+
+/**
+ * A command or event emitted by a saga. The correlation ID is carried over
+ * from the message that triggered the saga, and the causation ID is the ID
+ * of that message.
+ */
+export interface SagaMessage<T = unknown> {
+  messageId: string
+  kind: 'command' | 'event'
+  type: string
+  data: T
+  sagaName: string
+  sagaId: string
+  correlationId: string
+  causationId: string
+  timestamp: Date
+}
+
+/**
+ * A timeout that fired
+ */
+export interface SagaTimeout<T = unknown> {
+  name: string
+  timeoutId: string
+  dueAt: Date
+  data?: T
+}
+
+/**
+ * What a saga handler can do. Everything it records is committed together
+ * with the saga state; messages are dispatched after the commit.
+ */
+export interface SagaContext<TState> {
+  sagaName: string
+  sagaId: string
+  /** Current state; mutate it or replace it with `setState` */
+  state: TState
+  setState: (_state: TState) => void
+  /** Emit a command */
+  send: <T = unknown>(_type: string, _data?: T) => void
+  /** Emit an event */
+  publish: <T = unknown>(_type: string, _data?: T) => void
+  /** Fire `onTimeout` after a delay, replacing a pending timeout of the same name */
+  requestTimeout: <T = unknown>(_name: string, _afterMs: number, _data?: T) => void
+  cancelTimeout: (_name: string) => void
+  /** Record a completed step, with the data its compensation needs */
+  step: <T = unknown>(_name: string, _compensation?: T) => void
+  /** Run the compensations of the recorded steps in reverse order and end the saga */
+  compensate: (_reason?: string) => void
+  /** End the saga */
+  complete: () => void
+}
+
+/**
+ * A saga: a process manager that reacts to correlated events
+ *
+ * @example
+ * ```typescript
+ * const checkout: Saga<{ orderId?: string }> = {
+ *   name: 'checkout',
+ *   startsOn: ['OrderPlaced'],
+ *   handles: ['PaymentCaptured', 'PaymentFailed'],
+ *   initialState: () => ({}),
+ *   handle(event, ctx) {
+ *     if (event.eventType === 'OrderPlaced') {
+ *       ctx.state.orderId = event.aggregateId
+ *       ctx.step('reserve', { orderId: event.aggregateId })
+ *       ctx.send('CapturePayment', { orderId: event.aggregateId })
+ *       ctx.requestTimeout('payment', 15 * 60_000)
+ *     }
+ *     else if (event.eventType === 'PaymentCaptured') {
+ *       ctx.complete()
+ *     }
+ *     else {
+ *       ctx.compensate('payment failed')
+ *     }
+ *   },
+ *   onTimeout: (_timeout, ctx) => ctx.compensate('payment timed out'),
+ *   compensations: {
+ *     reserve: (data, ctx) => ctx.send('ReleaseStock', data),
+ *   },
+ * }
+ * ```
+ */
+export interface Saga<TState = Record<string, unknown>> {
+  /** Unique saga name */
+  name: string
+  /** Event types that start an instance */
+  startsOn: string[]
+  /** Further event types handled by running instances */
+  handles?: string[]
+  /** Instance ID for an event (default: its correlation ID, or its event ID when it starts the saga) */
+  correlate?: (_event: DomainEvent) => string | undefined
+  /** State of a new instance */
+  initialState: (_event: DomainEvent) => TState
+  /** Handle an event */
+  handle: (_event: DomainEvent, _context: SagaContext<TState>) => void | Promise<void>
+  /** Handle a timeout */
+  onTimeout?: (_timeout: SagaTimeout, _context: SagaContext<TState>) => void | Promise<void>
+  /** Compensation per step name */
+  compensations?: Record<string, (_data: unknown, _context: SagaContext<TState>) => void | Promise<void>>
+}
+
+/**
+ * A stored saga instance
+ */
+export interface SagaInstance<TState = unknown> {
+  sagaName: string
+  sagaId: string
+  status: SagaStatus
+  state: TState
+  version: number
+  /** Correlation ID of the event that started the saga */
+  correlationId: string
+  steps: Array<{ name: string, compensation?: unknown }>
+  timeouts: Record<string, { timeoutId: string, dueAt: string, data?: unknown }>
+  /** IDs of the latest events and timeouts handled, up to 100 */
+  processed: string[]
+  /** Messages committed but not yet dispatched */
+  outbox: SagaMessage[]
+  compensationReason?: string
+  startedAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Saga manager options. `TStates` holds the state type of each saga.
+ */
+export interface SagaManagerOptions<TStates extends unknown[] = unknown[]> {
+  /** Event store, used to read events from stream records */
+  store: EventStore
+  /** Sagas to run */
+  sagas?: { [K in keyof TStates]: Saga<TStates[K]> }
+  /** Table holding saga state and timeouts (default: `<events table>-sagas`) */
+  tableName?: string
+  /** Deliver an emitted command or event; called at least once per message */
+  dispatch: (_message: SagaMessage) => void | Promise<void>
+  /** TTL attribute enabled on the saga table (default: 'ttl') */
+  ttlAttribute?: string
+  /** Seconds finished instances are kept before TTL removes them (default: 7 days) */
+  retainFinishedSeconds?: number
+  /** Current time (default: the system clock) */
+  now?: () => Date
+}
+
+/**
+ * Error raised when a saga instance kept changing while a message was handled
+ */
+export class SagaConcurrencyError extends Error {
+  public readonly sagaName: string
+  public readonly sagaId: string
+
+  constructor(sagaName: string, sagaId: string) {
+    super(`Saga ${sagaName}#${sagaId} was updated by other writers ${MAX_SAGA_ATTEMPTS} times while handling a message`)
+    this.name = 'SagaConcurrencyError'
+    this.sagaName = sagaName
+    this.sagaId = sagaId
+  }
+}
+
+/**
+ * Runs sagas against the events of an event store. Each instance is one
+ * item updated with optimistic locking; a message is handled again on fresh
+ * state when another writer got there first, and handled messages are
+ * remembered so redelivery is harmless. Emitted messages are committed with
+ * the state and dispatched afterwards, so they are delivered at least once.
+ *
+ * Timeouts are items with a TTL. When TTL deletes one, its stream REMOVE
+ * record fires it; `runDueTimeouts` fires timeouts that TTL has not deleted
+ * yet. Enable TTL on `ttlAttribute` of the saga table.
+ *
+ * @example
+ * ```typescript
+ * const sagas = createSagaManager(driver, { store, sagas: [checkout], dispatch: sendCommand })
+ *
+ * // Events table and saga table streams
+ * sagas.attach(streamProcessor)
+ *
+ * // Events delivered through SQS
+ * export const handler = sagas.attachQueue(createSQSHandler()).build()
+ * ```
+ */
+export class SagaManager<TStates extends unknown[] = unknown[]> {
+  private driver: DriverPlugin
+  private store: EventStore
+  private sagas: Map<string, Saga<unknown>> = new Map()
+  private tableName: string
+  private dispatcher: (_message: SagaMessage) => void | Promise<void>
+  private ttlAttribute: string
+  private retainFinishedSeconds: number
+  private now: () => Date
+
+  constructor(driver: DriverPlugin, options: SagaManagerOptions<TStates>) {
+    if (typeof options.dispatch !== 'function') {
+      throw new Error('The saga manager needs a dispatch option to deliver the messages sagas emit')
+    }
+    this.driver = driver
+    this.store = options.store
+    this.tableName = options.tableName ?? `${options.store.getTableName()}-sagas`
+    this.dispatcher = options.dispatch
+    this.ttlAttribute = options.ttlAttribute ?? 'ttl'
+    this.retainFinishedSeconds = options.retainFinishedSeconds ?? 7 * 86_400
+    this.now = options.now ?? (() => new Date())
+    for (const saga of options.sagas ?? []) {
+      this.register(saga)
+    }
+  }
+
+  /**
+   * Register a saga
+   */
+  register<TState>(saga: Saga<TState>): this {
+    if (this.sagas.has(saga.name)) {
+      throw new Error(`Saga ${saga.name} is already registered`)
+    }
+    this.sagas.set(saga.name, saga as Saga<unknown>)
+    return this
+  }
+
+  /**
+   * Get the saga table name
+   */
+  getTableName(): string {
+    return this.tableName
+  }
+
+  /**
+   * Get a saga instance
+   */
+  async getInstance<TState = unknown>(sagaName: string, sagaId: string): Promise<SagaInstance<TState> | null> {
+    const item = await this.driver.getItem({ tableName: this.tableName, key: instanceKey(sagaName, sagaId), consistentRead: true })
+    return item ? fromItem(item as Record<string, AttributeValue>) as SagaInstance<TState> : null
+  }
+
+  /**
+   * Handle an event in every saga that starts on or handles its type
+   */
+  async handleEvent(event: DomainEvent): Promise<void> {
+    for (const saga of this.sagas.values()) {
+      const starts = saga.startsOn.includes(event.eventType)
+      if (!starts && !saga.handles?.includes(event.eventType)) {
+        continue
+      }
+
+      const sagaId = saga.correlate ? saga.correlate(event) : event.correlationId ?? (starts ? event.eventId : undefined)
+      if (sagaId) {
+        await this.run(saga, sagaId, event.eventId, async (_instance, context) => {
+          await saga.handle(event, context)
+        }, starts ? event : undefined, event)
+      }
+    }
+  }
+
+  /**
+   * Fire a timeout if it is still pending on its saga instance
+   */
+  async fireTimeout(sagaName: string, sagaId: string, timeoutId: string): Promise<void> {
+    const saga = this.sagas.get(sagaName)
+    if (!saga) {
+      return
+    }
+
+    await this.run(saga, sagaId, timeoutId, async (instance, context) => {
+      const [name, pending] = Object.entries(instance.timeouts).find(([, timeout]) => timeout.timeoutId === timeoutId) ?? []
+      if (!name || !pending) {
+        return false
+      }
+      context.cancelTimeout(name)
+      await saga.onTimeout?.({ name, timeoutId, dueAt: new Date(pending.dueAt), data: pending.data }, context)
+    })
+  }
+
+  /**
+   * Fire the timeouts that are due but not yet removed by TTL
+   */
+  async runDueTimeouts(): Promise<number> {
+    const now = this.now()
+    let fired = 0
+    let exclusiveStartKey: Record<string, AttributeValue> | undefined
+
+    do {
+      const page = await this.driver.scan({
+        tableName: this.tableName,
+        filterExpression: '#et = :timeout AND #dueAt <= :now',
+        expressionAttributeNames: { '#et': '_et', '#dueAt': 'dueAt' },
+        expressionAttributeValues: { ':timeout': { S: 'SagaTimeout' }, ':now': { S: now.toISOString() } },
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      for (const item of page.items) {
+        const text = (name: string) => (item[name] as { S: string }).S
+        await this.fireTimeout(text('sagaName'), text('sagaId'), text('timeoutId'))
+        fired++
+      }
+      exclusiveStartKey = page.lastEvaluatedKey as Record<string, AttributeValue> | undefined
+    } while (exclusiveStartKey)
+
+    return fired
+  }
+
+  /**
+   * Handle a stream record: inserted events from the events table, and
+   * timeouts removed from the saga table by TTL
+   */
+  async handleStreamRecord(record: StreamRecord): Promise<void> {
+    if (record.eventType === 'INSERT' && record.entityType === 'Event' && record.newImage) {
+      const [event] = this.store.parseEvents([record.newImage])
+      await this.handleEvent(event)
+    }
+    else if (record.eventType === 'REMOVE' && record.entityType === 'SagaTimeout' && record.oldImage) {
+      const text = (name: string) => (record.oldImage![name] as { S: string }).S
+      await this.fireTimeout(text('sagaName'), text('sagaId'), text('timeoutId'))
+    }
+  }
+
+  /**
+   * Drive the sagas from a stream processor
+   */
+  attach(processor: StreamProcessor): StreamProcessor {
+    return processor.addHandler(record => this.handleStreamRecord(record))
+  }
+
+  /**
+   * Handle an SQS message whose body is a domain event, sent directly or
+   * wrapped in an SNS notification
+   */
+  async handleQueueMessage(message: SQSEvent['Records'][0]): Promise<void> {
+    await this.handleEvent(parseQueuedEvent(message.body))
+  }
+
+  /**
+   * Drive the sagas from an SQS handler
+   */
+  attachQueue(handler: SQSHandler): SQSHandler {
+    return handler.onMessage(message => this.handleQueueMessage(message))
+  }
+
+  /**
+   * Load or start an instance, run a handler on it and commit the result,
+   * retrying on fresh state when the instance changed meanwhile
+   */
+  private async run<TState>(
+    saga: Saga<TState>,
+    sagaId: string,
+    messageId: string,
+    handler: (_instance: SagaInstance<TState>, _context: SagaContext<TState>) => Promise<void | false>,
+    startEvent?: DomainEvent,
+    trigger?: DomainEvent,
+  ): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_SAGA_ATTEMPTS; attempt++) {
+      let instance = await this.getInstance<TState>(saga.name, sagaId)
+      if (instance?.outbox.length) {
+        instance = await this.flushOutbox(instance)
+        if (!instance) {
+          continue
+        }
+      }
+      if (instance && (instance.status !== 'RUNNING' || instance.processed.includes(messageId))) {
+        return
+      }
+      if (!instance && !startEvent) {
+        return
+      }
+
+      const now = this.now()
+      const current: SagaInstance<TState> = instance ?? {
+        sagaName: saga.name,
+        sagaId,
+        status: 'RUNNING',
+        state: saga.initialState(startEvent!),
+        version: 0,
+        correlationId: startEvent!.correlationId ?? startEvent!.eventId,
+        steps: [],
+        timeouts: {},
+        processed: [],
+        outbox: [],
+        startedAt: now,
+        updatedAt: now,
+      }
+      const { context, result } = this.createContext(saga, current, {
+        correlationId: trigger ? trigger.correlationId ?? trigger.eventId : current.correlationId,
+        causationId: messageId,
+      })
+
+      if (await handler(current, context) === false) {
+        return
+      }
+      if (result.compensating) {
+        for (const step of [...result.steps].reverse()) {
+          await saga.compensations?.[step.name]?.(step.compensation, context)
+        }
+        result.steps = []
+      }
+
+      const status: SagaStatus = result.compensating ? 'COMPENSATED' : result.completed ? 'COMPLETED' : 'RUNNING'
+      const next: SagaInstance<TState> = {
+        ...current,
+        state: context.state,
+        status,
+        version: current.version + 1,
+        steps: result.steps,
+        // Finished sagas drop their pending timeouts
+        timeouts: status === 'RUNNING' ? result.timeouts : {},
+        processed: [...current.processed, messageId].slice(-MAX_PROCESSED_MESSAGES),
+        outbox: result.outbox,
+        compensationReason: result.compensationReason,
+        updatedAt: now,
+      }
+
+      if (await this.commit(current, next)) {
+        if (next.outbox.length > 0) {
+          await this.flushOutbox(next)
+        }
+        return
+      }
+    }
+
+    throw new SagaConcurrencyError(saga.name, sagaId)
+  }
+
+  private createContext<TState>(
+    saga: Saga<TState>,
+    instance: SagaInstance<TState>,
+    cause: { correlationId: string, causationId: string },
+  ): {
+      context: SagaContext<TState>
+      result: {
+        completed: boolean
+        compensating: boolean
+        compensationReason?: string
+        steps: SagaInstance['steps']
+        timeouts: SagaInstance['timeouts']
+        outbox: SagaMessage[]
+      }
+    } {
+    const result = {
+      completed: false,
+      compensating: false,
+      compensationReason: undefined as string | undefined,
+      steps: [...instance.steps],
+      timeouts: { ...instance.timeouts },
+      outbox: [] as SagaMessage[],
+    }
+    const emit = (kind: 'command' | 'event', type: string, data: unknown) => {
+      result.outbox.push({
+        messageId: generateId(),
+        kind,
+        type,
+        data,
+        sagaName: saga.name,
+        sagaId: instance.sagaId,
+        correlationId: cause.correlationId,
+        causationId: cause.causationId,
+        timestamp: this.now(),
+      })
+    }
+
+    const context: SagaContext<TState> = {
+      sagaName: saga.name,
+      sagaId: instance.sagaId,
+      state: structuredClone(instance.state),
+      setState: (state) => {
+        context.state = state
+      },
+      send: (type, data) => emit('command', type, data),
+      publish: (type, data) => emit('event', type, data),
+      requestTimeout: (name, afterMs, data) => {
+        result.timeouts[name] = { timeoutId: generateId(), dueAt: new Date(this.now().getTime() + afterMs).toISOString(), data }
+      },
+      cancelTimeout: (name) => {
+        delete result.timeouts[name]
+      },
+      step: (name, compensation) => {
+        result.steps.push({ name, compensation })
+      },
+      compensate: (reason) => {
+        result.compensating = true
+        result.compensationReason = reason
+      },
+      complete: () => {
+        result.completed = true
+      },
+    }
+    return { context, result }
+  }
+
+  /**
+   * Write the instance if its version is unchanged, adding and deleting
+   * timeout items to match. Returns false when another writer got there first.
+   */
+  private async commit<TState>(previous: SagaInstance<TState>, next: SagaInstance<TState>): Promise<boolean> {
+    const finished = next.status !== 'RUNNING'
+    const transactItems: TransactWriteItemsInput['transactItems'] = [{
+      put: {
+        tableName: this.tableName,
+        item: {
+          ...toItem(next),
+          ...(finished ? { [this.ttlAttribute]: { N: String(Math.floor(next.updatedAt.getTime() / 1000) + this.retainFinishedSeconds) } } : {}),
+        },
+        ...versionCondition(previous.version),
+      },
+    }]
+
+    for (const [name, timeout] of Object.entries(next.timeouts)) {
+      if (previous.timeouts[name]?.timeoutId !== timeout.timeoutId) {
+        transactItems.push({
+          put: {
+            tableName: this.tableName,
+            item: {
+              ...timeoutKey(next.sagaName, next.sagaId, name),
+              _et: { S: 'SagaTimeout' },
+              sagaName: { S: next.sagaName },
+              sagaId: { S: next.sagaId },
+              name: { S: name },
+              timeoutId: { S: timeout.timeoutId },
+              dueAt: { S: timeout.dueAt },
+              [this.ttlAttribute]: { N: String(Math.ceil(new Date(timeout.dueAt).getTime() / 1000)) },
+            },
+          },
+        })
+      }
+    }
+    for (const name of Object.keys(previous.timeouts)) {
+      if (!next.timeouts[name]) {
+        transactItems.push({ delete: { tableName: this.tableName, key: timeoutKey(next.sagaName, next.sagaId, name) } })
+      }
+    }
+
+    try {
+      await this.driver.transactWriteItems({ transactItems })
+      return true
+    }
+    catch (error) {
+      if (isTransactionCancelledError(error) && error.getConditionalCheckFailures().includes(0)) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Dispatch the committed messages of an instance and clear its outbox.
+   * Returns the updated instance, or null when another writer updated it.
+   */
+  private async flushOutbox<TState>(instance: SagaInstance<TState>): Promise<SagaInstance<TState> | null> {
+    for (const message of instance.outbox) {
+      await this.dispatcher(message)
+    }
+
+    const condition = versionCondition(instance.version)
+    try {
+      await this.driver.updateItem({
+        tableName: this.tableName,
+        key: instanceKey(instance.sagaName, instance.sagaId),
+        updateExpression: 'SET #outbox = :empty, #version = :next',
+        conditionExpression: condition.conditionExpression,
+        expressionAttributeNames: { ...condition.expressionAttributeNames, '#outbox': 'outbox' },
+        expressionAttributeValues: { ...condition.expressionAttributeValues, ':empty': { S: '[]' }, ':next': { N: String(instance.version + 1) } },
+      })
+      return { ...instance, outbox: [], version: instance.version + 1 }
+    }
+    catch (error) {
+      if (isConditionalCheckFailedError(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * Create a saga manager
+ */
+export function createSagaManager<TStates extends unknown[]>(driver: DriverPlugin, options: SagaManagerOptions<TStates>): SagaManager<TStates> {
+  return new SagaManager(driver, options)
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function instanceKey(sagaName: string, sagaId: string): Record<string, AttributeValue> {
+  return { pk: { S: `SAGA#${sagaName}#${sagaId}` }, sk: { S: 'STATE' } }
+}
+
+function timeoutKey(sagaName: string, sagaId: string, name: string): Record<string, AttributeValue> {
+  return { pk: { S: `SAGA#${sagaName}#${sagaId}` }, sk: { S: `TIMEOUT#${name}` } }
+}
+
+function versionCondition(version: number): {
+  conditionExpression: string
+  expressionAttributeNames: Record<string, string>
+  expressionAttributeValues?: Record<string, AttributeValue>
+} {
+  return version === 0
+    ? { conditionExpression: 'attribute_not_exists(#pk)', expressionAttributeNames: { '#pk': 'pk' } }
+    : { conditionExpression: '#version = :version', expressionAttributeNames: { '#version': 'version' }, expressionAttributeValues: { ':version': { N: String(version) } } }
+}
+
+function toItem(instance: SagaInstance<unknown>): Record<string, AttributeValue> {
+  return {
+    ...instanceKey(instance.sagaName, instance.sagaId),
+    _et: { S: 'Saga' },
+    sagaName: { S: instance.sagaName },
+    sagaId: { S: instance.sagaId },
+    status: { S: instance.status },
+    state: { S: JSON.stringify(instance.state ?? null) },
+    version: { N: String(instance.version) },
+    correlationId: { S: instance.correlationId },
+    steps: { S: JSON.stringify(instance.steps) },
+    timeouts: { S: JSON.stringify(instance.timeouts) },
+    processed: { S: JSON.stringify(instance.processed) },
+    outbox: { S: JSON.stringify(instance.outbox) },
+    ...(instance.compensationReason ? { compensationReason: { S: instance.compensationReason } } : {}),
+    startedAt: { S: instance.startedAt.toISOString() },
+    updatedAt: { S: instance.updatedAt.toISOString() },
+  }
+}
+
+function fromItem(item: Record<string, AttributeValue>): SagaInstance<unknown> {
+  const text = (name: string) => (item[name] as { S: string } | undefined)?.S
+  const json = (name: string) => JSON.parse(text(name) ?? 'null')
+
+  return {
+    sagaName: text('sagaName')!,
+    sagaId: text('sagaId')!,
+    status: text('status') as SagaStatus,
+    state: json('state'),
+    version: Number((item.version as { N: string }).N),
+    correlationId: text('correlationId')!,
+    steps: json('steps') ?? [],
+    timeouts: json('timeouts') ?? {},
+    processed: json('processed') ?? [],
+    outbox: ((json('outbox') ?? []) as SagaMessage[]).map(message => ({ ...message, timestamp: new Date(message.timestamp) })),
+    compensationReason: text('compensationReason'),
+    startedAt: new Date(text('startedAt')!),
+    updatedAt: new Date(text('updatedAt')!),
+  }
+}
+
+/**
+ * Read a domain event from an SQS message body, unwrapping SNS notifications
+ */
+function parseQueuedEvent(body: string): DomainEvent {
+  let parsed = JSON.parse(body) as Record<string, unknown>
+  if (parsed.Type === 'Notification' && typeof parsed.Message === 'string') {
+    parsed = JSON.parse(parsed.Message) as Record<string, unknown>
+  }
+  if (typeof parsed.eventId !== 'string' || typeof parsed.eventType !== 'string') {
+    throw new TypeError('SQS message body is not a domain event')
+  }
+  return { ...parsed, timestamp: new Date(parsed.timestamp as string) } as DomainEvent
+}
+
+function generateId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 11)}`
+}
@@ -0,0 +1,372 @@
+// ============================================================================
+// Event Upcasting - Schema versions of stored event payloads
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin } from '../drivers/types'
+import type { FullValidationResult, Validator } from '../validation/Validator'
+import type { DomainEvent, EventStore } from './EventStore'
+import { isConditionalCheckFailedError } from '../types/errors'
+
+/**
+ * Transform the payload of an event from one schema version to the next
+ */
+export type Upcaster<TFrom = unknown, TTo = unknown> = (_data: TFrom, _event: DomainEvent<TFrom>) => TTo
+
+/**
+ * Event migration options
+ */
+export interface EventMigrationOptions {
+  /** Event store configured with the upcasters to migrate with */
+  store: EventStore
+  /** Event types to migrate (default: every type with upcasters) */
+  eventTypes?: string[]
+  /** Upcast and validate without rewriting any item (default: false) */
+  dryRun?: boolean
+  /** Items read per scan page (default: 100) */
+  pageSize?: number
+  /** Called after every scan page with the counts so far */
+  onProgress?: (_result: EventMigrationResult) => void
+}
+
+/**
+ * Stored event that could not be migrated
+ */
+export interface EventMigrationFailure {
+  eventId: string
+  eventType: string
+  aggregateType: string
+  aggregateId: string
+  version: number
+  /** Schema version the event is stored at */
+  schemaVersion: number
+  /** Why the event was left as it is */
+  reason: string
+  /** Validation errors of the upcast payload by attribute */
+  errors?: Record<string, string[]>
+}
+
+/**
+ * Result of an event migration
+ */
+export interface EventMigrationResult {
+  /** Stored events read, including global log entries */
+  scanned: number
+  /** Events rewritten to the latest schema version, or that would be on a dry run */
+  migrated: number
+  /** Events already at the latest schema version, or rewritten by another run */
+  skipped: number
+  /** Events that failed to upcast or validate, left as they are */
+  failed: EventMigrationFailure[]
+  durationMs: number
+}
+
+/**
+ * Error raised when a stored event cannot be brought to the latest schema version
+ */
+export class EventUpcastError extends Error {
+  public readonly eventType: string
+  public readonly eventId: string
+  public readonly schemaVersion: number
+
+  constructor(eventType: string, eventId: string, schemaVersion: number, message: string) {
+    super(`Cannot upcast ${eventType} event ${eventId} from schema version ${schemaVersion}: ${message}`)
+    this.name = 'EventUpcastError'
+    this.eventType = eventType
+    this.eventId = eventId
+    this.schemaVersion = schemaVersion
+  }
+}
+
+/**
+ * Registry of upcasters keyed by event type and the schema version they
+ * upgrade from. An event type with upcasters from versions 1 and 2 is at
+ * schema version 3; events stored without a `schemaVersion` in their
+ * metadata are at version 1. Pass the registry to `createEventStore` and
+ * `parseEvents` hands out every event at its latest version, while new
+ * events get the latest version stamped into their metadata.
+ *
+ * @example
+ * ```typescript
+ * const upcasters = createUpcasterRegistry()
+ *   .register<{ amount: number }, { amount: number, currency: string }>('MoneyDeposited', 1, data => ({ ...data, currency: 'USD' }))
+ *   .validate('MoneyDeposited', createValidator().setRules({ amount: [rules.required()], currency: [rules.required()] }))
+ *
+ * const store = createEventStore({ tableName: 'Events', upcasters })
+ * ```
+ */
+export class UpcasterRegistry {
+  private upcasters: Map<string, Map<number, Upcaster>> = new Map()
+  private validators: Map<string, Validator> = new Map()
+
+  /**
+   * Register the upcaster of an event type from `fromVersion` to `fromVersion + 1`
+   */
+  register<TFrom = unknown, TTo = unknown>(eventType: string, fromVersion: number, upcast: Upcaster<TFrom, TTo>): this {
+    if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+      throw new Error(`Schema versions start at 1, got ${fromVersion} for ${eventType}`)
+    }
+
+    let steps = this.upcasters.get(eventType)
+    if (!steps) {
+      steps = new Map()
+      this.upcasters.set(eventType, steps)
+    }
+    if (steps.has(fromVersion)) {
+      throw new Error(`An upcaster of ${eventType} from schema version ${fromVersion} is already registered`)
+    }
+    steps.set(fromVersion, upcast as Upcaster)
+    return this
+  }
+
+  /**
+   * Validate the latest payload shape of an event type when migrating
+   */
+  validate(eventType: string, validator: Validator): this {
+    this.validators.set(eventType, validator)
+    return this
+  }
+
+  /**
+   * Add the upcasters and validators of another registry
+   */
+  merge(other: UpcasterRegistry): this {
+    for (const [eventType, steps] of other.upcasters) {
+      for (const [fromVersion, upcast] of steps) {
+        this.register(eventType, fromVersion, upcast)
+      }
+    }
+    for (const [eventType, validator] of other.validators) {
+      this.validate(eventType, validator)
+    }
+    return this
+  }
+
+  /**
+   * Event types with upcasters
+   */
+  getEventTypes(): string[] {
+    return [...this.upcasters.keys()]
+  }
+
+  /**
+   * Latest schema version of an event type
+   */
+  getSchemaVersion(eventType: string): number {
+    const steps = this.upcasters.get(eventType)
+    return steps ? Math.max(...steps.keys()) + 1 : 1
+  }
+
+  /**
+   * Whether an event is stored below the latest schema version of its type
+   */
+  isOutdated(event: DomainEvent): boolean {
+    return schemaVersionOf(event) < this.getSchemaVersion(event.eventType)
+  }
+
+  /**
+   * Bring an event to the latest schema version of its type, running the
+   * upcasters from its stored version in order
+   */
+  upcast<T = unknown>(event: DomainEvent): DomainEvent<T> {
+    const latest = this.getSchemaVersion(event.eventType)
+    let version = schemaVersionOf(event)
+    if (version >= latest) {
+      return event as DomainEvent<T>
+    }
+
+    const steps = this.upcasters.get(event.eventType)!
+    let data = event.data
+    for (; version < latest; version++) {
+      const upcast = steps.get(version)
+      if (!upcast) {
+        throw new EventUpcastError(event.eventType, event.eventId, schemaVersionOf(event), `no upcaster from schema version ${version}`)
+      }
+      data = upcast(data, { ...event, data, metadata: { ...event.metadata, schemaVersion: version } })
+    }
+
+    return { ...event, data: data as T, metadata: { ...event.metadata, schemaVersion: latest } }
+  }
+
+  /**
+   * Validate the payload of an event with the validator of its type.
+   * Events of types without a validator are valid.
+   */
+  validateEvent(event: DomainEvent): FullValidationResult {
+    const validator = this.validators.get(event.eventType)
+    if (!validator) {
+      return { valid: true, errors: {} }
+    }
+    const data = typeof event.data === 'object' && event.data !== null ? event.data as Record<string, unknown> : {}
+    return validator.validate(data, event.eventType)
+  }
+}
+
+/**
+ * Create an upcaster registry
+ */
+export function createUpcasterRegistry(): UpcasterRegistry {
+  return new UpcasterRegistry()
+}
+
+/**
+ * Rewrite stored events below the latest schema version of their type,
+ * global log entries included, with the upcasters of the event store.
+ * Every upcast payload is validated first; events that fail to upcast or
+ * validate are reported and left as they are. Each rewrite is conditional
+ * on the stored payload being unchanged, so runs can overlap.
+ *
+ * @example
+ * ```typescript
+ * const result = await migrateEvents(driver, { store, dryRun: true })
+ * for (const failure of result.failed) {
+ *   console.log(failure.eventId, failure.reason)
+ * }
+ * ```
+ */
+export async function migrateEvents(driver: DriverPlugin, options: EventMigrationOptions): Promise<EventMigrationResult> {
+  const upcasters = options.store.getUpcasters()
+  if (!upcasters) {
+    throw new Error(`Event store ${options.store.getTableName()} has no upcasters to migrate with`)
+  }
+
+  const startTime = Date.now()
+  const eventTypes = options.eventTypes ?? upcasters.getEventTypes()
+  const result: EventMigrationResult = { scanned: 0, migrated: 0, skipped: 0, failed: [], durationMs: 0 }
+  if (eventTypes.length === 0) {
+    return result
+  }
+
+  const values: Record<string, AttributeValue> = { ':event': { S: 'Event' }, ':logEntry': { S: 'EventLogEntry' } }
+  const placeholders = eventTypes.map((type, i) => {
+    values[`:type${i}`] = { S: type }
+    return `:type${i}`
+  })
+
+  let exclusiveStartKey: Record<string, AttributeValue> | undefined
+  do {
+    const page = await driver.scan({
+      tableName: options.store.getTableName(),
+      filterExpression: `#et IN (:event, :logEntry) AND #type IN (${placeholders.join(', ')})`,
+      expressionAttributeNames: { '#et': '_et', '#type': 'eventType' },
+      expressionAttributeValues: values,
+      limit: options.pageSize ?? 100,
+      consistentRead: true,
+      exclusiveStartKey,
+    })
+
+    for (const item of page.items) {
+      result.scanned++
+      const [stored] = options.store.parseEvents([item], { upcast: false })
+      if (!upcasters.isOutdated(stored)) {
+        result.skipped++
+        continue
+      }
+
+      const failure = { eventId: stored.eventId, eventType: stored.eventType, aggregateType: stored.aggregateType, aggregateId: stored.aggregateId, version: stored.version, schemaVersion: schemaVersionOf(stored) }
+      let event: DomainEvent
+      try {
+        event = upcasters.upcast(stored)
+      }
+      catch (error) {
+        result.failed.push({ ...failure, reason: error instanceof Error ? error.message : String(error) })
+        continue
+      }
+
+      const validation = upcasters.validateEvent(event)
+      if (!validation.valid) {
+        result.failed.push({ ...failure, reason: validation.firstError ?? 'Validation failed', errors: validation.errors })
+        continue
+      }
+
+      if (!options.dryRun && !await rewriteEvent(driver, options.store.getTableName(), item, event)) {
+        result.skipped++
+        continue
+      }
+      result.migrated++
+    }
+
+    exclusiveStartKey = page.lastEvaluatedKey
+    options.onProgress?.({ ...result, durationMs: Date.now() - startTime })
+  } while (exclusiveStartKey)
+
+  result.durationMs = Date.now() - startTime
+  return result
+}
+
+/**
+ * Discover upcaster registries exported by the modules of a directory,
+ * merged into one registry
+ */
+export async function discoverUpcasters(upcastersPath: string): Promise<UpcasterRegistry> {
+  const fs = await import('node:fs/promises')
+  const path = await import('node:path')
+
+  const registry = new UpcasterRegistry()
+
+  try {
+    const files = await fs.readdir(upcastersPath)
+
+    for (const file of files) {
+      if ((!file.endsWith('.ts') && !file.endsWith('.js')) || file.startsWith('index.')) {
+        continue
+      }
+
+      try {
+        const module = await import(path.resolve(upcastersPath, file))
+        for (const exported of Object.values(module)) {
+          if (exported instanceof UpcasterRegistry) {
+            registry.merge(exported)
+          }
+        }
+      }
+      catch (err) {
+        console.warn(`Warning: Could not load upcasters from ${file}:`, err)
+      }
+    }
+  }
+  catch {
+    console.warn(`Warning: Could not read upcasters directory: ${upcastersPath}`)
+  }
+
+  return registry
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Schema version an event is stored at; events from before versioning are at 1
+ */
+function schemaVersionOf(event: DomainEvent): number {
+  const version = event.metadata?.schemaVersion
+  return typeof version === 'number' ? version : 1
+}
+
+/**
+ * Replace the payload and metadata of a stored event item, unless the
+ * payload changed since it was read. Returns false when it did.
+ */
+async function rewriteEvent(driver: DriverPlugin, tableName: string, item: Record<string, AttributeValue>, event: DomainEvent): Promise<boolean> {
+  try {
+    await driver.updateItem({
+      tableName,
+      key: { pk: item.pk, sk: item.sk },
+      updateExpression: 'SET #data = :data, #metadata = :metadata',
+      conditionExpression: '#data = :stored',
+      expressionAttributeNames: { '#data': 'data', '#metadata': 'metadata' },
+      expressionAttributeValues: {
+        ':data': { S: JSON.stringify(event.data) },
+        ':metadata': { S: JSON.stringify(event.metadata) },
+        ':stored': item.data,
+      },
+    })
+    return true
+  }
+  catch (error) {
+    if (!isConditionalCheckFailedError(error)) {
+      throw error
+    }
+    return false
+  }
+}
@@ -12,3 +12,58 @@ export {
   type EventStream,
   type Snapshot,
 } from './EventStore'
+
+export {
+  createEventLog,
+  EventLog,
+  type EventLogOptions,
+  type ReadAllOptions,
+  type ReadAllResult,
+} from './EventLog'
+
+export {
+  createEventSourcedRepository,
+  EventSourcedRepository,
+  type EventSourcedRepositoryOptions,
+  EventStoreConcurrencyError,
+} from './EventSourcedRepository'
+
+export {
+  createProjectionRunner,
+  discoverProjections,
+  type Projection,
+  type ProjectionCheckpoint,
+  type ProjectionContext,
+  ProjectionError,
+  type ProjectionEvent,
+  type ProjectionEventSource,
+  ProjectionRunner,
+  type ProjectionRunnerOptions,
+  type ProjectionRunResult,
+  type ReadModelKey,
+} from './Projection'
+
+export {
+  createSagaManager,
+  type Saga,
+  SagaConcurrencyError,
+  type SagaContext,
+  type SagaInstance,
+  SagaManager,
+  type SagaManagerOptions,
+  type SagaMessage,
+  type SagaStatus,
+  type SagaTimeout,
+} from './Saga'
+
+export {
+  createUpcasterRegistry,
+  discoverUpcasters,
+  type EventMigrationFailure,
+  type EventMigrationOptions,
+  type EventMigrationResult,
+  EventUpcastError,
+  migrateEvents,
+  type Upcaster,
+  UpcasterRegistry,
+} from './Upcasting'
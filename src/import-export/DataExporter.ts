@@ -2,6 +2,14 @@
 // Data Exporter - Export DynamoDB Data
 // ============================================================================
 
+import type { Writable } from 'node:stream'
+import type { AttributeValue, DriverPlugin, ScanInput } from '../drivers/types'
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import { once } from 'node:events'
+import { createGzip } from 'node:zlib'
+import { defaultConfig } from '../config'
+import { marshallObject, unmarshallItem } from '../single-table/EntityTransformer'
+
 /**
  * Export format
  */
@@ -61,6 +69,35 @@ export interface ExportResult {
   }
 }
 
+/**
+ * Options for streaming a table export
+ */
+export interface StreamExportOptions extends Omit<ExportOptions, 'segment'> {
+  /** Only export items of this model, as stored in the entity type attribute (e.g. `User`) */
+  entityType?: string
+  /** Attribute holding the entity type (default: `_et`) */
+  entityTypeAttribute?: string
+  /** Gzip the output */
+  gzip?: boolean
+  /** Use strongly consistent reads */
+  consistentRead?: boolean
+  /** Called after each page is written, with the items exported so far */
+  onProgress?: (_exported: number) => void
+}
+
+/**
+ * Streaming export result
+ */
+export interface StreamExportResult {
+  tableName: string
+  format: ExportFormat
+  /** Number of items exported */
+  itemCount: number
+  /** Scan segments read in parallel */
+  segments: number
+  exportedAt: string
+}
+
 /**
  * Data exporter for DynamoDB tables
  */
@@ -117,6 +154,142 @@ export class DataExporter {
     }
   }
 
+  /**
+   * Scan a table page by page and write each page to `output` as it
+   * arrives, so tables larger than memory can be exported. With
+   * `totalSegments`, the segments are scanned in parallel. `limit` caps the
+   * total number of items; `batchSize` sets the page size.
+   *
+   * `dynamodb-json` keeps the stored attribute values as they are; the other
+   * formats write plain values, with sets as arrays and binary as base64.
+   * CSV columns come from `attributes`, or else from the first page.
+   * The output stream is not ended, so it may be stdout.
+   *
+   * @example
+   * ```typescript
+   * await exporter.exportStream(driver, 'MainTable', fs.createWriteStream('users.jsonl.gz'), {
+   *   format: 'jsonl',
+   *   entityType: 'User',
+   *   totalSegments: 4,
+   *   gzip: true,
+   * })
+   * ```
+   */
+  async exportStream(
+    driver: DriverPlugin,
+    tableName: string,
+    output: Writable,
+    options: StreamExportOptions,
+  ): Promise<StreamExportResult> {
+    const { format, limit, includeMetadata = false } = options
+    const segments = Math.max(1, options.totalSegments ?? 1)
+    const exportedAt = new Date().toISOString()
+    const scan = this.createStreamScanInput(tableName, options)
+
+    const gzip = options.gzip ? createGzip() : undefined
+    if (gzip) {
+      gzip.pipe(output, { end: false })
+    }
+    const target = gzip ?? output
+
+    // An output error fails the export rather than leaving it waiting to drain
+    let outputError: unknown
+    const outputFailed = new Promise<never>((_, reject) => output.once('error', (error) => {
+      outputError = error
+      reject(error)
+    }))
+    outputFailed.catch(() => {})
+
+    const write = async (chunk: string): Promise<void> => {
+      if (outputError) {
+        throw outputError
+      }
+      if (!target.write(chunk)) {
+        await Promise.race([once(target, 'drain'), outputFailed])
+      }
+    }
+
+    let itemCount = 0
+    let headerWritten = false
+    let columns: string[] | undefined = options.attributes && options.attributes.length > 0
+      ? options.attributes
+      : undefined
+
+    const writeItems = async (items: DynamoDBItem[]): Promise<void> => {
+      let chunk = ''
+      for (const item of items) {
+        if (limit !== undefined && itemCount >= limit)
+          break
+        if (format === 'dynamodb-json') {
+          chunk += `${itemCount === 0 ? '' : ',\n'}${JSON.stringify(item, toJSONValue)}`
+        }
+        else {
+          const plain = unmarshallItem(item)
+          if (format === 'csv') {
+            if (!headerWritten) {
+              if (!columns)
+                columns = [...new Set(items.flatMap(entry => Object.keys(entry)))]
+              chunk += `${columns.map(column => this.escapeCSV(column)).join(',')}\n`
+              headerWritten = true
+            }
+            chunk += `${this.toCSVRow(columns!, plain, toJSONValue)}\n`
+          }
+          else if (format === 'jsonl') {
+            chunk += `${JSON.stringify(plain, toJSONValue)}\n`
+          }
+          else {
+            chunk += `${itemCount === 0 ? '' : ',\n'}${JSON.stringify(plain, toJSONValue)}`
+          }
+        }
+        itemCount++
+      }
+      if (chunk) {
+        await write(chunk)
+      }
+    }
+
+    if (format === 'json' || format === 'dynamodb-json') {
+      await write(format === 'json' && includeMetadata ? '{"items":[\n' : '[\n')
+    }
+    else if (format !== 'jsonl' && format !== 'csv') {
+      throw new Error(`Unsupported export format: ${format}`)
+    }
+
+    await Promise.all(Array.from({ length: segments }, async (_, segment) => {
+      let exclusiveStartKey: Record<string, AttributeValue> | undefined
+      do {
+        if (limit !== undefined && itemCount >= limit)
+          return
+        const page = await driver.scan({
+          ...scan,
+          exclusiveStartKey,
+          ...(segments > 1 ? { segment, totalSegments: segments } : {}),
+        })
+        await writeItems(page.items)
+        options.onProgress?.(itemCount)
+        exclusiveStartKey = page.lastEvaluatedKey
+      } while (exclusiveStartKey)
+    }))
+
+    if (format === 'json' || format === 'dynamodb-json') {
+      const metadata = { tableName, exportedAt, itemCount, attributes: options.attributes }
+      await write(format === 'json' && includeMetadata
+        ? `\n],"metadata":${JSON.stringify(metadata)}}\n`
+        : '\n]\n')
+    }
+
+    if (gzip) {
+      const finished = once(gzip, 'end')
+      gzip.end()
+      await Promise.race([finished, outputFailed])
+    }
+    if (outputError) {
+      throw outputError
+    }
+
+    return { tableName, format, itemCount, segments, exportedAt }
+  }
+
   /**
    * Create scan command for export
    */
@@ -220,20 +393,59 @@ export class DataExporter {
 
     // Data rows
     for (const item of items) {
-      const row = headers.map((header) => {
-        const value = item[header]
-        if (value === undefined || value === null)
-          return ''
-        if (typeof value === 'object')
-          return this.escapeCSV(JSON.stringify(value))
-        return this.escapeCSV(String(value))
-      })
-      lines.push(row.join(','))
+      lines.push(this.toCSVRow(headers, item))
     }
 
     return lines.join('\n')
   }
 
+  private toCSVRow(
+    headers: string[],
+    item: Record<string, unknown>,
+    replacer?: (_key: string, _value: unknown) => unknown,
+  ): string {
+    return headers.map((header) => {
+      const value = replacer ? replacer(header, item[header]) : item[header]
+      if (value === undefined || value === null)
+        return ''
+      if (typeof value === 'object')
+        return this.escapeCSV(JSON.stringify(value, replacer))
+      return this.escapeCSV(String(value))
+    }).join(',')
+  }
+
+  private createStreamScanInput(tableName: string, options: StreamExportOptions): ScanInput {
+    const names: Record<string, string> = { ...options.expressionAttributeNames }
+    const values: Record<string, unknown> = { ...options.expressionAttributeValues }
+    const filters = options.filterExpression ? [`(${options.filterExpression})`] : []
+
+    if (options.entityType) {
+      names['#xet'] = options.entityTypeAttribute ?? defaultConfig.singleTableDesign.entityTypeAttribute
+      values[':xet'] = options.entityType
+      filters.push('#xet = :xet')
+    }
+
+    let projectionExpression: string | undefined
+    if (options.attributes && options.attributes.length > 0) {
+      projectionExpression = options.attributes.map((attribute, index) => {
+        names[`#xp${index}`] = attribute
+        return `#xp${index}`
+      }).join(', ')
+    }
+
+    return {
+      tableName,
+      filterExpression: filters.length > 0 ? filters.join(' AND ') : undefined,
+      projectionExpression,
+      expressionAttributeNames: Object.keys(names).length > 0 ? names : undefined,
+      expressionAttributeValues: Object.keys(values).length > 0
+        ? marshallObject(values) as Record<string, AttributeValue>
+        : undefined,
+      limit: options.batchSize,
+      consistentRead: options.consistentRead,
+    }
+  }
+
   private toDynamoDBJSON(items: Record<string, unknown>[]): string {
     const dynamoItems = items.map(item => this.marshallItem(item))
     return JSON.stringify(dynamoItems, null, 2)
@@ -289,3 +501,18 @@ export class DataExporter {
 export function createDataExporter(_options?: ExporterOptions): DataExporter {
   return new DataExporter()
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * JSON replacer for exported values: sets as arrays, binary as base64
+ */
+function toJSONValue(_key: string, value: unknown): unknown {
+  if (value instanceof Set)
+    return [...value]
+  if (value instanceof Uint8Array)
+    return Buffer.from(value).toString('base64')
+  return value
+}
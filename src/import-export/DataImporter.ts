@@ -2,7 +2,17 @@
 // Data Importer - Import Data into DynamoDB
 // ============================================================================
 
+import type { Readable } from 'node:stream'
+import type { AttributeValue, DriverPlugin } from '../drivers/types'
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
 import type { ExportFormat } from './DataExporter'
+import { existsSync } from 'node:fs'
+import { readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { createInterface } from 'node:readline'
+import { pipeline } from 'node:stream'
+import { createGunzip } from 'node:zlib'
+import { writeBatchWithRetry } from '../drivers/utils'
+import { marshallObject, unmarshallItem } from '../single-table/EntityTransformer'
 
 /**
  * Import options
@@ -62,6 +72,56 @@ export interface ImportResult {
   }>
 }
 
+/**
+ * Options for a streaming import
+ */
+export interface StreamImportOptions extends Omit<ImportOptions, 'validate' | 'skipInvalid'> {
+  /**
+   * Validate each item; return `false` or an error message to skip it.
+   * Receives plain values, also for `dynamodb-json` input.
+   */
+  validate?: (_item: Record<string, unknown>) => boolean | string | Promise<boolean | string>
+  /** Input is gzipped */
+  gzip?: boolean
+  /** Progress file; an interrupted import run again with the same file resumes after the last written batch */
+  checkpointFile?: string
+  /** Read and validate everything without writing */
+  dryRun?: boolean
+  /** Retries of unprocessed BatchWriteItem items (default: 5) */
+  maxRetries?: number
+  /** Base delay between retries, doubled each attempt (default: 50ms) */
+  retryDelayMs?: number
+  /** Most error details kept in the result (default: 100) */
+  maxErrors?: number
+  /** Called after each batch */
+  onProgress?: (_result: StreamImportResult) => void
+}
+
+/**
+ * Streaming import result
+ */
+export interface StreamImportResult extends ImportResult {
+  /** Records skipped because an earlier run already imported them */
+  resumedFrom: number
+  /** Unprocessed-item retries */
+  retries: number
+  dryRun: boolean
+}
+
+/**
+ * Progress saved to the checkpoint file of a streaming import
+ */
+export interface ImportCheckpoint {
+  tableName: string
+  format: ExportFormat
+  /** Records read and written (or skipped) so far */
+  processed: number
+  importedItems: number
+  skippedItems: number
+  failedItems: number
+  updatedAt: string
+}
+
 /**
  * Batch write command
  */
@@ -143,6 +203,134 @@ export class DataImporter {
     return items
   }
 
+  /**
+   * Import items from a stream, reading and writing one batch at a time so
+   * inputs larger than memory can be imported. JSON arrays (or an object
+   * with an `items` array), JSON lines, CSV and DynamoDB JSON (an array, or
+   * AWS export lines of `{ "Item": ... }`) are read incrementally.
+   *
+   * Unprocessed items are retried with exponential backoff; the import
+   * fails once they are exhausted. With `checkpointFile`, progress is saved
+   * after each batch and a rerun resumes from it; the file is removed when
+   * the import completes. A dry run needs no driver.
+   *
+   * @example
+   * ```typescript
+   * const result = await importer.importStream(driver, fs.createReadStream('users.jsonl'), {
+   *   format: 'jsonl',
+   *   tableName: 'MainTable',
+   *   checkpointFile: 'users.jsonl.checkpoint.json',
+   * })
+   * ```
+   */
+  async importStream(driver: DriverPlugin | undefined, input: Readable, options: StreamImportOptions): Promise<StreamImportResult> {
+    const { format, tableName, dryRun = false } = options
+    const batchSize = Math.min(options.batchSize ?? this.defaultBatchSize, 25)
+    const maxErrors = options.maxErrors ?? 100
+    if (!driver && !dryRun) {
+      throw new Error('A driver is required to import; only a dry run works without one')
+    }
+    const checkpoint = options.checkpointFile && !dryRun
+      ? await readCheckpoint(options.checkpointFile, tableName, format)
+      : undefined
+
+    const result: StreamImportResult = {
+      totalItems: 0,
+      importedItems: checkpoint?.importedItems ?? 0,
+      skippedItems: checkpoint?.skippedItems ?? 0,
+      failedItems: checkpoint?.failedItems ?? 0,
+      errors: [],
+      resumedFrom: checkpoint?.processed ?? 0,
+      retries: 0,
+      dryRun,
+    }
+
+    const addError = (index: number, error: string, item?: Record<string, unknown>): void => {
+      if (result.errors.length < maxErrors) {
+        result.errors.push({ index, item, error })
+      }
+    }
+
+    let batch: Array<Record<string, AttributeValue>> = []
+    const flush = async (processed: number): Promise<void> => {
+      if (batch.length > 0 && driver && !dryRun) {
+        await writeBatchWithRetry(driver, tableName, batch.map(item => ({ putRequest: { item } })), {
+          maxRetries: options.maxRetries,
+          retryDelayMs: options.retryDelayMs,
+          onRetry: () => result.retries++,
+        })
+      }
+      result.importedItems += batch.length
+      batch = []
+      if (options.checkpointFile && !dryRun) {
+        await saveCheckpoint(options.checkpointFile, {
+          tableName,
+          format,
+          processed,
+          importedItems: result.importedItems,
+          skippedItems: result.skippedItems,
+          failedItems: result.failedItems,
+          updatedAt: new Date().toISOString(),
+        })
+      }
+      options.onProgress?.(result)
+    }
+
+    // An input error destroys the gunzip stream with it, failing the read
+    const source = options.gzip ? pipeline(input, createGunzip(), () => {}) : input
+    source.setEncoding('utf8')
+
+    await this.readRecords(source, options, async (record, index) => {
+      result.totalItems++
+      if (index < result.resumedFrom)
+        return
+
+      const raw = format === 'dynamodb-json' && isRecord(record.Item) && Object.keys(record).length === 1
+        ? record.Item
+        : record
+      let item = format === 'dynamodb-json' ? unmarshallItem(raw as DynamoDBItem) : raw
+      try {
+        if (this.shouldValidate && options.primaryKey && !(options.primaryKey in item)) {
+          throw new Error(`Missing required primary key: ${options.primaryKey}`)
+        }
+        if (this.shouldValidate && options.sortKey && !(options.sortKey in item)) {
+          throw new Error(`Missing required sort key: ${options.sortKey}`)
+        }
+        if (options.transform) {
+          item = options.transform(item)
+        }
+        if (options.filter && !options.filter(item)) {
+          result.skippedItems++
+          return
+        }
+        const valid = options.validate ? await options.validate(item) : true
+        if (valid !== true) {
+          result.skippedItems++
+          addError(index, valid === false ? 'Validation failed' : valid, item)
+          return
+        }
+      }
+      catch (error) {
+        result.failedItems++
+        addError(index, error instanceof Error ? error.message : String(error), item)
+        return
+      }
+
+      // Stored values are kept as they are unless a transform changed them
+      const marshalled = format === 'dynamodb-json' && !options.transform ? raw : marshallObject(item)
+      batch.push(marshalled as Record<string, AttributeValue>)
+      if (batch.length >= batchSize) {
+        await flush(index + 1)
+      }
+    })
+
+    await flush(result.totalItems)
+    if (options.checkpointFile && !dryRun) {
+      await rm(options.checkpointFile, { force: true })
+    }
+    return result
+  }
+
   /**
    * Create batch write commands for import
    */
@@ -257,27 +445,91 @@ export class DataImporter {
     const items: Record<string, unknown>[] = []
 
     for (let i = 1; i < lines.length; i++) {
-      const values = this.parseCSVLine(lines[i], delimiter)
-      const item: Record<string, unknown> = {}
-
-      headers.forEach((header, index) => {
-        const value = values[index]
-        if (value !== undefined && value !== '') {
-          // Try to parse as JSON for complex types
-          try {
-            item[header] = JSON.parse(value)
-          }
-          catch {
-            // Keep as string if not valid JSON
-            item[header] = value
-          }
+      items.push(this.toCSVItem(headers, this.parseCSVLine(lines[i], delimiter)))
+    }
+
+    return items
+  }
+
+  private toCSVItem(headers: string[], values: string[]): Record<string, unknown> {
+    const item: Record<string, unknown> = {}
+
+    headers.forEach((header, index) => {
+      const value = values[index]
+      if (value !== undefined && value !== '') {
+        // Try to parse as JSON for complex types
+        try {
+          item[header] = JSON.parse(value)
         }
-      })
+        catch {
+          // Keep as string if not valid JSON
+          item[header] = value
+        }
+      }
+    })
+
+    return item
+  }
+
+  /**
+   * Read records from a text stream one at a time, in input order
+   */
+  private async readRecords(
+    input: Readable,
+    options: StreamImportOptions,
+    onRecord: (_record: Record<string, unknown>, _index: number) => Promise<void>,
+  ): Promise<void> {
+    const { format, delimiter = ',' } = options
+    let index = 0
+
+    if (format === 'json' || format === 'dynamodb-json') {
+      const splitter = new JsonElementSplitter()
+      for await (const chunk of input) {
+        for (const element of splitter.push(chunk as string)) {
+          await onRecord(JSON.parse(element), index++)
+        }
+      }
+      splitter.end()
+      return
+    }
 
-      items.push(item)
+    if (format !== 'jsonl' && format !== 'csv') {
+      throw new Error(`Unsupported import format: ${format}`)
     }
 
-    return items
+    const lines = createInterface({ input, crlfDelay: Infinity })
+    let headers: string[] | undefined
+    let pending = ''
+    let lineNumber = 0
+
+    for await (const line of lines) {
+      lineNumber++
+      if (format === 'jsonl') {
+        if (!line.trim())
+          continue
+        let record: Record<string, unknown>
+        try {
+          record = JSON.parse(line)
+        }
+        catch {
+          throw new Error(`Invalid JSON on line ${lineNumber}`)
+        }
+        await onRecord(record, index++)
+        continue
+      }
+
+      // A quoted CSV value may span lines
+      pending = pending ? `${pending}\n${line}` : line
+      if ((pending.match(/"/g)?.length ?? 0) % 2 === 1 || !pending.trim())
+        continue
+      const values = this.parseCSVLine(pending, delimiter)
+      pending = ''
+      if (!headers) {
+        headers = values
+        continue
+      }
+      await onRecord(this.toCSVItem(headers, values), index++)
+    }
   }
 
   private parseCSVLine(line: string, delimiter: string = ','): string[] {
@@ -366,3 +618,129 @@ export class DataImporter {
 export function createDataImporter(options?: ImporterOptions): DataImporter {
   return new DataImporter(options)
 }
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+async function readCheckpoint(file: string, tableName: string, format: ExportFormat): Promise<ImportCheckpoint | undefined> {
+  if (!existsSync(file))
+    return undefined
+  const checkpoint = JSON.parse(await readFile(file, 'utf-8')) as ImportCheckpoint
+  if (checkpoint.tableName !== tableName || checkpoint.format !== format) {
+    throw new Error(`Checkpoint ${file} belongs to a ${checkpoint.format} import into ${checkpoint.tableName}`)
+  }
+  return checkpoint
+}
+
+async function saveCheckpoint(file: string, checkpoint: ImportCheckpoint): Promise<void> {
+  // Written to a temporary file first so an interrupted write leaves the previous checkpoint
+  const temporary = `${file}.tmp`
+  await writeFile(temporary, JSON.stringify(checkpoint, null, 2))
+  await rename(temporary, file)
+}
+
+/**
+ * Splits streamed JSON text into the objects of a top-level array, of the
+ * `items` array of a top-level object, or a sequence of top-level objects
+ */
+class JsonElementSplitter {
+  private mode: 'unknown' | 'array' | 'items' | 'values' | 'done' = 'unknown'
+  private depth = 0
+  private inString = false
+  private escaped = false
+  private element = ''
+  private key = ''
+  private stringText = ''
+
+  push(chunk: string): string[] {
+    const elements: string[] = []
+
+    for (const char of chunk) {
+      if (this.mode === 'done')
+        break
+      const trackKey = this.mode === 'values' && this.depth === 1
+
+      if (this.inString) {
+        if (this.element)
+          this.element += char
+        if (this.escaped) {
+          this.escaped = false
+        }
+        else if (char === '\\') {
+          this.escaped = true
+        }
+        else if (char === '"') {
+          this.inString = false
+          if (trackKey)
+            this.key = this.stringText
+          continue
+        }
+        if (trackKey)
+          this.stringText += char
+        continue
+      }
+
+      if (this.mode === 'unknown') {
+        if (/\s/.test(char))
+          continue
+        if (char === '[') {
+          this.mode = 'array'
+          this.depth = 1
+          continue
+        }
+        if (char !== '{')
+          throw new Error('Invalid JSON format: expected array or object with items array')
+        this.mode = 'values'
+      }
+
+      const elementDepth = this.mode === 'items' ? 2 : this.mode === 'array' ? 1 : 0
+
+      if (char === '"') {
+        this.inString = true
+        this.stringText = ''
+        if (this.element)
+          this.element += char
+      }
+      else if (char === '[' && trackKey && this.key === 'items') {
+        this.mode = 'items'
+        this.element = ''
+        this.depth++
+      }
+      else if (char === '{' || char === '[') {
+        if (this.depth === elementDepth)
+          this.element = ''
+        this.depth++
+        this.element += char
+      }
+      else if (char === '}' || char === ']') {
+        this.depth--
+        if (this.depth < elementDepth) {
+          this.mode = 'done'
+        }
+        else {
+          this.element += char
+          if (this.depth === elementDepth) {
+            elements.push(this.element)
+            this.element = ''
+          }
+        }
+      }
+      else if (this.depth > elementDepth) {
+        this.element += char
+      }
+    }
+
+    return elements
+  }
+
+  end(): void {
+    if (this.mode !== 'done' && (this.depth > 0 || this.inString)) {
+      throw new Error('Invalid JSON: unexpected end of input')
+    }
+  }
+}
@@ -8,12 +8,17 @@ export {
   type ExportFormat,
   type ExportOptions,
   type ExportResult,
+  type StreamExportOptions,
+  type StreamExportResult,
 } from './DataExporter'
 
 export {
   type BatchWriteCommand,
   createDataImporter,
   DataImporter,
+  type ImportCheckpoint,
   type ImportOptions,
   type ImportResult,
+  type StreamImportOptions,
+  type StreamImportResult,
 } from './DataImporter'
@@ -1,16 +1,53 @@
 // Backup & Restore (Phase 17)
 export {
   type BackupDetails,
+  BackupExecutor,
+  type BackupExecutorOptions,
   BackupManager,
+  type BackupProgress,
+  type BackupSchedule,
+  BackupScheduler,
+  type BackupSchedulerOptions,
   type BackupStatus,
   type BackupType,
+  createBackupExecutor,
   createBackupManager,
   type CreateBackupOptions,
+  createBackupScheduler,
+  type CreateLocalBackupInput,
+  type CreateLocalBackupOptions,
+  createRunDueRoute,
+  createTableInputFromDescription,
+  type ExecuteLocalRestoreOptions,
+  type ExecuteRestoreOptions,
+  findRestoreMismatches,
   type ListBackupsOptions,
+  LOCAL_BACKUP_MANIFEST,
+  type LocalBackupChunk,
+  LocalBackupIntegrityError,
+  type LocalBackupManifest,
+  type LocalRestoreResult,
+  parseScheduleExpression,
   type PITRDescription,
   type PITRStatus,
+  readLocalBackupManifest,
+  restoreLocalBackup,
+  type RestoreLocalBackupInput,
+  type RestoreLocalBackupOptions,
   type RestoreOptions,
+  type RestoreResult,
+  type RestoreVerification,
+  RestoreVerificationError,
+  type RetentionPolicy,
   type ScheduledBackupConfig,
+  type ScheduledBackupRun,
+  type ScheduleExpression,
+  selectBackupsToPrune,
+  type StoredBackupSchedule,
+  toLocalBackupDetails,
+  validateScheduleExpression,
+  verifyLocalBackup,
+  writeLocalBackup,
 } from './backup'
 // Caching Integration (Phase 24)
 export {
@@ -37,13 +74,53 @@ export * from './dynamodb'
 // Event Sourcing (Phase 26)
 export {
   AggregateRoot,
+  createEventLog,
+  createEventSourcedRepository,
   createEventStore,
+  createProjectionRunner,
+  createSagaManager,
+  createUpcasterRegistry,
+  discoverProjections,
+  discoverUpcasters,
   type DomainEvent,
   type EventHandler,
+  EventLog,
+  type EventLogOptions,
+  type EventMigrationFailure,
+  type EventMigrationOptions,
+  type EventMigrationResult,
+  EventSourcedRepository,
+  type EventSourcedRepositoryOptions,
   EventStore,
+  EventStoreConcurrencyError,
   type EventStoreOptions,
   type EventStream,
+  EventUpcastError,
+  migrateEvents,
+  type Projection,
+  type ProjectionCheckpoint,
+  type ProjectionContext,
+  ProjectionError,
+  type ProjectionEvent,
+  type ProjectionEventSource,
+  ProjectionRunner,
+  type ProjectionRunnerOptions,
+  type ProjectionRunResult,
+  type ReadAllOptions,
+  type ReadAllResult,
+  type ReadModelKey,
+  type Saga,
+  SagaConcurrencyError,
+  type SagaContext,
+  type SagaInstance,
+  SagaManager,
+  type SagaManagerOptions,
+  type SagaMessage,
+  type SagaStatus,
+  type SagaTimeout,
   type Snapshot,
+  type Upcaster,
+  UpcasterRegistry,
 } from './event-sourcing'
 
 // Factory System
@@ -85,8 +162,13 @@ export {
   type ExportFormat,
   type ExportOptions,
   type ExportResult,
+  type ImportCheckpoint,
   type ImportOptions,
   type ImportResult,
+  type StreamExportOptions,
+  type StreamExportResult,
+  type StreamImportOptions,
+  type StreamImportResult,
 } from './import-export'
 
 // Migration System
@@ -425,7 +507,10 @@ export {
   ConditionalCheckFailedError as DynamoDBConditionalCheckFailedError,
   type DynamoDBError,
   type DynamoDBErrorCode,
+  DynamoDBErrorBase,
+  type DynamoDBErrorContext,
   DynamoDBInternalError,
+  DynamoDBServiceError,
   DynamoDBValidationError,
   getRetryDelayMs,
   isConditionalCheckFailedError,
@@ -448,6 +533,8 @@ export {
   ThrottlingError,
   type TransactionCancellationReason,
   TransactionCancelledError,
+  type TransactionFailure,
+  type TransactionItemDescription,
 } from './types/errors'
 
 export {
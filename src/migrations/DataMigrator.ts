@@ -2,8 +2,10 @@
 // Data Migrator for DynamoDB Backfills and Data Transformations
 // ============================================================================
 
+import type { RateLimiter } from '../performance/RateLimiter'
 import type { Config } from '../types'
 import { getConfig } from '../config'
+import { rateLimitClient } from '../performance/RateLimiter'
 
 // ============================================================================
 // Types
@@ -35,6 +37,13 @@ export interface DataMigrationOptions {
    * Delay between batches in milliseconds (for rate limiting)
    */
   batchDelayMs?: number
+  /**
+   * Adaptive rate limiter to pace scans and writes with, so a large
+   * migration backs off instead of throttling production traffic. GSI
+   * backfills also wait on the index's write capacity. Use a separate
+   * limiter from the one the client's driver uses.
+   */
+  rateLimiter?: RateLimiter
   /**
    * Maximum items to process (for testing)
    */
@@ -224,6 +233,19 @@ export async function migrateData(
   tableName: string,
   transform: TransformFunction,
   options: DataMigrationOptions = {},
+): Promise<DataMigrationResult> {
+  return runMigration(client, tableName, transform, options, [])
+}
+
+/**
+ * Run a migration, charging writes to the given GSIs as well as the table
+ */
+async function runMigration(
+  migrationClient: DataMigrationClient,
+  tableName: string,
+  transform: TransformFunction,
+  options: DataMigrationOptions,
+  indexNames: string[],
 ): Promise<DataMigrationResult> {
   const startTime = Date.now()
   const startedAt = new Date().toISOString()
@@ -236,8 +258,10 @@ export async function migrateData(
     onError,
     continueOnError = false,
     filter,
+    rateLimiter,
   } = options
 
+  const client = rateLimiter ? rateLimitClient(migrationClient, rateLimiter, indexNames) : migrationClient
   const config = await getConfig()
   const progress: MigrationProgress = {
     scanned: 0,
@@ -410,7 +434,7 @@ export async function backfillGSI(
     return updatedItem
   }
 
-  return migrateData(client, tableName, transform, options)
+  return runMigration(client, tableName, transform, options, [spec.indexName])
 }
 
 /**
@@ -446,7 +470,7 @@ export async function backfillMultipleGSIs(
     return modified ? updatedItem : null
   }
 
-  return migrateData(client, tableName, transform, options)
+  return runMigration(client, tableName, transform, options, specs.map(spec => spec.indexName))
 }
 
 /**
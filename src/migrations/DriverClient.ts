@@ -0,0 +1,135 @@
+// ============================================================================
+// Driver-backed Migration Client
+// ============================================================================
+
+import type { DriverPlugin, UpdateTableInput } from '../drivers/types'
+import type { MigrationDynamoDBClient } from './AutoMigrationRunner'
+import type { GlobalSecondaryIndexInput, ProvisionedThroughput, StreamSpecification, TimeToLiveSpecification } from './AutoSchemaGenerator'
+import { isResourceNotFoundError } from '../types/errors'
+
+/**
+ * Adapt a driver plugin to the client interface used by `runMigrations()`.
+ * Migration plan steps carry AWS-style parameters (`TableName`,
+ * `GlobalSecondaryIndexUpdates`, ...), which are translated to the driver
+ * inputs. TTL steps are skipped on drivers without TTL support.
+ *
+ * @example
+ * ```typescript
+ * const driver = await createActiveDriver('memory', {})
+ * await runMigrations(createDriverMigrationClient(driver), new InMemoryMigrationStateStore())
+ * ```
+ */
+export function createDriverMigrationClient(driver: DriverPlugin): MigrationDynamoDBClient {
+  return {
+    async createTable(params) {
+      await driver.createTable(params)
+    },
+
+    async updateTable(params) {
+      await driver.updateTable(toUpdateTableInput(params as unknown as UpdateTableParams))
+    },
+
+    async deleteTable(tableName) {
+      await driver.deleteTable(tableName)
+    },
+
+    async describeTable(tableName) {
+      try {
+        const description = await driver.describeTable(tableName)
+        return {
+          tableName: description.tableName,
+          tableStatus: description.tableStatus as 'CREATING' | 'ACTIVE' | 'DELETING' | 'UPDATING',
+          itemCount: description.itemCount ?? 0,
+          tableSizeBytes: description.tableSizeBytes ?? 0,
+          creationDateTime: description.creationDateTime ?? new Date(),
+          globalSecondaryIndexes: description.globalSecondaryIndexes?.map(gsi => ({
+            indexName: gsi.indexName,
+            indexStatus: gsi.indexStatus ?? 'ACTIVE',
+          })),
+        }
+      }
+      catch (error) {
+        if (isResourceNotFoundError(error)) {
+          return null
+        }
+        throw error
+      }
+    },
+
+    async updateTimeToLive(params) {
+      const { TableName, TimeToLiveSpecification } = params as { TableName: string, TimeToLiveSpecification: TimeToLiveSpecification }
+      await driver.updateTimeToLive?.(TableName, TimeToLiveSpecification)
+    },
+
+    async waitForTableActive(tableName, timeoutMs) {
+      return waitFor(() => driver.waitForTableActive(tableName, { maxWaitTime: timeoutMs }))
+    },
+
+    async waitForTableDeleted(tableName, timeoutMs) {
+      return waitFor(() => driver.waitForTableDeleted(tableName, { maxWaitTime: timeoutMs }))
+    },
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * UpdateTable parameters as produced by the migration plan
+ */
+interface UpdateTableParams {
+  TableName: string
+  AttributeDefinitions?: UpdateTableInput['attributeDefinitions']
+  BillingMode?: 'PROVISIONED' | 'PAY_PER_REQUEST'
+  ProvisionedThroughput?: ProvisionedThroughput
+  StreamSpecification?: StreamSpecification
+  GlobalSecondaryIndexUpdates?: Array<{
+    Create?: {
+      IndexName: string
+      KeySchema: GlobalSecondaryIndexInput['keySchema']
+      Projection: GlobalSecondaryIndexInput['projection']
+      ProvisionedThroughput?: ProvisionedThroughput
+    }
+    Delete?: { IndexName: string }
+  }>
+}
+
+function toUpdateTableInput(params: UpdateTableParams): UpdateTableInput {
+  return {
+    tableName: params.TableName,
+    attributeDefinitions: params.AttributeDefinitions,
+    billingMode: params.BillingMode,
+    provisionedThroughput: params.BillingMode === 'PAY_PER_REQUEST' ? undefined : params.ProvisionedThroughput,
+    // Stream steps without a specification disable streams
+    streamSpecification: 'StreamSpecification' in params
+      ? params.StreamSpecification ?? { streamEnabled: false }
+      : undefined,
+    globalSecondaryIndexUpdates: params.GlobalSecondaryIndexUpdates?.map(update => update.Create
+      ? {
+          create: {
+            indexName: update.Create.IndexName,
+            keySchema: update.Create.KeySchema,
+            projection: update.Create.Projection,
+            provisionedThroughput: update.Create.ProvisionedThroughput,
+          },
+        }
+      : { delete: { indexName: update.Delete!.IndexName } }),
+  }
+}
+
+/**
+ * Run a driver waiter, reporting a timeout as false
+ */
+async function waitFor(waiter: () => Promise<void>): Promise<boolean> {
+  try {
+    await waiter()
+    return true
+  }
+  catch (error) {
+    if (error instanceof Error && /within \d+ms/.test(error.message)) {
+      return false
+    }
+    throw error
+  }
+}
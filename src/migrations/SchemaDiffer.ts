@@ -2,12 +2,14 @@
 // Schema Differ for DynamoDB Single-Table Design
 // ============================================================================
 
+import type { TableDescription } from '../drivers/types'
 import type { ModelRegistry } from '../model-parser/types'
 import type { Config } from '../types'
 import type {
   CreateTableInput,
   GlobalSecondaryIndexInput,
   SchemaGenerationResult,
+  TimeToLiveSpecification,
 } from './AutoSchemaGenerator'
 import { generateSchemaFromRegistry } from './AutoSchemaGenerator'
 
@@ -211,6 +213,11 @@ export interface MigrationState {
    * LSI names present in this version
    */
   lsiNames: string[]
+  /**
+   * TTL applied with this version (null when TTL is disabled, absent in
+   * states recorded before TTL was tracked)
+   */
+  ttlSpecification?: TimeToLiveSpecification | null
 }
 
 // ============================================================================
@@ -292,9 +299,7 @@ export function diffSchemas(
   diffTableSettings(previousSchema, currentSchema.createTableInput, changes)
 
   // 5. Compare TTL settings
-  if (currentSchema.ttlSpecification) {
-    diffTTL(previousState, currentSchema, changes)
-  }
+  diffTTL(previousState, currentSchema, changes)
 
   // 6. Compare stream settings
   diffStreams(previousSchema, currentSchema.createTableInput, changes)
@@ -486,11 +491,13 @@ function diffTableSettings(
   changes: SchemaChange[],
 ): void {
   // Table class change
-  if (previous.tableClass !== current.tableClass) {
+  const previousClass = previous.tableClass ?? 'STANDARD'
+  const currentClass = current.tableClass ?? 'STANDARD'
+  if (previousClass !== currentClass) {
     changes.push({
       type: 'table_settings',
       severity: 'low',
-      description: `Table class changed from '${previous.tableClass ?? 'STANDARD'}' to '${current.tableClass ?? 'STANDARD'}'`,
+      description: `Table class changed from '${previousClass}' to '${currentClass}'`,
       affectedComponent: 'tableClass',
       previousValue: previous.tableClass,
       newValue: current.tableClass,
@@ -501,7 +508,7 @@ function diffTableSettings(
   }
 
   // Deletion protection change
-  if (previous.deletionProtectionEnabled !== current.deletionProtectionEnabled) {
+  if ((previous.deletionProtectionEnabled ?? false) !== (current.deletionProtectionEnabled ?? false)) {
     changes.push({
       type: 'table_settings',
       severity: 'low',
@@ -513,30 +520,81 @@ function diffTableSettings(
       isBreaking: false,
     })
   }
+
+  // Tag changes
+  const previousTags = new Map((previous.tags ?? []).map(t => [t.key, t.value]))
+  const currentTags = new Map((current.tags ?? []).map(t => [t.key, t.value]))
+  const changedTags = [...new Set([...previousTags.keys(), ...currentTags.keys()])]
+    .filter(key => previousTags.get(key) !== currentTags.get(key))
+    .sort()
+
+  if (changedTags.length > 0) {
+    changes.push({
+      type: 'table_settings',
+      severity: 'low',
+      description: `Tags changed: ${changedTags.join(', ')}`,
+      affectedComponent: 'tags',
+      previousValue: previous.tags,
+      newValue: current.tags,
+      details: changedTags
+        .map(key => `${key}: ${previousTags.get(key) ?? '(none)'} → ${currentTags.get(key) ?? '(none)'}`)
+        .join(', '),
+      requiresDataMigration: false,
+      isBreaking: false,
+    })
+  }
 }
 
 /**
  * Compare TTL settings
  */
 function diffTTL(
-  _previousState: MigrationState,
+  previousState: MigrationState,
   currentSchema: SchemaGenerationResult,
   changes: SchemaChange[],
 ): void {
-  // For simplicity, check if TTL config exists in current but not tracked in previous
-  // A more complete implementation would track TTL state in MigrationState
-  if (currentSchema.ttlSpecification?.enabled) {
-    changes.push({
-      type: 'ttl_change',
-      severity: 'low',
-      description: `TTL enabled on attribute '${currentSchema.ttlSpecification.attributeName}'`,
-      affectedComponent: 'TTL',
-      newValue: currentSchema.ttlSpecification,
-      requiresDataMigration: false,
-      isBreaking: false,
-      estimatedImpact: 'TTL changes take up to one hour to propagate',
-    })
+  const current = currentSchema.ttlSpecification?.enabled ? currentSchema.ttlSpecification : null
+
+  // States recorded before TTL was tracked only tell us what the models want
+  if (previousState.ttlSpecification === undefined) {
+    if (current) {
+      changes.push({
+        type: 'ttl_change',
+        severity: 'low',
+        description: `TTL enabled on attribute '${current.attributeName}'`,
+        affectedComponent: 'TTL',
+        newValue: current,
+        requiresDataMigration: false,
+        isBreaking: false,
+        estimatedImpact: 'TTL changes take up to one hour to propagate',
+      })
+    }
+    return
+  }
+
+  const previous = previousState.ttlSpecification?.enabled ? previousState.ttlSpecification : null
+  if (previous?.attributeName === current?.attributeName) {
+    return
   }
+
+  changes.push({
+    type: 'ttl_change',
+    severity: current ? 'low' : 'medium',
+    description: !current
+      ? `TTL disabled on attribute '${previous!.attributeName}'`
+      : previous
+        ? `TTL attribute changed from '${previous.attributeName}' to '${current.attributeName}'`
+        : `TTL enabled on attribute '${current.attributeName}'`,
+    affectedComponent: 'TTL',
+    previousValue: previous ?? undefined,
+    newValue: current ?? undefined,
+    details: previous && current
+      ? 'TTL must be disabled before it can be enabled on another attribute'
+      : undefined,
+    requiresDataMigration: false,
+    isBreaking: false,
+    estimatedImpact: 'TTL changes take up to one hour to propagate',
+  })
 }
 
 /**
@@ -908,7 +966,8 @@ function generateMigrationPlan(
       description: ttl.description,
       params: {
         TableName: currentSchema.createTableInput.tableName,
-        TimeToLiveSpecification: currentSchema.ttlSpecification,
+        TimeToLiveSpecification: currentSchema.ttlSpecification
+          ?? { ...(ttl.previousValue as TimeToLiveSpecification), enabled: false },
       },
       waitForCompletion: true,
       estimatedDuration: 'Up to 1 hour for full propagation',
@@ -963,9 +1022,94 @@ export function createMigrationState(
     entityTypes: schema.summary.entityTypes,
     gsiNames: (schema.createTableInput.globalSecondaryIndexes ?? []).map(g => g.indexName),
     lsiNames: (schema.createTableInput.localSecondaryIndexes ?? []).map(l => l.indexName),
+    ttlSpecification: schema.ttlSpecification?.enabled ? schema.ttlSpecification : null,
   }
 }
 
+/**
+ * Live table settings that `DescribeTable` does not return
+ */
+export interface LiveTableSettings {
+  /**
+   * TTL from `DescribeTimeToLive` (when omitted, TTL only drifts if the models enable it)
+   */
+  ttl?: { attributeName?: string, status?: string }
+  /**
+   * Tags from `ListTagsOfResource`
+   */
+  tags?: Array<{ key: string, value: string }>
+  /**
+   * Entity types to record (defaults to none, as tables do not know their entities)
+   */
+  entityTypes?: string[]
+}
+
+/**
+ * Create a migration state from a live table, so `diffSchemas()` reports
+ * drift between the deployed table and the models
+ *
+ * @example
+ * ```typescript
+ * const description = await driver.describeTable('MainTable')
+ * const state = createMigrationStateFromTable(description, { entityTypes: [...registry.models.keys()] })
+ * const drift = diffSchemas(registry, state, config)
+ * ```
+ */
+export function createMigrationStateFromTable(
+  description: TableDescription,
+  settings: LiveTableSettings = {},
+): MigrationState {
+  const billingMode = description.billingModeSummary?.billingMode ?? 'PROVISIONED'
+  const throughput = (capacity?: { readCapacityUnits: number, writeCapacityUnits: number }) =>
+    billingMode === 'PROVISIONED' && capacity
+      ? { readCapacityUnits: capacity.readCapacityUnits, writeCapacityUnits: capacity.writeCapacityUnits }
+      : undefined
+
+  const appliedSchema: CreateTableInput = {
+    tableName: description.tableName,
+    attributeDefinitions: description.attributeDefinitions.map(a => ({ ...a })),
+    keySchema: description.keySchema.map(k => ({ ...k })),
+    globalSecondaryIndexes: description.globalSecondaryIndexes?.map(gsi => ({
+      indexName: gsi.indexName,
+      keySchema: gsi.keySchema.map(k => ({ ...k })),
+      projection: { ...gsi.projection },
+      provisionedThroughput: throughput(gsi.provisionedThroughput),
+    })),
+    localSecondaryIndexes: description.localSecondaryIndexes?.map(lsi => ({
+      indexName: lsi.indexName,
+      keySchema: lsi.keySchema.map(k => ({ ...k })),
+      projection: { ...lsi.projection },
+    })),
+    billingMode,
+    provisionedThroughput: throughput(description.provisionedThroughput),
+    streamSpecification: description.streamSpecification?.streamEnabled
+      ? { ...description.streamSpecification }
+      : undefined,
+    tableClass: description.tableClass,
+    deletionProtectionEnabled: description.deletionProtectionEnabled,
+    tags: settings.tags,
+  }
+
+  const state: MigrationState = {
+    version: 'live',
+    appliedAt: (description.creationDateTime ?? new Date()).toISOString(),
+    schemaHash: generateSchemaHash(appliedSchema),
+    appliedSchema,
+    entityTypes: settings.entityTypes ?? [],
+    gsiNames: (appliedSchema.globalSecondaryIndexes ?? []).map(g => g.indexName),
+    lsiNames: (appliedSchema.localSecondaryIndexes ?? []).map(l => l.indexName),
+  }
+
+  if (settings.ttl) {
+    const enabled = settings.ttl.status === 'ENABLED' || settings.ttl.status === 'ENABLING'
+    state.ttlSpecification = enabled && settings.ttl.attributeName
+      ? { enabled: true, attributeName: settings.ttl.attributeName }
+      : null
+  }
+
+  return state
+}
+
 /**
  * Format diff result for human-readable output
  */
@@ -59,6 +59,9 @@ export {
   type TimeToLiveSpecification,
 } from './AutoSchemaGenerator'
 
+// Driver-backed Migration Client
+export { createDriverMigrationClient } from './DriverClient'
+
 // Data Migrator
 export {
   addMissingEntityTypes,
@@ -84,10 +87,12 @@ export {
   type ChangeSeverity,
   type ChangeType,
   createMigrationState,
+  createMigrationStateFromTable,
   diffSchemas,
   type DiffSummary,
   formatDiffSummary,
   generateSchemaHash,
+  type LiveTableSettings,
   type MigrationState,
   type MigrationStep,
   type SchemaChange,
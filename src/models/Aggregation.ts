@@ -0,0 +1,169 @@
+// ============================================================================
+// Aggregation Engine
+// ============================================================================
+
+import type { JSObject } from '../single-table/EntityTransformer'
+
+/**
+ * Supported aggregate functions
+ */
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+/**
+ * One aggregate to compute. `count` without a column counts items;
+ * with a column it counts items where the column is set.
+ */
+export interface AggregateDefinition {
+  fn: AggregateFunction
+  column?: string
+}
+
+/**
+ * Aggregates to compute, keyed by result alias
+ */
+export type AggregateSpec = Record<string, AggregateDefinition>
+
+/**
+ * Aggregated values for one group
+ */
+export interface AggregateGroup {
+  /** Group-by column values (empty when not grouping) */
+  group: JSObject
+  /** Aggregate values by alias; `avg`, `min` and `max` are null for groups without values */
+  values: Record<string, number | string | null>
+}
+
+/**
+ * Incremental aggregation over a stream of items
+ */
+export interface AggregateAccumulator {
+  add: (item: JSObject) => void
+  result: () => AggregateGroup[]
+}
+
+interface AggregateState {
+  count: number
+  sum: number
+  extreme: number | string | null
+}
+
+/**
+ * Columns an aggregation reads, for use as a projection
+ */
+export function getAggregateColumns(spec: AggregateSpec, groupBy: string[] = []): string[] {
+  const columns = new Set(groupBy)
+  for (const definition of Object.values(spec)) {
+    if (definition.column) {
+      columns.add(definition.column)
+    }
+  }
+  return [...columns]
+}
+
+function isComparable(value: unknown): value is number | string {
+  return typeof value === 'number' || typeof value === 'string'
+}
+
+function accumulate(state: AggregateState, definition: AggregateDefinition, item: JSObject): void {
+  if (!definition.column) {
+    state.count++
+    return
+  }
+
+  const value = item[definition.column]
+  if (value === undefined || value === null)
+    return
+
+  switch (definition.fn) {
+    case 'count':
+      state.count++
+      break
+    case 'sum':
+    case 'avg':
+      if (typeof value === 'number') {
+        state.count++
+        state.sum += value
+      }
+      break
+    case 'min':
+    case 'max':
+      // Values of a different type than the first one seen aren't comparable
+      if (isComparable(value) && (state.extreme === null || typeof state.extreme === typeof value)) {
+        const replace = state.extreme === null
+          || (definition.fn === 'min' ? value < state.extreme : value > state.extreme)
+        if (replace) {
+          state.extreme = value
+        }
+      }
+      break
+  }
+}
+
+function finalize(state: AggregateState, definition: AggregateDefinition): number | string | null {
+  switch (definition.fn) {
+    case 'count':
+      return state.count
+    case 'sum':
+      return state.sum
+    case 'avg':
+      return state.count > 0 ? state.sum / state.count : null
+    case 'min':
+    case 'max':
+      return state.extreme
+  }
+}
+
+/**
+ * Create an accumulator computing every aggregate in one pass,
+ * optionally per distinct combination of group-by column values.
+ *
+ * @example
+ * ```typescript
+ * const accumulator = createAggregateAccumulator(
+ *   { revenue: { fn: 'sum', column: 'amount' }, orders: { fn: 'count' } },
+ *   ['region'],
+ * )
+ * for (const order of orders) accumulator.add(order)
+ * accumulator.result() // [{ group: { region: 'eu' }, values: { revenue: 120, orders: 3 } }, ...]
+ * ```
+ */
+export function createAggregateAccumulator(spec: AggregateSpec, groupBy: string[] = []): AggregateAccumulator {
+  const aliases = Object.keys(spec)
+  for (const alias of aliases) {
+    if (spec[alias].fn !== 'count' && !spec[alias].column) {
+      throw new Error(`Aggregate "${alias}" (${spec[alias].fn}) needs a column`)
+    }
+  }
+
+  const groups = new Map<string, { group: JSObject, states: AggregateState[] }>()
+
+  const newGroup = (group: JSObject): { group: JSObject, states: AggregateState[] } => ({
+    group,
+    states: aliases.map(() => ({ count: 0, sum: 0, extreme: null })),
+  })
+
+  // Without grouping there is always exactly one result, even for no items
+  if (groupBy.length === 0) {
+    groups.set('', newGroup({}))
+  }
+
+  return {
+    add(item: JSObject): void {
+      const group: JSObject = {}
+      for (const column of groupBy) {
+        group[column] = item[column] ?? null
+      }
+      const key = groupBy.length === 0 ? '' : JSON.stringify(groupBy.map(column => group[column]))
+      const entry = groups.get(key) ?? newGroup(group)
+      groups.set(key, entry)
+      aliases.forEach((alias, index) => accumulate(entry.states[index], spec[alias], item))
+    },
+
+    result(): AggregateGroup[] {
+      return [...groups.values()].map(({ group, states }) => ({
+        group,
+        values: Object.fromEntries(aliases.map((alias, index) => [alias, finalize(states[index], spec[alias])])),
+      }))
+    },
+  }
+}
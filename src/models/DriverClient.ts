@@ -0,0 +1,240 @@
+// ============================================================================
+// Driver-backed Model Client
+// ============================================================================
+
+import type { AttributeValue, DriverPlugin } from '../drivers/types'
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import type {
+  BatchWriteOperation,
+  DeleteItemOptions,
+  DynamoDBClient,
+  PutItemOptions,
+  QueryParameters,
+  QueryResponse,
+  ScanParameters,
+  TransactWriteOperation,
+  TransactWriteOptions,
+  UpdateItemOptions,
+} from './DynamoDBModel'
+
+/**
+ * Options for the driver-backed model client
+ */
+export interface DriverModelClientOptions {
+  /** Retries for unprocessed batch keys/items (default: 5) */
+  maxBatchRetries?: number
+  /** Base delay between batch retries in milliseconds (default: 50) */
+  batchRetryDelayMs?: number
+}
+
+type WireItem = Record<string, AttributeValue>
+
+function toWire(item: Record<string, DynamoDBItem[string]>): WireItem {
+  return item as WireItem
+}
+
+function nonEmpty<T>(record: Record<string, T> | undefined): Record<string, T> | undefined {
+  return record && Object.keys(record).length > 0 ? record : undefined
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Adapt a driver plugin to the client interface used by DynamoDBModel,
+ * so models can run against any registered driver (including `memory`).
+ *
+ * @example
+ * ```typescript
+ * const driver = await createActiveDriver('memory', {})
+ * setModelClient(createDriverModelClient(driver))
+ * ```
+ */
+export function createDriverModelClient(
+  driver: DriverPlugin,
+  options: DriverModelClientOptions = {},
+): DynamoDBClient {
+  const maxRetries = options.maxBatchRetries ?? 5
+  const retryDelay = options.batchRetryDelayMs ?? 50
+  const wait = (attempt: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** attempt))
+
+  const toQueryResponse = (output: Awaited<ReturnType<DriverPlugin['query']>>): QueryResponse => ({
+    items: output.items,
+    count: output.count,
+    lastEvaluatedKey: output.lastEvaluatedKey as QueryResponse['lastEvaluatedKey'],
+    consumedCapacity: output.consumedCapacity?.tableName
+      ? {
+          tableName: output.consumedCapacity.tableName,
+          capacityUnits: output.consumedCapacity.capacityUnits ?? 0,
+          readCapacityUnits: output.consumedCapacity.readCapacityUnits,
+          writeCapacityUnits: output.consumedCapacity.writeCapacityUnits,
+        }
+      : undefined,
+  })
+
+  return {
+    async getItem(tableName, key) {
+      return driver.getItem({ tableName, key: toWire(key), consistentRead: true })
+    },
+
+    async putItem(tableName, item, putOptions?: PutItemOptions) {
+      await driver.putItem({
+        tableName,
+        item: toWire(item),
+        conditionExpression: putOptions?.conditionExpression,
+        expressionAttributeNames: nonEmpty(putOptions?.expressionAttributeNames),
+        expressionAttributeValues: nonEmpty(putOptions?.expressionAttributeValues as WireItem | undefined),
+        returnValues: putOptions?.returnValues,
+      })
+    },
+
+    async updateItem(tableName, key, updates, updateOptions?: UpdateItemOptions) {
+      const names: Record<string, string> = { ...updateOptions?.expressionAttributeNames }
+      const values: WireItem = { ...updateOptions?.expressionAttributeValues as WireItem | undefined }
+
+      const assignments = Object.entries(updates).map(([attribute, value], i) => {
+        names[`#upd${i}`] = attribute
+        values[`:upd${i}`] = value as AttributeValue
+        return `#upd${i} = :upd${i}`
+      })
+      const additions = Object.entries(updateOptions?.add ?? {}).map(([attribute, value], i) => {
+        names[`#add${i}`] = attribute
+        values[`:add${i}`] = value as AttributeValue
+        return `#add${i} :add${i}`
+      })
+
+      if (!updateOptions?.updateExpression && assignments.length === 0 && additions.length === 0) {
+        return driver.getItem({ tableName, key: toWire(key), consistentRead: true })
+      }
+
+      const clauses = [
+        assignments.length > 0 ? `SET ${assignments.join(', ')}` : '',
+        additions.length > 0 ? `ADD ${additions.join(', ')}` : '',
+      ]
+      const result = await driver.updateItem({
+        tableName,
+        key: toWire(key),
+        updateExpression: updateOptions?.updateExpression ?? clauses.filter(Boolean).join(' '),
+        conditionExpression: updateOptions?.conditionExpression,
+        expressionAttributeNames: nonEmpty(names),
+        expressionAttributeValues: nonEmpty(values),
+        returnValues: updateOptions?.returnValues ?? 'ALL_NEW',
+      })
+      return result.attributes ?? null
+    },
+
+    async deleteItem(tableName, key, deleteOptions?: DeleteItemOptions) {
+      await driver.deleteItem({
+        tableName,
+        key: toWire(key),
+        conditionExpression: deleteOptions?.conditionExpression,
+        expressionAttributeNames: nonEmpty(deleteOptions?.expressionAttributeNames),
+        expressionAttributeValues: nonEmpty(deleteOptions?.expressionAttributeValues as WireItem | undefined),
+      })
+    },
+
+    async query(tableName, params: QueryParameters) {
+      return toQueryResponse(await driver.query({
+        tableName,
+        indexName: params.indexName,
+        keyConditionExpression: params.keyConditionExpression,
+        filterExpression: params.filterExpression,
+        projectionExpression: params.projectionExpression,
+        expressionAttributeNames: nonEmpty(params.expressionAttributeNames),
+        expressionAttributeValues: nonEmpty(params.expressionAttributeValues as WireItem | undefined),
+        limit: params.limit,
+        exclusiveStartKey: params.exclusiveStartKey as WireItem | undefined,
+        scanIndexForward: params.scanIndexForward,
+        consistentRead: params.consistentRead,
+        select: params.select,
+      }))
+    },
+
+    async scan(tableName, params?: ScanParameters) {
+      return toQueryResponse(await driver.scan({
+        tableName,
+        filterExpression: params?.filterExpression,
+        projectionExpression: params?.projectionExpression,
+        expressionAttributeNames: nonEmpty(params?.expressionAttributeNames),
+        expressionAttributeValues: nonEmpty(params?.expressionAttributeValues as WireItem | undefined),
+        limit: params?.limit,
+        exclusiveStartKey: params?.exclusiveStartKey as WireItem | undefined,
+        consistentRead: params?.consistentRead,
+        select: params?.select,
+      }))
+    },
+
+    async batchGetItem(tableName, keys) {
+      const items: DynamoDBItem[] = []
+      const maxKeys = driver.getCapabilities().maxBatchReadItems
+
+      for (const keyChunk of chunk(keys.map(toWire), maxKeys)) {
+        let pending = keyChunk
+        for (let attempt = 0; pending.length > 0; attempt++) {
+          if (attempt > maxRetries) {
+            throw new Error(`BatchGetItem on ${tableName} left ${pending.length} unprocessed keys after ${maxRetries} retries`)
+          }
+          if (attempt > 0) {
+            await wait(attempt - 1)
+          }
+          const result = await driver.batchGetItem({ requestItems: { [tableName]: { keys: pending, consistentRead: true } } })
+          items.push(...(result.responses[tableName] ?? []))
+          pending = result.unprocessedKeys?.[tableName]?.keys ?? []
+        }
+      }
+
+      return items
+    },
+
+    async batchWriteItem(tableName, operations: BatchWriteOperation[]) {
+      const maxItems = driver.getCapabilities().maxBatchWriteItems
+      const requests = operations.map(operation => operation.type === 'put'
+        ? { putRequest: { item: toWire(operation.item!) } }
+        : { deleteRequest: { key: toWire(operation.key!) } })
+
+      for (const requestChunk of chunk(requests, maxItems)) {
+        let pending = requestChunk
+        for (let attempt = 0; pending.length > 0; attempt++) {
+          if (attempt > maxRetries) {
+            throw new Error(`BatchWriteItem on ${tableName} left ${pending.length} unprocessed items after ${maxRetries} retries`)
+          }
+          if (attempt > 0) {
+            await wait(attempt - 1)
+          }
+          const result = await driver.batchWriteItem({ requestItems: { [tableName]: pending } })
+          pending = (result.unprocessedItems?.[tableName] ?? []) as typeof pending
+        }
+      }
+    },
+
+    async transactWriteItems(operations: TransactWriteOperation[], transactOptions?: TransactWriteOptions) {
+      await driver.transactWriteItems({
+        clientRequestToken: transactOptions?.clientRequestToken,
+        transactItems: operations.map((operation) => {
+          const common = {
+            tableName: operation.tableName,
+            conditionExpression: operation.conditionExpression,
+            expressionAttributeNames: nonEmpty(operation.expressionAttributeNames),
+            expressionAttributeValues: nonEmpty(operation.expressionAttributeValues as WireItem | undefined),
+          }
+          switch (operation.type) {
+            case 'put':
+              return { put: { ...common, item: toWire(operation.item!) } }
+            case 'update':
+              return { update: { ...common, key: toWire(operation.key!), updateExpression: operation.updateExpression! } }
+            case 'delete':
+              return { delete: { ...common, key: toWire(operation.key!) } }
+            case 'conditionCheck':
+              return { conditionCheck: { ...common, key: toWire(operation.key!), conditionExpression: operation.conditionExpression! } }
+          }
+        }),
+      })
+    },
+  }
+}
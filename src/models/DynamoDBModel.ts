@@ -4,30 +4,43 @@
 
 import type { ModelRegistry, ModelTraits, ParsedAttribute, ParsedModel, ParsedRelationship } from '../model-parser/types'
 import type { DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
-import type { EagerLoadSpec, RelationshipQueryBuilder } from '../single-table/RelationshipResolver'
+import type { EagerLoadSpec, RelationshipConstraint, RelationshipQueryBuilder } from '../single-table/RelationshipResolver'
 import type { Config } from '../types'
+import type { PaginatedResult } from '../types/query-builder'
+import type { AggregateGroup, AggregateSpec } from './Aggregation'
+import type { ModelTransactionOptions, ModelTransactionWrite, TransactionWriteAction } from './ModelTransaction'
+import type { AtomicUpdate, AtomicUpdateOptions } from './UpdateExpression'
 import type {
   ModelAttribute,
   ModelHookType,
   ModelRelationship,
-  QueryResult,
   SortDirection,
   WhereCondition,
   WhereOperator,
 } from './types'
-import { getConfig } from '../config'
+import { generateDefaultGSIs, getConfig } from '../config'
 import {
   buildUpdateData,
+  formatTimestamp,
   marshallObject,
   marshallValue,
   toDynamoDBItem,
   toModelInstance,
+  unmarshallItem,
+  unmarshallValue,
 } from '../single-table/EntityTransformer'
 import {
   eagerLoadMany,
+  getRelationshipCounts,
   resolveRelationship,
 } from '../single-table/RelationshipResolver'
-import { ModelNotFoundError } from './types'
+import { createRequestCoalescer, type RequestCoalescer } from '../performance/RetryHandler'
+import { isConditionalCheckFailedError } from '../types/errors'
+import { createAggregateAccumulator, getAggregateColumns } from './Aggregation'
+import { ModelTransaction } from './ModelTransaction'
+import { decodeCursor, encodeCursor, hashQueryShape } from './PaginationCursor'
+import { InvalidCursorError, ModelNotFoundError } from './types'
+import { compileAtomicUpdate } from './UpdateExpression'
 
 // Re-export types for test files
 export type { ModelAttribute, ModelRelationship } from './types'
@@ -51,6 +64,11 @@ export type DynamoDBModelHook<T extends DynamoDBModel = DynamoDBModel> = (_model
  */
 export type DynamoDBModelScope<T extends DynamoDBModel = DynamoDBModel> = (_query: DynamoDBQueryBuilder<T>, ..._args: unknown[]) => DynamoDBQueryBuilder<T>
 
+/**
+ * Comparison between a related item count and the expected count
+ */
+export type RelationshipCountOperator = '=' | '!=' | '<' | '<=' | '>' | '>='
+
 /**
  * DynamoDB Cast definition for attribute type casting
  */
@@ -76,7 +94,7 @@ export interface DynamoDBClient {
   scan: (tableName: string, params?: ScanParameters) => Promise<QueryResponse>
   batchGetItem: (tableName: string, keys: Array<Record<string, DynamoDBItem[string]>>) => Promise<DynamoDBItem[]>
   batchWriteItem: (tableName: string, operations: BatchWriteOperation[]) => Promise<void>
-  transactWriteItems: (operations: TransactWriteOperation[]) => Promise<void>
+  transactWriteItems: (operations: TransactWriteOperation[], options?: TransactWriteOptions) => Promise<void>
 }
 
 export interface PutItemOptions {
@@ -87,6 +105,10 @@ export interface PutItemOptions {
 }
 
 export interface UpdateItemOptions {
+  /** Numbers to add to (or sets to merge into) attributes atomically, via ADD */
+  add?: Record<string, DynamoDBItem[string]>
+  /** Complete UpdateExpression, sent instead of one built from `updates` and `add` */
+  updateExpression?: string
   conditionExpression?: string
   expressionAttributeNames?: Record<string, string>
   expressionAttributeValues?: Record<string, DynamoDBItem[string]>
@@ -153,6 +175,46 @@ export interface TransactWriteOperation {
   expressionAttributeValues?: Record<string, DynamoDBItem[string]>
 }
 
+export interface TransactWriteOptions {
+  /** Idempotency token for the TransactWriteItems call */
+  clientRequestToken?: string
+}
+
+/**
+ * Options for query builder bulk update/delete
+ */
+export interface BulkMutationOptions {
+  /** Report the matching keys without writing anything */
+  dryRun?: boolean
+  /** Maximum UpdateItem calls in flight (default: 10) */
+  concurrency?: number
+}
+
+/**
+ * Key of an item touched by a bulk mutation
+ */
+export interface BulkMutationKey {
+  pk: string
+  sk: string
+}
+
+/**
+ * Outcome of a bulk update/delete
+ */
+export interface BulkMutationResult {
+  /** Items the query matched */
+  matched: number
+  /** Items written (or, for a dry run, that would be written) */
+  succeeded: BulkMutationKey[]
+  /** Items that stopped matching the query before they were written */
+  skipped: BulkMutationKey[]
+  /** Items whose write failed */
+  failed: Array<{ key: BulkMutationKey, error: unknown }>
+  /** New values of the updated attributes per item, for atomic updates */
+  updated?: Array<{ key: BulkMutationKey, values: JSObject }>
+  dryRun: boolean
+}
+
 // ============================================================================
 // Model Registry and Client Storage
 // ============================================================================
@@ -160,12 +222,14 @@ export interface TransactWriteOperation {
 let globalClient: DynamoDBClient | null = null
 let globalRegistry: ModelRegistry | null = null
 let globalConfig: Config | null = null
+let globalItemLoader: RequestCoalescer<ItemKey, DynamoDBItem> | null = null
 
 /**
  * Set the global DynamoDB client for all models
  */
 export function setModelClient(client: DynamoDBClient): void {
   globalClient = client
+  globalItemLoader = createItemLoader(client)
 }
 
 /**
@@ -584,6 +648,35 @@ export abstract class DynamoDBModel {
     return model
   }
 
+  /**
+   * Run a callback as a unit of work: the writes it queues on the
+   * transaction commit together in one TransactWriteItems call once it
+   * returns, or not at all. A cancelled transaction throws a
+   * `TransactionCancelledError` naming the failing models.
+   *
+   * @example
+   * ```typescript
+   * await DynamoDBModel.transaction(async (trx) => {
+   *   order.status = 'paid'
+   *   await trx.save(order)
+   *   await trx.create(Payment, { orderId: order.id, amount: 50 })
+   *   trx.conditionCheck(account, 'balance >= :amount', {
+   *     expressionAttributeValues: { ':amount': 50 },
+   *   })
+   * })
+   * ```
+   */
+  static async transaction<R>(
+    callback: (trx: ModelTransaction) => R | Promise<R>,
+    options: ModelTransactionOptions = {},
+  ): Promise<R> {
+    const config = await getModelConfig()
+    const trx = new ModelTransaction(config, options)
+    const result = await callback(trx)
+    await trx.commit(getModelClient())
+    return result
+  }
+
   /**
    * Get all models of this type
    */
@@ -812,6 +905,256 @@ export abstract class DynamoDBModel {
     return true
   }
 
+  // ============================================================================
+  // Atomic Updates
+  // ============================================================================
+
+  /**
+   * Apply changes in place with one UpdateItem call instead of a
+   * read-modify-write `save()`, so concurrent writers do not lose updates.
+   * Returns the new values of the updated attributes, which are also synced
+   * into the model. Atomic updates do not run model hooks.
+   *
+   * @example
+   * ```typescript
+   * await post.atomicUpdate(
+   *   { increment: { views: 1 }, setIfNotExists: { firstViewedAt: now } },
+   *   { condition: '#status = :published', expressionAttributeNames: { '#status': 'status' }, expressionAttributeValues: { ':published': 'published' } },
+   * )
+   * ```
+   */
+  async atomicUpdate(update: AtomicUpdate, options: AtomicUpdateOptions = {}): Promise<JSObject> {
+    if (!this._exists) {
+      throw new Error(`Cannot update ${this.constructor.name} atomically before it is saved`)
+    }
+
+    const config = await getModelConfig()
+    const client = getModelClient()
+    const { tableName, key } = this.getItemKey(config)
+    const compiled = compileAtomicUpdate(withBookkeeping(update, this.getParsedModel(), config))
+    const condition = buildAtomicCondition('attribute_exists(#atmPk)', options)
+
+    const result = await client.updateItem(tableName, key, {}, {
+      updateExpression: compiled.updateExpression,
+      conditionExpression: condition.conditionExpression,
+      expressionAttributeNames: {
+        ...compiled.expressionAttributeNames,
+        '#atmPk': config.singleTableDesign.partitionKeyName,
+        ...condition.expressionAttributeNames,
+      },
+      expressionAttributeValues: { ...compiled.expressionAttributeValues, ...condition.expressionAttributeValues },
+      returnValues: 'UPDATED_NEW',
+    })
+
+    // Nested paths come back as partial maps, so only whole attributes are synced
+    const values = result ? unmarshallItem(result) : {}
+    const nested = getNestedRoots(update)
+    for (const [attribute, value] of Object.entries(values)) {
+      if (!nested.has(attribute)) {
+        this._attributes[attribute] = value
+        this._original[attribute] = value
+      }
+    }
+    for (const attribute of update.remove ?? []) {
+      if (!attribute.includes('.')) {
+        delete this._attributes[attribute]
+        delete this._original[attribute]
+      }
+    }
+
+    return values
+  }
+
+  /**
+   * Atomically add to a number attribute, starting from 0 when it is missing
+   */
+  async increment(attribute: string, amount: number = 1, options: AtomicUpdateOptions = {}): Promise<number> {
+    const values = await this.atomicUpdate({ increment: { [attribute]: amount } }, options)
+    return readPath(values, attribute) as number
+  }
+
+  /**
+   * Atomically subtract from a number attribute
+   */
+  async decrement(attribute: string, amount: number = 1, options: AtomicUpdateOptions = {}): Promise<number> {
+    return this.increment(attribute, -amount, options)
+  }
+
+  /**
+   * Atomically append to a list attribute, creating it when missing
+   */
+  async append(attribute: string, items: unknown[], options: AtomicUpdateOptions = {}): Promise<unknown[]> {
+    const values = await this.atomicUpdate({ append: { [attribute]: items } }, options)
+    return readPath(values, attribute) as unknown[]
+  }
+
+  /**
+   * Remove attributes from the item
+   */
+  async remove(attributes: string | string[], options: AtomicUpdateOptions = {}): Promise<void> {
+    await this.atomicUpdate({ remove: Array.isArray(attributes) ? attributes : [attributes] }, options)
+  }
+
+  /**
+   * Atomically add elements to a string or number set
+   */
+  async addToSet(attribute: string, elements: string[] | number[], options: AtomicUpdateOptions = {}): Promise<Set<string | number>> {
+    const values = await this.atomicUpdate({ addToSet: { [attribute]: elements } }, options)
+    return (readPath(values, attribute) as Set<string | number> | undefined) ?? new Set()
+  }
+
+  /**
+   * Atomically remove elements from a string or number set. DynamoDB drops
+   * the attribute once the set is empty.
+   */
+  async deleteFromSet(attribute: string, elements: string[] | number[], options: AtomicUpdateOptions = {}): Promise<Set<string | number>> {
+    const values = await this.atomicUpdate({ deleteFromSet: { [attribute]: elements } }, options)
+    const set = readPath(values, attribute) as Set<string | number> | undefined
+    if (!set && !attribute.includes('.')) {
+      delete this._attributes[attribute]
+      delete this._original[attribute]
+    }
+    return set ?? new Set()
+  }
+
+  /**
+   * Set an attribute only when it is missing; returns the stored value
+   */
+  async setIfNotExists(attribute: string, value: unknown, options: AtomicUpdateOptions = {}): Promise<unknown> {
+    const values = await this.atomicUpdate({ setIfNotExists: { [attribute]: value } }, options)
+    return readPath(values, attribute)
+  }
+
+  /**
+   * Build the write a save, delete or force delete makes, for a transaction.
+   * Hooks that can cancel the write run now; returns null when one does.
+   * @internal
+   */
+  async prepareTransactionWrite(action: TransactionWriteAction, config: Config): Promise<ModelTransactionWrite | null> {
+    if (action === 'save')
+      return this.prepareSaveWrite(config)
+
+    if (!this._exists)
+      return null
+
+    if (action === 'delete' && (this.constructor as typeof DynamoDBModel).softDeletes) {
+      if (await this.runHooks('deleting') === false)
+        return null
+
+      this._attributes[config.queryBuilder.softDeletes.attribute] = new Date().toISOString()
+      this._trashed = true
+
+      const write = await this.prepareSaveWrite(config)
+      if (!write)
+        return null
+      return {
+        ...write,
+        afterCommit: async () => {
+          await write.afterCommit()
+          await this.runHooks('deleted')
+        },
+      }
+    }
+
+    const [before, after]: ModelHookType[] = action === 'delete'
+      ? ['deleting', 'deleted']
+      : ['forceDeleting', 'forceDeleted']
+    if (await this.runHooks(before) === false)
+      return null
+
+    const { tableName, key, pk, sk } = this.getItemKey(config)
+    return {
+      operation: { type: 'delete', tableName, key },
+      item: { model: this.constructor.name, operation: 'delete', key: { pk, sk } },
+      afterCommit: async () => {
+        this._exists = false
+        await this.runHooks(after)
+      },
+    }
+  }
+
+  /**
+   * Transaction counterpart of `save()`
+   */
+  private async prepareSaveWrite(config: Config): Promise<ModelTransactionWrite | null> {
+    if (await this.runHooks('saving') === false)
+      return null
+
+    if (this._exists) {
+      if (await this.runHooks('updating') === false)
+        return null
+
+      const { changes, hasChanges } = buildUpdateData(
+        this.getParsedModel(),
+        this._original,
+        this._attributes,
+        config,
+      )
+      const { tableName, key, pk, sk } = this.getItemKey(config)
+      const afterCommit = async (): Promise<void> => {
+        if (hasChanges) {
+          Object.assign(this._attributes, changes)
+          this.syncOriginal()
+        }
+        await this.runHooks('updated')
+        await this.runHooks('saved')
+      }
+
+      if (!hasChanges)
+        return { item: { model: this.constructor.name, operation: 'update', key: { pk, sk } }, afterCommit }
+
+      const version = this.getVersionCondition(config)
+      const names: Record<string, string> = { ...version.expressionAttributeNames }
+      const values: Record<string, DynamoDBItem[string]> = { ...version.expressionAttributeValues }
+      const assignments = Object.entries(marshallObject(changes)).map(([attribute, value], i) => {
+        names[`#upd${i}`] = attribute
+        values[`:upd${i}`] = value
+        return `#upd${i} = :upd${i}`
+      })
+
+      return {
+        operation: {
+          type: 'update',
+          tableName,
+          key,
+          updateExpression: `SET ${assignments.join(', ')}`,
+          conditionExpression: version.conditionExpression,
+          expressionAttributeNames: names,
+          expressionAttributeValues: values,
+        },
+        item: { model: this.constructor.name, operation: 'update', key: { pk, sk } },
+        afterCommit,
+      }
+    }
+
+    if (await this.runHooks('creating') === false)
+      return null
+
+    if ((this.constructor as typeof DynamoDBModel).uuid && !this._attributes[this.getPrimaryKeyName()]) {
+      this._attributes[this.getPrimaryKeyName()] = crypto.randomUUID()
+    }
+
+    const transformed = toDynamoDBItem(this.getParsedModel(), this._attributes, config)
+    const { tableName, pk, sk } = this.getItemKey(config)
+    return {
+      operation: {
+        type: 'put',
+        tableName,
+        item: transformed.data,
+        conditionExpression: 'attribute_not_exists(#pk)',
+        expressionAttributeNames: { '#pk': config.singleTableDesign.partitionKeyName },
+      },
+      item: { model: this.constructor.name, operation: 'put', key: { pk, sk } },
+      afterCommit: async () => {
+        this._exists = true
+        this._wasRecentlyCreated = true
+        this.syncOriginal()
+        await this.runHooks('created')
+        await this.runHooks('saved')
+      },
+    }
+  }
+
   /**
    * Refresh the model from the database
    */
@@ -952,31 +1295,48 @@ export abstract class DynamoDBModel {
   createRelationshipQueryBuilder(): RelationshipQueryBuilder {
     const client = getModelClient()
 
+    const loader = getItemLoader()
+
     return {
       getItem: async (tableName, key) => {
-        return client.getItem(tableName, {
+        const item = await loader.get(tableName, {
           pk: marshallValue(key.pk)!,
           sk: marshallValue(key.sk)!,
         })
+        return item ?? null
       },
       query: async (tableName, params) => {
-        const response = await client.query(tableName, {
-          indexName: params.indexName,
-          keyConditionExpression: params.keyCondition,
-          expressionAttributeValues: Object.fromEntries(
-            Object.entries(params.keyValues).map(([k, v]) => [k, marshallValue(v)!]),
-          ),
-          limit: params.limit,
-          scanIndexForward: params.scanIndexForward,
-        })
-        return response.items
+        const expressionAttributeValues = Object.fromEntries(
+          Object.entries({ ...params.keyValues, ...params.filterValues }).map(([k, v]) => [k, marshallValue(v)!]),
+        )
+        const items: DynamoDBItem[] = []
+        let exclusiveStartKey: Record<string, DynamoDBItem[string]> | undefined
+
+        // Follow pages until the limit is met; Limit counts items before filtering,
+        // so it is only passed through for unfiltered queries
+        do {
+          const response = await client.query(tableName, {
+            indexName: params.indexName,
+            keyConditionExpression: params.keyCondition,
+            filterExpression: params.filterExpression,
+            expressionAttributeNames: params.filterNames,
+            expressionAttributeValues,
+            limit: params.filterExpression ? undefined : params.limit,
+            scanIndexForward: params.scanIndexForward,
+            exclusiveStartKey,
+          })
+          items.push(...response.items)
+          exclusiveStartKey = response.lastEvaluatedKey
+        } while (exclusiveStartKey && (params.limit === undefined || items.length < params.limit))
+
+        return params.limit !== undefined ? items.slice(0, params.limit) : items
       },
       batchGet: async (tableName, keys) => {
-        const marshalledKeys = keys.map(key => ({
+        const items = await Promise.all(keys.map(key => loader.get(tableName, {
           pk: marshallValue(key.pk)!,
           sk: marshallValue(key.sk)!,
-        }))
-        return client.batchGetItem(tableName, marshalledKeys)
+        })))
+        return items.filter((item): item is DynamoDBItem => item !== undefined)
       },
     }
   }
@@ -1201,6 +1561,23 @@ export abstract class DynamoDBModel {
     }
   }
 
+  /**
+   * Get the table and marshalled primary key of this model's item
+   * @internal
+   */
+  getItemKey(config: Config): { tableName: string, key: Record<string, DynamoDBItem[string]>, pk: string, sk: string } {
+    const { pk, sk } = this.getKeys(config)
+    return {
+      tableName: this.getTableName(config),
+      key: {
+        [config.singleTableDesign.partitionKeyName]: marshallValue(pk)!,
+        [config.singleTableDesign.sortKeyName]: marshallValue(sk)!,
+      },
+      pk,
+      sk,
+    }
+  }
+
   /**
    * Get the parsed model definition
    * @internal
@@ -1334,6 +1711,206 @@ export abstract class DynamoDBModel {
 // Query Builder Implementation
 // ============================================================================
 
+/**
+ * Relationship existence filter added by has/doesntHave/whereHas
+ */
+interface RelationshipExistenceFilter {
+  relationship: string
+  operator: RelationshipCountOperator
+  count: number
+  callback?: (query: DynamoDBQueryBuilder<DynamoDBModel>) => void
+}
+
+function compareCount(actual: number, operator: RelationshipCountOperator, expected: number): boolean {
+  switch (operator) {
+    case '=': return actual === expected
+    case '!=': return actual !== expected
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+  }
+}
+
+/**
+ * Expressions built from the query builder's constraints
+ */
+interface QueryExpressions {
+  keyCondition: string | null
+  filterExpression: string | null
+  expressionAttributeNames: Record<string, string>
+  expressionAttributeValues: Record<string, DynamoDBItem[string]>
+}
+
+/**
+ * Per-request options for reading one page of a query or scan
+ */
+interface PageReadOptions {
+  limit?: number
+  exclusiveStartKey?: Record<string, DynamoDBItem[string]>
+  scanIndexForward?: boolean
+}
+
+function pickKey(item: DynamoDBItem, attributes: string[]): Record<string, DynamoDBItem[string]> {
+  const key: Record<string, DynamoDBItem[string]> = {}
+  for (const attribute of attributes) {
+    if (item[attribute] !== undefined) {
+      key[attribute] = item[attribute]
+    }
+  }
+  return key
+}
+
+/**
+ * Add the timestamp and version changes a save makes to an atomic update
+ */
+function withBookkeeping(update: AtomicUpdate, parsedModel: ParsedModel, config: Config): AtomicUpdate {
+  const { updatedAtAttribute, versionAttribute, timestampFormat } = config.queryBuilder
+  return {
+    ...update,
+    set: parsedModel.hasTimestamps
+      ? { ...update.set, [updatedAtAttribute]: formatTimestamp(new Date(), timestampFormat) }
+      : update.set,
+    increment: parsedModel.hasVersioning
+      ? { ...update.increment, [versionAttribute]: 1 }
+      : update.increment,
+  }
+}
+
+/**
+ * AND a caller condition onto the condition an atomic update always carries
+ */
+function buildAtomicCondition(base: string, options: AtomicUpdateOptions): Required<Pick<UpdateItemOptions, 'conditionExpression' | 'expressionAttributeNames' | 'expressionAttributeValues'>> {
+  return {
+    conditionExpression: options.condition ? `${base} AND (${options.condition})` : base,
+    expressionAttributeNames: { ...options.expressionAttributeNames },
+    expressionAttributeValues: options.expressionAttributeValues ? marshallObject(options.expressionAttributeValues) : {},
+  }
+}
+
+/**
+ * Top-level attributes an atomic update changes through nested paths
+ */
+function getNestedRoots(update: AtomicUpdate): Set<string> {
+  const changes = [update.set, update.setIfNotExists, update.increment, update.append, update.addToSet, update.deleteFromSet]
+  const paths = [...(update.remove ?? []), ...changes.flatMap(change => Object.keys(change ?? {}))]
+  return new Set(paths.filter(path => path.includes('.')).map(path => path.split('.')[0]))
+}
+
+/**
+ * Value at a dotted attribute path, if every segment exists
+ */
+function readPath(values: JSObject, path: string): unknown {
+  let current: unknown = values
+  for (const segment of path.split('.')) {
+    current = current && typeof current === 'object' ? (current as JSObject)[segment] : undefined
+  }
+  return current
+}
+
+/**
+ * Expression names/values the expression refers to; DynamoDB rejects unused ones
+ */
+function pickReferenced<V>(expression: string, entries: Record<string, V>): Record<string, V> {
+  return Object.fromEntries(Object.entries(entries).filter(([placeholder]) =>
+    new RegExp(`${placeholder}(?!\\w)`).test(expression)))
+}
+
+function toBulkMutationKey(item: DynamoDBItem, config: Config): BulkMutationKey {
+  return {
+    pk: unmarshallValue(item[config.singleTableDesign.partitionKeyName]) as string,
+    sk: unmarshallValue(item[config.singleTableDesign.sortKeyName]) as string,
+  }
+}
+
+function createBulkMutationResult(options: BulkMutationOptions): BulkMutationResult {
+  return { matched: 0, succeeded: [], skipped: [], failed: [], dryRun: options.dryRun ?? false }
+}
+
+async function runWithConcurrency<I>(items: I[], concurrency: number, worker: (item: I) => Promise<void>): Promise<void> {
+  let next = 0
+  const lanes = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++])
+    }
+  })
+  await Promise.all(lanes)
+}
+
+/**
+ * GSI key attributes derived from attributes an atomic update changes, as
+ * the update leaves the item, where they differ from the stored ones
+ */
+function deriveIndexKeyChanges(item: DynamoDBItem, update: AtomicUpdate, parsedModel: ParsedModel, config: Config): JSObject {
+  const changed = new Set([
+    ...Object.keys(update.set ?? {}),
+    ...Object.keys(update.setIfNotExists ?? {}),
+    ...Object.keys(update.increment ?? {}),
+    ...(update.remove ?? []),
+  ])
+  const { gsi1pkName, gsi1skName, gsi2pkName, gsi2skName } = config.singleTableDesign
+  const indexKeys = ([['gsi1pk', gsi1pkName], ['gsi1sk', gsi1skName], ['gsi2pk', gsi2pkName], ['gsi2sk', gsi2skName]] as const)
+    .filter(([key]) => [...(parsedModel.keyPatterns[key] ?? '').matchAll(/\{([^}]+)\}/g)].some(([, attribute]) => changed.has(attribute)))
+  if (indexKeys.length === 0) {
+    return {}
+  }
+
+  const data = unmarshallItem(item)
+  for (const [attribute, value] of Object.entries(update.set ?? {})) {
+    data[attribute] = value
+  }
+  for (const [attribute, value] of Object.entries(update.setIfNotExists ?? {})) {
+    if (data[attribute] === undefined) {
+      data[attribute] = value
+    }
+  }
+  for (const [attribute, amount] of Object.entries(update.increment ?? {})) {
+    data[attribute] = (Number(data[attribute]) || 0) + amount
+  }
+  for (const attribute of update.remove ?? []) {
+    delete data[attribute]
+  }
+
+  const { keys } = toDynamoDBItem(parsedModel, data, config)
+  const changes: JSObject = {}
+  for (const [key, attributeName] of indexKeys) {
+    const value = keys[key]
+    if (value !== undefined && (item[attributeName] as { S?: string } | undefined)?.S !== value) {
+      changes[attributeName] = value
+    }
+  }
+  return changes
+}
+
+type ItemKey = Record<string, DynamoDBItem[string]>
+
+/**
+ * Loader that coalesces concurrent single-item reads into one BatchGetItem
+ * per table; a lone read stays a GetItem
+ */
+function createItemLoader(client: DynamoDBClient): RequestCoalescer<ItemKey, DynamoDBItem> {
+  return createRequestCoalescer<ItemKey, DynamoDBItem>(async (keys, tableName) => {
+    if (keys.length === 1) {
+      const item = await client.getItem(tableName, keys[0])
+      return new Map(item ? [[keys[0], item]] : [])
+    }
+
+    const attributes = Object.keys(keys[0])
+    const items = await client.batchGetItem(tableName, keys)
+    return new Map(items.map(item => [pickKey(item, attributes), item]))
+  }, {
+    windowMs: 0,
+    keyId: key => JSON.stringify(Object.keys(key).sort().map(name => [name, key[name]])),
+  })
+}
+
+function getItemLoader(): RequestCoalescer<ItemKey, DynamoDBItem> {
+  const client = getModelClient()
+  if (!globalItemLoader)
+    globalItemLoader = createItemLoader(client)
+  return globalItemLoader
+}
+
 /**
  * DynamoDB Query Builder with Laravel-style fluent API
  */
@@ -1350,6 +1927,8 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
   private _onlyTrashed: boolean = false
   private _withoutGlobalScopes: string[] = []
   private _consistentRead: boolean = false
+  private _has: RelationshipExistenceFilter[] = []
+  private _groupBy: string[] = []
 
   constructor(modelClass: DynamoDBModelConstructor<T>) {
     this.modelClass = modelClass
@@ -1484,23 +2063,105 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
   // ---- Pagination ----
 
-  async paginate(perPage: number = 15): Promise<QueryResult<T>> {
-    this._limit = perPage
-    const items = await this.get()
-    return {
-      items,
-      count: items.length,
-      // Note: lastEvaluatedKey would come from actual query response
-    }
+  /**
+   * First page of results, filled until `perPage` items pass every filter
+   */
+  async paginate(perPage: number = 15): Promise<PaginatedResult<T>> {
+    return this.cursorPaginate(undefined, perPage)
   }
 
-  async cursorPaginate(cursor?: string, perPage: number = 15): Promise<QueryResult<T>> {
-    this._limit = perPage
-    // Parse cursor as base64 encoded LastEvaluatedKey
-    const items = await this.get()
+  /**
+   * Page of results starting from a previous page's `nextCursor` or `prevCursor`.
+   * Cursors only work with the query they were issued for, and are signed when
+   * `queryBuilder.cursorSecret` is configured. Paging backward needs a key condition.
+   *
+   * @example
+   * ```typescript
+   * const page1 = await Post.query().where('pk', 'USER#1').cursorPaginate(undefined, 20)
+   * const page2 = await Post.query().where('pk', 'USER#1').cursorPaginate(page1.nextCursor, 20)
+   * const back = await Post.query().where('pk', 'USER#1').cursorPaginate(page2.prevCursor, 20)
+   * ```
+   */
+  async cursorPaginate(cursor?: string, perPage: number = 15): Promise<PaginatedResult<T>> {
+    const config = await getModelConfig()
+    const { expressions, fetchPage, toInstances } = this.createPageReader(config)
+    const ascending = this._orderBy[0]?.direction !== 'desc'
+
+    const cursorOptions = {
+      secret: config.queryBuilder.cursorSecret,
+      shape: hashQueryShape({
+        tableName: this.getTableName(config),
+        indexName: this._indexName,
+        ...expressions,
+        ascending,
+        has: this._has.map(({ relationship, operator, count }) => [relationship, operator, count]),
+      }),
+    }
+    const position = cursor ? decodeCursor(cursor, cursorOptions) : undefined
+    const backward = position?.direction === 'prev'
+    if (backward && !expressions.keyCondition) {
+      throw new InvalidCursorError('scans can only page forward')
+    }
+
+    // Filters drop items after the read, so keep reading until the page is full
+    const keyAttributes = this.getKeyAttributes(config)
+    const page: Array<{ instance: T, key: Record<string, DynamoDBItem[string]> }> = []
+    let exclusiveStartKey = position?.key
+    let more = false
+    while (page.length < perPage) {
+      const response = await fetchPage({
+        limit: perPage,
+        exclusiveStartKey,
+        scanIndexForward: backward ? !ascending : ascending,
+      })
+      const candidates = toInstances(response.items)
+      const kept = new Set(this._has.length > 0 ? await this.applyRelationshipFilters(candidates, config) : candidates)
+      const matches = candidates
+        .map((instance, index) => ({ instance, key: pickKey(response.items[index], keyAttributes) }))
+        .filter(entry => kept.has(entry.instance))
+
+      const room = perPage - page.length
+      page.push(...matches.slice(0, room))
+      if (matches.length > room || (page.length === perPage && response.lastEvaluatedKey)) {
+        more = true
+        break
+      }
+      if (!response.lastEvaluatedKey)
+        break
+      exclusiveStartKey = response.lastEvaluatedKey
+    }
+
+    if (backward) {
+      if (!more && page.length < perPage) {
+        // Reached the start without filling the page (items were deleted or
+        // stopped matching), so serve a full first page instead
+        return this.cursorPaginate(undefined, perPage)
+      }
+      page.reverse()
+    }
+
+    // Going backward, `more` means earlier items; later ones exist since we came from them
+    const hasMore = backward || more
+    const hasPrevious = backward ? more : position !== undefined && page.length > 0
+    const currentPage = !position ? 1 : backward && !more ? 1 : position.page
+    const items = await this.eagerLoad(page.map(entry => entry.instance), config)
+    const lastKey = page.at(-1)?.key
+
     return {
       items,
-      count: items.length,
+      total: (currentPage - 1) * perPage + items.length,
+      perPage,
+      currentPage,
+      lastPage: hasMore ? currentPage + 1 : currentPage,
+      hasMorePages: hasMore,
+      hasMore,
+      cursor,
+      nextCursor: hasMore && lastKey
+        ? encodeCursor({ key: lastKey, direction: 'next', page: currentPage + 1 }, cursorOptions)
+        : undefined,
+      prevCursor: hasPrevious
+        ? encodeCursor({ key: page[0].key, direction: 'prev', page: Math.max(currentPage - 1, 1) }, cursorOptions)
+        : undefined,
     }
   }
 
@@ -1530,18 +2191,40 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
   // ---- Relationship Existence ----
 
-  has(_relationship: string): this {
-    // Add filter for relationship existence
+  /**
+   * Only return models whose related item count satisfies the comparison
+   * (at least one by default). The relationship is the key in `relationships`
+   * or the related model name.
+   */
+  has(relationship: string, operator: RelationshipCountOperator = '>=', count: number = 1): this {
+    this._has.push({ relationship, operator, count })
     return this
   }
 
-  doesntHave(_relationship: string): this {
-    // Add filter for relationship non-existence
-    return this
+  /**
+   * Only return models without related items
+   */
+  doesntHave(relationship: string): this {
+    return this.has(relationship, '<', 1)
   }
 
-  whereHas(_relationship: string, _callback?: (query: DynamoDBQueryBuilder<DynamoDBModel>) => void): this {
-    // Apply callback constraints to relationship query
+  /**
+   * Like `has`, counting only related items matching the callback's constraints
+   *
+   * @example
+   * ```typescript
+   * const authors = await User.query()
+   *   .whereHas('posts', q => q.where('published', true))
+   *   .get()
+   * ```
+   */
+  whereHas(
+    relationship: string,
+    callback?: (query: DynamoDBQueryBuilder<DynamoDBModel>) => void,
+    operator: RelationshipCountOperator = '>=',
+    count: number = 1,
+  ): this {
+    this._has.push({ relationship, operator, count, callback })
     return this
   }
 
@@ -1567,84 +2250,29 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
   async get(): Promise<T[]> {
     const config = await getModelConfig()
-    const client = getModelClient()
+    const { fetchPage, toInstances } = this.createPageReader(config)
 
-    const tableName = this.getTableName(config)
-    const modelInstance = new this.modelClass()
-    const entityType = modelInstance.getEntityType()
+    let instances: T[]
 
-    // Build query/scan parameters
-    const { keyCondition, filterExpression, expressionAttributeNames, expressionAttributeValues }
-      = this.buildExpressions(config, entityType)
-
-    let items: DynamoDBItem[]
-
-    if (keyCondition) {
-      // Use Query
-      const response = await client.query(tableName, {
-        indexName: this._indexName,
-        keyConditionExpression: keyCondition,
-        filterExpression: filterExpression || undefined,
-        expressionAttributeNames,
-        expressionAttributeValues,
-        limit: this._limit,
-        scanIndexForward: this._orderBy[0]?.direction !== 'desc',
-        consistentRead: this._consistentRead,
-      })
-      items = response.items
+    if (this._has.length === 0) {
+      instances = toInstances((await fetchPage({ limit: this._limit })).items)
     }
     else {
-      // Use Scan
-      const response = await client.scan(tableName, {
-        filterExpression: filterExpression || undefined,
-        expressionAttributeNames,
-        expressionAttributeValues,
-        limit: this._limit,
-        consistentRead: this._consistentRead,
-      })
-      items = response.items
-    }
-
-    // Transform to model instances
-    const parsedModel = modelInstance.getParsedModel()
-    let instances = items.map((item) => {
-      const transformed = toModelInstance(parsedModel, item, config)
-      const instance = new this.modelClass(transformed.data)
-      ;(instance as DynamoDBModel)._exists = true
-      ;(instance as DynamoDBModel).syncOriginal()
-      return instance
-    })
-
-    // Apply eager loading
-    if (this._with.length > 0) {
-      const registry = getOrmModelRegistry()
-      const queryBuilder = modelInstance.createRelationshipQueryBuilder()
-
-      const loadedData = await eagerLoadMany(
-        parsedModel,
-        instances.map(i => i._attributes),
-        this._with,
-        registry,
-        config,
-        queryBuilder,
-      )
-
-      // Merge loaded relationships back into instances
-      instances = instances.map((instance, index) => {
-        const data = loadedData[index]
-        for (const spec of this._with) {
-          if (data[spec.relationship]) {
-            (instance as DynamoDBModel)._relations.set(
-              spec.relationship,
-              data[spec.relationship] as DynamoDBModel | DynamoDBModel[],
-            )
-          }
-        }
-        return instance
-      })
+      // Relationship filters drop items after the read, so keep paging until the limit is met
+      instances = []
+      let lastEvaluatedKey: Record<string, DynamoDBItem[string]> | undefined
+      do {
+        const response = await fetchPage({ limit: this._limit, exclusiveStartKey: lastEvaluatedKey })
+        instances.push(...await this.applyRelationshipFilters(toInstances(response.items), config))
+        lastEvaluatedKey = response.lastEvaluatedKey
+      } while (lastEvaluatedKey && (this._limit === undefined || instances.length < this._limit))
+
+      if (this._limit !== undefined) {
+        instances = instances.slice(0, this._limit)
+      }
     }
 
-    return instances
+    return this.eagerLoad(instances, config)
   }
 
   async first(): Promise<T | null> {
@@ -1663,7 +2291,7 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
   async find(pk: string | number, sk?: string | number): Promise<T | null> {
     const config = await getModelConfig()
-    const client = getModelClient()
+    const loader = getItemLoader()
 
     const tableName = this.getTableName(config)
     const modelInstance = new this.modelClass()
@@ -1678,7 +2306,8 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
       [config.singleTableDesign.sortKeyName]: marshallValue(skValue)!,
     }
 
-    const item = await client.getItem(tableName, marshalledKey)
+    // Concurrent finds are coalesced into one BatchGetItem per table
+    const item = await loader.get(tableName, marshalledKey)
 
     if (!item)
       return null
@@ -1731,15 +2360,18 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
   }
 
   async count(): Promise<number> {
+    if (this._has.length > 0) {
+      // Relationship filters can't be expressed as a COUNT query
+      return (await this.get()).length
+    }
+
     const config = await getModelConfig()
     const client = getModelClient()
 
     const tableName = this.getTableName(config)
     const modelInstance = new this.modelClass()
-    const entityType = modelInstance.getEntityType()
-
     const { keyCondition, filterExpression, expressionAttributeNames, expressionAttributeValues }
-      = this.buildExpressions(config, entityType)
+      = this.buildExpressions(config, modelInstance.getParsedModel().name)
 
     if (keyCondition) {
       const response = await client.query(tableName, {
@@ -1772,44 +2404,49 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
   // ---- Aggregations ----
 
+  /**
+   * Group `aggregate()` results by the given columns
+   */
+  groupBy(...columns: string[]): this {
+    this._groupBy.push(...columns)
+    return this
+  }
+
+  /**
+   * Compute several aggregates over every matching item in one pass.
+   * Reads all pages, projecting only the aggregated and grouped columns,
+   * and ignores `limit()`.
+   *
+   * @example
+   * ```typescript
+   * const byRegion = await Order.query()
+   *   .where('status', 'paid')
+   *   .groupBy('region')
+   *   .aggregate({ revenue: { fn: 'sum', column: 'amount' }, orders: { fn: 'count' } })
+   * ```
+   */
+  async aggregate(spec: AggregateSpec): Promise<AggregateGroup[]> {
+    return this.runAggregation(spec, this._groupBy)
+  }
+
   async sum(column: string): Promise<number> {
-    const items = await this.get()
-    return items.reduce((acc, item) => {
-      const value = (item as DynamoDBModel)._attributes[column]
-      return acc + (typeof value === 'number' ? value : 0)
-    }, 0)
+    const [{ values }] = await this.runAggregation({ sum: { fn: 'sum', column } }, [])
+    return values.sum as number
   }
 
   async avg(column: string): Promise<number> {
-    const items = await this.get()
-    if (items.length === 0)
-      return 0
-    const sum = await this.sum(column)
-    return sum / items.length
+    const [{ values }] = await this.runAggregation({ avg: { fn: 'avg', column } }, [])
+    return (values.avg as number | null) ?? 0
   }
 
   async min(column: string): Promise<number | null> {
-    const items = await this.get()
-    if (items.length === 0)
-      return null
-    return Math.min(
-      ...items.map((item) => {
-        const value = (item as DynamoDBModel)._attributes[column]
-        return typeof value === 'number' ? value : Infinity
-      }),
-    )
+    const [{ values }] = await this.runAggregation({ min: { fn: 'min', column } }, [])
+    return typeof values.min === 'number' ? values.min : null
   }
 
   async max(column: string): Promise<number | null> {
-    const items = await this.get()
-    if (items.length === 0)
-      return null
-    return Math.max(
-      ...items.map((item) => {
-        const value = (item as DynamoDBModel)._attributes[column]
-        return typeof value === 'number' ? value : -Infinity
-      }),
-    )
+    const [{ values }] = await this.runAggregation({ max: { fn: 'max', column } }, [])
+    return typeof values.max === 'number' ? values.max : null
   }
 
   // ---- Mutations ----
@@ -1849,40 +2486,105 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
     })
   }
 
-  async update(data: Partial<T>): Promise<number> {
-    const items = await this.get()
-    let count = 0
+  /**
+   * Update every matching item with one UpdateItem each, without loading
+   * models or running model hooks. Each write re-checks the query filter as
+   * its condition, so items changed since the read are skipped, not clobbered.
+   *
+   * @example
+   * ```typescript
+   * const result = await Order.query()
+   *   .where('status', 'pending')
+   *   .update({ status: 'expired' }, { concurrency: 25 })
+   * console.log(result.succeeded.length, result.skipped.length, result.failed)
+   * ```
+   */
+  async update(data: Partial<T>, options: BulkMutationOptions = {}): Promise<BulkMutationResult> {
+    return this.bulkUpdate({ set: data as JSObject }, options)
+  }
 
-    for (const item of items) {
-      await (item as DynamoDBModel).update(data as JSObject)
-      count++
-    }
+  /**
+   * Apply an atomic update to every matching item, one UpdateItem each.
+   * Items failing the query filter or `options.condition` at write time are
+   * skipped; `result.updated` holds the new values of the updated attributes.
+   *
+   * @example
+   * ```typescript
+   * await Post.query().where('status', 'published').atomicUpdate({ increment: { views: 1 } })
+   * ```
+   */
+  async atomicUpdate(update: AtomicUpdate, options: BulkMutationOptions & AtomicUpdateOptions = {}): Promise<BulkMutationResult> {
+    return this.bulkUpdate(update, options, true)
+  }
 
-    return count
+  /**
+   * Atomically add to a number attribute on every matching item
+   */
+  async increment(attribute: string, amount: number = 1, options: BulkMutationOptions & AtomicUpdateOptions = {}): Promise<BulkMutationResult> {
+    return this.atomicUpdate({ increment: { [attribute]: amount } }, options)
   }
 
-  async delete(): Promise<number> {
-    const items = await this.get()
-    let count = 0
+  /**
+   * Atomically subtract from a number attribute on every matching item
+   */
+  async decrement(attribute: string, amount: number = 1, options: BulkMutationOptions & AtomicUpdateOptions = {}): Promise<BulkMutationResult> {
+    return this.increment(attribute, -amount, options)
+  }
 
-    for (const item of items) {
-      await (item as DynamoDBModel).delete()
-      count++
+  /**
+   * Delete every matching item, soft deleting when the model uses soft deletes
+   */
+  async delete(options: BulkMutationOptions = {}): Promise<BulkMutationResult> {
+    if ((this.modelClass as unknown as typeof DynamoDBModel).softDeletes) {
+      const config = await getModelConfig()
+      return this.bulkUpdate({ set: { [config.queryBuilder.softDeletes.attribute]: new Date().toISOString() } }, options)
     }
-
-    return count
+    return this.forceDelete(options)
   }
 
-  async forceDelete(): Promise<number> {
-    const items = await this.get()
-    let count = 0
+  /**
+   * Delete every matching item with BatchWriteItem, bypassing soft deletes
+   * and model hooks. Batch deletes can't carry conditions, so the filter is
+   * only applied when reading.
+   */
+  async forceDelete(options: BulkMutationOptions = {}): Promise<BulkMutationResult> {
+    const config = await getModelConfig()
+    const client = getModelClient()
+    const tableName = this.getTableName(config)
+    const { partitionKeyName, sortKeyName } = config.singleTableDesign
+
+    const result = createBulkMutationResult(options)
+    const pending: DynamoDBItem[] = []
+
+    // One batch per 25 keys, so a failure is reported against the keys it covered
+    const flush = async (batch: DynamoDBItem[]): Promise<void> => {
+      try {
+        await client.batchWriteItem(tableName, batch.map(item => ({
+          type: 'delete' as const,
+          key: { [partitionKeyName]: item[partitionKeyName], [sortKeyName]: item[sortKeyName] },
+        })))
+        result.succeeded.push(...batch.map(item => toBulkMutationKey(item, config)))
+      }
+      catch (error) {
+        result.failed.push(...batch.map(item => ({ key: toBulkMutationKey(item, config), error })))
+      }
+    }
 
-    for (const item of items) {
-      await (item as DynamoDBModel).forceDelete()
-      count++
+    result.matched = await this.forEachMatchingPage(config, async (items) => {
+      if (result.dryRun) {
+        result.succeeded.push(...items.map(item => toBulkMutationKey(item, config)))
+        return
+      }
+      pending.push(...items)
+      while (pending.length >= 25) {
+        await flush(pending.splice(0, 25))
+      }
+    })
+    if (pending.length > 0) {
+      await flush(pending)
     }
 
-    return count
+    return result
   }
 
   // ---- Chunking ----
@@ -1893,11 +2595,10 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
 
     const tableName = this.getTableName(config)
     const modelInstance = new this.modelClass()
-    const entityType = modelInstance.getEntityType()
     const parsedModel = modelInstance.getParsedModel()
 
     const { keyCondition, filterExpression, expressionAttributeNames, expressionAttributeValues }
-      = this.buildExpressions(config, entityType)
+      = this.buildExpressions(config, parsedModel.name)
 
     let lastEvaluatedKey: Record<string, DynamoDBItem[string]> | undefined
 
@@ -1927,7 +2628,7 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
         return instance
       })
 
-      await callback(instances)
+      await callback(this._has.length > 0 ? await this.applyRelationshipFilters(instances, config) : instances)
       lastEvaluatedKey = response.lastEvaluatedKey
     } while (lastEvaluatedKey)
   }
@@ -1946,10 +2647,8 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
     }
 
     const modelInstance = new this.modelClass()
-    const entityType = modelInstance.getEntityType()
-
     const { keyCondition, filterExpression, expressionAttributeNames, expressionAttributeValues }
-      = this.buildExpressions(config, entityType)
+      = this.buildExpressions(config, modelInstance.getParsedModel().name)
 
     return {
       operation: keyCondition ? 'query' : 'scan',
@@ -1973,15 +2672,335 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
     return `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
   }
 
+  /**
+   * Build the query (or scan) for the current constraints, plus the mapping from items to models.
+   * A projection limits reads to the given top-level attributes.
+   */
+  private createPageReader(config: Config, projection?: string[]): {
+    expressions: QueryExpressions
+    fetchPage: (options: PageReadOptions) => Promise<QueryResponse>
+    toInstances: (items: DynamoDBItem[]) => T[]
+  } {
+    const client = getModelClient()
+    const tableName = this.getTableName(config)
+    const modelInstance = new this.modelClass()
+    const parsedModel = modelInstance.getParsedModel()
+
+    const expressions = this.buildExpressions(config, modelInstance.getParsedModel().name)
+    const { keyCondition, filterExpression, expressionAttributeValues } = expressions
+    const expressionAttributeNames = { ...expressions.expressionAttributeNames }
+
+    let projectionExpression: string | undefined
+    if (projection) {
+      projectionExpression = projection.map((column, index) => {
+        expressionAttributeNames[`#p${index}`] = column
+        return `#p${index}`
+      }).join(', ') || undefined
+    }
+
+    const fetchPage = async (options: PageReadOptions): Promise<QueryResponse> => {
+      if (keyCondition) {
+        // Use Query
+        return client.query(tableName, {
+          indexName: this._indexName,
+          keyConditionExpression: keyCondition,
+          filterExpression: filterExpression || undefined,
+          projectionExpression,
+          expressionAttributeNames,
+          expressionAttributeValues,
+          limit: options.limit,
+          scanIndexForward: options.scanIndexForward ?? this._orderBy[0]?.direction !== 'desc',
+          consistentRead: this._consistentRead,
+          exclusiveStartKey: options.exclusiveStartKey,
+        })
+      }
+      // Use Scan
+      return client.scan(tableName, {
+        filterExpression: filterExpression || undefined,
+        projectionExpression,
+        expressionAttributeNames,
+        expressionAttributeValues,
+        limit: options.limit,
+        consistentRead: this._consistentRead,
+        exclusiveStartKey: options.exclusiveStartKey,
+      })
+    }
+
+    // Transform to model instances
+    const toInstances = (items: DynamoDBItem[]): T[] => items.map((item) => {
+      const transformed = toModelInstance(parsedModel, item, config)
+      const instance = new this.modelClass(transformed.data)
+      ;(instance as DynamoDBModel)._exists = true
+      ;(instance as DynamoDBModel).syncOriginal()
+      return instance
+    })
+
+    return { expressions, fetchPage, toInstances }
+  }
+
+  /**
+   * Stream every matching item through an aggregate accumulator
+   */
+  private async runAggregation(spec: AggregateSpec, groupBy: string[]): Promise<AggregateGroup[]> {
+    const config = await getModelConfig()
+    const accumulator = createAggregateAccumulator(spec, groupBy)
+
+    // Relationship filters need whole models, so only project without them
+    const projection = this._has.length > 0 ? undefined : getAggregateColumns(spec, groupBy)
+    const { fetchPage, toInstances } = this.createPageReader(config, projection)
+
+    let lastEvaluatedKey: Record<string, DynamoDBItem[string]> | undefined
+    do {
+      const response = await fetchPage({ exclusiveStartKey: lastEvaluatedKey })
+      if (projection) {
+        for (const item of response.items) {
+          accumulator.add(unmarshallItem(item))
+        }
+      }
+      else {
+        for (const instance of await this.applyRelationshipFilters(toInstances(response.items), config)) {
+          accumulator.add(instance._attributes)
+        }
+      }
+      lastEvaluatedKey = response.lastEvaluatedKey
+    } while (lastEvaluatedKey)
+
+    return accumulator.result()
+  }
+
+  /**
+   * Hand the items the query matches (up to `limit()`) to a callback one
+   * page at a time. Returns how many items matched.
+   */
+  private async forEachMatchingPage(config: Config, callback: (items: DynamoDBItem[]) => Promise<void>): Promise<number> {
+    const { fetchPage, toInstances } = this.createPageReader(config)
+    let matched = 0
+
+    let lastEvaluatedKey: Record<string, DynamoDBItem[string]> | undefined
+    do {
+      const response = await fetchPage({ exclusiveStartKey: lastEvaluatedKey })
+      let items = response.items
+      if (this._has.length > 0) {
+        const candidates = toInstances(items)
+        const kept = new Set(await this.applyRelationshipFilters(candidates, config))
+        items = items.filter((_, index) => kept.has(candidates[index]))
+      }
+      if (this._limit !== undefined) {
+        items = items.slice(0, this._limit - matched)
+      }
+
+      matched += items.length
+      if (items.length > 0) {
+        await callback(items)
+      }
+      lastEvaluatedKey = response.lastEvaluatedKey
+    } while (lastEvaluatedKey && (this._limit === undefined || matched < this._limit))
+
+    return matched
+  }
+
+  /**
+   * Apply one set of attribute changes to every matching item, conditioned on the filter
+   */
+  private async bulkUpdate(
+    update: AtomicUpdate,
+    options: BulkMutationOptions & AtomicUpdateOptions,
+    returnValues: boolean = false,
+  ): Promise<BulkMutationResult> {
+    const config = await getModelConfig()
+    const client = getModelClient()
+    const tableName = this.getTableName(config)
+    const parsedModel = new this.modelClass().getParsedModel()
+    const { partitionKeyName, sortKeyName } = config.singleTableDesign
+
+    const result = createBulkMutationResult(options)
+    if (returnValues && !result.dryRun) {
+      result.updated = []
+    }
+
+    const bookkept = withBookkeeping(update, parsedModel, config)
+    const compiled = compileAtomicUpdate(bookkept)
+
+    // The item must still exist and still match the filter when written
+    const { filterExpression, expressionAttributeNames, expressionAttributeValues } = this.buildExpressions(config, parsedModel.name)
+    const condition = buildAtomicCondition(`attribute_exists(#bulkPk) AND (${filterExpression})`, options)
+    const conditionNames = { ...expressionAttributeNames, '#bulkPk': partitionKeyName, ...condition.expressionAttributeNames }
+    const conditionValues = { ...expressionAttributeValues, ...condition.expressionAttributeValues }
+
+    result.matched = await this.forEachMatchingPage(config, async (items) => {
+      if (result.dryRun) {
+        result.succeeded.push(...items.map(item => toBulkMutationKey(item, config)))
+        return
+      }
+
+      await runWithConcurrency(items, options.concurrency ?? 10, async (item) => {
+        const key = toBulkMutationKey(item, config)
+        const indexKeys = deriveIndexKeyChanges(item, bookkept, parsedModel, config)
+        const itemUpdate = Object.keys(indexKeys).length > 0
+          ? compileAtomicUpdate({ ...bookkept, set: { ...bookkept.set, ...indexKeys } })
+          : compiled
+        try {
+          const values = await client.updateItem(tableName, {
+            [partitionKeyName]: item[partitionKeyName],
+            [sortKeyName]: item[sortKeyName],
+          }, {}, {
+            updateExpression: itemUpdate.updateExpression,
+            conditionExpression: condition.conditionExpression,
+            expressionAttributeNames: { ...itemUpdate.expressionAttributeNames, ...pickReferenced(condition.conditionExpression, conditionNames) },
+            expressionAttributeValues: { ...itemUpdate.expressionAttributeValues, ...pickReferenced(condition.conditionExpression, conditionValues) },
+            returnValues: returnValues ? 'UPDATED_NEW' : 'NONE',
+          })
+          result.succeeded.push(key)
+          result.updated?.push({ key, values: values ? unmarshallItem(values) : {} })
+        }
+        catch (error) {
+          if (isConditionalCheckFailedError(error)) {
+            result.skipped.push(key)
+          }
+          else {
+            result.failed.push({ key, error })
+          }
+        }
+      })
+    })
+
+    return result
+  }
+
+  /**
+   * Load the `with()` relationships onto a page of models
+   */
+  private async eagerLoad(instances: T[], config: Config): Promise<T[]> {
+    if (this._with.length === 0)
+      return instances
+
+    const modelInstance = new this.modelClass()
+    const loadedData = await eagerLoadMany(
+      modelInstance.getParsedModel(),
+      instances.map(i => i._attributes),
+      this._with,
+      getOrmModelRegistry(),
+      config,
+      modelInstance.createRelationshipQueryBuilder(),
+    )
+
+    // Merge loaded relationships back into instances
+    return instances.map((instance, index) => {
+      const data = loadedData[index]
+      for (const spec of this._with) {
+        if (data[spec.relationship]) {
+          (instance as DynamoDBModel)._relations.set(
+            spec.relationship,
+            data[spec.relationship] as DynamoDBModel | DynamoDBModel[],
+          )
+        }
+      }
+      return instance
+    })
+  }
+
+  /**
+   * Attributes DynamoDB needs in an ExclusiveStartKey for the selected index
+   */
+  private getKeyAttributes(config: Config): string[] {
+    const { partitionKeyName, sortKeyName } = config.singleTableDesign
+    const attributes = [partitionKeyName, sortKeyName]
+    if (this._indexName) {
+      const gsi = [...config.globalSecondaryIndexes, ...generateDefaultGSIs(config)]
+        .find(index => index.name === this._indexName)
+      const lsi = config.localSecondaryIndexes.find(index => index.name === this._indexName)
+      attributes.push(...[gsi?.partitionKey, gsi?.sortKey, lsi?.sortKey].filter((name): name is string => !!name))
+    }
+    return [...new Set(attributes)]
+  }
+
+  /**
+   * Drop models failing the has/doesntHave/whereHas filters.
+   * Each filter costs one batched existence check for the whole page.
+   */
+  private async applyRelationshipFilters(instances: T[], config: Config): Promise<T[]> {
+    const modelInstance = new this.modelClass()
+    const parsedModel = modelInstance.getParsedModel()
+    const queryBuilder = modelInstance.createRelationshipQueryBuilder()
+    let remaining = instances
+
+    for (const filter of this._has) {
+      if (remaining.length === 0)
+        break
+
+      const { relatedModelName, registry, constraint } = this.resolveRelationshipFilter(filter, modelInstance, parsedModel, config)
+      const counts = await getRelationshipCounts(
+        parsedModel,
+        remaining.map(instance => instance._attributes),
+        relatedModelName,
+        registry,
+        config,
+        queryBuilder,
+        // Counting one past the expected count is enough to decide any comparison
+        { constraint, max: filter.count + 1 },
+      )
+      remaining = remaining.filter((_, index) => compareCount(counts[index], filter.operator, filter.count))
+    }
+
+    return remaining
+  }
+
+  /**
+   * Resolve a relationship filter to the related model and the constraint on its items
+   */
+  private resolveRelationshipFilter(
+    filter: RelationshipExistenceFilter,
+    modelInstance: T,
+    parsedModel: ParsedModel,
+    config: Config,
+  ): { relatedModelName: string, registry: ModelRegistry, constraint: RelationshipConstraint } {
+    const definition = modelInstance.relationships[filter.relationship]
+    const relatedClass = definition && typeof definition.model !== 'string'
+      ? definition.model as unknown as DynamoDBModelConstructor
+      : undefined
+    const relatedModelName = definition
+      ? (typeof definition.model === 'string' ? definition.model : definition.model.name)
+      : filter.relationship
+
+    if (!parsedModel.relationships.some(r => r.relatedModel === relatedModelName)) {
+      throw new Error(`Relationship "${filter.relationship}" is not defined on ${this.modelClass.name}`)
+    }
+
+    let registry = getOrmModelRegistry()
+    let relatedModel = registry.models.get(relatedModelName)
+    if (!relatedModel) {
+      if (!relatedClass) {
+        throw new Error(`Related model ${relatedModelName} is not in the model registry`)
+      }
+      relatedModel = new relatedClass().getParsedModel()
+      registry = { ...registry, models: new Map(registry.models).set(relatedModelName, relatedModel) }
+    }
+
+    // Related items are always scoped to their entity type and, for soft-deleting
+    // models, exclude trashed items; the callback adds its own where clauses
+    const relatedQuery = new DynamoDBQueryBuilder<DynamoDBModel>(relatedClass ?? this.modelClass as DynamoDBModelConstructor)
+    filter.callback?.(relatedQuery)
+    const { filterExpression, expressionAttributeNames, expressionAttributeValues }
+      = relatedQuery.buildExpressions(config, relatedModel.name, relatedModel.hasSoftDeletes)
+
+    return {
+      relatedModelName,
+      registry,
+      constraint: {
+        filterExpression: filterExpression!,
+        names: expressionAttributeNames,
+        values: Object.fromEntries(
+          Object.entries(expressionAttributeValues).map(([placeholder, value]) => [placeholder, unmarshallValue(value)]),
+        ),
+      },
+    }
+  }
+
   private buildExpressions(
     config: Config,
-    entityType: string,
-  ): {
-      keyCondition: string | null
-      filterExpression: string | null
-      expressionAttributeNames: Record<string, string>
-      expressionAttributeValues: Record<string, DynamoDBItem[string]>
-    } {
+    modelName: string,
+    softDeletes: boolean = (this.modelClass as unknown as typeof DynamoDBModel).softDeletes,
+  ): QueryExpressions {
     const names: Record<string, string> = {}
     const values: Record<string, DynamoDBItem[string]> = {}
     const keyParts: string[] = []
@@ -1991,14 +3010,13 @@ export class DynamoDBQueryBuilder<T extends DynamoDBModel> {
     const skName = config.singleTableDesign.sortKeyName
     const etAttr = config.singleTableDesign.entityTypeAttribute
 
-    // Always filter by entity type
+    // Always filter by entity type, which items store as the model name
     names['#et'] = etAttr
-    values[':et'] = marshallValue(entityType.replace(config.singleTableDesign.keyDelimiter, ''))!
+    values[':et'] = marshallValue(modelName)!
     filterParts.push('#et = :et')
 
     // Handle soft deletes
-    const modelClass = this.modelClass as unknown as typeof DynamoDBModel
-    if (modelClass.softDeletes && !this._withTrashed) {
+    if (softDeletes && !this._withTrashed) {
       const deletedAtAttr = config.queryBuilder.softDeletes.attribute
       names['#da'] = deletedAtAttr
 
@@ -0,0 +1,99 @@
+// ============================================================================
+// Model Classes - DynamoDBModel subclasses built from parsed Stacks models
+// ============================================================================
+
+import type { DynamoDbAttributeType, ModelRegistry, ParsedModel } from '../model-parser/types'
+import type { DynamoDBModelConstructor, DynamoDBQueryBuilder } from './DynamoDBModel'
+import type { ModelAttribute, ModelRelationship } from './types'
+import { DynamoDBModel } from './DynamoDBModel'
+
+/**
+ * Concrete model class, as returned by `createModelClass()`
+ */
+export type ModelClass = Omit<typeof DynamoDBModel, 'prototype'> & DynamoDBModelConstructor
+
+const ATTRIBUTE_TYPES: Record<DynamoDbAttributeType, ModelAttribute['type']> = {
+  S: 'string',
+  N: 'number',
+  B: 'binary',
+  BOOL: 'boolean',
+  NULL: 'string',
+  M: 'map',
+  L: 'list',
+  SS: 'set',
+  NS: 'set',
+  BS: 'set',
+}
+
+/**
+ * Build a `DynamoDBModel` subclass for a parsed Stacks model, so models
+ * defined only as Stacks definitions can be queried with the ORM. The class
+ * takes the model's name, traits, attributes and scopes; relationships are
+ * keyed by related model name, as eager loading expects.
+ *
+ * The model registry passed to `setOrmModelRegistry()` should contain the
+ * model, so keys and relationships resolve the same way as for the parser.
+ *
+ * @example
+ * ```typescript
+ * const registry = await parseModels()
+ * setOrmModelRegistry(registry)
+ * const User = createModelClass(registry.models.get('User')!)
+ * const admins = await User.query().scope('admins').get()
+ * ```
+ */
+export function createModelClass(model: ParsedModel): ModelClass {
+  const attributes: Record<string, ModelAttribute> = Object.fromEntries(model.attributes.map(attribute => [attribute.name, {
+    name: attribute.name,
+    type: ATTRIBUTE_TYPES[attribute.dynamoDbType],
+    fillable: attribute.fillable,
+    hidden: attribute.hidden,
+    cast: attribute.cast,
+    required: attribute.required,
+    unique: attribute.unique,
+  }]))
+
+  const relationships: Record<string, ModelRelationship> = Object.fromEntries(model.relationships.map(relationship => [relationship.relatedModel, {
+    type: relationship.type,
+    model: relationship.relatedModel,
+    foreignKey: relationship.foreignKey,
+    localKey: relationship.localKey,
+    pivotEntity: relationship.pivotEntity,
+  }]))
+
+  const modelClass = class extends DynamoDBModel {
+    static table = model.original.table ?? ''
+    static primaryKey = model.primaryKey
+    static pkPrefix = model.entityType
+    static timestamps = model.hasTimestamps
+    static softDeletes = model.hasSoftDeletes
+    static versioning = model.hasVersioning
+    static uuid = model.hasUuid
+    static ttl = model.hasTtl
+
+    get attributes(): Record<string, ModelAttribute> {
+      return attributes
+    }
+
+    get relationships(): Record<string, ModelRelationship> {
+      return relationships
+    }
+  }
+
+  // Hooks, scopes and the registry lookup are keyed by class name
+  Object.defineProperty(modelClass, 'name', { value: model.name })
+
+  for (const [name, scope] of Object.entries(model.original.scopes ?? {})) {
+    modelClass.addGlobalScope(name, (query: DynamoDBQueryBuilder<DynamoDBModel>, ...args: unknown[]) =>
+      (scope(query, ...args) as DynamoDBQueryBuilder<DynamoDBModel> | undefined) ?? query)
+  }
+
+  return modelClass
+}
+
+/**
+ * Build model classes for every model in a registry, keyed by model name
+ */
+export function createModelClasses(registry: ModelRegistry): Record<string, ModelClass> {
+  return Object.fromEntries([...registry.models.values()].map(model => [model.name, createModelClass(model)]))
+}
@@ -0,0 +1,201 @@
+// ============================================================================
+// Model Transactions - unit of work committed with one TransactWriteItems
+// ============================================================================
+
+import type { JSObject } from '../single-table/EntityTransformer'
+import type { Config } from '../types'
+import type { TransactionItemDescription } from '../types/errors'
+import type { DynamoDBClient, DynamoDBModel, DynamoDBModelConstructor, TransactWriteOperation } from './DynamoDBModel'
+import { randomUUID } from 'node:crypto'
+import { marshallObject } from '../single-table/EntityTransformer'
+import { TransactionCancelledError } from '../types/errors'
+import { TransactionLimitError } from './types'
+
+/**
+ * Most items one TransactWriteItems call accepts
+ */
+export const MAX_TRANSACTION_ITEMS = 100
+
+/**
+ * Model write a transaction can queue
+ */
+export type TransactionWriteAction = 'save' | 'delete' | 'forceDelete'
+
+/**
+ * Write prepared by a model for a transaction
+ * @internal
+ */
+export interface ModelTransactionWrite {
+  /** Item operation, absent when a save has nothing to write */
+  operation?: TransactWriteOperation
+  item: TransactionItemDescription
+  /** Syncs model state and runs the after hooks once committed */
+  afterCommit: () => Promise<void>
+}
+
+/**
+ * Options for `DynamoDBModel.transaction()`
+ */
+export interface ModelTransactionOptions {
+  /** Idempotency token; retrying with the same token does not apply the writes twice (default: random UUID) */
+  clientRequestToken?: string
+}
+
+/**
+ * Condition on an item the transaction does not write
+ */
+export interface TransactionConditionOptions {
+  expressionAttributeNames?: Record<string, string>
+  /** Plain values, marshalled before sending */
+  expressionAttributeValues?: JSObject
+}
+
+/**
+ * Writes collected by `DynamoDBModel.transaction()`. Nothing is written until
+ * the callback returns; the queued writes then commit all-or-nothing.
+ *
+ * Hooks that can cancel a write (`saving`, `creating`, `deleting`, ...) run
+ * when the write is queued. The remaining hooks, and model state such as
+ * `exists` and the synced original attributes, wait for the commit.
+ */
+export class ModelTransaction {
+  readonly clientRequestToken: string
+  private config: Config
+  private writes: ModelTransactionWrite[] = []
+  private callbacks: Array<() => void | Promise<void>> = []
+  private keys = new Set<string>()
+
+  constructor(config: Config, options: ModelTransactionOptions = {}) {
+    this.config = config
+    this.clientRequestToken = options.clientRequestToken ?? randomUUID()
+  }
+
+  /**
+   * Number of item operations queued
+   */
+  get size(): number {
+    return this.writes.filter(write => write.operation).length
+  }
+
+  /**
+   * Queue an insert or update of the model. Updates of versioned models
+   * carry the same version condition as `save()`.
+   */
+  async save(model: DynamoDBModel): Promise<boolean> {
+    return this.queue(model, 'save')
+  }
+
+  /**
+   * Queue the creation of a new model
+   */
+  async create<T extends DynamoDBModel>(modelClass: DynamoDBModelConstructor<T>, attributes: JSObject): Promise<T> {
+    const model = new modelClass(attributes)
+    await this.save(model)
+    return model
+  }
+
+  /**
+   * Queue a delete, or a soft delete for models using soft deletes
+   */
+  async delete(model: DynamoDBModel): Promise<boolean> {
+    return this.queue(model, 'delete')
+  }
+
+  /**
+   * Queue a delete that bypasses soft deletes
+   */
+  async forceDelete(model: DynamoDBModel): Promise<boolean> {
+    return this.queue(model, 'forceDelete')
+  }
+
+  /**
+   * Require a condition on an item without writing it; the transaction is
+   * cancelled when the condition does not hold at commit.
+   *
+   * @example
+   * ```typescript
+   * trx.conditionCheck(account, 'balance >= :amount', {
+   *   expressionAttributeValues: { ':amount': 50 },
+   * })
+   * ```
+   */
+  conditionCheck(model: DynamoDBModel, conditionExpression: string, options: TransactionConditionOptions = {}): this {
+    const { tableName, key, pk, sk } = model.getItemKey(this.config)
+    this.add({
+      operation: {
+        type: 'conditionCheck',
+        tableName,
+        key,
+        conditionExpression,
+        expressionAttributeNames: options.expressionAttributeNames,
+        expressionAttributeValues: options.expressionAttributeValues
+          ? marshallObject(options.expressionAttributeValues)
+          : undefined,
+      },
+      item: { model: model.constructor.name, operation: 'conditionCheck', key: { pk, sk } },
+      afterCommit: async () => {},
+    })
+    return this
+  }
+
+  /**
+   * Run a callback after the transaction commits, following the model hooks
+   */
+  afterCommit(callback: () => void | Promise<void>): this {
+    this.callbacks.push(callback)
+    return this
+  }
+
+  /**
+   * Send the queued writes as one TransactWriteItems call, then run the
+   * after-commit hooks and callbacks in the order they were queued
+   * @internal
+   */
+  async commit(client: DynamoDBClient): Promise<void> {
+    const queued = this.writes.filter(write => write.operation)
+    if (queued.length > 0) {
+      try {
+        await client.transactWriteItems(queued.map(write => write.operation!), {
+          clientRequestToken: this.clientRequestToken,
+        })
+      }
+      catch (error) {
+        if (error instanceof TransactionCancelledError) {
+          throw new TransactionCancelledError(error.cancellationReasons, queued.map(write => write.item))
+        }
+        throw error
+      }
+    }
+
+    for (const write of this.writes) {
+      await write.afterCommit()
+    }
+    for (const callback of this.callbacks) {
+      await callback()
+    }
+  }
+
+  private async queue(model: DynamoDBModel, action: TransactionWriteAction): Promise<boolean> {
+    const write = await model.prepareTransactionWrite(action, this.config)
+    if (!write)
+      return false
+    this.add(write)
+    return true
+  }
+
+  private add(write: ModelTransactionWrite): void {
+    const { operation, item } = write
+    if (operation) {
+      if (this.size >= MAX_TRANSACTION_ITEMS) {
+        throw new TransactionLimitError(this.size + 1, MAX_TRANSACTION_ITEMS)
+      }
+      // DynamoDB rejects a transaction that touches one item twice
+      const key = JSON.stringify([operation.tableName, item.key?.pk, item.key?.sk])
+      if (this.keys.has(key)) {
+        throw new Error(`Transaction already has a write for ${item.model} ${item.key?.pk}`)
+      }
+      this.keys.add(key)
+    }
+    this.writes.push(write)
+  }
+}
@@ -0,0 +1,147 @@
+// ============================================================================
+// Pagination Cursors
+// ============================================================================
+
+import type { DynamoDBItem } from '../single-table/EntityTransformer'
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { InvalidCursorError } from './types'
+
+/**
+ * Which way a cursor pages from its key
+ */
+export type CursorDirection = 'next' | 'prev'
+
+/**
+ * Decoded cursor contents
+ */
+export interface CursorPayload {
+  /** Exclusive start key, in DynamoDB attribute value form */
+  key: Record<string, DynamoDBItem[string]>
+  direction: CursorDirection
+  /** Page number the cursor leads to */
+  page: number
+  /** Hash of the query the cursor was issued for (see `hashQueryShape`) */
+  shape?: string
+}
+
+/**
+ * Cursor encoding options
+ */
+export interface CursorOptions {
+  /** Sign cursors with HMAC-SHA256 and reject unsigned or altered ones */
+  secret?: string
+  /** Query shape the cursor must have been issued for */
+  shape?: string
+}
+
+const CURSOR_VERSION = 1
+
+interface EncodedCursor {
+  v: number
+  k: Record<string, DynamoDBItem[string]>
+  d: CursorDirection
+  p: number
+  q?: string
+}
+
+function sign(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body, 'utf8').digest('base64url')
+}
+
+/**
+ * Hash the parts of a query that decide which items a cursor walks over,
+ * so a cursor can't be replayed against a different query.
+ *
+ * Object keys are sorted, so the hash doesn't depend on construction order.
+ */
+export function hashQueryShape(shape: Record<string, unknown>): string {
+  const canonical = JSON.stringify(shape, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+    }
+    return value
+  })
+  return createHash('sha256').update(canonical, 'utf8').digest('base64url').slice(0, 22)
+}
+
+/**
+ * Encode a cursor as an opaque base64url string, signed when a secret is given
+ *
+ * @example
+ * ```typescript
+ * const cursor = encodeCursor(
+ *   { key: response.lastEvaluatedKey, direction: 'next', page: 2 },
+ *   { secret: process.env.CURSOR_SECRET },
+ * )
+ * ```
+ */
+export function encodeCursor(payload: CursorPayload, options: CursorOptions = {}): string {
+  const encoded: EncodedCursor = {
+    v: CURSOR_VERSION,
+    k: payload.key,
+    d: payload.direction,
+    p: payload.page,
+  }
+  const shape = payload.shape ?? options.shape
+  if (shape) {
+    encoded.q = shape
+  }
+
+  const body = Buffer.from(JSON.stringify(encoded), 'utf8').toString('base64url')
+  return options.secret ? `${body}.${sign(body, options.secret)}` : body
+}
+
+/**
+ * Decode and verify a cursor produced by `encodeCursor`
+ *
+ * @throws InvalidCursorError when the cursor is malformed, its signature doesn't
+ * match, or it was issued for a different query shape
+ */
+export function decodeCursor(cursor: string, options: CursorOptions = {}): CursorPayload {
+  const [body, signature, ...rest] = cursor.split('.')
+  if (!body || rest.length > 0) {
+    throw new InvalidCursorError('malformed cursor')
+  }
+
+  if (options.secret) {
+    if (!signature) {
+      throw new InvalidCursorError('cursor is not signed')
+    }
+    const expected = Buffer.from(sign(body, options.secret))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new InvalidCursorError('signature mismatch')
+    }
+  }
+
+  let decoded: EncodedCursor
+  try {
+    decoded = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  }
+  catch {
+    throw new InvalidCursorError('malformed cursor')
+  }
+
+  if (
+    !decoded
+    || decoded.v !== CURSOR_VERSION
+    || !decoded.k
+    || typeof decoded.k !== 'object'
+    || (decoded.d !== 'next' && decoded.d !== 'prev')
+    || !Number.isInteger(decoded.p)
+    || decoded.p < 1
+  ) {
+    throw new InvalidCursorError('malformed cursor')
+  }
+
+  if (options.shape && decoded.q !== options.shape) {
+    throw new InvalidCursorError('cursor was issued for a different query')
+  }
+
+  return {
+    key: decoded.k,
+    direction: decoded.d,
+    page: decoded.p,
+    shape: decoded.q,
+  }
+}
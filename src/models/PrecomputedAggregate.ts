@@ -0,0 +1,304 @@
+// ============================================================================
+// Precomputed Aggregates - kept current from DynamoDB Streams
+// ============================================================================
+
+import type { DynamoDBAttributeValue, DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
+import type { EntityHandler, StreamRecord } from '../streams/StreamProcessor'
+import type { Config } from '../types'
+import type { AggregateGroup, AggregateSpec } from './Aggregation'
+import type { DynamoDBModel, DynamoDBModelConstructor } from './DynamoDBModel'
+import { marshallValue, unmarshallItem, unmarshallValue } from '../single-table/EntityTransformer'
+import { DynamoDBQueryBuilder, getModelClient, getModelConfig } from './DynamoDBModel'
+
+/**
+ * Precomputed aggregate definition
+ */
+export interface PrecomputedAggregateOptions<T extends DynamoDBModel = DynamoDBModel> {
+  /** Unique name, used in the aggregate items' partition key */
+  name: string
+  /** Model whose items are aggregated */
+  model: DynamoDBModelConstructor<T>
+  /** Columns to group by */
+  groupBy?: string[]
+  /** Aggregates to maintain; only `count`, `sum` and `avg` can be kept current incrementally */
+  aggregates: AggregateSpec
+}
+
+/**
+ * Aggregate values stored in the table and updated from stream records
+ */
+export interface PrecomputedAggregate {
+  readonly name: string
+  /** Entity type of the aggregated model, as stream records carry it */
+  readonly entityType: string
+  /** Apply one stream record's change to the stored aggregates */
+  apply: (record: StreamRecord) => Promise<void>
+  /** Handler to register with `StreamProcessor.addEntityHandler()` */
+  entityHandler: () => EntityHandler
+  /** Read the stored aggregates, for one group or all of them */
+  read: (group?: JSObject) => Promise<AggregateGroup[]>
+  /** Recompute the stored aggregates from a full read of the model's items */
+  rebuild: () => Promise<AggregateGroup[]>
+}
+
+/** Stored counter attributes: running sum and value count per alias, plus the group's item count */
+const SUM_PREFIX = 'v_'
+const COUNT_PREFIX = 'n_'
+const ITEMS_ATTRIBUTE = '_items'
+const GROUP_ATTRIBUTE = 'group'
+
+interface GroupDelta {
+  group: JSObject
+  counters: Record<string, number>
+}
+
+const ATTRIBUTE_VALUE_TYPES = new Set(['S', 'N', 'B', 'BOOL', 'NULL', 'M', 'L', 'SS', 'NS', 'BS'])
+
+function isAttributeValue(value: unknown): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value))
+    return false
+  const keys = Object.keys(value)
+  return keys.length === 1 && ATTRIBUTE_VALUE_TYPES.has(keys[0])
+}
+
+/**
+ * Stream images arrive in DynamoDB JSON from Lambda, but may already be plain
+ */
+function toPlainImage(image: Record<string, unknown>): JSObject {
+  return Object.fromEntries(Object.entries(image).map(([key, value]) => [
+    key,
+    isAttributeValue(value) ? unmarshallValue(value as DynamoDBAttributeValue) : value,
+  ]))
+}
+
+/**
+ * Create an aggregate that is stored as items in the model's table and kept
+ * current by stream handlers, so dashboards read one item instead of scanning.
+ * Updates use atomic ADDs, so records may be processed in any order. Stream
+ * redelivery can double count; `rebuild()` reconciles.
+ *
+ * @example
+ * ```typescript
+ * const revenue = createPrecomputedAggregate({
+ *   name: 'revenueByRegion',
+ *   model: Order,
+ *   groupBy: ['region'],
+ *   aggregates: { revenue: { fn: 'sum', column: 'amount' }, orders: { fn: 'count' } },
+ * })
+ *
+ * processor.addEntityHandler(revenue.entityHandler())
+ * const [eu] = await revenue.read({ region: 'eu' })
+ * ```
+ */
+export function createPrecomputedAggregate<T extends DynamoDBModel>(options: PrecomputedAggregateOptions<T>): PrecomputedAggregate {
+  const { name, model, aggregates } = options
+  const groupBy = options.groupBy ?? []
+  const aliases = Object.keys(aggregates)
+
+  for (const alias of aliases) {
+    const { fn, column } = aggregates[alias]
+    if (fn !== 'count' && fn !== 'sum' && fn !== 'avg') {
+      throw new Error(`Precomputed aggregates support count, sum and avg; "${alias}" uses ${fn}`)
+    }
+    if (fn !== 'count' && !column) {
+      throw new Error(`Aggregate "${alias}" (${fn}) needs a column`)
+    }
+  }
+
+  const entityType = new model().getParsedModel().name
+  const softDeletes = (model as unknown as typeof DynamoDBModel).softDeletes
+
+  const getTableName = (config: Config): string =>
+    `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+
+  const getKey = (config: Config, group: JSObject): DynamoDBItem => {
+    const delimiter = config.singleTableDesign.keyDelimiter
+    return {
+      [config.singleTableDesign.partitionKeyName]: marshallValue(`AGGREGATE${delimiter}${name}`)!,
+      [config.singleTableDesign.sortKeyName]: marshallValue(`GROUP${delimiter}${JSON.stringify(groupBy.map(column => group[column]))}`)!,
+    }
+  }
+
+  /**
+   * Counter increments one item contributes, or null when it is not counted
+   */
+  const contribution = (item: JSObject, config: Config): GroupDelta | null => {
+    if (softDeletes && item[config.queryBuilder.softDeletes.attribute] != null)
+      return null
+
+    const group: JSObject = {}
+    for (const column of groupBy) {
+      group[column] = item[column] ?? null
+    }
+
+    const counters: Record<string, number> = { [ITEMS_ATTRIBUTE]: 1 }
+    for (const alias of aliases) {
+      const { fn, column } = aggregates[alias]
+      const value = column ? item[column] : true
+      if (fn === 'count') {
+        counters[`${COUNT_PREFIX}${alias}`] = value === undefined || value === null ? 0 : 1
+      }
+      else {
+        counters[`${COUNT_PREFIX}${alias}`] = typeof value === 'number' ? 1 : 0
+        counters[`${SUM_PREFIX}${alias}`] = typeof value === 'number' ? value : 0
+      }
+    }
+
+    return { group, counters }
+  }
+
+  const merge = (deltas: Map<string, GroupDelta>, delta: GroupDelta | null, sign: 1 | -1): void => {
+    if (!delta)
+      return
+    const key = JSON.stringify(groupBy.map(column => delta.group[column]))
+    const entry = deltas.get(key) ?? { group: delta.group, counters: {} }
+    for (const [attribute, amount] of Object.entries(delta.counters)) {
+      entry.counters[attribute] = (entry.counters[attribute] ?? 0) + sign * amount
+    }
+    deltas.set(key, entry)
+  }
+
+  const toAggregateGroup = (item: DynamoDBItem): AggregateGroup => {
+    const data = unmarshallItem(item)
+    const counter = (attribute: string): number => typeof data[attribute] === 'number' ? data[attribute] as number : 0
+
+    const values: AggregateGroup['values'] = {}
+    for (const alias of aliases) {
+      const count = counter(`${COUNT_PREFIX}${alias}`)
+      const sum = counter(`${SUM_PREFIX}${alias}`)
+      switch (aggregates[alias].fn) {
+        case 'count':
+          values[alias] = count
+          break
+        case 'sum':
+          values[alias] = sum
+          break
+        default:
+          values[alias] = count > 0 ? sum / count : null
+      }
+    }
+
+    return { group: (data[GROUP_ATTRIBUTE] as JSObject | undefined) ?? {}, values }
+  }
+
+  const apply = async (record: StreamRecord): Promise<void> => {
+    const config = await getModelConfig()
+    const image = record.newImage ?? record.oldImage
+    const recordType = record.entityType ?? (image && toPlainImage(image)[config.singleTableDesign.entityTypeAttribute])
+    if (recordType !== entityType)
+      return
+
+    const deltas = new Map<string, GroupDelta>()
+    if (record.oldImage && record.eventType !== 'INSERT') {
+      merge(deltas, contribution(toPlainImage(record.oldImage), config), -1)
+    }
+    if (record.newImage && record.eventType !== 'REMOVE') {
+      merge(deltas, contribution(toPlainImage(record.newImage), config), 1)
+    }
+
+    const client = getModelClient()
+    const tableName = getTableName(config)
+    for (const { group, counters } of deltas.values()) {
+      const changed = Object.entries(counters).filter(([, amount]) => amount !== 0)
+      if (changed.length === 0)
+        continue
+
+      await client.updateItem(tableName, getKey(config, group), {
+        [config.singleTableDesign.entityTypeAttribute]: marshallValue('AGGREGATE')!,
+        [GROUP_ATTRIBUTE]: marshallValue(group)!,
+      }, {
+        add: Object.fromEntries(changed.map(([attribute, amount]) => [attribute, marshallValue(amount)!])),
+      })
+    }
+  }
+
+  const read = async (group?: JSObject): Promise<AggregateGroup[]> => {
+    const config = await getModelConfig()
+    const client = getModelClient()
+    const tableName = getTableName(config)
+
+    if (group || groupBy.length === 0) {
+      const item = await client.getItem(tableName, getKey(config, group ?? {}))
+      if (item)
+        return [toAggregateGroup(item)]
+      // An ungrouped aggregate always has a value, as with the query builder
+      return groupBy.length === 0 ? [toAggregateGroup({})] : []
+    }
+
+    const pkName = config.singleTableDesign.partitionKeyName
+    const groups: AggregateGroup[] = []
+    let exclusiveStartKey: DynamoDBItem | undefined
+    do {
+      const response = await client.query(tableName, {
+        keyConditionExpression: '#pk = :pk',
+        expressionAttributeNames: { '#pk': pkName },
+        expressionAttributeValues: { ':pk': getKey(config, {})[pkName] },
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      for (const item of response.items) {
+        // Groups whose items were all removed keep their (zeroed) item
+        if (unmarshallItem(item)[ITEMS_ATTRIBUTE] !== 0) {
+          groups.push(toAggregateGroup(item))
+        }
+      }
+      exclusiveStartKey = response.lastEvaluatedKey
+    } while (exclusiveStartKey)
+
+    return groups
+  }
+
+  const rebuild = async (): Promise<AggregateGroup[]> => {
+    const config = await getModelConfig()
+    const client = getModelClient()
+    const tableName = getTableName(config)
+
+    const deltas = new Map<string, GroupDelta>()
+    await new DynamoDBQueryBuilder<T>(model).chunk(100, (instances) => {
+      for (const instance of instances) {
+        merge(deltas, contribution(instance._attributes, config), 1)
+      }
+    })
+
+    // Drop stored groups that no longer have items
+    const pkName = config.singleTableDesign.partitionKeyName
+    const skName = config.singleTableDesign.sortKeyName
+    const fresh = new Set([...deltas.values()].map(({ group }) => JSON.stringify(getKey(config, group)[skName])))
+    let exclusiveStartKey: DynamoDBItem | undefined
+    do {
+      const response = await client.query(tableName, {
+        keyConditionExpression: '#pk = :pk',
+        expressionAttributeNames: { '#pk': pkName },
+        expressionAttributeValues: { ':pk': getKey(config, {})[pkName] },
+        consistentRead: true,
+        exclusiveStartKey,
+      })
+      for (const item of response.items) {
+        if (!fresh.has(JSON.stringify(item[skName]))) {
+          await client.deleteItem(tableName, { [pkName]: item[pkName], [skName]: item[skName] })
+        }
+      }
+      exclusiveStartKey = response.lastEvaluatedKey
+    } while (exclusiveStartKey)
+
+    for (const { group, counters } of deltas.values()) {
+      await client.putItem(tableName, {
+        ...getKey(config, group),
+        [config.singleTableDesign.entityTypeAttribute]: marshallValue('AGGREGATE')!,
+        [GROUP_ATTRIBUTE]: marshallValue(group)!,
+        ...Object.fromEntries(Object.entries(counters).map(([attribute, amount]) => [attribute, marshallValue(amount)!])),
+      })
+    }
+
+    return read()
+  }
+
+  return {
+    name,
+    entityType,
+    apply,
+    entityHandler: () => ({ entityType, onAny: apply }),
+    read,
+    rebuild,
+  }
+}
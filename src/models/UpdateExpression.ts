@@ -0,0 +1,140 @@
+// ============================================================================
+// Atomic Updates - native UpdateExpression clauses instead of read-modify-write
+// ============================================================================
+
+import type { DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
+import { marshallValue } from '../single-table/EntityTransformer'
+
+/**
+ * Changes applied in place by one UpdateItem call. Attribute names may be
+ * dotted paths into existing maps (`stats.views`).
+ */
+export interface AtomicUpdate {
+  /** `SET attribute = value` */
+  set?: JSObject
+  /** `SET attribute = if_not_exists(attribute, value)`: only sets missing attributes */
+  setIfNotExists?: JSObject
+  /** `ADD attribute amount`: adds to a number, starting from 0; negative amounts decrement */
+  increment?: Record<string, number>
+  /** `SET attribute = list_append(...)`: appends to a list, creating it when missing */
+  append?: Record<string, unknown[]>
+  /** `REMOVE attribute` */
+  remove?: string[]
+  /** `ADD attribute set`: adds elements to a string or number set */
+  addToSet?: Record<string, string[] | number[]>
+  /** `DELETE attribute set`: removes elements from a string or number set */
+  deleteFromSet?: Record<string, string[] | number[]>
+}
+
+/**
+ * Condition for an atomic update; the update fails with a
+ * `ConditionalCheckFailedError` when it does not hold
+ */
+export interface AtomicUpdateOptions {
+  condition?: string
+  expressionAttributeNames?: Record<string, string>
+  /** Plain values, marshalled before sending */
+  expressionAttributeValues?: JSObject
+}
+
+/**
+ * Compiled UpdateExpression with its placeholders
+ */
+export interface CompiledUpdateExpression {
+  updateExpression: string
+  expressionAttributeNames: Record<string, string>
+  expressionAttributeValues: Record<string, DynamoDBItem[string]>
+}
+
+function toSet(attribute: string, values: string[] | number[]): DynamoDBItem[string] {
+  if (values.length === 0) {
+    throw new Error(`Set update of "${attribute}" needs at least one element`)
+  }
+  return marshallValue(new Set<string | number>(values))!
+}
+
+/**
+ * Compile an atomic update to an UpdateExpression. Placeholders are prefixed
+ * with `#atm`/`:atm`, so they can be combined with condition placeholders.
+ *
+ * @example
+ * ```typescript
+ * compileAtomicUpdate({ increment: { views: 1 }, append: { history: ['viewed'] } })
+ * // SET #atm0 = list_append(if_not_exists(#atm0, :atm0), :atm1) ADD #atm1 :atm2
+ * ```
+ */
+export function compileAtomicUpdate(update: AtomicUpdate): CompiledUpdateExpression {
+  const names: Record<string, string> = {}
+  const values: Record<string, DynamoDBItem[string]> = {}
+  const nameIndex = new Map<string, string>()
+  let counter = 0
+
+  const path = (attribute: string): string => attribute.split('.').map((segment) => {
+    let placeholder = nameIndex.get(segment)
+    if (!placeholder) {
+      placeholder = `#atm${nameIndex.size}`
+      nameIndex.set(segment, placeholder)
+      names[placeholder] = segment
+    }
+    return placeholder
+  }).join('.')
+
+  const value = (marshalled: DynamoDBItem[string]): string => {
+    const placeholder = `:atm${counter++}`
+    values[placeholder] = marshalled
+    return placeholder
+  }
+
+  const marshall = (attribute: string, raw: unknown): DynamoDBItem[string] => {
+    const marshalled = marshallValue(raw)
+    if (!marshalled) {
+      throw new Error(`Cannot write ${String(raw)} to "${attribute}"`)
+    }
+    return marshalled
+  }
+
+  const set: string[] = []
+  for (const [attribute, raw] of Object.entries(update.set ?? {})) {
+    if (raw === undefined)
+      continue
+    set.push(`${path(attribute)} = ${value(marshall(attribute, raw))}`)
+  }
+  for (const [attribute, raw] of Object.entries(update.setIfNotExists ?? {})) {
+    const target = path(attribute)
+    set.push(`${target} = if_not_exists(${target}, ${value(marshall(attribute, raw))})`)
+  }
+  for (const [attribute, items] of Object.entries(update.append ?? {})) {
+    const target = path(attribute)
+    const empty = value({ L: [] })
+    set.push(`${target} = list_append(if_not_exists(${target}, ${empty}), ${value(marshall(attribute, items))})`)
+  }
+
+  const add: string[] = []
+  for (const [attribute, amount] of Object.entries(update.increment ?? {})) {
+    add.push(`${path(attribute)} ${value(marshall(attribute, amount))}`)
+  }
+  for (const [attribute, elements] of Object.entries(update.addToSet ?? {})) {
+    add.push(`${path(attribute)} ${value(toSet(attribute, elements))}`)
+  }
+
+  const remove = (update.remove ?? []).map(path)
+  const del = Object.entries(update.deleteFromSet ?? {}).map(([attribute, elements]) =>
+    `${path(attribute)} ${value(toSet(attribute, elements))}`)
+
+  const clauses = [
+    set.length > 0 ? `SET ${set.join(', ')}` : '',
+    remove.length > 0 ? `REMOVE ${remove.join(', ')}` : '',
+    add.length > 0 ? `ADD ${add.join(', ')}` : '',
+    del.length > 0 ? `DELETE ${del.join(', ')}` : '',
+  ].filter(Boolean)
+
+  if (clauses.length === 0) {
+    throw new Error('Atomic update has no changes')
+  }
+
+  return {
+    updateExpression: clauses.join(' '),
+    expressionAttributeNames: names,
+    expressionAttributeValues: values,
+  }
+}
@@ -1,5 +1,52 @@
+export {
+  type AggregateAccumulator,
+  type AggregateDefinition,
+  type AggregateFunction,
+  type AggregateGroup,
+  type AggregateSpec,
+  createAggregateAccumulator,
+  getAggregateColumns,
+} from './Aggregation'
+
+export { createDriverModelClient, type DriverModelClientOptions } from './DriverClient'
+
+export { createModelClass, createModelClasses, type ModelClass } from './ModelClasses'
+
+export {
+  MAX_TRANSACTION_ITEMS,
+  ModelTransaction,
+  type ModelTransactionOptions,
+  type TransactionConditionOptions,
+  type TransactionWriteAction,
+} from './ModelTransaction'
+
+export {
+  type CursorDirection,
+  type CursorOptions,
+  type CursorPayload,
+  decodeCursor,
+  encodeCursor,
+  hashQueryShape,
+} from './PaginationCursor'
+
+export {
+  createPrecomputedAggregate,
+  type PrecomputedAggregate,
+  type PrecomputedAggregateOptions,
+} from './PrecomputedAggregate'
+
+export {
+  type AtomicUpdate,
+  type AtomicUpdateOptions,
+  compileAtomicUpdate,
+  type CompiledUpdateExpression,
+} from './UpdateExpression'
+
 export {
   type BatchWriteOperation,
+  type BulkMutationKey,
+  type BulkMutationOptions,
+  type BulkMutationResult,
   type DeleteItemOptions,
   type DynamoDBCastDefinition,
   type DynamoDBClient,
@@ -14,11 +61,13 @@ export {
   type PutItemOptions,
   type QueryParameters,
   type QueryResponse,
+  type RelationshipCountOperator,
   type ScanParameters,
   setModelClient,
   setModelConfig,
   setOrmModelRegistry,
   type TransactWriteOperation,
+  type TransactWriteOptions,
   type UpdateItemOptions,
 } from './DynamoDBModel'
 
@@ -27,6 +76,7 @@ export {
 export {
   type CastDefinition,
   ConditionalCheckFailedError,
+  InvalidCursorError,
   Model,
   type ModelAttribute,
   type ModelConstructor,
@@ -40,6 +90,7 @@ export {
   type QueryResult as OrmQueryResult,
   type SortDirection as OrmSortDirection,
   type PaginationOptions,
+  TransactionLimitError,
   ValidationError,
   type WhereCondition,
   type WhereOperator,
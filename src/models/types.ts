@@ -3,6 +3,7 @@
 // ============================================================================
 
 import type { JSObject } from '../single-table/EntityTransformer'
+import type { PaginatedResult } from '../types/query-builder'
 
 /**
  * Model constructor type
@@ -170,8 +171,8 @@ export interface ModelQueryBuilder<T extends Model = Model> {
   take: (count: number) => this
 
   // Pagination
-  paginate: (perPage?: number) => Promise<QueryResult<T>>
-  cursorPaginate: (cursor?: string, perPage?: number) => Promise<QueryResult<T>>
+  paginate: (perPage?: number) => Promise<PaginatedResult<T>>
+  cursorPaginate: (cursor?: string, perPage?: number) => Promise<PaginatedResult<T>>
 
   // Eager loading
   with: (...relationships: string[]) => this
@@ -510,3 +511,31 @@ export class ConditionalCheckFailedError extends Error {
     this.actualVersion = actualVersion
   }
 }
+
+/**
+ * Pagination cursor that is malformed, tampered with, or issued for a different query
+ */
+export class InvalidCursorError extends Error {
+  public reason: string
+
+  constructor(reason: string) {
+    super(`Invalid pagination cursor: ${reason}`)
+    this.name = 'InvalidCursorError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Transaction has more writes than one TransactWriteItems call accepts
+ */
+export class TransactionLimitError extends Error {
+  public count: number
+  public limit: number
+
+  constructor(count: number, limit: number) {
+    super(`Transaction has ${count} writes; TransactWriteItems accepts at most ${limit}`)
+    this.name = 'TransactionLimitError'
+    this.count = count
+    this.limit = limit
+  }
+}
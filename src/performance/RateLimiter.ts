@@ -0,0 +1,467 @@
+// ============================================================================
+// Adaptive Client-Side Rate Limiter
+// ============================================================================
+
+import type { ConsumedCapacity } from '../drivers/types'
+import {
+  isProvisionedThroughputExceededError,
+  isThrottlingError,
+  RequestLimitExceededError,
+} from '../types/errors'
+
+/**
+ * Kind of capacity a request consumes
+ */
+export type CapacityKind = 'read' | 'write'
+
+/**
+ * Table, or global secondary index of a table, that a request is charged to
+ */
+export interface RateLimitTarget {
+  tableName: string
+  indexName?: string
+}
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions {
+  /**
+   * Starting rates in capacity units per second, keyed by table name or
+   * `table/index`. Targets without a limit run unthrottled until their
+   * first throttle.
+   */
+  limits?: Record<string, { read?: number, write?: number }>
+  /**
+   * Lowest rate a bucket is decreased to
+   * @default 1
+   */
+  minRate?: number
+  /**
+   * Highest rate a bucket is increased to
+   * @default 40000
+   */
+  maxRate?: number
+  /**
+   * Units per second added after each increase interval without throttling
+   * @default 10
+   */
+  additiveIncrease?: number
+  /**
+   * Factor the rate is multiplied by on a throttle
+   * @default 0.7
+   */
+  decreaseFactor?: number
+  /**
+   * Minimum time between additive increases
+   * @default 1000
+   */
+  increaseIntervalMs?: number
+  /**
+   * Seconds of capacity a bucket can hold for bursts
+   * @default 1
+   */
+  burstSeconds?: number
+  /**
+   * Callback when a bucket's rate changes
+   */
+  onRateChange?: (_target: RateLimitTarget, _kind: CapacityKind, _rate: number) => void
+}
+
+/**
+ * Default rate limiter configuration
+ */
+const defaultRateLimiterOptions: BucketOptions = {
+  minRate: 1,
+  maxRate: 40000,
+  additiveIncrease: 10,
+  decreaseFactor: 0.7,
+  increaseIntervalMs: 1000,
+  burstSeconds: 1,
+}
+
+/**
+ * State of one token bucket
+ */
+export interface RateLimitBucketStats {
+  tableName: string
+  indexName?: string
+  kind: CapacityKind
+  /** Current rate in units per second, or undefined while unthrottled */
+  rate?: number
+  /** Tokens available now; negative when requests are waiting */
+  tokens: number
+  /** Units consumed per second over the last second */
+  measuredRate: number
+  consumedUnits: number
+  throttles: number
+}
+
+/**
+ * Adaptive rate limiter with token buckets for read and write capacity per
+ * table and per GSI. Rates follow AIMD, as in the AWS SDK adaptive retry
+ * mode: they grow additively while requests succeed and are cut
+ * multiplicatively on each throttle. Consumed capacity reported by DynamoDB
+ * replaces the estimate charged up front.
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ limits: { MainTable: { write: 200 } } })
+ *
+ * await limiter.schedule({ tableName: 'MainTable' }, 'write', 25, () => writeBatch(items))
+ * ```
+ */
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map()
+  private options: BucketOptions & RateLimiterOptions
+
+  constructor(options?: RateLimiterOptions) {
+    this.options = { ...defaultRateLimiterOptions, ...options }
+  }
+
+  /**
+   * Charge an estimate of the units a request will consume, waiting until
+   * the bucket has capacity. Writes to a table also wait on any of its GSIs
+   * that have been throttled.
+   */
+  async acquire(target: RateLimitTarget, kind: CapacityKind, units: number = 1): Promise<void> {
+    const now = Date.now()
+    let waitMs = this.getBucket(target, kind).reserve(units, now)
+
+    if (kind === 'write' && !target.indexName) {
+      for (const bucket of this.buckets.values()) {
+        if (bucket.kind === 'write' && bucket.tableName === target.tableName && bucket.indexName && bucket.rate !== undefined) {
+          waitMs = Math.max(waitMs, bucket.reserve(0, now))
+        }
+      }
+    }
+
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs))
+    }
+  }
+
+  /**
+   * Record the units a request consumed. The difference from the estimate
+   * passed to `acquire()` is charged to the bucket, and a success lets the
+   * rate grow.
+   */
+  record(target: RateLimitTarget, kind: CapacityKind, consumedUnits: number, estimatedUnits: number = 0): void {
+    const bucket = this.getBucket(target, kind)
+    const now = Date.now()
+    bucket.charge(consumedUnits - estimatedUnits, now)
+    bucket.measure(consumedUnits, now)
+
+    if (bucket.increase(now, this.options)) {
+      this.options.onRateChange?.(target, kind, bucket.rate!)
+    }
+  }
+
+  /**
+   * Record the `ConsumedCapacity` of a response, charging the table and each
+   * GSI it reports. `estimates` holds the units acquired per table or
+   * `table/index`.
+   */
+  recordConsumedCapacity(
+    kind: CapacityKind,
+    consumed: ConsumedCapacity | ConsumedCapacity[] | undefined,
+    estimates: Record<string, number> = {},
+  ): void {
+    const entries = consumed === undefined ? [] : Array.isArray(consumed) ? consumed : [consumed]
+
+    for (const entry of entries) {
+      if (!entry.tableName)
+        continue
+
+      const indexes = Object.entries(entry.globalSecondaryIndexes ?? {})
+      const localUnits = Object.values(entry.localSecondaryIndexes ?? {})
+        .reduce((total, index) => total + getUnits(index, kind), 0)
+      const tableUnits = entry.table
+        ? getUnits(entry.table, kind) + localUnits
+        : getUnits(entry, kind) - indexes.reduce((total, [, index]) => total + getUnits(index, kind), 0)
+
+      this.record({ tableName: entry.tableName }, kind, tableUnits, estimates[entry.tableName] ?? 0)
+      for (const [indexName, index] of indexes) {
+        this.record({ tableName: entry.tableName, indexName }, kind, getUnits(index, kind), estimates[`${entry.tableName}/${indexName}`] ?? 0)
+      }
+    }
+  }
+
+  /**
+   * Cut a bucket's rate after a throttle. An unthrottled bucket starts
+   * limiting from its measured rate.
+   */
+  throttled(target: RateLimitTarget, kind: CapacityKind): void {
+    const bucket = this.getBucket(target, kind)
+    bucket.throttles++
+    bucket.decrease(Date.now(), this.options)
+    this.options.onRateChange?.(target, kind, bucket.rate!)
+  }
+
+  /**
+   * Run a request under the limiter: acquire the estimated units on each
+   * target, record what the request consumed (the estimate, unless
+   * `consumedUnits` says otherwise), and cut the rates when it is throttled
+   */
+  async schedule<T>(
+    target: RateLimitTarget | RateLimitTarget[],
+    kind: CapacityKind,
+    units: number,
+    fn: () => Promise<T>,
+    consumedUnits?: (_result: T) => number,
+  ): Promise<T> {
+    const targets = Array.isArray(target) ? target : [target]
+    await Promise.all(targets.map(t => this.acquire(t, kind, units)))
+
+    let result: T
+    try {
+      result = await fn()
+    }
+    catch (error) {
+      if (isCapacityThrottle(error)) {
+        for (const t of targets) {
+          this.throttled(t, kind)
+        }
+      }
+      throw error
+    }
+
+    const consumed = consumedUnits?.(result) ?? units
+    for (const t of targets) {
+      this.record(t, kind, consumed, units)
+    }
+    return result
+  }
+
+  /**
+   * Current rate of a bucket in units per second, or undefined while unthrottled
+   */
+  getRate(target: RateLimitTarget, kind: CapacityKind): number | undefined {
+    return this.buckets.get(bucketKey(target, kind))?.rate
+  }
+
+  /**
+   * State of every bucket
+   */
+  getStats(): RateLimitBucketStats[] {
+    const now = Date.now()
+    return [...this.buckets.values()].map(bucket => bucket.stats(now))
+  }
+
+  /**
+   * Forget all learned rates
+   */
+  reset(): void {
+    this.buckets.clear()
+  }
+
+  private getBucket(target: RateLimitTarget, kind: CapacityKind): TokenBucket {
+    const key = bucketKey(target, kind)
+    let bucket = this.buckets.get(key)
+    if (!bucket) {
+      const limitKey = target.indexName ? `${target.tableName}/${target.indexName}` : target.tableName
+      bucket = new TokenBucket(target, kind, this.options.limits?.[limitKey]?.[kind], this.options)
+      this.buckets.set(key, bucket)
+    }
+    return bucket
+  }
+}
+
+/**
+ * Create an adaptive rate limiter
+ */
+export function createRateLimiter(options?: RateLimiterOptions): RateLimiter {
+  return new RateLimiter(options)
+}
+
+/**
+ * Check if an error means DynamoDB throttled the request for capacity
+ */
+export function isCapacityThrottle(error: unknown): boolean {
+  return isProvisionedThroughputExceededError(error)
+    || isThrottlingError(error)
+    || error instanceof RequestLimitExceededError
+}
+
+/**
+ * Item operations of a client that `rateLimitClient()` paces
+ */
+export interface RateLimitableClient {
+  scan: (_tableName: string, _options?: never) => Promise<{ items: unknown[] }>
+  batchWrite: (_tableName: string, _items: never[]) => Promise<{ unprocessedItems: unknown[] }>
+  putItem?: (_tableName: string, _item: never) => Promise<void>
+  updateItem?: (_tableName: string, _key: never, _updates: never) => Promise<void>
+  deleteItem?: (_tableName: string, _key: never) => Promise<void>
+}
+
+/**
+ * Pace a client with a rate limiter. Scans are charged half a read unit per
+ * item, assuming items of up to 4 KB read eventually consistent; writes one
+ * unit per item written, on the table and each of `indexNames`.
+ */
+export function rateLimitClient<C extends RateLimitableClient>(client: C, rateLimiter: RateLimiter, indexNames: string[] = []): C {
+  const writeTargets = (tableName: string): RateLimitTarget[] => [{ tableName }, ...indexNames.map(indexName => ({ tableName, indexName }))]
+  const { putItem, updateItem, deleteItem } = client
+
+  const paced: RateLimitableClient = {
+    scan: async (tableName, options) => rateLimiter.schedule(
+      { tableName },
+      'read',
+      1,
+      () => client.scan(tableName, options),
+      result => Math.max(1, result.items.length / 2),
+    ),
+    batchWrite: async (tableName, items) => {
+      const result = await rateLimiter.schedule(
+        writeTargets(tableName),
+        'write',
+        items.length,
+        () => client.batchWrite(tableName, items),
+        written => items.length - written.unprocessedItems.length,
+      )
+      if (result.unprocessedItems.length > 0) {
+        rateLimiter.throttled({ tableName }, 'write')
+      }
+      return result
+    },
+  }
+  if (putItem) {
+    paced.putItem = async (tableName, item) => rateLimiter.schedule(writeTargets(tableName), 'write', 1, () => putItem(tableName, item))
+  }
+  if (updateItem) {
+    paced.updateItem = async (tableName, key, updates) => rateLimiter.schedule(writeTargets(tableName), 'write', 1, () => updateItem(tableName, key, updates))
+  }
+  if (deleteItem) {
+    paced.deleteItem = async (tableName, key) => rateLimiter.schedule(writeTargets(tableName), 'write', 1, () => deleteItem(tableName, key))
+  }
+
+  return { ...client, ...paced }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+type BucketOptions = Required<Omit<RateLimiterOptions, 'limits' | 'onRateChange'>>
+
+/**
+ * Token bucket for one table or index and capacity kind. Tokens may go
+ * negative: a request reserves its units and waits until the debt is paid
+ * back at the current rate.
+ */
+class TokenBucket {
+  readonly tableName: string
+  readonly indexName?: string
+  readonly kind: CapacityKind
+  rate?: number
+  throttles = 0
+  private tokens: number
+  private capacity: number
+  private updatedAt = Date.now()
+  private increasedAt = Date.now()
+  private consumedUnits = 0
+  private windowStart = Date.now()
+  private windowUnits = 0
+  private lastWindowUnits = 0
+
+  constructor(target: RateLimitTarget, kind: CapacityKind, rate: number | undefined, options: BucketOptions) {
+    this.tableName = target.tableName
+    this.indexName = target.indexName
+    this.kind = kind
+    this.rate = rate
+    this.capacity = rate === undefined ? 0 : Math.max(1, rate * options.burstSeconds)
+    this.tokens = this.capacity
+  }
+
+  /**
+   * Take units and return how long to wait before the request may proceed
+   */
+  reserve(units: number, now: number): number {
+    if (this.rate === undefined)
+      return 0
+
+    this.refill(now)
+    const waitMs = this.tokens < 0 ? (-this.tokens / this.rate) * 1000 : 0
+    this.tokens -= units
+    return waitMs
+  }
+
+  charge(units: number, now: number): void {
+    if (this.rate === undefined)
+      return
+
+    this.refill(now)
+    this.tokens = Math.min(this.capacity, this.tokens - units)
+  }
+
+  measure(units: number, now: number): void {
+    this.consumedUnits += units
+    if (now - this.windowStart >= 1000) {
+      this.lastWindowUnits = now - this.windowStart >= 2000 ? 0 : this.windowUnits
+      this.windowStart = now
+      this.windowUnits = 0
+    }
+    this.windowUnits += units
+  }
+
+  measuredRate(now: number): number {
+    const elapsed = now - this.windowStart
+    if (elapsed >= 2000)
+      return 0
+    if (elapsed >= 1000)
+      return this.windowUnits / (elapsed / 1000)
+    return this.windowUnits + this.lastWindowUnits * (1 - elapsed / 1000)
+  }
+
+  increase(now: number, options: BucketOptions): boolean {
+    if (this.rate === undefined || this.rate >= options.maxRate || now - this.increasedAt < options.increaseIntervalMs)
+      return false
+
+    this.setRate(Math.min(options.maxRate, this.rate + options.additiveIncrease), options.burstSeconds, now)
+    return true
+  }
+
+  decrease(now: number, options: BucketOptions): void {
+    const base = this.rate ?? Math.max(this.measuredRate(now), options.minRate)
+    this.refill(now)
+    this.setRate(Math.max(options.minRate, base * options.decreaseFactor), options.burstSeconds, now)
+    this.tokens = Math.min(this.tokens, 0)
+  }
+
+  stats(now: number): RateLimitBucketStats {
+    this.refill(now)
+    return {
+      tableName: this.tableName,
+      indexName: this.indexName,
+      kind: this.kind,
+      rate: this.rate,
+      tokens: this.rate === undefined ? 0 : this.tokens,
+      measuredRate: this.measuredRate(now),
+      consumedUnits: this.consumedUnits,
+      throttles: this.throttles,
+    }
+  }
+
+  private setRate(rate: number, burstSeconds: number, now: number): void {
+    this.rate = rate
+    this.capacity = Math.max(1, rate * burstSeconds)
+    this.tokens = Math.min(this.tokens, this.capacity)
+    this.increasedAt = now
+  }
+
+  private refill(now: number): void {
+    if (this.rate !== undefined) {
+      this.tokens = Math.min(this.capacity, this.tokens + (this.rate * (now - this.updatedAt)) / 1000)
+    }
+    this.updatedAt = now
+  }
+}
+
+function bucketKey(target: RateLimitTarget, kind: CapacityKind): string {
+  return `${kind}:${target.tableName}/${target.indexName ?? ''}`
+}
+
+function getUnits(capacity: { capacityUnits?: number, readCapacityUnits?: number, writeCapacityUnits?: number }, kind: CapacityKind): number {
+  const units = kind === 'read' ? capacity.readCapacityUnits : capacity.writeCapacityUnits
+  return units ?? capacity.capacityUnits ?? 0
+}
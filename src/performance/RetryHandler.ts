@@ -160,89 +160,167 @@ export class RequestDeduplicator {
 }
 
 /**
- * Request coalescer for batching concurrent requests
+ * Result of a coalesced batch load. Keys not in `results` resolve to
+ * `undefined`; `unprocessedKeys` are loaded again.
+ */
+export interface CoalescedBatchResult<TKey, TResult> {
+  results: Map<TKey, TResult>
+  unprocessedKeys?: TKey[]
+}
+
+/**
+ * Loads one batch of keys for a `RequestCoalescer`
+ */
+export type CoalescedBatchFn<TKey, TResult> = (
+  _keys: TKey[],
+  _batchKey: string,
+) => Promise<Map<TKey, TResult> | CoalescedBatchResult<TKey, TResult>>
+
+/**
+ * Request coalescer options
+ */
+export interface RequestCoalescerOptions<TKey> {
+  /**
+   * How long to collect keys before loading them
+   * @default 10
+   */
+  windowMs?: number
+  /**
+   * Most distinct keys per batch; a full batch loads at once
+   * @default 100
+   */
+  maxBatchItems?: number
+  /** @deprecated Use `maxBatchItems` */
+  maxBatchSize?: number
+  /**
+   * Retries of unprocessed keys
+   * @default 5
+   */
+  maxRetries?: number
+  /**
+   * Base delay between retries, doubled each attempt
+   * @default 50
+   */
+  retryDelayMs?: number
+  /**
+   * Identity of a key, so equal keys share one load (default: JSON of the key)
+   */
+  keyId?: (_key: TKey) => string
+}
+
+/**
+ * Request coalescer for batching concurrent requests, in the style of
+ * DataLoader: keys requested within the window are de-duplicated and loaded
+ * together, and every caller receives the result for its own key.
+ *
+ * @example
+ * ```typescript
+ * const users = createRequestCoalescer<string, User>(async ids => loadUsers(ids), { windowMs: 0 })
+ * const [ann, bob] = await Promise.all([users.get('users', '1'), users.get('users', '2')])
+ * ```
  */
 export class RequestCoalescer<TKey, TResult> {
-  private queue: Map<string, TKey[]> = new Map()
-  private timeouts: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private batches: Map<string, PendingBatch<TKey, TResult>> = new Map()
   private windowMs: number
-  private maxBatchSize: number
-  private batchFn: (keys: TKey[]) => Promise<Map<TKey, TResult>>
+  private maxBatchItems: number
+  private maxRetries: number
+  private retryDelayMs: number
+  private keyId: (key: TKey) => string
+  private batchFn: CoalescedBatchFn<TKey, TResult>
 
   constructor(
-    batchFn: (keys: TKey[]) => Promise<Map<TKey, TResult>>,
-    options?: {
-      windowMs?: number
-      maxBatchSize?: number
-    },
+    batchFn: CoalescedBatchFn<TKey, TResult>,
+    options?: RequestCoalescerOptions<TKey>,
   ) {
     this.batchFn = batchFn
     this.windowMs = options?.windowMs ?? 10
-    this.maxBatchSize = options?.maxBatchSize ?? 100
+    this.maxBatchItems = options?.maxBatchItems ?? options?.maxBatchSize ?? 100
+    this.maxRetries = options?.maxRetries ?? 5
+    this.retryDelayMs = options?.retryDelayMs ?? 50
+    this.keyId = options?.keyId ?? (key => JSON.stringify(key))
   }
 
   /**
    * Add a key to be fetched
-   * Returns a promise that resolves when the batch is processed
+   * Returns a promise that resolves with the result for this key when the batch is processed
    */
   async get(batchKey: string, key: TKey): Promise<TResult | undefined> {
     return new Promise((resolve, reject) => {
-      // Get or create queue for this batch
-      let queue = this.queue.get(batchKey)
-      if (!queue) {
-        queue = []
-        this.queue.set(batchKey, queue)
+      let batch = this.batches.get(batchKey)
+      if (!batch) {
+        const created: PendingBatch<TKey, TResult> = { entries: new Map() }
+        created.timeout = setTimeout(() => this.dispatch(batchKey, created), this.windowMs)
+        this.batches.set(batchKey, created)
+        batch = created
       }
 
-      queue.push(key)
+      const id = this.keyId(key)
+      let entry = batch.entries.get(id)
+      if (!entry) {
+        entry = { key, waiters: [] }
+        batch.entries.set(id, entry)
+      }
+      entry.waiters.push({ resolve, reject })
 
-      // Schedule batch execution
-      this.scheduleBatch(batchKey, resolve, reject)
+      // Execute immediately if max batch size reached
+      if (batch.entries.size >= this.maxBatchItems) {
+        this.dispatch(batchKey, batch)
+      }
     })
   }
 
-  private scheduleBatch(
-    batchKey: string,
-    resolve: (result: TResult | undefined) => void,
-    reject: (error: Error) => void,
-  ): void {
-    const queue = this.queue.get(batchKey)
-    if (!queue)
-      return
-
-    // Execute immediately if max batch size reached
-    if (queue.length >= this.maxBatchSize) {
-      this.executeBatch(batchKey).then((results) => {
-        // Note: This simplified version just returns the first result
-        // A real implementation would track resolve/reject per key
-        resolve(results.values().next().value)
-      }).catch(reject)
-      return
+  /**
+   * Number of keys waiting for their batch
+   */
+  get pendingCount(): number {
+    let count = 0
+    for (const batch of this.batches.values()) {
+      count += batch.entries.size
     }
+    return count
+  }
 
-    // Schedule with window
-    let timeout = this.timeouts.get(batchKey)
-    if (!timeout) {
-      timeout = setTimeout(() => {
-        this.executeBatch(batchKey).then((results) => {
-          resolve(results.values().next().value)
-        }).catch(reject)
-      }, this.windowMs)
-      this.timeouts.set(batchKey, timeout)
+  private dispatch(batchKey: string, batch: PendingBatch<TKey, TResult>): void {
+    if (this.batches.get(batchKey) === batch) {
+      this.batches.delete(batchKey)
     }
+    clearTimeout(batch.timeout)
+    void this.executeBatch(batchKey, batch.entries)
   }
 
-  private async executeBatch(batchKey: string): Promise<Map<TKey, TResult>> {
-    const queue = this.queue.get(batchKey) || []
-    this.queue.delete(batchKey)
+  private async executeBatch(batchKey: string, entries: Map<string, PendingKey<TKey, TResult>>): Promise<void> {
+    const results = new Map<string, TResult>()
+    let keys = [...entries.values()].map(entry => entry.key)
+    let failure: Error | undefined
 
-    const timeout = this.timeouts.get(batchKey)
-    if (timeout) {
-      clearTimeout(timeout)
-      this.timeouts.delete(batchKey)
+    try {
+      for (let attempt = 0; keys.length > 0; attempt++) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 1)))
+        }
+        const output = await this.batchFn(keys, batchKey)
+        const batch = output instanceof Map ? { results: output } : output
+        for (const [key, result] of batch.results) {
+          results.set(this.keyId(key), result)
+        }
+        keys = batch.unprocessedKeys ?? []
+        if (keys.length > 0 && attempt >= this.maxRetries) {
+          throw new Error(`Batch ${batchKey} left ${keys.length} unprocessed keys after ${this.maxRetries} retries`)
+        }
+      }
+    }
+    catch (error) {
+      failure = error instanceof Error ? error : new Error(String(error))
     }
 
-    return this.batchFn(queue)
+    for (const [id, entry] of entries) {
+      for (const waiter of entry.waiters) {
+        if (failure && !results.has(id))
+          waiter.reject(failure)
+        else
+          waiter.resolve(results.get(id))
+      }
+    }
   }
 }
 
@@ -343,9 +421,36 @@ export function createRequestDeduplicator(): RequestDeduplicator {
   return new RequestDeduplicator()
 }
 
+/**
+ * Create a request coalescer
+ */
+export function createRequestCoalescer<TKey, TResult>(
+  batchFn: CoalescedBatchFn<TKey, TResult>,
+  options?: RequestCoalescerOptions<TKey>,
+): RequestCoalescer<TKey, TResult> {
+  return new RequestCoalescer(batchFn, options)
+}
+
 /**
  * Create a capacity tracker
  */
 export function createCapacityTracker(): CapacityTracker {
   return new CapacityTracker()
 }
+
+// ============================================================================
+// Helper Types
+// ============================================================================
+
+interface PendingKey<TKey, TResult> {
+  key: TKey
+  waiters: Array<{
+    resolve: (_result: TResult | undefined) => void
+    reject: (_error: Error) => void
+  }>
+}
+
+interface PendingBatch<TKey, TResult> {
+  entries: Map<string, PendingKey<TKey, TResult>>
+  timeout?: ReturnType<typeof setTimeout>
+}
@@ -8,12 +8,28 @@ export {
   QueryCache,
 } from './QueryCache'
 
+export {
+  type CapacityKind,
+  createRateLimiter,
+  isCapacityThrottle,
+  type RateLimitableClient,
+  type RateLimitBucketStats,
+  rateLimitClient,
+  RateLimiter,
+  type RateLimiterOptions,
+  type RateLimitTarget,
+} from './RateLimiter'
+
 export {
   CapacityTracker,
+  type CoalescedBatchFn,
+  type CoalescedBatchResult,
   createCapacityTracker,
+  createRequestCoalescer,
   createRequestDeduplicator,
   createRetryHandler,
   RequestCoalescer,
+  type RequestCoalescerOptions,
   RequestDeduplicator,
   type RetryConfig,
   RetryHandler,
@@ -0,0 +1,104 @@
+// ============================================================================
+// Driver-backed Seeder Client
+// ============================================================================
+
+import type { AttributeValue, BatchWriteItemInput, DriverPlugin } from '../drivers/types'
+import type { DynamoDBItem, JSObject } from '../single-table/EntityTransformer'
+import type { SeederDatabaseClient } from './Seeder'
+import { marshallObject, unmarshallItem } from '../single-table/EntityTransformer'
+
+/**
+ * Options for the driver-backed seeder client
+ */
+export interface DriverSeederClientOptions {
+  /** Retries for unprocessed batch items (default: 5) */
+  maxBatchRetries?: number
+  /** Base delay between batch retries in milliseconds (default: 50) */
+  batchRetryDelayMs?: number
+}
+
+type WireItem = Record<string, AttributeValue>
+
+/**
+ * Adapt a driver plugin to the client interface used by seeders and
+ * factories, so `runSeeders()` can write to any registered driver.
+ * Items are plain objects; batch writes are sent 25 at a time and
+ * unprocessed items are retried with backoff before being returned.
+ *
+ * @example
+ * ```typescript
+ * const driver = await createActiveDriver('memory', {})
+ * const seeders = await discoverSeeders('./app/seeders')
+ * await runSeeders(seeders, createDriverSeederClient(driver))
+ * ```
+ */
+export function createDriverSeederClient(
+  driver: DriverPlugin,
+  options: DriverSeederClientOptions = {},
+): SeederDatabaseClient {
+  const maxRetries = options.maxBatchRetries ?? 5
+  const retryDelay = options.batchRetryDelayMs ?? 50
+  const wait = (attempt: number): Promise<void> =>
+    new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** attempt))
+
+  return {
+    async putItem(tableName, item) {
+      await driver.putItem({ tableName, item: toWire(item) })
+    },
+
+    async deleteItem(tableName, key) {
+      await driver.deleteItem({ tableName, key: toWire(key) })
+    },
+
+    async batchWrite(tableName, items) {
+      const unprocessedItems: Record<string, unknown>[] = []
+
+      for (let i = 0; i < items.length; i += 25) {
+        let requests: BatchWriteItemInput['requestItems'][string] = items.slice(i, i + 25).map(write => write.type === 'put'
+          ? { putRequest: { item: toWire(write.item) } }
+          : { deleteRequest: { key: toWire(write.item) } })
+
+        for (let attempt = 0; requests.length > 0; attempt++) {
+          const result = await driver.batchWriteItem({ requestItems: { [tableName]: requests } })
+          requests = result.unprocessedItems?.[tableName] ?? []
+          if (requests.length === 0) {
+            break
+          }
+          if (attempt >= maxRetries) {
+            unprocessedItems.push(...requests.map(request => fromWire(request.putRequest?.item ?? request.deleteRequest!.key)))
+            break
+          }
+          await wait(attempt)
+        }
+      }
+
+      return { unprocessedItems }
+    },
+
+    async scan(tableName, scanOptions) {
+      const result = await driver.scan({
+        tableName,
+        limit: scanOptions?.limit,
+        filterExpression: scanOptions?.filter,
+        expressionAttributeValues: scanOptions?.filterValues ? toWire(scanOptions.filterValues) : undefined,
+      })
+
+      return {
+        items: result.items.map(item => fromWire(item as WireItem)),
+        lastEvaluatedKey: result.lastEvaluatedKey ? fromWire(result.lastEvaluatedKey as WireItem) : undefined,
+      }
+    },
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function toWire(item: Record<string, unknown>): WireItem {
+  return marshallObject(item as JSObject) as WireItem
+}
+
+function fromWire(item: WireItem): Record<string, unknown> {
+  return unmarshallItem(item as DynamoDBItem)
+}
@@ -2,6 +2,7 @@
 // Seeder Runner for DynamoDB
 // ============================================================================
 
+import type { RateLimiter } from '../performance/RateLimiter'
 import type { Config } from '../types'
 import type {
   FactoryDefinition,
@@ -13,6 +14,7 @@ import type {
   SeederRunResult,
 } from './Seeder'
 import { getConfig } from '../config'
+import { rateLimitClient } from '../performance/RateLimiter'
 
 // ============================================================================
 // Types
@@ -42,6 +44,11 @@ export interface SeederRunnerOptions {
    * Progress callback
    */
   onProgress?: (seeder: string, result: SeederResult) => void
+  /**
+   * Adaptive rate limiter to pace the seeders' requests with, so seeding a
+   * shared table backs off when it is throttled
+   */
+  rateLimiter?: RateLimiter
 }
 
 /**
@@ -158,14 +165,15 @@ function createFactory<T extends Record<string, unknown>>(
  */
 export async function runSeeders(
   seeders: SeederConstructor[],
-  db: SeederDatabaseClient,
+  client: SeederDatabaseClient,
   options: SeederRunnerOptions = {},
   config?: Config,
 ): Promise<SeederRunResult> {
   const startTime = Date.now()
   const resolvedConfig = config ?? await getConfig()
   const tableName = `${resolvedConfig.tableNamePrefix}${resolvedConfig.defaultTableName}${resolvedConfig.tableNameSuffix}`
-  const { only, skip, dryRun = false, verbose = false, onProgress } = options
+  const { only, skip, dryRun = false, verbose = false, onProgress, rateLimiter } = options
+  const db = rateLimiter ? rateLimitClient(client, rateLimiter) : client
 
   const results: SeederResult[] = []
   const errors: Array<{ seeder: string, error: string }> = []
@@ -323,7 +331,7 @@ export async function discoverSeeders(seedersPath: string): Promise<SeederConstr
       }
 
       try {
-        const filePath = path.join(seedersPath, file)
+        const filePath = path.resolve(seedersPath, file)
         const module = await import(filePath)
 
         // Look for exported seeder classes
@@ -2,6 +2,8 @@
 // Seeders Module Exports
 // ============================================================================
 
+export { createDriverSeederClient, type DriverSeederClientOptions } from './DriverClient'
+
 export {
   type FactoryDefinition,
   type FactoryInstance,
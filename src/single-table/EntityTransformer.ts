@@ -387,7 +387,7 @@ export function unmarshallItem(item: DynamoDBItem): JSObject {
 /**
  * Format a timestamp according to config
  */
-function formatTimestamp(date: Date, format: 'iso' | 'unix' | 'unixMs'): string {
+export function formatTimestamp(date: Date, format: 'iso' | 'unix' | 'unixMs'): string {
   switch (format) {
     case 'iso':
       return date.toISOString()
@@ -1,7 +1,9 @@
+import type { AttributeValue } from '../drivers/types'
 import type { ModelRegistry, ParsedModel, ParsedRelationship } from '../model-parser/types'
 import type { Config } from '../types'
 import type { DynamoDBItem, JSObject } from './EntityTransformer'
-import { toModelInstance } from './EntityTransformer'
+import { evaluateCondition, ExpressionContext, parseConditionExpression } from '../drivers/expressions'
+import { marshallValue, toModelInstance } from './EntityTransformer'
 
 // ============================================================================
 // Relationship Resolution Types
@@ -83,6 +85,7 @@ export interface QueryParams {
   limit?: number
   scanIndexForward?: boolean
   filterExpression?: string
+  filterNames?: Record<string, string>
   filterValues?: Record<string, unknown>
 }
 
@@ -450,45 +453,185 @@ async function prefetchRelationshipData(
 }
 
 /**
- * Get relationship count without loading full data
+ * Constraint on related items, e.g. from `whereHas`.
+ * Values are plain JS values, like `QueryParams.keyValues`.
  */
-export async function getRelationshipCount(
+export interface RelationshipConstraint {
+  filterExpression: string
+  names: Record<string, string>
+  values: Record<string, unknown>
+}
+
+/**
+ * Options for counting related items
+ */
+export interface RelationshipCountOptions {
+  /**
+   * Only count related items matching this constraint
+   */
+  constraint?: RelationshipConstraint
+  /**
+   * Stop counting once this many related items are found (1 for existence checks)
+   */
+  max?: number
+}
+
+/**
+ * Count related items for a batch of instances, e.g. one page of query results.
+ *
+ * belongsTo parents (and belongsToMany targets under a constraint) are fetched
+ * with BatchGetItem and the constraint is evaluated locally. Relationships stored
+ * in the instance's partition or GSI partition need one query per distinct
+ * partition, issued concurrently, since a Query cannot span partitions.
+ */
+export async function getRelationshipCounts(
   model: ParsedModel,
-  instance: JSObject,
+  instances: JSObject[],
   relationshipName: string,
   registry: ModelRegistry,
   config: Config,
   queryBuilder: RelationshipQueryBuilder,
-): Promise<number> {
+  options: RelationshipCountOptions = {},
+): Promise<number[]> {
   const relationship = model.relationships.find(r => r.relatedModel === relationshipName)
-  if (!relationship)
-    return 0
-
-  const relatedModel = registry.models.get(relationship.relatedModel)
-  if (!relatedModel)
-    return 0
+  const relatedModel = relationship ? registry.models.get(relationship.relatedModel) : undefined
+  if (!relationship || !relatedModel || instances.length === 0)
+    return instances.map(() => 0)
 
   const delimiter = config.singleTableDesign.keyDelimiter
   const tableName = `${config.tableNamePrefix}${config.defaultTableName}${config.tableNameSuffix}`
+  const { constraint, max } = options
+  const cap = (count: number): number => (max !== undefined ? Math.min(count, max) : count)
 
   switch (relationship.type) {
     case 'hasMany':
     case 'hasOne': {
-      const pk = `${model.entityType}${delimiter}${instance[model.primaryKey]}`
       const sk = `${relatedModel.entityType}${delimiter}`
+      const partitions = instances.map(instance => `${model.entityType}${delimiter}${instance[model.primaryKey]}`)
 
-      // Query with Select: 'COUNT' would be ideal, but we simulate with limit
-      const items = await queryBuilder.query(tableName, {
-        keyCondition: 'pk = :pk AND begins_with(sk, :sk)',
-        keyValues: { ':pk': pk, ':sk': sk },
+      const counts = await queryByPartition(partitions, async (pk) => {
+        const items = await queryBuilder.query(tableName, {
+          keyCondition: 'pk = :pk AND begins_with(sk, :sk)',
+          keyValues: { ':pk': pk, ':sk': sk },
+          limit: max,
+          filterExpression: constraint?.filterExpression,
+          filterNames: constraint?.names,
+          filterValues: constraint?.values,
+        })
+        return cap(items.length)
+      })
+      return partitions.map(pk => counts.get(pk)!)
+    }
+
+    case 'belongsTo': {
+      const parentKeys = instances.map((instance) => {
+        const foreignKeyValue = instance[relationship.foreignKey]
+        return foreignKeyValue ? `${relatedModel.entityType}${delimiter}${foreignKeyValue}` : undefined
+      })
+
+      const found = await batchGetMatchingKeys(
+        [...new Set(parentKeys.filter((key): key is string => key !== undefined))],
+        tableName,
+        config,
+        queryBuilder,
+        constraint,
+      )
+      return parentKeys.map(key => (key && found.has(key) ? cap(1) : 0))
+    }
+
+    case 'belongsToMany': {
+      if (!relationship.gsiIndex)
+        return instances.map(() => 0)
+
+      const gsiPkAttr = getGSIAttributeName(relationship.gsiIndex, 'pk', config)
+      const partitions = instances.map(instance => `${model.entityType}${delimiter}${instance[model.primaryKey]}`)
+      const pivotKeys = await queryByPartition(partitions, async (pk) => {
+        const pivotItems = await queryBuilder.query(tableName, {
+          indexName: `GSI${relationship.gsiIndex}`,
+          keyCondition: `${gsiPkAttr} = :pk`,
+          keyValues: { ':pk': pk },
+          limit: constraint ? undefined : max,
+        })
+        return pivotItems.map((item) => {
+          const sk = (item[config.singleTableDesign.sortKeyName] as { S: string })?.S ?? ''
+          return `${relatedModel.entityType}${delimiter}${sk.split(delimiter)[1]}`
+        })
       })
+      const relatedKeys = partitions.map(pk => pivotKeys.get(pk)!)
 
-      return items.length
+      if (!constraint)
+        return relatedKeys.map(keys => cap(keys.length))
+
+      const found = await batchGetMatchingKeys([...new Set(relatedKeys.flat())], tableName, config, queryBuilder, constraint)
+      return relatedKeys.map(keys => cap(keys.filter(key => found.has(key)).length))
     }
 
     default:
-      return 0
+      return instances.map(() => 0)
+  }
+}
+
+/**
+ * Run one lookup per distinct partition key. A Query reads a single
+ * partition, so instances that share a partition share its lookup.
+ */
+async function queryByPartition<T>(partitions: string[], lookup: (pk: string) => Promise<T>): Promise<Map<string, T>> {
+  const distinct = [...new Set(partitions)]
+  const results = await Promise.all(distinct.map(lookup))
+  return new Map(distinct.map((pk, i) => [pk, results[i]]))
+}
+
+/**
+ * Batch get entity items (pk = sk) and return the keys of those matching the constraint
+ */
+async function batchGetMatchingKeys(
+  keys: string[],
+  tableName: string,
+  config: Config,
+  queryBuilder: RelationshipQueryBuilder,
+  constraint?: RelationshipConstraint,
+): Promise<Set<string>> {
+  const matches = constraint ? createConstraintMatcher(constraint) : () => true
+  const found = new Set<string>()
+
+  // BatchGetItem accepts at most 100 keys per request
+  for (let i = 0; i < keys.length; i += 100) {
+    const items = await queryBuilder.batchGet(tableName, keys.slice(i, i + 100).map(key => ({ pk: key, sk: key })))
+    for (const item of items) {
+      if (matches(item)) {
+        found.add((item[config.singleTableDesign.partitionKeyName] as { S: string })?.S ?? '')
+      }
+    }
   }
+
+  return found
+}
+
+/**
+ * Evaluate a constraint's filter expression against fetched items
+ */
+function createConstraintMatcher(constraint: RelationshipConstraint): (item: DynamoDBItem) => boolean {
+  const values = Object.fromEntries(
+    Object.entries(constraint.values).map(([placeholder, value]) => [placeholder, marshallValue(value) as AttributeValue]),
+  )
+  const condition = parseConditionExpression(constraint.filterExpression, new ExpressionContext(constraint.names, values), 'FilterExpression')
+  return item => evaluateCondition(condition, item as Record<string, AttributeValue>)
+}
+
+/**
+ * Get relationship count without loading full data
+ */
+export async function getRelationshipCount(
+  model: ParsedModel,
+  instance: JSObject,
+  relationshipName: string,
+  registry: ModelRegistry,
+  config: Config,
+  queryBuilder: RelationshipQueryBuilder,
+  options?: RelationshipCountOptions,
+): Promise<number> {
+  const [count] = await getRelationshipCounts(model, [instance], relationshipName, registry, config, queryBuilder, options)
+  return count
 }
 
 /**
@@ -501,6 +644,7 @@ export async function hasRelationship(
   registry: ModelRegistry,
   config: Config,
   queryBuilder: RelationshipQueryBuilder,
+  constraint?: RelationshipConstraint,
 ): Promise<boolean> {
   const count = await getRelationshipCount(
     model,
@@ -509,6 +653,7 @@ export async function hasRelationship(
     registry,
     config,
     queryBuilder,
+    { constraint, max: 1 },
   )
   return count > 0
 }
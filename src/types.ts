@@ -1,3 +1,5 @@
+import type { CredentialProvider } from './drivers/types'
+
 // ============================================================================
 // AWS Credential Types
 // ============================================================================
@@ -300,6 +302,12 @@ export interface QueryBuilderConfig {
    * @default '_v'
    */
   versionAttribute: string
+  /**
+   * Secret used to HMAC-sign pagination cursors. Unsigned cursors are
+   * rejected once this is set.
+   * @default undefined (cursors are not signed)
+   */
+  cursorSecret?: string
 }
 
 // ============================================================================
@@ -658,6 +666,12 @@ export interface Config {
    * @default undefined (use default profile)
    */
   profile?: string
+  /**
+   * Credential provider used to sign requests.
+   * Resolved by getConfig() from the default chain (explicit credentials,
+   * environment, shared profile files, web identity token file) unless set.
+   */
+  credentialProvider?: CredentialProvider
 
   // ---- Retry & HTTP ----
   /**
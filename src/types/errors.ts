@@ -14,6 +14,45 @@ export interface BaseDynamoDBError {
   readonly retryable: boolean
 }
 
+/**
+ * Request context attached to errors raised by a DynamoDB call
+ */
+export interface DynamoDBErrorContext {
+  /** Request ID returned by the service (`x-amzn-requestid`) */
+  requestId?: string
+  /** Table the failing request targeted */
+  tableName?: string
+  /** API operation, e.g. `PutItem` */
+  operation?: string
+  /** Exception name reported by the service, e.g. `ConditionalCheckFailedException` */
+  awsErrorCode?: string
+}
+
+const errorContextKeys = ['requestId', 'tableName', 'operation', 'awsErrorCode'] as const
+
+/**
+ * Base class for the typed DynamoDB errors
+ */
+export abstract class DynamoDBErrorBase extends Error {
+  requestId?: string
+  tableName?: string
+  operation?: string
+  awsErrorCode?: string
+
+  /**
+   * Attach request context, keeping any values the error already carries
+   */
+  withContext(context: DynamoDBErrorContext): this {
+    const target = this as DynamoDBErrorContext
+    for (const key of errorContextKeys) {
+      if (target[key] === undefined && context[key] !== undefined) {
+        target[key] = context[key]
+      }
+    }
+    return this
+  }
+}
+
 // ============================================================================
 // Error Code Union
 // ============================================================================
@@ -43,7 +82,7 @@ export type DynamoDBErrorCode =
 /**
  * Item not found error - includes model type
  */
-export class ItemNotFoundError<TModel extends string = string> extends Error {
+export class ItemNotFoundError<TModel extends string = string> extends DynamoDBErrorBase {
   readonly code = 'ItemNotFound' as const
   readonly model: TModel
   readonly keys: { pk: string, sk?: string }
@@ -61,7 +100,7 @@ export class ItemNotFoundError<TModel extends string = string> extends Error {
 /**
  * Validation error with typed field errors
  */
-export class DynamoDBValidationError extends Error {
+export class DynamoDBValidationError extends DynamoDBErrorBase {
   readonly code = 'ValidationError' as const
   readonly model: string
   readonly fieldErrors: Record<string, string[]>
@@ -103,7 +142,7 @@ export class DynamoDBValidationError extends Error {
 /**
  * Conditional check failed error (optimistic locking)
  */
-export class ConditionalCheckFailedError extends Error {
+export class ConditionalCheckFailedError extends DynamoDBErrorBase {
   readonly code = 'ConditionalCheckFailed' as const
   readonly model: string
   readonly condition?: string
@@ -142,21 +181,55 @@ export interface TransactionCancellationReason {
   Item?: Record<string, unknown>
 }
 
+/**
+ * Item of a transaction, for naming it in cancellation errors
+ */
+export interface TransactionItemDescription {
+  /** Model (or table) the item belongs to */
+  model: string
+  operation: 'put' | 'update' | 'delete' | 'conditionCheck'
+  key?: { pk: string, sk?: string }
+}
+
+/**
+ * One transaction item that caused a cancellation
+ */
+export interface TransactionFailure {
+  /** Position of the item in the transaction */
+  index: number
+  code: TransactionCancellationReason['Code']
+  message?: string
+  item?: TransactionItemDescription
+}
+
 /**
  * Transaction cancelled error with per-item reasons
  */
-export class TransactionCancelledError extends Error {
+export class TransactionCancelledError extends DynamoDBErrorBase {
   readonly code = 'TransactionCancelled' as const
   readonly cancellationReasons: TransactionCancellationReason[]
+  /** Descriptions of the transaction items, in request order, when known */
+  readonly items: TransactionItemDescription[]
+  /** Items whose reason is not `None` */
+  readonly failures: TransactionFailure[]
   readonly retryable: boolean
   readonly statusCode = 400
 
-  constructor(cancellationReasons: TransactionCancellationReason[]) {
-    const failedReasons = cancellationReasons.filter(r => r.Code !== 'None')
-    const summary = failedReasons.map((r, i) => `Item ${i}: ${r.Code}${r.Message ? ` - ${r.Message}` : ''}`).join('; ')
+  constructor(cancellationReasons: TransactionCancellationReason[], items: TransactionItemDescription[] = []) {
+    const failures: TransactionFailure[] = cancellationReasons
+      .map((r, index) => ({ index, code: r.Code, message: r.Message, item: items[index] }))
+      .filter(f => f.code !== 'None')
+    const summary = failures.map((f) => {
+      const label = f.item
+        ? `${f.item.model} ${f.item.operation}${f.item.key ? ` ${f.item.key.pk}${f.item.key.sk && f.item.key.sk !== f.item.key.pk ? `/${f.item.key.sk}` : ''}` : ''}`
+        : `Item ${f.index}`
+      return `${label}: ${f.code}${f.message ? ` - ${f.message}` : ''}`
+    }).join('; ')
     super(`Transaction cancelled: ${summary || 'Unknown reason'}`)
     this.name = 'TransactionCancelledError'
     this.cancellationReasons = cancellationReasons
+    this.items = items
+    this.failures = failures
 
     // Retryable if any reason is transient
     this.retryable = cancellationReasons.some(r =>
@@ -186,7 +259,7 @@ export class TransactionCancelledError extends Error {
 /**
  * Provisioned throughput exceeded error
  */
-export class ProvisionedThroughputExceededError extends Error {
+export class ProvisionedThroughputExceededError extends DynamoDBErrorBase {
   readonly code = 'ProvisionedThroughputExceeded' as const
   readonly tableName: string
   readonly retryable = true
@@ -204,7 +277,7 @@ export class ProvisionedThroughputExceededError extends Error {
 /**
  * Resource not found error (table doesn't exist)
  */
-export class ResourceNotFoundError extends Error {
+export class ResourceNotFoundError extends DynamoDBErrorBase {
   readonly code = 'ResourceNotFound' as const
   readonly resourceType: 'Table' | 'Index' | 'Backup'
   readonly resourceName: string
@@ -222,7 +295,7 @@ export class ResourceNotFoundError extends Error {
 /**
  * Resource in use error (table being created/deleted)
  */
-export class ResourceInUseError extends Error {
+export class ResourceInUseError extends DynamoDBErrorBase {
   readonly code = 'ResourceInUse' as const
   readonly resourceName: string
   readonly status: string
@@ -240,7 +313,7 @@ export class ResourceInUseError extends Error {
 /**
  * Item collection size limit exceeded error
  */
-export class ItemCollectionSizeLimitExceededError extends Error {
+export class ItemCollectionSizeLimitExceededError extends DynamoDBErrorBase {
   readonly code = 'ItemCollectionSizeLimitExceeded' as const
   readonly tableName: string
   readonly partitionKey: string
@@ -258,7 +331,7 @@ export class ItemCollectionSizeLimitExceededError extends Error {
 /**
  * Request limit exceeded error
  */
-export class RequestLimitExceededError extends Error {
+export class RequestLimitExceededError extends DynamoDBErrorBase {
   readonly code = 'RequestLimitExceeded' as const
   readonly retryable = true
   readonly statusCode = 400
@@ -274,7 +347,7 @@ export class RequestLimitExceededError extends Error {
 /**
  * Throttling error
  */
-export class ThrottlingError extends Error {
+export class ThrottlingError extends DynamoDBErrorBase {
   readonly code = 'ThrottlingError' as const
   readonly retryable = true
   readonly statusCode = 400
@@ -290,7 +363,7 @@ export class ThrottlingError extends Error {
 /**
  * Internal server error
  */
-export class DynamoDBInternalError extends Error {
+export class DynamoDBInternalError extends DynamoDBErrorBase {
   readonly code = 'InternalServerError' as const
   readonly retryable = true
   readonly statusCode = 500
@@ -306,7 +379,7 @@ export class DynamoDBInternalError extends Error {
 /**
  * Service unavailable error
  */
-export class ServiceUnavailableError extends Error {
+export class ServiceUnavailableError extends DynamoDBErrorBase {
   readonly code = 'ServiceUnavailable' as const
   readonly retryable = true
   readonly statusCode = 503
@@ -319,6 +392,24 @@ export class ServiceUnavailableError extends Error {
   }
 }
 
+/**
+ * Service exceptions without a dedicated class (e.g. `AccessDeniedException`,
+ * `TransactionConflictException`). The error name is the exception name.
+ */
+export class DynamoDBServiceError extends DynamoDBErrorBase {
+  readonly code = 'UnknownError' as const
+  readonly retryable: boolean
+  readonly statusCode?: number
+
+  constructor(awsErrorCode: string, message: string, options?: { retryable?: boolean, statusCode?: number }) {
+    super(message)
+    this.name = awsErrorCode
+    this.awsErrorCode = awsErrorCode
+    this.retryable = options?.retryable ?? false
+    this.statusCode = options?.statusCode
+  }
+}
+
 // ============================================================================
 // Discriminated Union Type
 // ============================================================================
@@ -339,6 +430,7 @@ export type DynamoDBError =
   | ThrottlingError
   | DynamoDBInternalError
   | ServiceUnavailableError
+  | DynamoDBServiceError
 
 // ============================================================================
 // Type Guards
@@ -421,6 +513,7 @@ export function isDynamoDBError(error: unknown): error is DynamoDBError {
     || isThrottlingError(error)
     || error instanceof DynamoDBInternalError
     || error instanceof ServiceUnavailableError
+    || error instanceof DynamoDBServiceError
   )
 }
 
@@ -454,55 +547,109 @@ export function getRetryDelayMs(error: unknown): number | undefined {
 // ============================================================================
 
 /**
- * Create appropriate error from AWS error response
+ * Service exceptions without a dedicated class that are safe to retry
  */
-export function createDynamoDBError(
-  awsError: { name?: string, code?: string, message?: string, $metadata?: { httpStatusCode?: number, requestId?: string } },
-): DynamoDBError | Error {
-  const code = awsError.code || awsError.name || ''
-  const message = awsError.message || 'Unknown error'
-  const _statusCode = awsError.$metadata?.httpStatusCode
-  const requestId = awsError.$metadata?.requestId
-
-  switch (code) {
-    case 'ConditionalCheckFailedException':
-      return new ConditionalCheckFailedError('Unknown', { condition: message })
-
-    case 'TransactionCanceledException':
-      return new TransactionCancelledError([{ Code: 'None', Message: message }])
-
-    case 'ProvisionedThroughputExceededException':
-      return new ProvisionedThroughputExceededError('Unknown')
-
-    case 'ResourceNotFoundException':
-      return new ResourceNotFoundError('Table', 'Unknown')
-
-    case 'ResourceInUseException':
-      return new ResourceInUseError('Unknown', 'Unknown')
-
-    case 'ItemCollectionSizeLimitExceededException':
-      return new ItemCollectionSizeLimitExceededError('Unknown', 'Unknown')
+const retryableServiceErrorCodes = new Set([
+  'TransactionConflictException',
+  'TransactionInProgressException',
+  'LimitExceededException',
+  'RequestTimeout',
+  'RequestTimeoutException',
+])
 
-    case 'RequestLimitExceeded':
-      return new RequestLimitExceededError()
+const cancellationReasonPattern = /\[([\w\s,]+)\]\s*$/
 
-    case 'ThrottlingException':
-    case 'Throttling':
-      return new ThrottlingError(message)
-
-    case 'InternalServerError':
-      return new DynamoDBInternalError(message, requestId)
-
-    case 'ServiceUnavailable':
-      return new ServiceUnavailableError()
-
-    case 'ValidationException':
-      return new DynamoDBValidationError('Unknown', { _general: [message] })
+/**
+ * Recover cancellation reasons from a TransactionCanceledException message,
+ * e.g. `... specific reasons [None, ConditionalCheckFailed]`
+ */
+function parseCancellationReasons(message: string): TransactionCancellationReason[] | undefined {
+  const match = cancellationReasonPattern.exec(message)
+  if (!match)
+    return undefined
+  return match[1].split(',').map(code => ({ Code: code.trim() as TransactionCancellationReason['Code'] }))
+}
 
-    default:
-      // Return a generic error for unknown codes
-      const error = new Error(message)
-      error.name = code || 'UnknownDynamoDBError'
-      return error
-  }
+/**
+ * Create appropriate error from AWS error response.
+ * The optional context (table, operation, request ID) is attached to the returned error.
+ */
+export function createDynamoDBError(
+  awsError: {
+    name?: string
+    code?: string
+    message?: string
+    CancellationReasons?: TransactionCancellationReason[]
+    $metadata?: { httpStatusCode?: number, requestId?: string }
+  },
+  context: DynamoDBErrorContext = {},
+): DynamoDBError {
+  const code = awsError.code || awsError.name || ''
+  const message = awsError.message || 'Unknown error'
+  const statusCode = awsError.$metadata?.httpStatusCode
+  const requestId = awsError.$metadata?.requestId ?? context.requestId
+  const tableName = context.tableName ?? 'Unknown'
+
+  const error = ((): DynamoDBError => {
+    switch (code) {
+      case 'ConditionalCheckFailedException':
+        return new ConditionalCheckFailedError(tableName, { condition: message })
+
+      case 'TransactionCanceledException':
+        return new TransactionCancelledError(
+          awsError.CancellationReasons
+          ?? parseCancellationReasons(message)
+          ?? [{ Code: 'None', Message: message }],
+        )
+
+      case 'ProvisionedThroughputExceededException':
+        return new ProvisionedThroughputExceededError(tableName)
+
+      case 'ResourceNotFoundException':
+      case 'TableNotFoundException':
+        return new ResourceNotFoundError('Table', tableName)
+
+      case 'BackupNotFoundException':
+        return new ResourceNotFoundError('Backup', tableName)
+
+      case 'ResourceInUseException':
+      case 'TableInUseException':
+        return new ResourceInUseError(tableName, 'Unknown')
+
+      case 'ItemCollectionSizeLimitExceededException':
+        return new ItemCollectionSizeLimitExceededError(tableName, 'Unknown')
+
+      case 'RequestLimitExceeded':
+        return new RequestLimitExceededError()
+
+      case 'ThrottlingException':
+      case 'Throttling':
+        return new ThrottlingError(message)
+
+      case 'InternalServerError':
+        return new DynamoDBInternalError(message, requestId)
+
+      case 'ServiceUnavailable':
+        return new ServiceUnavailableError()
+
+      case 'ValidationException':
+        return new DynamoDBValidationError(tableName, { _general: [message] })
+
+      default:
+        if (!code && statusCode === 503)
+          return new ServiceUnavailableError()
+        if (!code && statusCode !== undefined && statusCode >= 500)
+          return new DynamoDBInternalError(message, requestId)
+        return new DynamoDBServiceError(code || 'UnknownDynamoDBError', message, {
+          retryable: retryableServiceErrorCodes.has(code) || (statusCode !== undefined && statusCode >= 500),
+          statusCode,
+        })
+    }
+  })()
+
+  return error.withContext({
+    ...context,
+    requestId,
+    awsErrorCode: code || undefined,
+  })
 }
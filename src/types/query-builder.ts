@@ -512,6 +512,9 @@ export type RelationshipResultType<R extends ModelRelationship> = R extends { ty
 
 /**
  * Paginated result structure
+ *
+ * DynamoDB can't count ahead cheaply, so `total` and `lastPage` cover the
+ * pages read so far and are lower bounds while `hasMore` is true.
  */
 export interface PaginatedResult<T> {
   items: T[]
@@ -520,8 +523,14 @@ export interface PaginatedResult<T> {
   currentPage: number
   lastPage: number
   hasMorePages: boolean
+  /** Whether items may follow this page (same as `hasMorePages`) */
+  hasMore: boolean
+  /** Cursor this page was fetched with */
   cursor?: string
+  /** Cursor for the following page, when `hasMore` */
   nextCursor?: string
+  /** Cursor for the preceding page, when there is one */
+  prevCursor?: string
 }
 
 // ============================================================================
@@ -1,8 +1,29 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import type { BackupDetails } from '../src/backup'
+import type { AttributeValue, CreateTableInput } from '../src/drivers/types'
+import type { ModelRegistry } from '../src/model-parser/types'
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test'
+import { appendFileSync, existsSync, mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import {
   BackupManager,
+  createBackupExecutor,
   createBackupManager,
+  createBackupScheduler,
+  createRunDueRoute,
+  createTableInputFromDescription,
+  LocalBackupIntegrityError,
+  parseScheduleExpression,
+  RestoreVerificationError,
+  selectBackupsToPrune,
+  validateScheduleExpression,
+  verifyLocalBackup,
 } from '../src/backup'
+import { defaultConfig } from '../src/config'
+import { createDynamoDBDriver } from '../src/drivers/DynamoDBDriver'
+import { createMemoryDriver } from '../src/drivers/MemoryDriver'
+import { generateSchemaFromRegistry } from '../src/migrations'
+import { createAPIHandler } from '../src/serverless'
 
 describe('Backup & Restore', () => {
   let manager: BackupManager
@@ -668,3 +689,488 @@ describe('Backup & Restore', () => {
     })
   })
 })
+
+describe('Backup Executor', () => {
+  const config = { ...defaultConfig, defaultTableName: 'Orders' }
+  const traits = { useTimestamps: false, useSoftDeletes: false, useUuid: false, useTtl: false, useVersioning: false }
+  const registry: ModelRegistry = {
+    models: new Map([['Order', {
+      name: 'Order',
+      entityType: 'ORDER',
+      primaryKey: 'id',
+      attributes: [{ name: 'id', dynamoDbType: 'S', required: true, unique: true, fillable: false, nullable: false, hidden: false }],
+      relationships: [],
+      keyPatterns: { pk: 'ORDER#{id}', sk: 'ORDER#{id}' },
+      accessPatterns: [],
+      hasTimestamps: false,
+      hasSoftDeletes: false,
+      hasVersioning: false,
+      hasUuid: false,
+      hasTtl: false,
+      traits,
+      original: { name: 'Order', table: 'orders', primaryKey: 'id', attributes: {}, traits },
+    }]]),
+    accessPatterns: [],
+    gsiAssignments: new Map<string, number>(),
+    warnings: [],
+  }
+
+  async function createTable() {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    const schema = generateSchemaFromRegistry(registry, config).createTableInput
+    await driver.createTable(schema)
+    await driver.putItem({ tableName: schema.tableName, item: { pk: { S: 'ORDER#1' }, sk: { S: 'ORDER#1' } } })
+    return { driver, schema }
+  }
+
+  it('should create, list, restore and delete backups through the driver', async () => {
+    const { driver, schema } = await createTable()
+    const progress: string[] = []
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1, onProgress: p => progress.push(`${p.operation}:${p.status}`) })
+
+    const backup = await executor.createBackup({ tableName: 'Orders', backupName: 'nightly' })
+    expect(backup.status).toBe('AVAILABLE')
+    expect(backup.tableName).toBe('Orders')
+    expect(backup.createdAt).toBeInstanceOf(Date)
+
+    // Writes after the backup are not restored
+    await driver.putItem({ tableName: 'Orders', item: { pk: { S: 'ORDER#2' }, sk: { S: 'ORDER#2' } } })
+
+    const listed = await executor.listBackups({ tableName: 'Orders' })
+    expect(listed.map(b => b.arn)).toEqual([backup.arn])
+
+    const result = await executor.restoreFromBackup({ backupArn: backup.arn, targetTableName: 'Orders-restored', verify: { registry, config } })
+    expect(result.verified).toBe(true)
+    expect(result.description.itemCount).toBe(1)
+    expect((await driver.describeTable('Orders-restored')).keySchema).toEqual(schema.keySchema)
+    expect(progress).toEqual(['backup:AVAILABLE', 'restore:ACTIVE'])
+
+    expect((await executor.deleteBackup(backup.arn))?.status).toBe('DELETED')
+    expect(await executor.listBackups()).toEqual([])
+  })
+
+  it('should fail restores whose schema does not match the models', async () => {
+    const { driver, schema } = await createTable()
+    const gsi = schema.globalSecondaryIndexes![0].indexName
+    await driver.updateTable({ tableName: 'Orders', globalSecondaryIndexUpdates: [{ delete: { indexName: gsi } }] })
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1 })
+    const backup = await executor.createBackup({ tableName: 'Orders', backupName: 'before-gsi' })
+
+    const error = await executor.restoreFromBackup({ backupArn: backup.arn, targetTableName: 'Orders-old', verify: { registry, config } }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(RestoreVerificationError)
+    expect((error as RestoreVerificationError).mismatches.map(m => m.affectedComponent)).toEqual([gsi])
+  })
+
+  it('should manage point-in-time recovery and restore to a point in time', async () => {
+    const { driver } = await createTable()
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1 })
+
+    expect((await executor.describePITR('Orders')).status).toBe('DISABLED')
+    await expect(executor.restoreToPointInTime({ sourceTableName: 'Orders', targetTableName: 'Orders-pitr' })).rejects.toThrow('not enabled')
+
+    const enabled = await executor.enablePITR('Orders')
+    expect(enabled.status).toBe('ENABLED')
+    expect(enabled.earliestRestorableTime).toBeInstanceOf(Date)
+
+    const result = await executor.restoreToPointInTime({ sourceTableName: 'Orders', targetTableName: 'Orders-pitr', verify: { registry, config } })
+    expect(result.description.itemCount).toBe(1)
+
+    expect((await executor.disablePITR('Orders')).status).toBe('DISABLED')
+  })
+
+  it('should send backup commands with epoch-second timestamps', async () => {
+    const requests: Array<{ target: string | null, body: Record<string, unknown> }> = []
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        requests.push({ target: request.headers.get('x-amz-target'), body: await request.json() as Record<string, unknown> })
+        return Response.json({
+          BackupSummaries: [{ BackupArn: 'arn:backup/1', BackupName: 'nightly', BackupStatus: 'AVAILABLE', BackupCreationDateTime: 1700000000, TableName: 'Orders' }],
+        })
+      },
+    })
+
+    try {
+      const driver = createDynamoDBDriver()
+      await driver.connect({ endpoint: `http://127.0.0.1:${server.port}`, credentials: { accessKeyId: 'a', secretAccessKey: 'b' } })
+      const backups = await createBackupExecutor(driver).listBackups({ tableName: 'Orders', startTime: new Date(1600000000000) })
+
+      expect(requests[0].target).toBe('DynamoDB_20120810.ListBackups')
+      expect(requests[0].body).toEqual({ TableName: 'Orders', TimeRangeLowerBound: 1600000000 })
+      expect(backups[0].createdAt).toEqual(new Date(1700000000000))
+    }
+    finally {
+      server.stop(true)
+    }
+  })
+})
+
+describe('Backup Scheduler', () => {
+  describe('Schedule Expressions', () => {
+    const after = new Date('2024-01-01T12:00:00Z')
+    const next = (expression: string, from: Date = after) => parseScheduleExpression(expression).next(from).toISOString()
+
+    it('should evaluate rate expressions', () => {
+      expect(next('rate(6 hours)')).toBe('2024-01-01T18:00:00.000Z')
+      expect(next('rate(1 day)')).toBe('2024-01-02T12:00:00.000Z')
+    })
+
+    it('should evaluate EventBridge cron expressions', () => {
+      expect(next('cron(0 3 * * ? *)')).toBe('2024-01-02T03:00:00.000Z')
+      // 2024-01-01 is a Monday; 6 is FRI in EventBridge numbering
+      expect(next('cron(30 9 ? * 6 *)')).toBe('2024-01-05T09:30:00.000Z')
+      expect(next('cron(0 0 1 * ? 2025)')).toBe('2025-01-01T00:00:00.000Z')
+    })
+
+    it('should evaluate standard cron expressions and macros', () => {
+      expect(next('*/15 * * * *')).toBe('2024-01-01T12:15:00.000Z')
+      expect(next('0 4 * * SUN')).toBe('2024-01-07T04:00:00.000Z')
+      expect(next('0 0 29 FEB *')).toBe('2024-02-29T00:00:00.000Z')
+      expect(next('@monthly')).toBe('2024-02-01T00:00:00.000Z')
+    })
+
+    it('should reject invalid expressions', () => {
+      expect(validateScheduleExpression('cron(0 3 * * *)')).toContain('6 fields')
+      expect(validateScheduleExpression('cron(0 3 1 * MON *)')).toContain('cannot both be set')
+      expect(validateScheduleExpression('0 25 * * *')).toContain('outside 0-23')
+      expect(validateScheduleExpression('rate(0 hours)')).toContain('at least 1')
+      expect(validateScheduleExpression('0 3 * * *')).toBeUndefined()
+      expect(() => parseScheduleExpression('0 0 30 2 *').next(after)).toThrow('no run time')
+    })
+  })
+
+  describe('Retention', () => {
+    const now = new Date('2024-03-31T12:00:00Z')
+    const daysAgo = (days: number, hours = 0) => new Date(now.getTime() - days * 86_400_000 - hours * 3_600_000)
+    const backup = (name: string, createdAt: Date, status: BackupDetails['status'] = 'AVAILABLE'): BackupDetails => ({
+      arn: `arn:backup/${name}`,
+      name,
+      tableName: 'Orders',
+      tableArn: 'arn:table/Orders',
+      status,
+      type: 'USER',
+      createdAt,
+    })
+    const names = (backups: BackupDetails[]) => backups.map(b => b.name)
+
+    // Two backups a day for the last 60 days
+    const backups = Array.from({ length: 120 }, (_, i) => backup(`b${i}`, daysAgo(Math.floor(i / 2), (i % 2) * 6)))
+
+    it('should keep everything without keep rules', () => {
+      expect(selectBackupsToPrune(backups, {}, now)).toEqual([])
+    })
+
+    it('should keep the newest N backups', () => {
+      const pruned = selectBackupsToPrune(backups, { keepLast: 3 }, now)
+      expect(pruned).toHaveLength(117)
+      expect(names(pruned)).not.toContain('b2')
+      expect(names(pruned)).toContain('b3')
+    })
+
+    it('should keep the newest backup of each day, week and month', () => {
+      const kept = backups.filter(b => !selectBackupsToPrune(backups, { keepDaily: 3, keepWeekly: 2, keepMonthly: 3 }, now).includes(b))
+      // Days 0-2, the Sunday closing the previous week (day 7) and February 29; January has no backups
+      expect(names(kept)).toEqual(['b0', 'b2', 'b4', 'b14', 'b62'])
+    })
+
+    it('should prune by age but always keep the newest backup', () => {
+      expect(selectBackupsToPrune(backups, { keepLast: 120, maxAgeDays: 10 }, now)).toHaveLength(99)
+
+      const old = [backup('old', daysAgo(400)), backup('older', daysAgo(500))]
+      expect(names(selectBackupsToPrune(old, { maxAgeDays: 30 }, now))).toEqual(['older'])
+    })
+
+    it('should ignore backups that are not available', () => {
+      const pending = [backup('creating', daysAgo(0), 'CREATING'), backup('done', daysAgo(1)), backup('prior', daysAgo(2))]
+      expect(names(selectBackupsToPrune(pending, { keepLast: 1 }, now))).toEqual(['prior'])
+    })
+  })
+
+  describe('Durable Schedules', () => {
+    const config = { ...defaultConfig, defaultTableName: 'Orders' }
+    let clock: Date
+
+    async function setup() {
+      const driver = createMemoryDriver()
+      await driver.connect({})
+      await driver.createTable(generateSchemaFromRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] }, config).createTableInput)
+      clock = new Date('2024-01-01T12:00:00Z')
+      const options = { config, executor: createBackupExecutor(driver, { pollIntervalMs: 1 }), now: () => clock }
+      return { driver, scheduler: createBackupScheduler(driver, options), options }
+    }
+
+    it('should store schedules as items in the table', async () => {
+      const { driver, scheduler } = await setup()
+
+      const saved = await scheduler.saveSchedule('Orders', { name: 'nightly', schedule: 'cron(0 3 * * ? *)', retention: { keepLast: 2 } })
+      expect(saved.backupNamePrefix).toBe('Orders-nightly')
+      expect(saved.enabled).toBe(true)
+      expect(saved.nextRunAt.toISOString()).toBe('2024-01-02T03:00:00.000Z')
+
+      const item = await driver.getItem({ tableName: 'Orders', key: { pk: { S: '_BACKUP#SCHEDULE' }, sk: { S: '_BACKUP#nightly' } } })
+      expect(item?.schedule).toEqual({ S: 'cron(0 3 * * ? *)' })
+
+      await scheduler.saveSchedule('Orders', { name: 'hourly', schedule: 'rate(1 hour)' })
+      expect((await scheduler.listSchedules('Orders')).map(s => s.name)).toEqual(['hourly', 'nightly'])
+      expect(await scheduler.getSchedule('Orders', 'nightly')).toEqual(saved)
+
+      expect(await scheduler.deleteSchedule('Orders', 'hourly')).toBe(true)
+      expect(await scheduler.deleteSchedule('Orders', 'hourly')).toBe(false)
+    })
+
+    it('should reject invalid schedules', async () => {
+      const { scheduler } = await setup()
+
+      await expect(scheduler.saveSchedule('Orders', { name: 'bad', schedule: 'every day' })).rejects.toThrow('Invalid schedule expression')
+      await expect(scheduler.saveSchedule('Orders', { name: 'bad', schedule: 'rate(1 day)', retention: { keepLast: -1 } })).rejects.toThrow('keepLast')
+    })
+
+    it('should run due schedules and prune old backups', async () => {
+      const { scheduler, options } = await setup()
+      await scheduler.saveSchedule('Orders', { name: 'hourly', schedule: 'rate(1 hour)', retention: { keepLast: 2 } })
+
+      expect(await scheduler.runDue(['Orders'])).toEqual([])
+
+      const created: string[] = []
+      for (let hour = 1; hour <= 3; hour++) {
+        clock = new Date(clock.getTime() + 3_600_000)
+        const [run] = await scheduler.runDue(['Orders'])
+        expect(run.status).toBe('created')
+        created.push(run.backup!.name)
+        expect(run.pruned.map(b => b.name)).toEqual(hour === 3 ? [created[0]] : [])
+        // Memory backups are stamped with the wall clock
+        await Bun.sleep(2)
+      }
+      expect(created[0]).toBe('Orders-hourly-2024-01-01T13-00-00-000Z')
+      expect((await options.executor.listBackups({ tableName: 'Orders' })).map(b => b.name).sort()).toEqual(created.slice(1))
+
+      const schedule = (await scheduler.getSchedule('Orders', 'hourly'))!
+      expect(schedule.lastRunAt).toEqual(clock)
+      expect(schedule.nextRunAt).toEqual(new Date(clock.getTime() + 3_600_000))
+      expect(schedule.lastError).toBeUndefined()
+    })
+
+    it('should prune only the backups of its own schedule when prefixes overlap', async () => {
+      const { scheduler, options } = await setup()
+      await scheduler.saveSchedule('Orders', { name: 'nightly', schedule: 'rate(1 hour)', backupNamePrefix: 'nightly', retention: { keepLast: 1 } })
+      await scheduler.saveSchedule('Orders', { name: 'nightly-eu', schedule: 'rate(1 hour)', backupNamePrefix: 'nightly-eu', retention: { keepLast: 2 } })
+      await options.executor.createBackup({ tableName: 'Orders', backupName: 'nightly-manual' })
+
+      const pruned: string[] = []
+      for (let hour = 1; hour <= 3; hour++) {
+        clock = new Date(clock.getTime() + 3_600_000)
+        for (const run of await scheduler.runDue(['Orders'])) {
+          pruned.push(...run.pruned.map(b => `${run.schedule}:${b.name}`))
+        }
+        await Bun.sleep(2)
+      }
+
+      expect(pruned.sort()).toEqual([
+        'nightly-eu:nightly-eu-2024-01-01T13-00-00-000Z',
+        'nightly:nightly-2024-01-01T13-00-00-000Z',
+        'nightly:nightly-2024-01-01T14-00-00-000Z',
+      ])
+      expect((await options.executor.listBackups({ tableName: 'Orders' })).map(b => b.name).sort()).toEqual([
+        'nightly-2024-01-01T15-00-00-000Z',
+        'nightly-eu-2024-01-01T14-00-00-000Z',
+        'nightly-eu-2024-01-01T15-00-00-000Z',
+        'nightly-manual',
+      ])
+    })
+
+    it('should let only one runner claim a due schedule', async () => {
+      const { driver, scheduler, options } = await setup()
+      await scheduler.saveSchedule('Orders', { name: 'hourly', schedule: 'rate(1 hour)' })
+      clock = new Date(clock.getTime() + 3_600_000)
+
+      const runs = await Promise.all([scheduler.runDue(['Orders']), createBackupScheduler(driver, options).runDue(['Orders'])])
+      expect(runs.flat().map(run => run.status).sort()).toEqual(['created', 'skipped'])
+      expect(await options.executor.listBackups()).toHaveLength(1)
+    })
+
+    it('should record failed runs and answer run-due routes with 500', async () => {
+      const { driver, scheduler } = await setup()
+      await scheduler.saveSchedule('Orders', { name: 'hourly', schedule: 'rate(1 hour)' })
+      clock = new Date(clock.getTime() + 3_600_000)
+      const sendCommand = driver.sendCommand!
+      driver.sendCommand = async () => {
+        throw new Error('LimitExceededException')
+      }
+
+      const handler = createAPIHandler().post('/backups/run-due', createRunDueRoute(scheduler, ['Orders']))
+      const event = { httpMethod: 'POST', path: '/backups/run-due', pathParameters: null, queryStringParameters: null, body: null, headers: {} }
+      const response = await handler.handle(event)
+      expect(response.statusCode).toBe(500)
+      expect(JSON.parse(response.body).runs[0]).toMatchObject({ schedule: 'hourly', status: 'failed', error: 'LimitExceededException' })
+      const failed = (await scheduler.getSchedule('Orders', 'hourly'))!
+      expect(failed.lastError).toBe('LimitExceededException')
+      // The run stays due until a backup is requested
+      expect(failed.nextRunAt).toEqual(clock)
+
+      driver.sendCommand = sendCommand
+      expect((await handler.handle(event)).statusCode).toBe(200)
+      const recovered = (await scheduler.getSchedule('Orders', 'hourly'))!
+      expect(recovered.lastError).toBeUndefined()
+      expect(recovered.nextRunAt).toEqual(new Date(clock.getTime() + 3_600_000))
+    })
+
+    it('should not wait for scheduled backups to become available', async () => {
+      const { driver, scheduler, options } = await setup()
+      await scheduler.saveSchedule('Orders', { name: 'hourly', schedule: 'rate(1 hour)' })
+      clock = new Date(clock.getTime() + 3_600_000)
+      const sendCommand = driver.sendCommand!
+      driver.sendCommand = async (command, input) => {
+        const output = await sendCommand.call(driver, command, input)
+        if (command === 'DescribeBackup') {
+          const description = output.BackupDescription as { BackupDetails: Record<string, unknown> }
+          description.BackupDetails.BackupStatus = 'CREATING'
+        }
+        return output
+      }
+      const createBackup = spyOn(options.executor, 'createBackup')
+
+      const [run] = await scheduler.runDue(['Orders'])
+      expect(run).toMatchObject({ status: 'created', backup: { status: 'CREATING' } })
+      expect(createBackup).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('Local Backups', () => {
+  const schema: CreateTableInput = {
+    tableName: 'Orders',
+    keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+    attributeDefinitions: [
+      { attributeName: 'pk', attributeType: 'S' },
+      { attributeName: 'sk', attributeType: 'S' },
+      { attributeName: 'status', attributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+    globalSecondaryIndexes: [{
+      indexName: 'byStatus',
+      keySchema: [{ attributeName: 'status', keyType: 'HASH' }, { attributeName: 'pk', keyType: 'RANGE' }],
+      projection: { projectionType: 'KEYS_ONLY' },
+    }],
+  }
+  let directory: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'local-backup-'))
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  const orderItem = (i: number): Record<string, AttributeValue> => ({
+    pk: { S: `ORDER#${i}` },
+    sk: { S: 'ORDER' },
+    status: { S: i % 3 === 0 ? 'open' : 'paid' },
+    total: { N: String(i * 1.5) },
+    tags: { SS: ['a', `t${i}`] },
+    raw: { B: new Uint8Array([i, 255]) },
+    blobs: { BS: [new Uint8Array([1, i]), new Uint8Array([2])] },
+    meta: { M: { paid: { BOOL: i % 2 === 0 }, note: { NULL: true }, B: { L: [{ B: new Uint8Array([3, i]) }] } } },
+  })
+
+  async function createTable() {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    await driver.createTable(schema)
+    for (let i = 0; i < 30; i++) {
+      await driver.putItem({ tableName: 'Orders', item: orderItem(i) })
+    }
+    return driver
+  }
+
+  const byKey = (a: Record<string, AttributeValue>, b: Record<string, AttributeValue>) => a.pk.S!.localeCompare(b.pk.S!)
+
+  it('should snapshot a table to chunked files and restore it exactly', async () => {
+    const driver = await createTable()
+    const progress: string[] = []
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1, onProgress: p => progress.push(`${p.operation}:${p.status}`) })
+
+    const backup = await executor.createLocalBackup({ tableName: 'Orders', backupName: 'ci', directory, gzip: true, totalSegments: 3, chunkSize: 4 })
+    expect(backup.type).toBe('LOCAL')
+    expect(backup.itemCount).toBe(30)
+    expect(backup.arn).toStartWith('file://')
+    expect(await executor.describeLocalBackup(directory)).toEqual(backup)
+
+    const manifest = await verifyLocalBackup(directory)
+    expect(manifest.compression).toBe('gzip')
+    expect(manifest.table.keySchema).toEqual(schema.keySchema)
+    expect(manifest.chunks.every(chunk => chunk.itemCount <= 4 && chunk.file.endsWith('.jsonl.gz'))).toBe(true)
+    expect(new Set(manifest.chunks.map(chunk => chunk.segment)).size).toBe(3)
+    expect(readdirSync(directory).sort()).toEqual([...manifest.chunks.map(chunk => chunk.file), 'manifest.json'].sort())
+
+    const written: Array<Record<string, AttributeValue>> = []
+    const batchWriteItem = driver.batchWriteItem.bind(driver)
+    driver.batchWriteItem = async (input) => {
+      written.push(...(input.requestItems['Orders-restored'] ?? []).map(request => request.putRequest!.item))
+      return batchWriteItem(input)
+    }
+    const result = await executor.restoreFromLocalBackup({ directory, targetTableName: 'Orders-restored', concurrency: 2 })
+    expect(result.description.itemCount).toBe(30)
+    expect((await driver.describeTable('Orders-restored')).globalSecondaryIndexes?.map(index => index.indexName)).toEqual(['byStatus'])
+    expect((await driver.query({ tableName: 'Orders-restored', indexName: 'byStatus', keyConditionExpression: '#s = :s', expressionAttributeNames: { '#s': 'status' }, expressionAttributeValues: { ':s': { S: 'open' } } })).items).toHaveLength(10)
+    const restored = written.sort(byKey)
+    expect(restored).toEqual(Array.from({ length: 30 }, (_, i) => orderItem(i)).sort(byKey))
+    expect(restored[0].raw.B).toBeInstanceOf(Uint8Array)
+    expect(restored[0].blobs.BS![0]).toBeInstanceOf(Uint8Array)
+    expect(progress).toContain('backup:SCANNING')
+    expect(progress).toContain('restore:WRITING')
+  })
+
+  it('should restore into the backed up table name by default', async () => {
+    const driver = await createTable()
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1 })
+    await executor.createLocalBackup({ tableName: 'Orders', backupName: 'ci', directory, totalSegments: 1 })
+
+    await expect(executor.createLocalBackup({ tableName: 'Orders', backupName: 'again', directory })).rejects.toThrow('already holds a local backup')
+
+    await driver.deleteTable('Orders')
+    const result = await executor.restoreFromLocalBackup({ directory })
+    expect(result.tableName).toBe('Orders')
+    expect(result.description.itemCount).toBe(30)
+  })
+
+  it('should refuse damaged backups before creating the table', async () => {
+    const driver = await createTable()
+    const executor = createBackupExecutor(driver, { pollIntervalMs: 1 })
+    const backup = await executor.createLocalBackup({ tableName: 'Orders', backupName: 'ci', directory, totalSegments: 2 })
+    expect(backup.sizeBytes).toBeGreaterThan(0)
+
+    const [chunk] = (await verifyLocalBackup(directory)).chunks
+    appendFileSync(join(directory, chunk.file), '{"pk":{"S":"EXTRA"},"sk":{"S":"EXTRA"}}\n')
+
+    const error = await executor.restoreFromLocalBackup({ directory, targetTableName: 'Orders-copy' }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(LocalBackupIntegrityError)
+    expect((error as LocalBackupIntegrityError).file).toBe(chunk.file)
+    expect((await driver.listTables()).tableNames).not.toContain('Orders-copy')
+
+    rmSync(join(directory, 'manifest.json'))
+    expect(existsSync(join(directory, chunk.file))).toBe(true)
+    await expect(executor.describeLocalBackup(directory)).rejects.toThrow('No local backup found')
+  })
+
+  it('should recreate the table schema without read-only fields', () => {
+    const base = { ...schema, tableStatus: 'ACTIVE' as const, itemCount: 3, tableArn: 'arn:table/Orders' }
+    const onDemand = createTableInputFromDescription({
+      ...base,
+      billingModeSummary: { billingMode: 'PAY_PER_REQUEST' },
+      provisionedThroughput: { readCapacityUnits: 0, writeCapacityUnits: 0 },
+      globalSecondaryIndexes: schema.globalSecondaryIndexes?.map(index => ({ ...index, indexStatus: 'ACTIVE' as const, provisionedThroughput: { readCapacityUnits: 0, writeCapacityUnits: 0 } })),
+    }, 'Copy')
+    expect(onDemand.tableName).toBe('Copy')
+    expect(onDemand.billingMode).toBe('PAY_PER_REQUEST')
+    expect(onDemand.provisionedThroughput).toBeUndefined()
+    expect(onDemand.globalSecondaryIndexes).toEqual([{ ...schema.globalSecondaryIndexes![0], provisionedThroughput: undefined }])
+
+    const provisioned = createTableInputFromDescription({ ...base, provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 2 } }, 'Copy', {
+      provisionedThroughput: { readCapacityUnits: 10, writeCapacityUnits: 10 },
+    })
+    expect(provisioned.billingMode).toBe('PROVISIONED')
+    expect(provisioned.provisionedThroughput).toEqual({ readCapacityUnits: 10, writeCapacityUnits: 10 })
+  })
+})
@@ -254,7 +254,7 @@ describe('Pagination', () => {
       const result = await TestItem.query().paginate(10)
 
       expect(result).toHaveProperty('items')
-      expect(result).toHaveProperty('count')
+      expect(result).toHaveProperty('hasMore')
       expect(Array.isArray(result.items)).toBe(true)
     })
 
@@ -276,17 +276,17 @@ describe('Pagination', () => {
       const result = await TestItem.query().cursorPaginate(undefined, 10)
 
       expect(result).toHaveProperty('items')
-      expect(result).toHaveProperty('count')
+      expect(result).toHaveProperty('hasMore')
     })
 
     it('should accept cursor from previous page', async () => {
-      const _firstPage = await TestItem.query().cursorPaginate(undefined, 5)
-      // Simulate getting a cursor from the first page
-      const mockCursor = 'eyJwayI6IklURU0jNSIsInNrIjoiSVRFTSM1In0='
+      const firstPage = await TestItem.query().where('pk', 'ITEMS').cursorPaginate(undefined, 5)
+      expect(firstPage.nextCursor).toBeDefined()
 
-      const secondPage = await TestItem.query().cursorPaginate(mockCursor, 5)
+      const secondPage = await TestItem.query().where('pk', 'ITEMS').cursorPaginate(firstPage.nextCursor, 5)
 
       expect(secondPage).toHaveProperty('items')
+      expect(secondPage.currentPage).toBe(2)
     })
   })
 
@@ -448,21 +448,24 @@ describe('Bulk Update and Delete', () => {
 
   describe('bulk update', () => {
     it('should update multiple items', async () => {
-      const count = await TestItem.query()
+      const result = await TestItem.query()
         .where('pk', 'ITEM#1')
         .update({ name: 'Updated' } as unknown as Partial<TestItem>)
 
-      expect(typeof count).toBe('number')
+      expect(result.matched).toBe(2)
+      expect(result.succeeded).toHaveLength(2)
+      expect(_updateCalls).toBe(2)
     })
   })
 
   describe('bulk delete', () => {
     it('should delete multiple items', async () => {
-      const count = await TestItem.query()
+      const result = await TestItem.query()
         .where('pk', 'ITEM#1')
         .delete()
 
-      expect(typeof count).toBe('number')
+      expect(result.matched).toBe(2)
+      expect(result.succeeded).toEqual([{ pk: 'ITEM#1', sk: 'ITEM#1' }, { pk: 'ITEM#2', sk: 'ITEM#2' }])
     })
   })
 })
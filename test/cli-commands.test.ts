@@ -0,0 +1,152 @@
+import type { CAC } from 'cac'
+import type { DriverPlugin } from '../src/drivers/types'
+import { afterAll, beforeAll, describe, expect, it, spyOn } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { registerQueryCommands } from '../src/cli/commands/query'
+import { registerUtilityCommands } from '../src/cli/commands/utility'
+import { resetConfig, setConfig } from '../src/config'
+import { createMemoryDriver } from '../src/drivers/MemoryDriver'
+import { registerDriver } from '../src/drivers/registry'
+import { clearModelCache } from '../src/model-parser'
+
+const TABLE = 'CliTable'
+const IMPORT_TABLE = 'CliImports'
+
+type CommandAction = (...args: unknown[]) => Promise<void>
+
+/**
+ * Collect the actions the commands register, keyed by command name
+ */
+function collectActions(...registers: Array<(cli: CAC) => void>): Map<string, CommandAction> {
+  const actions = new Map<string, CommandAction>()
+  const cli = {
+    command: (definition: string) => {
+      const command = {
+        option: () => command,
+        action: (action: CommandAction) => {
+          actions.set(definition.split(' ')[0], action)
+          return command
+        },
+      }
+      return command
+    },
+  }
+  for (const register of registers) {
+    register(cli as unknown as CAC)
+  }
+  return actions
+}
+
+const actions = collectActions(registerQueryCommands, registerUtilityCommands)
+
+/**
+ * Run one command with parsed options and collect what it logged
+ */
+async function runCommand(name: string, table: string, options: Record<string, unknown>): Promise<string> {
+  const lines: string[] = []
+  const log = spyOn(console, 'log').mockImplementation((...values: unknown[]) => {
+    lines.push(values.join(' '))
+  })
+  try {
+    await actions.get(name)!(table, { driver: 'cli-memory', format: 'json', ...options })
+  }
+  finally {
+    log.mockRestore()
+  }
+  return lines.join('\n')
+}
+
+describe('CLI commands', () => {
+  let dir: string
+  let driver: DriverPlugin
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'cli-'))
+    writeFileSync(join(dir, 'User.ts'), `export default {
+  name: 'User',
+  table: 'users',
+  primaryKey: 'id',
+  attributes: {
+    name: { required: true, validation: { rule: 'string' } },
+  },
+}
+`)
+    setConfig({ queryBuilder: { modelsPath: dir } })
+    clearModelCache()
+
+    driver = createMemoryDriver()
+    registerDriver('cli-memory', () => driver)
+    for (const tableName of [TABLE, IMPORT_TABLE]) {
+      await driver.createTable({
+        tableName,
+        keySchema: [
+          { attributeName: 'pk', keyType: 'HASH' },
+          { attributeName: 'sk', keyType: 'RANGE' },
+        ],
+        attributeDefinitions: [
+          { attributeName: 'pk', attributeType: 'S' },
+          { attributeName: 'sk', attributeType: 'S' },
+        ],
+      })
+    }
+    // Items carry the model name in the entity type attribute
+    await driver.putItem({ tableName: TABLE, item: { pk: { S: 'USER#1' }, sk: { S: 'USER#1' }, _et: { S: 'User' }, id: { S: '1' }, name: { S: 'Ada' } } })
+    await driver.putItem({ tableName: TABLE, item: { pk: { S: 'POST#1' }, sk: { S: 'POST#1' }, _et: { S: 'Post' }, id: { S: '1' }, title: { S: 'Hello' } } })
+  })
+
+  afterAll(() => {
+    resetConfig()
+    clearModelCache()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  describe('scan', () => {
+    it('should filter on the model name when given the entity type', async () => {
+      const output = await runCommand('scan', TABLE, { entityType: 'USER' })
+
+      expect(JSON.parse(output)).toEqual([expect.objectContaining({ id: '1', name: 'Ada' })])
+    })
+
+    it('should filter on the model name when given the model name', async () => {
+      const output = await runCommand('scan', TABLE, { entityType: 'User' })
+
+      expect(JSON.parse(output)).toHaveLength(1)
+    })
+  })
+
+  describe('query', () => {
+    it('should return the rows of the entity type', async () => {
+      const output = await runCommand('query', TABLE, { pk: 'USER#1', entityType: 'USER' })
+
+      expect(JSON.parse(output)).toEqual([expect.objectContaining({ name: 'Ada' })])
+    })
+  })
+
+  describe('export', () => {
+    it('should export the items of the entity type', async () => {
+      const output = join(dir, 'users.jsonl')
+      await runCommand('export', TABLE, { format: 'jsonl', output, entityType: 'USER', segments: 1 })
+
+      const items = readFileSync(output, 'utf-8').trim().split('\n').map(line => JSON.parse(line))
+      expect(items).toEqual([expect.objectContaining({ _et: 'User', name: 'Ada' })])
+    })
+  })
+
+  describe('import', () => {
+    it('should reject items that fail the validation of their model', async () => {
+      const input = join(dir, 'import.jsonl')
+      writeFileSync(input, [
+        { pk: 'USER#2', sk: 'USER#2', _et: 'User', id: '2', name: 'Grace' },
+        { pk: 'USER#3', sk: 'USER#3', _et: 'User', id: '3' },
+      ].map(item => JSON.stringify(item)).join('\n'))
+
+      const output = await runCommand('import', IMPORT_TABLE, { input, format: 'jsonl', batchSize: 25, delimiter: ',' })
+
+      expect(output).toContain('Record 2: name:')
+      const { items } = await driver.scan({ tableName: IMPORT_TABLE })
+      expect(items.map(item => item.pk)).toEqual([{ S: 'USER#2' }])
+    })
+  })
+})
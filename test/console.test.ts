@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PassThrough } from 'node:stream'
+import { startConsole } from '../src/cli/console'
+
+/**
+ * Run statements through a console on the memory driver and collect what it printed
+ */
+async function runConsole(statements: string[], options: { historyFile: string, terminal?: boolean }): Promise<string> {
+  const input = new PassThrough()
+  const output = Object.assign(new PassThrough(), { isTTY: options.terminal ?? false, columns: 120 })
+  let printed = ''
+  output.on('data', (chunk) => {
+    printed += chunk.toString()
+  })
+
+  const finished = startConsole({ driver: 'memory', historyFile: options.historyFile, input, output })
+  for (const statement of [...statements, '.exit']) {
+    input.write(`${statement}\n`)
+    // Give each statement time to settle before the next one
+    await new Promise(resolve => setTimeout(resolve, 20))
+  }
+  await finished
+  // The REPL writes its history file asynchronously
+  await new Promise(resolve => setTimeout(resolve, 50))
+  return printed
+}
+
+describe('Console', () => {
+  it('should evaluate expressions, declarations and statements spanning lines', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'console-'))
+    try {
+      const printed = await runConsole([
+        '1 + 1',
+        'const answer = 40',
+        '[',
+        '  answer + 2,',
+        ']',
+        'missing.value',
+      ], { historyFile: join(dir, 'history') })
+
+      expect(printed).toContain('DynamoDB Tooling Console')
+      expect(printed).toContain('2\n')
+      expect(printed).toContain('[ 42 ]')
+      expect(printed).toContain('missing is not defined')
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should report the requests a statement sent', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'console-'))
+    try {
+      const printed = await runConsole([
+        'await driver.createTable({ tableName: \'Notes\', keySchema: [{ attributeName: \'pk\', keyType: \'HASH\' }], attributeDefinitions: [{ attributeName: \'pk\', attributeType: \'S\' }], billingMode: \'PAY_PER_REQUEST\' }); undefined',
+        'await driver.putItem({ tableName: \'Notes\', item: { pk: { S: \'n1\' } } }); undefined',
+        '(await driver.scan({ tableName: \'Notes\' })).count',
+      ], { historyFile: join(dir, 'history') })
+
+      expect(printed).toMatch(/putItem Notes \([\d.]+ CU\)/)
+      expect(printed).toMatch(/1\n\s+scan Notes \([\d.]+ CU\)/)
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should keep history in the history file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'console-'))
+    const historyFile = join(dir, 'nested', 'history')
+    try {
+      // Newest first, without duplicates
+      const history = (): string[] => readFileSync(historyFile, 'utf-8').split('\n').filter(line => line && line !== '.exit')
+
+      await runConsole(['1 + 1', '2 + 2', '1 + 1'], { historyFile, terminal: true })
+      expect(history()).toEqual(['1 + 1', '2 + 2'])
+
+      writeFileSync(historyFile, 'earlier()\n')
+      await runConsole(['3 + 3'], { historyFile, terminal: true })
+      expect(history()).toEqual(['3 + 3', 'earlier()'])
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
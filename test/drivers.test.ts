@@ -1,4 +1,9 @@
 import type { DriverConnectionOptions, DriverPlugin } from '../src/drivers'
+import type { DataMigrationClient } from '../src/migrations'
+import type { ResourceNotFoundError, TransactionCancelledError } from '../src/types/errors'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
 import {
   buildDriverFilterExpression,
@@ -7,7 +12,12 @@ import {
   buildDriverUpdateExpression,
   clearDriverRegistry,
   createActiveDriver,
+  createAuthorization,
+  createCanonicalRequest,
+  createCredentialProviderChain,
   createDynamoDBDriver,
+  CredentialsProviderError,
+  deriveSigningKey,
 
   driverMarshallItem,
   driverMarshallValue,
@@ -16,21 +26,47 @@ import {
   driverUnmarshallValue,
   DynamoDBDriver,
   escapeAttributeName,
+  fromEnv,
+  fromIni,
+  fromTokenFile,
   getActiveDriver,
   getDefaultDriverName,
   getDriver,
   getDriverFactory,
   getDriverRegistryStats,
   getRegisteredDrivers,
+  getRequestTableName,
   hasDriver,
   isReservedWord,
+  memoizeCredentialProvider,
   mergeExpressionAttributeNames,
   mergeExpressionAttributeValues,
+  parseIni,
+  parseWireError,
   registerDriver,
   setActiveDriver,
   setDefaultDriver,
+  sha256Hex,
+  signRequest,
+  translateDriverError,
+  translateWireError,
   unregisterDriver,
+  writeBatchWithRetry,
 } from '../src/drivers'
+import { backfillGSI } from '../src/migrations'
+import { createRateLimiter, createRetryHandler } from '../src/performance'
+import {
+  ConditionalCheckFailedError,
+  DynamoDBInternalError,
+  DynamoDBServiceError,
+  isConditionalCheckFailedError,
+  isProvisionedThroughputExceededError,
+  isResourceNotFoundError,
+  isRetryableError,
+  isTransactionCancelledError,
+  ProvisionedThroughputExceededError,
+  ServiceUnavailableError,
+} from '../src/types/errors'
 
 describe('Driver Registry', () => {
   beforeEach(() => {
@@ -287,6 +323,598 @@ describe('DynamoDBDriver', () => {
       expect(typeof driver.version).toBe('string')
     })
   })
+
+  describe('table metadata', () => {
+    it('should read table class, deletion protection, TTL and paged tags', async () => {
+      const server = Bun.serve({
+        port: 0,
+        fetch: async (request) => {
+          const body = await request.json() as Record<string, unknown>
+          switch (request.headers.get('x-amz-target')) {
+            case 'DynamoDB_20120810.DescribeTable':
+              return Response.json({ Table: {
+                TableName: 'Users',
+                TableStatus: 'ACTIVE',
+                TableArn: 'arn:aws:dynamodb:us-east-1:123456789012:table/Users',
+                TableClassSummary: { TableClass: 'STANDARD_INFREQUENT_ACCESS' },
+                DeletionProtectionEnabled: true,
+              } })
+            case 'DynamoDB_20120810.DescribeTimeToLive':
+              return Response.json({ TimeToLiveDescription: { AttributeName: 'expiresAt', TimeToLiveStatus: 'ENABLED' } })
+            default:
+              return Response.json(body.NextToken
+                ? { Tags: [{ Key: 'team', Value: 'data' }] }
+                : { Tags: [{ Key: 'env', Value: 'prod' }], NextToken: 'page-2' })
+          }
+        },
+      })
+
+      try {
+        const remote = createDynamoDBDriver()
+        await remote.connect({ endpoint: `http://127.0.0.1:${server.port}`, credentials: { accessKeyId: 'a', secretAccessKey: 'b' } })
+
+        const description = await remote.describeTable('Users')
+        expect(description.tableClass).toBe('STANDARD_INFREQUENT_ACCESS')
+        expect(description.deletionProtectionEnabled).toBe(true)
+        expect(await remote.describeTimeToLive!('Users')).toEqual({ attributeName: 'expiresAt', status: 'ENABLED' })
+        expect(await remote.listTagsOfResource!(description.tableArn!)).toEqual([
+          { key: 'env', value: 'prod' },
+          { key: 'team', value: 'data' },
+        ])
+      }
+      finally {
+        server.stop(true)
+      }
+    })
+  })
+})
+
+describe('Signature V4', () => {
+  // Vectors from the AWS Signature Version 4 test suite
+  const credentials = {
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  }
+  const amzDate = '20150830T123600Z'
+  const baseHeaders = {
+    'Host': 'example.amazonaws.com',
+    'X-Amz-Date': amzDate,
+  }
+
+  function sign(method: string, url: string, headers: Record<string, string> = baseHeaders, service = 'service') {
+    return createAuthorization(
+      { method, url: new URL(url), headers, payloadHash: sha256Hex('') },
+      credentials,
+      'us-east-1',
+      service,
+      amzDate,
+    )
+  }
+
+  it('should build the canonical request for get-vanilla', () => {
+    const { canonicalRequest, signedHeaders } = createCanonicalRequest({
+      method: 'GET',
+      url: new URL('https://example.amazonaws.com/'),
+      headers: baseHeaders,
+      payloadHash: sha256Hex(''),
+    })
+
+    expect(signedHeaders).toBe('host;x-amz-date')
+    expect(canonicalRequest).toBe([
+      'GET',
+      '/',
+      '',
+      'host:example.amazonaws.com',
+      'x-amz-date:20150830T123600Z',
+      '',
+      'host;x-amz-date',
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    ].join('\n'))
+  })
+
+  it('should build the string to sign for get-vanilla', () => {
+    const { stringToSign } = sign('GET', 'https://example.amazonaws.com/')
+    expect(stringToSign).toBe([
+      'AWS4-HMAC-SHA256',
+      '20150830T123600Z',
+      '20150830/us-east-1/service/aws4_request',
+      'bb579772317eb040ac9ed261061d46c1f17a8133879d6129b6e1c25292927e63',
+    ].join('\n'))
+  })
+
+  it('should sign get-vanilla', () => {
+    const { authorization } = sign('GET', 'https://example.amazonaws.com/')
+    expect(authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    )
+  })
+
+  it('should sign post-vanilla', () => {
+    expect(sign('POST', 'https://example.amazonaws.com/').signature)
+      .toBe('5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b')
+  })
+
+  it('should sort query parameters (get-vanilla-query-order-key-case)', () => {
+    expect(sign('GET', 'https://example.amazonaws.com/?Param2=value2&Param1=value1').signature)
+      .toBe('b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500')
+  })
+
+  it('should sign the IAM ListUsers example', () => {
+    const { signature } = sign('GET', 'https://iam.amazonaws.com/?Action=ListUsers&Version=2010-05-08', {
+      'Host': 'iam.amazonaws.com',
+      'X-Amz-Date': amzDate,
+      'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8',
+    }, 'iam')
+    expect(signature).toBe('5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7')
+  })
+
+  it('should derive the documented signing key', () => {
+    const key = deriveSigningKey(credentials.secretAccessKey, '20150830', 'us-east-1', 'iam')
+    expect(key.toString('hex')).toBe('c4afb1cc5771d871763a393e44b703571b55cc28424d1a5e86da6ed3c154a4b9')
+  })
+
+  it('should sign a fetch Request with session token and payload hash', async () => {
+    const request = new Request('https://dynamodb.us-east-1.amazonaws.com/', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-amz-json-1.0',
+        'X-Amz-Target': 'DynamoDB_20120810.ListTables',
+      },
+      body: '{}',
+    })
+
+    const signed = await signRequest(
+      request,
+      { ...credentials, sessionToken: 'session-token' },
+      'us-east-1',
+      'dynamodb',
+      { signingDate: new Date('2015-08-30T12:36:00Z'), includeContentSha256: true },
+    )
+
+    const authorization = signed.headers.get('authorization')!
+    expect(authorization).toStartWith('AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/dynamodb/aws4_request')
+    expect(authorization).toContain('SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-security-token;x-amz-target')
+    expect(signed.headers.get('x-amz-date')).toBe(amzDate)
+    expect(signed.headers.get('x-amz-security-token')).toBe('session-token')
+    expect(signed.headers.get('x-amz-content-sha256')).toBe(sha256Hex('{}'))
+    expect(await signed.text()).toBe('{}')
+  })
+})
+
+describe('Credential Provider Chain', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dbtooling-creds-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  function writeFiles(credentials: string, config: string = ''): { credentialsFile: string, configFile: string } {
+    const credentialsFile = path.join(dir, 'credentials')
+    const configFile = path.join(dir, 'config')
+    fs.writeFileSync(credentialsFile, credentials)
+    fs.writeFileSync(configFile, config)
+    return { credentialsFile, configFile }
+  }
+
+  it('should prefer explicit credentials', async () => {
+    const provider = createCredentialProviderChain({
+      credentials: { accessKeyId: 'EXPLICIT', secretAccessKey: 'secret' },
+      env: { AWS_ACCESS_KEY_ID: 'ENV', AWS_SECRET_ACCESS_KEY: 'secret' },
+    })
+    expect((await provider()).accessKeyId).toBe('EXPLICIT')
+  })
+
+  it('should read AWS_* environment variables', async () => {
+    const credentials = await fromEnv({
+      env: { AWS_ACCESS_KEY_ID: 'ENV', AWS_SECRET_ACCESS_KEY: 'secret', AWS_SESSION_TOKEN: 'token' },
+    })()
+    expect(credentials).toMatchObject({ accessKeyId: 'ENV', secretAccessKey: 'secret', sessionToken: 'token' })
+  })
+
+  it('should parse ini files with comments and profile sections', () => {
+    const sections = parseIni('# comment\n[default]\naws_access_key_id = A\n\n[profile dev]\nregion=eu-west-1 \n')
+    expect(sections.default.aws_access_key_id).toBe('A')
+    expect(sections['profile dev'].region).toBe('eu-west-1')
+  })
+
+  it('should fall back to the shared credentials file', async () => {
+    const files = writeFiles('[default]\naws_access_key_id = FILE\naws_secret_access_key = secret\n')
+    const provider = createCredentialProviderChain({ ...files, env: {} })
+    expect((await provider()).accessKeyId).toBe('FILE')
+  })
+
+  it('should resolve a named profile from the config file', async () => {
+    const files = writeFiles('', '[profile staging]\naws_access_key_id = STAGING\naws_secret_access_key = secret\n')
+    const credentials = await fromIni({ ...files, profile: 'staging', env: {} })()
+    expect(credentials.accessKeyId).toBe('STAGING')
+  })
+
+  it('should assume a role through source_profile', async () => {
+    const files = writeFiles(
+      '[base]\naws_access_key_id = BASE\naws_secret_access_key = secret\n',
+      '[profile admin]\nrole_arn = arn:aws:iam::123456789012:role/Admin\nsource_profile = base\nregion = eu-west-1\n',
+    )
+    const calls: Array<{ source: string, roleArn: string, region: string }> = []
+
+    const credentials = await fromIni({
+      ...files,
+      profile: 'admin',
+      env: {},
+      roleAssumer: async (source, params) => {
+        calls.push({ source: source.accessKeyId, roleArn: params.roleArn, region: params.region })
+        return { accessKeyId: 'ASSUMED', secretAccessKey: 'secret', sessionToken: 'token' }
+      },
+    })()
+
+    expect(credentials.accessKeyId).toBe('ASSUMED')
+    expect(calls).toEqual([{ source: 'BASE', roleArn: 'arn:aws:iam::123456789012:role/Admin', region: 'eu-west-1' }])
+  })
+
+  it('should detect circular source_profile references', async () => {
+    const files = writeFiles('', '[profile a]\nrole_arn = arn:a\nsource_profile = b\n[profile b]\nrole_arn = arn:b\nsource_profile = a\n')
+    const provider = fromIni({ ...files, profile: 'a', env: {}, roleAssumer: async () => ({ accessKeyId: 'X', secretAccessKey: 'Y' }) })
+    await expect(provider()).rejects.toThrow('Circular source_profile')
+  })
+
+  it('should run credential_process', async () => {
+    const output = JSON.stringify({ Version: 1, AccessKeyId: 'PROCESS', SecretAccessKey: 'secret', SessionToken: 'token' })
+    const files = writeFiles('', `[default]\ncredential_process = echo '${output}'\n`)
+    const credentials = await fromIni({ ...files, env: {} })()
+    expect(credentials).toMatchObject({ accessKeyId: 'PROCESS', sessionToken: 'token' })
+  })
+
+  it('should exchange a web identity token file', async () => {
+    const tokenFile = path.join(dir, 'token')
+    fs.writeFileSync(tokenFile, 'jwt-token\n')
+
+    const credentials = await fromTokenFile({
+      env: { AWS_WEB_IDENTITY_TOKEN_FILE: tokenFile, AWS_ROLE_ARN: 'arn:aws:iam::1:role/Pod' },
+      webIdentityRoleAssumer: async params => ({
+        accessKeyId: `WEB-${params.webIdentityToken}`,
+        secretAccessKey: 'secret',
+      }),
+    })()
+
+    expect(credentials.accessKeyId).toBe('WEB-jwt-token')
+  })
+
+  it('should report every provider that was tried', async () => {
+    const files = writeFiles('')
+    const provider = createCredentialProviderChain({ ...files, env: {} })
+    await expect(provider()).rejects.toBeInstanceOf(CredentialsProviderError)
+  })
+
+  it('should cache credentials and refresh them before expiration', async () => {
+    let calls = 0
+    const provider = memoizeCredentialProvider(async () => {
+      calls++
+      return {
+        accessKeyId: `KEY${calls}`,
+        secretAccessKey: 'secret',
+        expiration: new Date(Date.now() + (calls === 1 ? 60_000 : 3_600_000)),
+      }
+    }, { expirationMarginMs: 120_000 })
+
+    expect((await provider()).accessKeyId).toBe('KEY1')
+    expect((await provider()).accessKeyId).toBe('KEY2')
+    expect((await provider()).accessKeyId).toBe('KEY2')
+    expect(calls).toBe(2)
+  })
+
+  it('should share in-flight resolution between concurrent callers', async () => {
+    let calls = 0
+    const provider = memoizeCredentialProvider(async () => {
+      calls++
+      return { accessKeyId: 'KEY', secretAccessKey: 'secret' }
+    })
+
+    await Promise.all([provider(), provider(), provider()])
+    expect(calls).toBe(1)
+  })
+
+  it('should sign driver requests with credentials from a custom provider', async () => {
+    const driver = createDynamoDBDriver()
+    let resolved = 0
+    await driver.connect({
+      endpoint: 'http://127.0.0.1:1',
+      credentialProvider: async () => {
+        resolved++
+        return { accessKeyId: 'CUSTOM', secretAccessKey: 'secret' }
+      },
+    })
+
+    const health = await driver.healthCheck()
+    expect(health.healthy).toBe(false)
+    expect(resolved).toBe(1)
+  })
+})
+
+describe('Error Translation', () => {
+  it('should parse namespaced __type and message', () => {
+    const details = parseWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#ResourceNotFoundException',
+      message: 'Requested resource not found',
+    }))
+    expect(details.type).toBe('ResourceNotFoundException')
+    expect(details.message).toBe('Requested resource not found')
+
+    const capitalized = parseWireError(JSON.stringify({ __type: 'com.amazon.coral.service#UnrecognizedClientException', Message: 'Bad token' }))
+    expect(capitalized).toEqual({ type: 'UnrecognizedClientException', message: 'Bad token', cancellationReasons: undefined })
+
+    expect(parseWireError('<html>Bad Gateway</html>')).toEqual({ type: '', message: '<html>Bad Gateway</html>', cancellationReasons: undefined })
+  })
+
+  it('should find the single table a request targets', () => {
+    expect(getRequestTableName({ TableName: 'Users' })).toBe('Users')
+    expect(getRequestTableName({ RequestItems: { Users: [] } })).toBe('Users')
+    expect(getRequestTableName({ RequestItems: { Users: [], Orders: [] } })).toBeUndefined()
+    expect(getRequestTableName({
+      TransactItems: [{ Put: { TableName: 'Users' } }, { ConditionCheck: { TableName: 'Users' } }],
+    })).toBe('Users')
+  })
+
+  it('should translate wire errors into typed errors with context', () => {
+    const error = translateWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#ConditionalCheckFailedException',
+      message: 'The conditional request failed',
+    }), { operation: 'PutItem', tableName: 'Users', requestId: 'REQ1', statusCode: 400 })
+
+    expect(isConditionalCheckFailedError(error)).toBe(true)
+    expect(error.requestId).toBe('REQ1')
+    expect(error.tableName).toBe('Users')
+    expect(error.operation).toBe('PutItem')
+    expect(error.awsErrorCode).toBe('ConditionalCheckFailedException')
+    expect(error.retryable).toBe(false)
+
+    const throttled = translateWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#ProvisionedThroughputExceededException',
+      message: 'Rate exceeded',
+    }), { operation: 'Query', tableName: 'Users' })
+    expect(isProvisionedThroughputExceededError(throttled)).toBe(true)
+    expect(isRetryableError(throttled)).toBe(true)
+  })
+
+  it('should carry transaction cancellation reasons', () => {
+    const error = translateWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#TransactionCanceledException',
+      message: 'Transaction cancelled, please refer cancellation reasons for specific reasons [None, ConditionalCheckFailed]',
+      CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' }],
+    }), { operation: 'TransactWriteItems' })
+
+    expect(isTransactionCancelledError(error)).toBe(true)
+    expect((error as TransactionCancelledError).getConditionalCheckFailures()).toEqual([1])
+
+    // DynamoDB Local only lists the reasons in the message
+    const fromMessage = translateWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#TransactionCanceledException',
+      message: 'Transaction cancelled, please refer cancellation reasons for specific reasons [TransactionConflict, None]',
+    }), { operation: 'TransactWriteItems' }) as TransactionCancelledError
+    expect(fromMessage.cancellationReasons.map(r => r.Code)).toEqual(['TransactionConflict', 'None'])
+    expect(fromMessage.retryable).toBe(true)
+  })
+
+  it('should map unclassified exceptions and server failures', () => {
+    const denied = translateWireError(JSON.stringify({
+      __type: 'com.amazon.coral.service#AccessDeniedException',
+      Message: 'Not authorized',
+    }), { operation: 'GetItem', statusCode: 400 })
+    expect(denied).toBeInstanceOf(DynamoDBServiceError)
+    expect(denied.name).toBe('AccessDeniedException')
+    expect(denied.retryable).toBe(false)
+
+    const conflict = translateWireError(JSON.stringify({
+      __type: 'com.amazonaws.dynamodb.v20120810#TransactionConflictException',
+      message: 'Conflict',
+    }), { operation: 'PutItem' })
+    expect(conflict.retryable).toBe(true)
+
+    expect(translateWireError('', { operation: 'GetItem', statusCode: 500 })).toBeInstanceOf(DynamoDBInternalError)
+    expect(translateWireError('', { operation: 'GetItem', statusCode: 503 })).toBeInstanceOf(ServiceUnavailableError)
+  })
+
+  it('should attach context to errors raised inside drivers', () => {
+    const raw = Object.assign(new Error('Requested resource not found'), { name: 'ResourceNotFoundException', code: 'ResourceNotFoundException' })
+    const translated = translateDriverError(raw, { operation: 'DescribeTable', tableName: 'Users' })
+    expect(isResourceNotFoundError(translated)).toBe(true)
+    expect((translated as ResourceNotFoundError).resourceName).toBe('Users')
+
+    const plain = new Error('socket hang up')
+    expect(translateDriverError(plain, { operation: 'GetItem' })).toBe(plain)
+  })
+
+  it('should throw typed errors from DynamoDBDriver requests', async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => new Response(JSON.stringify({
+        __type: 'com.amazonaws.dynamodb.v20120810#ResourceNotFoundException',
+        message: 'Requested resource not found',
+      }), { status: 400, headers: { 'x-amzn-requestid': 'REQ42' } }),
+    })
+
+    try {
+      const driver = createDynamoDBDriver()
+      await driver.connect({ endpoint: `http://127.0.0.1:${server.port}`, credentials: { accessKeyId: 'a', secretAccessKey: 'b' } })
+
+      const error = await driver.describeTable('Users').catch((e: unknown) => e)
+      expect(isResourceNotFoundError(error)).toBe(true)
+      expect((error as ResourceNotFoundError).requestId).toBe('REQ42')
+      expect((error as ResourceNotFoundError).operation).toBe('DescribeTable')
+      expect((error as ResourceNotFoundError).tableName).toBe('Users')
+
+      // Missing tables count as deleted
+      await driver.waitForTableDeleted('Users', { checkInterval: 1 })
+    }
+    finally {
+      server.stop(true)
+    }
+  })
+
+  it('should let RetryHandler retry by error class', async () => {
+    const handler = createRetryHandler({ maxRetries: 2, baseDelayMs: 1, jitterFactor: 0 })
+
+    let calls = 0
+    const result = await handler.execute(async () => {
+      if (calls++ === 0) {
+        throw translateWireError(JSON.stringify({ __type: 'com.amazonaws.dynamodb.v20120810#ThrottlingException', message: 'Rate exceeded' }), { operation: 'Query' })
+      }
+      return 'ok'
+    })
+    expect(result).toBe('ok')
+    expect(calls).toBe(2)
+
+    calls = 0
+    await expect(handler.execute(async () => {
+      calls++
+      throw translateWireError(JSON.stringify({ __type: 'com.amazonaws.dynamodb.v20120810#ConditionalCheckFailedException', message: 'The conditional request failed' }), { operation: 'PutItem' })
+    })).rejects.toBeInstanceOf(ConditionalCheckFailedError)
+    expect(calls).toBe(1)
+  })
+})
+
+describe('Adaptive Rate Limiting', () => {
+  it('should grow rates additively and cut them on throttles', () => {
+    const limiter = createRateLimiter({ limits: { Users: { write: 100 } }, additiveIncrease: 10, increaseIntervalMs: 0 })
+    const users = { tableName: 'Users' }
+
+    limiter.record(users, 'write', 1, 1)
+    expect(limiter.getRate(users, 'write')).toBe(110)
+
+    limiter.throttled(users, 'write')
+    expect(limiter.getRate(users, 'write')).toBeCloseTo(77)
+    expect(limiter.getRate(users, 'read')).toBeUndefined()
+  })
+
+  it('should wait for tokens once a bucket is in debt', async () => {
+    const limiter = createRateLimiter({ limits: { Users: { read: 100 } } })
+    const users = { tableName: 'Users' }
+
+    const start = Date.now()
+    await limiter.acquire(users, 'read', 100)
+    await limiter.acquire(users, 'read', 10)
+    expect(Date.now() - start).toBeLessThan(50)
+
+    // The second request overdrew the bucket by 10 units, 100ms at 100 units/s
+    await limiter.acquire(users, 'read', 1)
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90)
+  })
+
+  it('should learn table and GSI usage from ConsumedCapacity', async () => {
+    const limiter = createRateLimiter({ limits: { 'Users': { write: 50 }, 'Users/GSI1': { write: 50 } } })
+
+    limiter.recordConsumedCapacity('write', [{
+      tableName: 'Users',
+      capacityUnits: 30,
+      table: { capacityUnits: 10 },
+      globalSecondaryIndexes: { GSI1: { capacityUnits: 20 } },
+    }], { Users: 1 })
+
+    const stats = Object.fromEntries(limiter.getStats().map(bucket => [bucket.indexName ?? bucket.tableName, bucket]))
+    expect(stats.Users.consumedUnits).toBe(10)
+    expect(stats.GSI1.consumedUnits).toBe(20)
+    expect(stats.Users.tokens).toBeCloseTo(41, 0)
+    expect(stats.GSI1.tokens).toBeCloseTo(30, 0)
+
+    // Writes to the table wait on its throttled GSI
+    limiter.throttled({ tableName: 'Users', indexName: 'GSI1' }, 'write')
+    limiter.recordConsumedCapacity('write', { tableName: 'Users', globalSecondaryIndexes: { GSI1: { capacityUnits: 36 } }, table: { capacityUnits: 0 } })
+    const start = Date.now()
+    await limiter.acquire({ tableName: 'Users' }, 'write')
+    expect(Date.now() - start).toBeGreaterThanOrEqual(50)
+  })
+
+  it('should start limiting an unthrottled table from its measured rate', async () => {
+    const limiter = createRateLimiter()
+    const orders = { tableName: 'Orders' }
+
+    await limiter.schedule(orders, 'write', 25, async () => 'ok')
+    await limiter.schedule(orders, 'write', 25, async () => 'ok')
+    expect(limiter.getRate(orders, 'write')).toBeUndefined()
+
+    await expect(limiter.schedule(orders, 'write', 25, async () => {
+      throw new ProvisionedThroughputExceededError('Orders')
+    })).rejects.toBeInstanceOf(ProvisionedThroughputExceededError)
+    expect(limiter.getRate(orders, 'write')).toBeCloseTo(35)
+    expect(limiter.getStats()[0].throttles).toBe(1)
+  })
+
+  it('should pace DynamoDBDriver requests in adaptive retry mode', async () => {
+    const requests: Array<Record<string, unknown>> = []
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (request) => {
+        const body = await request.json() as Record<string, unknown>
+        requests.push(body)
+        if (request.headers.get('x-amz-target') === 'DynamoDB_20120810.Query') {
+          return new Response(JSON.stringify({
+            __type: 'com.amazonaws.dynamodb.v20120810#ProvisionedThroughputExceededException',
+            message: 'Rate exceeded',
+          }), { status: 400 })
+        }
+        return new Response(JSON.stringify({
+          ConsumedCapacity: { TableName: 'Users', CapacityUnits: 3, Table: { CapacityUnits: 1 }, GlobalSecondaryIndexes: { GSI1: { CapacityUnits: 2 } } },
+        }))
+      },
+    })
+
+    try {
+      const rateLimiter = createRateLimiter()
+      const driver = createDynamoDBDriver()
+      await driver.connect({ endpoint: `http://127.0.0.1:${server.port}`, credentials: { accessKeyId: 'a', secretAccessKey: 'b' }, rateLimiter })
+
+      const result = await driver.putItem({ tableName: 'Users', item: { pk: { S: 'USER#1' }, sk: { S: 'USER#1' } } })
+      expect(requests[0].ReturnConsumedCapacity).toBe('INDEXES')
+      expect(result.consumedCapacity).toEqual(expect.objectContaining({
+        tableName: 'Users',
+        capacityUnits: 3,
+        table: expect.objectContaining({ capacityUnits: 1 }),
+        globalSecondaryIndexes: { GSI1: expect.objectContaining({ capacityUnits: 2 }) },
+      }))
+      expect(rateLimiter.getStats().map(bucket => [bucket.indexName ?? bucket.tableName, bucket.consumedUnits])).toEqual([['Users', 1], ['GSI1', 2]])
+
+      await expect(driver.query({ tableName: 'Users', indexName: 'GSI1', keyConditionExpression: 'gsi1pk = :pk' })).rejects.toBeInstanceOf(ProvisionedThroughputExceededError)
+      expect(rateLimiter.getRate({ tableName: 'Users', indexName: 'GSI1' }, 'read')).toBeDefined()
+      expect(rateLimiter.getRate({ tableName: 'Users' }, 'read')).toBeUndefined()
+
+      const standard = createDynamoDBDriver({ endpoint: `http://127.0.0.1:${server.port}`, credentials: { accessKeyId: 'a', secretAccessKey: 'b' } })
+      await standard.putItem({ tableName: 'Users', item: { pk: { S: 'USER#1' }, sk: { S: 'USER#1' } } })
+      expect(requests[2].ReturnConsumedCapacity).toBeUndefined()
+
+      await driver.putItem({ tableName: 'Users', item: { pk: { S: 'USER#2' }, sk: { S: 'USER#2' } }, returnConsumedCapacity: 'TOTAL' })
+      expect(requests[3].ReturnConsumedCapacity).toBe('TOTAL')
+    }
+    finally {
+      server.stop(true)
+    }
+  })
+
+  it('should pace GSI backfills and back off on unprocessed writes', async () => {
+    const items = Array.from({ length: 30 }, (_, i) => ({ pk: `USER#${i}`, sk: `USER#${i}`, email: `u${i}@example.com` }))
+    let batches = 0
+    const client: DataMigrationClient = {
+      scan: async () => ({ items }),
+      batchWrite: async (_tableName, writes) => ({ unprocessedItems: batches++ === 0 ? [writes[0].item] : [] }),
+      updateItem: async () => {},
+    }
+
+    const rateLimiter = createRateLimiter()
+    const result = await backfillGSI(client, 'Users', {
+      indexName: 'GSI1',
+      pkAttribute: 'gsi1pk',
+      computePk: item => `EMAIL#${item.email}`,
+    }, { rateLimiter })
+
+    expect(result.progress.scanned).toBe(30)
+    const stats = Object.fromEntries(rateLimiter.getStats().map(bucket => [`${bucket.kind}:${bucket.indexName ?? bucket.tableName}`, bucket]))
+    expect(stats['read:Users'].consumedUnits).toBe(15)
+    expect(stats['write:Users'].consumedUnits).toBe(29)
+    expect(stats['write:GSI1'].consumedUnits).toBe(29)
+    expect(stats['write:Users'].throttles).toBe(1)
+    expect(rateLimiter.getRate({ tableName: 'Users' }, 'write')).toBeDefined()
+  })
 })
 
 describe('Driver Utilities', () => {
@@ -605,4 +1233,39 @@ describe('Driver Utilities', () => {
       })
     })
   })
+
+  describe('writeBatchWithRetry', () => {
+    const requests = [{ putRequest: { item: { pk: { S: 'a' } } } }, { putRequest: { item: { pk: { S: 'b' } } } }]
+
+    it('should retry unprocessed requests until they are written', async () => {
+      const sent: number[] = []
+      const driver = {
+        batchWriteItem: async (input: Parameters<DriverPlugin['batchWriteItem']>[0]) => {
+          const pending = input.requestItems.Items
+          sent.push(pending.length)
+          return { unprocessedItems: sent.length === 1 ? { Items: pending.slice(1) } : {} }
+        },
+      } as unknown as DriverPlugin
+      const retries: number[] = []
+
+      await writeBatchWithRetry(driver, 'Items', requests, { retryDelayMs: 1, onRetry: attempt => retries.push(attempt) })
+
+      expect(sent).toEqual([2, 1])
+      expect(retries).toEqual([0])
+    })
+
+    it('should throw when requests are still unprocessed after the last retry', async () => {
+      let calls = 0
+      const driver = {
+        batchWriteItem: async (input: Parameters<DriverPlugin['batchWriteItem']>[0]) => {
+          calls++
+          return { unprocessedItems: input.requestItems }
+        },
+      } as unknown as DriverPlugin
+
+      const write = writeBatchWithRetry(driver, 'Items', requests, { maxRetries: 2, retryDelayMs: 1 })
+      await expect(write).rejects.toThrow('2 items were still unprocessed after 2 retries')
+      expect(calls).toBe(3)
+    })
+  })
 })
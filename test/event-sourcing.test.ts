@@ -1,10 +1,29 @@
-import type { DomainEvent } from '../src'
+import type { DomainEvent, LambdaContext, Projection, ReadAllOptions, Saga, SagaManagerOptions, SagaMessage } from '../src'
 import { describe, expect, it } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import {
   AggregateRoot,
+  createEventLog,
+  createEventSourcedRepository,
   createEventStore,
+  createProjectionRunner,
+  createSagaManager,
+  createSQSHandler,
+  createStreamProcessor,
+  createUpcasterRegistry,
+  createValidator,
+  discoverProjections,
   EventStore,
+  EventStoreConcurrencyError,
+  EventUpcastError,
+  migrateEvents,
+  ProjectionError,
+  rules,
+  StreamProcessor,
 } from '../src'
+import { createMemoryDriver } from '../src/drivers/MemoryDriver'
 
 describe('EventStore', () => {
   describe('creation', () => {
@@ -783,3 +802,762 @@ describe('edge cases', () => {
     expect(parsed.nullValue).toBeNull()
   })
 })
+
+describe('EventSourcedRepository', () => {
+  class BankAccount extends AggregateRoot<{ balance: number }> {
+    constructor(id: string) {
+      super(id, 'Account', { balance: 0 })
+    }
+
+    deposit(amount: number): void {
+      this.raiseEvent('Deposited', { amount })
+    }
+
+    protected apply(event: DomainEvent): void {
+      this.state = { balance: this.state.balance + (event.data as { amount: number }).amount }
+    }
+  }
+
+  async function setup(options: { snapshotFrequency?: number, pageSize?: number } = {}) {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    for (const tableName of ['Events', 'Events-snapshots']) {
+      await driver.createTable({
+        tableName,
+        keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+        attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+        billingMode: 'PAY_PER_REQUEST',
+      })
+    }
+    const store = createEventStore({ tableName: 'Events', snapshotFrequency: options.snapshotFrequency ?? 100 })
+    const repository = createEventSourcedRepository(driver, { store, create: id => new BankAccount(id), pageSize: options.pageSize })
+    return { driver, store, repository }
+  }
+
+  it('should commit uncommitted events and load them back', async () => {
+    const { store, repository } = await setup()
+    const dispatched: string[] = []
+    store.on('Deposited', event => void dispatched.push(`${event.aggregateId}@${event.version}`))
+
+    expect(await repository.load('acc-1')).toBeNull()
+
+    const account = repository.create('acc-1')
+    account.deposit(100)
+    account.deposit(50)
+    const committed = await repository.save(account)
+    expect(committed.map(event => event.version)).toEqual([1, 2])
+    expect(committed.every(event => event.eventId && event.aggregateType === 'Account')).toBe(true)
+    expect(account.getUncommittedEvents()).toEqual([])
+    expect(dispatched).toEqual(['acc-1@1', 'acc-1@2'])
+    expect(await repository.save(account)).toEqual([])
+
+    const loaded = (await repository.load('acc-1'))!
+    expect(loaded.version).toBe(2)
+    expect(loaded.getState()).toEqual({ balance: 150 })
+  })
+
+  it('should page through long streams', async () => {
+    const { repository } = await setup({ pageSize: 2 })
+    const account = repository.create('acc-1')
+    for (let i = 1; i <= 7; i++) {
+      account.deposit(i)
+    }
+    await repository.save(account)
+
+    const loaded = (await repository.load('acc-1'))!
+    expect(loaded.version).toBe(7)
+    expect(loaded.getState()).toEqual({ balance: 28 })
+    expect((await repository.readEvents('acc-1', 5)).map(event => event.version)).toEqual([5, 6, 7])
+  })
+
+  it('should snapshot when due and load from the latest snapshot', async () => {
+    const { driver, repository } = await setup({ snapshotFrequency: 3 })
+    const account = repository.create('acc-1')
+    account.deposit(10)
+    account.deposit(20)
+    await repository.save(account)
+    expect((await driver.scan({ tableName: 'Events-snapshots' })).items).toHaveLength(0)
+
+    account.deposit(30)
+    account.deposit(40)
+    await repository.save(account)
+    const [snapshot] = (await driver.scan({ tableName: 'Events-snapshots' })).items
+    expect(snapshot.version).toEqual({ N: '4' })
+
+    // Events covered by the snapshot are not read again
+    for (let version = 1; version <= 4; version++) {
+      await driver.deleteItem({ tableName: 'Events', key: { pk: { S: 'AGG#Account#acc-1' }, sk: { S: `EVENT#${String(version).padStart(10, '0')}` } } })
+    }
+    account.deposit(5)
+    await repository.save(account)
+
+    const loaded = (await repository.load('acc-1'))!
+    expect(loaded.version).toBe(5)
+    expect(loaded.getState()).toEqual({ balance: 105 })
+  })
+
+  it('should raise a concurrency error when another writer appended first', async () => {
+    const { driver, repository } = await setup()
+    const account = repository.create('acc-1')
+    account.deposit(100)
+    await repository.save(account)
+
+    const first = (await repository.load('acc-1'))!
+    const second = (await repository.load('acc-1'))!
+    first.deposit(1)
+    await repository.save(first)
+    second.deposit(2)
+    second.deposit(3)
+
+    const error = await repository.save(second).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(EventStoreConcurrencyError)
+    expect(error).toMatchObject({ aggregateId: 'acc-1', expectedVersion: 1, actualVersion: 2 })
+    expect(second.getUncommittedEvents()).toHaveLength(2)
+    expect((await driver.scan({ tableName: 'Events' })).items).toHaveLength(2)
+  })
+})
+
+describe('Projections', () => {
+  class BankAccount extends AggregateRoot<{ balance: number }> {
+    constructor(id: string) {
+      super(id, 'Account', { balance: 0 })
+    }
+
+    deposit(amount: number): void {
+      this.raiseEvent('Deposited', { amount })
+    }
+
+    withdraw(amount: number): void {
+      this.raiseEvent('Withdrawn', { amount })
+    }
+
+    protected apply(event: DomainEvent): void {
+      const { amount } = event.data as { amount: number }
+      this.state = { balance: this.state.balance + (event.eventType === 'Deposited' ? amount : -amount) }
+    }
+  }
+
+  const balances: Projection = {
+    name: 'balances',
+    eventTypes: ['Deposited', 'Withdrawn'],
+    async handle(event, ctx) {
+      const key = { pk: `BALANCE#${event.aggregateId}`, sk: 'CURRENT' }
+      const current = await ctx.get<{ balance: number }>(key)
+      const { amount } = event.data as { amount: number }
+      ctx.put(key, { balance: (current?.balance ?? 0) + (event.eventType === 'Deposited' ? amount : -amount) })
+    },
+  }
+
+  async function setup(projections: Projection[] = [balances]) {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    for (const tableName of ['Events', 'Events-snapshots', 'Events-read-models']) {
+      await driver.createTable({
+        tableName,
+        keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+        attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+        billingMode: 'PAY_PER_REQUEST',
+      })
+    }
+    const store = createEventStore({ tableName: 'Events' })
+    const repository = createEventSourcedRepository(driver, { store, create: id => new BankAccount(id) })
+    const runner = createProjectionRunner(driver, { store, projections, pageSize: 2 })
+    const balance = async (id: string) => {
+      const item = await driver.getItem({ tableName: 'Events-read-models', key: { pk: { S: `BALANCE#${id}` }, sk: { S: 'CURRENT' } } })
+      return item ? Number((item.balance as { N: string }).N) : undefined
+    }
+    return { driver, repository, runner, balance }
+  }
+
+  it('should catch up from the checkpoint', async () => {
+    const { driver, repository, runner, balance } = await setup()
+    const scanned: Array<string | undefined> = []
+    const scan = driver.scan.bind(driver)
+    driver.scan = (input) => {
+      if (input.tableName === 'Events') {
+        scanned.push((input.expressionAttributeValues?.[':from'] as { S: string } | undefined)?.S)
+      }
+      return scan(input)
+    }
+    const account = repository.create('acc-1')
+    account.deposit(100)
+    account.withdraw(30)
+    account.deposit(5)
+    await repository.save(account)
+
+    const [first] = await runner.catchUp()
+    expect(first).toMatchObject({ projection: 'balances', applied: 3, skipped: 0 })
+    expect(await balance('acc-1')).toBe(75)
+    expect(await runner.getCheckpoint('balances')).toMatchObject({ position: first.position, eventCount: 3, status: 'ACTIVE' })
+
+    const [second] = await runner.catchUp('balances')
+    expect(second).toMatchObject({ applied: 0, skipped: 0, position: first.position })
+    expect(scanned).toEqual([undefined, first.position!.split('#')[0]])
+
+    account.withdraw(25)
+    await repository.save(account)
+    expect((await runner.catchUp('balances'))[0].applied).toBe(1)
+    expect(await balance('acc-1')).toBe(50)
+    expect((await runner.getCheckpoint('balances'))!.eventCount).toBe(4)
+  })
+
+  it('should apply stream inserts once', async () => {
+    const { driver, repository, runner, balance } = await setup()
+    const processor = runner.attach(createStreamProcessor({ errorMode: 'throw' }))
+    const account = repository.create('acc-1')
+    account.deposit(100)
+    account.deposit(20)
+    await repository.save(account)
+
+    const items = (await driver.scan({ tableName: 'Events' })).items
+    const lambdaEvent = {
+      Records: items.map((item, i) => ({
+        eventID: String(i),
+        eventName: 'INSERT',
+        eventSourceARN: 'arn:aws:dynamodb:us-east-1:123456789012:table/Events/stream/1',
+        dynamodb: { Keys: { pk: item.pk, sk: item.sk } as Record<string, { S?: string }>, NewImage: item as Record<string, unknown>, SequenceNumber: String(i) },
+      })),
+    }
+    await processor.processEvent(StreamProcessor.parseLambdaEvent(lambdaEvent))
+    await processor.processEvent(StreamProcessor.parseLambdaEvent(lambdaEvent))
+    expect(await balance('acc-1')).toBe(120)
+
+    // Catch-up sees the events the stream already applied
+    const [result] = await runner.catchUp()
+    expect(result).toMatchObject({ applied: 0, skipped: 2 })
+    expect(await balance('acc-1')).toBe(120)
+  })
+
+  it('should rebuild a broken read model from the beginning', async () => {
+    const { driver, repository, runner, balance } = await setup()
+    for (const id of ['acc-1', 'acc-2']) {
+      const account = repository.create(id)
+      account.deposit(10)
+      account.deposit(id === 'acc-1' ? 1 : 2)
+      await repository.save(account)
+    }
+    await runner.catchUp()
+
+    await driver.putItem({ tableName: 'Events-read-models', item: { pk: { S: 'BALANCE#acc-1' }, sk: { S: 'CURRENT' }, balance: { N: '-999' }, _projection: { S: 'balances' } } })
+    expect(await balance('acc-1')).toBe(-999)
+
+    const result = await runner.rebuild('balances')
+    expect(result).toMatchObject({ applied: 4, skipped: 0 })
+    expect(await balance('acc-1')).toBe(11)
+    expect(await balance('acc-2')).toBe(12)
+    expect(await runner.getCheckpoint('balances')).toMatchObject({ eventCount: 4, status: 'ACTIVE' })
+    await expect(runner.rebuild('missing')).rejects.toThrow('Unknown projection missing')
+  })
+
+  it('should refuse to order more scanned events in memory than allowed', async () => {
+    const { driver, repository, balance } = await setup()
+    const account = repository.create('acc-1')
+    account.deposit(10)
+    account.deposit(20)
+    account.deposit(30)
+    await repository.save(account)
+
+    const store = createEventStore({ tableName: 'Events' })
+    const runner = createProjectionRunner(driver, { store, projections: [balances], maxScanEvents: 2 })
+    await expect(runner.rebuild('balances')).rejects.toThrow('More than 2 events to order in memory from Events')
+    expect(await balance('acc-1')).toBeUndefined()
+  })
+
+  it('should stop at a failing event and resume there', async () => {
+    let fail = true
+    const flaky: Projection = {
+      name: 'flaky',
+      handle(event, ctx) {
+        if (event.version === 2 && fail) {
+          throw new Error('read model unavailable')
+        }
+        ctx.put({ pk: 'SEEN', sk: `${event.aggregateId}#${event.version}` }, { eventType: event.eventType })
+      },
+    }
+    const { driver, repository, runner } = await setup([flaky])
+    const account = repository.create('acc-1')
+    account.deposit(1)
+    account.deposit(2)
+    account.deposit(3)
+    await repository.save(account)
+
+    const error = await runner.catchUp().catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(ProjectionError)
+    expect(error).toMatchObject({ projection: 'flaky', message: expect.stringContaining('read model unavailable') })
+    expect((await runner.getCheckpoint('flaky'))!.eventCount).toBe(1)
+
+    fail = false
+    expect((await runner.catchUp())[0]).toMatchObject({ applied: 2, skipped: 0 })
+    const seen = await driver.query({ tableName: 'Events-read-models', keyConditionExpression: 'pk = :pk', expressionAttributeValues: { ':pk': { S: 'SEEN' } } })
+    expect(seen.items.map(item => (item.sk as { S: string }).S)).toEqual(['acc-1#1', 'acc-1#2', 'acc-1#3'])
+  })
+
+  it('should report projection modules that fail to load', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'projections-'))
+    try {
+      writeFileSync(join(dir, 'audit.ts'), 'export const audit = { name: \'audit\', handle: () => {} }\n')
+      writeFileSync(join(dir, 'broken.ts'), 'throw new Error(\'syntax is fine, loading is not\')\n')
+
+      const failures: string[] = []
+      const projections = await discoverProjections(dir, (file, error) => failures.push(`${file}: ${(error as Error).message}`))
+      expect(projections.map(projection => projection.name)).toEqual(['audit'])
+      expect(failures).toEqual(['broken.ts: syntax is fine, loading is not'])
+
+      await expect(discoverProjections(dir)).rejects.toThrow('loading is not')
+      expect(await discoverProjections(join(dir, 'missing'))).toEqual([])
+    }
+    finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('Global event log', () => {
+  class Counter extends AggregateRoot<{ count: number }> {
+    constructor(id: string) {
+      super(id, 'Counter', { count: 0 })
+    }
+
+    increment(): void {
+      this.raiseEvent('Incremented', {})
+    }
+
+    reset(): void {
+      this.raiseEvent('Reset', {})
+    }
+
+    protected apply(event: DomainEvent): void {
+      this.state = { count: event.eventType === 'Reset' ? 0 : this.state.count + 1 }
+    }
+  }
+
+  async function setup(partitionStrategy: 'time' | 'hybrid' = 'time') {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    for (const tableName of ['Events', 'Events-snapshots', 'Events-read-models']) {
+      await driver.createTable({
+        tableName,
+        keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+        attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+        billingMode: 'PAY_PER_REQUEST',
+      })
+    }
+    const store = createEventStore({ tableName: 'Events', partitionStrategy, logShards: 3 })
+    const repository = createEventSourcedRepository(driver, { store, create: id => new Counter(id) })
+    const log = createEventLog(driver, { store, pageSize: 2 })
+    const readAll = async (options: ReadAllOptions = {}) => {
+      const events: DomainEvent[] = []
+      const result = await log.readAll(options, page => void events.push(...page))
+      return { events, result }
+    }
+    return { driver, store, repository, log, readAll }
+  }
+
+  it('should describe log buckets, shards and entries', () => {
+    const hourly = createEventStore({ tableName: 'Events', partitionStrategy: 'time' })
+    const daily = createEventStore({ tableName: 'Events', partitionStrategy: 'hybrid', logBucket: 'day', logShards: 2 })
+    const date = new Date('2024-03-05T14:30:00Z')
+    expect(createEventStore({ tableName: 'Events' }).keepsGlobalLog()).toBe(false)
+    expect(hourly.getLogBucket(date)).toBe('2024-03-05T14')
+    expect(daily.getLogBucket(date)).toBe('2024-03-05')
+    expect(hourly.getLogPartitions('2024-03-05T14')).toEqual(['LOG#2024-03-05T14'])
+    expect(daily.getLogPartitions('2024-03-05')).toEqual(['LOG#2024-03-05#0', 'LOG#2024-03-05#1'])
+
+    const { Item } = hourly.appendEvent({ eventType: 'Created', aggregateId: '1', aggregateType: 'User', version: 1, data: {} }, 42).input
+    expect(Item.globalPosition).toEqual({ N: '42' })
+    expect(hourly.parseEvents([Item])[0].globalPosition).toBe(42)
+    const entry = hourly.appendLogEntryCommand(Item, '2024-03-05T14').input.Item
+    expect(entry.pk).toEqual({ S: 'LOG#2024-03-05T14' })
+    expect(entry.sk).toEqual({ S: 'POS#0000000000000042' })
+    expect(entry._et).toEqual({ S: 'EventLogEntry' })
+    expect(() => createEventLog(createMemoryDriver(), { store: createEventStore({ tableName: 'Events' }) })).toThrow('keeps no global log')
+  })
+
+  it('should read every aggregate in global position order', async () => {
+    const { repository, readAll } = await setup()
+    const a = repository.create('a')
+    const b = repository.create('b')
+    a.increment()
+    a.increment()
+    await repository.save(a)
+    b.increment()
+    await repository.save(b)
+    a.reset()
+    await repository.save(a)
+
+    const { events, result } = await readAll()
+    expect(events.map(event => `${event.aggregateId}@${event.version}#${event.globalPosition}`)).toEqual(['a@1#1', 'a@2#2', 'b@1#3', 'a@3#4'])
+    expect(result).toEqual({ count: 4, nextPosition: 5 })
+
+    expect((await readAll({ fromPosition: 3 })).events.map(event => event.globalPosition)).toEqual([3, 4])
+    const resets = await readAll({ eventTypes: ['Reset'] })
+    expect(resets.events.map(event => event.globalPosition)).toEqual([4])
+    expect(resets.result.nextPosition).toBe(5)
+    expect((await readAll({ limit: 3 })).result).toEqual({ count: 3, nextPosition: 4 })
+    expect((await readAll({ fromTimestamp: new Date(Date.now() - 60_000) })).events).toHaveLength(4)
+    expect((await readAll({ fromTimestamp: new Date(Date.now() + 7_200_000) })).events).toHaveLength(0)
+    expect((await repository.load('a'))!.getState()).toEqual({ count: 0 })
+  })
+
+  it('should merge hybrid shards by position', async () => {
+    const { driver, repository, readAll } = await setup('hybrid')
+    for (let i = 0; i < 8; i++) {
+      const counter = repository.create(`c${i}`)
+      counter.increment()
+      counter.increment()
+      await repository.save(counter)
+    }
+
+    const { events } = await readAll()
+    expect(events.map(event => event.globalPosition)).toEqual(Array.from({ length: 16 }, (_, i) => i + 1))
+    const { items } = await driver.scan({ tableName: 'Events', filterExpression: '#et = :entry', expressionAttributeNames: { '#et': '_et' }, expressionAttributeValues: { ':entry': { S: 'EventLogEntry' } } })
+    expect(new Set(items.map(item => (item.pk as { S: string }).S)).size).toBeGreaterThan(1)
+  })
+
+  it('should wait at positions that are still being written', async () => {
+    const { driver, store, repository, log, readAll } = await setup('time')
+    const a = repository.create('a')
+    a.increment()
+    await repository.save(a)
+    await log.allocate(1)
+    const b = repository.create('b')
+    b.increment()
+    await repository.save(b)
+
+    const waiting = await readAll()
+    expect(waiting.events.map(event => event.globalPosition)).toEqual([1])
+    expect(waiting.result).toEqual({ count: 1, nextPosition: 2, waitingFor: 2 })
+
+    // Once settled, the missing position is treated as a failed write
+    const skipping = createEventLog(driver, { store, settleMs: 0 })
+    const events: DomainEvent[] = []
+    expect(await skipping.readAll({ fromPosition: 2 }, page => void events.push(...page))).toEqual({ count: 1, nextPosition: 4 })
+    expect(events.map(event => event.aggregateId)).toEqual(['b'])
+  })
+
+  it('should feed projections from the global log', async () => {
+    const { driver, store, repository } = await setup()
+    const runner = createProjectionRunner(driver, {
+      store,
+      projections: [{ name: 'counts', handle: (event, ctx) => ctx.put({ pk: 'EVENT', sk: event.position }, { type: event.eventType }) }],
+    })
+    const a = repository.create('a')
+    a.increment()
+    a.reset()
+    await repository.save(a)
+
+    const [result] = await runner.catchUp()
+    expect(result).toMatchObject({ applied: 2, position: '0000000000000002' })
+    const b = repository.create('b')
+    b.increment()
+    await repository.save(b)
+    expect((await runner.catchUp())[0]).toMatchObject({ applied: 1, position: '0000000000000003' })
+  })
+})
+
+describe('Sagas', () => {
+  interface CheckoutState {
+    orderId?: string
+    payments: number
+  }
+
+  const checkout: Saga<CheckoutState> = {
+    name: 'checkout',
+    startsOn: ['OrderPlaced'],
+    handles: ['PaymentCaptured', 'PaymentFailed', 'PaymentAttempted'],
+    initialState: () => ({ payments: 0 }),
+    handle(event, ctx) {
+      if (event.eventType === 'OrderPlaced') {
+        ctx.state.orderId = event.aggregateId
+        ctx.step('reserve', { orderId: event.aggregateId })
+        ctx.send('CapturePayment', { orderId: event.aggregateId })
+        ctx.requestTimeout('payment', 15 * 60_000, { attempt: 1 })
+      }
+      else if (event.eventType === 'PaymentAttempted') {
+        ctx.state.payments++
+      }
+      else if (event.eventType === 'PaymentCaptured') {
+        ctx.publish('CheckoutCompleted', { orderId: ctx.state.orderId })
+        ctx.complete()
+      }
+      else {
+        ctx.compensate('payment failed')
+      }
+    },
+    onTimeout: (timeout, ctx) => ctx.compensate(`${timeout.name} timed out`),
+    compensations: {
+      reserve: (data, ctx) => ctx.send('ReleaseStock', data),
+    },
+  }
+
+  function event(eventId: string, eventType: string, correlationId?: string): DomainEvent {
+    return { eventId, eventType, aggregateId: 'order-1', aggregateType: 'Order', version: 1, data: {}, timestamp: new Date(), correlationId }
+  }
+
+  async function setup() {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    await driver.createTable({
+      tableName: 'Events-sagas',
+      keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+      attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+    const clock = { now: new Date('2024-06-01T12:00:00Z') }
+    const dispatched: SagaMessage[] = []
+    const sagas = createSagaManager(driver, {
+      store: createEventStore({ tableName: 'Events' }),
+      sagas: [checkout],
+      dispatch: message => void dispatched.push(message),
+      now: () => clock.now,
+    })
+    const timeoutItem = () => driver.getItem({ tableName: 'Events-sagas', key: { pk: { S: 'SAGA#checkout#e1' }, sk: { S: 'TIMEOUT#payment' } } })
+    return { driver, sagas, clock, dispatched, timeoutItem }
+  }
+
+  it('should start, chain causation and complete', async () => {
+    const { sagas, dispatched, timeoutItem } = await setup()
+    await sagas.handleEvent(event('e1', 'OrderPlaced'))
+    await sagas.handleEvent(event('stray', 'PaymentCaptured', 'unknown'))
+
+    expect(dispatched).toHaveLength(1)
+    expect(dispatched[0]).toMatchObject({ kind: 'command', type: 'CapturePayment', sagaId: 'e1', correlationId: 'e1', causationId: 'e1' })
+    const started = (await sagas.getInstance<CheckoutState>('checkout', 'e1'))!
+    expect(started).toMatchObject({ status: 'RUNNING', version: 2, state: { orderId: 'order-1', payments: 0 }, outbox: [] })
+    expect((await timeoutItem())!.ttl).toEqual({ N: String(Date.parse('2024-06-01T12:15:00Z') / 1000) })
+
+    await sagas.handleEvent(event('e2', 'PaymentCaptured', 'e1'))
+    await sagas.handleEvent(event('e2', 'PaymentCaptured', 'e1'))
+    expect(dispatched.map(message => message.type)).toEqual(['CapturePayment', 'CheckoutCompleted'])
+    expect(dispatched[1]).toMatchObject({ kind: 'event', correlationId: 'e1', causationId: 'e2' })
+    expect(await sagas.getInstance('checkout', 'e1')).toMatchObject({ status: 'COMPLETED', timeouts: {}, processed: ['e1', 'e2'] })
+    expect(await timeoutItem()).toBeNull()
+  })
+
+  it('should fire due timeouts and run compensations', async () => {
+    const { sagas, clock, dispatched } = await setup()
+    await sagas.handleEvent(event('e1', 'OrderPlaced'))
+    expect(await sagas.runDueTimeouts()).toBe(0)
+    const { timeoutId } = (await sagas.getInstance('checkout', 'e1'))!.timeouts.payment
+
+    clock.now = new Date('2024-06-01T12:16:00Z')
+    expect(await sagas.runDueTimeouts()).toBe(1)
+    expect(dispatched[1]).toMatchObject({ type: 'ReleaseStock', data: { orderId: 'order-1' }, correlationId: 'e1', causationId: timeoutId })
+    expect(await sagas.getInstance('checkout', 'e1')).toMatchObject({ status: 'COMPENSATED', compensationReason: 'payment timed out', steps: [] })
+    expect(await sagas.runDueTimeouts()).toBe(0)
+  })
+
+  it('should fire timeouts removed by TTL from the stream', async () => {
+    const { sagas, dispatched, timeoutItem } = await setup()
+    const processor = sagas.attach(createStreamProcessor({ errorMode: 'throw' }))
+    await sagas.handleEvent(event('e1', 'OrderPlaced'))
+    const item = (await timeoutItem())!
+
+    await processor.processEvent(StreamProcessor.parseLambdaEvent({
+      Records: [{
+        eventID: '1',
+        eventName: 'REMOVE',
+        eventSourceARN: 'arn:aws:dynamodb:us-east-1:123456789012:table/Events-sagas/stream/1',
+        dynamodb: { Keys: { pk: item.pk, sk: item.sk } as Record<string, { S?: string }>, OldImage: item as Record<string, unknown> },
+      }],
+    }))
+    expect(dispatched.map(message => message.type)).toEqual(['CapturePayment', 'ReleaseStock'])
+    expect((await sagas.getInstance('checkout', 'e1'))!.status).toBe('COMPENSATED')
+  })
+
+  it('should retry on concurrent updates and redispatch after a failed dispatch', async () => {
+    const { driver, dispatched } = await setup()
+    let failNext = false
+    const sagas = createSagaManager(driver, {
+      store: createEventStore({ tableName: 'Events' }),
+      sagas: [checkout],
+      dispatch: (message) => {
+        if (failNext) {
+          failNext = false
+          throw new Error('queue unavailable')
+        }
+        dispatched.push(message)
+      },
+    })
+    await sagas.handleEvent(event('e1', 'OrderPlaced'))
+    await Promise.all(['a1', 'a2', 'a3'].map(id => sagas.handleEvent(event(id, 'PaymentAttempted', 'e1'))))
+    expect((await sagas.getInstance<CheckoutState>('checkout', 'e1'))!.state.payments).toBe(3)
+
+    failNext = true
+    await expect(sagas.handleEvent(event('e9', 'PaymentFailed', 'e1'))).rejects.toThrow('queue unavailable')
+    expect((await sagas.getInstance('checkout', 'e1'))!.outbox.map(message => message.type)).toEqual(['ReleaseStock'])
+
+    await sagas.handleEvent(event('e9', 'PaymentFailed', 'e1'))
+    expect(dispatched.map(message => message.type)).toEqual(['CapturePayment', 'ReleaseStock'])
+    expect((await sagas.getInstance('checkout', 'e1'))!.outbox).toEqual([])
+  })
+
+  it('should handle events delivered through SQS', async () => {
+    const { sagas, dispatched } = await setup()
+    const handler = sagas.attachQueue(createSQSHandler()).build()
+    const body = JSON.stringify({ Type: 'Notification', Message: JSON.stringify(event('e1', 'OrderPlaced')) })
+    const message = { messageId: 'm1', receiptHandle: '', body, attributes: {}, messageAttributes: {}, md5OfBody: '', eventSource: 'aws:sqs', eventSourceARN: '', awsRegion: 'us-east-1' }
+
+    const result = await handler({ Records: [message, { ...message, messageId: 'm2', body: '{"hello":1}' }] }, {} as LambdaContext)
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm2' }])
+    expect(dispatched.map(sent => sent.type)).toEqual(['CapturePayment'])
+  })
+
+  it('should remember only the latest handled messages', async () => {
+    const { sagas } = await setup()
+    await sagas.handleEvent(event('e1', 'OrderPlaced'))
+    for (let i = 1; i <= 100; i++) {
+      await sagas.handleEvent(event(`a${i}`, 'PaymentAttempted', 'e1'))
+    }
+
+    const { processed, state } = (await sagas.getInstance<CheckoutState>('checkout', 'e1'))!
+    expect(state.payments).toBe(100)
+    expect(processed).toHaveLength(100)
+    expect(processed[0]).toBe('a1')
+    expect(processed.at(-1)).toBe('a100')
+  })
+
+  it('should require a dispatch option', () => {
+    const options = { store: createEventStore({ tableName: 'Events' }), sagas: [checkout] }
+    expect(() => createSagaManager(createMemoryDriver(), options as unknown as SagaManagerOptions<[CheckoutState]>)).toThrow('needs a dispatch option')
+  })
+})
+
+describe('Upcasting', () => {
+  interface Deposit {
+    amount: number
+    currency: string
+  }
+
+  class Wallet extends AggregateRoot<{ balances: Record<string, number> }> {
+    constructor(id: string) {
+      super(id, 'Wallet', { balances: {} })
+    }
+
+    deposit(amount: number, currency: string): void {
+      this.raiseEvent('Deposited', { amount, currency })
+    }
+
+    protected apply(event: DomainEvent): void {
+      const { amount, currency } = event.data as Deposit
+      this.state.balances[currency] = (this.state.balances[currency] ?? 0) + amount
+    }
+  }
+
+  // v1 stored cents as `value`, v2 renamed it to `amount`, v3 added `currency`
+  function createUpcasters() {
+    return createUpcasterRegistry()
+      .register<{ value: number }, { amount: number }>('Deposited', 1, data => ({ amount: data.value }))
+      .register<{ amount: number }, Deposit>('Deposited', 2, data => ({ ...data, currency: 'USD' }))
+      .validate('Deposited', createValidator().setRules({ amount: [rules.required(), rules.min(1)], currency: [rules.required()] }))
+  }
+
+  async function setup(partitionStrategy: 'aggregate' | 'time' = 'aggregate') {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    for (const tableName of ['Events', 'Events-snapshots']) {
+      await driver.createTable({
+        tableName,
+        keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+        attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+        billingMode: 'PAY_PER_REQUEST',
+      })
+    }
+    const legacy = createEventStore({ tableName: 'Events', partitionStrategy })
+    const store = createEventStore({ tableName: 'Events', partitionStrategy, upcasters: createUpcasters() })
+    const append = async (id: string, version: number, data: unknown, metadata?: Record<string, unknown>) => {
+      const repository = createEventSourcedRepository(driver, { store: legacy, create: () => new Wallet(id) })
+      const wallet = await repository.load(id) ?? repository.create(id)
+      wallet.raiseEvent('Deposited', data, { ...metadata, ...(version > 1 ? { schemaVersion: version } : {}) })
+      await repository.save(wallet)
+    }
+    return { driver, store, append }
+  }
+
+  it('should chain upcasters from the stored schema version', () => {
+    const upcasters = createUpcasters()
+    const stored: DomainEvent = { eventId: 'e1', eventType: 'Deposited', aggregateId: 'w1', aggregateType: 'Wallet', version: 1, data: { value: 500 }, timestamp: new Date() }
+
+    expect(upcasters.getSchemaVersion('Deposited')).toBe(3)
+    expect(upcasters.getSchemaVersion('Withdrawn')).toBe(1)
+    expect(upcasters.isOutdated(stored)).toBe(true)
+
+    const current = upcasters.upcast<Deposit>(stored)
+    expect(current.data).toEqual({ amount: 500, currency: 'USD' })
+    expect(current.metadata).toEqual({ schemaVersion: 3 })
+    expect(upcasters.upcast({ ...stored, data: { amount: 5 }, metadata: { schemaVersion: 2 } }).data).toEqual({ amount: 5, currency: 'USD' })
+    expect(upcasters.upcast(current)).toBe(current)
+  })
+
+  it('should reject duplicate upcasters and report gaps in the chain', () => {
+    const upcasters = createUpcasterRegistry().register('Renamed', 2, data => data)
+
+    expect(() => upcasters.register('Renamed', 2, data => data)).toThrow('already registered')
+    expect(() => upcasters.register('Renamed', 0, data => data)).toThrow('start at 1')
+    expect(() => upcasters.upcast({ eventId: 'e1', eventType: 'Renamed', aggregateId: 'a', aggregateType: 'A', version: 1, data: {}, timestamp: new Date() }))
+      .toThrow(EventUpcastError)
+  })
+
+  it('should stamp appended events and upcast them on read', async () => {
+    const { driver, store, append } = await setup()
+    await append('w1', 1, { value: 100 }, { source: 'import' })
+    await append('w1', 2, { amount: 20 })
+
+    const repository = createEventSourcedRepository(driver, { store, create: id => new Wallet(id) })
+    const wallet = (await repository.load('w1'))!
+    wallet.deposit(3, 'EUR')
+    const [committed] = await repository.save(wallet)
+
+    expect(wallet.getState().balances).toEqual({ USD: 120, EUR: 3 })
+    expect(committed.metadata).toEqual({ schemaVersion: 3 })
+    const events = await repository.readEvents('w1')
+    expect(events.map(event => event.data)).toEqual([
+      { amount: 100, currency: 'USD' },
+      { amount: 20, currency: 'USD' },
+      { amount: 3, currency: 'EUR' },
+    ])
+    expect(events[0].metadata).toEqual({ source: 'import', schemaVersion: 3 })
+  })
+
+  it('should migrate stored events and log entries to the latest version', async () => {
+    const { driver, store, append } = await setup('time')
+    await append('w1', 1, { value: 100 })
+    await append('w1', 2, { amount: 20 })
+    await append('w2', 3, { amount: 7, currency: 'EUR' })
+
+    const dryRun = await migrateEvents(driver, { store, dryRun: true })
+    expect(dryRun).toMatchObject({ scanned: 6, migrated: 4, skipped: 2, failed: [] })
+
+    const progress: number[] = []
+    const result = await migrateEvents(driver, { store, pageSize: 2, onProgress: counts => void progress.push(counts.scanned) })
+    expect(result).toMatchObject({ scanned: 6, migrated: 4, skipped: 2, failed: [] })
+    expect(progress.at(-1)).toBe(6)
+
+    const { items } = await driver.scan({ tableName: 'Events', filterExpression: '#et IN (:event, :entry)', expressionAttributeNames: { '#et': '_et' }, expressionAttributeValues: { ':event': { S: 'Event' }, ':entry': { S: 'EventLogEntry' } } })
+    for (const event of store.parseEvents(items, { upcast: false })) {
+      expect(event.metadata?.schemaVersion).toBe(3)
+      expect((event.data as Deposit).currency).toBeDefined()
+    }
+    expect(await migrateEvents(driver, { store })).toMatchObject({ migrated: 0, skipped: 6 })
+  })
+
+  it('should leave events that fail validation as they are', async () => {
+    const { driver, store, append } = await setup()
+    await append('w1', 1, { value: 0 })
+    await append('w1', 1, { value: 40 })
+
+    const result = await migrateEvents(driver, { store })
+    expect(result.migrated).toBe(1)
+    expect(result.failed).toHaveLength(1)
+    expect(result.failed[0]).toMatchObject({ aggregateId: 'w1', version: 1, schemaVersion: 1 })
+    expect(result.failed[0].errors?.amount).toHaveLength(1)
+
+    const { items } = await driver.query({
+      tableName: 'Events',
+      keyConditionExpression: '#pk = :pk',
+      expressionAttributeNames: { '#pk': 'pk' },
+      expressionAttributeValues: { ':pk': { S: 'AGG#Wallet#w1' } },
+    })
+    expect(store.parseEvents(items, { upcast: false }).map(event => event.data)).toEqual([{ value: 0 }, { amount: 40, currency: 'USD' }])
+  })
+})
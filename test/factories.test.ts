@@ -1,4 +1,7 @@
+import type { SeederContext } from '../src/seeders'
 import { describe, expect, it } from 'bun:test'
+import { defaultConfig } from '../src/config'
+import { createMemoryDriver } from '../src/drivers/MemoryDriver'
 import {
   Factory,
   randomBool,
@@ -7,6 +10,7 @@ import {
   uniqueEmail,
   uniqueUsername,
 } from '../src/factories'
+import { createDriverSeederClient, runSeeders, Seeder } from '../src/seeders'
 
 describe('Factory System', () => {
   describe('Factory Definition', () => {
@@ -213,3 +217,67 @@ describe('Factory System', () => {
     })
   })
 })
+
+describe('Driver-backed Seeding', () => {
+  const config = { ...defaultConfig, defaultTableName: 'SeedTable' }
+
+  async function createSeedTable() {
+    const driver = createMemoryDriver()
+    await driver.connect({})
+    await driver.createTable({
+      tableName: 'SeedTable',
+      keySchema: [{ attributeName: 'pk', keyType: 'HASH' }, { attributeName: 'sk', keyType: 'RANGE' }],
+      attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }, { attributeName: 'sk', attributeType: 'S' }],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+    return driver
+  }
+
+  class UserSeeder extends Seeder {
+    static order = 1
+
+    async run(ctx: SeederContext): Promise<void> {
+      await ctx.factory('USER', { attributes: () => ({ id: crypto.randomUUID(), name: 'Seeded', tags: ['a', 'b'] }) }).count(60).create()
+    }
+  }
+
+  class BrokenSeeder extends Seeder {
+    async run(): Promise<void> {
+      throw new Error('should be skipped')
+    }
+  }
+
+  it('should write seeders through the driver in batches', async () => {
+    const driver = await createSeedTable()
+    const result = await runSeeders([BrokenSeeder, UserSeeder], createDriverSeederClient(driver), { skip: ['BrokenSeeder'] }, config)
+
+    expect(result.success).toBe(true)
+    expect(result.results.map(r => r.name)).toEqual(['UserSeeder'])
+    expect(result.totalItemsCreated).toBe(60)
+
+    const { items } = await driver.scan({ tableName: 'SeedTable' })
+    expect(items).toHaveLength(60)
+    expect(items[0]).toEqual(expect.objectContaining({ name: { S: 'Seeded' }, tags: { L: [{ S: 'a' }, { S: 'b' }] } }))
+  })
+
+  it('should read back plain items with scan filters', async () => {
+    const driver = await createSeedTable()
+    const client = createDriverSeederClient(driver)
+    await client.batchWrite('SeedTable', [
+      { type: 'put', item: { pk: 'USER#1', sk: 'USER#1', _et: 'USER' } },
+      { type: 'put', item: { pk: 'USER#2', sk: 'USER#2', _et: 'USER' } },
+    ])
+
+    const scanned = await driver.scan({
+      tableName: 'SeedTable',
+      filterExpression: '#et = :et',
+      expressionAttributeNames: { '#et': '_et' },
+      expressionAttributeValues: { ':et': { S: 'USER' } },
+    })
+    expect(scanned.count).toBe(2)
+
+    await client.deleteItem('SeedTable', { pk: 'USER#2', sk: 'USER#2' })
+    const { items } = await client.scan('SeedTable')
+    expect(items).toEqual([{ pk: 'USER#1', sk: 'USER#1', _et: 'USER' }])
+  })
+})
@@ -1,10 +1,18 @@
-import { describe, expect, it } from 'bun:test'
+import type { DriverPlugin } from '../src/drivers'
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { existsSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { PassThrough, Readable, Writable } from 'node:stream'
+import { gunzipSync, gzipSync } from 'node:zlib'
 import {
   createDataExporter,
   createDataImporter,
   DataExporter,
   DataImporter,
 } from '../src'
+import { createMemoryDriver } from '../src/drivers'
+import { marshallObject } from '../src/single-table/EntityTransformer'
 
 describe('DataExporter', () => {
   describe('creation', () => {
@@ -629,3 +637,183 @@ describe('DataImporter', () => {
     })
   })
 })
+
+describe('Streaming export and import', () => {
+  let driver: DriverPlugin
+  let directory: string
+
+  const createTable = (tableName: string): Promise<unknown> => driver.createTable({
+    tableName,
+    keySchema: [
+      { attributeName: 'pk', keyType: 'HASH' },
+      { attributeName: 'sk', keyType: 'RANGE' },
+    ],
+    attributeDefinitions: [
+      { attributeName: 'pk', attributeType: 'S' },
+      { attributeName: 'sk', attributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+  })
+
+  const collect = (stream: PassThrough): Promise<Buffer> => new Promise((resolve) => {
+    const chunks: Buffer[] = []
+    stream.on('data', chunk => chunks.push(Buffer.from(chunk)))
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+  })
+
+  const exportTo = async (options: Parameters<DataExporter['exportStream']>[3]): Promise<Buffer> => {
+    const output = new PassThrough()
+    const data = collect(output)
+    await createDataExporter().exportStream(driver, 'Source', output, options)
+    output.end()
+    return data
+  }
+
+  const countItems = async (tableName: string): Promise<number> =>
+    (await driver.scan({ tableName })).items.length
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    directory = mkdtempSync(join(tmpdir(), 'import-export-'))
+    await createTable('Source')
+    await createTable('Target')
+    for (let i = 0; i < 30; i++) {
+      await driver.putItem({
+        tableName: 'Source',
+        item: marshallObject({
+          pk: `USER#${i}`,
+          sk: `USER#${i}`,
+          _et: i % 3 === 0 ? 'Post' : 'User',
+          name: `User, "${i}"`,
+          tags: new Set(['a', `t${i}`]),
+        }),
+      })
+    }
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should export pages from parallel segments filtered by entity type', async () => {
+    const data = gunzipSync(await exportTo({ format: 'jsonl', entityType: 'User', totalSegments: 3, batchSize: 4, gzip: true }))
+    const items = data.toString().trim().split('\n').map(line => JSON.parse(line))
+
+    expect(items).toHaveLength(20)
+    expect(new Set(items.map(item => item.pk)).size).toBe(20)
+    expect(items.every(item => item._et === 'User')).toBe(true)
+    expect(items[0].tags).toContain('a')
+  })
+
+  it('should write CSV and JSON incrementally and honour limit and attributes', async () => {
+    const csv = (await exportTo({ format: 'csv', attributes: ['pk', 'name'], limit: 5, batchSize: 2 })).toString()
+    const rows = csv.trim().split('\n')
+    expect(rows[0]).toBe('pk,name')
+    expect(rows).toHaveLength(6)
+    expect(rows[1]).toMatch(/^USER#\d+,"User, ""\d+"""$/)
+
+    const json = JSON.parse((await exportTo({ format: 'json', includeMetadata: true, batchSize: 7 })).toString())
+    expect(json.items).toHaveLength(30)
+    expect(json.metadata.itemCount).toBe(30)
+  })
+
+  it('should round-trip DynamoDB JSON without losing sets', async () => {
+    const data = await exportTo({ format: 'dynamodb-json', batchSize: 8 })
+
+    const result = await createDataImporter().importStream(driver, Readable.from([data.subarray(0, 100), data.subarray(100)]), {
+      format: 'dynamodb-json',
+      tableName: 'Target',
+    })
+
+    expect(result.importedItems).toBe(30)
+    const copied = await driver.getItem({ tableName: 'Target', key: marshallObject({ pk: 'USER#1', sk: 'USER#1' }) })
+    expect(copied?.tags).toEqual({ SS: ['a', 't1'] })
+  })
+
+  it('should read CSV, wrapped JSON and AWS export lines', async () => {
+    const importer = createDataImporter()
+    const csv = 'pk,sk,note\nA#1,A#1,"multi\nline, quoted"\nA#2,A#2,plain\n'
+    const wrapped = JSON.stringify({ items: [{ pk: 'B#1', sk: 'B#1', list: [1, { nested: '}' }] }], metadata: { attributes: ['pk'] } })
+    const awsLines = [{ Item: { pk: { S: 'C#1' }, sk: { S: 'C#1' } } }].map(line => JSON.stringify(line)).join('\n')
+
+    expect((await importer.importStream(driver, Readable.from([csv]), { format: 'csv', tableName: 'Target' })).importedItems).toBe(2)
+    expect((await importer.importStream(driver, Readable.from([wrapped]), { format: 'json', tableName: 'Target' })).importedItems).toBe(1)
+    expect((await importer.importStream(driver, Readable.from([awsLines]), { format: 'dynamodb-json', tableName: 'Target' })).importedItems).toBe(1)
+
+    const note = await driver.getItem({ tableName: 'Target', key: marshallObject({ pk: 'A#1', sk: 'A#1' }) })
+    expect(note?.note).toEqual({ S: 'multi\nline, quoted' })
+    expect(await countItems('Target')).toBe(4)
+  })
+
+  it('should retry unprocessed items and resume from the checkpoint', async () => {
+    const data = await exportTo({ format: 'jsonl' })
+    const checkpointFile = join(directory, 'import.checkpoint.json')
+
+    let calls = 0
+    const flaky = new Proxy(driver, {
+      get(target, property, receiver) {
+        if (property !== 'batchWriteItem')
+          return Reflect.get(target, property, receiver)
+        return async (input: Parameters<DriverPlugin['batchWriteItem']>[0]) => {
+          calls++
+          if (calls === 3)
+            throw new Error('connection reset')
+          const requests = input.requestItems.Target
+          // Leave the last item of the first call unprocessed
+          if (calls === 1) {
+            await target.batchWriteItem({ requestItems: { Target: requests.slice(0, -1) } })
+            return { unprocessedItems: { Target: requests.slice(-1) } }
+          }
+          return target.batchWriteItem(input)
+        }
+      },
+    })
+
+    const options = { format: 'jsonl' as const, tableName: 'Target', batchSize: 10, checkpointFile, retryDelayMs: 1 }
+    await expect(createDataImporter().importStream(flaky, Readable.from([data]), options)).rejects.toThrow('connection reset')
+    expect(existsSync(checkpointFile)).toBe(true)
+    expect(await countItems('Target')).toBe(10)
+
+    const result = await createDataImporter().importStream(flaky, Readable.from([data]), options)
+    expect(result.resumedFrom).toBe(10)
+    expect(result.importedItems).toBe(30)
+    expect(result.retries).toBe(0)
+    expect(await countItems('Target')).toBe(30)
+    expect(existsSync(checkpointFile)).toBe(false)
+  })
+
+  it('should fail a gzip export when its output fails', async () => {
+    const output = new Writable({
+      write(_chunk, _encoding, callback) {
+        callback(new Error('disk full'))
+      },
+    })
+
+    await expect(createDataExporter().exportStream(driver, 'Source', output, { format: 'jsonl', batchSize: 4, gzip: true })).rejects.toThrow('disk full')
+  })
+
+  it('should fail a gzip import when its input fails', async () => {
+    const data = gzipSync(await exportTo({ format: 'jsonl' }))
+    const input = new Readable({ read() {} })
+    input.push(data.subarray(0, data.length / 2))
+    setTimeout(() => input.destroy(new Error('disk read failed')), 10)
+
+    await expect(createDataImporter().importStream(driver, input, { format: 'jsonl', tableName: 'Target', gzip: true })).rejects.toThrow('disk read failed')
+  })
+
+  it('should validate without writing on a dry run', async () => {
+    const data = await exportTo({ format: 'jsonl' })
+
+    const result = await createDataImporter().importStream(undefined, Readable.from([data]), {
+      format: 'jsonl',
+      tableName: 'Target',
+      dryRun: true,
+      validate: item => item._et === 'User' || `unexpected entity ${item._et}`,
+    })
+
+    expect(result.importedItems).toBe(20)
+    expect(result.skippedItems).toBe(10)
+    expect(result.errors[0].error).toBe('unexpected entity Post')
+    expect(await countItems('Target')).toBe(0)
+  })
+})
@@ -0,0 +1,587 @@
+import type { DriverPlugin } from '../src/drivers'
+import type { ModelAttribute, ModelRelationship } from '../src/models/DynamoDBModel'
+import type { Config } from '../src/types'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { defaultConfig } from '../src/config'
+import {
+  createMemoryDriver,
+  ExpressionContext,
+  getDriver,
+  getRegisteredDrivers,
+  hasDriver,
+  parseConditionExpression,
+  registerBuiltInDrivers,
+} from '../src/drivers'
+import { createDriverModelClient } from '../src/models'
+import {
+  DynamoDBModel,
+  setModelClient,
+  setModelConfig,
+  setOrmModelRegistry,
+} from '../src/models/DynamoDBModel'
+import { ConditionalCheckFailedError, DynamoDBErrorBase, TransactionCancelledError } from '../src/types/errors'
+
+async function createTestTable(driver: DriverPlugin, tableName = 'items'): Promise<void> {
+  await driver.createTable({
+    tableName,
+    keySchema: [
+      { attributeName: 'pk', keyType: 'HASH' },
+      { attributeName: 'sk', keyType: 'RANGE' },
+    ],
+    attributeDefinitions: [
+      { attributeName: 'pk', attributeType: 'S' },
+      { attributeName: 'sk', attributeType: 'S' },
+      { attributeName: 'gsi1pk', attributeType: 'S' },
+      { attributeName: 'gsi1sk', attributeType: 'N' },
+      { attributeName: 'lsi1sk', attributeType: 'S' },
+    ],
+    billingMode: 'PAY_PER_REQUEST',
+    globalSecondaryIndexes: [{
+      indexName: 'GSI1',
+      keySchema: [
+        { attributeName: 'gsi1pk', keyType: 'HASH' },
+        { attributeName: 'gsi1sk', keyType: 'RANGE' },
+      ],
+      projection: { projectionType: 'INCLUDE', nonKeyAttributes: ['name'] },
+    }],
+    localSecondaryIndexes: [{
+      indexName: 'LSI1',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'lsi1sk', keyType: 'RANGE' },
+      ],
+      projection: { projectionType: 'KEYS_ONLY' },
+    }],
+  })
+}
+
+async function expectError<T extends DynamoDBErrorBase = DynamoDBErrorBase>(promise: Promise<unknown>, code: string): Promise<T> {
+  try {
+    await promise
+  }
+  catch (error) {
+    expect(error).toBeInstanceOf(DynamoDBErrorBase)
+    expect((error as T).awsErrorCode).toBe(code)
+    return error as T
+  }
+  throw new Error(`Expected ${code} to be thrown`)
+}
+
+describe('Memory Driver', () => {
+  let driver: DriverPlugin
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.connect({})
+    await createTestTable(driver)
+  })
+
+  describe('registry', () => {
+    it('should be registered as a built-in driver', () => {
+      registerBuiltInDrivers()
+      expect(hasDriver('memory')).toBe(true)
+      expect(getRegisteredDrivers()).toContain('dynamodb')
+      expect(getDriver('memory')?.name).toBe('memory')
+    })
+  })
+
+  describe('tables', () => {
+    it('should create, describe, list and delete tables', async () => {
+      const description = await driver.describeTable('items')
+      expect(description.tableStatus).toBe('ACTIVE')
+      expect(description.globalSecondaryIndexes?.[0].indexName).toBe('GSI1')
+      expect(description.localSecondaryIndexes?.[0].indexName).toBe('LSI1')
+
+      await createTestTable(driver, 'others')
+      const first = await driver.listTables({ limit: 1 })
+      expect(first.tableNames).toEqual(['items'])
+      expect(first.lastEvaluatedTableName).toBe('items')
+      const second = await driver.listTables({ limit: 1, exclusiveStartTableName: 'items' })
+      expect(second.tableNames).toEqual(['others'])
+      expect(second.lastEvaluatedTableName).toBeUndefined()
+
+      await driver.deleteTable('others')
+      await driver.waitForTableDeleted('others')
+      await expectError(driver.describeTable('others'), 'ResourceNotFoundException')
+    })
+
+    it('should reject duplicate tables and invalid schemas', async () => {
+      await expectError(createTestTable(driver), 'ResourceInUseException')
+      await expectError(driver.createTable({
+        tableName: 'broken',
+        keySchema: [{ attributeName: 'id', keyType: 'HASH' }],
+        attributeDefinitions: [{ attributeName: 'pk', attributeType: 'S' }],
+      }), 'ValidationException')
+    })
+
+    it('should add and backfill a GSI with updateTable', async () => {
+      await driver.putItem({ tableName: 'items', item: { pk: { S: 'A' }, sk: { S: '1' }, status: { S: 'open' } } })
+      await driver.updateTable({
+        tableName: 'items',
+        attributeDefinitions: [{ attributeName: 'status', attributeType: 'S' }],
+        globalSecondaryIndexUpdates: [{
+          create: {
+            indexName: 'ByStatus',
+            keySchema: [{ attributeName: 'status', keyType: 'HASH' }],
+            projection: { projectionType: 'ALL' },
+          },
+        }],
+      })
+
+      const result = await driver.query({
+        tableName: 'items',
+        indexName: 'ByStatus',
+        keyConditionExpression: '#s = :s',
+        expressionAttributeNames: { '#s': 'status' },
+        expressionAttributeValues: { ':s': { S: 'open' } },
+      })
+      expect(result.count).toBe(1)
+    })
+  })
+
+  describe('item operations', () => {
+    it('should put and get items with projections', async () => {
+      await driver.putItem({
+        tableName: 'items',
+        item: { pk: { S: 'A' }, sk: { S: '1' }, name: { S: 'Alpha' }, tags: { L: [{ S: 'x' }, { S: 'y' }] }, meta: { M: { n: { N: '01.50' } } } },
+      })
+
+      const item = await driver.getItem({ tableName: 'items', key: { pk: { S: 'A' }, sk: { S: '1' } } })
+      expect(item?.name).toEqual({ S: 'Alpha' })
+      expect(item?.meta).toEqual({ M: { n: { N: '1.5' } } })
+
+      const projected = await driver.getItem({
+        tableName: 'items',
+        key: { pk: { S: 'A' }, sk: { S: '1' } },
+        projectionExpression: '#n, tags[1], meta.n',
+        expressionAttributeNames: { '#n': 'name' },
+      })
+      expect(projected).toEqual({ name: { S: 'Alpha' }, tags: { L: [{ S: 'y' }] }, meta: { M: { n: { N: '1.5' } } } })
+    })
+
+    it('should validate keys the way DynamoDB does', async () => {
+      await expectError(driver.getItem({ tableName: 'items', key: { pk: { S: 'A' } } }), 'ValidationException')
+      await expectError(driver.putItem({ tableName: 'items', item: { pk: { S: 'A' } } }), 'ValidationException')
+      await expectError(driver.putItem({ tableName: 'items', item: { pk: { S: 'A' }, sk: { N: '1' } } }), 'ValidationException')
+      await expectError(driver.getItem({ tableName: 'missing', key: { pk: { S: 'A' } } }), 'ResourceNotFoundException')
+    })
+
+    it('should enforce condition expressions', async () => {
+      const key = { pk: { S: 'A' }, sk: { S: '1' } }
+      await driver.putItem({ tableName: 'items', item: { ...key, version: { N: '1' } }, conditionExpression: 'attribute_not_exists(pk)' })
+
+      const error = await expectError(driver.putItem({
+        tableName: 'items',
+        item: { ...key, version: { N: '2' } },
+        conditionExpression: 'attribute_not_exists(pk)',
+      }), 'ConditionalCheckFailedException')
+      expect(error).toBeInstanceOf(ConditionalCheckFailedError)
+      expect(error.tableName).toBe('items')
+      expect(error.operation).toBe('PutItem')
+
+      await driver.deleteItem({
+        tableName: 'items',
+        key,
+        conditionExpression: '#v = :v',
+        expressionAttributeNames: { '#v': 'version' },
+        expressionAttributeValues: { ':v': { N: '1' } },
+      })
+      expect(await driver.getItem({ tableName: 'items', key })).toBeNull()
+    })
+
+    it('should reject unused or undefined expression attributes and reserved words', async () => {
+      await expectError(driver.putItem({
+        tableName: 'items',
+        item: { pk: { S: 'A' }, sk: { S: '1' } },
+        conditionExpression: 'attribute_not_exists(pk)',
+        expressionAttributeValues: { ':unused': { S: 'x' } },
+      }), 'ValidationException')
+
+      const reserved = await expectError(driver.putItem({
+        tableName: 'items',
+        item: { pk: { S: 'A' }, sk: { S: '1' } },
+        conditionExpression: 'attribute_not_exists(status)',
+      }), 'ValidationException')
+      expect(reserved.message).toContain('reserved keyword')
+    })
+
+    it('should apply update expressions', async () => {
+      const key = { pk: { S: 'A' }, sk: { S: '1' } }
+      await driver.putItem({
+        tableName: 'items',
+        item: { ...key, count: { N: '5' }, scores: { L: [{ N: '1' }] }, history: { L: [{ S: 'a' }, { S: 'b' }] }, tags: { SS: ['a', 'b'] }, labels: { SS: ['a', 'b'] }, legacy: { S: 'x' } },
+      })
+
+      const result = await driver.updateItem({
+        tableName: 'items',
+        key,
+        updateExpression: 'SET #c = #c + :one, scores = list_append(scores, :more), created = if_not_exists(created, :now) REMOVE legacy, history[0] ADD tags :newTags, visits :one DELETE labels :gone',
+        expressionAttributeNames: { '#c': 'count' },
+        expressionAttributeValues: {
+          ':one': { N: '1' },
+          ':more': { L: [{ N: '4' }] },
+          ':now': { S: '2024-01-01' },
+          ':newTags': { SS: ['c'] },
+          ':gone': { SS: ['a'] },
+        },
+        returnValues: 'UPDATED_NEW',
+      })
+
+      expect(result.attributes?.count).toEqual({ N: '6' })
+      expect(result.attributes?.visits).toEqual({ N: '1' })
+      expect(result.attributes?.legacy).toBeUndefined()
+
+      const item = await driver.getItem({ tableName: 'items', key })
+      expect(item?.scores).toEqual({ L: [{ N: '1' }, { N: '4' }] })
+      expect(item?.history).toEqual({ L: [{ S: 'b' }] })
+      expect(item?.tags).toEqual({ SS: ['a', 'b', 'c'] })
+      expect(item?.labels).toEqual({ SS: ['b'] })
+      expect(item?.created).toEqual({ S: '2024-01-01' })
+      expect(item?.legacy).toBeUndefined()
+    })
+
+    it('should create items on update and refuse key changes', async () => {
+      const key = { pk: { S: 'B' }, sk: { S: '1' } }
+      const result = await driver.updateItem({
+        tableName: 'items',
+        key,
+        updateExpression: 'SET title = :t',
+        expressionAttributeValues: { ':t': { S: 'New' } },
+        returnValues: 'ALL_NEW',
+      })
+      expect(result.attributes).toEqual({ pk: { S: 'B' }, sk: { S: '1' }, title: { S: 'New' } })
+
+      await expectError(driver.updateItem({
+        tableName: 'items',
+        key,
+        updateExpression: 'SET sk = :s',
+        expressionAttributeValues: { ':s': { S: '2' } },
+      }), 'ValidationException')
+
+      await expectError(driver.updateItem({
+        tableName: 'items',
+        key,
+        updateExpression: 'SET a = :v, a.b = :v',
+        expressionAttributeValues: { ':v': { S: 'x' } },
+      }), 'ValidationException')
+    })
+  })
+
+  describe('query and scan', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await driver.putItem({
+          tableName: 'items',
+          item: {
+            pk: { S: 'USER#1' },
+            sk: { S: `ORDER#${i}` },
+            amount: { N: String(i * 10) },
+            name: { S: `Order ${i}` },
+            secret: { S: 'hidden' },
+            ...(i % 2 === 0 ? { gsi1pk: { S: 'EVEN' }, gsi1sk: { N: String(100 - i) } } : {}),
+            lsi1sk: { S: `L${6 - i}` },
+          },
+        })
+      }
+      await driver.putItem({ tableName: 'items', item: { pk: { S: 'USER#2' }, sk: { S: 'ORDER#1' }, amount: { N: '1' } } })
+    })
+
+    it('should evaluate key conditions and sort order', async () => {
+      const result = await driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'pk = :pk AND sk BETWEEN :a AND :b',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' }, ':a': { S: 'ORDER#2' }, ':b': { S: 'ORDER#4' } },
+        scanIndexForward: false,
+      })
+      expect(result.items.map(item => item.sk)).toEqual([{ S: 'ORDER#4' }, { S: 'ORDER#3' }, { S: 'ORDER#2' }])
+
+      const prefixed = await driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'pk = :pk AND begins_with(sk, :p)',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' }, ':p': { S: 'ORDER#' } },
+        select: 'COUNT',
+      })
+      expect(prefixed.count).toBe(5)
+      expect(prefixed.items).toEqual([])
+    })
+
+    it('should reject unsupported key conditions', async () => {
+      await expectError(driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'sk = :sk',
+        expressionAttributeValues: { ':sk': { S: 'ORDER#1' } },
+      }), 'ValidationException')
+
+      await expectError(driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'pk = :pk AND amount > :t',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' }, ':t': { N: '1' } },
+      }), 'ValidationException')
+    })
+
+    it('should apply the limit before the filter and paginate with LastEvaluatedKey', async () => {
+      const first = await driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'pk = :pk',
+        filterExpression: 'amount > :min',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' }, ':min': { N: '25' } },
+        limit: 3,
+      })
+      expect(first.scannedCount).toBe(3)
+      expect(first.count).toBe(1)
+      expect(first.lastEvaluatedKey).toEqual({ pk: { S: 'USER#1' }, sk: { S: 'ORDER#3' } })
+
+      const second = await driver.query({
+        tableName: 'items',
+        keyConditionExpression: 'pk = :pk',
+        filterExpression: 'amount > :min',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' }, ':min': { N: '25' } },
+        limit: 3,
+        exclusiveStartKey: first.lastEvaluatedKey,
+      })
+      expect(second.items.map(item => item.sk)).toEqual([{ S: 'ORDER#4' }, { S: 'ORDER#5' }])
+      expect(second.lastEvaluatedKey).toBeUndefined()
+    })
+
+    it('should query sparse GSIs with index projections', async () => {
+      const result = await driver.query({
+        tableName: 'items',
+        indexName: 'GSI1',
+        keyConditionExpression: 'gsi1pk = :pk',
+        expressionAttributeValues: { ':pk': { S: 'EVEN' } },
+        limit: 1,
+      })
+      expect(result.items).toEqual([{
+        pk: { S: 'USER#1' },
+        sk: { S: 'ORDER#4' },
+        gsi1pk: { S: 'EVEN' },
+        gsi1sk: { N: '96' },
+        name: { S: 'Order 4' },
+      }])
+      expect(result.lastEvaluatedKey).toEqual({ pk: { S: 'USER#1' }, sk: { S: 'ORDER#4' }, gsi1pk: { S: 'EVEN' }, gsi1sk: { N: '96' } })
+
+      await expectError(driver.query({
+        tableName: 'items',
+        indexName: 'GSI1',
+        keyConditionExpression: 'gsi1pk = :pk',
+        expressionAttributeValues: { ':pk': { S: 'EVEN' } },
+        consistentRead: true,
+      }), 'ValidationException')
+    })
+
+    it('should query LSIs and fetch non-projected attributes from the table', async () => {
+      const keysOnly = await driver.query({
+        tableName: 'items',
+        indexName: 'LSI1',
+        keyConditionExpression: 'pk = :pk',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' } },
+        limit: 1,
+      })
+      expect(keysOnly.items).toEqual([{ pk: { S: 'USER#1' }, sk: { S: 'ORDER#5' }, lsi1sk: { S: 'L1' } }])
+
+      const withProjection = await driver.query({
+        tableName: 'items',
+        indexName: 'LSI1',
+        keyConditionExpression: 'pk = :pk',
+        projectionExpression: 'secret',
+        expressionAttributeValues: { ':pk': { S: 'USER#1' } },
+        limit: 1,
+      })
+      expect(withProjection.items).toEqual([{ secret: { S: 'hidden' } }])
+    })
+
+    it('should scan in parallel segments covering every item once', async () => {
+      const seen: string[] = []
+      for (let segment = 0; segment < 3; segment++) {
+        let startKey
+        do {
+          const page = await driver.scan({ tableName: 'items', segment, totalSegments: 3, limit: 2, exclusiveStartKey: startKey })
+          seen.push(...page.items.map(item => `${item.pk && 'S' in item.pk ? item.pk.S : ''}/${item.sk && 'S' in item.sk ? item.sk.S : ''}`))
+          startKey = page.lastEvaluatedKey
+        } while (startKey)
+      }
+      expect(seen.sort()).toHaveLength(6)
+      expect(new Set(seen).size).toBe(6)
+    })
+  })
+
+  describe('batch and transactions', () => {
+    it('should batch write and batch get', async () => {
+      await driver.batchWriteItem({
+        requestItems: {
+          items: [
+            { putRequest: { item: { pk: { S: 'A' }, sk: { S: '1' } } } },
+            { putRequest: { item: { pk: { S: 'A' }, sk: { S: '2' } } } },
+          ],
+        },
+      })
+      const result = await driver.batchGetItem({
+        requestItems: { items: { keys: [{ pk: { S: 'A' }, sk: { S: '1' } }, { pk: { S: 'A' }, sk: { S: '2' } }, { pk: { S: 'A' }, sk: { S: '3' } }] } },
+      })
+      expect(result.responses.items).toHaveLength(2)
+
+      await expectError(driver.batchWriteItem({
+        requestItems: {
+          items: [
+            { putRequest: { item: { pk: { S: 'A' }, sk: { S: '9' } } } },
+            { deleteRequest: { key: { pk: { S: 'A' }, sk: { S: '9' } } } },
+          ],
+        },
+      }), 'ValidationException')
+    })
+
+    it('should apply transactions all-or-nothing with cancellation reasons', async () => {
+      await driver.putItem({ tableName: 'items', item: { pk: { S: 'ACCOUNT' }, sk: { S: '1' }, balance: { N: '10' } } })
+
+      const error = await expectError<TransactionCancelledError>(driver.transactWriteItems({
+        transactItems: [
+          { put: { tableName: 'items', item: { pk: { S: 'LOG' }, sk: { S: '1' } } } },
+          {
+            update: {
+              tableName: 'items',
+              key: { pk: { S: 'ACCOUNT' }, sk: { S: '1' } },
+              updateExpression: 'SET balance = balance - :amount',
+              conditionExpression: 'balance >= :amount',
+              expressionAttributeValues: { ':amount': { N: '50' } },
+            },
+          },
+        ],
+      }), 'TransactionCanceledException')
+
+      expect(error).toBeInstanceOf(TransactionCancelledError)
+      expect(error.cancellationReasons).toEqual([
+        { Code: 'None' },
+        { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' },
+      ])
+      expect(await driver.getItem({ tableName: 'items', key: { pk: { S: 'LOG' }, sk: { S: '1' } } })).toBeNull()
+
+      await driver.transactWriteItems({
+        transactItems: [
+          { put: { tableName: 'items', item: { pk: { S: 'LOG' }, sk: { S: '1' } } } },
+          { conditionCheck: { tableName: 'items', key: { pk: { S: 'ACCOUNT' }, sk: { S: '1' } }, conditionExpression: 'attribute_exists(pk)' } },
+        ],
+      })
+      expect(await driver.getItem({ tableName: 'items', key: { pk: { S: 'LOG' }, sk: { S: '1' } } })).not.toBeNull()
+    })
+
+    it('should reject multiple operations on one item and honour client request tokens', async () => {
+      const key = { pk: { S: 'A' }, sk: { S: '1' } }
+      await expectError(driver.transactWriteItems({
+        transactItems: [
+          { put: { tableName: 'items', item: key } },
+          { delete: { tableName: 'items', key } },
+        ],
+      }), 'ValidationException')
+
+      const request = {
+        clientRequestToken: 'token-1',
+        transactItems: [{
+          update: {
+            tableName: 'items',
+            key,
+            updateExpression: 'ADD hits :one',
+            expressionAttributeValues: { ':one': { N: '1' } },
+          },
+        }],
+      }
+      await driver.transactWriteItems(request)
+      await driver.transactWriteItems(request)
+      expect((await driver.getItem({ tableName: 'items', key }))?.hits).toEqual({ N: '1' })
+
+      await expectError(driver.transactWriteItems({
+        ...request,
+        transactItems: [{ delete: { tableName: 'items', key } }],
+      }), 'IdempotentParameterMismatchException')
+    })
+  })
+
+  describe('expressions', () => {
+    it('should parse nested conditions with functions', () => {
+      const context = new ExpressionContext({ '#n': 'name' }, { ':a': { S: 'Al' }, ':x': { N: '3' } })
+      const node = parseConditionExpression('(begins_with(#n, :a) OR size(tags) > :x) AND NOT contains(tags, :a)', context)
+      expect(node.type).toBe('and')
+      context.assertAllUsed()
+    })
+
+    it('should report syntax errors as ValidationException', () => {
+      const context = new ExpressionContext({}, { ':a': { S: 'x' } })
+      expect(() => parseConditionExpression('a = = :a', context)).toThrow('Syntax error')
+    })
+  })
+})
+
+// ============================================================================
+// Models on the memory driver
+// ============================================================================
+
+class MemoryUser extends DynamoDBModel {
+  static table = 'users'
+  static primaryKey = 'id'
+  static pkPrefix = 'USER'
+  static timestamps = true
+  static versioning = true
+
+  get attributes(): Record<string, ModelAttribute> {
+    return {
+      id: { name: 'id', type: 'string', required: true },
+      name: { name: 'name', type: 'string', required: true },
+      age: { name: 'age', type: 'number' },
+    }
+  }
+
+  get relationships(): Record<string, ModelRelationship> {
+    return {}
+  }
+}
+
+describe('DynamoDBModel on the memory driver', () => {
+  const config: Config = { ...defaultConfig, defaultTableName: 'main' }
+
+  beforeEach(async () => {
+    const driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'main',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(config)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+  })
+
+  it('should create, find, update and delete models', async () => {
+    const user = await MemoryUser.create({ id: 'u1', name: 'Ada', age: 36 })
+    expect(user.exists).toBe(true)
+
+    const found = await MemoryUser.find('u1')
+    expect(found?.getAttribute('name')).toBe('Ada')
+
+    found!.setAttribute('age', 37)
+    await found!.save()
+    const reloaded = await MemoryUser.find('u1')
+    expect(reloaded?.getAttribute('age')).toBe(37)
+
+    await reloaded!.delete()
+    expect(await MemoryUser.find('u1')).toBeNull()
+  })
+
+  it('should query models with where clauses', async () => {
+    await MemoryUser.create({ id: 'u1', name: 'Ada', age: 36 })
+    await MemoryUser.create({ id: 'u2', name: 'Grace', age: 45 })
+
+    const older = await MemoryUser.query().where('age', '>', 40).get()
+    expect(older.map(user => user.getAttribute('name'))).toEqual(['Grace'])
+  })
+
+  it('should refuse to insert a duplicate model', async () => {
+    await MemoryUser.create({ id: 'u1', name: 'Ada' })
+    await expectError(MemoryUser.create({ id: 'u1', name: 'Ada again' }), 'ConditionalCheckFailedException')
+  })
+})
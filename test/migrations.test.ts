@@ -5,8 +5,11 @@ import {
   formatSchemaSummary,
   generateSchemaFromRegistry,
 } from '../src/migrations/AutoSchemaGenerator'
+import { createMemoryDriver } from '../src/drivers/MemoryDriver'
+import { createDriverMigrationClient } from '../src/migrations/DriverClient'
 import {
   createMigrationState,
+  createMigrationStateFromTable,
   diffSchemas,
   formatDiffSummary,
 } from '../src/migrations/SchemaDiffer'
@@ -193,5 +196,116 @@ describe('Migration System', () => {
       expect(diff.migrationPlan).toBeDefined()
       expect(diff.migrationPlan.length).toBeGreaterThan(0)
     })
+ 
+    it('should track TTL in migration state', () => {
+      const ttlConfig = { ...testConfig, ttl: { ...testConfig.ttl, enabled: true } }
+      const state = createMigrationState(generateSchemaFromRegistry(testRegistry, ttlConfig))
+
+      expect(state.ttlSpecification).toEqual({ enabled: true, attributeName: ttlConfig.ttl.attributeName })
+      expect(diffSchemas(testRegistry, state, ttlConfig).hasChanges).toBe(false)
+
+      const diff = diffSchemas(testRegistry, state, testConfig)
+      expect(diff.changesByType.ttl_change[0].description).toContain('TTL disabled')
+      expect(diff.migrationPlan.find(step => step.operation === 'update_ttl')?.params?.TimeToLiveSpecification).toEqual({
+        enabled: false,
+        attributeName: ttlConfig.ttl.attributeName,
+      })
+    })
+  })
+
+  describe('Live table drift', () => {
+    const driftConfig = {
+      ...testConfig,
+      ttl: { ...testConfig.ttl, enabled: true },
+      tags: { team: 'data' },
+      streams: { ...testConfig.streams, enabled: true, viewType: 'NEW_AND_OLD_IMAGES' as const },
+    }
+    const entityTypes = [...testRegistry.models.keys()]
+
+    async function createLiveTable() {
+      const driver = createMemoryDriver()
+      await driver.connect({})
+      const schema = generateSchemaFromRegistry(testRegistry, driftConfig).createTableInput
+      return { driver, description: await driver.createTable(schema) }
+    }
+
+    it('should report no drift when the live table matches the models', async () => {
+      const { driver, description } = await createLiveTable()
+      const state = createMigrationStateFromTable(description, {
+        ttl: { attributeName: driftConfig.ttl.attributeName, status: 'ENABLED' },
+        tags: await driver.listTagsOfResource!(description.tableArn!),
+        entityTypes,
+      })
+
+      const diff = diffSchemas(testRegistry, state, driftConfig)
+      expect(diff.changes).toEqual([])
+    })
+
+    it('should report GSI, TTL, stream, billing, tag and deletion protection drift', async () => {
+      const { driver, description } = await createLiveTable()
+      const gsi = description.globalSecondaryIndexes![0].indexName
+      const updated = await driver.updateTable({
+        tableName: description.tableName,
+        billingMode: 'PROVISIONED',
+        provisionedThroughput: { readCapacityUnits: 5, writeCapacityUnits: 5 },
+        globalSecondaryIndexUpdates: [{ delete: { indexName: gsi } }],
+        streamSpecification: { streamEnabled: false },
+        deletionProtectionEnabled: true,
+      })
+
+      const state = createMigrationStateFromTable(updated, {
+        ttl: { status: 'DISABLED' },
+        tags: [{ key: 'team', value: 'platform' }],
+        entityTypes,
+      })
+      const diff = diffSchemas(testRegistry, state, driftConfig)
+
+      expect(diff.changes.map(change => change.affectedComponent).sort()).toEqual([
+        gsi,
+        'TTL',
+        'billingMode',
+        'deletionProtection',
+        'streams',
+        'tags',
+      ].sort())
+      expect(diff.changesByType.ttl_change[0].description).toContain('TTL enabled')
+      expect(diff.changes.find(change => change.affectedComponent === 'tags')?.details).toBe('team: platform → data')
+    })
+  })
+
+  describe('Driver-backed migration client', () => {
+    it('should apply migration plan steps through the driver', async () => {
+      const driver = createMemoryDriver()
+      await driver.connect({})
+      const client = createDriverMigrationClient(driver)
+      const schema = generateSchemaFromRegistry(testRegistry, testConfig)
+
+      expect(await client.describeTable('TestTable')).toBeNull()
+      await client.createTable(schema.createTableInput)
+      expect(await client.waitForTableActive('TestTable', 1000)).toBe(true)
+
+      // Re-create a GSI the way a migration plan would
+      const gsi = schema.createTableInput.globalSecondaryIndexes![0]
+      const state = createMigrationState(generateSchemaFromRegistry(testRegistry, testConfig))
+      state.appliedSchema = {
+        ...state.appliedSchema,
+        globalSecondaryIndexes: state.appliedSchema.globalSecondaryIndexes!.filter(index => index.indexName !== gsi.indexName),
+      }
+      const indexNames = async () => (await client.describeTable('TestTable'))?.globalSecondaryIndexes?.map(index => index.indexName) ?? []
+
+      await client.updateTable({ TableName: 'TestTable', GlobalSecondaryIndexUpdates: [{ Delete: { IndexName: gsi.indexName } }] })
+      expect(await indexNames()).not.toContain(gsi.indexName)
+
+      const create = diffSchemas(testRegistry, state, testConfig).migrationPlan.find(step => step.operation === 'create_gsi')!
+      await client.updateTable(create.params!)
+      expect(await indexNames()).toContain(gsi.indexName)
+
+      // TTL steps are skipped on drivers without TTL support
+      await client.updateTimeToLive({ TableName: 'TestTable', TimeToLiveSpecification: { enabled: true, attributeName: 'ttl' } })
+
+      await client.deleteTable('TestTable')
+      expect(await client.waitForTableDeleted('TestTable', 1000)).toBe(true)
+      expect(await client.describeTable('TestTable')).toBeNull()
+    })
   })
 })
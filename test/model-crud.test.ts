@@ -1,8 +1,15 @@
+import type { DriverAttributeValue, DriverPlugin } from '../src/drivers'
 import type { ModelRegistry } from '../src/model-parser/types'
 import type { DynamoDBClient, ModelAttribute, ModelRelationship } from '../src/models/DynamoDBModel'
+import { unmarshallValue } from '../src/single-table/EntityTransformer'
+import { createStreamProcessor, StreamProcessor } from '../src/streams'
 import type { Config } from '../src/types'
 import { beforeEach, describe, expect, it, mock } from 'bun:test'
 import { defaultConfig } from '../src/config'
+import { createMemoryDriver } from '../src/drivers'
+import { parseModel } from '../src/model-parser'
+import { createDriverModelClient, createModelClasses, createPrecomputedAggregate, TransactionLimitError } from '../src/models'
+import { createRequestCoalescer } from '../src/performance'
 import {
   DynamoDBModel,
   DynamoDBQueryBuilder,
@@ -10,6 +17,8 @@ import {
   setModelConfig,
   setOrmModelRegistry,
 } from '../src/models/DynamoDBModel'
+import { getRelationshipCounts } from '../src/single-table/RelationshipResolver'
+import { isConditionalCheckFailedError, TransactionCancelledError } from '../src/types/errors'
 
 // Create a test model
 class TestUser extends DynamoDBModel {
@@ -630,3 +639,954 @@ describe('Static Query Methods', () => {
     })
   })
 })
+
+// ============================================================================
+// Relationship existence queries (memory driver)
+// ============================================================================
+
+class Author extends DynamoDBModel {
+  static table = 'authors'
+  static primaryKey = 'id'
+  static pkPrefix = 'AUTHOR'
+  static timestamps = false
+
+  get attributes(): Record<string, ModelAttribute> {
+    return {
+      id: { name: 'id', type: 'string', required: true },
+      name: { name: 'name', type: 'string' },
+    }
+  }
+
+  get relationships(): Record<string, ModelRelationship> {
+    return {
+      articles: { type: 'hasMany', model: 'Article' },
+    }
+  }
+}
+
+class Article extends DynamoDBModel {
+  static table = 'articles'
+  static primaryKey = 'id'
+  static pkPrefix = 'ARTICLE'
+  static timestamps = false
+  static softDeletes = true
+
+  get attributes(): Record<string, ModelAttribute> {
+    return {
+      id: { name: 'id', type: 'string', required: true },
+      title: { name: 'title', type: 'string' },
+      authorId: { name: 'authorId', type: 'string' },
+      published: { name: 'published', type: 'boolean' },
+    }
+  }
+
+  get relationships(): Record<string, ModelRelationship> {
+    return {
+      author: { type: 'belongsTo', model: 'Author', foreignKey: 'authorId' },
+    }
+  }
+}
+
+describe('Relationship existence queries', () => {
+  let driver: DriverPlugin
+  let registry: ModelRegistry
+  let batchGets: number
+  let partitionQueries: string[]
+
+  // hasMany children live in the parent's partition
+  async function putChildArticle(authorId: string, id: string, attributes: Record<string, DriverAttributeValue> = {}): Promise<void> {
+    await driver.putItem({
+      tableName: 'MainTable',
+      item: {
+        pk: { S: `AUTHOR#${authorId}` },
+        sk: { S: `ARTICLE#${id}` },
+        _et: { S: 'Article' },
+        id: { S: id },
+        ...attributes,
+      },
+    })
+  }
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    batchGets = 0
+    const batchGetItem = driver.batchGetItem.bind(driver)
+    driver.batchGetItem = (input) => {
+      batchGets++
+      return batchGetItem(input)
+    }
+    partitionQueries = []
+    const query = driver.query.bind(driver)
+    driver.query = (input) => {
+      partitionQueries.push(input.expressionAttributeValues?.[':pk']?.S ?? '')
+      return query(input)
+    }
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    registry = { models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] }
+    setOrmModelRegistry(registry)
+    registry.models.set('Author', new Author().getParsedModel())
+    registry.models.set('Article', new Article().getParsedModel())
+
+    await Author.create({ id: 'a1', name: 'Ada' })
+    await Author.create({ id: 'a2', name: 'Grace' })
+    await Author.create({ id: 'a3', name: 'Linus' })
+    await putChildArticle('a1', 'x1', { published: { BOOL: true } })
+    await putChildArticle('a2', 'x2', { published: { BOOL: false } })
+    await putChildArticle('a3', 'x3', { published: { BOOL: true }, deletedAt: { S: '2024-01-01T00:00:00.000Z' } })
+  })
+
+  const names = (models: DynamoDBModel[]): unknown[] => models.map(model => model.getAttribute('name')).sort()
+
+  it('should filter by hasMany existence', async () => {
+    expect(names(await Author.query().has('articles').get())).toEqual(['Ada', 'Grace'])
+    expect(names(await Author.query().doesntHave('articles').get())).toEqual(['Linus'])
+  })
+
+  it('should apply whereHas constraints to related items', async () => {
+    const published = await Author.query().whereHas('articles', q => q.where('published', true)).get()
+    expect(names(published)).toEqual(['Ada'])
+
+    expect(await Author.query().whereHas('Article', q => q.where('published', false)).count()).toBe(1)
+  })
+
+  it('should batch belongsTo checks per page', async () => {
+    await Article.create({ id: 'p1', title: 'Notes', authorId: 'a1', published: true })
+    await Article.create({ id: 'p2', title: 'Compilers', authorId: 'a2', published: false })
+    await Article.create({ id: 'p3', title: 'Orphan', authorId: 'missing', published: true })
+
+    const withAuthor = await Article.query().has('author').get()
+    expect(withAuthor.map(article => article.getAttribute('title')).sort()).toEqual(['Compilers', 'Notes'])
+    expect(batchGets).toBe(1)
+
+    const byAda = await Article.query().whereHas('author', q => q.where('name', 'Ada')).get()
+    expect(byAda.map(article => article.getAttribute('title'))).toEqual(['Notes'])
+  })
+
+  it('should query each related partition once per batch', async () => {
+    expect(names(await Author.query().has('articles').get())).toEqual(['Ada', 'Grace'])
+    expect(partitionQueries.filter(pk => pk.startsWith('AUTHOR#')).sort()).toEqual(['AUTHOR#a1', 'AUTHOR#a2', 'AUTHOR#a3'])
+
+    partitionQueries = []
+    const instances = ['a1', 'a2', 'a1', 'a3', 'a2'].map(id => ({ id }))
+    const counts = await getRelationshipCounts(new Author().getParsedModel(), instances, 'Article', registry, defaultConfig, new Author().createRelationshipQueryBuilder())
+    expect(counts).toEqual([1, 1, 1, 1, 1])
+    expect(partitionQueries.sort()).toEqual(['AUTHOR#a1', 'AUTHOR#a2', 'AUTHOR#a3'])
+  })
+
+  it('should compare related item counts', async () => {
+    await putChildArticle('a1', 'x4', { published: { BOOL: false } })
+
+    expect(names(await Author.query().has('articles', '>=', 2).get())).toEqual(['Ada'])
+    expect(names(await Author.query().has('articles', '=', 1).get())).toEqual(['Grace'])
+    expect(names(await Author.query().whereHas('articles', q => q.where('published', false), '<', 1).get())).toEqual(['Linus'])
+  })
+
+  it('should keep paging until the limit is met', async () => {
+    const first = await Author.query().doesntHave('articles').limit(1).get()
+    expect(names(first)).toEqual(['Linus'])
+  })
+
+  it('should reject unknown relationships', async () => {
+    await expect(Author.query().has('comments').get()).rejects.toThrow('Relationship "comments" is not defined on Author')
+  })
+})
+
+describe('Cursor pagination', () => {
+  let driver: DriverPlugin
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+
+    // Every third article is unpublished, so filtered pages span several reads
+    for (let i = 1; i <= 9; i++) {
+      await driver.putItem({
+        tableName: 'MainTable',
+        item: {
+          pk: { S: 'AUTHOR#a1' },
+          sk: { S: `ARTICLE#0${i}` },
+          _et: { S: 'Article' },
+          id: { S: `0${i}` },
+          published: { BOOL: i % 3 !== 0 },
+        },
+      })
+    }
+  })
+
+  const published = (): DynamoDBQueryBuilder<Article> => Article.query().where('pk', 'AUTHOR#a1').where('published', true)
+  const ids = (models: DynamoDBModel[]): unknown[] => models.map(model => model.getAttribute('id'))
+
+  it('should fill pages after filtering and follow next cursors', async () => {
+    const page1 = await published().paginate(4)
+    expect(ids(page1.items)).toEqual(['01', '02', '04', '05'])
+    expect(page1.currentPage).toBe(1)
+    expect(page1.hasMore).toBe(true)
+    expect(page1.prevCursor).toBeUndefined()
+    expect(page1.nextCursor).toMatch(/^[\w-]+$/)
+
+    const page2 = await published().cursorPaginate(page1.nextCursor, 4)
+    expect(ids(page2.items)).toEqual(['07', '08'])
+    expect(page2.currentPage).toBe(2)
+    expect(page2.hasMore).toBe(false)
+    expect(page2.nextCursor).toBeUndefined()
+    expect(page2.total).toBe(6)
+    expect(page2.lastPage).toBe(2)
+  })
+
+  it('should page backward with prev cursors', async () => {
+    const page1 = await published().paginate(2)
+    const page2 = await published().cursorPaginate(page1.nextCursor, 2)
+    const page3 = await published().cursorPaginate(page2.nextCursor, 2)
+    expect(ids(page3.items)).toEqual(['07', '08'])
+
+    const back = await published().cursorPaginate(page3.prevCursor, 2)
+    expect(ids(back.items)).toEqual(['04', '05'])
+    expect(back.currentPage).toBe(2)
+    expect(back.hasMore).toBe(true)
+
+    const start = await published().cursorPaginate(back.prevCursor, 2)
+    expect(ids(start.items)).toEqual(['01', '02'])
+    expect(start.currentPage).toBe(1)
+    expect(start.prevCursor).toBeUndefined()
+    expect(ids((await published().cursorPaginate(start.nextCursor, 2)).items)).toEqual(['04', '05'])
+  })
+
+  it('should page descending queries and scans', async () => {
+    const newest = await Article.query().where('pk', 'AUTHOR#a1').orderByDesc('sk').paginate(3)
+    expect(ids(newest.items)).toEqual(['09', '08', '07'])
+    const older = await Article.query().where('pk', 'AUTHOR#a1').orderByDesc('sk').cursorPaginate(newest.nextCursor, 3)
+    expect(ids(older.items)).toEqual(['06', '05', '04'])
+
+    const scanned: unknown[] = []
+    let cursor: string | undefined
+    do {
+      const page = await Article.query().where('published', false).cursorPaginate(cursor, 2)
+      scanned.push(...ids(page.items))
+      cursor = page.nextCursor
+    } while (cursor)
+    expect(scanned).toEqual(['03', '06', '09'])
+  })
+
+  it('should reject cursors for other queries or with bad signatures', async () => {
+    const page1 = await published().paginate(2)
+    await expect(Article.query().where('pk', 'AUTHOR#a1').cursorPaginate(page1.nextCursor, 2))
+      .rejects.toThrow('cursor was issued for a different query')
+    await expect(published().cursorPaginate('not-a-cursor', 2)).rejects.toThrow('malformed cursor')
+
+    setModelConfig({ ...defaultConfig, queryBuilder: { ...defaultConfig.queryBuilder, cursorSecret: 'secret' } })
+    await expect(published().cursorPaginate(page1.nextCursor, 2)).rejects.toThrow('cursor is not signed')
+
+    const signed = await published().paginate(2)
+    expect(ids((await published().cursorPaginate(signed.nextCursor, 2)).items)).toEqual(['04', '05'])
+
+    const [body, signature] = signed.nextCursor!.split('.')
+    const forged = `${body}.${signature.slice(1)}A`
+    await expect(published().cursorPaginate(forged, 2)).rejects.toThrow('signature mismatch')
+  })
+})
+
+class Order extends DynamoDBModel {
+  static table = 'orders'
+  static primaryKey = 'id'
+  static pkPrefix = 'ORDER'
+  static timestamps = false
+
+  get attributes(): Record<string, ModelAttribute> {
+    return {
+      id: { name: 'id', type: 'string', required: true },
+      region: { name: 'region', type: 'string' },
+      amount: { name: 'amount', type: 'number' },
+    }
+  }
+
+  get relationships(): Record<string, ModelRelationship> {
+    return {}
+  }
+}
+
+describe('Aggregations', () => {
+  let driver: DriverPlugin
+  let projections: Array<string | undefined>
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    // Two items per page, so aggregations have to follow LastEvaluatedKey
+    projections = []
+    const scan = driver.scan.bind(driver)
+    driver.scan = (input) => {
+      projections.push(input.projectionExpression)
+      return scan({ ...input, limit: input.limit ?? 2 })
+    }
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+
+    await Order.create({ id: 'o1', region: 'eu', amount: 10 })
+    await Order.create({ id: 'o2', region: 'eu', amount: 30 })
+    await Order.create({ id: 'o3', region: 'us', amount: 5 })
+    await Order.create({ id: 'o4', region: 'us', amount: 15 })
+    await Order.create({ id: 'o5', region: 'apac' })
+  })
+
+  it('should aggregate every page projecting only the column', async () => {
+    expect(await Order.query().sum('amount')).toBe(60)
+    expect(await Order.query().avg('amount')).toBe(15)
+    expect(await Order.query().min('amount')).toBe(5)
+    expect(await Order.query().max('amount')).toBe(30)
+
+    expect(projections.length).toBeGreaterThan(4)
+    expect(projections.every(projection => projection === '#p0')).toBe(true)
+  })
+
+  it('should compute grouped aggregates in one pass', async () => {
+    const groups = await Order.query().groupBy('region').aggregate({
+      revenue: { fn: 'sum', column: 'amount' },
+      orders: { fn: 'count' },
+      average: { fn: 'avg', column: 'amount' },
+      largest: { fn: 'max', column: 'amount' },
+    })
+
+    const byRegion = Object.fromEntries(groups.map(({ group, values }) => [group.region as string, values]))
+    expect(byRegion).toEqual({
+      eu: { revenue: 40, orders: 2, average: 20, largest: 30 },
+      us: { revenue: 20, orders: 2, average: 10, largest: 15 },
+      apac: { revenue: 0, orders: 1, average: null, largest: null },
+    })
+    expect(projections).toHaveLength(3)
+    await expect(Order.query().aggregate({ total: { fn: 'sum' } })).rejects.toThrow('needs a column')
+  })
+
+  it('should keep precomputed aggregates current from stream records', async () => {
+    const revenue = createPrecomputedAggregate({
+      name: 'revenueByRegion',
+      model: Order,
+      groupBy: ['region'],
+      aggregates: { revenue: { fn: 'sum', column: 'amount' }, orders: { fn: 'count' } },
+    })
+    const processor = createStreamProcessor({ errorMode: 'throw' }).addEntityHandler(revenue.entityHandler())
+
+    expect(await revenue.rebuild()).toHaveLength(3)
+    expect(await revenue.read({ region: 'eu' })).toEqual([{ group: { region: 'eu' }, values: { revenue: 40, orders: 2 } }])
+
+    const image = (id: string, region: string, amount: number): Record<string, DriverAttributeValue> => ({
+      pk: { S: `ORDER#${id}` },
+      sk: { S: `ORDER#${id}` },
+      _et: { S: 'Order' },
+      region: { S: region },
+      amount: { N: String(amount) },
+    })
+    await processor.processEvent(StreamProcessor.parseLambdaEvent({
+      Records: [
+        { eventName: 'INSERT', dynamodb: { Keys: { pk: { S: 'ORDER#o6' } }, NewImage: image('o6', 'eu', 50) } },
+        { eventName: 'MODIFY', dynamodb: { Keys: { pk: { S: 'ORDER#o3' } }, OldImage: image('o3', 'us', 5), NewImage: image('o3', 'eu', 7) } },
+        { eventName: 'REMOVE', dynamodb: { Keys: { pk: { S: 'ORDER#o4' } }, OldImage: image('o4', 'us', 15) } },
+      ],
+    }))
+
+    const groups = Object.fromEntries((await revenue.read()).map(({ group, values }) => [group.region as string, values]))
+    expect(groups).toEqual({
+      eu: { revenue: 97, orders: 4 },
+      apac: { revenue: 0, orders: 1 },
+    })
+    // Other entity types are ignored
+    await revenue.apply({ eventType: 'INSERT', tableName: 'MainTable', entityType: 'USER', keys: { pk: 'USER#1' }, newImage: { region: 'eu', amount: 1 }, timestamp: 0, sequenceNumber: '1' })
+    expect((await revenue.read({ region: 'eu' }))[0].values.revenue).toBe(97)
+
+    expect(() => createPrecomputedAggregate({ name: 'x', model: Order, aggregates: { low: { fn: 'min', column: 'amount' } } }))
+      .toThrow('support count, sum and avg')
+  })
+})
+
+describe('Bulk mutations', () => {
+  let driver: DriverPlugin
+  let batchWrites: number
+  let rawScan: DriverPlugin['scan']
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    // Two items per page, so bulk mutations have to follow LastEvaluatedKey
+    rawScan = driver.scan.bind(driver)
+    driver.scan = input => rawScan({ ...input, limit: input.limit ?? 2 })
+    batchWrites = 0
+    const batchWriteItem = driver.batchWriteItem.bind(driver)
+    driver.batchWriteItem = (input) => {
+      batchWrites++
+      return batchWriteItem(input)
+    }
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+
+    for (let i = 1; i <= 5; i++) {
+      await Order.create({ id: `o${i}`, region: i % 2 === 1 ? 'eu' : 'us', amount: i })
+    }
+  })
+
+  const regions = async (): Promise<Record<string, unknown>> => Object.fromEntries(
+    (await rawScan({ tableName: 'MainTable' })).items.map(item => [unmarshallValue(item.id), unmarshallValue(item.region)]),
+  )
+
+  it('should update every match and skip items that stopped matching', async () => {
+    // o3 moves out of the eu region between the read and its write
+    const updateItem = driver.updateItem.bind(driver)
+    let moved = false
+    driver.updateItem = async (input) => {
+      if (!moved) {
+        moved = true
+        await updateItem({
+          tableName: 'MainTable',
+          key: { pk: { S: 'ORDER#o3' }, sk: { S: 'ORDER#o3' } },
+          updateExpression: 'SET #r = :r',
+          expressionAttributeNames: { '#r': 'region' },
+          expressionAttributeValues: { ':r': { S: 'us' } },
+        })
+      }
+      return updateItem(input)
+    }
+
+    const result = await Order.query().where('region', 'eu').update({ region: 'apac' } as Partial<Order>, { concurrency: 1 })
+
+    expect(result.matched).toBe(3)
+    expect(result.succeeded.map(key => key.pk).sort()).toEqual(['ORDER#o1', 'ORDER#o5'])
+    expect(result.skipped).toEqual([{ pk: 'ORDER#o3', sk: 'ORDER#o3' }])
+    expect(result.failed).toEqual([])
+    expect(await regions()).toEqual({ o1: 'apac', o2: 'us', o3: 'us', o4: 'us', o5: 'apac' })
+  })
+
+  it('should report matches without writing on a dry run', async () => {
+    const result = await Order.query().where('region', 'us').delete({ dryRun: true })
+
+    expect(result.dryRun).toBe(true)
+    expect(result.succeeded.map(key => key.pk).sort()).toEqual(['ORDER#o2', 'ORDER#o4'])
+    expect(batchWrites).toBe(0)
+    expect(Object.keys(await regions())).toHaveLength(5)
+  })
+
+  it('should batch deletes and report failed keys', async () => {
+    const result = await Order.query().where('region', 'eu').delete()
+    expect(result.succeeded).toHaveLength(3)
+    expect(batchWrites).toBe(1)
+    expect(await regions()).toEqual({ o2: 'us', o4: 'us' })
+
+    driver.batchWriteItem = async () => {
+      throw new Error('network down')
+    }
+    const failed = await Order.query().forceDelete()
+    expect(failed.succeeded).toEqual([])
+    expect(failed.failed.map(({ key, error }) => [key.pk, (error as Error).message]).sort()).toEqual([
+      ['ORDER#o2', 'network down'],
+      ['ORDER#o4', 'network down'],
+    ])
+  })
+
+  it('should write each page before reading the next', async () => {
+    const calls: string[] = []
+    const scan = driver.scan.bind(driver)
+    driver.scan = (input) => {
+      calls.push('scan')
+      return scan(input)
+    }
+    const updateItem = driver.updateItem.bind(driver)
+    driver.updateItem = (input) => {
+      calls.push('update')
+      return updateItem(input)
+    }
+
+    const result = await Order.query().update({ amount: 0 } as Partial<Order>, { concurrency: 1 })
+
+    expect(result.matched).toBe(5)
+    expect(calls).toEqual(['scan', 'update', 'update', 'scan', 'update', 'update', 'scan', 'update'])
+  })
+
+  it('should rebuild the index keys derived from updated attributes', async () => {
+    const parsedModel = new Order().getParsedModel()
+    setOrmModelRegistry({
+      models: new Map([['Order', { ...parsedModel, keyPatterns: { ...parsedModel.keyPatterns, gsi1pk: 'REGION#{region}', gsi1sk: 'ORDER#{id}' } }]]),
+      accessPatterns: [],
+      gsiAssignments: new Map(),
+      warnings: [],
+    })
+    await Order.create({ id: 'o6', region: 'eu', amount: 6 })
+    await Order.query().where('id', 'o6').update({ region: 'apac' } as Partial<Order>)
+
+    const { items } = await rawScan({ tableName: 'MainTable' })
+    const item = items.find(candidate => unmarshallValue(candidate.id) === 'o6')!
+    expect(unmarshallValue(item.region)).toBe('apac')
+    expect(unmarshallValue(item.gsi1pk)).toBe('REGION#apac')
+    expect(unmarshallValue(item.gsi1sk)).toBe('ORDER#o6')
+  })
+})
+
+class Account extends DynamoDBModel {
+  static table = 'accounts'
+  static primaryKey = 'id'
+  static pkPrefix = 'ACCOUNT'
+  static timestamps = false
+  static versioning = true
+
+  get attributes(): Record<string, ModelAttribute> {
+    return {
+      id: { name: 'id', type: 'string', required: true },
+      balance: { name: 'balance', type: 'number' },
+    }
+  }
+
+  get relationships(): Record<string, ModelRelationship> {
+    return {}
+  }
+}
+
+describe('Model transactions', () => {
+  let driver: DriverPlugin
+  let transactions: Array<Parameters<DriverPlugin['transactWriteItems']>[0]>
+  const events: string[] = []
+
+  Account.addHook('updated', () => {
+    events.push('Account:updated')
+  })
+  Order.addHook('created', () => {
+    events.push('Order:created')
+  })
+
+  beforeEach(async () => {
+    driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    transactions = []
+    const transactWriteItems = driver.transactWriteItems.bind(driver)
+    driver.transactWriteItems = (input) => {
+      transactions.push(input)
+      return transactWriteItems(input)
+    }
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+
+    await Account.create({ id: 'a1', balance: 100 })
+    events.length = 0
+  })
+
+  it('should commit every write in one call and run hooks after commit', async () => {
+    const account = (await Account.find('a1'))!
+
+    const result = await DynamoDBModel.transaction(async (trx) => {
+      account.fill({ balance: 50 })
+      await trx.save(account)
+      await trx.create(Order, { id: 'o1', region: 'eu', amount: 50 })
+
+      expect(events).toEqual([])
+      expect(await Order.find('o1')).toBeNull()
+      return 'done'
+    }, { clientRequestToken: 'token-1' })
+
+    expect(result).toBe('done')
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].clientRequestToken).toBe('token-1')
+    expect(transactions[0].transactItems[0].update?.conditionExpression).toBe('#v = :v')
+    expect(events).toEqual(['Account:updated', 'Order:created'])
+    expect(account.getAttribute('_v')).toBe(2)
+    expect((await Account.find('a1'))?.getAttribute('balance')).toBe(50)
+    expect(await Order.find('o1')).not.toBeNull()
+  })
+
+  it('should name the failing model when a version check cancels the transaction', async () => {
+    const stale = (await Account.find('a1'))!
+    const current = (await Account.find('a1'))!
+    current.fill({ balance: 80 })
+    await current.save()
+    events.length = 0
+
+    const error = await DynamoDBModel.transaction(async (trx) => {
+      await trx.create(Order, { id: 'o1', region: 'eu', amount: 20 })
+      stale.fill({ balance: 20 })
+      await trx.save(stale)
+    }).catch(e => e)
+
+    expect(error).toBeInstanceOf(TransactionCancelledError)
+    expect(error.failures).toEqual([{
+      index: 1,
+      code: 'ConditionalCheckFailed',
+      message: 'The conditional request failed',
+      item: { model: 'Account', operation: 'update', key: { pk: 'ACCOUNT#a1', sk: 'ACCOUNT#a1' } },
+    }])
+    expect(error.message).toContain('Account update ACCOUNT#a1: ConditionalCheckFailed')
+    expect(events).toEqual([])
+    expect(await Order.find('o1')).toBeNull()
+    expect(stale.getAttribute('_v')).toBe(1)
+  })
+
+  it('should check conditions on items it does not write', async () => {
+    const account = new Account({ id: 'a1' })
+    const transfer = (amount: number): Promise<void> => DynamoDBModel.transaction(async (trx) => {
+      trx.conditionCheck(account, 'balance >= :amount', { expressionAttributeValues: { ':amount': amount } })
+      await trx.create(Order, { id: `o${amount}`, region: 'eu', amount })
+    })
+
+    await expect(transfer(500)).rejects.toThrow('Account conditionCheck ACCOUNT#a1: ConditionalCheckFailed')
+    await transfer(60)
+
+    expect(await Order.find('o500')).toBeNull()
+    expect(await Order.find('o60')).not.toBeNull()
+  })
+
+  it('should refuse more writes than one TransactWriteItems call accepts', async () => {
+    const transaction = DynamoDBModel.transaction(async (trx) => {
+      for (let i = 0; i <= 100; i++) {
+        await trx.create(Order, { id: `o${i}`, region: 'eu', amount: i })
+      }
+    })
+
+    await expect(transaction).rejects.toBeInstanceOf(TransactionLimitError)
+    expect(transactions).toEqual([])
+  })
+})
+
+describe('Atomic updates', () => {
+  beforeEach(async () => {
+    const driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry({ models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] })
+  })
+
+  it('should not lose concurrent increments', async () => {
+    await Account.create({ id: 'a1', balance: 100 })
+    const first = (await Account.find('a1'))!
+    const second = (await Account.find('a1'))!
+
+    expect(await first.increment('balance', 10)).toBe(110)
+    expect(await second.increment('balance', 5)).toBe(115)
+    expect(await second.decrement('balance')).toBe(114)
+
+    expect(first.getAttribute('balance')).toBe(110)
+    expect(second.isDirty()).toBe(false)
+    const stored = (await Account.find('a1'))!
+    expect(stored.getAttribute('balance')).toBe(114)
+    expect(stored.getAttribute('_v')).toBe(4)
+  })
+
+  it('should compile lists, sets, removals and if_not_exists to native clauses', async () => {
+    const order = await Order.create({ id: 'o1', region: 'eu', amount: 5 })
+
+    expect(await order.append('history', ['created'])).toEqual(['created'])
+    expect(await order.append('history', ['paid'])).toEqual(['created', 'paid'])
+    expect(await order.addToSet('tags', ['gift', 'rush'])).toEqual(new Set(['gift', 'rush']))
+    expect(await order.deleteFromSet('tags', ['rush'])).toEqual(new Set(['gift']))
+    expect(await order.setIfNotExists('firstPaidAt', 'monday')).toBe('monday')
+    expect(await order.setIfNotExists('firstPaidAt', 'tuesday')).toBe('monday')
+    expect(await order.setIfNotExists('stats', {})).toEqual({})
+    expect(await order.increment('stats.views', 2)).toBe(2)
+    await order.remove('region')
+
+    const stored = (await Order.find('o1'))!.toJSON()
+    expect(stored.history).toEqual(['created', 'paid'])
+    expect(stored.tags).toEqual(new Set(['gift']))
+    expect(stored.firstPaidAt).toBe('monday')
+    expect(stored.stats).toEqual({ views: 2 })
+    expect(stored.region).toBeUndefined()
+    expect(order.getAttribute('region')).toBeUndefined()
+  })
+
+  it('should honour conditions on instance and query updates', async () => {
+    const account = await Account.create({ id: 'a1', balance: 100 })
+    const withdraw = (amount: number): Promise<number> => account.decrement('balance', amount, {
+      condition: 'balance >= :amount',
+      expressionAttributeValues: { ':amount': amount },
+    })
+
+    const error = await withdraw(500).catch(e => e)
+    expect(isConditionalCheckFailedError(error)).toBe(true)
+    expect(await withdraw(60)).toBe(40)
+
+    for (let i = 1; i <= 4; i++) {
+      await Order.create({ id: `o${i}`, region: i === 4 ? 'us' : 'eu', amount: i })
+    }
+    const result = await Order.query().where('region', 'eu').increment('amount', 10, {
+      condition: 'amount < :max',
+      expressionAttributeValues: { ':max': 3 },
+    })
+
+    expect(result.succeeded.map(key => key.pk).sort()).toEqual(['ORDER#o1', 'ORDER#o2'])
+    expect(result.skipped).toEqual([{ pk: 'ORDER#o3', sk: 'ORDER#o3' }])
+    expect(result.updated?.map(({ key, values }) => [key.pk, values.amount]).sort()).toEqual([
+      ['ORDER#o1', 11],
+      ['ORDER#o2', 12],
+    ])
+    expect((await Order.find('o4'))?.getAttribute('amount')).toBe(4)
+  })
+})
+
+describe('Model classes from Stacks models', () => {
+  const author = parseModel({
+    name: 'Author',
+    attributes: {
+      name: { fillable: true },
+      active: { fillable: true, validation: { rule: 'boolean' } },
+    },
+    hasMany: ['Book'],
+    traits: { useTimestamps: false },
+    scopes: { active: (...args: unknown[]) => (args[0] as DynamoDBQueryBuilder<DynamoDBModel>).where('active', true) },
+  }, defaultConfig)
+  const book = parseModel({
+    name: 'Book',
+    attributes: {
+      title: { fillable: true },
+      authorId: { fillable: true },
+    },
+    belongsTo: ['Author'],
+    traits: { useTimestamps: false },
+  }, defaultConfig)
+
+  const registry: ModelRegistry = {
+    models: new Map([['Author', author], ['Book', book]]),
+    accessPatterns: [],
+    gsiAssignments: new Map(),
+    warnings: [],
+  }
+
+  beforeEach(async () => {
+    const driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    setOrmModelRegistry(registry)
+  })
+
+  it('should build named model classes with attributes, relationships and scopes', async () => {
+    const { Author, Book } = createModelClasses(registry)
+
+    expect(Author.name).toBe('Author')
+    expect(Author.pkPrefix).toBe(author.entityType)
+    expect(Object.keys(new Author().relationships)).toEqual(['Book'])
+    expect(new Book().attributes.title.fillable).toBe(true)
+    expect([...Author.getGlobalScopes().keys()]).toEqual(['active'])
+
+    await Author.create({ id: 'a1', name: 'Ada', active: true })
+    await Author.create({ id: 'a2', name: 'Grace', active: false })
+    await Book.create({ id: 'b1', title: 'Notes', authorId: 'a1' })
+
+    const active = await Author.query().scope('active').get()
+    expect(active.map(model => model.getAttribute('name'))).toEqual(['Ada'])
+    expect((await Book.find('b1'))?.getAttribute('title')).toBe('Notes')
+  })
+})
+
+describe('Request coalescing', () => {
+  let getItems: number
+  let batchGets: Array<{ tableName: string, keys: number }>
+
+  beforeEach(async () => {
+    const driver = createMemoryDriver()
+    await driver.createTable({
+      tableName: 'MainTable',
+      keySchema: [
+        { attributeName: 'pk', keyType: 'HASH' },
+        { attributeName: 'sk', keyType: 'RANGE' },
+      ],
+      attributeDefinitions: [
+        { attributeName: 'pk', attributeType: 'S' },
+        { attributeName: 'sk', attributeType: 'S' },
+      ],
+      billingMode: 'PAY_PER_REQUEST',
+    })
+
+    getItems = 0
+    batchGets = []
+    const getItem = driver.getItem.bind(driver)
+    driver.getItem = (input) => {
+      getItems++
+      return getItem(input)
+    }
+    const batchGetItem = driver.batchGetItem.bind(driver)
+    driver.batchGetItem = (input) => {
+      for (const [tableName, request] of Object.entries(input.requestItems)) {
+        batchGets.push({ tableName, keys: request.keys.length })
+      }
+      return batchGetItem(input)
+    }
+
+    setModelClient(createDriverModelClient(driver))
+    setModelConfig(defaultConfig)
+    const registry: ModelRegistry = { models: new Map(), accessPatterns: [], gsiAssignments: new Map(), warnings: [] }
+    setOrmModelRegistry(registry)
+    registry.models.set('Author', new Author().getParsedModel())
+    registry.models.set('Article', new Article().getParsedModel())
+
+    await Author.create({ id: 'a1', name: 'Ada' })
+    await Author.create({ id: 'a2', name: 'Grace' })
+    await Author.create({ id: 'a3', name: 'Linus' })
+    getItems = 0
+  })
+
+  it('should give each caller its own result from one batch', async () => {
+    const coalescer = createRequestCoalescer<string, string>(async keys =>
+      new Map(keys.filter(key => key !== 'missing').map(key => [key, key.toUpperCase()])), { windowMs: 0 })
+
+    const results = await Promise.all([
+      coalescer.get('t', 'a'),
+      coalescer.get('t', 'b'),
+      coalescer.get('t', 'missing'),
+    ])
+    expect(results).toEqual(['A', 'B', undefined])
+  })
+
+  it('should de-duplicate keys and cap batch size', async () => {
+    const batches: string[][] = []
+    const coalescer = createRequestCoalescer<string, number>(async (keys) => {
+      batches.push(keys)
+      return new Map(keys.map(key => [key, Number(key)]))
+    }, { windowMs: 0, maxBatchItems: 100 })
+
+    const keys = Array.from({ length: 150 }, (_, i) => String(i))
+    const results = await Promise.all([...keys, '120', '120'].map(key => coalescer.get('t', key)))
+
+    expect(batches.map(batch => batch.length)).toEqual([100, 50])
+    expect(results.slice(-3)).toEqual([149, 120, 120])
+  })
+
+  it('should retry unprocessed keys and reject on failure', async () => {
+    let calls = 0
+    const coalescer = createRequestCoalescer<string, string>(async (keys) => {
+      calls++
+      const [first, ...rest] = keys
+      return { results: new Map([[first, `${first}!`]]), unprocessedKeys: rest }
+    }, { windowMs: 0, retryDelayMs: 1 })
+
+    expect(await Promise.all(['a', 'b', 'c'].map(key => coalescer.get('t', key)))).toEqual(['a!', 'b!', 'c!'])
+    expect(calls).toBe(3)
+
+    const failing = createRequestCoalescer<string, string>(async () => {
+      throw new Error('throttled')
+    }, { windowMs: 0 })
+    await expect(failing.get('t', 'a')).rejects.toThrow('throttled')
+  })
+
+  it('should coalesce concurrent finds into one BatchGetItem', async () => {
+    const [ada, grace, missing, again] = await Promise.all([
+      Author.find('a1'),
+      Author.find('a2'),
+      Author.find('nobody'),
+      Author.find('a1'),
+    ])
+
+    expect(ada?.getAttribute('name')).toBe('Ada')
+    expect(grace?.getAttribute('name')).toBe('Grace')
+    expect(missing).toBeNull()
+    expect(again?.getAttribute('name')).toBe('Ada')
+    expect(again).not.toBe(ada)
+    expect(batchGets).toEqual([{ tableName: 'MainTable', keys: 3 }])
+    expect(getItems).toBe(0)
+
+    expect((await Author.find('a3'))?.getAttribute('name')).toBe('Linus')
+    expect(getItems).toBe(1)
+  })
+
+  it('should batch eager-loaded belongsTo relationships', async () => {
+    await Article.create({ id: 'p1', title: 'Notes', authorId: 'a1' })
+    await Article.create({ id: 'p2', title: 'Compilers', authorId: 'a2' })
+    await Article.create({ id: 'p3', title: 'More notes', authorId: 'a1' })
+    batchGets = []
+
+    const articles = await Article.query().with('Author').get()
+    const authors = Object.fromEntries(articles.map(article =>
+      [article.getAttribute('title'), (article._relations.get('Author') as unknown as Record<string, unknown>)?.name]))
+
+    expect(authors).toEqual({ 'Notes': 'Ada', 'Compilers': 'Grace', 'More notes': 'Ada' })
+    expect(batchGets).toEqual([{ tableName: 'MainTable', keys: 2 }])
+  })
+})